@@ -0,0 +1,133 @@
+#!/usr/bin/env npx tsx
+/**
+ * Local Gmail push testing CLI.
+ *
+ * Posts a fake Cloud Pub/Sub push envelope to the local Gmail webhook,
+ * standing in for Gmail + Pub/Sub so the push path can be exercised end
+ * to end without a Google Cloud project. The server must run with
+ * EMAIL_WATCHER_PUSH_ENABLED=true and the mailbox must have a registered
+ * watch (created by the renewal poller on startup).
+ *
+ * Usage:
+ *   npm run gmail-push -- --email "me@gmail.com"
+ *   npm run gmail-push -- --email "me@gmail.com" --history 123456
+ */
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+const TOKEN = process.env.GMAIL_PUSH_VERIFICATION_TOKEN || '';
+
+interface Options {
+  email: string;
+  historyId: string;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    email: '',
+    historyId: String(Date.now()),
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--email' || arg === '-e') {
+      options.email = args[++i] || options.email;
+    } else if (arg === '--history' || arg === '-H') {
+      options.historyId = args[++i] || options.historyId;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+function printHelp(): void {
+  console.log(`
+Local Gmail Push Testing CLI
+
+Usage:
+  npm run gmail-push -- --email "me@gmail.com"
+  npm run gmail-push -- --email "me@gmail.com" --history 123456
+
+Options:
+  --email, -e       Watched mailbox address (required)
+  --history, -H     historyId to report (default: current timestamp)
+  --help, -h        Show this help message
+
+Environment:
+  BASE_URL                        Server URL (default: http://localhost:3000)
+  GMAIL_PUSH_VERIFICATION_TOKEN   Must match the server's token
+`);
+}
+
+async function sendNotification(options: Options): Promise<void> {
+  if (!options.email) {
+    console.error('Error: No mailbox address provided');
+    console.error('Usage: npm run gmail-push -- --email "me@gmail.com"');
+    process.exit(1);
+  }
+
+  if (!TOKEN) {
+    console.error('Error: GMAIL_PUSH_VERIFICATION_TOKEN is not set');
+    process.exit(1);
+  }
+
+  const data = Buffer.from(JSON.stringify({
+    emailAddress: options.email,
+    historyId: Number(options.historyId),
+  })).toString('base64');
+
+  const envelope = {
+    message: {
+      data,
+      messageId: `local-${Date.now()}`,
+      publishTime: new Date().toISOString(),
+    },
+    subscription: 'projects/local/subscriptions/gmail-push',
+  };
+
+  const url = `${BASE_URL}/webhook/gmail?token=${encodeURIComponent(TOKEN)}`;
+
+  console.log('----------------------------------------');
+  console.log(`Mailbox: ${options.email}`);
+  console.log(`History ID: ${options.historyId}`);
+  console.log('----------------------------------------');
+  console.log(`Sending to: ${BASE_URL}/webhook/gmail`);
+  console.log('');
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(envelope),
+    });
+
+    const text = await response.text();
+
+    console.log(`Response Status: ${response.status}`);
+    if (text) {
+      console.log(`Response Body: ${text}`);
+    }
+    console.log('');
+    console.log('Check server logs for the sync output.');
+
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('ECONNREFUSED')) {
+      console.error('Error: Could not connect to server');
+      console.error('Make sure the server is running: npm run dev:server');
+    } else {
+      console.error('Error:', error instanceof Error ? error.message : error);
+    }
+    process.exit(1);
+  }
+}
+
+// Parse arguments (skip node and script path)
+const args = process.argv.slice(2);
+const options = parseArgs(args);
+
+sendNotification(options);
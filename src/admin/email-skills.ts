@@ -1,12 +1,20 @@
 /**
  * @fileoverview Email watcher admin API handlers.
  *
- * Provides endpoints for viewing and toggling the email watcher.
+ * Provides endpoints for viewing and toggling the email watcher, and for
+ * inspecting the processing ledger and replaying individual messages.
  * Email skill CRUD has been removed — skills are now managed via filesystem skill packs.
  */
 
 import type { Request, Response } from 'express';
 import { getUserConfigStore } from '../services/user-config/index.js';
+import { getProcessingLedger, replayEmail } from '../domains/email-watcher/runtime/index.js';
+import type { LedgerStatus } from '../domains/email-watcher/runtime/index.js';
+
+const LEDGER_STATUSES: LedgerStatus[] = ['pending', 'fetched', 'classified', 'actioned', 'failed', 'skipped'];
+
+const DEFAULT_LEDGER_LIMIT = 100;
+const MAX_LEDGER_LIMIT = 500;
 
 /**
  * GET /admin/api/email-watcher/status
@@ -53,3 +61,58 @@ export async function toggleWatcher(req: Request, res: Response): Promise<void>
     res.status(500).json({ error: 'Failed to toggle watcher' });
   }
 }
+
+/**
+ * GET /admin/api/email-watcher/ledger
+ * Lists processing ledger entries, most recently updated first.
+ * Optional query: phoneNumber, status, limit (default 100, max 500).
+ */
+export async function listLedger(req: Request, res: Response): Promise<void> {
+  try {
+    const { phoneNumber, status, limit } = req.query;
+
+    if (status !== undefined && !LEDGER_STATUSES.includes(status as LedgerStatus)) {
+      res.status(400).json({ error: `status must be one of: ${LEDGER_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const parsedLimit = limit === undefined ? DEFAULT_LEDGER_LIMIT : Number(limit);
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1) {
+      res.status(400).json({ error: 'limit must be a positive integer' });
+      return;
+    }
+
+    const entries = getProcessingLedger().list({
+      phoneNumber: typeof phoneNumber === 'string' && phoneNumber ? phoneNumber : undefined,
+      status: status as LedgerStatus | undefined,
+      limit: Math.min(parsedLimit, MAX_LEDGER_LIMIT),
+    });
+
+    res.json({ entries });
+  } catch (error) {
+    console.error('Error listing email watcher ledger:', error);
+    res.status(500).json({ error: 'Failed to list email watcher ledger' });
+  }
+}
+
+/**
+ * POST /admin/api/email-watcher/replay
+ * Runs one message through classification and actions again.
+ */
+export async function replayLedgerMessage(req: Request, res: Response): Promise<void> {
+  try {
+    const { phoneNumber, messageId } = req.body ?? {};
+
+    if (typeof phoneNumber !== 'string' || !phoneNumber || typeof messageId !== 'string' || !messageId) {
+      res.status(400).json({ error: 'phoneNumber (string) and messageId (string) are required' });
+      return;
+    }
+
+    const entry = await replayEmail(phoneNumber, messageId);
+
+    res.json({ entry });
+  } catch (error) {
+    console.error('Error replaying email:', error);
+    res.status(500).json({ error: 'Failed to replay email' });
+  }
+}
@@ -7,19 +7,28 @@
  * Routes:
  * - GET /admin/memory - Memory management UI
  * - GET /admin/api/memories - List all memories
+ * - GET /admin/api/memories/:id/adjustments - Confidence adjustments of a memory
  * - DELETE /admin/api/memories/:id - Delete a memory
  * - GET /admin/api/email-watcher/status - Get watcher status
  * - POST /admin/api/email-watcher/toggle - Toggle watcher for a user
+ * - GET /admin/api/email-watcher/ledger - List processed Gmail messages
+ * - POST /admin/api/email-watcher/replay - Replay a message through classification and actions
  * - GET /admin/api/skills - List filesystem skills and load errors
+ * - GET /admin/api/scheduler/runs - List scheduled job run history
+ * - GET /admin/api/plans/:requestId - Inspect a request's execution plan
+ * - GET /admin/api/usage - Model usage, estimated cost and budget status
  */
 
 import express, { Router, type Request, type Response } from 'express';
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
-import { listMemories, deleteMemory } from './memory.js';
-import { watcherStatus, toggleWatcher } from './email-skills.js';
+import { listMemories, listMemoryAdjustments, deleteMemory } from './memory.js';
+import { watcherStatus, toggleWatcher, listLedger, replayLedgerMessage } from './email-skills.js';
 import { listFilesystemSkills } from './skills.js';
+import { listSchedulerRuns } from './scheduler.js';
+import { getPlan } from './plans.js';
+import { getUsage } from './usage.js';
 
 const router = Router();
 
@@ -50,6 +59,12 @@ router.get('/admin/memory', (_req: Request, res: Response) => {
  */
 router.get('/admin/api/memories', listMemories);
 
+/**
+ * GET /admin/api/memories/:id/adjustments
+ * Returns a memory's confidence adjustments as JSON.
+ */
+router.get('/admin/api/memories/:id/adjustments', listMemoryAdjustments);
+
 /**
  * DELETE /admin/api/memories/:id
  * Deletes a memory by ID.
@@ -68,10 +83,40 @@ router.get('/admin/api/email-watcher/status', watcherStatus);
  */
 router.post('/admin/api/email-watcher/toggle', express.json(), toggleWatcher);
 
+/**
+ * GET /admin/api/email-watcher/ledger
+ * Lists processing ledger entries (filter by phoneNumber, status; limit).
+ */
+router.get('/admin/api/email-watcher/ledger', listLedger);
+
+/**
+ * POST /admin/api/email-watcher/replay
+ * Replays one message through classification and actions.
+ */
+router.post('/admin/api/email-watcher/replay', express.json(), replayLedgerMessage);
+
 /**
  * GET /admin/api/skills
  * Returns loaded filesystem skills and load errors (read-only).
  */
 router.get('/admin/api/skills', listFilesystemSkills);
 
+/**
+ * GET /admin/api/scheduler/runs
+ * Lists scheduled job runs, most recent first.
+ */
+router.get('/admin/api/scheduler/runs', listSchedulerRuns);
+
+/**
+ * GET /admin/api/plans/:requestId
+ * Returns a request's execution plan, steps and step results.
+ */
+router.get('/admin/api/plans/:requestId', getPlan);
+
+/**
+ * GET /admin/api/usage
+ * Returns model usage and estimated cost from the usage ledger.
+ */
+router.get('/admin/api/usage', getUsage);
+
 export default router;
@@ -24,6 +24,26 @@ export async function listMemories(_req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * GET /admin/api/memories/:id/adjustments
+ * Returns the confidence adjustments (reinforcement, decay, promotion) of a memory.
+ */
+export async function listMemoryAdjustments(
+  req: Request<{ id: string }>,
+  res: Response
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const store = getMemoryStore();
+    const adjustments = await store.getFactAdjustments(id);
+
+    res.json({ adjustments });
+  } catch (error) {
+    console.error('Error listing memory adjustments:', error);
+    res.status(500).json({ error: 'Failed to list memory adjustments' });
+  }
+}
+
 /**
  * DELETE /admin/api/memories/:id
  * Deletes a memory by ID.
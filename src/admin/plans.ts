@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Orchestrator plan admin API handlers.
+ *
+ * Provides an endpoint for inspecting the persisted execution plan of a
+ * request: its steps, their statuses and results, and the reply sent.
+ */
+
+import type { Request, Response } from 'express';
+import { getPlanStore } from '../services/plans/index.js';
+
+/**
+ * GET /admin/api/plans/:requestId
+ * Returns the plan of a request (the requestId field in logs and traces).
+ */
+export async function getPlan(
+  req: Request<{ requestId: string }>,
+  res: Response
+): Promise<void> {
+  try {
+    const { requestId } = req.params;
+
+    const plan = await getPlanStore().get(requestId);
+    if (!plan) {
+      res.status(404).json({ error: 'Plan not found' });
+      return;
+    }
+
+    res.json({ plan });
+  } catch (error) {
+    console.error('Error fetching plan:', error);
+    res.status(500).json({ error: 'Failed to fetch plan' });
+  }
+}
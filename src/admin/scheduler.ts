@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Scheduler admin API handlers.
+ *
+ * Provides an endpoint for inspecting scheduled job run history.
+ */
+
+import type { Request, Response } from 'express';
+import { getSchedulerDb, listJobRuns } from '../domains/scheduler/runtime/index.js';
+import type { JobRunStatus } from '../domains/scheduler/runtime/index.js';
+
+const RUN_STATUSES: JobRunStatus[] = ['running', 'success', 'failed', 'skipped'];
+
+const DEFAULT_RUNS_LIMIT = 100;
+const MAX_RUNS_LIMIT = 500;
+
+/**
+ * GET /admin/api/scheduler/runs
+ * Lists scheduled job runs, most recent first.
+ * Optional query: jobId, phoneNumber, status, limit (default 100, max 500).
+ */
+export async function listSchedulerRuns(req: Request, res: Response): Promise<void> {
+  try {
+    const { jobId, phoneNumber, status, limit } = req.query;
+
+    if (status !== undefined && !RUN_STATUSES.includes(status as JobRunStatus)) {
+      res.status(400).json({ error: `status must be one of: ${RUN_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const parsedLimit = limit === undefined ? DEFAULT_RUNS_LIMIT : Number(limit);
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1) {
+      res.status(400).json({ error: 'limit must be a positive integer' });
+      return;
+    }
+
+    const runs = listJobRuns(getSchedulerDb(), {
+      jobId: typeof jobId === 'string' && jobId ? jobId : undefined,
+      phoneNumber: typeof phoneNumber === 'string' && phoneNumber ? phoneNumber : undefined,
+      status: status as JobRunStatus | undefined,
+      limit: Math.min(parsedLimit, MAX_RUNS_LIMIT),
+    });
+
+    res.json({ runs });
+  } catch (error) {
+    console.error('Error listing scheduler runs:', error);
+    res.status(500).json({ error: 'Failed to list scheduler runs' });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Usage admin API handlers.
+ *
+ * Provides an endpoint for inspecting model usage and estimated cost from
+ * the usage ledger, and a user's standing against their budgets.
+ */
+
+import type { Request, Response } from 'express';
+import { getUsageStore } from '../services/usage/index.js';
+import { getBudgetStatus } from '../services/usage/budget.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 366;
+
+/**
+ * GET /admin/api/usage
+ * Returns usage grouped by user, provider, model and purpose, most
+ * expensive first, with totals.
+ * Optional query: phoneNumber (adds the user's budget status), days
+ * (default 30, max 366).
+ */
+export async function getUsage(req: Request, res: Response): Promise<void> {
+  try {
+    const { phoneNumber, days } = req.query;
+
+    const parsedDays = days === undefined ? DEFAULT_USAGE_DAYS : Number(days);
+    if (!Number.isInteger(parsedDays) || parsedDays < 1) {
+      res.status(400).json({ error: 'days must be a positive integer' });
+      return;
+    }
+
+    const phone = typeof phoneNumber === 'string' && phoneNumber ? phoneNumber : undefined;
+    const sinceMs = Date.now() - Math.min(parsedDays, MAX_USAGE_DAYS) * DAY_MS;
+
+    const rows = await getUsageStore().summarize({ phoneNumber: phone, sinceMs });
+    const totals = rows.reduce(
+      (sum, row) => ({
+        calls: sum.calls + row.calls,
+        inputTokens: sum.inputTokens + row.inputTokens,
+        outputTokens: sum.outputTokens + row.outputTokens,
+        costUsd: sum.costUsd + row.costUsd,
+      }),
+      { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+    );
+
+    res.json({
+      since: new Date(sinceMs).toISOString(),
+      totals,
+      rows,
+      ...(phone ? { budget: await getBudgetStatus(phone) } : {}),
+    });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    res.status(500).json({ error: 'Failed to fetch usage' });
+  }
+}
@@ -43,6 +43,20 @@ function optionalBool(key: string, defaultValue: boolean): boolean {
   return raw !== (defaultValue ? 'false' : 'true') ? defaultValue : !defaultValue;
 }
 
+/**
+ * Read an optional `key:number` list env var, e.g. "health:365,interests:60".
+ * Malformed entries are kept as NaN so validateConfig can report them.
+ */
+function optionalNumberMap(key: string): Record<string, number> {
+  const raw = process.env[key];
+  if (!raw) return {};
+  const entries = raw.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const [name, value] = entry.split(':');
+    return [name.trim(), value === undefined ? NaN : Number(value)] as const;
+  });
+  return Object.fromEntries(entries);
+}
+
 /** Return a path that differs between dev and production. */
 function dbPath(envKey: string, prodPath: string, devPath: string): string {
   return process.env[envKey] || (process.env.NODE_ENV === 'production' ? prodPath : devPath);
@@ -75,6 +89,18 @@ const config = {
     composer: optional('COMPOSER_MODEL_ID', 'claude-opus-4-5-20251101'),
   },
 
+  /** Model tiers picked per call by task complexity (see services/anthropic/routing.ts) */
+  modelRouting: {
+    /** When false, every call uses its role's model from `models` */
+    enabled: optionalBool('MODEL_ROUTING_ENABLED', true),
+    tiers: {
+      fast: optional('MODEL_TIER_FAST_ID', 'claude-haiku-4-5-20251001'),
+      /** Unset: each role keeps its model from `models` for standard work */
+      standard: process.env.MODEL_TIER_STANDARD_ID as string | undefined,
+      strong: optional('MODEL_TIER_STRONG_ID', 'claude-opus-4-5-20251101'),
+    },
+  },
+
   /** Twilio configuration for SMS */
   twilio: {
     accountSid: required('TWILIO_ACCOUNT_SID'),
@@ -108,6 +134,13 @@ const config = {
   memory: {
     sqlitePath: dbPath('MEMORY_SQLITE_PATH', '/app/data/memory.db', './data/memory.db'),
     injectionThreshold: optionalFloat('MEMORY_INJECTION_THRESHOLD', 0.5),
+    /** 'local' hashes words offline; 'gemini' calls the Gemini embedding API; 'none' disables retrieval */
+    embeddingProvider: optional('MEMORY_EMBEDDING_PROVIDER', 'local') as 'local' | 'gemini' | 'none',
+    embeddingModel: optional('MEMORY_EMBEDDING_MODEL', 'text-embedding-004'),
+    /** How often the confidence decay job runs on the memory processor poller */
+    decayIntervalMs: optionalInt('MEMORY_DECAY_INTERVAL_MS', 24 * 60 * 60 * 1000),
+    /** Per-category half-life overrides in days, e.g. "health:365,interests:60" */
+    decayHalfLifeDays: optionalNumberMap('MEMORY_DECAY_HALF_LIFE_DAYS'),
   },
 
   /** Conversation storage configuration */
@@ -115,6 +148,24 @@ const config = {
     sqlitePath: dbPath('CONVERSATION_DB_PATH', '/app/data/conversation.db', './data/conversation.db'),
   },
 
+  /** Actions awaiting the user's confirmation (see services/pending-actions) */
+  pendingActions: {
+    /** How long a yes/no reply can still confirm a proposed action */
+    ttlMs: optionalInt('PENDING_ACTION_TTL_MS', 10 * 60 * 1000),
+  },
+
+  /** Per-user model spend limits (see services/usage/budget.ts) */
+  usage: {
+    /** Spend per user per UTC day in USD; 0 means no limit */
+    dailyBudgetUsd: optionalFloat('USAGE_DAILY_BUDGET_USD', 0),
+    /** Spend per user per UTC month in USD; 0 means no limit */
+    monthlyBudgetUsd: optionalFloat('USAGE_MONTHLY_BUDGET_USD', 0),
+    /** Share of a budget after which Claude calls switch to the fallback model */
+    degradeAt: optionalFloat('USAGE_DEGRADE_AT', 0.8),
+    /** Cheaper Claude model used once a user nears a budget */
+    fallbackModel: optional('USAGE_FALLBACK_MODEL_ID', 'claude-haiku-4-5-20251001'),
+  },
+
   /** Async memory processor configuration */
   memoryProcessor: {
     intervalMs: optionalInt('MEMORY_PROCESSOR_INTERVAL_MS', 300000),
@@ -130,9 +181,21 @@ const config = {
     enabled: optionalBool('EMAIL_WATCHER_ENABLED', true),
     intervalMs: optionalInt('EMAIL_WATCHER_INTERVAL_MS', 60000),
     modelId: optional('EMAIL_WATCHER_MODEL_ID', 'claude-sonnet-4-5-20250929'),
+    /** 'llm' batches emails through the model; 'keyword' uses skill match hints only */
+    classifier: optional('EMAIL_WATCHER_CLASSIFIER', 'llm') as 'llm' | 'keyword',
     batchSize: optionalInt('EMAIL_WATCHER_BATCH_SIZE', 20),
     maxNotificationsPerHour: optionalInt('EMAIL_WATCHER_MAX_NOTIFICATIONS_PER_HOUR', 10),
     confidenceThreshold: optionalFloat('EMAIL_WATCHER_CONFIDENCE_THRESHOLD', 0.6),
+    /** Gmail push notifications via Pub/Sub; polling remains as the fallback */
+    push: {
+      enabled: optionalBool('EMAIL_WATCHER_PUSH_ENABLED', false),
+      /** Pub/Sub topic Gmail publishes to: projects/<project>/topics/<topic> */
+      topicName: optional('GMAIL_PUSH_TOPIC', ''),
+      /** Shared secret expected in the push subscription URL (?token=...) */
+      verificationToken: optional('GMAIL_PUSH_VERIFICATION_TOKEN', ''),
+      /** Users with an active watch are still polled this often in case a push is missed */
+      fallbackIntervalMs: optionalInt('EMAIL_WATCHER_PUSH_FALLBACK_MS', 900000),
+    },
   },
 
   /** Media-first planning configuration */
@@ -255,6 +318,34 @@ export function validateConfig(): void {
   if (config.memory.injectionThreshold < 0 || config.memory.injectionThreshold > 1) {
     errors.push(`MEMORY_INJECTION_THRESHOLD must be 0-1, got ${config.memory.injectionThreshold}`);
   }
+  if (!['local', 'gemini', 'none'].includes(config.memory.embeddingProvider)) {
+    errors.push(
+      `MEMORY_EMBEDDING_PROVIDER must be 'local', 'gemini' or 'none', got ${config.memory.embeddingProvider}`
+    );
+  }
+  if (config.memory.embeddingProvider === 'gemini' && !config.google.geminiApiKey) {
+    errors.push('MEMORY_EMBEDDING_PROVIDER=gemini requires GEMINI_API_KEY');
+  }
+  if (config.memory.decayIntervalMs < 60000) {
+    errors.push(`MEMORY_DECAY_INTERVAL_MS must be >= 60000, got ${config.memory.decayIntervalMs}`);
+  }
+  for (const [category, days] of Object.entries(config.memory.decayHalfLifeDays)) {
+    if (!category || !(days > 0)) {
+      errors.push(`MEMORY_DECAY_HALF_LIFE_DAYS entries must be category:days with days > 0, got '${category}:${days}'`);
+    }
+  }
+  if (config.pendingActions.ttlMs < 60000) {
+    errors.push(`PENDING_ACTION_TTL_MS must be >= 60000, got ${config.pendingActions.ttlMs}`);
+  }
+  if (config.usage.dailyBudgetUsd < 0) {
+    errors.push(`USAGE_DAILY_BUDGET_USD must be >= 0, got ${config.usage.dailyBudgetUsd}`);
+  }
+  if (config.usage.monthlyBudgetUsd < 0) {
+    errors.push(`USAGE_MONTHLY_BUDGET_USD must be >= 0, got ${config.usage.monthlyBudgetUsd}`);
+  }
+  if (config.usage.degradeAt <= 0 || config.usage.degradeAt > 1) {
+    errors.push(`USAGE_DEGRADE_AT must be > 0 and <= 1, got ${config.usage.degradeAt}`);
+  }
   if (config.ui.pageTtlDays < 1) {
     errors.push(`PAGE_TTL_DAYS must be >= 1, got ${config.ui.pageTtlDays}`);
   }
@@ -264,9 +355,23 @@ export function validateConfig(): void {
   if (config.emailWatcher.batchSize < 1 || config.emailWatcher.batchSize > 100) {
     errors.push(`EMAIL_WATCHER_BATCH_SIZE must be 1-100, got ${config.emailWatcher.batchSize}`);
   }
+  if (!['llm', 'keyword'].includes(config.emailWatcher.classifier)) {
+    errors.push(`EMAIL_WATCHER_CLASSIFIER must be 'llm' or 'keyword', got ${config.emailWatcher.classifier}`);
+  }
   if (config.emailWatcher.confidenceThreshold < 0 || config.emailWatcher.confidenceThreshold > 1) {
     errors.push(`EMAIL_WATCHER_CONFIDENCE_THRESHOLD must be 0-1, got ${config.emailWatcher.confidenceThreshold}`);
   }
+  if (config.emailWatcher.push.enabled) {
+    if (!/^projects\/[^/]+\/topics\/[^/]+$/.test(config.emailWatcher.push.topicName)) {
+      errors.push('GMAIL_PUSH_TOPIC must be projects/<project>/topics/<topic> when EMAIL_WATCHER_PUSH_ENABLED=true');
+    }
+    if (config.emailWatcher.push.verificationToken.length < 16) {
+      errors.push('GMAIL_PUSH_VERIFICATION_TOKEN must be at least 16 characters when EMAIL_WATCHER_PUSH_ENABLED=true');
+    }
+    if (config.emailWatcher.push.fallbackIntervalMs < config.emailWatcher.intervalMs) {
+      errors.push(`EMAIL_WATCHER_PUSH_FALLBACK_MS must be >= EMAIL_WATCHER_INTERVAL_MS, got ${config.emailWatcher.push.fallbackIntervalMs}`);
+    }
+  }
 
   if (errors.length > 0) {
     console.error(JSON.stringify({
@@ -11,6 +11,9 @@ export const calendarCapability = {
     'create_calendar_event',
     'update_calendar_event',
     'delete_calendar_event',
+    'find_free_time',
+    'list_calendars',
+    'set_default_calendar',
     'resolve_date',
   ],
 } as const;
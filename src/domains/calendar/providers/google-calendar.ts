@@ -1,18 +1,30 @@
 /**
  * @fileoverview Google Calendar service.
  *
- * Provides listEvents and createEvent functions with automatic token refresh.
+ * Provides event list/create/update/delete functions with automatic token refresh.
  * Throws AuthRequiredError when user hasn't connected their Google account.
  */
 
+import { randomUUID } from 'crypto';
 import { calendar as calendarApi, calendar_v3 } from '@googleapis/calendar';
+import { DateTime } from 'luxon';
 import { getAuthenticatedClient, withRetry } from './google-core.js';
+import type {
+  AttendeeResponseStatus,
+  BusyInterval,
+  CalendarAccessRole,
+  CalendarAttendee,
+  CalendarInfo,
+  CalendarEvent,
+  EventDetails,
+  EventReminder,
+} from '../types.js';
 
 // Re-export AuthRequiredError from canonical location for backward compat
 export { AuthRequiredError } from '../../../providers/auth.js';
 
 // Re-export CalendarEvent type from domain types
-export type { CalendarEvent } from '../types.js';
+export type { CalendarEvent, EventDetails } from '../types.js';
 
 /**
  * Get an authenticated Calendar client for a phone number.
@@ -26,24 +38,138 @@ async function getCalendarClient(
   return calendarApi({ version: 'v3', auth: oauth2Client });
 }
 
+/**
+ * Fields accepted by updateEvent (all optional).
+ */
+export interface EventUpdates {
+  title?: string;
+  startTime?: Date;
+  endTime?: Date;
+  startDate?: string;
+  endDate?: string;
+  location?: string;
+  description?: string;
+  /** IANA timezone for start/end (needed when changing a recurring series) */
+  timeZone?: string;
+  /** Replaces the event's RRULE/EXDATE lines */
+  recurrence?: string[];
+  addAttendees?: string[];
+  removeAttendees?: string[];
+  /** Reminder overrides; [] disables reminders */
+  reminders?: EventReminder[];
+  addMeetLink?: boolean;
+}
+
+/**
+ * Map a Google Calendar event to our CalendarEvent shape.
+ */
+export function toCalendarEvent(event: calendar_v3.Schema$Event, fallbackTitle = '(No title)'): CalendarEvent {
+  const result: CalendarEvent = {
+    id: event.id || '',
+    title: event.summary || fallbackTitle,
+    start: event.start?.dateTime || event.start?.date || '',
+    end: event.end?.dateTime || event.end?.date || '',
+    location: event.location || undefined,
+  };
+
+  if (event.start?.date && !event.start.dateTime) result.allDay = true;
+  if (event.description) result.description = event.description;
+  if (event.recurrence?.length) result.recurrence = event.recurrence;
+  if (event.recurringEventId) result.recurringEventId = event.recurringEventId;
+
+  const attendees = (event.attendees ?? []).filter((a) => a.email && !a.resource);
+  if (attendees.length > 0) {
+    result.attendees = attendees.map((a) => {
+      const attendee: CalendarAttendee = {
+        email: a.email as string,
+        responseStatus: (a.responseStatus as AttendeeResponseStatus | undefined) ?? 'needsAction',
+      };
+      if (a.displayName) attendee.name = a.displayName;
+      if (a.organizer) attendee.organizer = true;
+      if (a.optional) attendee.optional = true;
+      return attendee;
+    });
+  }
+
+  if (event.reminders && event.reminders.useDefault === false) {
+    result.reminders = (event.reminders.overrides ?? []).map((r) => ({
+      method: r.method === 'email' ? 'email' : 'popup',
+      minutes: r.minutes ?? 0,
+    }));
+  }
+
+  const meetLink = event.hangoutLink
+    ?? event.conferenceData?.entryPoints?.find((e) => e.entryPointType === 'video')?.uri;
+  if (meetLink) result.meetLink = meetLink;
+
+  return result;
+}
+
+function meetCreateRequest(): calendar_v3.Schema$ConferenceData {
+  return {
+    createRequest: {
+      requestId: randomUUID(),
+      conferenceSolutionKey: { type: 'hangoutsMeet' },
+    },
+  };
+}
+
+function reminderSettings(reminders: EventReminder[]): calendar_v3.Schema$Event['reminders'] {
+  return { useDefault: false, overrides: reminders.map((r) => ({ method: r.method, minutes: r.minutes })) };
+}
+
+/**
+ * List the calendars on the user's calendar list (own, shared, and subscribed).
+ *
+ * @param phoneNumber - User's phone number
+ * @returns Calendars, primary first
+ * @throws AuthRequiredError if not authenticated
+ */
+export async function listCalendars(phoneNumber: string): Promise<CalendarInfo[]> {
+  const calendar = await getCalendarClient(phoneNumber);
+
+  const response = await withRetry(() => calendar.calendarList.list({
+    minAccessRole: 'freeBusyReader',
+    maxResults: 250,
+  }), phoneNumber, 'Calendar');
+
+  const calendars = (response.data.items || [])
+    .filter((entry) => entry.id)
+    .map((entry) => {
+      const info: CalendarInfo = {
+        id: entry.id as string,
+        name: entry.summaryOverride || entry.summary || (entry.id as string),
+        primary: entry.primary === true,
+        accessRole: (entry.accessRole as CalendarAccessRole | undefined) ?? 'reader',
+      };
+      if (entry.timeZone) info.timeZone = entry.timeZone;
+      if (entry.hidden) info.hidden = true;
+      return info;
+    });
+
+  return calendars.sort((a, b) => Number(b.primary) - Number(a.primary));
+}
+
 /**
  * List calendar events in a time range.
  *
  * @param phoneNumber - User's phone number
  * @param timeMin - Start of time range
  * @param timeMax - End of time range
+ * @param calendarId - Calendar to read (default: primary)
  * @returns Array of calendar events
  * @throws AuthRequiredError if not authenticated
  */
 export async function listEvents(
   phoneNumber: string,
   timeMin: Date,
-  timeMax: Date
-): Promise<import('../types.js').CalendarEvent[]> {
+  timeMax: Date,
+  calendarId = 'primary'
+): Promise<CalendarEvent[]> {
   const calendar = await getCalendarClient(phoneNumber);
 
   const response = await withRetry(() => calendar.events.list({
-    calendarId: 'primary',
+    calendarId,
     timeMin: timeMin.toISOString(),
     timeMax: timeMax.toISOString(),
     singleEvents: true,
@@ -53,23 +179,60 @@ export async function listEvents(
 
   const events = response.data.items || [];
 
-  return events.map((event) => ({
-    id: event.id || '',
-    title: event.summary || '(No title)',
-    start: event.start?.dateTime || event.start?.date || '',
-    end: event.end?.dateTime || event.end?.date || '',
-    location: event.location || undefined,
-  }));
+  return events.map((event) => toCalendarEvent(event));
+}
+
+/**
+ * Query busy periods across one or more calendars.
+ *
+ * @param phoneNumber - User's phone number
+ * @param timeMin - Start of time range
+ * @param timeMax - End of time range
+ * @param calendarIds - Calendars to check (default: primary)
+ * @returns Busy intervals from all calendars, in start order
+ * @throws AuthRequiredError if not authenticated
+ */
+export async function queryFreeBusy(
+  phoneNumber: string,
+  timeMin: Date,
+  timeMax: Date,
+  calendarIds: string[] = ['primary']
+): Promise<BusyInterval[]> {
+  const calendar = await getCalendarClient(phoneNumber);
+
+  const response = await withRetry(() => calendar.freebusy.query({
+    requestBody: {
+      timeMin: timeMin.toISOString(),
+      timeMax: timeMax.toISOString(),
+      items: calendarIds.map((id) => ({ id })),
+    },
+  }), phoneNumber, 'Calendar');
+
+  const results = calendarIds.map((id) => response.data.calendars?.[id]);
+  const errors = results.flatMap((result) => result?.errors ?? []);
+  if (errors.length > 0) {
+    throw new Error(`Free/busy lookup failed: ${errors.map((e) => e.reason).join(', ')}`);
+  }
+
+  return results.flatMap((result) => result?.busy ?? [])
+    .filter((b): b is { start: string; end: string } => Boolean(b.start && b.end))
+    .map((b) => ({ start: b.start, end: b.end }))
+    .sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
 }
 
 /**
  * Create a calendar event.
  *
+ * All-day events use the dates of start and end in details.timeZone
+ * (UTC if unset); end is exclusive, and defaults to the day after start.
+ *
  * @param phoneNumber - User's phone number
  * @param title - Event title
  * @param start - Event start time
  * @param end - Event end time
  * @param location - Optional location
+ * @param details - Optional description, recurrence, attendees, reminders, Meet link
+ * @param calendarId - Calendar to add the event to (default: primary)
  * @returns Created event
  * @throws AuthRequiredError if not authenticated
  */
@@ -78,78 +241,139 @@ export async function createEvent(
   title: string,
   start: Date,
   end: Date,
-  location?: string
-): Promise<import('../types.js').CalendarEvent> {
+  location?: string,
+  details: EventDetails = {},
+  calendarId = 'primary'
+): Promise<CalendarEvent> {
   const calendar = await getCalendarClient(phoneNumber);
+  const timeZone = details.timeZone;
+
+  const requestBody: calendar_v3.Schema$Event = {
+    summary: title,
+    start: { dateTime: start.toISOString(), timeZone },
+    end: { dateTime: end.toISOString(), timeZone },
+    location: location,
+  };
+
+  if (details.allDay) {
+    const zone = timeZone || 'UTC';
+    const startDate = DateTime.fromJSDate(start, { zone }).startOf('day');
+    let endDate = DateTime.fromJSDate(end, { zone }).startOf('day');
+    if (endDate <= startDate) endDate = startDate.plus({ days: 1 });
+    requestBody.start = { date: startDate.toISODate() };
+    requestBody.end = { date: endDate.toISODate() };
+  }
+  if (details.description) requestBody.description = details.description;
+  if (details.recurrence?.length) requestBody.recurrence = details.recurrence;
+  if (details.attendees?.length) {
+    requestBody.attendees = details.attendees.map((email) => ({ email }));
+  }
+  if (details.reminders) requestBody.reminders = reminderSettings(details.reminders);
+  if (details.addMeetLink) requestBody.conferenceData = meetCreateRequest();
 
   const response = await withRetry(() => calendar.events.insert({
-    calendarId: 'primary',
-    requestBody: {
-      summary: title,
-      start: { dateTime: start.toISOString() },
-      end: { dateTime: end.toISOString() },
-      location: location,
-    },
+    calendarId,
+    requestBody,
+    ...(details.addMeetLink ? { conferenceDataVersion: 1 } : {}),
+    ...(details.attendees?.length ? { sendUpdates: 'all' } : {}),
   }), phoneNumber, 'Calendar');
 
-  const event = response.data;
-
-  return {
-    id: event.id || '',
-    title: event.summary || title,
-    start: event.start?.dateTime || '',
-    end: event.end?.dateTime || '',
-    location: event.location || undefined,
-  };
+  return toCalendarEvent(response.data, title);
 }
 
 /**
  * Update an existing calendar event.
  *
+ * Attendee changes are merged with the event's current guest list, so the
+ * event is fetched first when attendees are added or removed.
+ *
  * @param phoneNumber - User's phone number
  * @param eventId - ID of the event to update
  * @param updates - Fields to update (all optional)
+ * @param calendarId - Calendar the event is on (default: primary)
  * @returns Updated event
  * @throws AuthRequiredError if not authenticated
  */
 export async function updateEvent(
   phoneNumber: string,
   eventId: string,
-  updates: {
-    title?: string;
-    startTime?: Date;
-    endTime?: Date;
-    startDate?: string;
-    endDate?: string;
-    location?: string;
-  }
-): Promise<import('../types.js').CalendarEvent> {
+  updates: EventUpdates,
+  calendarId = 'primary'
+): Promise<CalendarEvent> {
   const calendar = await getCalendarClient(phoneNumber);
 
   // Build request body with only provided fields
   const requestBody: calendar_v3.Schema$Event = {};
+  const timeZone = updates.timeZone;
   if (updates.title !== undefined) requestBody.summary = updates.title;
   if (updates.startDate !== undefined) requestBody.start = { date: updates.startDate };
   if (updates.endDate !== undefined) requestBody.end = { date: updates.endDate };
-  if (updates.startTime !== undefined) requestBody.start = { dateTime: updates.startTime.toISOString() };
-  if (updates.endTime !== undefined) requestBody.end = { dateTime: updates.endTime.toISOString() };
+  if (updates.startTime !== undefined) requestBody.start = { dateTime: updates.startTime.toISOString(), timeZone };
+  if (updates.endTime !== undefined) requestBody.end = { dateTime: updates.endTime.toISOString(), timeZone };
   if (updates.location !== undefined) requestBody.location = updates.location;
+  if (updates.description !== undefined) requestBody.description = updates.description;
+  if (updates.recurrence !== undefined) requestBody.recurrence = updates.recurrence;
+  if (updates.reminders !== undefined) requestBody.reminders = reminderSettings(updates.reminders);
+  if (updates.addMeetLink) requestBody.conferenceData = meetCreateRequest();
+
+  const attendeesChanged = Boolean(updates.addAttendees?.length || updates.removeAttendees?.length);
+  if (attendeesChanged) {
+    const existing = await getEvent(phoneNumber, eventId, calendarId);
+    const removed = new Set((updates.removeAttendees ?? []).map((email) => email.toLowerCase()));
+    const attendees = (existing.attendees ?? [])
+      .filter((a) => !a.email || !removed.has(a.email.toLowerCase()));
+    for (const email of updates.addAttendees ?? []) {
+      if (!attendees.some((a) => a.email?.toLowerCase() === email.toLowerCase())) {
+        attendees.push({ email });
+      }
+    }
+    requestBody.attendees = attendees;
+  }
 
   const response = await withRetry(() => calendar.events.patch({
-    calendarId: 'primary',
+    calendarId,
     eventId: eventId,
     requestBody,
+    ...(updates.addMeetLink ? { conferenceDataVersion: 1 } : {}),
+    ...(attendeesChanged ? { sendUpdates: 'all' } : {}),
   }), phoneNumber, 'Calendar');
 
-  const event = response.data;
+  return toCalendarEvent({ ...response.data, id: response.data.id || eventId }, '');
+}
 
-  return {
-    id: event.id || eventId,
-    title: event.summary || '',
-    start: event.start?.dateTime || event.start?.date || '',
-    end: event.end?.dateTime || event.end?.date || '',
-    location: event.location || undefined,
-  };
+/**
+ * Count the occurrences of a recurring series that start before a time.
+ *
+ * @param phoneNumber - User's phone number
+ * @param recurringEventId - ID of the series master
+ * @param before - Exclusive upper bound on instance start
+ * @param calendarId - Calendar the series is on (default: primary)
+ * @throws AuthRequiredError if not authenticated
+ */
+export async function countInstancesBefore(
+  phoneNumber: string,
+  recurringEventId: string,
+  before: Date,
+  calendarId = 'primary'
+): Promise<number> {
+  const calendar = await getCalendarClient(phoneNumber);
+
+  let count = 0;
+  let pageToken: string | undefined;
+  do {
+    const response = await withRetry(() => calendar.events.instances({
+      calendarId,
+      eventId: recurringEventId,
+      timeMax: before.toISOString(),
+      showDeleted: true,
+      maxResults: 2500,
+      pageToken,
+    }), phoneNumber, 'Calendar');
+    count += (response.data.items ?? []).length;
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+
+  return count;
 }
 
 /**
@@ -157,17 +381,19 @@ export async function updateEvent(
  *
  * @param phoneNumber - User's phone number
  * @param eventId - ID of the event to fetch
+ * @param calendarId - Calendar the event is on (default: primary)
  * @returns Event data from Google Calendar
  * @throws AuthRequiredError if not authenticated
  */
 export async function getEvent(
   phoneNumber: string,
-  eventId: string
+  eventId: string,
+  calendarId = 'primary'
 ): Promise<calendar_v3.Schema$Event> {
   const calendar = await getCalendarClient(phoneNumber);
 
   const response = await withRetry(() => calendar.events.get({
-    calendarId: 'primary',
+    calendarId,
     eventId: eventId,
   }), phoneNumber, 'Calendar');
 
@@ -179,16 +405,18 @@ export async function getEvent(
  *
  * @param phoneNumber - User's phone number
  * @param eventId - ID of the event to delete
+ * @param calendarId - Calendar the event is on (default: primary)
  * @throws AuthRequiredError if not authenticated
  */
 export async function deleteEvent(
   phoneNumber: string,
-  eventId: string
+  eventId: string,
+  calendarId = 'primary'
 ): Promise<void> {
   const calendar = await getCalendarClient(phoneNumber);
 
   await withRetry(() => calendar.events.delete({
-    calendarId: 'primary',
+    calendarId,
     eventId: eventId,
   }), phoneNumber, 'Calendar');
 }
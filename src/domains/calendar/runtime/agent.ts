@@ -26,6 +26,9 @@ const CALENDAR_TOOLS = [
   'create_calendar_event',
   'update_calendar_event',
   'delete_calendar_event',
+  'find_free_time',
+  'list_calendars',
+  'set_default_calendar',
   'resolve_date',
 ];
 
@@ -34,7 +37,7 @@ const CALENDAR_TOOLS = [
  */
 export const capability: AgentCapability = {
   name: 'calendar-agent',
-  description: 'Manages Google Calendar events. Use for viewing, creating, updating, or deleting calendar events.',
+  description: 'Manages Google Calendar events. Use for viewing, creating, updating, or deleting calendar events, including recurring events, invites, and reminders, for finding free time to book meetings, and for working across personal, family, work, and shared calendars.',
   tools: CALENDAR_TOOLS,
   examples: [
     'What\'s on my calendar today?',
@@ -42,6 +45,9 @@ export const capability: AgentCapability = {
     'Cancel my 3pm appointment',
     'Move my dentist appointment to next week',
     'What am I doing this week?',
+    'Set up a standup every weekday at 9am and invite sam@example.com',
+    'When am I free for an hour Thursday afternoon?',
+    'Add soccer practice to the family calendar',
   ],
 };
 
@@ -3,8 +3,33 @@
  */
 
 import type { ToolDefinition } from '../../../tools/types.js';
-import { requirePhoneNumber, handleAuthError } from '../../../tools/utils.js';
-import { listEvents, createEvent, updateEvent, deleteEvent, getEvent } from '../providers/google-calendar.js';
+import { requirePhoneNumber, handleAuthError, CONFIRMATION_PROMPT_SCHEMA } from '../../../tools/utils.js';
+import {
+  listEvents,
+  createEvent,
+  updateEvent,
+  deleteEvent,
+  getEvent,
+  listCalendars,
+  type EventUpdates,
+} from '../providers/google-calendar.js';
+import {
+  normalizeRecurrenceRule,
+  updateThisAndFollowing,
+  updateAllOccurrences,
+} from '../service/recurrence.js';
+import { findFreeTime, parseTimeOfDay, DEFAULT_WORKING_HOURS } from '../service/free-time.js';
+import {
+  ALL_CALENDARS,
+  getCalendar,
+  isWritable,
+  listEventsAcrossCalendars,
+  listVisibleCalendars,
+  resolveCalendarId,
+} from '../service/calendars.js';
+import { getUserConfigStore } from '../../../services/user-config/index.js';
+import { checkConflicts } from '../service/conflicts.js';
+import type { EventConflict, EventReminder } from '../types.js';
 import { DateTime } from 'luxon';
 import {
   resolveDate,
@@ -18,6 +43,131 @@ export { resolveDateTool } from '../../../tools/date.js';
 /** Max event duration: 7 days in minutes */
 const MAX_DURATION_MINUTES = 7 * 24 * 60;
 
+/** Google Calendar allows at most 5 reminder overrides, up to 4 weeks ahead */
+const MAX_REMINDERS = 5;
+const MAX_REMINDER_MINUTES = 40320;
+
+/** Free-time searches span at most this many days */
+const MAX_FREE_TIME_WINDOW_DAYS = 31;
+const MAX_BUFFER_MINUTES = 120;
+const MAX_FREE_SLOTS = 10;
+
+/** Keep invite lists to a size that's reasonable over SMS */
+const MAX_ATTENDEES = 50;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const REMINDERS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      method: { type: 'string', enum: ['popup', 'email'] },
+      minutes: { type: 'number', description: 'Minutes before the event' },
+    },
+    required: ['method', 'minutes'],
+  },
+};
+
+/**
+ * Validate an attendee email list. Returns the trimmed emails or an error message.
+ */
+function parseAttendees(value: unknown, field: string): string[] | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return `${field} must be a non-empty array of email addresses.`;
+  }
+  if (value.length > MAX_ATTENDEES) {
+    return `${field} cannot have more than ${MAX_ATTENDEES} addresses.`;
+  }
+  const emails: string[] = [];
+  for (const item of value) {
+    if (typeof item !== 'string' || !EMAIL_PATTERN.test(item.trim())) {
+      return `Invalid email address in ${field}: "${String(item)}"`;
+    }
+    emails.push(item.trim());
+  }
+  return emails;
+}
+
+/**
+ * Validate reminder overrides. Returns the reminders or an error message.
+ */
+function parseReminders(value: unknown): EventReminder[] | string {
+  if (!Array.isArray(value)) {
+    return 'reminders must be an array of { method, minutes }.';
+  }
+  if (value.length > MAX_REMINDERS) {
+    return `At most ${MAX_REMINDERS} reminders are allowed.`;
+  }
+  const reminders: EventReminder[] = [];
+  for (const item of value as Array<{ method?: unknown; minutes?: unknown }>) {
+    if (item?.method !== 'popup' && item?.method !== 'email') {
+      return 'Reminder method must be "popup" or "email".';
+    }
+    if (typeof item.minutes !== 'number' || !Number.isInteger(item.minutes)
+      || item.minutes < 0 || item.minutes > MAX_REMINDER_MINUTES) {
+      return `Reminder minutes must be a whole number from 0 to ${MAX_REMINDER_MINUTES} (4 weeks).`;
+    }
+    reminders.push({ method: item.method, minutes: item.minutes });
+  }
+  return reminders;
+}
+
+/**
+ * Validate an RRULE. Returns the recurrence lines or an error message.
+ */
+function parseRecurrence(value: unknown): string[] | string {
+  const rule = typeof value === 'string' ? normalizeRecurrenceRule(value) : null;
+  if (!rule) {
+    return `Invalid recurrence rule: "${String(value)}". Use RRULE syntax, e.g. "FREQ=WEEKLY;BYDAY=TU,TH".`;
+  }
+  return [rule];
+}
+
+/** Optional calendar selector shared by the calendar tools */
+const CALENDAR_SCHEMA = {
+  type: 'string',
+  description: "Calendar name or ID from list_calendars (optional). Defaults to the user's default calendar.",
+};
+
+/** Selector for read tools, which can also merge every calendar */
+const READ_CALENDAR_SCHEMA = {
+  type: 'string',
+  description: 'Calendar name or ID from list_calendars, or "all" for every visible calendar (optional). Defaults to the user\'s default calendar.',
+};
+
+/**
+ * Validate an optional calendar selector, returning an error message if invalid.
+ */
+function validateCalendarSelector(value: unknown): string | null {
+  if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+    return 'calendar must be a non-empty string when provided.';
+  }
+  return null;
+}
+
+function isAllCalendars(selector: string | undefined): boolean {
+  return selector?.trim().toLowerCase() === ALL_CALENDARS;
+}
+
+/**
+ * Shape detected conflicts for the agent, including the confirmation instruction.
+ */
+function conflictResult(conflicts: EventConflict[]): Record<string, unknown> {
+  return {
+    success: false,
+    error: 'This time clashes with other events. Nothing was saved yet.',
+    conflicts,
+    requires_confirmation: true,
+    next_step: 'Tell the user about each conflict and ask whether to go ahead. Only if they say yes, call again with allow_conflicts: true.',
+  };
+}
+
+const ALLOW_CONFLICTS_SCHEMA = {
+  type: 'boolean',
+  description: 'Save even if the time overlaps other events or leaves no travel time between locations (optional). Only after the user confirmed the conflicts.',
+};
+
 /**
  * Translate common Google Calendar API errors to user-friendly messages.
  */
@@ -65,6 +215,7 @@ export const getCalendarEvents: ToolDefinition = {
           type: 'string',
           description: 'End of time range (optional). If not provided, use end of the start_date day or the period range.',
         },
+        calendar: READ_CALENDAR_SCHEMA,
       },
       required: ['start_date'],
     },
@@ -72,9 +223,10 @@ export const getCalendarEvents: ToolDefinition = {
   handler: async (input, context) => {
     const phoneNumber = requirePhoneNumber(context);
 
-    const { start_date, end_date } = input as {
+    const { start_date, end_date, calendar } = input as {
       start_date: string;
       end_date?: string;
+      calendar?: string;
     };
 
     // Boundary validation
@@ -84,6 +236,8 @@ export const getCalendarEvents: ToolDefinition = {
     if (end_date !== undefined && (typeof end_date !== 'string' || !end_date.trim())) {
       return { success: false, error: 'end_date must be a non-empty string when provided.' };
     }
+    const calendarError = validateCalendarSelector(calendar);
+    if (calendarError) return { success: false, error: calendarError };
 
     try {
       const timezone = context.userConfig?.timezone;
@@ -176,10 +330,21 @@ export const getCalendarEvents: ToolDefinition = {
         messageId: context.messageId,
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
+        calendar: calendar ?? null,
         timestamp: new Date().toISOString(),
       }));
 
-      const events = await listEvents(phoneNumber, startDate, endDate);
+      if (isAllCalendars(calendar)) {
+        const { events, skipped } = await listEventsAcrossCalendars(phoneNumber, startDate, endDate);
+        return {
+          success: true,
+          events,
+          ...(skipped.length > 0 ? { skippedCalendars: skipped } : {}),
+        };
+      }
+
+      const calendarId = await resolveCalendarId(phoneNumber, calendar, context.userConfig?.defaultCalendarId);
+      const events = await listEvents(phoneNumber, startDate, endDate, calendarId);
 
       console.log(JSON.stringify({
         level: 'info',
@@ -213,7 +378,7 @@ export const getCalendarEvents: ToolDefinition = {
 export const createCalendarEvent: ToolDefinition = {
   tool: {
     name: 'create_calendar_event',
-    description: "Create a new event on the user's Google Calendar. Dates can be natural language like 'tomorrow at 3pm'.",
+    description: "Create a new event on the user's Google Calendar. Dates can be natural language like 'tomorrow at 3pm'. Supports all-day events, RRULE recurrence, attendee invites, reminders, and Google Meet links.",
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -223,11 +388,11 @@ export const createCalendarEvent: ToolDefinition = {
         },
         start_time: {
           type: 'string',
-          description: 'When the event starts (e.g., "tomorrow at 3pm", "next Monday at 10am")',
+          description: 'When the event starts (e.g., "tomorrow at 3pm", "next Monday at 10am"). For all-day events, the first day.',
         },
         end_time: {
           type: 'string',
-          description: 'When the event ends (e.g., "tomorrow at 4pm")',
+          description: 'When the event ends (e.g., "tomorrow at 4pm"). For all-day events, the last day (inclusive).',
         },
         duration_minutes: {
           type: 'number',
@@ -237,6 +402,33 @@ export const createCalendarEvent: ToolDefinition = {
           type: 'string',
           description: 'Location (optional)',
         },
+        description: {
+          type: 'string',
+          description: 'Event description or notes (optional)',
+        },
+        all_day: {
+          type: 'boolean',
+          description: 'Create an all-day event (optional). end_time defaults to the same day.',
+        },
+        recurrence: {
+          type: 'string',
+          description: 'RRULE for a repeating event (optional), e.g. "FREQ=WEEKLY;BYDAY=MO,WE", "FREQ=MONTHLY;COUNT=6"',
+        },
+        attendees: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Email addresses to invite (optional). Google sends the invitations.',
+        },
+        reminders: {
+          ...REMINDERS_SCHEMA,
+          description: 'Reminder overrides (optional, max 5). Empty array for no reminders; omit for the calendar default.',
+        },
+        add_meet_link: {
+          type: 'boolean',
+          description: 'Attach a Google Meet video link (optional)',
+        },
+        calendar: CALENDAR_SCHEMA,
+        allow_conflicts: ALLOW_CONFLICTS_SCHEMA,
       },
       required: ['title', 'start_time'],
     },
@@ -244,12 +436,23 @@ export const createCalendarEvent: ToolDefinition = {
   handler: async (input, context) => {
     const phoneNumber = requirePhoneNumber(context);
 
-    const { title, start_time, end_time, duration_minutes, location } = input as {
+    const {
+      title, start_time, end_time, duration_minutes, location,
+      description, all_day, recurrence, attendees, reminders, add_meet_link, calendar, allow_conflicts,
+    } = input as {
       title: string;
       start_time: string;
       end_time?: string;
       duration_minutes?: number;
       location?: string;
+      description?: string;
+      all_day?: boolean;
+      recurrence?: string;
+      attendees?: string[];
+      reminders?: EventReminder[];
+      add_meet_link?: boolean;
+      calendar?: string;
+      allow_conflicts?: boolean;
     };
 
     // Boundary validation
@@ -270,6 +473,18 @@ export const createCalendarEvent: ToolDefinition = {
         return { success: false, error: `duration_minutes cannot exceed ${MAX_DURATION_MINUTES} (7 days).` };
       }
     }
+    if (description !== undefined && typeof description !== 'string') {
+      return { success: false, error: 'description must be a string.' };
+    }
+    const calendarError = validateCalendarSelector(calendar);
+    if (calendarError) return { success: false, error: calendarError };
+
+    const recurrenceLines = recurrence !== undefined ? parseRecurrence(recurrence) : undefined;
+    if (typeof recurrenceLines === 'string') return { success: false, error: recurrenceLines };
+    const attendeeEmails = attendees !== undefined ? parseAttendees(attendees, 'attendees') : undefined;
+    if (typeof attendeeEmails === 'string') return { success: false, error: attendeeEmails };
+    const reminderOverrides = reminders !== undefined ? parseReminders(reminders) : undefined;
+    if (typeof reminderOverrides === 'string') return { success: false, error: reminderOverrides };
 
     try {
       const timezone = context.userConfig?.timezone;
@@ -285,44 +500,59 @@ export const createCalendarEvent: ToolDefinition = {
         return { success: false, error: `Could not parse start time: "${start_time}"` };
       }
 
+      let start = new Date(startResult.timestamp * 1000);
+      let end: Date;
+
       if (end_time) {
         const endResult = resolveDate(end_time, {
           timezone,
-          referenceDate: new Date(startResult.timestamp * 1000),
+          referenceDate: start,
           forwardDate: true,
         });
         if (!endResult) {
           return { success: false, error: `Could not parse end time: "${end_time}"` };
         }
+        end = new Date(endResult.timestamp * 1000);
+      } else if (duration_minutes) {
+        end = new Date(start.getTime() + duration_minutes * 60000);
+      } else if (all_day) {
+        end = start;
+      } else {
+        return { success: false, error: 'Provide end_time or duration_minutes.' };
+      }
 
-        const start = new Date(startResult.timestamp * 1000);
-        const end = new Date(endResult.timestamp * 1000);
-
-        if (end.getTime() <= start.getTime()) {
-          return { success: false, error: 'End time must be after start time.' };
+      if (all_day) {
+        // Whole local days; the end date is exclusive
+        const startDay = DateTime.fromJSDate(start, { zone: timezone }).startOf('day');
+        const endDay = DateTime.fromJSDate(end, { zone: timezone }).startOf('day').plus({ days: 1 });
+        if (endDay <= startDay) {
+          return { success: false, error: 'End date must be on or after start date.' };
         }
-
-        console.log(JSON.stringify({
-          level: 'info',
-          message: 'Creating calendar event',
-          phoneNumber,
-          messageId: context.messageId,
-          title,
-          start: start.toISOString(),
-          end: end.toISOString(),
-          timestamp: new Date().toISOString(),
-        }));
-
-        const event = await createEvent(phoneNumber, title, start, end, location);
-        return { success: true, event };
+        start = startDay.toJSDate();
+        end = endDay.toJSDate();
+      } else if (end.getTime() <= start.getTime()) {
+        return { success: false, error: 'End time must be after start time.' };
       }
 
-      if (!duration_minutes) {
-        return { success: false, error: 'Provide end_time or duration_minutes.' };
-      }
+      const calendarId = await resolveCalendarId(
+        phoneNumber, calendar, context.userConfig?.defaultCalendarId, { writable: true }
+      );
 
-      const start = new Date(startResult.timestamp * 1000);
-      const end = new Date(start.getTime() + duration_minutes * 60000);
+      // Recurring events are checked against their first occurrence only
+      if (!all_day && !allow_conflicts) {
+        const conflicts = await checkConflicts(phoneNumber, { start, end, location }, timezone, calendarId);
+        if (conflicts.length > 0) {
+          console.log(JSON.stringify({
+            level: 'info',
+            message: 'Calendar event conflicts detected',
+            phoneNumber,
+            messageId: context.messageId,
+            conflictKinds: conflicts.map((c) => c.kind),
+            timestamp: new Date().toISOString(),
+          }));
+          return conflictResult(conflicts);
+        }
+      }
 
       console.log(JSON.stringify({
         level: 'info',
@@ -332,10 +562,22 @@ export const createCalendarEvent: ToolDefinition = {
         title,
         start: start.toISOString(),
         end: end.toISOString(),
+        allDay: !!all_day,
+        recurring: !!recurrenceLines,
+        attendeeCount: attendeeEmails?.length ?? 0,
+        calendarId,
         timestamp: new Date().toISOString(),
       }));
 
-      const event = await createEvent(phoneNumber, title, start, end, location);
+      const event = await createEvent(phoneNumber, title, start, end, location, {
+        description,
+        allDay: all_day,
+        timeZone: timezone,
+        recurrence: recurrenceLines,
+        attendees: attendeeEmails,
+        reminders: reminderOverrides,
+        addMeetLink: add_meet_link,
+      }, calendarId);
 
       return { success: true, event };
     } catch (error) {
@@ -361,7 +603,7 @@ export const createCalendarEvent: ToolDefinition = {
 export const updateCalendarEvent: ToolDefinition = {
   tool: {
     name: 'update_calendar_event',
-    description: "Update an existing event on the user's Google Calendar. Use get_calendar_events first to find the event ID.",
+    description: "Update an existing event on the user's Google Calendar. Use get_calendar_events first to find the event ID. For recurring events, scope chooses whether to change just this occurrence, this and following occurrences, or the whole series.",
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -385,6 +627,42 @@ export const updateCalendarEvent: ToolDefinition = {
           type: 'string',
           description: 'New location (optional)',
         },
+        description: {
+          type: 'string',
+          description: 'New description (optional)',
+        },
+        recurrence: {
+          type: 'string',
+          description: 'New RRULE for the series (optional), e.g. "FREQ=WEEKLY;BYDAY=FR". Use with scope "all" or "following".',
+        },
+        add_attendees: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Email addresses to invite (optional)',
+        },
+        remove_attendees: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Email addresses to uninvite (optional)',
+        },
+        reminders: {
+          ...REMINDERS_SCHEMA,
+          description: 'Replacement reminder overrides (optional, max 5). Empty array removes reminders.',
+        },
+        add_meet_link: {
+          type: 'boolean',
+          description: 'Attach a Google Meet video link (optional)',
+        },
+        scope: {
+          type: 'string',
+          enum: ['this', 'following', 'all'],
+          description: 'For recurring events: "this" occurrence (default), "following" = this and later occurrences, or "all" occurrences',
+        },
+        calendar: {
+          ...CALENDAR_SCHEMA,
+          description: 'Calendar the event is on (optional, from get_calendar_events). Defaults to the user\'s default calendar.',
+        },
+        allow_conflicts: ALLOW_CONFLICTS_SCHEMA,
       },
       required: ['event_id'],
     },
@@ -392,36 +670,69 @@ export const updateCalendarEvent: ToolDefinition = {
   handler: async (input, context) => {
     const phoneNumber = requirePhoneNumber(context);
 
-    const { event_id, title, start_time, end_time, location } = input as {
+    const {
+      event_id, title, start_time, end_time, location, description,
+      recurrence, add_attendees, remove_attendees, reminders, add_meet_link,
+      scope = 'this', calendar, allow_conflicts,
+    } = input as {
       event_id: string;
       title?: string;
       start_time?: string;
       end_time?: string;
       location?: string;
+      description?: string;
+      recurrence?: string;
+      add_attendees?: string[];
+      remove_attendees?: string[];
+      reminders?: EventReminder[];
+      add_meet_link?: boolean;
+      scope?: 'this' | 'following' | 'all';
+      calendar?: string;
+      allow_conflicts?: boolean;
     };
 
     // Boundary validation
     if (typeof event_id !== 'string' || !event_id.trim()) {
       return { success: false, error: 'event_id must be a non-empty string.' };
     }
-    if (title === undefined && start_time === undefined && end_time === undefined && location === undefined) {
-      return { success: false, error: 'Provide at least one field to update (title, start_time, end_time, or location).' };
+    if (!['this', 'following', 'all'].includes(scope)) {
+      return { success: false, error: 'scope must be "this", "following", or "all".' };
+    }
+    const calendarError = validateCalendarSelector(calendar);
+    if (calendarError) return { success: false, error: calendarError };
+    const hasChanges = [
+      title, start_time, end_time, location, description,
+      recurrence, add_attendees, remove_attendees, reminders,
+    ].some((value) => value !== undefined) || add_meet_link === true;
+    if (!hasChanges) {
+      return { success: false, error: 'Provide at least one field to update (title, start_time, end_time, location, description, recurrence, attendees, reminders, or add_meet_link).' };
+    }
+    if (recurrence !== undefined && scope === 'this') {
+      return { success: false, error: 'Changing recurrence applies to the series. Use scope "all" or "following".' };
     }
 
+    const recurrenceLines = recurrence !== undefined ? parseRecurrence(recurrence) : undefined;
+    if (typeof recurrenceLines === 'string') return { success: false, error: recurrenceLines };
+    const addEmails = add_attendees !== undefined ? parseAttendees(add_attendees, 'add_attendees') : undefined;
+    if (typeof addEmails === 'string') return { success: false, error: addEmails };
+    const removeEmails = remove_attendees !== undefined ? parseAttendees(remove_attendees, 'remove_attendees') : undefined;
+    if (typeof removeEmails === 'string') return { success: false, error: removeEmails };
+    const reminderOverrides = reminders !== undefined ? parseReminders(reminders) : undefined;
+    if (typeof reminderOverrides === 'string') return { success: false, error: reminderOverrides };
+
     try {
-      const updates: {
-        title?: string;
-        startTime?: Date;
-        endTime?: Date;
-        startDate?: string;
-        endDate?: string;
-        location?: string;
-      } = {};
+      const updates: EventUpdates = {};
+      const calendarId = await resolveCalendarId(
+        phoneNumber, calendar, context.userConfig?.defaultCalendarId, { writable: true }
+      );
 
       const needsDateUpdate = start_time !== undefined || end_time !== undefined;
+      // Moving an event or changing where it is can create new clashes
+      const needsConflictCheck = !allow_conflicts && (needsDateUpdate || location !== undefined);
       let isAllDay = false;
-      if (needsDateUpdate) {
-        const existingEvent = await getEvent(phoneNumber, event_id);
+      let existingEvent: Awaited<ReturnType<typeof getEvent>> | null = null;
+      if (needsDateUpdate || needsConflictCheck) {
+        existingEvent = await getEvent(phoneNumber, event_id, calendarId);
         isAllDay = !!existingEvent.start?.date && !existingEvent.start?.dateTime;
       }
 
@@ -434,6 +745,12 @@ export const updateCalendarEvent: ToolDefinition = {
 
       if (title !== undefined) updates.title = title;
       if (location !== undefined) updates.location = location;
+      if (description !== undefined) updates.description = description;
+      if (recurrenceLines !== undefined) updates.recurrence = recurrenceLines;
+      if (addEmails !== undefined) updates.addAttendees = addEmails;
+      if (removeEmails !== undefined) updates.removeAttendees = removeEmails;
+      if (reminderOverrides !== undefined) updates.reminders = reminderOverrides;
+      if (add_meet_link) updates.addMeetLink = true;
 
       if (isAllDay) {
         if (start_time !== undefined) updates.startDate = datePart(start_time);
@@ -443,21 +760,57 @@ export const updateCalendarEvent: ToolDefinition = {
         if (end_time !== undefined) updates.endTime = new Date(end_time);
       }
 
+      if (needsConflictCheck && existingEvent && !isAllDay) {
+        const start = updates.startTime ?? new Date(existingEvent.start?.dateTime ?? '');
+        const end = updates.endTime ?? new Date(existingEvent.end?.dateTime ?? '');
+        const userTimezone = context.userConfig?.timezone;
+        const timezone = userTimezone && isValidTimezone(userTimezone) ? userTimezone : 'UTC';
+        if (!Number.isNaN(start.getTime()) && !Number.isNaN(end.getTime())) {
+          const conflicts = await checkConflicts(phoneNumber, {
+            start,
+            end,
+            location: location ?? existingEvent.location ?? undefined,
+            excludeEventId: event_id,
+          }, timezone, calendarId);
+          if (conflicts.length > 0) {
+            console.log(JSON.stringify({
+              level: 'info',
+              message: 'Calendar event conflicts detected',
+              phoneNumber,
+              messageId: context.messageId,
+              eventId: event_id,
+              conflictKinds: conflicts.map((c) => c.kind),
+              timestamp: new Date().toISOString(),
+            }));
+            return conflictResult(conflicts);
+          }
+        }
+      }
+
       console.log(JSON.stringify({
         level: 'info',
         message: 'Updating calendar event',
         phoneNumber,
         messageId: context.messageId,
         eventId: event_id,
+        scope,
         hasTitle: !!title,
         hasStart: !!start_time,
         hasEnd: !!end_time,
         hasLocation: !!location,
         isAllDay,
+        calendarId,
         timestamp: new Date().toISOString(),
       }));
 
-      const event = await updateEvent(phoneNumber, event_id, updates);
+      if (scope === 'following') {
+        const { event, previousSeriesId } = await updateThisAndFollowing(phoneNumber, event_id, updates, calendarId);
+        return { success: true, event, scope, previousSeriesId };
+      }
+
+      const event = scope === 'all'
+        ? await updateAllOccurrences(phoneNumber, event_id, updates, calendarId)
+        : await updateEvent(phoneNumber, event_id, updates, calendarId);
 
       return { success: true, event };
     } catch (error) {
@@ -481,10 +834,214 @@ export const updateCalendarEvent: ToolDefinition = {
   },
 };
 
+export const findFreeTimeTool: ToolDefinition = {
+  tool: {
+    name: 'find_free_time',
+    description: "Find open slots on the user's Google Calendar for a meeting of a given length. Returns ranked candidate slots in the user's timezone. Offer the top few; once the user picks one, book it with create_calendar_event.",
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        duration_minutes: {
+          type: 'number',
+          description: 'Meeting length in minutes',
+        },
+        window: {
+          type: 'string',
+          description: 'When to look (e.g., "Thursday", "tomorrow", "next week", "from Monday to Wednesday")',
+        },
+        working_hours_start: {
+          type: 'string',
+          description: 'Earliest start each day, 24-hour HH:MM (default 09:00). Use 12:00 for "afternoon".',
+        },
+        working_hours_end: {
+          type: 'string',
+          description: 'Latest end each day, 24-hour HH:MM (default 17:00). Use 12:00 for "morning".',
+        },
+        buffer_minutes: {
+          type: 'number',
+          description: 'Free time to keep before and after existing events (default 0, max 120)',
+        },
+        include_weekends: {
+          type: 'boolean',
+          description: 'Include Saturday and Sunday (default: only if the window has no weekdays)',
+        },
+        max_slots: {
+          type: 'number',
+          description: 'Maximum slots to return (default 5, max 10)',
+        },
+        calendar: {
+          ...READ_CALENDAR_SCHEMA,
+          description: 'Calendar whose events count as busy, or "all" to treat events on every visible calendar as busy (optional). Defaults to the user\'s default calendar.',
+        },
+      },
+      required: ['duration_minutes', 'window'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const {
+      duration_minutes, window, working_hours_start, working_hours_end,
+      buffer_minutes, include_weekends, max_slots, calendar,
+    } = input as {
+      duration_minutes: number;
+      window: string;
+      working_hours_start?: string;
+      working_hours_end?: string;
+      buffer_minutes?: number;
+      include_weekends?: boolean;
+      max_slots?: number;
+      calendar?: string;
+    };
+
+    // Boundary validation
+    if (typeof duration_minutes !== 'number' || !Number.isInteger(duration_minutes) || duration_minutes <= 0) {
+      return { success: false, error: 'duration_minutes must be a positive whole number.' };
+    }
+    if (typeof window !== 'string' || !window.trim()) {
+      return { success: false, error: 'window must be a non-empty string.' };
+    }
+    const workingHours = {
+      start: working_hours_start ?? DEFAULT_WORKING_HOURS.start,
+      end: working_hours_end ?? DEFAULT_WORKING_HOURS.end,
+    };
+    const dayStart = typeof workingHours.start === 'string' ? parseTimeOfDay(workingHours.start) : null;
+    const dayEnd = typeof workingHours.end === 'string' ? parseTimeOfDay(workingHours.end) : null;
+    if (dayStart === null || dayEnd === null) {
+      return { success: false, error: 'Working hours must be 24-hour HH:MM times (e.g., "09:00", "17:30").' };
+    }
+    if (dayEnd <= dayStart) {
+      return { success: false, error: 'working_hours_end must be after working_hours_start.' };
+    }
+    if (duration_minutes > dayEnd - dayStart) {
+      return { success: false, error: 'duration_minutes is longer than the working hours.' };
+    }
+    if (buffer_minutes !== undefined && (typeof buffer_minutes !== 'number' || buffer_minutes < 0 || buffer_minutes > MAX_BUFFER_MINUTES)) {
+      return { success: false, error: `buffer_minutes must be between 0 and ${MAX_BUFFER_MINUTES}.` };
+    }
+    if (max_slots !== undefined && (typeof max_slots !== 'number' || !Number.isInteger(max_slots) || max_slots < 1 || max_slots > MAX_FREE_SLOTS)) {
+      return { success: false, error: `max_slots must be a whole number from 1 to ${MAX_FREE_SLOTS}.` };
+    }
+    const calendarError = validateCalendarSelector(calendar);
+    if (calendarError) return { success: false, error: calendarError };
+
+    try {
+      const timezone = context.userConfig?.timezone;
+      if (!timezone) {
+        return { success: false, error: 'Timezone not set. Ask the user for their timezone first.' };
+      }
+      if (!isValidTimezone(timezone)) {
+        return { success: false, error: `Invalid timezone: "${timezone}".` };
+      }
+
+      const now = new Date();
+      let windowStart: Date;
+      let windowEnd: Date;
+
+      const range = resolveDateRange(window, { timezone, referenceDate: now, forwardDate: true });
+      if (range) {
+        windowStart = new Date(range.start.timestamp * 1000);
+        windowEnd = new Date(range.end.timestamp * 1000);
+      } else {
+        const day = resolveDate(window, { timezone, referenceDate: now, forwardDate: true });
+        if (!day) {
+          return { success: false, error: `Could not parse window: "${window}"` };
+        }
+        const dayLocal = DateTime.fromSeconds(day.timestamp, { zone: timezone });
+        windowStart = (hasExplicitTime(window) ? dayLocal : dayLocal.startOf('day')).toJSDate();
+        windowEnd = dayLocal.endOf('day').toJSDate();
+      }
+
+      if (windowEnd.getTime() <= now.getTime()) {
+        return { success: false, error: 'That window is already over. Pick a time in the future.' };
+      }
+      if (windowEnd.getTime() - windowStart.getTime() > MAX_FREE_TIME_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+        return { success: false, error: `The window can span at most ${MAX_FREE_TIME_WINDOW_DAYS} days.` };
+      }
+
+      // Weekends count when the user asked about one specifically
+      let includeWeekends = include_weekends;
+      if (includeWeekends === undefined) {
+        includeWeekends = true;
+        for (
+          let day = DateTime.fromJSDate(windowStart, { zone: timezone }).startOf('day');
+          day.toJSDate() < windowEnd;
+          day = day.plus({ days: 1 })
+        ) {
+          if (day.weekday <= 5) {
+            includeWeekends = false;
+            break;
+          }
+        }
+      }
+
+      const calendarIds = isAllCalendars(calendar)
+        ? (await listVisibleCalendars(phoneNumber)).map((c) => c.id)
+        : [await resolveCalendarId(phoneNumber, calendar, context.userConfig?.defaultCalendarId)];
+
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Finding free time',
+        phoneNumber,
+        messageId: context.messageId,
+        windowStart: windowStart.toISOString(),
+        windowEnd: windowEnd.toISOString(),
+        durationMinutes: duration_minutes,
+        calendarCount: calendarIds.length,
+        timestamp: new Date().toISOString(),
+      }));
+
+      const { slots, busy } = await findFreeTime(phoneNumber, {
+        windowStart,
+        windowEnd,
+        durationMinutes: duration_minutes,
+        timezone,
+        workingHours,
+        bufferMinutes: buffer_minutes,
+        includeWeekends,
+        maxSlots: max_slots,
+        now,
+        calendarIds,
+      });
+
+      return {
+        success: true,
+        timezone,
+        window: {
+          start: DateTime.fromJSDate(windowStart, { zone: timezone }).toISO(),
+          end: DateTime.fromJSDate(windowEnd, { zone: timezone }).toISO(),
+        },
+        durationMinutes: duration_minutes,
+        busyCount: busy.length,
+        slots,
+        ...(slots.length === 0
+          ? { message: 'No free slots in that window. Try a wider window, shorter meeting, or different hours.' }
+          : {}),
+      };
+    } catch (error) {
+      const authResult = handleAuthError(error, phoneNumber, context.channel);
+      if (authResult) return authResult;
+
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'Free time lookup failed',
+        phoneNumber,
+        messageId: context.messageId,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }));
+      return {
+        success: false,
+        error: friendlyCalendarError(error),
+      };
+    }
+  },
+};
+
 export const deleteCalendarEvent: ToolDefinition = {
   tool: {
     name: 'delete_calendar_event',
-    description: "Delete an event from the user's Google Calendar. Use get_calendar_events first to find the event ID. Ask for confirmation before deleting.",
+    description: "Delete an event from the user's Google Calendar. Use get_calendar_events first to find the event ID. The deletion waits for the user to reply YES to confirmation_prompt.",
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -492,21 +1049,33 @@ export const deleteCalendarEvent: ToolDefinition = {
           type: 'string',
           description: 'The event ID to delete (from get_calendar_events)',
         },
+        calendar: {
+          ...CALENDAR_SCHEMA,
+          description: 'Calendar the event is on (optional, from get_calendar_events). Defaults to the user\'s default calendar.',
+        },
+        confirmation_prompt: CONFIRMATION_PROMPT_SCHEMA,
       },
       required: ['event_id'],
     },
   },
+  confirmationPrompt: 'Delete this calendar event?',
   handler: async (input, context) => {
     const phoneNumber = requirePhoneNumber(context);
 
-    const { event_id } = input as { event_id: string };
+    const { event_id, calendar } = input as { event_id: string; calendar?: string };
 
     // Boundary validation
     if (typeof event_id !== 'string' || !event_id.trim()) {
       return { success: false, error: 'event_id must be a non-empty string.' };
     }
+    const calendarError = validateCalendarSelector(calendar);
+    if (calendarError) return { success: false, error: calendarError };
 
     try {
+      const calendarId = await resolveCalendarId(
+        phoneNumber, calendar, context.userConfig?.defaultCalendarId, { writable: true }
+      );
+
       console.log(JSON.stringify({
         level: 'info',
         message: 'Deleting calendar event',
@@ -516,7 +1085,7 @@ export const deleteCalendarEvent: ToolDefinition = {
         timestamp: new Date().toISOString(),
       }));
 
-      await deleteEvent(phoneNumber, event_id);
+      await deleteEvent(phoneNumber, event_id, calendarId);
 
       return { success: true, deleted: event_id };
     } catch (error) {
@@ -539,3 +1108,117 @@ export const deleteCalendarEvent: ToolDefinition = {
     }
   },
 };
+
+export const listCalendarsTool: ToolDefinition = {
+  tool: {
+    name: 'list_calendars',
+    description: "List the calendars on the user's Google account (personal, family, work, shared), with which one is the default and whether each can be edited.",
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  handler: async (_input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    try {
+      const calendars = await listCalendars(phoneNumber);
+      const defaultCalendarId = context.userConfig?.defaultCalendarId;
+      const defaultCalendar = calendars.find((c) => c.id === defaultCalendarId) ?? calendars.find((c) => c.primary);
+
+      return {
+        success: true,
+        calendars: calendars.map((c) => ({
+          id: c.id,
+          name: c.name,
+          primary: c.primary,
+          default: c === defaultCalendar,
+          writable: isWritable(c),
+          ...(c.hidden ? { hidden: true } : {}),
+        })),
+      };
+    } catch (error) {
+      const authResult = handleAuthError(error, phoneNumber, context.channel);
+      if (authResult) return authResult;
+
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'Calendar list failed',
+        phoneNumber,
+        messageId: context.messageId,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }));
+      return {
+        success: false,
+        error: friendlyCalendarError(error),
+      };
+    }
+  },
+};
+
+export const setDefaultCalendar: ToolDefinition = {
+  tool: {
+    name: 'set_default_calendar',
+    description: 'Set which calendar the calendar tools use when the user does not name one. Use "primary" to go back to the main calendar.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        calendar: {
+          type: 'string',
+          description: 'Calendar name or ID from list_calendars, or "primary"',
+        },
+      },
+      required: ['calendar'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const { calendar } = input as { calendar: string };
+
+    // Boundary validation
+    if (typeof calendar !== 'string' || !calendar.trim()) {
+      return { success: false, error: 'calendar must be a non-empty string.' };
+    }
+    if (isAllCalendars(calendar)) {
+      return { success: false, error: 'The default must be a single calendar.' };
+    }
+
+    try {
+      const chosen = await getCalendar(phoneNumber, calendar, { writable: true });
+
+      // Primary is the built-in default, so choosing it clears the setting
+      await getUserConfigStore().set(phoneNumber, {
+        defaultCalendarId: chosen.primary ? '' : chosen.id,
+      });
+
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Default calendar set',
+        phoneNumber,
+        messageId: context.messageId,
+        calendarId: chosen.id,
+        timestamp: new Date().toISOString(),
+      }));
+
+      return { success: true, defaultCalendar: { id: chosen.id, name: chosen.name } };
+    } catch (error) {
+      const authResult = handleAuthError(error, phoneNumber, context.channel);
+      if (authResult) return authResult;
+
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'Setting default calendar failed',
+        phoneNumber,
+        messageId: context.messageId,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }));
+      return {
+        success: false,
+        error: friendlyCalendarError(error),
+      };
+    }
+  },
+};
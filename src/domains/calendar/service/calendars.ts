@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Calendar selection across the user's calendar list.
+ *
+ * Tools accept a calendar by ID or by name ("Family", "work"); names match
+ * the user's own label first, then a unique partial match. Without a
+ * selector, tools use the user's default calendar (UserConfig
+ * defaultCalendarId), falling back to primary, without an extra API call.
+ * "all" selects every visible calendar for merged reads.
+ */
+
+import { listCalendars, listEvents, AuthRequiredError } from '../providers/google-calendar.js';
+import type { CalendarEvent, CalendarInfo } from '../types.js';
+
+/** Selector for a merged view across every visible calendar */
+export const ALL_CALENDARS = 'all';
+
+/**
+ * Find a calendar by ID, "primary", or name (case-insensitive, then a
+ * unique partial match). Returns null when nothing or several match.
+ */
+export function findCalendar(calendars: CalendarInfo[], selector: string): CalendarInfo | null {
+  const wanted = selector.trim().toLowerCase();
+  if (!wanted) return null;
+
+  if (wanted === 'primary') {
+    return calendars.find((c) => c.primary) ?? null;
+  }
+
+  const exact = calendars.find((c) => c.id.toLowerCase() === wanted || c.name.toLowerCase() === wanted);
+  if (exact) return exact;
+
+  const partial = calendars.filter((c) => c.name.toLowerCase().includes(wanted));
+  return partial.length === 1 ? partial[0] : null;
+}
+
+/**
+ * Whether events can be created and edited on a calendar.
+ */
+export function isWritable(calendar: CalendarInfo): boolean {
+  return calendar.accessRole === 'owner' || calendar.accessRole === 'writer';
+}
+
+function describeCalendars(calendars: CalendarInfo[]): string {
+  return calendars.filter((c) => !c.hidden).map((c) => `"${c.name}"`).join(', ');
+}
+
+/**
+ * Look up a calendar by selector on the user's calendar list.
+ * @throws Error naming the available calendars when it can't be resolved
+ */
+export async function getCalendar(
+  phoneNumber: string,
+  selector: string,
+  options: { writable?: boolean } = {}
+): Promise<CalendarInfo> {
+  const calendars = await listCalendars(phoneNumber);
+  const calendar = findCalendar(calendars, selector);
+  if (!calendar) {
+    throw new Error(`No single calendar matches "${selector}". Available: ${describeCalendars(calendars)}.`);
+  }
+  if (options.writable && !isWritable(calendar)) {
+    throw new Error(`The "${calendar.name}" calendar is read-only for you.`);
+  }
+  return calendar;
+}
+
+/**
+ * Resolve the calendar a tool should act on: the selector if given,
+ * otherwise the user's default, otherwise primary.
+ */
+export async function resolveCalendarId(
+  phoneNumber: string,
+  selector: string | undefined,
+  defaultCalendarId: string | undefined,
+  options: { writable?: boolean } = {}
+): Promise<string> {
+  if (!selector || !selector.trim()) {
+    return defaultCalendarId || 'primary';
+  }
+  if (selector.trim().toLowerCase() === ALL_CALENDARS) {
+    throw new Error('Pick one calendar for this action, not "all".');
+  }
+  return (await getCalendar(phoneNumber, selector, options)).id;
+}
+
+/**
+ * Calendars included in merged views: everything not hidden in Google Calendar.
+ */
+export async function listVisibleCalendars(phoneNumber: string): Promise<CalendarInfo[]> {
+  return (await listCalendars(phoneNumber)).filter((c) => !c.hidden);
+}
+
+/**
+ * List events from every visible calendar, labeled with their source
+ * calendar and merged in start order. A calendar that fails to load is
+ * skipped (reported in `skipped`); auth errors propagate.
+ */
+export async function listEventsAcrossCalendars(
+  phoneNumber: string,
+  timeMin: Date,
+  timeMax: Date
+): Promise<{ events: CalendarEvent[]; skipped: string[] }> {
+  const calendars = await listVisibleCalendars(phoneNumber);
+  const events: CalendarEvent[] = [];
+  const skipped: string[] = [];
+
+  for (const calendar of calendars) {
+    try {
+      const calendarEvents = await listEvents(phoneNumber, timeMin, timeMax, calendar.id);
+      events.push(...calendarEvents.map((event) => ({
+        ...event,
+        calendarId: calendar.id,
+        calendarName: calendar.name,
+      })));
+    } catch (error) {
+      if (error instanceof AuthRequiredError) throw error;
+      skipped.push(calendar.name);
+      console.warn(JSON.stringify({
+        level: 'warn',
+        message: 'Skipping calendar in merged view',
+        calendarId: calendar.id,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }));
+    }
+  }
+
+  // All-day dates sort before timed events on the same day
+  events.sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+  return { events, skipped };
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Conflict detection for new and moved events.
+ *
+ * Before an event is booked, the existing events around it are listed and
+ * checked for two kinds of clash: events that overlap the proposed time,
+ * and events that end or start within TRAVEL_GAP_MINUTES of it at a
+ * different location (no time to get from one to the other).
+ *
+ * All-day events never conflict; they mark days (holidays, trips) rather
+ * than blocking time.
+ */
+
+import { DateTime } from 'luxon';
+import { listEvents } from '../providers/google-calendar.js';
+import type { CalendarEvent, EventConflict } from '../types.js';
+
+/** Back-to-back events closer than this at different locations get a travel warning */
+export const TRAVEL_GAP_MINUTES = 30;
+
+export interface ProposedTime {
+  start: Date;
+  end: Date;
+  location?: string;
+  /** The event being moved, so it doesn't conflict with itself */
+  excludeEventId?: string;
+}
+
+function normalizeLocation(location: string | undefined): string {
+  return (location ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Whether two locations are different places. Unknown locations never
+ * differ, and one containing the other ("Acme HQ" vs "Acme HQ, Room 4")
+ * counts as the same place.
+ */
+function differentPlaces(a: string | undefined, b: string | undefined): boolean {
+  const left = normalizeLocation(a);
+  const right = normalizeLocation(b);
+  if (!left || !right) return false;
+  return !left.includes(right) && !right.includes(left);
+}
+
+function describeEvent(event: CalendarEvent, timezone: string): string {
+  const start = DateTime.fromISO(event.start, { zone: timezone });
+  const end = DateTime.fromISO(event.end, { zone: timezone });
+  return `${event.title}, ${start.toFormat('ccc h:mm a')}–${end.toFormat('h:mm a')}`;
+}
+
+/**
+ * Find existing events that clash with a proposed time.
+ * Overlaps come first, then travel conflicts, each in start order.
+ */
+export function findConflicts(
+  events: CalendarEvent[],
+  proposed: ProposedTime,
+  timezone: string
+): EventConflict[] {
+  const proposedStart = proposed.start.getTime();
+  const proposedEnd = proposed.end.getTime();
+  const overlaps: EventConflict[] = [];
+  const travel: EventConflict[] = [];
+
+  for (const event of events) {
+    if (event.allDay || event.id === proposed.excludeEventId) continue;
+
+    const start = Date.parse(event.start);
+    const end = Date.parse(event.end);
+    if (Number.isNaN(start) || Number.isNaN(end)) continue;
+
+    const conflict = {
+      eventId: event.id,
+      title: event.title,
+      start: event.start,
+      end: event.end,
+      ...(event.location ? { location: event.location } : {}),
+      display: describeEvent(event, timezone),
+    };
+
+    if (start < proposedEnd && proposedStart < end) {
+      overlaps.push({ kind: 'overlap', ...conflict });
+      continue;
+    }
+
+    if (!differentPlaces(event.location, proposed.location)) continue;
+    const gapMs = end <= proposedStart ? proposedStart - end : start - proposedEnd;
+    if (gapMs <= TRAVEL_GAP_MINUTES * 60000) {
+      travel.push({ kind: 'travel', ...conflict, gapMinutes: Math.round(gapMs / 60000) });
+    }
+  }
+
+  const byStart = (a: EventConflict, b: EventConflict) => Date.parse(a.start) - Date.parse(b.start);
+  return [...overlaps.sort(byStart), ...travel.sort(byStart)];
+}
+
+/**
+ * List the events around a proposed time on a calendar and find clashes.
+ */
+export async function checkConflicts(
+  phoneNumber: string,
+  proposed: ProposedTime,
+  timezone: string,
+  calendarId = 'primary'
+): Promise<EventConflict[]> {
+  const gapMs = TRAVEL_GAP_MINUTES * 60000;
+  const events = await listEvents(
+    phoneNumber,
+    new Date(proposed.start.getTime() - gapMs),
+    new Date(proposed.end.getTime() + gapMs),
+    calendarId
+  );
+  return findConflicts(events, proposed, timezone);
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Free-time search over the user's calendar.
+ *
+ * Busy periods come from the freebusy API. Each day in the search window
+ * is clipped to working hours, busy periods (padded by the buffer) are cut
+ * out, and every remaining gap long enough for the meeting yields candidate
+ * slots on quarter-hour boundaries.
+ *
+ * Ranking: slots flush against an existing event or the edge of the
+ * working day come first, since booking them leaves the rest of the gap
+ * usable; ties go to the earliest. At most two slots are picked per day
+ * before later days are considered, so a week-long search offers options
+ * across several days.
+ */
+
+import { DateTime } from 'luxon';
+import { queryFreeBusy } from '../providers/google-calendar.js';
+import type { BusyInterval, FreeSlot, WorkingHours } from '../types.js';
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: '09:00', end: '17:00' };
+
+/** Slots start on these boundaries (minutes past the hour) */
+const SLOT_ALIGNMENT_MINUTES = 15;
+
+/** Spacing between candidates inside a long gap */
+const SLOT_STEP_MINUTES = 30;
+
+/** Picked per day on the first pass, to spread options across days */
+const MAX_SLOTS_PER_DAY = 2;
+
+export interface FreeTimeSearch {
+  windowStart: Date;
+  windowEnd: Date;
+  durationMinutes: number;
+  /** IANA timezone the working hours and results are in */
+  timezone: string;
+  workingHours?: WorkingHours;
+  /** Free time kept before and after existing events */
+  bufferMinutes?: number;
+  includeWeekends?: boolean;
+  maxSlots?: number;
+  /** Slots never start before this (default: now) */
+  now?: Date;
+  /** Calendars whose events count as busy (default: primary) */
+  calendarIds?: string[];
+}
+
+interface Candidate {
+  start: DateTime;
+  end: DateTime;
+  flush: boolean;
+  day: string;
+}
+
+/**
+ * Parse "HH:MM" (24-hour) to minutes past midnight, or null if invalid.
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * The wall-clock time `minutes` past midnight on `day`. Set as hour and
+ * minute rather than added to midnight, so a DST change earlier in the day
+ * doesn't shift it; 24:00 is the next midnight.
+ */
+function atTimeOfDay(day: DateTime, minutes: number): DateTime {
+  if (minutes >= 24 * 60) {
+    return day.startOf('day').plus({ days: 1 });
+  }
+  return day.set({ hour: Math.floor(minutes / 60), minute: minutes % 60, second: 0, millisecond: 0 });
+}
+
+function alignUp(time: DateTime): DateTime {
+  const minutes = time.hour * 60 + time.minute + (time.second > 0 || time.millisecond > 0 ? 1 : 0);
+  const aligned = Math.ceil(minutes / SLOT_ALIGNMENT_MINUTES) * SLOT_ALIGNMENT_MINUTES;
+  return atTimeOfDay(time, aligned);
+}
+
+function alignDown(time: DateTime): DateTime {
+  const minutes = time.hour * 60 + time.minute;
+  const aligned = Math.floor(minutes / SLOT_ALIGNMENT_MINUTES) * SLOT_ALIGNMENT_MINUTES;
+  return atTimeOfDay(time, aligned);
+}
+
+/**
+ * Candidate slots in one free gap: flush with the gap's start and end,
+ * plus evenly spaced starts in between.
+ */
+function gapCandidates(gapStart: DateTime, gapEnd: DateTime, durationMinutes: number, day: string): Candidate[] {
+  const first = alignUp(gapStart);
+  const last = alignDown(gapEnd.minus({ minutes: durationMinutes }));
+  if (last < first) return [];
+
+  const starts = new Map<number, DateTime>();
+  starts.set(first.toMillis(), first);
+  for (let start = first.plus({ minutes: SLOT_STEP_MINUTES }); start < last; start = start.plus({ minutes: SLOT_STEP_MINUTES })) {
+    starts.set(start.toMillis(), start);
+  }
+  starts.set(last.toMillis(), last);
+
+  return [...starts.values()].map((start) => {
+    const end = start.plus({ minutes: durationMinutes });
+    return {
+      start,
+      end,
+      flush: start.diff(gapStart, 'minutes').minutes < SLOT_ALIGNMENT_MINUTES
+        || gapEnd.diff(end, 'minutes').minutes < SLOT_ALIGNMENT_MINUTES,
+      day,
+    };
+  });
+}
+
+/**
+ * Find ranked free slots given the busy periods in the window.
+ */
+export function findFreeSlots(busy: BusyInterval[], search: FreeTimeSearch): FreeSlot[] {
+  const zone = search.timezone;
+  const hours = search.workingHours ?? DEFAULT_WORKING_HOURS;
+  const dayStartMinutes = parseTimeOfDay(hours.start) ?? 0;
+  const dayEndMinutes = parseTimeOfDay(hours.end) ?? 24 * 60;
+  const buffer = search.bufferMinutes ?? 0;
+  const maxSlots = search.maxSlots ?? 5;
+
+  const windowStart = DateTime.fromJSDate(search.windowStart, { zone });
+  const windowEnd = DateTime.fromJSDate(search.windowEnd, { zone });
+  const earliest = DateTime.fromJSDate(search.now ?? new Date(), { zone });
+
+  const blocked = busy.map((b) => ({
+    start: DateTime.fromISO(b.start, { zone }).minus({ minutes: buffer }),
+    end: DateTime.fromISO(b.end, { zone }).plus({ minutes: buffer }),
+  }));
+
+  const candidates: Candidate[] = [];
+  for (let day = windowStart.startOf('day'); day < windowEnd; day = day.plus({ days: 1 })) {
+    if (!search.includeWeekends && day.weekday > 5) continue;
+
+    let cursor = DateTime.max(atTimeOfDay(day, dayStartMinutes), windowStart, earliest);
+    const dayEnd = DateTime.min(atTimeOfDay(day, dayEndMinutes), windowEnd);
+    const dayKey = day.toISODate() ?? '';
+
+    for (const block of blocked) {
+      if (block.end <= cursor) continue;
+      if (block.start >= dayEnd) break;
+      if (block.start > cursor) {
+        candidates.push(...gapCandidates(cursor, block.start, search.durationMinutes, dayKey));
+      }
+      cursor = DateTime.max(cursor, block.end);
+    }
+    if (cursor < dayEnd) {
+      candidates.push(...gapCandidates(cursor, dayEnd, search.durationMinutes, dayKey));
+    }
+  }
+
+  candidates.sort((a, b) => Number(b.flush) - Number(a.flush) || a.start.toMillis() - b.start.toMillis());
+
+  const picked: Candidate[] = [];
+  const perDay = new Map<string, number>();
+  const overlaps = (c: Candidate) => picked.some((p) => c.start < p.end && p.start < c.end);
+  for (const capPerDay of [true, false]) {
+    for (const candidate of candidates) {
+      if (picked.length >= maxSlots) break;
+      if (picked.includes(candidate) || overlaps(candidate)) continue;
+      if (capPerDay && (perDay.get(candidate.day) ?? 0) >= MAX_SLOTS_PER_DAY) continue;
+      picked.push(candidate);
+      perDay.set(candidate.day, (perDay.get(candidate.day) ?? 0) + 1);
+    }
+  }
+
+  return picked.map((slot) => ({
+    start: slot.start.toISO() ?? '',
+    end: slot.end.toISO() ?? '',
+    display: `${slot.start.toFormat('ccc, LLL d, h:mm a')} – ${slot.end.toFormat('h:mm a')}`,
+  }));
+}
+
+/**
+ * Look up the user's busy periods and find ranked free slots.
+ */
+export async function findFreeTime(
+  phoneNumber: string,
+  search: FreeTimeSearch
+): Promise<{ slots: FreeSlot[]; busy: BusyInterval[] }> {
+  const busy = await queryFreeBusy(phoneNumber, search.windowStart, search.windowEnd, search.calendarIds);
+  return { slots: findFreeSlots(busy, search), busy };
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Recurring event rules and "this and following" edits.
+ *
+ * Google Calendar stores a series as a master event with RFC 5545 RRULE
+ * lines; instances carry the master's ID in recurringEventId. Editing
+ * "this and following" splits the series: the master's rule is ended just
+ * before the chosen instance, and a new series starts at that instance
+ * with the edits applied.
+ */
+
+import { DateTime } from 'luxon';
+import {
+  getEvent,
+  createEvent,
+  updateEvent,
+  countInstancesBefore,
+  type EventUpdates,
+} from '../providers/google-calendar.js';
+import type { CalendarEvent, EventDetails } from '../types.js';
+
+const FREQUENCIES = new Set(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']);
+const RRULE_KEYS = new Set([
+  'FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH',
+  'BYSETPOS', 'BYYEARDAY', 'BYWEEKNO', 'BYHOUR', 'BYMINUTE', 'WKST',
+]);
+
+/**
+ * Validate and normalize a recurrence rule.
+ * Accepts "FREQ=WEEKLY;BYDAY=TU" with or without the "RRULE:" prefix.
+ * Returns "RRULE:..." or null if the rule is invalid.
+ */
+export function normalizeRecurrenceRule(input: string): string | null {
+  const body = input.trim().replace(/^RRULE:/i, '').toUpperCase();
+  if (!body) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [key, value, ...rest] = part.split('=');
+    if (!key || !value || rest.length > 0 || !RRULE_KEYS.has(key) || parts.has(key)) {
+      return null;
+    }
+    parts.set(key, value);
+  }
+
+  if (!FREQUENCIES.has(parts.get('FREQ') ?? '')) return null;
+  if (parts.has('COUNT') && parts.has('UNTIL')) return null;
+  for (const key of ['INTERVAL', 'COUNT']) {
+    const value = parts.get(key);
+    if (value !== undefined && !/^[1-9]\d*$/.test(value)) return null;
+  }
+  const until = parts.get('UNTIL');
+  if (until !== undefined && !/^\d{8}(T\d{6}Z?)?$/.test(until)) return null;
+
+  return `RRULE:${body}`;
+}
+
+/**
+ * End a series just before an instance: each RRULE gets an UNTIL one
+ * second before a timed instance (or the day before an all-day one) and
+ * loses its COUNT. Other lines (EXDATE, RDATE) are kept.
+ */
+export function endRecurrenceBefore(
+  recurrence: string[],
+  splitAt: { dateTime?: string | null; date?: string | null }
+): string[] {
+  const until = splitAt.dateTime
+    ? DateTime.fromISO(splitAt.dateTime).toUTC().minus({ seconds: 1 }).toFormat("yyyyMMdd'T'HHmmss'Z'")
+    : DateTime.fromISO(splitAt.date ?? '', { zone: 'UTC' }).minus({ days: 1 }).toFormat('yyyyMMdd');
+
+  return recurrence.map((line) => {
+    if (!line.toUpperCase().startsWith('RRULE:')) return line;
+    const parts = line.slice('RRULE:'.length).split(';')
+      .filter((part) => !/^(COUNT|UNTIL)=/i.test(part));
+    return `RRULE:${[...parts, `UNTIL=${until}`].join(';')}`;
+  });
+}
+
+/**
+ * Rules for the new series after a split: a COUNT is reduced by the
+ * number of occurrences that stayed with the original series.
+ */
+export function continueRecurrence(recurrence: string[], occurrencesBefore: number): string[] {
+  return recurrence.map((line) => {
+    const match = line.match(/(^|;)COUNT=(\d+)/i);
+    if (!line.toUpperCase().startsWith('RRULE:') || !match) return line;
+    const remaining = Math.max(Number(match[2]) - occurrencesBefore, 1);
+    return line.replace(/COUNT=\d+/i, `COUNT=${remaining}`);
+  });
+}
+
+/**
+ * Apply updates to an instance and every later instance of its series.
+ *
+ * Returns the edited series and, when the series was split, the ID of the
+ * original (now truncated) series. If the instance is the first of its
+ * series, the whole series is updated in place.
+ */
+export async function updateThisAndFollowing(
+  phoneNumber: string,
+  instanceId: string,
+  updates: EventUpdates,
+  calendarId = 'primary'
+): Promise<{ event: CalendarEvent; previousSeriesId: string | null }> {
+  const instance = await getEvent(phoneNumber, instanceId, calendarId);
+  const masterId = instance.recurringEventId;
+  if (!masterId) {
+    throw new Error('This event is not part of a recurring series.');
+  }
+
+  const master = await getEvent(phoneNumber, masterId, calendarId);
+  const originalStart = instance.originalStartTime ?? instance.start ?? {};
+  const masterStart = master.start?.dateTime ?? master.start?.date;
+  const splitStart = originalStart.dateTime ?? originalStart.date;
+  if (!splitStart || !masterStart) {
+    throw new Error('Could not determine where the series starts.');
+  }
+
+  const allDay = !master.start?.dateTime;
+  const zone = master.start?.timeZone ?? 'UTC';
+  const splitAt = DateTime.fromISO(splitStart, { zone });
+
+  if (splitAt.toMillis() <= DateTime.fromISO(masterStart, { zone }).toMillis()) {
+    const event = await updateEvent(phoneNumber, masterId, { ...updates, timeZone: zone }, calendarId);
+    return { event, previousSeriesId: null };
+  }
+
+  // New series keeps the original duration unless the end is edited
+  const masterEnd = master.end?.dateTime ?? master.end?.date ?? masterStart;
+  const durationMs = DateTime.fromISO(masterEnd, { zone }).toMillis()
+    - DateTime.fromISO(masterStart, { zone }).toMillis();
+  const start = allDay
+    ? DateTime.fromISO(updates.startDate ?? splitStart, { zone }).toJSDate()
+    : updates.startTime ?? splitAt.toJSDate();
+  const end = allDay
+    ? (updates.endDate ? DateTime.fromISO(updates.endDate, { zone }).toJSDate() : new Date(start.getTime() + durationMs))
+    : updates.endTime ?? new Date(start.getTime() + durationMs);
+
+  const removed = new Set((updates.removeAttendees ?? []).map((email) => email.toLowerCase()));
+  const attendees = [
+    ...(master.attendees ?? [])
+      .filter((a) => a.email && !a.organizer && !a.self && !removed.has(a.email.toLowerCase()))
+      .map((a) => a.email as string),
+    ...(updates.addAttendees ?? []),
+  ];
+  const reminders = updates.reminders ?? (master.reminders?.useDefault === false
+    ? (master.reminders.overrides ?? []).map((r) => ({
+      method: r.method === 'email' ? 'email' as const : 'popup' as const,
+      minutes: r.minutes ?? 0,
+    }))
+    : undefined);
+
+  const recurrence = master.recurrence ?? [];
+  const occurrencesBefore = await countInstancesBefore(phoneNumber, masterId, splitAt.toJSDate(), calendarId);
+  const details: EventDetails = {
+    description: updates.description ?? master.description ?? undefined,
+    allDay,
+    timeZone: zone,
+    recurrence: updates.recurrence ?? continueRecurrence(recurrence, occurrencesBefore),
+    attendees: attendees.length > 0 ? [...new Set(attendees)] : undefined,
+    reminders,
+    addMeetLink: updates.addMeetLink || Boolean(master.hangoutLink),
+  };
+
+  await updateEvent(phoneNumber, masterId, { recurrence: endRecurrenceBefore(recurrence, originalStart) }, calendarId);
+  const event = await createEvent(
+    phoneNumber,
+    updates.title ?? master.summary ?? '(No title)',
+    start,
+    end,
+    updates.location ?? master.location ?? undefined,
+    details,
+    calendarId
+  );
+
+  return { event, previousSeriesId: masterId };
+}
+
+/**
+ * Apply updates to every occurrence of the series an event belongs to.
+ *
+ * Time changes made relative to an instance are shifted onto the series
+ * master by the same offset, so "move to 4pm" keeps the series' start
+ * date. Events that are not recurring are updated directly.
+ */
+export async function updateAllOccurrences(
+  phoneNumber: string,
+  eventId: string,
+  updates: EventUpdates,
+  calendarId = 'primary'
+): Promise<CalendarEvent> {
+  const instance = await getEvent(phoneNumber, eventId, calendarId);
+  const masterId = instance.recurringEventId;
+  if (!masterId) {
+    return updateEvent(phoneNumber, eventId, updates, calendarId);
+  }
+
+  const hasTimeChange = updates.startTime !== undefined || updates.endTime !== undefined
+    || updates.startDate !== undefined || updates.endDate !== undefined;
+  if (!hasTimeChange) {
+    return updateEvent(phoneNumber, masterId, updates, calendarId);
+  }
+
+  const master = await getEvent(phoneNumber, masterId, calendarId);
+  const shifted: EventUpdates = { ...updates, timeZone: master.start?.timeZone ?? undefined };
+
+  if (updates.startTime && instance.start?.dateTime && master.start?.dateTime) {
+    const delta = updates.startTime.getTime() - Date.parse(instance.start.dateTime);
+    shifted.startTime = new Date(Date.parse(master.start.dateTime) + delta);
+  }
+  if (updates.endTime && instance.end?.dateTime && master.end?.dateTime) {
+    const delta = updates.endTime.getTime() - Date.parse(instance.end.dateTime);
+    shifted.endTime = new Date(Date.parse(master.end.dateTime) + delta);
+  }
+  if (updates.startDate && instance.start?.date && master.start?.date) {
+    shifted.startDate = shiftDate(master.start.date, instance.start.date, updates.startDate);
+  }
+  if (updates.endDate && instance.end?.date && master.end?.date) {
+    shifted.endDate = shiftDate(master.end.date, instance.end.date, updates.endDate);
+  }
+
+  return updateEvent(phoneNumber, masterId, shifted, calendarId);
+}
+
+/** Move `date` by the number of days between `from` and `to` (all YYYY-MM-DD). */
+function shiftDate(date: string, from: string, to: string): string {
+  const days = DateTime.fromISO(to, { zone: 'UTC' }).diff(DateTime.fromISO(from, { zone: 'UTC' }), 'days').days;
+  return DateTime.fromISO(date, { zone: 'UTC' }).plus({ days }).toISODate() ?? date;
+}
@@ -2,8 +2,35 @@
  * Calendar domain types.
  */
 
+/**
+ * Attendee RSVP status as reported by Google Calendar.
+ */
+export type AttendeeResponseStatus = 'needsAction' | 'declined' | 'tentative' | 'accepted';
+
+/**
+ * Event attendee with their RSVP status.
+ */
+export interface CalendarAttendee {
+  email: string;
+  name?: string;
+  responseStatus: AttendeeResponseStatus;
+  organizer?: boolean;
+  optional?: boolean;
+}
+
+/**
+ * Event reminder override.
+ */
+export interface EventReminder {
+  method: 'popup' | 'email';
+  minutes: number;
+}
+
 /**
  * Calendar event returned by our API.
+ *
+ * Optional fields are omitted when empty. All-day events have date-only
+ * start/end (YYYY-MM-DD, end exclusive as in Google Calendar).
  */
 export interface CalendarEvent {
   id: string;
@@ -11,4 +38,104 @@ export interface CalendarEvent {
   start: string; // ISO string
   end: string; // ISO string
   location?: string;
+  description?: string;
+  allDay?: boolean;
+  /** RRULE/EXDATE lines (series master only) */
+  recurrence?: string[];
+  /** Set on instances of a recurring series: the series master's ID */
+  recurringEventId?: string;
+  attendees?: CalendarAttendee[];
+  /** Reminder overrides; omitted when the calendar's default reminders apply */
+  reminders?: EventReminder[];
+  meetLink?: string;
+  /** Source calendar; set in merged multi-calendar views */
+  calendarId?: string;
+  calendarName?: string;
+}
+
+/**
+ * How a proposed event time clashes with an existing event.
+ * - overlap: the two events share time
+ * - travel: back-to-back (within the travel gap) at different locations
+ */
+export type ConflictKind = 'overlap' | 'travel';
+
+/**
+ * An existing event that clashes with a proposed time.
+ */
+export interface EventConflict {
+  kind: ConflictKind;
+  eventId: string;
+  title: string;
+  start: string;
+  end: string;
+  location?: string;
+  /** For travel conflicts: minutes between the two events */
+  gapMinutes?: number;
+  /** Short description in the user's timezone, e.g. "Dentist, Thu 3:00 PM–4:00 PM" */
+  display: string;
+}
+
+/**
+ * The user's access level on a calendar.
+ */
+export type CalendarAccessRole = 'owner' | 'writer' | 'reader' | 'freeBusyReader';
+
+/**
+ * A calendar on the user's calendar list.
+ */
+export interface CalendarInfo {
+  id: string;
+  /** The user's name for the calendar (their override, else its title) */
+  name: string;
+  primary: boolean;
+  accessRole: CalendarAccessRole;
+  timeZone?: string;
+  /** Hidden from the user's calendar list in Google Calendar */
+  hidden?: boolean;
+}
+
+/**
+ * Optional event fields for create and update.
+ */
+export interface EventDetails {
+  description?: string;
+  /** Create as an all-day event; start/end dates are taken in timeZone */
+  allDay?: boolean;
+  /** IANA timezone for the event (required by Google for recurring events) */
+  timeZone?: string;
+  /** RRULE/EXDATE lines */
+  recurrence?: string[];
+  /** Attendee emails to invite */
+  attendees?: string[];
+  /** Reminder overrides; [] disables reminders, undefined keeps the calendar default */
+  reminders?: EventReminder[];
+  /** Attach a new Google Meet link */
+  addMeetLink?: boolean;
+}
+
+/**
+ * A busy period from the freebusy API (ISO strings).
+ */
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+/**
+ * Daily working hours as local "HH:MM" times.
+ */
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+/**
+ * A candidate meeting slot, in the user's timezone.
+ */
+export interface FreeSlot {
+  start: string; // ISO string with the user's UTC offset
+  end: string;
+  /** Human-readable time, e.g. "Thu, Feb 5, 2:00 PM – 3:00 PM" */
+  display: string;
 }
@@ -5,6 +5,8 @@
 import { GoogleGenerativeAI, Part } from '@google/generative-ai';
 import config from '../../../config.js';
 import { GeminiNotConfiguredError } from '../types.js';
+import { recordUsage } from '../../../services/usage/ledger.js';
+import type { UsageAttribution } from '../../../services/usage/index.js';
 
 function getGeminiClient(): GoogleGenerativeAI {
   const apiKey = config.google.geminiApiKey;
@@ -14,14 +16,19 @@ function getGeminiClient(): GoogleGenerativeAI {
   return new GoogleGenerativeAI(apiKey);
 }
 
+/**
+ * Analyze an image, recording the call in the usage ledger.
+ */
 export async function analyzeImage(
   imageBuffer: Buffer,
   mimeType: string,
-  prompt: string
+  prompt: string,
+  usage: UsageAttribution = { phoneNumber: null, purpose: 'agent' }
 ): Promise<string> {
   const client = getGeminiClient();
+  const modelId = config.google.geminiModel || 'gemini-2.0-flash';
   const model = client.getGenerativeModel({
-    model: config.google.geminiModel || 'gemini-2.0-flash',
+    model: modelId,
   });
 
   const base64Data = imageBuffer.toString('base64');
@@ -39,7 +46,7 @@ export async function analyzeImage(
     mimeType,
     imageSizeBytes: imageBuffer.length,
     promptLength: prompt.length,
-    model: config.google.geminiModel || 'gemini-2.0-flash',
+    model: modelId,
     timestamp: new Date().toISOString(),
   }));
 
@@ -50,6 +57,14 @@ export async function analyzeImage(
     const response = result.response;
     const text = response.text();
 
+    await recordUsage({
+      ...usage,
+      provider: 'gemini',
+      model: modelId,
+      inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+    });
+
     console.log(JSON.stringify({
       level: 'info',
       message: 'Gemini analysis complete',
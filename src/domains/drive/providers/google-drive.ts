@@ -156,14 +156,15 @@ export async function downloadFile(
 
 export async function findFolder(
   phoneNumber: string,
-  name: string
+  name: string,
+  parentId?: string
 ): Promise<DriveFolder | null> {
   const drive = await getDriveClient(phoneNumber);
-  const hermesFolder = await getOrCreateHermesFolder(phoneNumber);
+  const parent = parentId || await getOrCreateHermesFolder(phoneNumber);
 
   // Boundary: escape single quotes in user-provided folder name
   const escapedName = name.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
-  const query = `name = '${escapedName}' and mimeType = 'application/vnd.google-apps.folder' and '${hermesFolder}' in parents and trashed = false`;
+  const query = `name = '${escapedName}' and mimeType = 'application/vnd.google-apps.folder' and '${parent}' in parents and trashed = false`;
 
   const response = await withRetry(() =>
     drive.files.list({
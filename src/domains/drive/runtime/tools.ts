@@ -686,7 +686,10 @@ Common analysis prompts:
         }
       }
 
-      const analysis = await analyzeImage(imageBuffer, imageMimeType, prompt);
+      const analysis = await analyzeImage(imageBuffer, imageMimeType, prompt, {
+        phoneNumber: context.phoneNumber ?? null,
+        purpose: 'agent',
+      });
 
       if (context.messageId) {
         try {
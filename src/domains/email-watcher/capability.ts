@@ -3,5 +3,10 @@ import type { DomainCapability } from '../../types/domain.js';
 export const capability: DomainCapability = {
   domain: 'email-watcher',
   exposure: 'tool-only',
-  tools: ['toggle_email_watcher'],
+  tools: [
+    'toggle_email_watcher',
+    'create_email_watcher_rule',
+    'list_email_watcher_rules',
+    'delete_email_watcher_rule',
+  ],
 };
@@ -1,4 +1,7 @@
 /**
- * Email domain bridge — re-exports listEmails for email-watcher test tool.
+ * Email domain bridge — re-exports listEmails for email-watcher test tool
+ * and attachment saving for skills that file attachments to Drive.
  */
 export { listEmails } from '../../email/providers/gmail.js';
+export { saveEmailAttachments } from '../../email/service/attachments.js';
+export type { SaveAttachmentsResult } from '../../email/types.js';
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Gmail label lookup for watcher rules.
+ *
+ * Rules store label IDs, since messages carry IDs rather than names.
+ * Lookup is read-only: a rule never creates a label.
+ */
+
+import { gmail as gmailApi } from '@googleapis/gmail';
+import { getAuthenticatedClient, withRetry } from './google-core.js';
+
+/**
+ * Find a Gmail label by name or ID (case-insensitive), including system
+ * labels such as IMPORTANT or CATEGORY_PROMOTIONS. Returns null if none matches.
+ */
+export async function findGmailLabel(
+  phoneNumber: string,
+  label: string
+): Promise<{ id: string; name: string } | null> {
+  const oauth2Client = await getAuthenticatedClient(phoneNumber, 'EmailWatcher');
+  const gmail = gmailApi({ version: 'v1', auth: oauth2Client });
+
+  const response = await withRetry(() => gmail.users.labels.list({ userId: 'me' }), phoneNumber, 'Gmail');
+  const wanted = label.trim().toLowerCase();
+  const match = (response.data.labels ?? []).find(
+    (l) => l.id?.toLowerCase() === wanted || l.name?.toLowerCase() === wanted
+  );
+  if (!match?.id) return null;
+  return { id: match.id, name: match.name ?? match.id };
+}
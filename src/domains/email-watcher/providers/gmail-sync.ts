@@ -1,24 +1,33 @@
 /**
  * @fileoverview Gmail History Sync + Email Normalization.
  *
- * Syncs new emails from Gmail using the History API and normalizes
- * them into IncomingEmail format for classification.
+ * Lists new INBOX message IDs from Gmail using the History API, fetches
+ * messages, and normalizes them into IncomingEmail format for classification.
+ * Tracking which messages were processed lives in the service layer.
  */
 
 import { gmail as gmailApi, gmail_v1 } from '@googleapis/gmail';
 import { getAuthenticatedClient } from './google-core.js';
 import { getUserConfigStore } from '../../../services/user-config/index.js';
-import config from '../../../config.js';
 import type { IncomingEmail, EmailAttachment } from '../types.js';
 
+/** Result of fetching one message for classification */
+export type FetchedEmailResult =
+  | { messageId: string; email: IncomingEmail }
+  | { messageId: string; error: string };
+
 /**
- * Sync new emails for a user since their last known historyId.
+ * List INBOX message IDs added since the user's last known historyId.
  *
  * On first run (no historyId), seeds the cursor from the user's profile
- * and returns an empty array. Subsequent runs fetch new INBOX messages
- * via Gmail's history API.
+ * and returns no IDs. Does not advance the cursor otherwise: the caller
+ * records the IDs first and then moves the cursor to the returned
+ * historyId, so a crash in between re-lists rather than loses messages.
+ * An expired historyId (HTTP 404) resets the cursor and returns no IDs.
  */
-export async function syncNewEmails(phoneNumber: string): Promise<IncomingEmail[]> {
+export async function listNewMessageIds(
+  phoneNumber: string
+): Promise<{ messageIds: string[]; historyId: string | null }> {
   const oauth2Client = await getAuthenticatedClient(phoneNumber, 'EmailWatcher');
   const gmail = gmailApi({ version: 'v1', auth: oauth2Client });
   const userConfigStore = getUserConfigStore();
@@ -33,50 +42,16 @@ export async function syncNewEmails(phoneNumber: string): Promise<IncomingEmail[
     if (currentHistoryId) {
       await userConfigStore.updateEmailWatcherState(phoneNumber, currentHistoryId);
     }
-    return [];
+    return { messageIds: [], historyId: null };
   }
 
   // Subsequent runs: fetch history since last known cursor
   try {
-    const messageIds = await fetchHistoryMessageIds(gmail, historyId);
-
-    if (messageIds.length === 0) {
-      return [];
-    }
-
-    // Limit to batchSize
-    const limitedIds = messageIds.slice(0, config.emailWatcher.batchSize);
-
-    // Fetch full messages and normalize
-    const emails: IncomingEmail[] = [];
-    for (const msgId of limitedIds) {
-      try {
-        const response = await gmail.users.messages.get({
-          userId: 'me',
-          id: msgId,
-          format: 'full',
-        });
-        if (response.data) {
-          emails.push(prepareEmailForClassification(response.data));
-        }
-      } catch (err) {
-        console.log(JSON.stringify({
-          level: 'warn',
-          message: 'Failed to fetch email for classification',
-          messageId: msgId,
-          error: err instanceof Error ? err.message : String(err),
-          timestamp: new Date().toISOString(),
-        }));
-      }
-    }
-
-    // Update historyId cursor to latest
-    const profile = await gmail.users.getProfile({ userId: 'me' });
-    if (profile.data.historyId) {
-      await userConfigStore.updateEmailWatcherState(phoneNumber, profile.data.historyId);
-    }
-
-    return emails;
+    const history = await fetchHistoryMessageIds(gmail, historyId);
+    const latestHistoryId = history.historyId
+      ?? (await gmail.users.getProfile({ userId: 'me' })).data.historyId
+      ?? null;
+    return { messageIds: history.messageIds, historyId: latestHistoryId };
   } catch (err: unknown) {
     // historyId invalid (HTTP 404) — reset cursor
     if (isHttp404(err)) {
@@ -90,20 +65,64 @@ export async function syncNewEmails(phoneNumber: string): Promise<IncomingEmail[
       if (profile.data.historyId) {
         await userConfigStore.updateEmailWatcherState(phoneNumber, profile.data.historyId);
       }
-      return [];
+      return { messageIds: [], historyId: null };
     }
     throw err;
   }
 }
 
+/**
+ * Fetch and normalize messages for classification.
+ * Per-message failures are returned rather than thrown.
+ */
+export async function fetchEmails(
+  phoneNumber: string,
+  messageIds: string[]
+): Promise<FetchedEmailResult[]> {
+  if (messageIds.length === 0) return [];
+
+  const oauth2Client = await getAuthenticatedClient(phoneNumber, 'EmailWatcher');
+  const gmail = gmailApi({ version: 'v1', auth: oauth2Client });
+  const results: FetchedEmailResult[] = [];
+
+  for (const messageId of messageIds) {
+    try {
+      const response = await gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'full',
+      });
+      // Boundary: require id from API response
+      if (!response.data?.id) {
+        throw new Error(`Gmail API returned no message for id=${messageId}`);
+      }
+      results.push({ messageId, email: prepareEmailForClassification(response.data) });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.log(JSON.stringify({
+        level: 'warn',
+        message: 'Failed to fetch email for classification',
+        messageId,
+        error,
+        timestamp: new Date().toISOString(),
+      }));
+      results.push({ messageId, error });
+    }
+  }
+
+  return results;
+}
+
 /**
  * Fetch all new INBOX message IDs from Gmail history, following pagination.
+ * Also returns the mailbox historyId reported with the last page.
  */
 async function fetchHistoryMessageIds(
   gmail: gmail_v1.Gmail,
   startHistoryId: string
-): Promise<string[]> {
+): Promise<{ messageIds: string[]; historyId: string | null }> {
   const messageIds = new Set<string>();
+  let latestHistoryId: string | null = null;
   let pageToken: string | undefined;
 
   do {
@@ -125,10 +144,11 @@ async function fetchHistoryMessageIds(
       }
     }
 
+    latestHistoryId = response.data.historyId ?? latestHistoryId;
     pageToken = response.data.nextPageToken ?? undefined;
   } while (pageToken);
 
-  return [...messageIds];
+  return { messageIds: [...messageIds], historyId: latestHistoryId };
 }
 
 /**
@@ -167,7 +187,7 @@ export function prepareEmailForClassification(
     ? normalizeWhitespace(rawBody).slice(0, 5000)
     : '[No body — see attachments]';
 
-  return { messageId, from, subject, date, body, attachments };
+  return { messageId, from, subject, date, body, attachments, labelIds: message.labelIds ?? [] };
 }
 
 /**
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Gmail push notification watches.
+ *
+ * Registers and stops users.watch() subscriptions that make Gmail publish
+ * INBOX changes to a Cloud Pub/Sub topic. Gmail expires a watch after
+ * seven days, so callers are responsible for renewing it.
+ */
+
+import { gmail as gmailApi } from '@googleapis/gmail';
+import { getAuthenticatedClient } from './google-core.js';
+
+/** Result of registering a watch */
+export type MailboxWatchResult = {
+  emailAddress: string;
+  historyId: string | null;
+  expiresAt: number;
+};
+
+/**
+ * Start (or renew) a Gmail watch on the user's INBOX.
+ * Calling watch again on an active mailbox replaces the existing watch.
+ */
+export async function watchMailbox(
+  phoneNumber: string,
+  topicName: string
+): Promise<MailboxWatchResult> {
+  const oauth2Client = await getAuthenticatedClient(phoneNumber, 'EmailWatcher');
+  const gmail = gmailApi({ version: 'v1', auth: oauth2Client });
+
+  const watch = await gmail.users.watch({
+    userId: 'me',
+    requestBody: {
+      topicName,
+      labelIds: ['INBOX'],
+      labelFilterBehavior: 'include',
+    },
+  });
+  const profile = await gmail.users.getProfile({ userId: 'me' });
+
+  const emailAddress = profile.data.emailAddress;
+  if (!emailAddress) {
+    throw new Error('Gmail profile has no email address');
+  }
+
+  return {
+    emailAddress,
+    historyId: watch.data.historyId ?? null,
+    expiresAt: Number(watch.data.expiration ?? 0),
+  };
+}
+
+/**
+ * Stop push notifications for the user's mailbox.
+ */
+export async function stopMailboxWatch(phoneNumber: string): Promise<void> {
+  const oauth2Client = await getAuthenticatedClient(phoneNumber, 'EmailWatcher');
+  const gmail = gmailApi({ version: 'v1', auth: oauth2Client });
+  await gmail.users.stop({ userId: 'me' });
+}
@@ -0,0 +1,669 @@
+/**
+ * @fileoverview SQLite storage for the email watcher.
+ *
+ * - Notification queue: notifications held back by digest mode, quiet hours,
+ *   or the hourly throttle are stored until the next digest is sent.
+ * - Processing ledger: every Gmail message ID the watcher has seen, with its
+ *   processing status, so failures are retried and overflow beyond the batch
+ *   size is carried into the next poll instead of being dropped.
+ * - Gmail watches: active push-notification watches per user, used to map a
+ *   notification's mailbox address back to a user and to renew watches.
+ * - Watcher rules: per-user sender/label/subject/attachment rules that route
+ *   emails to notify, a skill, or ignore before classification.
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import config from '../../../config.js';
+import type {
+  QueuedNotification,
+  LedgerEntry,
+  LedgerStatus,
+  GmailWatch,
+  WatcherRule,
+  WatcherRuleAction,
+} from '../types.js';
+
+interface QueuedNotificationRow {
+  id: number;
+  phone_number: string;
+  email_from: string;
+  email_subject: string;
+  body: string;
+  created_at: number;
+}
+
+function rowToNotification(row: QueuedNotificationRow): QueuedNotification {
+  return {
+    id: row.id,
+    phoneNumber: row.phone_number,
+    from: row.email_from,
+    subject: row.email_subject,
+    body: row.body,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * SQLite queue of undelivered email watcher notifications.
+ */
+export class SqliteNotificationQueue {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath Path to SQLite database file
+   */
+  constructor(dbPath: string) {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS email_watcher_notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        phone_number TEXT NOT NULL,
+        email_from TEXT NOT NULL,
+        email_subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        delivered_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_email_watcher_notifications_pending
+        ON email_watcher_notifications(phone_number, delivered_at);
+    `);
+  }
+
+  /** Queue a notification for later delivery. */
+  enqueue(notification: Omit<QueuedNotification, 'id'>): void {
+    this.db
+      .prepare(
+        `INSERT INTO email_watcher_notifications
+           (phone_number, email_from, email_subject, body, created_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        notification.phoneNumber,
+        notification.from,
+        notification.subject,
+        notification.body,
+        notification.createdAt
+      );
+  }
+
+  /** Undelivered notifications for a user, oldest first. */
+  listPending(phoneNumber: string): QueuedNotification[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, phone_number, email_from, email_subject, body, created_at
+         FROM email_watcher_notifications
+         WHERE phone_number = ? AND delivered_at IS NULL
+         ORDER BY created_at ASC, id ASC`
+      )
+      .all(phoneNumber) as QueuedNotificationRow[];
+    return rows.map(rowToNotification);
+  }
+
+  /** Phone numbers with at least one undelivered notification. */
+  listPendingPhoneNumbers(): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT phone_number FROM email_watcher_notifications
+         WHERE delivered_at IS NULL`
+      )
+      .all() as Array<{ phone_number: string }>;
+    return rows.map((row) => row.phone_number);
+  }
+
+  /** Mark notifications as delivered. */
+  markDelivered(ids: number[], deliveredAt: number): void {
+    if (ids.length === 0) return;
+    const stmt = this.db.prepare(
+      'UPDATE email_watcher_notifications SET delivered_at = ? WHERE id = ?'
+    );
+    this.db.transaction(() => {
+      for (const id of ids) {
+        stmt.run(deliveredAt, id);
+      }
+    })();
+  }
+
+  /** Close the database connection. */
+  close(): void {
+    this.db.close();
+  }
+}
+
+let instance: SqliteNotificationQueue | null = null;
+
+/**
+ * Get the notification queue (shares the credentials database file).
+ */
+export function getNotificationQueue(): SqliteNotificationQueue {
+  if (!instance) {
+    instance = new SqliteNotificationQueue(config.credentials.sqlitePath);
+  }
+  return instance;
+}
+
+/**
+ * Close and reset the notification queue instance.
+ * Useful for tests.
+ */
+export function resetNotificationQueue(): void {
+  instance?.close();
+  instance = null;
+}
+
+interface LedgerRow {
+  phone_number: string;
+  message_id: string;
+  status: LedgerStatus;
+  attempts: number;
+  last_error: string | null;
+  email_from: string | null;
+  email_subject: string | null;
+  first_seen_at: number;
+  updated_at: number;
+}
+
+function rowToLedgerEntry(row: LedgerRow): LedgerEntry {
+  return {
+    phoneNumber: row.phone_number,
+    messageId: row.message_id,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    from: row.email_from,
+    subject: row.email_subject,
+    firstSeenAt: row.first_seen_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Statuses that still need work (in-progress rows are left behind by a crash mid-cycle). */
+const UNFINISHED_STATUSES = "('pending', 'fetched', 'classified')";
+
+/**
+ * SQLite ledger of Gmail messages seen by the email watcher.
+ */
+export class SqliteProcessingLedger {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath Path to SQLite database file
+   */
+  constructor(dbPath: string) {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS email_watcher_ledger (
+        phone_number TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        email_from TEXT,
+        email_subject TEXT,
+        first_seen_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (phone_number, message_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_email_watcher_ledger_status
+        ON email_watcher_ledger(phone_number, status);
+    `);
+  }
+
+  /**
+   * Record message IDs as pending. IDs already in the ledger are left untouched.
+   * Returns the number of newly recorded messages.
+   */
+  recordSeen(phoneNumber: string, messageIds: string[], now: number): number {
+    const stmt = this.db.prepare(
+      `INSERT OR IGNORE INTO email_watcher_ledger
+         (phone_number, message_id, status, first_seen_at, updated_at)
+       VALUES (?, ?, 'pending', ?, ?)`
+    );
+    let inserted = 0;
+    this.db.transaction(() => {
+      for (const messageId of messageIds) {
+        inserted += stmt.run(phoneNumber, messageId, now, now).changes;
+      }
+    })();
+    return inserted;
+  }
+
+  /**
+   * Messages that still need processing, oldest first: unfinished entries
+   * and failures, while they have attempts left.
+   */
+  listDue(phoneNumber: string, maxAttempts: number, limit: number): LedgerEntry[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM email_watcher_ledger
+         WHERE phone_number = ?
+           AND (status IN ${UNFINISHED_STATUSES} OR status = 'failed') AND attempts < ?
+         ORDER BY first_seen_at ASC, rowid ASC
+         LIMIT ?`
+      )
+      .all(phoneNumber, maxAttempts, limit) as LedgerRow[];
+    return rows.map(rowToLedgerEntry);
+  }
+
+  /** Number of messages that still need processing. */
+  countDue(phoneNumber: string, maxAttempts: number): number {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM email_watcher_ledger
+         WHERE phone_number = ?
+           AND (status IN ${UNFINISHED_STATUSES} OR status = 'failed') AND attempts < ?`
+      )
+      .get(phoneNumber, maxAttempts) as { count: number };
+    return row.count;
+  }
+
+  /** Get one ledger entry. */
+  get(phoneNumber: string, messageId: string): LedgerEntry | null {
+    const row = this.db
+      .prepare('SELECT * FROM email_watcher_ledger WHERE phone_number = ? AND message_id = ?')
+      .get(phoneNumber, messageId) as LedgerRow | undefined;
+    return row ? rowToLedgerEntry(row) : null;
+  }
+
+  /** List entries, most recently updated first. */
+  list(filter: { phoneNumber?: string; status?: LedgerStatus; limit: number }): LedgerEntry[] {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (filter.phoneNumber) {
+      conditions.push('phone_number = ?');
+      params.push(filter.phoneNumber);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM email_watcher_ledger ${where}
+         ORDER BY updated_at DESC, rowid DESC
+         LIMIT ?`
+      )
+      .all(...params, filter.limit) as LedgerRow[];
+    return rows.map(rowToLedgerEntry);
+  }
+
+  /** Mark a message as fetched and store its sender and subject for display. */
+  markFetched(
+    phoneNumber: string,
+    messageId: string,
+    email: { from: string; subject: string },
+    now: number
+  ): void {
+    this.db
+      .prepare(
+        `UPDATE email_watcher_ledger
+         SET status = 'fetched', email_from = ?, email_subject = ?, updated_at = ?
+         WHERE phone_number = ? AND message_id = ?`
+      )
+      .run(email.from, email.subject, now, phoneNumber, messageId);
+  }
+
+  /** Move a message to a non-failure status. Clears the last error. */
+  setStatus(
+    phoneNumber: string,
+    messageId: string,
+    status: Exclude<LedgerStatus, 'failed'>,
+    now: number
+  ): void {
+    this.db
+      .prepare(
+        `UPDATE email_watcher_ledger
+         SET status = ?, last_error = NULL, updated_at = ?
+         WHERE phone_number = ? AND message_id = ?`
+      )
+      .run(status, now, phoneNumber, messageId);
+  }
+
+  /** Mark a message as failed and count the attempt. */
+  markFailed(phoneNumber: string, messageId: string, error: string, now: number): void {
+    this.db
+      .prepare(
+        `UPDATE email_watcher_ledger
+         SET status = 'failed', attempts = attempts + 1, last_error = ?, updated_at = ?
+         WHERE phone_number = ? AND message_id = ?`
+      )
+      .run(error, now, phoneNumber, messageId);
+  }
+
+  /**
+   * Delete finished entries last updated before the cutoff: actioned,
+   * skipped, and failed with no attempts left.
+   * Returns the number of deleted entries.
+   */
+  pruneFinished(before: number, maxAttempts: number): number {
+    return this.db
+      .prepare(
+        `DELETE FROM email_watcher_ledger
+         WHERE (status IN ('actioned', 'skipped') OR (status = 'failed' AND attempts >= ?))
+           AND updated_at < ?`
+      )
+      .run(maxAttempts, before).changes;
+  }
+
+  /** Close the database connection. */
+  close(): void {
+    this.db.close();
+  }
+}
+
+let ledgerInstance: SqliteProcessingLedger | null = null;
+
+/**
+ * Get the processing ledger (shares the credentials database file).
+ */
+export function getProcessingLedger(): SqliteProcessingLedger {
+  if (!ledgerInstance) {
+    ledgerInstance = new SqliteProcessingLedger(config.credentials.sqlitePath);
+  }
+  return ledgerInstance;
+}
+
+/**
+ * Close and reset the processing ledger instance.
+ * Useful for tests.
+ */
+export function resetProcessingLedger(): void {
+  ledgerInstance?.close();
+  ledgerInstance = null;
+}
+
+interface GmailWatchRow {
+  phone_number: string;
+  email_address: string;
+  history_id: string | null;
+  expires_at: number;
+  updated_at: number;
+}
+
+function rowToGmailWatch(row: GmailWatchRow): GmailWatch {
+  return {
+    phoneNumber: row.phone_number,
+    emailAddress: row.email_address,
+    historyId: row.history_id,
+    expiresAt: row.expires_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * SQLite store of Gmail push watches, one per user.
+ * Email addresses are stored lowercased.
+ */
+export class SqliteGmailWatchStore {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath Path to SQLite database file
+   */
+  constructor(dbPath: string) {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS email_watcher_gmail_watches (
+        phone_number TEXT PRIMARY KEY,
+        email_address TEXT NOT NULL,
+        history_id TEXT,
+        expires_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_email_watcher_gmail_watches_address
+        ON email_watcher_gmail_watches(email_address);
+    `);
+  }
+
+  /** Create or replace a user's watch. */
+  upsert(watch: GmailWatch): void {
+    this.db
+      .prepare(
+        `INSERT INTO email_watcher_gmail_watches
+           (phone_number, email_address, history_id, expires_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(phone_number) DO UPDATE SET
+           email_address = excluded.email_address,
+           history_id = excluded.history_id,
+           expires_at = excluded.expires_at,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        watch.phoneNumber,
+        watch.emailAddress.toLowerCase(),
+        watch.historyId,
+        watch.expiresAt,
+        watch.updatedAt
+      );
+  }
+
+  /** Get a user's watch. */
+  get(phoneNumber: string): GmailWatch | null {
+    const row = this.db
+      .prepare('SELECT * FROM email_watcher_gmail_watches WHERE phone_number = ?')
+      .get(phoneNumber) as GmailWatchRow | undefined;
+    return row ? rowToGmailWatch(row) : null;
+  }
+
+  /** Find the watch for a mailbox address (case-insensitive). */
+  findByEmailAddress(emailAddress: string): GmailWatch | null {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM email_watcher_gmail_watches
+         WHERE email_address = ?
+         ORDER BY updated_at DESC
+         LIMIT 1`
+      )
+      .get(emailAddress.toLowerCase()) as GmailWatchRow | undefined;
+    return row ? rowToGmailWatch(row) : null;
+  }
+
+  /** List all watches. */
+  list(): GmailWatch[] {
+    const rows = this.db
+      .prepare('SELECT * FROM email_watcher_gmail_watches ORDER BY expires_at ASC')
+      .all() as GmailWatchRow[];
+    return rows.map(rowToGmailWatch);
+  }
+
+  /** Remove a user's watch. */
+  delete(phoneNumber: string): void {
+    this.db
+      .prepare('DELETE FROM email_watcher_gmail_watches WHERE phone_number = ?')
+      .run(phoneNumber);
+  }
+
+  /** Close the database connection. */
+  close(): void {
+    this.db.close();
+  }
+}
+
+let watchStoreInstance: SqliteGmailWatchStore | null = null;
+
+/**
+ * Get the Gmail watch store (shares the credentials database file).
+ */
+export function getGmailWatchStore(): SqliteGmailWatchStore {
+  if (!watchStoreInstance) {
+    watchStoreInstance = new SqliteGmailWatchStore(config.credentials.sqlitePath);
+  }
+  return watchStoreInstance;
+}
+
+/**
+ * Close and reset the Gmail watch store instance.
+ * Useful for tests.
+ */
+export function resetGmailWatchStore(): void {
+  watchStoreInstance?.close();
+  watchStoreInstance = null;
+}
+
+interface WatcherRuleRow {
+  id: number;
+  phone_number: string;
+  name: string;
+  from_match: string | null;
+  label_id: string | null;
+  label_name: string | null;
+  subject_pattern: string | null;
+  has_attachment: number | null;
+  action: string;
+  skill_name: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function rowToWatcherRule(row: WatcherRuleRow): WatcherRule {
+  return {
+    id: row.id,
+    phoneNumber: row.phone_number,
+    name: row.name,
+    from: row.from_match,
+    labelId: row.label_id,
+    labelName: row.label_name,
+    subjectPattern: row.subject_pattern,
+    hasAttachment: row.has_attachment === null ? null : row.has_attachment === 1,
+    action: row.action as WatcherRuleAction,
+    skill: row.skill_name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * SQLite store of per-user watcher rules.
+ * Rule names are unique per user (case-insensitive).
+ */
+export class SqliteWatcherRuleStore {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath Path to SQLite database file
+   */
+  constructor(dbPath: string) {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS email_watcher_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        phone_number TEXT NOT NULL,
+        name TEXT NOT NULL COLLATE NOCASE,
+        from_match TEXT,
+        label_id TEXT,
+        label_name TEXT,
+        subject_pattern TEXT,
+        has_attachment INTEGER,
+        action TEXT NOT NULL,
+        skill_name TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        UNIQUE(phone_number, name)
+      );
+    `);
+  }
+
+  /**
+   * Create a rule. Throws if the user already has a rule with this name.
+   */
+  create(rule: Omit<WatcherRule, 'id' | 'createdAt' | 'updatedAt'>, now: number = Date.now()): WatcherRule {
+    const result = this.db
+      .prepare(
+        `INSERT INTO email_watcher_rules
+           (phone_number, name, from_match, label_id, label_name, subject_pattern,
+            has_attachment, action, skill_name, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        rule.phoneNumber,
+        rule.name,
+        rule.from,
+        rule.labelId,
+        rule.labelName,
+        rule.subjectPattern,
+        rule.hasAttachment === null ? null : rule.hasAttachment ? 1 : 0,
+        rule.action,
+        rule.skill,
+        now,
+        now
+      );
+    return {
+      ...rule,
+      id: Number(result.lastInsertRowid),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /** List a user's rules in evaluation order (oldest first). */
+  list(phoneNumber: string): WatcherRule[] {
+    const rows = this.db
+      .prepare('SELECT * FROM email_watcher_rules WHERE phone_number = ? ORDER BY id ASC')
+      .all(phoneNumber) as WatcherRuleRow[];
+    return rows.map(rowToWatcherRule);
+  }
+
+  /** Get a user's rule by name (case-insensitive). */
+  getByName(phoneNumber: string, name: string): WatcherRule | null {
+    const row = this.db
+      .prepare('SELECT * FROM email_watcher_rules WHERE phone_number = ? AND name = ?')
+      .get(phoneNumber, name) as WatcherRuleRow | undefined;
+    return row ? rowToWatcherRule(row) : null;
+  }
+
+  /** Delete a user's rule by name. Returns true if a rule was deleted. */
+  delete(phoneNumber: string, name: string): boolean {
+    const result = this.db
+      .prepare('DELETE FROM email_watcher_rules WHERE phone_number = ? AND name = ?')
+      .run(phoneNumber, name);
+    return result.changes > 0;
+  }
+
+  /** Close the database connection. */
+  close(): void {
+    this.db.close();
+  }
+}
+
+let ruleStoreInstance: SqliteWatcherRuleStore | null = null;
+
+/**
+ * Get the watcher rule store (shares the credentials database file).
+ */
+export function getWatcherRuleStore(): SqliteWatcherRuleStore {
+  if (!ruleStoreInstance) {
+    ruleStoreInstance = new SqliteWatcherRuleStore(config.credentials.sqlitePath);
+  }
+  return ruleStoreInstance;
+}
+
+/**
+ * Close and reset the watcher rule store instance.
+ * Useful for tests.
+ */
+export function resetWatcherRuleStore(): void {
+  ruleStoreInstance?.close();
+  ruleStoreInstance = null;
+}
@@ -2,7 +2,16 @@
  * @fileoverview Email watcher service lifecycle.
  *
  * Polls for new emails across all enabled users, classifies them
- * against active skills, and executes matching actions.
+ * against active skills, and executes matching actions. Each message's
+ * progress is tracked in the processing ledger, so failures are retried
+ * and overflow is carried into the next poll. Each cycle also flushes
+ * queued notifications whose digest is due.
+ *
+ * With push enabled (config.emailWatcher.push), Gmail notifications
+ * delivered to /webhook/gmail trigger an immediate sync for that user
+ * via handleGmailPush(). Users with an active watch are then only polled
+ * as a fallback, at most every push.fallbackIntervalMs; a second poller
+ * renews watches before Gmail expires them.
  *
  * Uses the same createIntervalPoller() abstraction as the scheduler
  * and memory processor.
@@ -11,22 +20,123 @@
 import config from '../../../config.js';
 import { createIntervalPoller, type Poller } from '../../../utils/poller.js';
 import { getUserConfigStore } from '../../../services/user-config/index.js';
-import { syncNewEmails } from '../providers/gmail-sync.js';
-import { classifyEmails } from '../service/classifier.js';
-import { executeSkillActions } from '../service/actions.js';
+import { syncNewEmails, processEmails, pruneProcessingLedger } from '../service/processing.js';
+import { flushNotificationQueue } from '../service/delivery.js';
+import { findPushUser, hasActiveWatch, renewGmailWatches, WATCH_RENEWAL_INTERVAL_MS } from '../service/push.js';
+import type { GmailPushNotification } from '../types.js';
 import { createLogger, createRunId, redactPhone, withLogContext } from '../../../utils/observability/index.js';
 
 // Re-export domain public API
 export { classifyEmails } from '../service/classifier.js';
-export { syncNewEmails, prepareEmailForClassification } from '../providers/gmail-sync.js';
+export { prepareEmailForClassification } from '../providers/gmail-sync.js';
+export { syncNewEmails, processEmails, replayEmail, MAX_PROCESSING_ATTEMPTS } from '../service/processing.js';
+export { getProcessingLedger } from '../repo/sqlite.js';
 export { executeSkillActions } from '../service/actions.js';
+export { flushNotificationQueue, parseClockTime, parseQuietHours } from '../service/delivery.js';
+export { parsePushEnvelope } from '../service/push.js';
 export { initEmailWatcherState } from '../service/skills.js';
 export { setEmailWatcherExecuteWithTools } from '../providers/executor.js';
 export type * from '../types.js';
 
 let poller: Poller | null = null;
+let renewalPoller: Poller | null = null;
 const log = createLogger({ domain: 'email-watcher-runtime' });
 
+type UserCycleResult = { emailsSynced: number; emailsMatched: number };
+
+/** Per-user sync in progress; polls and pushes for the same user share it. */
+const inFlightSyncs = new Map<string, Promise<UserCycleResult>>();
+/** Users who received a push while their sync was running. */
+const rerunRequested = new Set<string>();
+/** When each user's mailbox was last synced, for the push fallback interval. */
+const lastSyncedAt = new Map<string, number>();
+
+async function runUserCycle(phoneNumber: string): Promise<UserCycleResult> {
+  lastSyncedAt.set(phoneNumber, Date.now());
+
+  // Phase 1: Record new emails in the ledger and fetch the due batch
+  const emails = await syncNewEmails(phoneNumber);
+  if (emails.length === 0) {
+    return { emailsSynced: 0, emailsMatched: 0 };
+  }
+
+  // Phase 2 + 3: Classify and execute actions
+  const { matched } = await processEmails(phoneNumber, emails);
+  return { emailsSynced: emails.length, emailsMatched: matched };
+}
+
+/**
+ * Sync one user's mailbox, coalescing concurrent requests.
+ *
+ * If a sync is already running for the user, the caller joins it and one
+ * more cycle is run afterwards so changes that arrived mid-sync are picked up.
+ */
+function syncUser(phoneNumber: string): Promise<UserCycleResult> {
+  const running = inFlightSyncs.get(phoneNumber);
+  if (running) {
+    rerunRequested.add(phoneNumber);
+    return running;
+  }
+
+  const run = (async () => {
+    const total: UserCycleResult = { emailsSynced: 0, emailsMatched: 0 };
+    try {
+      do {
+        rerunRequested.delete(phoneNumber);
+        const result = await runUserCycle(phoneNumber);
+        total.emailsSynced += result.emailsSynced;
+        total.emailsMatched += result.emailsMatched;
+      } while (rerunRequested.has(phoneNumber));
+    } finally {
+      inFlightSyncs.delete(phoneNumber);
+    }
+    return total;
+  })();
+
+  inFlightSyncs.set(phoneNumber, run);
+  return run;
+}
+
+/**
+ * Whether a poll should skip this user because push notifications cover them.
+ */
+function isCoveredByPush(phoneNumber: string, now: number): boolean {
+  if (!config.emailWatcher.push.enabled || !hasActiveWatch(phoneNumber, now)) {
+    return false;
+  }
+  const last = lastSyncedAt.get(phoneNumber) ?? 0;
+  return now - last < config.emailWatcher.push.fallbackIntervalMs;
+}
+
+/**
+ * Handle a Gmail push notification by syncing that user's mailbox in the
+ * background. Returns false when no watched user matches the mailbox.
+ */
+export function handleGmailPush(notification: GmailPushNotification): boolean {
+  const watch = findPushUser(notification.emailAddress);
+  if (!watch) {
+    log.warn('push_unknown_mailbox', { historyId: notification.historyId });
+    return false;
+  }
+
+  const runId = createRunId('emailpush');
+  const userLog = log.child({ phone: redactPhone(watch.phoneNumber) });
+  void withLogContext({ runId }, async () => {
+    try {
+      const result = await syncUser(watch.phoneNumber);
+      if (result.emailsSynced > 0) {
+        userLog.info('push_cycle_completed', { historyId: notification.historyId, ...result });
+      }
+    } catch (err) {
+      userLog.error('push_cycle_failed', {
+        error: err instanceof Error ? err : String(err),
+      });
+    }
+  });
+
+  return true;
+}
+
 /**
  * Start the email watcher background service.
  *
@@ -48,6 +158,29 @@ export function startEmailWatcher(): void {
     const runId = createRunId('emailwatch');
     await withLogContext({ runId }, async () => {
       const startedAt = Date.now();
+
+      try {
+        const digestsSent = await flushNotificationQueue(startedAt);
+        if (digestsSent > 0) {
+          log.info('digests_sent', { digestsSent });
+        }
+      } catch (err) {
+        log.error('digest_flush_failed', {
+          error: err instanceof Error ? err : String(err),
+        });
+      }
+
+      try {
+        const pruned = pruneProcessingLedger(startedAt);
+        if (pruned > 0) {
+          log.debug('ledger_pruned', { pruned });
+        }
+      } catch (err) {
+        log.error('ledger_prune_failed', {
+          error: err instanceof Error ? err : String(err),
+        });
+      }
+
       const userConfigStore = getUserConfigStore();
       const users = await userConfigStore.getEmailWatcherUsers();
 
@@ -61,34 +194,27 @@ export function startEmailWatcher(): void {
       let totalEmails = 0;
       let totalMatches = 0;
       let usersWithSyncedEmails = 0;
+      let usersCoveredByPush = 0;
 
       for (const user of users) {
         const userLog = log.child({ phone: redactPhone(user.phoneNumber) });
+        if (isCoveredByPush(user.phoneNumber, startedAt)) {
+          usersCoveredByPush += 1;
+          continue;
+        }
+
         try {
-          // Phase 1: Sync new emails
-          const emails = await syncNewEmails(user.phoneNumber);
-          if (emails.length === 0) {
+          const { emailsSynced, emailsMatched } = await syncUser(user.phoneNumber);
+          if (emailsSynced === 0) {
             userLog.debug('user_no_new_emails');
             continue;
           }
 
           usersWithSyncedEmails += 1;
-          totalEmails += emails.length;
-
-          // Phase 2: Classify
-          const classifications = await classifyEmails(user.phoneNumber, emails);
-          const matched = classifications.filter(c => c.matches.length > 0);
-          totalMatches += matched.length;
-
-          // Phase 3: Execute actions
-          if (matched.length > 0) {
-            await executeSkillActions(user.phoneNumber, matched);
-          }
+          totalEmails += emailsSynced;
+          totalMatches += emailsMatched;
 
-          userLog.info('user_cycle_completed', {
-            emailsSynced: emails.length,
-            emailsMatched: matched.length,
-          });
+          userLog.info('user_cycle_completed', { emailsSynced, emailsMatched });
         } catch (err) {
           userLog.error('user_cycle_failed', {
             error: err instanceof Error ? err : String(err),
@@ -99,6 +225,7 @@ export function startEmailWatcher(): void {
       log.info('run_completed', {
         usersConfigured: users.length,
         usersWithSyncedEmails,
+        usersCoveredByPush,
         totalEmails,
         totalMatches,
         durationMs: Date.now() - startedAt,
@@ -108,8 +235,25 @@ export function startEmailWatcher(): void {
 
   poller.start();
 
+  if (config.emailWatcher.push.enabled) {
+    renewalPoller = createIntervalPoller(async () => {
+      try {
+        const result = await renewGmailWatches();
+        if (result.renewed > 0 || result.stopped > 0 || result.failed > 0) {
+          log.info('watches_renewed', result);
+        }
+      } catch (err) {
+        log.error('watch_renewal_failed', {
+          error: err instanceof Error ? err : String(err),
+        });
+      }
+    }, WATCH_RENEWAL_INTERVAL_MS);
+    renewalPoller.start();
+  }
+
   log.info('watcher_started', {
     intervalMs: config.emailWatcher.intervalMs,
+    push: config.emailWatcher.push.enabled,
   });
 }
 
@@ -118,6 +262,11 @@ export function startEmailWatcher(): void {
  * Waits for any in-flight email processing to complete.
  */
 export async function stopEmailWatcher(): Promise<void> {
+  if (renewalPoller) {
+    await renewalPoller.stop();
+    renewalPoller = null;
+  }
+  await Promise.allSettled(inFlightSyncs.values());
   if (poller) {
     await poller.stop();
     poller = null;
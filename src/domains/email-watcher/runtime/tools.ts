@@ -1,13 +1,22 @@
 /**
  * Email watcher tools.
  *
- * Provides the toggle tool for enabling/disabling the email watcher.
+ * Provides the toggle tool for enabling/disabling the email watcher and
+ * tools to manage per-user watcher rules (sender, label, subject, attachment
+ * conditions mapped to notify / run skill / ignore).
  * Email skill CRUD has been removed — skills are now managed via filesystem skill packs.
  */
 
 import type { ToolDefinition } from '../../../tools/types.js';
-import { requirePhoneNumber, validateInput } from '../../../tools/utils.js';
+import { requirePhoneNumber, handleAuthError, validateInput } from '../../../tools/utils.js';
 import { getUserConfigStore } from '../../../services/user-config/index.js';
+import { getWatcherRuleStore } from '../repo/sqlite.js';
+import { findGmailLabel } from '../providers/gmail-labels.js';
+import { findFilesystemSkill } from '../providers/skills.js';
+import { describeRule, normalizeSenderCondition, validateSubjectPattern } from '../service/rules.js';
+import type { WatcherRuleAction } from '../types.js';
+
+const RULE_ACTIONS: WatcherRuleAction[] = ['notify', 'run_skill', 'ignore'];
 
 export const toggleEmailWatcher: ToolDefinition = {
   tool: {
@@ -46,3 +55,192 @@ export const toggleEmailWatcher: ToolDefinition = {
     };
   },
 };
+
+export const createEmailWatcherRule: ToolDefinition = {
+  tool: {
+    name: 'create_email_watcher_rule',
+    description: `Create a background email watcher rule. Rules are checked before skill classification; the first matching rule (oldest first) decides what happens to a new email.
+
+Conditions (set at least one; all set conditions must match):
+- from: sender address ("jane@cpa.com") or domain ("cpa.com", matches subdomains too)
+- label: Gmail label name the email must have (e.g. "Taxes", "IMPORTANT")
+- subject_pattern: case-insensitive regular expression tested against the subject
+- has_attachment: true or false
+
+Actions:
+- notify: text the user about the email (respects their digest and quiet-hours settings)
+- run_skill: run the named email skill on it
+- ignore: skip it entirely`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Short unique name for the rule, e.g. "accountant"',
+        },
+        from: {
+          type: 'string',
+          description: 'Sender email address or domain',
+        },
+        label: {
+          type: 'string',
+          description: 'Gmail label name',
+        },
+        subject_pattern: {
+          type: 'string',
+          description: 'Regular expression for the subject (case-insensitive)',
+        },
+        has_attachment: {
+          type: 'boolean',
+          description: 'Require (true) or exclude (false) emails with attachments',
+        },
+        action: {
+          type: 'string',
+          enum: RULE_ACTIONS,
+          description: 'What to do with matching emails',
+        },
+        skill: {
+          type: 'string',
+          description: 'Skill to run (required when action is run_skill)',
+        },
+      },
+      required: ['name', 'action'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      name: { type: 'string', required: true },
+      from: { type: 'string', required: false },
+      label: { type: 'string', required: false },
+      subject_pattern: { type: 'string', required: false, validate: (v) => validateSubjectPattern(v as string) },
+      has_attachment: { type: 'boolean', required: false },
+      action: {
+        type: 'string',
+        required: true,
+        validate: (v) => RULE_ACTIONS.includes(v as WatcherRuleAction)
+          ? null
+          : `action must be one of: ${RULE_ACTIONS.join(', ')}.`,
+      },
+      skill: { type: 'string', required: false },
+    });
+    if (validationError) return validationError;
+
+    const { name, from, label, subject_pattern, has_attachment, action, skill } = input as {
+      name: string;
+      from?: string;
+      label?: string;
+      subject_pattern?: string;
+      has_attachment?: boolean;
+      action: WatcherRuleAction;
+      skill?: string;
+    };
+
+    if (!from && !label && !subject_pattern && has_attachment === undefined) {
+      return { success: false, error: 'Set at least one condition: from, label, subject_pattern or has_attachment.' };
+    }
+
+    const sender = from ? normalizeSenderCondition(from) : null;
+    if (from && !sender) {
+      return { success: false, error: `from must be an email address or domain, got "${from}".` };
+    }
+
+    let skillName: string | null = null;
+    if (action === 'run_skill') {
+      const loaded = skill ? findFilesystemSkill(skill) : null;
+      if (!loaded || !loaded.enabled || !loaded.channels.includes('email')) {
+        return { success: false, error: `run_skill needs an enabled email skill; "${skill ?? ''}" was not found.` };
+      }
+      skillName = loaded.name;
+    }
+
+    const store = getWatcherRuleStore();
+    if (store.getByName(phoneNumber, name.trim())) {
+      return { success: false, error: `A rule named "${name.trim()}" already exists. Delete it first to replace it.` };
+    }
+
+    let labelRef: { id: string; name: string } | null = null;
+    if (label) {
+      try {
+        labelRef = await findGmailLabel(phoneNumber, label);
+      } catch (error) {
+        const authResult = handleAuthError(error, phoneNumber, context.channel);
+        if (authResult) return authResult;
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+      if (!labelRef) {
+        return { success: false, error: `No Gmail label named "${label}".` };
+      }
+    }
+
+    const rule = store.create({
+      phoneNumber,
+      name: name.trim(),
+      from: sender,
+      labelId: labelRef?.id ?? null,
+      labelName: labelRef?.name ?? null,
+      subjectPattern: subject_pattern ?? null,
+      hasAttachment: has_attachment ?? null,
+      action,
+      skill: skillName,
+    });
+
+    return {
+      success: true,
+      rule: { name: rule.name, summary: describeRule(rule) },
+    };
+  },
+};
+
+export const listEmailWatcherRules: ToolDefinition = {
+  tool: {
+    name: 'list_email_watcher_rules',
+    description: 'List the user\'s email watcher rules in the order they are checked.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  handler: async (_input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+    const rules = getWatcherRuleStore().list(phoneNumber);
+
+    return {
+      success: true,
+      rules: rules.map((rule) => ({ name: rule.name, summary: describeRule(rule) })),
+    };
+  },
+};
+
+export const deleteEmailWatcherRule: ToolDefinition = {
+  tool: {
+    name: 'delete_email_watcher_rule',
+    description: 'Delete an email watcher rule by name.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Name of the rule to delete',
+        },
+      },
+      required: ['name'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      name: { type: 'string', required: true },
+    });
+    if (validationError) return validationError;
+
+    const { name } = input as { name: string };
+    const deleted = getWatcherRuleStore().delete(phoneNumber, name.trim());
+    if (!deleted) {
+      return { success: false, error: `No rule named "${name.trim()}".` };
+    }
+    return { success: true, deleted: name.trim() };
+  },
+};
@@ -1,41 +1,72 @@
 /**
- * @fileoverview Filesystem-skill execution and notification throttle for email watcher.
+ * @fileoverview Filesystem-skill execution for email watcher.
+ *
+ * Emails reach here either from the classifier or from a matching watcher
+ * rule (./rules.ts), which can run a skill directly or just notify.
+ * Notifications are handed to the delivery policy (./delivery.ts), which
+ * sends, throttles, or queues them for a digest.
  */
 
 import { getUserConfigStore } from '../../../services/user-config/index.js';
 import { getMemoryStore } from '../providers/memory.js';
-import { executeFilesystemSkillByName } from '../providers/skills.js';
-import { sendSms } from '../../../twilio.js';
-import config from '../../../config.js';
-import type { ClassificationResult, ThrottleState } from '../types.js';
+import { executeFilesystemSkillByName, findFilesystemSkill } from '../providers/skills.js';
+import { saveEmailAttachments } from '../providers/email.js';
+import { deliverNotification } from './delivery.js';
+import type { ClassificationResult, IncomingEmail, SkillMatch, WatcherRule } from '../types.js';
 import type { AgentExecutionContext } from '../../../executor/types.js';
 
-/** Per-user notification throttle state */
-const throttleMap = new Map<string, ThrottleState>();
-
 /**
- * Check if a notification can be sent to this user within the hourly limit.
- * Automatically resets the window after one hour.
+ * Save the email's attachments to Drive when any matched skill asks for it.
+ * Returns a <saved_attachments> block for the skill input, or '' when nothing was saved.
  */
-function canSendNotification(phoneNumber: string): boolean {
-  const state = throttleMap.get(phoneNumber);
-  const now = Date.now();
-  const windowMs = 60 * 60 * 1000;
-
-  if (!state || now - state.windowStart > windowMs) {
-    throttleMap.set(phoneNumber, { count: 1, windowStart: now });
-    return true;
-  }
-
-  if (state.count >= config.emailWatcher.maxNotificationsPerHour) {
-    return false;
+async function saveAttachmentsForMatches(
+  phoneNumber: string,
+  classification: ClassificationResult,
+  context: AgentExecutionContext
+): Promise<string> {
+  if (classification.email.attachments.length === 0) return '';
+
+  const options = classification.matches
+    .map((match) => findFilesystemSkill(match.skill)?.saveAttachments)
+    .filter((option): option is { analyze: boolean } => Boolean(option));
+  if (options.length === 0) return '';
+
+  try {
+    const result = await saveEmailAttachments(phoneNumber, classification.email.messageId, {
+      analyze: options.some((option) => option.analyze),
+      timezone: context.userConfig?.timezone,
+    });
+    if (result.saved.length === 0) return '';
+
+    const files = result.saved.map((file) => ({
+      filename: file.filename,
+      mimeType: file.mimeType,
+      driveFileId: file.driveFileId,
+      link: file.webViewLink ?? null,
+      analysis: file.analysis ?? null,
+    }));
+    return `\n\n<saved_attachments folder="${result.folderPath}">\n${JSON.stringify(files)}\n</saved_attachments>`;
+  } catch (err) {
+    console.warn(JSON.stringify({
+      level: 'warn',
+      message: 'Email watcher failed to save attachments',
+      messageId: classification.email.messageId,
+      error: err instanceof Error ? err.message : String(err),
+      timestamp: new Date().toISOString(),
+    }));
+    return '';
   }
-
-  state.count++;
-  return true;
 }
 
-function buildSkillInput(classification: ClassificationResult): string {
+function buildSkillInput(
+  classification: ClassificationResult,
+  match: SkillMatch,
+  savedAttachments: string
+): string {
+  const extracted = Object.keys(match.extracted).length > 0
+    ? `\n\n<extracted_data>\n${JSON.stringify(match.extracted)}\n</extracted_data>`
+    : '';
+
   return `<email>
 from: ${classification.email.from}
 subject: ${classification.email.subject}
@@ -45,7 +76,7 @@ messageId: ${classification.email.messageId}
 
 <email_body>
 ${classification.email.body}
-</email_body>`;
+</email_body>${extracted}${savedAttachments}`;
 }
 
 /**
@@ -60,11 +91,12 @@ export async function executeSkillActions(
 
     const context = await buildMinimalContext(phoneNumber);
     const notificationParts: string[] = [];
+    const savedAttachments = await saveAttachmentsForMatches(phoneNumber, classification, context);
 
     for (const match of classification.matches) {
       const result = await executeFilesystemSkillByName(
         match.skill,
-        buildSkillInput(classification),
+        buildSkillInput(classification, match, savedAttachments),
         context,
         'email'
       );
@@ -89,26 +121,52 @@ export async function executeSkillActions(
       }
     }
 
-    if (notificationParts.length > 0 && canSendNotification(phoneNumber)) {
-      const emailSubject = classification.email.subject || '(no subject)';
-      const emailFrom = classification.email.from || 'Unknown sender';
-      const body = `Email from ${emailFrom}: "${emailSubject}"\n\n${notificationParts.join('\n\n')}`;
-
-      try {
-        await sendSms(phoneNumber, body);
-      } catch (err) {
-        console.log(JSON.stringify({
-          level: 'error',
-          message: 'Failed to send email watcher notification',
-          phone: phoneNumber.slice(-4).padStart(phoneNumber.length, '*'),
-          error: err instanceof Error ? err.message : String(err),
-          timestamp: new Date().toISOString(),
-        }));
-      }
+    if (notificationParts.length > 0) {
+      await deliverNotification(phoneNumber, context.userConfig, {
+        from: classification.email.from || 'Unknown sender',
+        subject: classification.email.subject || '(no subject)',
+        body: notificationParts.join('\n\n'),
+      });
     }
   }
 }
 
+/** Characters of the email body included in a rule notification. */
+const RULE_NOTIFICATION_PREVIEW_CHARS = 300;
+
+/**
+ * Carry out a watcher rule's action for one email.
+ * run_skill runs the rule's skill as if the classifier had matched it;
+ * notify sends the email preview through the delivery policy.
+ * ignore is handled by the caller and does nothing here.
+ */
+export async function executeRuleAction(
+  phoneNumber: string,
+  rule: WatcherRule,
+  email: IncomingEmail
+): Promise<void> {
+  if (rule.action === 'run_skill' && rule.skill) {
+    await executeSkillActions(phoneNumber, [{
+      emailIndex: 1,
+      email,
+      matches: [{ skill: rule.skill, confidence: 1, extracted: {}, summary: `Matched your rule "${rule.name}"` }],
+    }]);
+    return;
+  }
+
+  if (rule.action === 'notify') {
+    const context = await buildMinimalContext(phoneNumber);
+    const preview = email.body.length > RULE_NOTIFICATION_PREVIEW_CHARS
+      ? `${email.body.slice(0, RULE_NOTIFICATION_PREVIEW_CHARS)}…`
+      : email.body;
+    await deliverNotification(phoneNumber, context.userConfig, {
+      from: email.from || 'Unknown sender',
+      subject: email.subject || '(no subject)',
+      body: `${preview}\n\n(Rule: ${rule.name})`,
+    });
+  }
+}
+
 /**
  * Build a minimal AgentExecutionContext for email watcher skill execution.
  */
@@ -1,16 +1,34 @@
 /**
- * @fileoverview Filesystem-skill email matcher.
+ * @fileoverview Filesystem-skill email classifier.
  *
  * Matches incoming emails against loaded filesystem skills scoped to the
- * email channel. Conversational planning is not used in this background flow.
+ * email channel. By default emails are batched with the skill catalog into a
+ * single model call that returns every matching skill per email, a calibrated
+ * confidence, and the structured fields each skill declares under `extract`.
+ * Keyword matching on skill match hints is used when the classifier is set
+ * to 'keyword', when the user is over their usage budget, or when a model
+ * call fails.
+ * Conversational planning is not used in this background flow.
  */
 
-import { listFilesystemSkills, matchSkillForMessage } from '../providers/skills.js';
+import type { TextBlock } from '@anthropic-ai/sdk/resources/messages';
+import config from '../../../config.js';
+import { createMessage } from '../../../services/anthropic/index.js';
+import { isOverBudget } from '../../../services/usage/budget.js';
+import { listFilesystemSkills, matchSkillForMessage, type LoadedSkill } from '../providers/skills.js';
+import { buildClassifierSystemPrompt, buildClassifierEmailsMessage } from './prompt.js';
 import type { IncomingEmail, ClassificationResult, SkillMatch } from '../types.js';
 
 /** Maximum length of classifier input text to prevent excessive processing. */
 const MAX_MATCH_TEXT_LENGTH = 10_000;
 
+/** Emails per model call; keeps worst-case output inside MAX_CLASSIFIER_TOKENS. */
+const LLM_BATCH_SIZE = 5;
+
+const MAX_CLASSIFIER_TOKENS = 2048;
+
+const MAX_SUMMARY_LENGTH = 300;
+
 function buildEmailMatchText(email: IncomingEmail): string {
   const attachmentNames = email.attachments.map((a) => a.filename).join(' ');
   const text = [
@@ -24,11 +42,173 @@ function buildEmailMatchText(email: IncomingEmail): string {
     : text;
 }
 
+function classifyWithKeywords(
+  email: IncomingEmail,
+  emailIndex: number,
+  skills: LoadedSkill[]
+): ClassificationResult {
+  const match = matchSkillForMessage(buildEmailMatchText(email), 'email', skills);
+
+  const matches: SkillMatch[] = match
+    ? [{
+        skill: match.skill.name,
+        confidence: match.confidence,
+        extracted: {},
+        summary: match.rationale,
+      }]
+    : [];
+
+  return { emailIndex, email, matches };
+}
+
+/**
+ * Pull the JSON array out of a model response, tolerating code fences
+ * and stray prose around it.
+ */
+function extractJsonArray(text: string): unknown[] | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  const start = candidate.indexOf('[');
+  const end = candidate.lastIndexOf(']');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(candidate.slice(start, end + 1));
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
- * Match incoming emails against enabled filesystem skills for the email channel.
+ * Keep only the fields the skill declares, coerced to their declared type.
+ * Missing or unusable values become null so downstream prompts see every field.
+ */
+function normalizeExtracted(
+  raw: unknown,
+  skill: LoadedSkill
+): Record<string, string | number | null> {
+  const source = typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+    ? raw as Record<string, unknown>
+    : {};
+  const extracted: Record<string, string | number | null> = {};
+
+  for (const field of skill.extractFields ?? []) {
+    const value = source[field.name];
+    if (field.type === 'number') {
+      const num = typeof value === 'number'
+        ? value
+        : typeof value === 'string' && value.trim() !== ''
+          ? Number(value.replace(/[$,\s]/g, ''))
+          : NaN;
+      extracted[field.name] = Number.isFinite(num) ? num : null;
+    } else if (typeof value === 'string' && value.trim().length > 0) {
+      extracted[field.name] = value.trim();
+    } else if (typeof value === 'number' && Number.isFinite(value)) {
+      extracted[field.name] = String(value);
+    } else {
+      extracted[field.name] = null;
+    }
+  }
+
+  return extracted;
+}
+
+function normalizeMatches(
+  rawMatches: unknown,
+  skillsByName: Map<string, LoadedSkill>,
+  threshold: number
+): SkillMatch[] {
+  if (!Array.isArray(rawMatches)) return [];
+
+  const bySkill = new Map<string, SkillMatch>();
+
+  for (const item of rawMatches) {
+    // Boundary: model output is untrusted — validate each match
+    if (typeof item !== 'object' || item === null) continue;
+    const record = item as Record<string, unknown>;
+    if (typeof record.skill !== 'string') continue;
+    const skill = skillsByName.get(record.skill.trim());
+    if (!skill) continue;
+    if (typeof record.confidence !== 'number' || !Number.isFinite(record.confidence)) continue;
+
+    const confidence = Math.min(1, Math.max(0, record.confidence));
+    if (confidence < threshold) continue;
+
+    const previous = bySkill.get(skill.name);
+    if (previous && previous.confidence >= confidence) continue;
+
+    const summary = typeof record.summary === 'string'
+      ? record.summary.trim().slice(0, MAX_SUMMARY_LENGTH)
+      : '';
+
+    bySkill.set(skill.name, {
+      skill: skill.name,
+      confidence,
+      extracted: normalizeExtracted(record.extracted, skill),
+      summary,
+    });
+  }
+
+  return Array.from(bySkill.values()).sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Classify one batch with a single model call.
+ * Emails the model leaves out of its response fall back to keyword matching.
+ * Throws when the call fails or the response is not a JSON array.
+ */
+async function classifyBatchWithModel(
+  phoneNumber: string,
+  batch: IncomingEmail[],
+  firstIndex: number,
+  skills: LoadedSkill[]
+): Promise<ClassificationResult[]> {
+  const threshold = config.emailWatcher.confidenceThreshold;
+
+  const response = await createMessage({
+    model: config.emailWatcher.modelId,
+    max_tokens: MAX_CLASSIFIER_TOKENS,
+    system: buildClassifierSystemPrompt(skills, threshold),
+    messages: [{ role: 'user', content: buildClassifierEmailsMessage(batch) }],
+  }, { phoneNumber, purpose: 'classifier' });
+
+  const text = response.content
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map((block) => block.text)
+    .join('');
+
+  const entries = extractJsonArray(text);
+  if (!entries) {
+    throw new Error('Classifier response was not a JSON array');
+  }
+
+  const skillsByName = new Map(skills.map((skill) => [skill.name, skill]));
+  const matchesByIndex = new Map<number, SkillMatch[]>();
+
+  for (const entry of entries) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const record = entry as Record<string, unknown>;
+    const index = record.email_index;
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 1 || index > batch.length) continue;
+    matchesByIndex.set(index, normalizeMatches(record.matches, skillsByName, threshold));
+  }
+
+  return batch.map((email, i) => {
+    const emailIndex = firstIndex + i + 1;
+    const matches = matchesByIndex.get(i + 1);
+    return matches
+      ? { emailIndex, email, matches }
+      : classifyWithKeywords(email, emailIndex, skills);
+  });
+}
+
+/**
+ * Classify incoming emails against enabled filesystem skills for the email channel.
+ * Users over their usage budget get keyword matching until it resets.
  */
 export async function classifyEmails(
-  _phoneNumber: string,
+  phoneNumber: string,
   emails: IncomingEmail[]
 ): Promise<ClassificationResult[]> {
   const skills = listFilesystemSkills()
@@ -36,26 +216,26 @@ export async function classifyEmails(
 
   if (skills.length === 0) return [];
 
+  if (config.emailWatcher.classifier === 'keyword' || await isOverBudget(phoneNumber)) {
+    return emails.map((email, i) => classifyWithKeywords(email, i + 1, skills));
+  }
+
   const results: ClassificationResult[] = [];
 
-  for (let i = 0; i < emails.length; i++) {
-    const email = emails[i];
-    const match = matchSkillForMessage(buildEmailMatchText(email), 'email', skills);
-
-    const matches: SkillMatch[] = match
-      ? [{
-          skill: match.skill.name,
-          confidence: match.confidence,
-          extracted: {},
-          summary: match.rationale,
-        }]
-      : [];
-
-    results.push({
-      emailIndex: i + 1,
-      email,
-      matches,
-    });
+  for (let start = 0; start < emails.length; start += LLM_BATCH_SIZE) {
+    const batch = emails.slice(start, start + LLM_BATCH_SIZE);
+    try {
+      results.push(...await classifyBatchWithModel(phoneNumber, batch, start, skills));
+    } catch (err) {
+      console.warn(JSON.stringify({
+        level: 'warn',
+        message: 'Email classifier model call failed, falling back to keyword matching',
+        batchSize: batch.length,
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: new Date().toISOString(),
+      }));
+      results.push(...batch.map((email, i) => classifyWithKeywords(email, start + i + 1, skills)));
+    }
   }
 
   return results;
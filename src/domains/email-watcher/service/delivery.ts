@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Email watcher notification delivery policy.
+ *
+ * Decides whether a notification is sent now or queued, and flushes queued
+ * notifications as digests. Policies come from UserConfig.emailWatcherDelivery:
+ * immediate (default), hourly digest, or digests at fixed local times.
+ * Quiet hours are evaluated in the user's timezone. Anything held back by
+ * digest mode, quiet hours, or the hourly throttle is queued in SQLite and
+ * included in the next digest instead of being dropped.
+ */
+
+import { DateTime } from 'luxon';
+import { sendSms } from '../../../twilio.js';
+import config from '../../../config.js';
+import type { UserConfig, EmailWatcherDeliveryPolicy } from '../../../services/user-config/index.js';
+import { getUserConfigStore } from '../../../services/user-config/index.js';
+import { getNotificationQueue } from '../repo/sqlite.js';
+import type { QueuedNotification, ThrottleState } from '../types.js';
+
+/** Digest entries shown in full; the rest are listed by subject only. */
+const MAX_DIGEST_DETAILED_ITEMS = 10;
+
+const MAX_DIGEST_ITEM_LENGTH = 280;
+
+const DEFAULT_POLICY: EmailWatcherDeliveryPolicy = { mode: 'immediate' };
+
+/** Per-user notification throttle state */
+const throttleMap = new Map<string, ThrottleState>();
+
+/**
+ * Check if a notification can be sent to this user within the hourly limit.
+ * Automatically resets the window after one hour.
+ */
+function canSendNotification(phoneNumber: string, now: number): boolean {
+  const state = throttleMap.get(phoneNumber);
+  const windowMs = 60 * 60 * 1000;
+
+  if (!state || now - state.windowStart > windowMs) {
+    throttleMap.set(phoneNumber, { count: 1, windowStart: now });
+    return true;
+  }
+
+  if (state.count >= config.emailWatcher.maxNotificationsPerHour) {
+    return false;
+  }
+
+  state.count++;
+  return true;
+}
+
+/**
+ * Parse a 24-hour "HH:MM" clock time into minutes after midnight.
+ * Returns null when the value is not a valid time.
+ */
+export function parseClockTime(value: string): number | null {
+  const match = value.trim().match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Parse a quiet-hours range like "22:00-07:00".
+ * Returns null when either end is invalid or both ends are equal.
+ */
+export function parseQuietHours(value: string): { start: string; end: string } | null {
+  const [start, end, ...rest] = value.split('-').map((part) => part.trim());
+  if (rest.length > 0 || !start || !end) return null;
+  const startMinutes = parseClockTime(start);
+  const endMinutes = parseClockTime(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return null;
+  return { start, end };
+}
+
+function resolveTimezone(userConfig: UserConfig | null): string {
+  return userConfig?.timezone || 'UTC';
+}
+
+/**
+ * Whether `now` falls within the policy's quiet hours in the given timezone.
+ * Windows that wrap midnight (22:00-07:00) are supported.
+ */
+export function isWithinQuietHours(
+  policy: EmailWatcherDeliveryPolicy,
+  now: number,
+  timezone: string
+): boolean {
+  if (!policy.quietHours) return false;
+  const start = parseClockTime(policy.quietHours.start);
+  const end = parseClockTime(policy.quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const local = DateTime.fromMillis(now, { zone: timezone });
+  const minutes = local.hour * 60 + local.minute;
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Most recent digest boundary at or before `now` (epoch ms).
+ * Queued notifications created at or before this boundary are due for
+ * delivery; later ones wait for the next digest.
+ */
+export function latestDigestBoundary(
+  policy: EmailWatcherDeliveryPolicy,
+  now: number,
+  timezone: string
+): number {
+  const local = DateTime.fromMillis(now, { zone: timezone });
+
+  if (policy.mode === 'immediate') {
+    return now;
+  }
+
+  if (policy.mode === 'hourly') {
+    return local.startOf('hour').toMillis();
+  }
+
+  let latest = Number.NEGATIVE_INFINITY;
+  for (const time of policy.digestTimes ?? []) {
+    const minutes = parseClockTime(time);
+    if (minutes === null) continue;
+    let candidate = local.set({ hour: Math.floor(minutes / 60), minute: minutes % 60, second: 0, millisecond: 0 });
+    if (candidate.toMillis() > now) {
+      candidate = candidate.minus({ days: 1 });
+    }
+    latest = Math.max(latest, candidate.toMillis());
+  }
+  return latest;
+}
+
+function formatImmediate(from: string, subject: string, body: string): string {
+  return `Email from ${from}: "${subject}"\n\n${body}`;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Format queued notifications into a single digest SMS.
+ */
+export function formatDigest(items: QueuedNotification[]): string {
+  const detailed = items.slice(0, MAX_DIGEST_DETAILED_ITEMS);
+  const remaining = items.slice(MAX_DIGEST_DETAILED_ITEMS);
+
+  const lines = [`Email digest (${items.length} ${items.length === 1 ? 'email' : 'emails'})`];
+  detailed.forEach((item, i) => {
+    lines.push('', `${i + 1}. From ${item.from}: "${item.subject}"`, truncate(item.body, MAX_DIGEST_ITEM_LENGTH));
+  });
+  if (remaining.length > 0) {
+    lines.push('', `Also: ${remaining.map((item) => `"${item.subject}"`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Deliver a notification according to the user's policy.
+ * Sends immediately when allowed, otherwise queues it for the next digest.
+ */
+export async function deliverNotification(
+  phoneNumber: string,
+  userConfig: UserConfig | null,
+  notification: { from: string; subject: string; body: string },
+  now: number = Date.now()
+): Promise<'sent' | 'queued'> {
+  const policy = userConfig?.emailWatcherDelivery ?? DEFAULT_POLICY;
+  const timezone = resolveTimezone(userConfig);
+
+  if (
+    policy.mode === 'immediate' &&
+    !isWithinQuietHours(policy, now, timezone) &&
+    canSendNotification(phoneNumber, now)
+  ) {
+    try {
+      await sendSms(phoneNumber, formatImmediate(notification.from, notification.subject, notification.body));
+      return 'sent';
+    } catch (err) {
+      console.log(JSON.stringify({
+        level: 'error',
+        message: 'Failed to send email watcher notification, queueing for digest',
+        phone: phoneNumber.slice(-4).padStart(phoneNumber.length, '*'),
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: new Date().toISOString(),
+      }));
+    }
+  }
+
+  getNotificationQueue().enqueue({
+    phoneNumber,
+    from: notification.from,
+    subject: notification.subject,
+    body: notification.body,
+    createdAt: now,
+  });
+  return 'queued';
+}
+
+/**
+ * Send due digests for every user with queued notifications.
+ * Called once per watcher poll. Returns the number of digests sent.
+ */
+export async function flushNotificationQueue(now: number = Date.now()): Promise<number> {
+  const queue = getNotificationQueue();
+  const userConfigStore = getUserConfigStore();
+  let sent = 0;
+
+  for (const phoneNumber of queue.listPendingPhoneNumbers()) {
+    const userConfig = await userConfigStore.get(phoneNumber);
+    const policy = userConfig?.emailWatcherDelivery ?? DEFAULT_POLICY;
+    const timezone = resolveTimezone(userConfig);
+
+    if (isWithinQuietHours(policy, now, timezone)) continue;
+
+    const boundary = latestDigestBoundary(policy, now, timezone);
+    const pending = queue.listPending(phoneNumber).filter((item) => item.createdAt <= boundary);
+    if (pending.length === 0) continue;
+
+    if (!canSendNotification(phoneNumber, now)) continue;
+
+    try {
+      await sendSms(phoneNumber, formatDigest(pending));
+      queue.markDelivered(pending.map((item) => item.id), now);
+      sent++;
+    } catch (err) {
+      console.log(JSON.stringify({
+        level: 'error',
+        message: 'Failed to send email watcher digest',
+        phone: phoneNumber.slice(-4).padStart(phoneNumber.length, '*'),
+        pending: pending.length,
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: new Date().toISOString(),
+      }));
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Email watcher processing pipeline backed by the ledger.
+ *
+ * Every message ID listed from Gmail history is recorded in the ledger
+ * before the historyId cursor moves. Each poll then works through due
+ * ledger entries, oldest first, up to config.emailWatcher.batchSize:
+ * fetch → classify → actions, updating the entry's status at each step.
+ * Failed messages are retried on later polls until MAX_PROCESSING_ATTEMPTS;
+ * messages beyond the batch size stay pending for the next poll. A message
+ * still fetched or classified when a poll starts was cut off mid-processing
+ * (e.g. by a crash) and counts as a failed attempt, so it can't loop forever.
+ *
+ * The user's watcher rules are checked before classification: a matching
+ * rule decides the email's action and it never reaches the classifier.
+ */
+
+import config from '../../../config.js';
+import { getUserConfigStore } from '../../../services/user-config/index.js';
+import { listNewMessageIds, fetchEmails } from '../providers/gmail-sync.js';
+import { getProcessingLedger, getWatcherRuleStore } from '../repo/sqlite.js';
+import { classifyEmails } from './classifier.js';
+import { executeSkillActions, executeRuleAction } from './actions.js';
+import { findMatchingRule } from './rules.js';
+import type { IncomingEmail, ClassificationResult, LedgerEntry, WatcherRule } from '../types.js';
+
+/** Attempts (fetch, classify, or actions) before a message is left as failed. */
+export const MAX_PROCESSING_ATTEMPTS = 3;
+
+/** Finished ledger entries are kept this long for inspection and de-duplication. */
+const LEDGER_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Record new Gmail messages in the ledger and fetch the next batch of due ones.
+ *
+ * On first run the cursor is seeded and nothing is returned. Fetch failures
+ * are marked failed in the ledger; successfully fetched messages are marked
+ * fetched and returned for classification.
+ */
+export async function syncNewEmails(phoneNumber: string): Promise<IncomingEmail[]> {
+  const ledger = getProcessingLedger();
+
+  const { messageIds, historyId } = await listNewMessageIds(phoneNumber);
+  if (messageIds.length > 0) {
+    ledger.recordSeen(phoneNumber, messageIds, Date.now());
+  }
+  if (historyId) {
+    await getUserConfigStore().updateEmailWatcherState(phoneNumber, historyId);
+  }
+
+  const due = ledger
+    .listDue(phoneNumber, MAX_PROCESSING_ATTEMPTS, config.emailWatcher.batchSize)
+    .filter((entry) => {
+      if (entry.status !== 'fetched' && entry.status !== 'classified') return true;
+      ledger.markFailed(phoneNumber, entry.messageId, `interrupted while ${entry.status}`, Date.now());
+      return entry.attempts + 1 < MAX_PROCESSING_ATTEMPTS;
+    });
+  if (due.length === 0) return [];
+
+  const overflow = ledger.countDue(phoneNumber, MAX_PROCESSING_ATTEMPTS) - due.length;
+  if (overflow > 0) {
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Email watcher batch full, carrying messages to next poll',
+      phone: phoneNumber.slice(-4).padStart(phoneNumber.length, '*'),
+      batchSize: due.length,
+      overflow,
+      timestamp: new Date().toISOString(),
+    }));
+  }
+
+  const emails: IncomingEmail[] = [];
+  for (const result of await fetchEmails(phoneNumber, due.map((entry) => entry.messageId))) {
+    if ('error' in result) {
+      ledger.markFailed(phoneNumber, result.messageId, `fetch: ${result.error}`, Date.now());
+      continue;
+    }
+    ledger.markFetched(phoneNumber, result.messageId, result.email, Date.now());
+    emails.push(result.email);
+  }
+  return emails;
+}
+
+/**
+ * Run a matched rule's action for one email and record the outcome.
+ * Ignore rules skip the email.
+ */
+async function applyRule(phoneNumber: string, rule: WatcherRule, email: IncomingEmail): Promise<boolean> {
+  const ledger = getProcessingLedger();
+
+  if (rule.action === 'ignore') {
+    ledger.setStatus(phoneNumber, email.messageId, 'skipped', Date.now());
+    return false;
+  }
+
+  ledger.setStatus(phoneNumber, email.messageId, 'classified', Date.now());
+  try {
+    await executeRuleAction(phoneNumber, rule, email);
+    ledger.setStatus(phoneNumber, email.messageId, 'actioned', Date.now());
+  } catch (err) {
+    ledger.markFailed(phoneNumber, email.messageId, `rule ${rule.name}: ${errorMessage(err)}`, Date.now());
+    console.warn(JSON.stringify({
+      level: 'warn',
+      message: 'Email watcher rule action failed, will retry',
+      messageId: email.messageId,
+      rule: rule.name,
+      error: errorMessage(err),
+      timestamp: new Date().toISOString(),
+    }));
+  }
+  return true;
+}
+
+/**
+ * Apply watcher rules, then classify the remaining emails and run actions
+ * for matches, recording each email's outcome in the ledger. Emails with
+ * no matching rule or skill are skipped. Rethrows when classification
+ * itself fails (every classified email is marked failed).
+ */
+export async function processEmails(
+  phoneNumber: string,
+  emails: IncomingEmail[]
+): Promise<{ matched: number }> {
+  const ledger = getProcessingLedger();
+  const rules = getWatcherRuleStore().list(phoneNumber);
+  let matched = 0;
+
+  const unruled: IncomingEmail[] = [];
+  for (const email of emails) {
+    const rule = findMatchingRule(rules, email);
+    if (!rule) {
+      unruled.push(email);
+      continue;
+    }
+    if (await applyRule(phoneNumber, rule, email)) {
+      matched++;
+    }
+  }
+  if (unruled.length === 0) return { matched };
+
+  let classifications: ClassificationResult[];
+  try {
+    classifications = await classifyEmails(phoneNumber, unruled);
+  } catch (err) {
+    for (const email of unruled) {
+      ledger.markFailed(phoneNumber, email.messageId, `classify: ${errorMessage(err)}`, Date.now());
+    }
+    throw err;
+  }
+
+  const byMessageId = new Map(classifications.map((c) => [c.email.messageId, c]));
+
+  for (const email of unruled) {
+    const classification = byMessageId.get(email.messageId);
+    if (!classification || classification.matches.length === 0) {
+      ledger.setStatus(phoneNumber, email.messageId, 'skipped', Date.now());
+      continue;
+    }
+
+    matched++;
+    ledger.setStatus(phoneNumber, email.messageId, 'classified', Date.now());
+
+    try {
+      await executeSkillActions(phoneNumber, [classification]);
+      ledger.setStatus(phoneNumber, email.messageId, 'actioned', Date.now());
+    } catch (err) {
+      ledger.markFailed(phoneNumber, email.messageId, `actions: ${errorMessage(err)}`, Date.now());
+      console.warn(JSON.stringify({
+        level: 'warn',
+        message: 'Email watcher actions failed, will retry',
+        messageId: email.messageId,
+        error: errorMessage(err),
+        timestamp: new Date().toISOString(),
+      }));
+    }
+  }
+
+  return { matched };
+}
+
+/**
+ * Run one message through fetch, classification, and actions again,
+ * regardless of its current ledger status. Returns the updated entry.
+ */
+export async function replayEmail(phoneNumber: string, messageId: string): Promise<LedgerEntry> {
+  const ledger = getProcessingLedger();
+  ledger.recordSeen(phoneNumber, [messageId], Date.now());
+
+  const [result] = await fetchEmails(phoneNumber, [messageId]);
+  if ('error' in result) {
+    ledger.markFailed(phoneNumber, messageId, `fetch: ${result.error}`, Date.now());
+  } else {
+    ledger.markFetched(phoneNumber, messageId, result.email, Date.now());
+    try {
+      await processEmails(phoneNumber, [result.email]);
+    } catch {
+      // Already recorded as failed in the ledger
+    }
+  }
+
+  const entry = ledger.get(phoneNumber, messageId);
+  if (!entry) {
+    throw new Error(`Ledger entry missing after replay: ${messageId}`);
+  }
+  return entry;
+}
+
+/**
+ * Drop finished ledger entries past the retention window.
+ */
+export function pruneProcessingLedger(now: number = Date.now()): number {
+  return getProcessingLedger().pruneFinished(now - LEDGER_RETENTION_MS, MAX_PROCESSING_ATTEMPTS);
+}
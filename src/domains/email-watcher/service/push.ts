@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Gmail push notifications (Cloud Pub/Sub).
+ *
+ * Gmail publishes a notification to a Pub/Sub topic whenever a watched
+ * mailbox changes; a push subscription delivers it to /webhook/gmail as an
+ * envelope whose base64 `data` decodes to { emailAddress, historyId }.
+ * The notification only says "something changed" — the ledger-backed sync
+ * still lists history from the user's stored cursor.
+ *
+ * Watches expire after seven days, so renewGmailWatches() re-registers any
+ * watch close to expiry and drops watches for users no longer enabled.
+ */
+
+import config from '../../../config.js';
+import { getUserConfigStore } from '../../../services/user-config/index.js';
+import { watchMailbox, stopMailboxWatch } from '../providers/gmail-watch.js';
+import { getGmailWatchStore } from '../repo/sqlite.js';
+import type { GmailPushNotification, GmailWatch } from '../types.js';
+
+/** How often watches are checked for renewal. */
+export const WATCH_RENEWAL_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Watches expiring within this window are renewed. */
+const WATCH_RENEWAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Decode a Pub/Sub push envelope into a Gmail notification.
+ * Returns null when the envelope or its payload is malformed.
+ */
+export function parsePushEnvelope(body: unknown): GmailPushNotification | null {
+  if (!body || typeof body !== 'object') return null;
+  const message = (body as { message?: unknown }).message;
+  if (!message || typeof message !== 'object') return null;
+  const data = (message as { data?: unknown }).data;
+  if (typeof data !== 'string' || data.length === 0) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64').toString('utf-8'));
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object') return null;
+
+  const { emailAddress, historyId } = payload as { emailAddress?: unknown; historyId?: unknown };
+  if (typeof emailAddress !== 'string' || emailAddress.length === 0) return null;
+  if (typeof historyId !== 'string' && typeof historyId !== 'number') return null;
+
+  return { emailAddress, historyId: String(historyId) };
+}
+
+/**
+ * Find the user whose watched mailbox sent a notification.
+ */
+export function findPushUser(emailAddress: string): GmailWatch | null {
+  return getGmailWatchStore().findByEmailAddress(emailAddress);
+}
+
+/**
+ * Whether the user has an unexpired watch, i.e. push notifications
+ * are expected and polling only needs to run as a fallback.
+ */
+export function hasActiveWatch(phoneNumber: string, now: number = Date.now()): boolean {
+  const watch = getGmailWatchStore().get(phoneNumber);
+  return watch !== null && watch.expiresAt > now;
+}
+
+/**
+ * Register watches for enabled users that have none or whose watch is
+ * about to expire, and stop watches for users who are no longer enabled.
+ * Per-user failures are logged; the user falls back to polling.
+ */
+export async function renewGmailWatches(
+  now: number = Date.now()
+): Promise<{ renewed: number; stopped: number; failed: number }> {
+  const store = getGmailWatchStore();
+  const users = await getUserConfigStore().getEmailWatcherUsers();
+  const enabled = new Set(users.map((user) => user.phoneNumber));
+  let renewed = 0;
+  let stopped = 0;
+  let failed = 0;
+
+  for (const user of users) {
+    const existing = store.get(user.phoneNumber);
+    if (existing && existing.expiresAt - now > WATCH_RENEWAL_WINDOW_MS) continue;
+
+    try {
+      const watch = await watchMailbox(user.phoneNumber, config.emailWatcher.push.topicName);
+      store.upsert({ phoneNumber: user.phoneNumber, ...watch, updatedAt: now });
+      renewed++;
+    } catch (err) {
+      failed++;
+      console.warn(JSON.stringify({
+        level: 'warn',
+        message: 'Gmail watch renewal failed, falling back to polling',
+        phone: user.phoneNumber.slice(-4).padStart(user.phoneNumber.length, '*'),
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: new Date().toISOString(),
+      }));
+    }
+  }
+
+  for (const watch of store.list()) {
+    if (enabled.has(watch.phoneNumber)) continue;
+
+    store.delete(watch.phoneNumber);
+    stopped++;
+    try {
+      await stopMailboxWatch(watch.phoneNumber);
+    } catch {
+      // Credentials may already be revoked; Gmail expires the watch on its own
+    }
+  }
+
+  return { renewed, stopped, failed };
+}
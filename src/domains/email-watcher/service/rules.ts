@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Watcher rules: deterministic routing before classification.
+ *
+ * A rule combines sender (address or domain), Gmail label, subject regex
+ * and has-attachment conditions; every condition that is set must hold.
+ * Rules are checked in creation order and the first match decides:
+ * notify the user, run a named skill, or ignore the email. Emails that
+ * match no rule go on to skill classification as usual.
+ *
+ * Subject regexes are user-written and subjects are sender-controlled, so
+ * a pattern like `(a+)+$` could backtrack for minutes on a crafted subject.
+ * Matching runs in a vm context with a time limit, on a capped subject;
+ * a match that runs out of time counts as no match.
+ */
+
+import vm from 'vm';
+import type { IncomingEmail, WatcherRule } from '../types.js';
+
+/** Longest subject pattern accepted, to keep rules readable and cheap to run. */
+export const MAX_SUBJECT_PATTERN_LENGTH = 200;
+
+/**
+ * Subject characters a pattern is matched against. Subjects are sender
+ * controlled; the cap bounds matching time on a hostile one.
+ */
+export const MAX_MATCHED_SUBJECT_LENGTH = 1000;
+
+/** Time one subject regex test may take before it counts as no match. */
+export const SUBJECT_MATCH_TIMEOUT_MS = 50;
+
+const subjectTest = new vm.Script('pattern.test(subject)');
+const subjectContext = vm.createContext({ pattern: /$^/, subject: '' });
+
+/** Conditions a rule can set */
+export type WatcherRuleConditions = Pick<WatcherRule, 'from' | 'labelId' | 'subjectPattern' | 'hasAttachment'>;
+
+/**
+ * Extract the lowercased address from a From header
+ * ("Jane Doe <jane@acme.com>" → "jane@acme.com").
+ */
+export function parseSenderAddress(from: string): string {
+  const bracketed = from.match(/<([^>]+)>/);
+  return (bracketed ? bracketed[1] : from).trim().toLowerCase();
+}
+
+/**
+ * Normalize a sender condition: "Jane@Acme.com" stays an address,
+ * "@acme.com" and "acme.com" become the domain "acme.com".
+ * Returns null if the value is neither.
+ */
+export function normalizeSenderCondition(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed.startsWith('@')) {
+    const domain = trimmed.slice(1);
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+  }
+  if (trimmed.includes('@')) {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? trimmed : null;
+  }
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Check a subject pattern. Returns an error message, or null if it compiles.
+ */
+export function validateSubjectPattern(pattern: string): string | null {
+  if (pattern.length > MAX_SUBJECT_PATTERN_LENGTH) {
+    return `subject_pattern must be at most ${MAX_SUBJECT_PATTERN_LENGTH} characters.`;
+  }
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (err) {
+    return `subject_pattern is not a valid regular expression: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+/**
+ * Whether a subject regex (case-insensitive) matches the first
+ * MAX_MATCHED_SUBJECT_LENGTH characters of the subject. An invalid
+ * pattern, or one that runs past SUBJECT_MATCH_TIMEOUT_MS, doesn't match.
+ */
+export function subjectMatches(pattern: string, subject: string): boolean {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'i');
+  } catch {
+    return false;
+  }
+  subjectContext.pattern = regex;
+  subjectContext.subject = subject.slice(0, MAX_MATCHED_SUBJECT_LENGTH);
+  try {
+    return subjectTest.runInContext(subjectContext, { timeout: SUBJECT_MATCH_TIMEOUT_MS }) === true;
+  } catch {
+    return false;
+  } finally {
+    subjectContext.subject = '';
+  }
+}
+
+function senderMatches(condition: string, from: string): boolean {
+  const address = parseSenderAddress(from);
+  if (condition.includes('@')) {
+    return address === condition;
+  }
+  const domain = address.split('@')[1] ?? '';
+  return domain === condition || domain.endsWith(`.${condition}`);
+}
+
+/**
+ * Whether every condition the rule sets holds for the email.
+ * A rule with no conditions never matches.
+ */
+export function matchesRule(rule: WatcherRuleConditions, email: IncomingEmail): boolean {
+  let checked = 0;
+
+  if (rule.from) {
+    checked++;
+    if (!senderMatches(rule.from, email.from)) return false;
+  }
+  if (rule.labelId) {
+    checked++;
+    if (!email.labelIds.includes(rule.labelId)) return false;
+  }
+  if (rule.subjectPattern) {
+    checked++;
+    if (!subjectMatches(rule.subjectPattern, email.subject)) return false;
+  }
+  if (rule.hasAttachment !== null) {
+    checked++;
+    if ((email.attachments.length > 0) !== rule.hasAttachment) return false;
+  }
+
+  return checked > 0;
+}
+
+/**
+ * First rule (in creation order) that matches the email, or null.
+ */
+export function findMatchingRule(rules: WatcherRule[], email: IncomingEmail): WatcherRule | null {
+  return rules.find((rule) => matchesRule(rule, email)) ?? null;
+}
+
+/**
+ * One-line description of a rule for listing over SMS.
+ */
+export function describeRule(rule: WatcherRule): string {
+  const conditions: string[] = [];
+  if (rule.from) conditions.push(`from ${rule.from.includes('@') ? rule.from : `@${rule.from}`}`);
+  if (rule.labelName) conditions.push(`labeled ${rule.labelName}`);
+  if (rule.subjectPattern) conditions.push(`subject matches /${rule.subjectPattern}/`);
+  if (rule.hasAttachment !== null) conditions.push(rule.hasAttachment ? 'has attachment' : 'no attachment');
+
+  const action = rule.action === 'run_skill'
+    ? `run ${rule.skill}`
+    : rule.action;
+
+  return `${conditions.join(', ')} → ${action}`;
+}
@@ -12,6 +12,8 @@ export type IncomingEmail = {
   date: string;
   body: string;
   attachments: EmailAttachment[];
+  /** Gmail label IDs on the message (INBOX, IMPORTANT, Label_12, ...) */
+  labelIds: string[];
 };
 
 export type EmailAttachment = {
@@ -39,3 +41,74 @@ export type ThrottleState = {
   count: number;
   windowStart: number;
 };
+
+/** Notification held for a later digest (throttled, quiet hours, or digest mode) */
+export type QueuedNotification = {
+  id: number;
+  phoneNumber: string;
+  from: string;
+  subject: string;
+  body: string;
+  createdAt: number;
+};
+
+/**
+ * Processing state of a Gmail message in the watcher ledger.
+ * pending: seen in history, not fetched yet (including overflow beyond batchSize).
+ * fetched/classified: in progress. actioned/skipped: done. failed: retried until attempts run out.
+ */
+export type LedgerStatus = 'pending' | 'fetched' | 'classified' | 'actioned' | 'failed' | 'skipped';
+
+/** One Gmail message seen by the watcher */
+export type LedgerEntry = {
+  phoneNumber: string;
+  messageId: string;
+  status: LedgerStatus;
+  attempts: number;
+  lastError: string | null;
+  from: string | null;
+  subject: string | null;
+  firstSeenAt: number;
+  updatedAt: number;
+};
+
+/** Active Gmail watch (push notifications) for a user's mailbox */
+export type GmailWatch = {
+  phoneNumber: string;
+  emailAddress: string;
+  historyId: string | null;
+  expiresAt: number;
+  updatedAt: number;
+};
+
+/** Decoded payload of a Gmail push notification */
+export type GmailPushNotification = {
+  emailAddress: string;
+  historyId: string;
+};
+
+/** What a watcher rule does with a matching email */
+export type WatcherRuleAction = 'notify' | 'run_skill' | 'ignore';
+
+/**
+ * Per-user watcher rule, evaluated before skill classification.
+ * Every set condition must hold; unset conditions are ignored.
+ */
+export type WatcherRule = {
+  id: number;
+  phoneNumber: string;
+  name: string;
+  /** Sender address (has @) or domain, matched case-insensitively */
+  from: string | null;
+  /** Gmail label ID the message must carry, resolved from labelName when the rule was created */
+  labelId: string | null;
+  labelName: string | null;
+  /** Case-insensitive regular expression tested against the subject */
+  subjectPattern: string | null;
+  hasAttachment: boolean | null;
+  action: WatcherRuleAction;
+  /** Skill to run when action is run_skill */
+  skill: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
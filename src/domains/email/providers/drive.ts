@@ -0,0 +1,6 @@
+/**
+ * Drive domain bridge — folder, upload, and vision helpers for saving email attachments.
+ */
+export { uploadFile, findFolder, createFolder } from '../../drive/providers/google-drive.js';
+export { analyzeImage, ANALYSIS_PROMPTS } from '../../drive/providers/gemini-vision.js';
+export { GeminiNotConfiguredError } from '../../drive/types.js';
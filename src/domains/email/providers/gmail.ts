@@ -1,13 +1,31 @@
 /**
  * @fileoverview Gmail service.
  *
- * Provides listEmails, getEmail, and getThread functions with automatic token refresh.
+ * Provides listEmails, getEmail, and getThread functions with automatic token refresh,
+ * mailbox actions (modifyEmails, modifyEmailsByQuery), draft composition
+ * (createDraft, createReplyDraft), sendDraft, and attachment download
+ * (getEmailAttachments, downloadAttachment).
  * Throws AuthRequiredError when user hasn't connected their Google account.
  */
 
 import { gmail as gmailApi, gmail_v1 } from '@googleapis/gmail';
 import { getAuthenticatedClient, withRetry, isInsufficientScopesError, handleScopeError } from './google-core.js';
-import type { Email, EmailDetail, EmailThread } from '../types.js';
+import { AuthRequiredError } from '../types.js';
+import type {
+  Email,
+  EmailDetail,
+  EmailThread,
+  EmailComposition,
+  EmailDraft,
+  SentEmail,
+  MailboxAction,
+  MailboxActionResult,
+  EmailAttachmentInfo,
+  EmailAttachmentList,
+} from '../types.js';
+
+/** Upper bound on messages touched by a single query-driven mailbox action. */
+const MAX_BULK_MESSAGES = 100;
 
 /**
  * Handle Gmail API errors, converting scope errors to AuthRequiredError.
@@ -155,6 +173,93 @@ export async function getEmail(
   }
 }
 
+/**
+ * Walk MIME parts collecting downloadable attachments (parts with a filename and attachmentId).
+ */
+function collectAttachments(
+  part: gmail_v1.Schema$MessagePart | undefined,
+  into: EmailAttachmentInfo[] = []
+): EmailAttachmentInfo[] {
+  if (!part) return into;
+
+  if (part.filename && part.body?.attachmentId) {
+    into.push({
+      attachmentId: part.body.attachmentId,
+      filename: part.filename,
+      mimeType: part.mimeType || 'application/octet-stream',
+      sizeBytes: part.body.size ?? 0,
+    });
+  }
+
+  for (const child of part.parts ?? []) {
+    collectAttachments(child, into);
+  }
+  return into;
+}
+
+/**
+ * List the attachments on an email.
+ */
+export async function getEmailAttachments(
+  phoneNumber: string,
+  emailId: string
+): Promise<EmailAttachmentList> {
+  const gmail = await getGmailClient(phoneNumber);
+
+  try {
+    const response = await withRetry(() => gmail.users.messages.get({
+      userId: 'me',
+      id: emailId,
+      format: 'full',
+    }), phoneNumber, 'Gmail');
+
+    // Boundary: require id from API response
+    if (!response.data?.id) {
+      throw new Error(`Gmail API returned email without id for emailId=${emailId}`);
+    }
+
+    const headers = response.data.payload?.headers || [];
+    const receivedAt = Number(response.data.internalDate);
+
+    return {
+      emailId: response.data.id,
+      subject: headers.find((h) => h.name === 'Subject')?.value || '',
+      receivedAt: Number.isFinite(receivedAt) && receivedAt > 0 ? receivedAt : Date.now(),
+      attachments: collectAttachments(response.data.payload),
+    };
+  } catch (error) {
+    return handleGmailApiError(error, phoneNumber);
+  }
+}
+
+/**
+ * Download the bytes of one attachment.
+ */
+export async function downloadAttachment(
+  phoneNumber: string,
+  emailId: string,
+  attachmentId: string
+): Promise<Buffer> {
+  const gmail = await getGmailClient(phoneNumber);
+
+  try {
+    const response = await withRetry(() => gmail.users.messages.attachments.get({
+      userId: 'me',
+      messageId: emailId,
+      id: attachmentId,
+    }), phoneNumber, 'Gmail');
+
+    // Boundary: attachment body must carry base64url data
+    if (typeof response.data?.data !== 'string') {
+      throw new Error(`Gmail API returned attachment without data for emailId=${emailId}`);
+    }
+
+    return Buffer.from(response.data.data, 'base64url');
+  } catch (error) {
+    return handleGmailApiError(error, phoneNumber);
+  }
+}
+
 /**
  * Get all messages in an email thread.
  */
@@ -206,3 +311,385 @@ export async function getThread(
     return handleGmailApiError(error, phoneNumber);
   }
 }
+
+/**
+ * Resolve a label name (or system label ID like STARRED) to a Gmail label ID.
+ * Matching is case-insensitive. When createIfMissing is set, an unknown
+ * user label is created.
+ */
+async function resolveLabelId(
+  gmail: gmail_v1.Gmail,
+  phoneNumber: string,
+  labelName: string,
+  createIfMissing: boolean
+): Promise<string | null> {
+  const response = await withRetry(() => gmail.users.labels.list({ userId: 'me' }), phoneNumber, 'Gmail');
+  const wanted = labelName.trim().toLowerCase();
+  const existing = (response.data.labels || []).find(
+    (label) => label.id?.toLowerCase() === wanted || label.name?.toLowerCase() === wanted
+  );
+  if (existing?.id) {
+    return existing.id;
+  }
+  if (!createIfMissing) {
+    return null;
+  }
+
+  const created = await withRetry(() => gmail.users.labels.create({
+    userId: 'me',
+    requestBody: {
+      name: labelName.trim(),
+      labelListVisibility: 'labelShow',
+      messageListVisibility: 'show',
+    },
+  }), phoneNumber, 'Gmail');
+  return created.data.id || null;
+}
+
+/**
+ * Label changes for each mailbox action (everything except trash).
+ */
+function labelChangesFor(
+  action: Exclude<MailboxAction, 'trash'>,
+  labelId?: string
+): gmail_v1.Schema$ModifyMessageRequest {
+  switch (action) {
+    case 'archive':
+      return { removeLabelIds: ['INBOX'] };
+    case 'mark_read':
+      return { removeLabelIds: ['UNREAD'] };
+    case 'mark_unread':
+      return { addLabelIds: ['UNREAD'] };
+    case 'star':
+      return { addLabelIds: ['STARRED'] };
+    case 'unstar':
+      return { removeLabelIds: ['STARRED'] };
+    case 'add_label':
+      return { addLabelIds: [labelId as string] }; // boundary-ok: resolved by caller
+    case 'remove_label':
+      return { removeLabelIds: [labelId as string] }; // boundary-ok: resolved by caller
+  }
+}
+
+/**
+ * Apply a mailbox action (archive, label, read state, star, trash) to messages.
+ *
+ * Each message is modified individually so one failure does not abort the
+ * rest; the result lists per-message success. Auth errors still propagate.
+ */
+export async function modifyEmails(
+  phoneNumber: string,
+  emailIds: string[],
+  action: MailboxAction,
+  options: { label?: string } = {}
+): Promise<MailboxActionResult[]> {
+  const gmail = await getGmailClient(phoneNumber);
+
+  let labelId: string | undefined;
+  if (action === 'add_label' || action === 'remove_label') {
+    if (!options.label?.trim()) {
+      throw new Error(`${action} requires a label`);
+    }
+    try {
+      const resolved = await resolveLabelId(gmail, phoneNumber, options.label, action === 'add_label');
+      if (!resolved) {
+        return emailIds.map((id) => ({ id, success: false, error: `Label not found: ${options.label}` }));
+      }
+      labelId = resolved;
+    } catch (error) {
+      return handleGmailApiError(error, phoneNumber);
+    }
+  }
+
+  const results: MailboxActionResult[] = [];
+  for (const id of emailIds) {
+    try {
+      if (action === 'trash') {
+        await withRetry(() => gmail.users.messages.trash({ userId: 'me', id }), phoneNumber, 'Gmail');
+      } else {
+        await withRetry(() => gmail.users.messages.modify({
+          userId: 'me',
+          id,
+          requestBody: labelChangesFor(action, labelId),
+        }), phoneNumber, 'Gmail');
+      }
+      results.push({ id, success: true });
+    } catch (error) {
+      if (error instanceof AuthRequiredError || isInsufficientScopesError(error)) {
+        return handleGmailApiError(error, phoneNumber);
+      }
+      results.push({ id, success: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Apply a mailbox action to every message matching a Gmail search query.
+ * Touches at most maxResults messages (capped at MAX_BULK_MESSAGES).
+ */
+export async function modifyEmailsByQuery(
+  phoneNumber: string,
+  query: string,
+  action: MailboxAction,
+  options: { label?: string; maxResults?: number } = {}
+): Promise<{ matched: number; results: MailboxActionResult[] }> {
+  const gmail = await getGmailClient(phoneNumber);
+  const limit = Math.min(Math.max(options.maxResults ?? 50, 1), MAX_BULK_MESSAGES);
+
+  const ids: string[] = [];
+  try {
+    let pageToken: string | undefined;
+    do {
+      const response = await withRetry(() => gmail.users.messages.list({
+        userId: 'me',
+        q: query,
+        maxResults: limit - ids.length,
+        pageToken,
+      }), phoneNumber, 'Gmail');
+
+      for (const msg of response.data.messages || []) {
+        if (msg.id) ids.push(msg.id); // boundary: skip messages without an id
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken && ids.length < limit);
+  } catch (error) {
+    return handleGmailApiError(error, phoneNumber);
+  }
+
+  if (ids.length === 0) {
+    return { matched: 0, results: [] };
+  }
+
+  const results = await modifyEmails(phoneNumber, ids, action, { label: options.label });
+  return { matched: ids.length, results };
+}
+
+/**
+ * Strip CR/LF so user-supplied values cannot inject extra headers.
+ */
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it contains non-ASCII characters.
+ */
+function encodeHeaderValue(value: string): string {
+  const sanitized = sanitizeHeaderValue(value);
+  if (/^[\x20-\x7e]*$/.test(sanitized)) {
+    return sanitized;
+  }
+  return `=?UTF-8?B?${Buffer.from(sanitized, 'utf-8').toString('base64')}?=`;
+}
+
+/**
+ * Build a base64url-encoded RFC 2822 message for the Gmail API `raw` field.
+ */
+function buildRawMessage(message: EmailComposition): string {
+  const formatList = (addresses: string[]) => addresses.map(sanitizeHeaderValue).join(', ');
+
+  const headers = [`To: ${formatList(message.to)}`];
+  if (message.cc?.length) {
+    headers.push(`Cc: ${formatList(message.cc)}`);
+  }
+  if (message.bcc?.length) {
+    headers.push(`Bcc: ${formatList(message.bcc)}`);
+  }
+  headers.push(`Subject: ${encodeHeaderValue(message.subject)}`);
+  if (message.inReplyTo) {
+    headers.push(`In-Reply-To: ${sanitizeHeaderValue(message.inReplyTo)}`);
+  }
+  if (message.references) {
+    headers.push(`References: ${sanitizeHeaderValue(message.references)}`);
+  }
+  headers.push(
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset="UTF-8"',
+    'Content-Transfer-Encoding: base64',
+  );
+
+  // Wrap the base64 body at 76 chars per RFC 2045
+  const body = Buffer.from(message.body, 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return Buffer.from(`${headers.join('\r\n')}\r\n\r\n${body}`, 'utf-8').toString('base64url');
+}
+
+/**
+ * Split an address header ("A <a@x.com>, \"Doe, J\" <j@x.com>") into entries.
+ * Commas inside quotes or angle brackets do not split.
+ */
+function splitAddressList(header: string): string[] {
+  const entries: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+
+  for (const char of header) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === '<' && !inQuotes) inAngle = true;
+    if (char === '>' && !inQuotes) inAngle = false;
+
+    if (char === ',' && !inQuotes && !inAngle) {
+      if (current.trim()) entries.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) entries.push(current.trim());
+
+  return entries;
+}
+
+/**
+ * Extract the bare lowercase email address from an address entry.
+ */
+function extractAddress(entry: string): string {
+  const match = entry.match(/<([^>]+)>/);
+  return (match ? match[1] : entry).trim().toLowerCase();
+}
+
+/**
+ * Create a draft in the user's Gmail drafts folder.
+ */
+export async function createDraft(
+  phoneNumber: string,
+  message: EmailComposition
+): Promise<EmailDraft> {
+  const gmail = await getGmailClient(phoneNumber);
+
+  try {
+    const response = await withRetry(() => gmail.users.drafts.create({
+      userId: 'me',
+      requestBody: {
+        message: {
+          raw: buildRawMessage(message),
+          threadId: message.threadId,
+        },
+      },
+    }), phoneNumber, 'Gmail');
+
+    // Boundary: require draft and message ids from API response
+    const draftId = response.data.id;
+    const messageId = response.data.message?.id;
+    if (!draftId || !messageId) {
+      throw new Error('Gmail API returned draft without id');
+    }
+
+    return {
+      id: draftId,
+      messageId,
+      threadId: response.data.message?.threadId || message.threadId || messageId,
+      to: message.to,
+      cc: message.cc ?? [],
+      subject: message.subject,
+      body: message.body,
+    };
+  } catch (error) {
+    return handleGmailApiError(error, phoneNumber);
+  }
+}
+
+/**
+ * Create a reply draft for an existing email.
+ *
+ * Keeps the reply in the original thread and sets In-Reply-To/References
+ * so mail clients group it with the conversation. With replyAll, the
+ * original To/Cc recipients are copied, excluding the user's own address.
+ */
+export async function createReplyDraft(
+  phoneNumber: string,
+  emailId: string,
+  body: string,
+  options: { replyAll?: boolean } = {}
+): Promise<EmailDraft> {
+  const gmail = await getGmailClient(phoneNumber);
+
+  let original: gmail_v1.Schema$Message;
+  let ownAddress: string | undefined;
+  try {
+    const response = await withRetry(() => gmail.users.messages.get({
+      userId: 'me',
+      id: emailId,
+      format: 'metadata',
+      metadataHeaders: ['From', 'Reply-To', 'To', 'Cc', 'Subject', 'Message-ID', 'References'],
+    }), phoneNumber, 'Gmail');
+    original = response.data;
+
+    if (options.replyAll) {
+      const profile = await withRetry(() => gmail.users.getProfile({ userId: 'me' }), phoneNumber, 'Gmail');
+      ownAddress = profile.data.emailAddress?.toLowerCase();
+    }
+  } catch (error) {
+    return handleGmailApiError(error, phoneNumber);
+  }
+
+  const headers = original.payload?.headers || [];
+  const getHeader = (name: string) =>
+    headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+
+  const replyTarget = getHeader('Reply-To') || getHeader('From');
+  if (!replyTarget) {
+    throw new Error(`Cannot reply to email ${emailId}: no sender address`);
+  }
+
+  const to = splitAddressList(replyTarget);
+  const cc: string[] = [];
+  if (options.replyAll) {
+    const seen = new Set(to.map(extractAddress));
+    if (ownAddress) seen.add(ownAddress);
+    for (const entry of [...splitAddressList(getHeader('To')), ...splitAddressList(getHeader('Cc'))]) {
+      const address = extractAddress(entry);
+      if (!seen.has(address)) {
+        seen.add(address);
+        cc.push(entry);
+      }
+    }
+  }
+
+  const originalSubject = getHeader('Subject');
+  const subject = /^re:/i.test(originalSubject.trim()) ? originalSubject : `Re: ${originalSubject}`;
+  const originalMessageId = getHeader('Message-ID');
+  const references = [getHeader('References'), originalMessageId].filter(Boolean).join(' ');
+
+  return createDraft(phoneNumber, {
+    to,
+    cc,
+    subject,
+    body,
+    threadId: original.threadId || undefined,
+    inReplyTo: originalMessageId || undefined,
+    references: references || undefined,
+  });
+}
+
+/**
+ * Send an existing draft.
+ */
+export async function sendDraft(
+  phoneNumber: string,
+  draftId: string
+): Promise<SentEmail> {
+  const gmail = await getGmailClient(phoneNumber);
+
+  try {
+    const response = await withRetry(() => gmail.users.drafts.send({
+      userId: 'me',
+      requestBody: { id: draftId },
+    }), phoneNumber, 'Gmail');
+
+    // Boundary: require message id from API response
+    if (!response.data.id) {
+      throw new Error(`Gmail API returned sent message without id for draftId=${draftId}`);
+    }
+
+    return {
+      id: response.data.id,
+      threadId: response.data.threadId || response.data.id,
+    };
+  } catch (error) {
+    return handleGmailApiError(error, phoneNumber);
+  }
+}
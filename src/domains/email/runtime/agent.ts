@@ -16,7 +16,20 @@ const EMAIL_TOOLS = [
   'get_emails',
   'read_email',
   'get_email_thread',
+  'create_email_draft',
+  'reply_to_email',
+  'send_email',
+  'archive_emails',
+  'label_emails',
+  'mark_emails_read',
+  'star_emails',
+  'trash_emails',
+  'save_email_attachments',
   'toggle_email_watcher',
+  'create_email_watcher_rule',
+  'list_email_watcher_rules',
+  'delete_email_watcher_rule',
+  'set_user_config',
 ];
 
 /**
@@ -24,7 +37,7 @@ const EMAIL_TOOLS = [
  */
 export const capability: AgentCapability = {
   name: 'email-agent',
-  description: 'Searches and reads Gmail. Can search by sender, subject, date, and keywords. Can toggle the background email watcher.',
+  description: 'Searches, reads, drafts, replies to and sends Gmail. Can search by sender, subject, date, and keywords. Can archive, label, mark read/unread, star, and trash emails individually or in bulk by query. Can save email attachments to Drive and read receipts or documents in them. Sending always requires the user to confirm the draft first. Can toggle the background email watcher, manage its rules (always notify about, ignore, or run a skill on emails by sender, domain, label, subject or attachment), and set how its alerts are delivered (immediate, hourly digest, scheduled digests, quiet hours).',
   tools: EMAIL_TOOLS,
   examples: [
     'Do I have any unread emails?',
@@ -34,7 +47,14 @@ export const capability: AgentCapability = {
     'Read the email from my boss',
     'Find my hotel confirmation for my trip to Arizona',
     'Search for flight bookings from last year',
+    'Reply to Sarah saying I\'ll be late',
+    'Email my landlord that the rent is sent',
+    'Archive all the newsletters from today',
+    'Label the emails from my accountant as Taxes',
+    'Save the attachments from the Comcast email to Drive',
     'Pause email watching',
+    'Always tell me when my accountant emails',
+    'Send my email alerts as a digest at 8am and 6pm',
   ],
 };
 
@@ -2,9 +2,54 @@
  * Email tools (Gmail).
  */
 
-import type { ToolDefinition } from '../../../tools/types.js';
-import { requirePhoneNumber, handleAuthError, validateInput } from '../../../tools/utils.js';
-import { listEmails, getEmail as getEmailService, getThread as getThreadService } from '../providers/gmail.js';
+import type { ToolDefinition, ToolContext } from '../../../tools/types.js';
+import {
+  requirePhoneNumber,
+  handleAuthError,
+  validateInput,
+  CONFIRMATION_PROMPT_SCHEMA,
+} from '../../../tools/utils.js';
+import {
+  listEmails,
+  getEmail as getEmailService,
+  getThread as getThreadService,
+  createDraft,
+  createReplyDraft,
+  sendDraft,
+  modifyEmails,
+  modifyEmailsByQuery,
+} from '../providers/gmail.js';
+import { saveEmailAttachments as saveEmailAttachmentsService } from '../service/attachments.js';
+import type { EmailDraft, MailboxAction, MailboxActionResult } from '../types.js';
+
+/**
+ * Validate that a value is a non-empty array of email-address strings.
+ */
+function validateAddressList(field: string) {
+  return (value: unknown): string | null => {
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string' || !v.includes('@'))) {
+      return `${field} must be an array of email addresses.`;
+    }
+    return null;
+  };
+}
+
+/**
+ * Shape a draft for the agent, including the confirmation instruction.
+ */
+function draftResult(draft: EmailDraft): Record<string, unknown> {
+  return {
+    success: true,
+    draft_id: draft.id,
+    thread_id: draft.threadId,
+    to: draft.to,
+    cc: draft.cc,
+    subject: draft.subject,
+    body: draft.body,
+    requires_confirmation: true,
+    next_step: 'Call send_email with this draft_id and a confirmation_prompt naming the recipients and subject. It waits for the user to reply YES; show them the draft along with the question.',
+  };
+}
 
 export const getEmails: ToolDefinition = {
   tool: {
@@ -173,3 +218,478 @@ This is useful for:
     }
   },
 };
+
+export const createEmailDraft: ToolDefinition = {
+  tool: {
+    name: 'create_email_draft',
+    description: `Compose a new email and save it as a Gmail draft. Does NOT send.
+
+To send it, call send_email with the draft_id; the email goes out only after the user replies YES.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Recipient email addresses',
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'CC email addresses (optional)',
+        },
+        bcc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'BCC email addresses (optional)',
+        },
+        subject: {
+          type: 'string',
+          description: 'Email subject line',
+        },
+        body: {
+          type: 'string',
+          description: 'Plain-text email body',
+        },
+      },
+      required: ['to', 'subject', 'body'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      to: { type: 'array', required: true, validate: validateAddressList('to') },
+      cc: { type: 'array', required: false, validate: validateAddressList('cc') },
+      bcc: { type: 'array', required: false, validate: validateAddressList('bcc') },
+      subject: { type: 'string', required: true },
+      body: { type: 'string', required: true },
+    });
+    if (validationError) return validationError;
+
+    const { to, cc, bcc, subject, body } = input as {
+      to: string[];
+      cc?: string[];
+      bcc?: string[];
+      subject: string;
+      body: string;
+    };
+
+    if (to.length === 0) {
+      return { success: false, error: 'to must include at least one recipient.' };
+    }
+
+    try {
+      const draft = await createDraft(phoneNumber, { to, cc, bcc, subject, body });
+      return draftResult(draft);
+    } catch (error) {
+      const authResult = handleAuthError(error, phoneNumber, context.channel);
+      if (authResult) return authResult;
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
+
+export const replyToEmail: ToolDefinition = {
+  tool: {
+    name: 'reply_to_email',
+    description: `Draft a reply to an existing email. The reply stays in the original thread (In-Reply-To/References headers are set). Does NOT send.
+
+To send it, call send_email with the draft_id; the email goes out only after the user replies YES.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        email_id: {
+          type: 'string',
+          description: 'ID of the email being replied to (from get_emails or read_email)',
+        },
+        body: {
+          type: 'string',
+          description: 'Plain-text reply body',
+        },
+        reply_all: {
+          type: 'boolean',
+          description: 'Also reply to the original To/CC recipients (default false)',
+        },
+      },
+      required: ['email_id', 'body'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      email_id: { type: 'string', required: true },
+      body: { type: 'string', required: true },
+      reply_all: { type: 'boolean', required: false },
+    });
+    if (validationError) return validationError;
+
+    const { email_id, body, reply_all = false } = input as {
+      email_id: string;
+      body: string;
+      reply_all?: boolean;
+    };
+
+    try {
+      const draft = await createReplyDraft(phoneNumber, email_id, body, { replyAll: reply_all });
+      return draftResult(draft);
+    } catch (error) {
+      const authResult = handleAuthError(error, phoneNumber, context.channel);
+      if (authResult) return authResult;
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
+
+export const sendEmail: ToolDefinition = {
+  tool: {
+    name: 'send_email',
+    description: `Send a previously created draft (from create_email_draft or reply_to_email).
+
+The email waits for the user to reply YES to confirmation_prompt; show them the draft along with the question.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        draft_id: {
+          type: 'string',
+          description: 'Draft ID returned by create_email_draft or reply_to_email',
+        },
+        confirmation_prompt: CONFIRMATION_PROMPT_SCHEMA,
+      },
+      required: ['draft_id'],
+    },
+  },
+  confirmationPrompt: 'Send this email?',
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      draft_id: { type: 'string', required: true },
+    });
+    if (validationError) return validationError;
+
+    const { draft_id } = input as { draft_id: string };
+
+    // Emails only go out on the user's YES to a pending action, never
+    // straight from an agent, skill or scheduled job
+    if (!context.confirmedByUser) {
+      return {
+        success: false,
+        error: 'Emails are only sent after the user confirms. Show them the draft and ask.',
+        requires_confirmation: true,
+      };
+    }
+
+    try {
+      const sent = await sendDraft(phoneNumber, draft_id);
+      return { success: true, message_id: sent.id, thread_id: sent.threadId };
+    } catch (error) {
+      const authResult = handleAuthError(error, phoneNumber, context.channel);
+      if (authResult) return authResult;
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
+
+/**
+ * Input properties shared by every mailbox action tool: target messages
+ * either by explicit IDs or by a Gmail query (bulk).
+ */
+const MAILBOX_TARGET_PROPERTIES = {
+  email_ids: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Email IDs from get_emails. Provide this OR query.',
+  },
+  query: {
+    type: 'string',
+    description: 'Gmail search query selecting the emails to act on in bulk (e.g. "category:promotions newer_than:1d"). Provide this OR email_ids.',
+  },
+  max_results: {
+    type: 'number',
+    description: 'Maximum emails to act on when using query (1-100, default 50)',
+  },
+};
+
+/**
+ * Validate targeting, run a mailbox action, and summarize per-message results.
+ */
+async function runMailboxAction(
+  input: Record<string, unknown>,
+  context: ToolContext,
+  action: MailboxAction,
+  label?: string
+): Promise<Record<string, unknown>> {
+  const phoneNumber = requirePhoneNumber(context);
+
+  const validationError = validateInput(input, {
+    email_ids: {
+      type: 'array',
+      required: false,
+      validate: (value) =>
+        Array.isArray(value) && value.every((v) => typeof v === 'string' && v.trim())
+          ? null
+          : 'email_ids must be an array of non-empty strings.',
+    },
+    query: { type: 'string', required: false, nonEmpty: true },
+    max_results: { type: 'number', required: false },
+  });
+  if (validationError) return validationError;
+
+  const { email_ids, query, max_results } = input as {
+    email_ids?: string[];
+    query?: string;
+    max_results?: number;
+  };
+
+  const hasIds = Boolean(email_ids && email_ids.length > 0);
+  if (hasIds === Boolean(query)) {
+    return { success: false, error: 'Provide either email_ids or query (not both).' };
+  }
+
+  try {
+    let matched: number;
+    let results: MailboxActionResult[];
+    if (hasIds) {
+      results = await modifyEmails(phoneNumber, email_ids as string[], action, { label });
+      matched = results.length;
+    } else {
+      ({ matched, results } = await modifyEmailsByQuery(phoneNumber, query as string, action, {
+        label,
+        maxResults: max_results,
+      }));
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    return {
+      success: results.length === 0 || succeeded > 0,
+      action,
+      ...(label ? { label } : {}),
+      ...(query ? { query_used: query } : {}),
+      matched,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  } catch (error) {
+    const authResult = handleAuthError(error, phoneNumber, context.channel);
+    if (authResult) return authResult;
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const archiveEmails: ToolDefinition = {
+  tool: {
+    name: 'archive_emails',
+    description: 'Archive emails (remove them from the inbox without deleting). Target specific email IDs, or use a Gmail query for bulk archiving (e.g. "archive all newsletters from today").',
+    input_schema: {
+      type: 'object' as const,
+      properties: { ...MAILBOX_TARGET_PROPERTIES },
+    },
+  },
+  handler: async (input, context) => runMailboxAction(input, context, 'archive'),
+};
+
+export const labelEmails: ToolDefinition = {
+  tool: {
+    name: 'label_emails',
+    description: 'Apply or remove a Gmail label on emails. Applying a label that does not exist creates it. Target specific email IDs or use a Gmail query for bulk labeling.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        label: {
+          type: 'string',
+          description: 'Label name (e.g. "Receipts", "Travel/2026")',
+        },
+        remove: {
+          type: 'boolean',
+          description: 'Remove the label instead of applying it (default false)',
+        },
+        ...MAILBOX_TARGET_PROPERTIES,
+      },
+      required: ['label'],
+    },
+  },
+  handler: async (input, context) => {
+    const validationError = validateInput(input, {
+      label: { type: 'string', required: true },
+      remove: { type: 'boolean', required: false },
+    });
+    if (validationError) return validationError;
+
+    const { label, remove = false } = input as { label: string; remove?: boolean };
+    return runMailboxAction(input, context, remove ? 'remove_label' : 'add_label', label.trim());
+  },
+};
+
+export const markEmailsRead: ToolDefinition = {
+  tool: {
+    name: 'mark_emails_read',
+    description: 'Mark emails as read or unread. Target specific email IDs or use a Gmail query for bulk updates (e.g. "is:unread category:social").',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        read: {
+          type: 'boolean',
+          description: 'true to mark as read, false to mark as unread (default true)',
+        },
+        ...MAILBOX_TARGET_PROPERTIES,
+      },
+    },
+  },
+  handler: async (input, context) => {
+    const validationError = validateInput(input, {
+      read: { type: 'boolean', required: false },
+    });
+    if (validationError) return validationError;
+
+    const { read = true } = input as { read?: boolean };
+    return runMailboxAction(input, context, read ? 'mark_read' : 'mark_unread');
+  },
+};
+
+export const starEmails: ToolDefinition = {
+  tool: {
+    name: 'star_emails',
+    description: 'Star or unstar emails. Target specific email IDs or use a Gmail query for bulk updates.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        starred: {
+          type: 'boolean',
+          description: 'true to star, false to unstar (default true)',
+        },
+        ...MAILBOX_TARGET_PROPERTIES,
+      },
+    },
+  },
+  handler: async (input, context) => {
+    const validationError = validateInput(input, {
+      starred: { type: 'boolean', required: false },
+    });
+    if (validationError) return validationError;
+
+    const { starred = true } = input as { starred?: boolean };
+    return runMailboxAction(input, context, starred ? 'star' : 'unstar');
+  },
+};
+
+export const trashEmails: ToolDefinition = {
+  tool: {
+    name: 'trash_emails',
+    description: 'Move emails to the trash (recoverable for 30 days). Target specific email IDs or use a Gmail query for bulk deletion. Trashing by query waits for the user to reply YES to confirmation_prompt; list the matches first so the question can say what will go.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        ...MAILBOX_TARGET_PROPERTIES,
+        confirmation_prompt: CONFIRMATION_PROMPT_SCHEMA,
+      },
+    },
+  },
+  confirmationPrompt: 'Move the matching emails to the trash?',
+  needsConfirmation: (input) => typeof input.query === 'string' && input.query.trim().length > 0,
+  handler: async (input, context) => runMailboxAction(input, context, 'trash'),
+};
+
+export const saveEmailAttachments: ToolDefinition = {
+  tool: {
+    name: 'save_email_attachments',
+    description: 'Save the attachments of an email to Google Drive, in a dated Hermes/Email Attachments folder. Optionally analyze images and PDFs (e.g., read a receipt) and return a summary of each.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        email_id: {
+          type: 'string',
+          description: 'Email ID from get_emails',
+        },
+        filenames: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only save these attachments (exact filenames). Omit to save all.',
+        },
+        analyze: {
+          type: 'boolean',
+          description: 'Analyze image and PDF attachments with vision and return what they contain (default false)',
+        },
+      },
+      required: ['email_id'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      email_id: { type: 'string', required: true, nonEmpty: true },
+      filenames: {
+        type: 'array',
+        required: false,
+        validate: (value) =>
+          Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'string' && v.trim().length > 0)
+            ? null
+            : 'filenames must be a non-empty array of filenames.',
+      },
+      analyze: { type: 'boolean', required: false },
+    });
+    if (validationError) return validationError;
+
+    const { email_id, filenames, analyze } = input as {
+      email_id: string;
+      filenames?: string[];
+      analyze?: boolean;
+    };
+
+    try {
+      const result = await saveEmailAttachmentsService(phoneNumber, email_id, {
+        filenames,
+        analyze: analyze === true,
+        timezone: context.userConfig?.timezone,
+      });
+
+      if (result.saved.length === 0 && result.failed.length === 0) {
+        return { success: true, email_id: result.emailId, saved: [], message: 'This email has no attachments.' };
+      }
+
+      return {
+        success: result.saved.length > 0,
+        email_id: result.emailId,
+        folder: result.folderPath,
+        saved: result.saved.map((file) => ({
+          filename: file.filename,
+          mime_type: file.mimeType,
+          size_bytes: file.sizeBytes,
+          drive_file_id: file.driveFileId,
+          link: file.webViewLink,
+          analysis: file.analysis,
+          analysis_error: file.analysisError,
+        })),
+        failed: result.failed,
+        ...(result.saved.length === 0 ? { error: 'No attachments were saved.' } : {}),
+      };
+    } catch (error) {
+      const authResult = handleAuthError(error, phoneNumber, context.channel);
+      if (authResult) return authResult;
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
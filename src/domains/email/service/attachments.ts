@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Save Gmail attachments to Drive.
+ *
+ * Files go into Hermes/Email Attachments/<YYYY-MM-DD>, dated by when the
+ * email was received in the user's timezone. Images and PDFs can optionally
+ * be run through Gemini vision so emailed receipts get the same treatment
+ * as MMS receipts.
+ */
+
+import { DateTime } from 'luxon';
+import { getEmailAttachments, downloadAttachment } from '../providers/gmail.js';
+import {
+  uploadFile,
+  findFolder,
+  createFolder,
+  analyzeImage,
+  ANALYSIS_PROMPTS,
+  GeminiNotConfiguredError,
+} from '../providers/drive.js';
+import { AuthRequiredError } from '../types.js';
+import type { SaveAttachmentsResult, SavedEmailAttachment } from '../types.js';
+
+/** Folder under Hermes that holds dated attachment folders. */
+export const EMAIL_ATTACHMENTS_FOLDER = 'Email Attachments';
+
+/** Gmail's own message size limit; larger parts are skipped rather than buffered. */
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export interface SaveAttachmentsOptions {
+  /** Only save attachments with these filenames (case-insensitive). Default: all. */
+  filenames?: string[];
+  /** Run images and PDFs through Gemini vision. */
+  analyze?: boolean;
+  /** IANA timezone used to date the folder. Default: UTC. */
+  timezone?: string;
+}
+
+/**
+ * Whether Gemini can analyze this attachment type.
+ */
+export function isAnalyzableAttachment(mimeType: string): boolean {
+  return mimeType.startsWith('image/') || mimeType === 'application/pdf';
+}
+
+async function getOrCreateFolder(
+  phoneNumber: string,
+  name: string,
+  parentId?: string
+): Promise<string> {
+  const existing = await findFolder(phoneNumber, name, parentId);
+  if (existing) return existing.id;
+  const folder = await createFolder(phoneNumber, name, parentId);
+  return folder.id;
+}
+
+/**
+ * Download an email's attachments from Gmail and upload them to Drive.
+ * Per-file failures are collected; auth errors propagate.
+ */
+export async function saveEmailAttachments(
+  phoneNumber: string,
+  emailId: string,
+  options: SaveAttachmentsOptions = {}
+): Promise<SaveAttachmentsResult> {
+  const listing = await getEmailAttachments(phoneNumber, emailId);
+
+  const wanted = options.filenames?.map((name) => name.trim().toLowerCase());
+  const selected = wanted
+    ? listing.attachments.filter((a) => wanted.includes(a.filename.toLowerCase()))
+    : listing.attachments;
+
+  const result: SaveAttachmentsResult = {
+    emailId: listing.emailId,
+    folderId: null,
+    folderPath: null,
+    saved: [],
+    failed: [],
+  };
+
+  if (wanted) {
+    for (const name of options.filenames ?? []) {
+      if (!listing.attachments.some((a) => a.filename.toLowerCase() === name.trim().toLowerCase())) {
+        result.failed.push({ filename: name, error: 'No attachment with this filename' });
+      }
+    }
+  }
+
+  if (selected.length === 0) return result;
+
+  const dateFolder = DateTime.fromMillis(listing.receivedAt, { zone: options.timezone || 'UTC' })
+    .toFormat('yyyy-MM-dd');
+  const parentId = await getOrCreateFolder(phoneNumber, EMAIL_ATTACHMENTS_FOLDER);
+  const folderId = await getOrCreateFolder(phoneNumber, dateFolder, parentId);
+  result.folderId = folderId;
+  result.folderPath = `Hermes/${EMAIL_ATTACHMENTS_FOLDER}/${dateFolder}`;
+
+  for (const attachment of selected) {
+    if (attachment.sizeBytes > MAX_ATTACHMENT_BYTES) {
+      result.failed.push({ filename: attachment.filename, error: 'Attachment is larger than 25 MB' });
+      continue;
+    }
+
+    try {
+      const data = await downloadAttachment(phoneNumber, listing.emailId, attachment.attachmentId);
+      const file = await uploadFile(phoneNumber, {
+        name: attachment.filename,
+        mimeType: attachment.mimeType,
+        content: data,
+        folderId,
+        description: listing.subject ? `Attachment from email: ${listing.subject}` : undefined,
+      });
+
+      const saved: SavedEmailAttachment = {
+        filename: file.name,
+        mimeType: attachment.mimeType,
+        sizeBytes: data.length,
+        driveFileId: file.id,
+        webViewLink: file.webViewLink,
+      };
+
+      if (options.analyze && isAnalyzableAttachment(attachment.mimeType)) {
+        try {
+          saved.analysis = await analyzeImage(data, attachment.mimeType, ANALYSIS_PROMPTS.identifyDocument, {
+            phoneNumber,
+            purpose: 'agent',
+          });
+        } catch (error) {
+          saved.analysisError = error instanceof GeminiNotConfiguredError
+            ? 'Image analysis is not configured'
+            : error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      result.saved.push(saved);
+    } catch (error) {
+      if (error instanceof AuthRequiredError) throw error;
+      result.failed.push({
+        filename: attachment.filename,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Saved email attachments to Drive',
+    emailId: listing.emailId,
+    saved: result.saved.length,
+    failed: result.failed.length,
+    timestamp: new Date().toISOString(),
+  }));
+
+  return result;
+}
@@ -26,3 +26,91 @@ export interface EmailThread {
   id: string;
   messages: EmailDetail[];
 }
+
+/** Outgoing message content used to build a draft or send. */
+export interface EmailComposition {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  /** Gmail thread to attach the message to (replies only). */
+  threadId?: string;
+  /** RFC 2822 Message-ID of the message being replied to. */
+  inReplyTo?: string;
+  /** RFC 2822 References chain for the thread. */
+  references?: string;
+}
+
+/** Draft saved in the user's Gmail drafts folder. */
+export interface EmailDraft {
+  id: string;
+  messageId: string;
+  threadId: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+}
+
+/** Result of sending a message. */
+export interface SentEmail {
+  id: string;
+  threadId: string;
+}
+
+/** Mailbox mutation applied to one or more messages. */
+export type MailboxAction =
+  | 'archive'
+  | 'mark_read'
+  | 'mark_unread'
+  | 'star'
+  | 'unstar'
+  | 'add_label'
+  | 'remove_label'
+  | 'trash';
+
+/** Outcome of a mailbox action on a single message. */
+export interface MailboxActionResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+/** File attached to a Gmail message. */
+export interface EmailAttachmentInfo {
+  attachmentId: string;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+/** A message's attachments plus the fields needed to file them. */
+export interface EmailAttachmentList {
+  emailId: string;
+  subject: string;
+  /** When Gmail received the message (epoch ms). */
+  receivedAt: number;
+  attachments: EmailAttachmentInfo[];
+}
+
+/** Attachment copied from Gmail into Drive. */
+export interface SavedEmailAttachment {
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+  driveFileId: string;
+  webViewLink?: string;
+  /** Vision summary for images and PDFs, when analysis was requested. */
+  analysis?: string;
+  analysisError?: string;
+}
+
+/** Outcome of saving a message's attachments to Drive. */
+export interface SaveAttachmentsResult {
+  emailId: string;
+  folderId: string | null;
+  folderPath: string | null;
+  saved: SavedEmailAttachment[];
+  failed: Array<{ filename: string; error: string }>;
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Gemini embedding provider for semantic memory retrieval.
+ */
+
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import config from '../../../config.js';
+import type { EmbeddingProvider } from '../types.js';
+import { recordUsage } from '../../../services/usage/ledger.js';
+
+/** Texts per batchEmbedContents request (API limit is 100) */
+const BATCH_SIZE = 100;
+
+/** Rough characters per token; the embedding API doesn't report token counts */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Create an embedding provider backed by the Gemini embedding API.
+ * Throws if GEMINI_API_KEY is not set.
+ */
+export function createGeminiEmbeddingProvider(model = config.memory.embeddingModel): EmbeddingProvider {
+  const apiKey = config.google.geminiApiKey;
+  if (!apiKey) {
+    throw new Error('Gemini API key not configured. Set GEMINI_API_KEY environment variable.');
+  }
+  const client = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+
+  return {
+    id: `gemini:${model}`,
+    async embed(texts: string[], phoneNumber?: string): Promise<Float32Array[]> {
+      const vectors: Float32Array[] = [];
+      for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        const batch = texts.slice(i, i + BATCH_SIZE);
+        const response = await client.batchEmbedContents({
+          requests: batch.map((text) => ({
+            content: { role: 'user', parts: [{ text }] },
+            taskType: TaskType.SEMANTIC_SIMILARITY,
+          })),
+        });
+        vectors.push(...response.embeddings.map((embedding) => Float32Array.from(embedding.values)));
+
+        const chars = batch.reduce((sum, text) => sum + text.length, 0);
+        await recordUsage({
+          phoneNumber: phoneNumber ?? null,
+          provider: 'gemini',
+          model,
+          purpose: 'memory',
+          inputTokens: Math.ceil(chars / CHARS_PER_TOKEN),
+          outputTokens: 0,
+        });
+      }
+      return vectors;
+    },
+  };
+}
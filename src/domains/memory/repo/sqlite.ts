@@ -16,13 +16,33 @@
  * | source_type | TEXT | 'explicit' (user asked) or 'inferred' (extracted) |
  * | evidence | TEXT | Supporting quote/context (max 120 chars) |
  * | last_reinforced_at | INTEGER | Timestamp when fact was last confirmed |
+ * | reinforcement_count | INTEGER | Times the fact was mentioned again after extraction |
+ * | last_decayed_at | INTEGER | Timestamp of the last confidence decay |
  * | extracted_at | INTEGER | Timestamp when fact was first extracted |
+ * | supersedes | TEXT | ID of the older fact this one replaced |
+ * | valid_from | INTEGER | Timestamp from which the fact holds |
+ * | valid_until | INTEGER | Timestamp when a newer fact superseded it (NULL = current) |
+ *
+ * Every confidence change made by reinforcement, decay or promotion is
+ * recorded in `user_fact_adjustments` (see `adjustConfidence()`).
+ *
+ * ## Versioning
+ *
+ * When a new fact contradicts an old one ("Lives in Austin" after "Lives in
+ * Seattle"), `supersedeFact()` stores the new fact with `supersedes` pointing
+ * at the old one and closes the old one with `valid_until`. Superseded facts
+ * are kept for history and audit: `getFacts()` skips them, `getFactHistory()`
+ * and `getAllFacts()` return them.
+ *
+ * Embedding vectors for semantic retrieval live in `user_fact_embeddings`
+ * (fact_id, embedding_id, text, vector as Float32 BLOB). A vector is only
+ * used while `text` matches the fact, so edited facts are re-embedded.
  *
  * ## Confidence and Cleanup
  *
  * - Facts with confidence < 0.6 are "observations" (tentative)
  * - Observations older than 180 days are deleted by `deleteStaleObservations()`
- * - Established facts (≥ 0.6) are never automatically deleted
+ * - Established and superseded facts are never automatically deleted
  *
  * @see ./ranking.ts for confidence thresholds and selection logic
  * @see ./processor.ts for how facts are extracted and stored
@@ -32,7 +52,54 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { randomUUID } from 'crypto';
-import type { MemoryStore, UserFact } from '../types.js';
+import type { FactAdjustment, FactAdjustmentKind, MemoryStore, UserFact } from '../types.js';
+
+const FACT_COLUMNS = `id, phone_number, fact, category, confidence, source_type, evidence,
+  last_reinforced_at, extracted_at, supersedes, valid_from, valid_until, reinforcement_count, last_decayed_at`;
+
+interface FactRow {
+  id: string;
+  phone_number: string;
+  fact: string;
+  category: string | null;
+  confidence: number | null;
+  source_type: string | null;
+  evidence: string | null;
+  last_reinforced_at: number | null;
+  extracted_at: number;
+  supersedes: string | null;
+  valid_from: number | null;
+  valid_until: number | null;
+  reinforcement_count: number | null;
+  last_decayed_at: number | null;
+}
+
+function rowToFact(row: FactRow): UserFact {
+  // Boundary: fail fast on corrupt rows missing required fields
+  if (!row.id || !row.phone_number || !row.fact) {
+    throw new Error(`Corrupt user_facts row: missing required field (id=${row.id})`);
+  }
+  // Boundary: clamp confidence to valid range
+  const rawConfidence = row.confidence ?? 0.5;
+  const confidence = Math.max(0, Math.min(1, rawConfidence));
+
+  return {
+    id: row.id,
+    phoneNumber: row.phone_number,
+    fact: row.fact,
+    category: row.category ?? undefined,
+    confidence,
+    sourceType: (row.source_type as 'explicit' | 'inferred') ?? 'explicit',
+    evidence: row.evidence ?? undefined,
+    lastReinforcedAt: row.last_reinforced_at ?? undefined,
+    extractedAt: row.extracted_at,
+    supersedes: row.supersedes ?? undefined,
+    validFrom: row.valid_from ?? undefined,
+    validUntil: row.valid_until ?? undefined,
+    reinforcementCount: row.reinforcement_count ?? 0,
+    lastDecayedAt: row.last_decayed_at ?? undefined,
+  };
+}
 
 /**
  * SQLite implementation of memory store.
@@ -65,10 +132,37 @@ export class SqliteMemoryStore implements MemoryStore {
         source_type TEXT NOT NULL DEFAULT 'explicit',
         evidence TEXT,
         last_reinforced_at INTEGER,
-        extracted_at INTEGER NOT NULL
+        extracted_at INTEGER NOT NULL,
+        supersedes TEXT,
+        valid_from INTEGER,
+        valid_until INTEGER,
+        reinforcement_count INTEGER NOT NULL DEFAULT 0,
+        last_decayed_at INTEGER
       );
 
       CREATE INDEX IF NOT EXISTS idx_user_facts_phone ON user_facts(phone_number);
+
+      CREATE TABLE IF NOT EXISTS user_fact_embeddings (
+        fact_id TEXT NOT NULL,
+        embedding_id TEXT NOT NULL,
+        text TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (fact_id, embedding_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS user_fact_adjustments (
+        id TEXT PRIMARY KEY,
+        fact_id TEXT NOT NULL,
+        phone_number TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        previous_confidence REAL NOT NULL,
+        new_confidence REAL NOT NULL,
+        reason TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_user_fact_adjustments_fact ON user_fact_adjustments(fact_id, created_at);
     `);
 
     this.applyMigrations();
@@ -105,6 +199,36 @@ export class SqliteMemoryStore implements MemoryStore {
         sql: `ALTER TABLE user_facts ADD COLUMN last_reinforced_at INTEGER`,
       });
     }
+    if (!columnNames.has('supersedes')) {
+      missingColumns.push({
+        name: 'supersedes',
+        sql: `ALTER TABLE user_facts ADD COLUMN supersedes TEXT`,
+      });
+    }
+    if (!columnNames.has('valid_from')) {
+      missingColumns.push({
+        name: 'valid_from',
+        sql: `ALTER TABLE user_facts ADD COLUMN valid_from INTEGER`,
+      });
+    }
+    if (!columnNames.has('valid_until')) {
+      missingColumns.push({
+        name: 'valid_until',
+        sql: `ALTER TABLE user_facts ADD COLUMN valid_until INTEGER`,
+      });
+    }
+    if (!columnNames.has('reinforcement_count')) {
+      missingColumns.push({
+        name: 'reinforcement_count',
+        sql: `ALTER TABLE user_facts ADD COLUMN reinforcement_count INTEGER NOT NULL DEFAULT 0`,
+      });
+    }
+    if (!columnNames.has('last_decayed_at')) {
+      missingColumns.push({
+        name: 'last_decayed_at',
+        sql: `ALTER TABLE user_facts ADD COLUMN last_decayed_at INTEGER`,
+      });
+    }
 
     const transaction = this.db.transaction(() => {
       for (const column of missingColumns) {
@@ -121,6 +245,9 @@ export class SqliteMemoryStore implements MemoryStore {
       this.db
         .prepare(`UPDATE user_facts SET last_reinforced_at = extracted_at WHERE last_reinforced_at IS NULL`)
         .run();
+      this.db
+        .prepare(`UPDATE user_facts SET valid_from = extracted_at WHERE valid_from IS NULL`)
+        .run();
     });
     transaction();
   }
@@ -128,97 +255,58 @@ export class SqliteMemoryStore implements MemoryStore {
   async getFacts(phoneNumber: string): Promise<UserFact[]> {
     const rows = this.db
       .prepare(
-        `SELECT id, phone_number, fact, category, confidence, source_type, evidence, last_reinforced_at, extracted_at
+        `SELECT ${FACT_COLUMNS}
          FROM user_facts
-         WHERE phone_number = ?
+         WHERE phone_number = ? AND valid_until IS NULL
          ORDER BY extracted_at DESC`
       )
-      .all(phoneNumber) as Array<{
-      id: string;
-      phone_number: string;
-      fact: string;
-      category: string | null;
-      confidence: number | null;
-      source_type: string | null;
-      evidence: string | null;
-      last_reinforced_at: number | null;
-      extracted_at: number;
-    }>;
+      .all(phoneNumber) as FactRow[];
 
-    return rows.map((row) => {
-      // Boundary: fail fast on corrupt rows missing required fields
-      if (!row.id || !row.phone_number || !row.fact) {
-        throw new Error(`Corrupt user_facts row: missing required field (id=${row.id})`);
-      }
-      // Boundary: clamp confidence to valid range
-      const rawConfidence = row.confidence ?? 0.5;
-      const confidence = Math.max(0, Math.min(1, rawConfidence));
+    return rows.map(rowToFact);
+  }
 
-      return {
-        id: row.id,
-        phoneNumber: row.phone_number,
-        fact: row.fact,
-        category: row.category ?? undefined,
-        confidence,
-        sourceType: (row.source_type as 'explicit' | 'inferred') ?? 'explicit',
-        evidence: row.evidence ?? undefined,
-        lastReinforcedAt: row.last_reinforced_at ?? undefined,
-        extractedAt: row.extracted_at,
-      };
-    });
+  async getFactHistory(phoneNumber: string): Promise<UserFact[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT ${FACT_COLUMNS}
+         FROM user_facts
+         WHERE phone_number = ? AND valid_until IS NOT NULL
+         ORDER BY valid_until DESC`
+      )
+      .all(phoneNumber) as FactRow[];
+
+    return rows.map(rowToFact);
   }
 
   async getAllFacts(): Promise<UserFact[]> {
     const rows = this.db
       .prepare(
-        `SELECT id, phone_number, fact, category, confidence, source_type, evidence, last_reinforced_at, extracted_at
+        `SELECT ${FACT_COLUMNS}
          FROM user_facts
          ORDER BY extracted_at DESC`
       )
-      .all() as Array<{
-      id: string;
-      phone_number: string;
-      fact: string;
-      category: string | null;
-      confidence: number | null;
-      source_type: string | null;
-      evidence: string | null;
-      last_reinforced_at: number | null;
-      extracted_at: number;
-    }>;
+      .all() as FactRow[];
 
-    return rows.map((row) => {
-      if (!row.id || !row.phone_number || !row.fact) {
-        throw new Error(`Corrupt user_facts row: missing required field (id=${row.id})`);
-      }
-      const rawConfidence = row.confidence ?? 0.5;
-      const confidence = Math.max(0, Math.min(1, rawConfidence));
-
-      return {
-        id: row.id,
-        phoneNumber: row.phone_number,
-        fact: row.fact,
-        category: row.category ?? undefined,
-        confidence,
-        sourceType: (row.source_type as 'explicit' | 'inferred') ?? 'explicit',
-        evidence: row.evidence ?? undefined,
-        lastReinforcedAt: row.last_reinforced_at ?? undefined,
-        extractedAt: row.extracted_at,
-      };
-    });
+    return rows.map(rowToFact);
   }
 
   async addFact(fact: Omit<UserFact, 'id'>): Promise<UserFact> {
+    return this.insertFact(fact);
+  }
+
+  private insertFact(fact: Omit<UserFact, 'id'>): UserFact {
     const id = randomUUID();
     const confidence = fact.confidence ?? 0.5;
     const sourceType = fact.sourceType ?? 'explicit';
     const evidence = fact.evidence ?? null;
     const lastReinforcedAt = fact.lastReinforcedAt ?? fact.extractedAt;
+    const validFrom = fact.validFrom ?? fact.extractedAt;
 
     this.db
       .prepare(
-        `INSERT INTO user_facts (id, phone_number, fact, category, confidence, source_type, evidence, last_reinforced_at, extracted_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        `INSERT INTO user_facts (id, phone_number, fact, category, confidence, source_type, evidence, last_reinforced_at, extracted_at,
+           supersedes, valid_from, valid_until)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
       .run(
         id,
@@ -229,7 +317,10 @@ export class SqliteMemoryStore implements MemoryStore {
         sourceType,
         evidence,
         lastReinforcedAt,
-        fact.extractedAt
+        fact.extractedAt,
+        fact.supersedes ?? null,
+        validFrom,
+        fact.validUntil ?? null
       );
 
     return {
@@ -239,9 +330,21 @@ export class SqliteMemoryStore implements MemoryStore {
       sourceType,
       evidence: evidence ?? undefined,
       lastReinforcedAt,
+      validFrom,
     };
   }
 
+  async supersedeFact(oldId: string, fact: Omit<UserFact, 'id' | 'supersedes'>): Promise<UserFact> {
+    const validFrom = fact.validFrom ?? fact.extractedAt;
+    const supersede = this.db.transaction(() => {
+      this.db
+        .prepare(`UPDATE user_facts SET valid_until = ? WHERE id = ? AND valid_until IS NULL`)
+        .run(validFrom, oldId);
+      return this.insertFact({ ...fact, supersedes: oldId, validFrom });
+    });
+    return supersede();
+  }
+
   async updateFact(id: string, updates: Partial<Omit<UserFact, 'id' | 'phoneNumber'>>): Promise<void> {
     const updateFields: string[] = [];
     const values: (string | number | null)[] = [];
@@ -274,6 +377,18 @@ export class SqliteMemoryStore implements MemoryStore {
       updateFields.push('extracted_at = ?');
       values.push(updates.extractedAt);
     }
+    if (updates.reinforcementCount !== undefined) {
+      updateFields.push('reinforcement_count = ?');
+      values.push(updates.reinforcementCount);
+    }
+    if (updates.lastDecayedAt !== undefined) {
+      updateFields.push('last_decayed_at = ?');
+      values.push(updates.lastDecayedAt ?? null);
+    }
+    if (updates.validUntil !== undefined) {
+      updateFields.push('valid_until = ?');
+      values.push(updates.validUntil ?? null);
+    }
 
     if (updateFields.length === 0) {
       return; // Nothing to update
@@ -290,14 +405,115 @@ export class SqliteMemoryStore implements MemoryStore {
     this.db
       .prepare(`DELETE FROM user_facts WHERE id = ?`)
       .run(id);
+    this.db
+      .prepare(`DELETE FROM user_fact_embeddings WHERE fact_id = ?`)
+      .run(id);
+    this.db
+      .prepare(`DELETE FROM user_fact_adjustments WHERE fact_id = ?`)
+      .run(id);
+  }
+
+  async deleteAllFacts(phoneNumber: string): Promise<number> {
+    const transaction = this.db.transaction(() => {
+      const factIds = `SELECT id FROM user_facts WHERE phone_number = ?`;
+      this.db
+        .prepare(`DELETE FROM user_fact_embeddings WHERE fact_id IN (${factIds})`)
+        .run(phoneNumber);
+      this.db
+        .prepare(`DELETE FROM user_fact_adjustments WHERE fact_id IN (${factIds})`)
+        .run(phoneNumber);
+      return this.db
+        .prepare(`DELETE FROM user_facts WHERE phone_number = ?`)
+        .run(phoneNumber).changes;
+    });
+    return transaction();
+  }
+
+  async adjustConfidence(
+    adjustment: Omit<FactAdjustment, 'id' | 'phoneNumber' | 'previousConfidence'>
+  ): Promise<FactAdjustment | null> {
+    const adjust = this.db.transaction((): FactAdjustment | null => {
+      const row = this.db
+        .prepare(`SELECT phone_number, confidence FROM user_facts WHERE id = ?`)
+        .get(adjustment.factId) as { phone_number: string; confidence: number | null } | undefined;
+      if (!row) {
+        return null;
+      }
+
+      const recorded: FactAdjustment = {
+        id: randomUUID(),
+        phoneNumber: row.phone_number,
+        previousConfidence: row.confidence ?? 0.5,
+        ...adjustment,
+      };
+
+      if (adjustment.kind === 'decay') {
+        this.db
+          .prepare(`UPDATE user_facts SET confidence = ?, last_decayed_at = ? WHERE id = ?`)
+          .run(adjustment.newConfidence, adjustment.createdAt, adjustment.factId);
+      } else {
+        this.db
+          .prepare(`UPDATE user_facts SET confidence = ? WHERE id = ?`)
+          .run(adjustment.newConfidence, adjustment.factId);
+      }
+      this.db
+        .prepare(
+          `INSERT INTO user_fact_adjustments
+             (id, fact_id, phone_number, kind, previous_confidence, new_confidence, reason, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          recorded.id,
+          recorded.factId,
+          recorded.phoneNumber,
+          recorded.kind,
+          recorded.previousConfidence,
+          recorded.newConfidence,
+          recorded.reason ?? null,
+          recorded.createdAt
+        );
+      return recorded;
+    });
+    return adjust();
+  }
+
+  async getFactAdjustments(factId: string): Promise<FactAdjustment[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT id, fact_id, phone_number, kind, previous_confidence, new_confidence, reason, created_at
+         FROM user_fact_adjustments
+         WHERE fact_id = ?
+         ORDER BY created_at DESC, rowid DESC`
+      )
+      .all(factId) as Array<{
+      id: string;
+      fact_id: string;
+      phone_number: string;
+      kind: string;
+      previous_confidence: number;
+      new_confidence: number;
+      reason: string | null;
+      created_at: number;
+    }>;
+
+    return rows.map((row) => ({
+      id: row.id,
+      factId: row.fact_id,
+      phoneNumber: row.phone_number,
+      kind: row.kind as FactAdjustmentKind,
+      previousConfidence: row.previous_confidence,
+      newConfidence: row.new_confidence,
+      reason: row.reason ?? undefined,
+      createdAt: row.created_at,
+    }));
   }
 
   /**
    * Delete stale observations (low-confidence facts older than 180 days).
    *
    * This cleanup prevents the database from accumulating tentative facts
-   * that were never reinforced. Established facts (confidence >= 0.6) are
-   * never deleted by this method.
+   * that were never reinforced. Established facts (confidence >= 0.6) and
+   * superseded facts (kept for history) are never deleted by this method.
    *
    * Should be called periodically (e.g., daily via scheduler).
    *
@@ -309,12 +525,49 @@ export class SqliteMemoryStore implements MemoryStore {
       .prepare(
         `DELETE FROM user_facts
          WHERE confidence < 0.6
-           AND extracted_at < ?`
+           AND extracted_at < ?
+           AND valid_until IS NULL`
       )
       .run(cutoff);
+    this.db
+      .prepare(`DELETE FROM user_fact_embeddings WHERE fact_id NOT IN (SELECT id FROM user_facts)`)
+      .run();
+    this.db
+      .prepare(`DELETE FROM user_fact_adjustments WHERE fact_id NOT IN (SELECT id FROM user_facts)`)
+      .run();
     return result.changes;
   }
 
+  async getFactEmbeddings(phoneNumber: string, embeddingId: string): Promise<Map<string, Float32Array>> {
+    const rows = this.db
+      .prepare(
+        `SELECT e.fact_id, e.vector
+         FROM user_fact_embeddings e
+         JOIN user_facts f ON f.id = e.fact_id
+         WHERE f.phone_number = ? AND e.embedding_id = ? AND e.text = f.fact`
+      )
+      .all(phoneNumber, embeddingId) as Array<{ fact_id: string; vector: Buffer }>;
+
+    const vectors = new Map<string, Float32Array>();
+    for (const row of rows) {
+      // Copy out of the row buffer: Float32Array needs 4-byte alignment
+      const bytes = row.vector.buffer.slice(row.vector.byteOffset, row.vector.byteOffset + row.vector.byteLength);
+      vectors.set(row.fact_id, new Float32Array(bytes));
+    }
+    return vectors;
+  }
+
+  async saveFactEmbedding(factId: string, embeddingId: string, text: string, vector: Float32Array): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO user_fact_embeddings (fact_id, embedding_id, text, vector, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(fact_id, embedding_id) DO UPDATE SET
+           text = excluded.text, vector = excluded.vector, updated_at = excluded.updated_at`
+      )
+      .run(factId, embeddingId, text, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength), Date.now());
+  }
+
   /** Close the database connection. */
   close(): void {
     this.db.close();
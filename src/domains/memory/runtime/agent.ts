@@ -26,6 +26,7 @@
  * - View stored facts
  * - Update existing facts
  * - Delete facts
+ * - Report usage against the user's budgets (get_usage)
  */
 
 import type { AgentCapability, StepResult, AgentExecutionContext } from '../../../executor/types.js';
@@ -41,6 +42,7 @@ const MEMORY_TOOLS = [
   'list_memories',
   'update_memory',
   'remove_memory',
+  'get_usage',
 ];
 
 /**
@@ -48,14 +50,17 @@ const MEMORY_TOOLS = [
  */
 export const capability: AgentCapability = {
   name: 'memory-agent',
-  description: 'Manages user memory and facts. Use for storing, viewing, or deleting personal facts.',
+  description: 'Manages user memory and facts. Use for storing, viewing, or deleting personal facts, and for reporting how much of their usage budget the user has used.',
   tools: MEMORY_TOOLS,
   examples: [
     'Remember that I like black coffee',
     'What do you know about me?',
     'Forget that I have a cat',
     'Update my preference to decaf',
+    'How much have I used this month?',
   ],
+  // Short fact lookups and edits
+  modelTier: 'fast',
 };
 
 /**
@@ -1,8 +1,9 @@
 /**
  * @fileoverview Memory domain runtime entry point.
  *
- * Re-exports the memory store factory and types from the service layer.
+ * Re-exports the memory store factory, fact retrieval and types from the service layer.
  */
 
 export { getMemoryStore, resetMemoryStore, closeMemoryStore } from '../service/store.js';
+export { rankFactsForMessage } from '../service/retrieval.js';
 export type { MemoryStore, UserFact } from '../service/store.js';
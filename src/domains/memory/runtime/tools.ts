@@ -56,12 +56,13 @@ export const extractMemory: ToolDefinition = {
 };
 
 /**
- * List stored facts.
+ * List stored facts, optionally with the facts they superseded.
  */
 export const listMemories: ToolDefinition = {
   tool: {
     name: 'list_memories',
-    description: 'List stored facts about the user.',
+    description: 'List stored facts about the user. Set include_history to also get facts that were replaced by newer ones '
+      + '(e.g. a previous city or job), to answer questions like "where did I used to live?".',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -69,6 +70,10 @@ export const listMemories: ToolDefinition = {
           type: 'number',
           description: 'Maximum number of facts to return (default 20)',
         },
+        include_history: {
+          type: 'boolean',
+          description: 'Also return superseded facts, each with validUntil and the fact that replaced it (default false)',
+        },
       },
     },
   },
@@ -77,17 +82,37 @@ export const listMemories: ToolDefinition = {
 
     const validationError = validateInput(input, {
       limit: { type: 'number', required: false },
+      include_history: { type: 'boolean', required: false },
     });
     if (validationError) return validationError;
 
-    const { limit = 20 } = input as { limit?: number };
+    const { limit = 20, include_history: includeHistory = false } = input as {
+      limit?: number;
+      include_history?: boolean;
+    };
+    const cap = Math.min(Math.max(limit ?? 20, 1), 100);
 
     const store = getMemoryStore();
     const allFacts = await store.getFacts(phoneNumber);
     // Apply limit client-side since the interface doesn't support it
-    const facts = allFacts.slice(0, Math.min(Math.max(limit ?? 20, 1), 100));
-
-    return { success: true, facts };
+    const facts = allFacts.slice(0, cap);
+
+    if (!includeHistory) {
+      return { success: true, facts };
+    }
+
+    const superseded = await store.getFactHistory(phoneNumber);
+    const replacements = new Map(
+      [...allFacts, ...superseded]
+        .filter((fact) => fact.supersedes)
+        .map((fact) => [fact.supersedes, fact.fact])
+    );
+    const history = superseded.slice(0, cap).map((fact) => ({
+      ...fact,
+      replacedBy: replacements.get(fact.id),
+    }));
+
+    return { success: true, facts, history };
   },
 };
 
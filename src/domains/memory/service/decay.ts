@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Confidence decay and promotion of stored facts.
+ *
+ * Runs on the memory processor poller, at most once per
+ * MEMORY_DECAY_INTERVAL_MS (default daily):
+ *
+ * - **Decay**: inferred facts that haven't been reinforced for
+ *   `DECAY_GRACE_DAYS` lose confidence exponentially toward the floor (0.3),
+ *   halving their distance to it every half-life. Half-lives depend on the
+ *   category, so a health fact fades far slower than an interest;
+ *   MEMORY_DECAY_HALF_LIFE_DAYS overrides them ("health:365,interests:60").
+ *   Explicit facts never decay.
+ * - **Promotion**: facts reinforced `PROMOTION_REINFORCEMENTS` times or more
+ *   are raised to the established threshold, and from then on decay no lower
+ *   than it.
+ *
+ * Decay is applied incrementally from the fact's `lastDecayedAt`, so running
+ * more or less often yields the same curve. Changes smaller than
+ * `MIN_DECAY_STEP` are left to accumulate until the next run. Every change is
+ * recorded as a fact adjustment (see MemoryStore.adjustConfidence), as is
+ * each reinforcement by the processor.
+ *
+ * Observations that decay to the floor are eventually removed by
+ * deleteStaleObservations().
+ */
+
+import config from '../../../config.js';
+import { getMemoryStore } from './store.js';
+import { ESTABLISHED_CONFIDENCE_THRESHOLD } from './ranking.js';
+import type { FactCategory } from './prompts.js';
+import type { MemoryStore, UserFact } from '../types.js';
+import { createLogger } from '../../../utils/observability/index.js';
+
+const log = createLogger({ domain: 'memory-decay' });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Default days for an unreinforced inferred fact to lose half its confidence above the floor */
+export const DEFAULT_DECAY_HALF_LIFE_DAYS: Record<FactCategory, number> = {
+  health: 365,
+  relationships: 365,
+  personal: 270,
+  work: 180,
+  recurring: 120,
+  preferences: 120,
+  behavioral: 90,
+  interests: 90,
+  other: 90,
+  context: 45,
+};
+
+/** Days after the last reinforcement before decay starts */
+export const DECAY_GRACE_DAYS = 14;
+
+/** Lowest confidence decay can reach (the bottom of the confidence scale) */
+export const DECAY_FLOOR = 0.3;
+
+/** Reinforcements after which a fact is promoted to established */
+export const PROMOTION_REINFORCEMENTS = 3;
+
+/** Smallest confidence change worth applying */
+export const MIN_DECAY_STEP = 0.01;
+
+export interface DecayResult {
+  checked: number;
+  decayed: number;
+  promoted: number;
+}
+
+export interface DecayOptions {
+  store?: MemoryStore;
+  nowMs?: number;
+}
+
+/**
+ * Half-life in days for a category, with MEMORY_DECAY_HALF_LIFE_DAYS
+ * overrides applied. Uncategorized facts use the 'other' curve.
+ */
+export function getDecayHalfLifeDays(category?: string): number {
+  const key = category && category in DEFAULT_DECAY_HALF_LIFE_DAYS ? category : 'other';
+  return config.memory.decayHalfLifeDays[key] ?? DEFAULT_DECAY_HALF_LIFE_DAYS[key as FactCategory];
+}
+
+/**
+ * Confidence of a fact after decaying up to `nowMs`.
+ * Returns the current confidence when the fact doesn't decay.
+ */
+export function decayedConfidence(fact: UserFact, nowMs: number, halfLifeDays: number): number {
+  if (fact.sourceType !== 'inferred') {
+    return fact.confidence;
+  }
+
+  const floor = (fact.reinforcementCount ?? 0) >= PROMOTION_REINFORCEMENTS
+    ? ESTABLISHED_CONFIDENCE_THRESHOLD
+    : DECAY_FLOOR;
+  if (fact.confidence <= floor) {
+    return fact.confidence;
+  }
+
+  const graceEndsAt = (fact.lastReinforcedAt ?? fact.extractedAt) + DECAY_GRACE_DAYS * DAY_MS;
+  const decayFrom = Math.max(graceEndsAt, fact.lastDecayedAt ?? 0);
+  const elapsedDays = (nowMs - decayFrom) / DAY_MS;
+  if (elapsedDays <= 0) {
+    return fact.confidence;
+  }
+
+  return floor + (fact.confidence - floor) * Math.pow(0.5, elapsedDays / halfLifeDays);
+}
+
+/**
+ * Apply promotion and decay to every current fact.
+ */
+export async function runConfidenceDecay(options: DecayOptions = {}): Promise<DecayResult> {
+  const store = options.store ?? getMemoryStore();
+  const nowMs = options.nowMs ?? Date.now();
+  const facts = (await store.getAllFacts()).filter((fact) => fact.validUntil === undefined);
+  const result: DecayResult = { checked: facts.length, decayed: 0, promoted: 0 };
+
+  for (const fact of facts) {
+    const reinforcements = fact.reinforcementCount ?? 0;
+    if (reinforcements >= PROMOTION_REINFORCEMENTS && fact.confidence < ESTABLISHED_CONFIDENCE_THRESHOLD) {
+      await store.adjustConfidence({
+        factId: fact.id,
+        kind: 'promotion',
+        newConfidence: ESTABLISHED_CONFIDENCE_THRESHOLD,
+        reason: `reinforced ${reinforcements} times`,
+        createdAt: nowMs,
+      });
+      result.promoted++;
+      continue;
+    }
+
+    const halfLifeDays = getDecayHalfLifeDays(fact.category);
+    const confidence = decayedConfidence(fact, nowMs, halfLifeDays);
+    if (fact.confidence - confidence < MIN_DECAY_STEP) {
+      continue;
+    }
+
+    await store.adjustConfidence({
+      factId: fact.id,
+      kind: 'decay',
+      newConfidence: Math.round(confidence * 1000) / 1000,
+      reason: `not reinforced since ${new Date(fact.lastReinforcedAt ?? fact.extractedAt).toISOString().slice(0, 10)} `
+        + `(${fact.category ?? 'other'}, half-life ${halfLifeDays} days)`,
+      createdAt: nowMs,
+    });
+    result.decayed++;
+  }
+
+  log.info('decay_completed', { ...result });
+  return result;
+}
+
+let lastRunAt: number | null = null;
+
+/**
+ * Run confidence decay if MEMORY_DECAY_INTERVAL_MS has passed since the last
+ * run in this process. Returns null when it isn't due yet.
+ */
+export async function runConfidenceDecayIfDue(nowMs = Date.now()): Promise<DecayResult | null> {
+  if (lastRunAt !== null && nowMs - lastRunAt < config.memory.decayIntervalMs) {
+    return null;
+  }
+  lastRunAt = nowMs;
+  return runConfidenceDecay({ nowMs });
+}
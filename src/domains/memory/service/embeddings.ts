@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Embedding providers for semantic memory retrieval.
+ *
+ * MEMORY_EMBEDDING_PROVIDER picks the provider:
+ *
+ * | Provider | Vectors | Notes |
+ * |----------|---------|-------|
+ * | `local` (default) | Feature-hashed words and word parts, 512 dims | Offline and free. Lexical, not semantic: matches shared words and word forms ("dog" / "dogs"), not synonyms or related ideas ("shrimp" / "seafood"), so its similarity weighs less in ranking |
+ * | `gemini` | Gemini embedding model (MEMORY_EMBEDDING_MODEL) | True semantic similarity; needs GEMINI_API_KEY |
+ * | `none` | - | Retrieval off: facts are ranked by confidence and recency only |
+ *
+ * Singleton pattern - returns the same instance on repeated calls.
+ */
+
+import config from '../../../config.js';
+import { createGeminiEmbeddingProvider } from '../providers/gemini-embeddings.js';
+import type { EmbeddingProvider } from '../types.js';
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+/** Words too common to say anything about relevance */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'has', 'have', 'he', 'her',
+  'his', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'she', 'that', 'the', 'their',
+  'they', 'this', 'to', 'user', 'was', 'what', 'when', 'where', 'who', 'with', 'you', 'your',
+]);
+
+/** Weight of each character trigram relative to a whole word */
+const TRIGRAM_WEIGHT = 0.3;
+
+/**
+ * 32-bit FNV-1a hash.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lowercased content words with plural "s" and "ing" endings removed.
+ * Trigrams cover the word forms this misses.
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => !STOPWORDS.has(word))
+    .map((word) => {
+      if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+      if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+      return word;
+    });
+}
+
+/**
+ * Embed text offline by hashing its words and character trigrams into a
+ * fixed-size, L2-normalized vector.
+ */
+export function embedLocally(text: string, dimensions = LOCAL_EMBEDDING_DIMENSIONS): Float32Array {
+  const vector = new Float32Array(dimensions);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign so collisions tend to cancel out
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const word of tokenize(text)) {
+    add(`w:${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * The offline embedding provider.
+ */
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    id: `local-hash-v1:${LOCAL_EMBEDDING_DIMENSIONS}`,
+    lexical: true,
+    embed: async (texts) => texts.map((text) => embedLocally(text)),
+  };
+}
+
+/**
+ * Cosine similarity of two vectors, 0 when either is empty or their sizes differ.
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+let instance: EmbeddingProvider | null | undefined;
+
+/**
+ * Get the configured embedding provider, or null when retrieval is off.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (instance !== undefined) {
+    return instance;
+  }
+
+  switch (config.memory.embeddingProvider) {
+    case 'none':
+      instance = null;
+      break;
+    case 'gemini':
+      instance = createGeminiEmbeddingProvider();
+      break;
+    default:
+      instance = createLocalEmbeddingProvider();
+  }
+  return instance;
+}
+
+/**
+ * Reset the embedding provider instance.
+ * Useful for tests.
+ */
+export function resetEmbeddingProvider(): void {
+  instance = undefined;
+}
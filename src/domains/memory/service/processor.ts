@@ -11,9 +11,16 @@
  *    b. Sends messages + existing facts to Claude for extraction
  *    c. Parses JSON response containing new facts
  *    d. Filters out duplicates (backup check)
- *    e. Stores new facts in MemoryStore
+ *    e. Stores new facts in MemoryStore, superseding any existing fact the
+ *       LLM flagged as contradicted (`replaces`)
  *    f. Marks messages as processed (so they won't be processed again)
- * 5. Failed batches are NOT marked as processed, allowing retry next cycle
+ * 5. Failed batches are NOT marked as processed, allowing retry next cycle;
+ *    neither are the messages of users over their usage budget, which wait
+ *    until the budget resets
+ * 6. Once a day (MEMORY_DECAY_INTERVAL_MS), unreinforced inferred facts lose
+ *    confidence and repeatedly reinforced ones are promoted (see decay.ts)
+ * 7. Facts without a vector from the embedding provider are embedded, so
+ *    messages don't have to (see retrieval.ts)
  *
  * ## Why Background Processing?
  *
@@ -24,17 +31,20 @@
  * @see ./prompts.ts for the extraction prompt and design decisions
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import type Anthropic from '@anthropic-ai/sdk';
 import config from '../../../config.js';
 import { getConversationStore, type ConversationMessage } from '../../../services/conversation/index.js';
+import { createMessage } from '../../../services/anthropic/index.js';
+import { isOverBudget } from '../../../services/usage/budget.js';
 import { getMemoryStore, type UserFact } from './store.js';
 import { createIntervalPoller, type Poller } from '../../../utils/poller.js';
 import { buildExtractionPrompt } from './prompts.js';
 import { writeDebugLog } from '../../../utils/trace-logger.js';
 import { clampConfidence } from './ranking.js';
+import { runConfidenceDecayIfDue } from './decay.js';
+import { embedMissingFacts } from './retrieval.js';
 import { createLogger, createRunId, redactPhone, withLogContext } from '../../../utils/observability/index.js';
 
-const client = new Anthropic({ apiKey: config.anthropicApiKey });
 const log = createLogger({ domain: 'memory-processor' });
 
 export interface ProcessingError {
@@ -55,6 +65,8 @@ interface ExtractedFact {
   confidence?: number;
   sourceType?: 'explicit' | 'inferred';
   evidence?: string;
+  /** Text of the existing fact this one contradicts */
+  replaces?: string;
 }
 
 interface ParsedFactsResult {
@@ -89,6 +101,7 @@ interface UserProcessingDebug {
   storedFacts: ExtractedFact[];
   duplicatesSkipped: number;
   reinforcedFacts: number;
+  supersededFacts: number;
   error?: string;
 }
 
@@ -211,12 +224,17 @@ function normalizeExtractedFact(item: unknown): ExtractedFact | null {
   const evidenceRaw = typeof record.evidence === 'string' ? record.evidence : undefined;
   const evidence = normalizeEvidence(evidenceRaw);
 
+  const replaces = typeof record.replaces === 'string' && record.replaces.trim().length > 0
+    ? record.replaces.trim()
+    : undefined;
+
   return {
     fact: factText,
     category,
     confidence,
     sourceType,
     evidence,
+    replaces,
   };
 }
 
@@ -316,7 +334,7 @@ function sleep(ms: number): Promise<void> {
  * 2. Build extraction prompt with messages + existing facts
  * 3. Call Claude to extract new facts
  * 4. Parse JSON response
- * 5. Store each non-duplicate fact
+ * 5. Store each non-duplicate fact, superseding the fact it `replaces`
  *
  * Note: We track facts added within this batch to prevent duplicates
  * if the LLM returns the same fact multiple times in one response.
@@ -329,6 +347,7 @@ async function processUserMessages(
 ): Promise<{
   factsExtracted: number;
   reinforcedFacts: number;
+  supersededFacts: number;
   assistantIncluded: number;
   parseFailures: number;
   llmErrors: number;
@@ -350,6 +369,7 @@ async function processUserMessages(
     return {
       factsExtracted: 0,
       reinforcedFacts: 0,
+      supersededFacts: 0,
       assistantIncluded,
       parseFailures: 0,
       llmErrors: 0,
@@ -366,6 +386,7 @@ async function processUserMessages(
         storedFacts: [],
         duplicatesSkipped: 0,
         reinforcedFacts: 0,
+        supersededFacts: 0,
       },
     };
   }
@@ -381,11 +402,11 @@ async function processUserMessages(
 
   for (let attempt = 0; attempt <= 1; attempt++) {
     try {
-      const response = await client.messages.create({
+      const response = await createMessage({
         model: config.memoryProcessor.modelId,
         max_tokens: 1024,
         messages: [{ role: 'user', content: prompt }],
-      });
+      }, { phoneNumber, purpose: 'memory' });
 
       responseText = response.content
         .filter((block): block is Anthropic.TextBlock => block.type === 'text')
@@ -420,6 +441,7 @@ async function processUserMessages(
   const storedFacts: ExtractedFact[] = [];
   let duplicatesSkipped = 0;
   let reinforcedFacts = 0;
+  let supersededFacts = 0;
   const seenInBatch = new Set<string>();
 
   // Store non-duplicate facts
@@ -433,9 +455,14 @@ async function processUserMessages(
     seenInBatch.add(normalizedKey);
 
     const existing = findSimilarFact(extracted.fact, existingFacts);
+    const contradicted = extracted.replaces
+      ? findSimilarFact(extracted.replaces, existingFacts)
+      : null;
+
     if (existing) {
       const reinforcedAt = now;
       const updatedConfidence = clampConfidence(existing.confidence + 0.1);
+      const reinforcementCount = (existing.reinforcementCount ?? 0) + 1;
       const updatedEvidence = buildReinforcedEvidence(
         existing.evidence,
         extracted.evidence,
@@ -443,26 +470,39 @@ async function processUserMessages(
       );
 
       await memoryStore.updateFact(existing.id, {
-        confidence: updatedConfidence,
         lastReinforcedAt: reinforcedAt,
+        reinforcementCount,
         evidence: updatedEvidence,
       });
+      await memoryStore.adjustConfidence({
+        factId: existing.id,
+        kind: 'reinforcement',
+        newConfidence: updatedConfidence,
+        reason: `mentioned again (${reinforcementCount} times)`,
+        createdAt: reinforcedAt,
+      });
 
       existing.confidence = updatedConfidence;
       existing.lastReinforcedAt = reinforcedAt;
+      existing.reinforcementCount = reinforcementCount;
       if (updatedEvidence) {
         existing.evidence = updatedEvidence;
       }
 
       duplicatesSkipped++;
       reinforcedFacts++;
+      // A restated fact can still close out the one it contradicts
+      if (contradicted && contradicted !== existing) {
+        await memoryStore.updateFact(contradicted.id, { validUntil: now });
+        existingFacts.splice(existingFacts.indexOf(contradicted), 1);
+        supersededFacts++;
+      }
       continue;
     }
 
     const confidence = clampConfidence(extracted.confidence ?? 0.5);
     const sourceType = extracted.sourceType ?? 'inferred';
-
-    await memoryStore.addFact({
+    const newFact = {
       phoneNumber,
       fact: extracted.fact,
       category: extracted.category,
@@ -471,7 +511,15 @@ async function processUserMessages(
       evidence: extracted.evidence,
       lastReinforcedAt: now,
       extractedAt: now,
-    });
+    };
+
+    if (contradicted) {
+      await memoryStore.supersedeFact(contradicted.id, newFact);
+      existingFacts.splice(existingFacts.indexOf(contradicted), 1);
+      supersededFacts++;
+    } else {
+      await memoryStore.addFact(newFact);
+    }
     storedFacts.push(extracted);
 
     existingFacts.push({
@@ -490,6 +538,7 @@ async function processUserMessages(
   return {
     factsExtracted: storedFacts.length,
     reinforcedFacts,
+    supersededFacts,
     assistantIncluded,
     parseFailures,
     llmErrors,
@@ -506,6 +555,7 @@ async function processUserMessages(
       storedFacts,
       duplicatesSkipped,
       reinforcedFacts,
+      supersededFacts,
     },
   };
 }
@@ -640,13 +690,17 @@ function formatDebugLog(data: DebugLogData): string {
     if (userResult.reinforcedFacts > 0) {
       lines.push(`  Facts reinforced: ${userResult.reinforcedFacts}`);
     }
+    if (userResult.supersededFacts > 0) {
+      lines.push(`  Facts superseded: ${userResult.supersededFacts}`);
+    }
     lines.push('');
 
     if (userResult.storedFacts.length > 0) {
       lines.push('  Stored facts:');
       for (const fact of userResult.storedFacts) {
         const category = fact.category || 'uncategorized';
-        lines.push(`    ✓ "${fact.fact}" (${category})`);
+        const replaces = fact.replaces ? ` replaces "${fact.replaces}"` : '';
+        lines.push(`    ✓ "${fact.fact}" (${category})${replaces}`);
       }
       lines.push('');
     }
@@ -706,6 +760,7 @@ export async function processUnprocessedMessages(): Promise<ProcessingResult> {
     parse_fail: 0,
     llm_error: 0,
     reinforced: 0,
+    superseded: 0,
     assistant_included: 0,
     stale_deleted: 0,
     poison: 0,
@@ -769,10 +824,20 @@ export async function processUnprocessedMessages(): Promise<ProcessingResult> {
   for (const [phoneNumber, userMessages] of messagesByUser) {
     const messageIds = userMessages.map((m) => m.id);
 
+    if (await isOverBudget(phoneNumber)) {
+      log.info('user_batch_deferred', {
+        phone: redactPhone(phoneNumber),
+        reason: 'usage_budget_exceeded',
+        messageCount: userMessages.length,
+      });
+      continue;
+    }
+
     try {
       const {
         factsExtracted,
         reinforcedFacts,
+        supersededFacts,
         assistantIncluded,
         parseFailures,
         llmErrors,
@@ -786,6 +851,7 @@ export async function processUnprocessedMessages(): Promise<ProcessingResult> {
       result.factsExtracted += factsExtracted;
       metrics.success += 1;
       metrics.reinforced += reinforcedFacts;
+      metrics.superseded += supersededFacts;
       metrics.assistant_included += assistantIncluded;
       metrics.parse_fail += parseFailures;
       metrics.llm_error += llmErrors;
@@ -834,6 +900,7 @@ export async function processUnprocessedMessages(): Promise<ProcessingResult> {
         storedFacts: [],
         duplicatesSkipped: 0,
         reinforcedFacts: 0,
+        supersededFacts: 0,
         error: errorMessage,
       });
 
@@ -878,7 +945,8 @@ let poller: Poller | null = null;
 
 /**
  * Start the memory processor.
- * Runs periodically to extract facts from unprocessed messages.
+ * Runs periodically to extract facts from unprocessed messages, and applies
+ * confidence decay when it is due (see decay.ts).
  */
 export function startMemoryProcessor(): void {
   if (!config.memoryProcessor.enabled) {
@@ -896,6 +964,8 @@ export function startMemoryProcessor(): void {
       const runId = createRunId('memory');
       await withLogContext({ runId }, async () => {
         await processUnprocessedMessages();
+        await runConfidenceDecayIfDue();
+        await embedMissingFacts();
       });
     },
     config.memoryProcessor.intervalMs
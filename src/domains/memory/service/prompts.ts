@@ -34,6 +34,13 @@
  * 2. Recognize when to reinforce an observation (bump confidence)
  * 3. Distinguish between confirmed patterns and single occurrences
  *
+ * ## Contradictions
+ *
+ * When a new fact contradicts an existing one ("Lives in Austin" vs
+ * "Lives in Seattle"), the LLM returns it with `replaces` set to the old
+ * fact's text. The processor then supersedes the old fact instead of
+ * storing both (see MemoryStore.supersedeFact).
+ *
  * ## Confidence Assignment Guidelines (in prompt)
  *
  * The prompt instructs the LLM to assign confidence based on:
@@ -80,6 +87,7 @@ const OBSERVATION_WINDOW_MS = 180 * 24 * 60 * 60 * 1000;
  *
  * This prompt instructs the LLM to:
  * - Extract NEW facts only (not duplicates of existing facts)
+ * - Flag new facts that contradict existing ones via `replaces`
  * - Focus on persistent information (not temporary states)
  * - Only extract from user messages (not assistant responses)
  * - Return atomic, self-contained facts in third person
@@ -208,6 +216,14 @@ NEVER extract these, even if mentioned multiple times:
 - Each fact must be atomic and self-contained
 - Write facts in third person
 
+## Contradictions
+
+If a new fact contradicts or updates an existing fact (moved to a new city, changed jobs,
+a relationship ended, a preference reversed), extract the new fact and set "replaces" to the
+existing fact's text exactly as it appears in Existing Knowledge (without the confidence and date).
+The old fact is kept as history, so don't restate it. Only use "replaces" when both facts
+cannot be true at the same time; a fact that adds detail is a separate fact.
+
 ## Existing Knowledge
 
 <established_facts>
@@ -235,7 +251,8 @@ Return ONLY valid JSON in this exact structure:
       "category": "preferences",
       "confidence": 0.6,
       "source_type": "explicit",
-      "evidence": "Short supporting snippet"
+      "evidence": "Short supporting snippet",
+      "replaces": "Existing fact text (only when contradicting one)"
     }
   ]
 }
@@ -258,6 +275,14 @@ Example with extractions:
   ]
 }
 
+Example with a contradiction (existing knowledge has "Lives in Seattle"):
+{
+  "reasoning": "User said they just moved to Austin, which contradicts the stored Seattle location.",
+  "facts": [
+    {"fact": "Lives in Austin", "category": "personal", "confidence": 0.8, "source_type": "explicit", "evidence": "User said 'we just moved to Austin'", "replaces": "Lives in Seattle"}
+  ]
+}
+
 Example with no extractions:
 {
   "reasoning": "Messages contain only greetings ('Hi', 'Hello') and task commands ('Create a list'). No personal facts, preferences, or persistent information to extract.",
@@ -27,8 +27,21 @@
  * This distinction affects:
  * - Selection order (facts first, then observations fill remaining space)
  * - Cleanup (observations older than 180 days are deleted)
+ * - Decay (see decay.ts): unreinforced inferred facts lose confidence over
+ *   time, and facts reinforced repeatedly are promoted to established
  * - Extraction prompts (shown separately to help LLM avoid duplicates)
  *
+ * ## Relevance
+ *
+ * When facts have been ranked against the current message (see retrieval.ts),
+ * each carries a `relevance` score blending semantic similarity with
+ * confidence and recency (`RELEVANCE_WEIGHTS`, or `LEXICAL_RELEVANCE_WEIGHTS`
+ * when the provider only matches words). Selection then takes the most
+ * relevant facts first, so a relevant observation can beat an unrelated
+ * established fact for the character budget.
+ *
+ * @see ./retrieval.ts for how facts are ranked against a message
+ * @see ./decay.ts for confidence decay and promotion
  * @see ./processor.ts for how confidence is assigned during extraction
  * @see ./sqlite.ts for cleanup of stale observations
  */
@@ -45,6 +58,32 @@ export const DEFAULT_FACT_CHAR_CAP = 4000;
  */
 export const ESTABLISHED_CONFIDENCE_THRESHOLD = 0.6;
 
+export interface RelevanceWeights {
+  similarity: number;
+  confidence: number;
+  recency: number;
+}
+
+/** Weights of the relevance score; they sum to 1. */
+export const RELEVANCE_WEIGHTS: RelevanceWeights = {
+  similarity: 0.6,
+  confidence: 0.25,
+  recency: 0.15,
+};
+
+/**
+ * Weights for lexical providers (the default `local` one). Word overlap is a
+ * weak signal, so it only reorders facts of similar confidence and recency.
+ */
+export const LEXICAL_RELEVANCE_WEIGHTS: RelevanceWeights = {
+  similarity: 0.2,
+  confidence: 0.5,
+  recency: 0.3,
+};
+
+/** Days after which a fact's recency score halves. */
+export const RECENCY_HALF_LIFE_DAYS = 90;
+
 /**
  * Normalize confidence to valid range [0.3, 1.0].
  *
@@ -69,6 +108,30 @@ function getRecencyMs(fact: UserFact): number {
   return fact.lastReinforcedAt ?? fact.extractedAt;
 }
 
+/**
+ * Recency score in (0, 1]: 1 when just reinforced, halving every
+ * RECENCY_HALF_LIFE_DAYS.
+ */
+export function recencyScore(fact: UserFact, nowMs: number): number {
+  const ageDays = Math.max(0, nowMs - getRecencyMs(fact)) / (24 * 60 * 60 * 1000);
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Blend a fact's similarity to the current message (negative values count
+ * as 0) with its confidence and recency into a 0-1 relevance score.
+ */
+export function blendRelevance(
+  similarity: number,
+  fact: UserFact,
+  nowMs: number,
+  weights: RelevanceWeights = RELEVANCE_WEIGHTS
+): number {
+  return weights.similarity * Math.max(0, Math.min(1, similarity))
+    + weights.confidence * clampConfidence(fact.confidence)
+    + weights.recency * recencyScore(fact, nowMs);
+}
+
 /**
  * Sort facts by confidence (descending), then by recency (descending).
  *
@@ -100,6 +163,9 @@ export function sortFactsByConfidenceAndRecency(facts: UserFact[]): UserFact[] {
  * This ensures high-confidence facts are always included before observations,
  * and within each category, the most confident and recent facts take priority.
  *
+ * Facts ranked against the current message (with `relevance` set) are instead
+ * taken in order of relevance, regardless of the established threshold.
+ *
  * @param facts - All facts to select from
  * @param render - Function to render a fact as a string (for character counting)
  * @param options - maxChars (default 4000), establishedThreshold (default 0.6)
@@ -135,8 +201,12 @@ export function selectFactsWithCharCap(
     }
   };
 
-  addFacts(established);
-  addFacts(observations);
+  if (facts.some((fact) => fact.relevance !== undefined)) {
+    addFacts([...facts].sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0)));
+  } else {
+    addFacts(established);
+    addFacts(observations);
+  }
 
   return { selected, totalChars };
 }
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Semantic retrieval of user facts for the current message.
+ *
+ * Facts are embedded with the configured provider (see embeddings.ts) and
+ * their vectors stored in the memory database. The memory processor poller
+ * backfills vectors for facts that don't have one yet (new, edited, or
+ * stored before retrieval existed) with embedMissingFacts(), so every write
+ * path is covered without hooks. A message only embeds a few of its user's
+ * newest missing facts itself (MAX_INLINE_EMBEDS); the rest are ranked with
+ * the average similarity until the poller gets to them.
+ *
+ * Each fact's `relevance` blends cosine similarity to the message with its
+ * confidence and recency (see ranking.ts). Facts are never dropped here:
+ * ranking only changes which ones fit the prompt's character budget.
+ */
+
+import { getMemoryStore } from './store.js';
+import { cosineSimilarity, getEmbeddingProvider } from './embeddings.js';
+import { blendRelevance, LEXICAL_RELEVANCE_WEIGHTS, RELEVANCE_WEIGHTS } from './ranking.js';
+import type { EmbeddingProvider, MemoryStore, UserFact } from '../types.js';
+import { createLogger, redactPhone } from '../../../utils/observability/index.js';
+
+const log = createLogger({ domain: 'memory-retrieval' });
+
+/** Most missing facts a message embeds before ranking; the poller embeds the rest */
+export const MAX_INLINE_EMBEDS = 10;
+
+/** Facts embedded per provider call when backfilling */
+export const BACKFILL_BATCH_SIZE = 50;
+
+/** Most facts one backfill run embeds, so a poll stays short */
+export const MAX_BACKFILL_PER_RUN = 500;
+
+export interface RankFactsOptions {
+  store?: MemoryStore;
+  /** Defaults to the configured provider; null disables ranking */
+  provider?: EmbeddingProvider | null;
+  nowMs?: number;
+}
+
+/**
+ * Rank a user's facts by relevance to a message, most relevant first, with
+ * `relevance` set on each. Returns the facts unchanged when retrieval is off
+ * or there is nothing to rank.
+ */
+export async function rankFactsForMessage(
+  facts: UserFact[],
+  message: string,
+  options: RankFactsOptions = {}
+): Promise<UserFact[]> {
+  const provider = options.provider === undefined ? getEmbeddingProvider() : options.provider;
+  if (!provider || facts.length === 0 || !message.trim()) {
+    return facts;
+  }
+
+  const store = options.store ?? getMemoryStore();
+  const nowMs = options.nowMs ?? Date.now();
+  const startTime = Date.now();
+
+  const phoneNumber = facts[0].phoneNumber;
+  const vectors = await store.getFactEmbeddings(phoneNumber, provider.id);
+  const missing = facts.filter((fact) => !vectors.has(fact.id));
+  const inline = [...missing]
+    .sort((a, b) => b.extractedAt - a.extractedAt)
+    .slice(0, MAX_INLINE_EMBEDS);
+  if (inline.length > 0) {
+    await embedAndSave(inline, provider, store, vectors);
+  }
+
+  const [queryVector] = await provider.embed([message], phoneNumber);
+  const similarities = new Map<string, number>();
+  for (const fact of facts) {
+    const vector = vectors.get(fact.id);
+    if (vector) {
+      similarities.set(fact.id, cosineSimilarity(queryVector, vector));
+    }
+  }
+  // Facts still waiting for a vector are neither favored nor buried
+  const known = [...similarities.values()];
+  const averageSimilarity = known.length > 0 ? known.reduce((sum, s) => sum + s, 0) / known.length : 0;
+  const weights = provider.lexical ? LEXICAL_RELEVANCE_WEIGHTS : RELEVANCE_WEIGHTS;
+
+  const ranked = facts
+    .map((fact) => {
+      const similarity = similarities.get(fact.id) ?? averageSimilarity;
+      return { ...fact, relevance: blendRelevance(similarity, fact, nowMs, weights) };
+    })
+    .sort((a, b) => b.relevance - a.relevance);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Ranked facts for message',
+    provider: provider.id,
+    facts: facts.length,
+    newlyEmbedded: inline.length,
+    awaitingEmbedding: missing.length - inline.length,
+    durationMs: Date.now() - startTime,
+    timestamp: new Date().toISOString(),
+  }));
+
+  return ranked;
+}
+
+/**
+ * Embed facts in one provider call and store their vectors.
+ */
+async function embedAndSave(
+  facts: UserFact[],
+  provider: EmbeddingProvider,
+  store: MemoryStore,
+  vectors?: Map<string, Float32Array>
+): Promise<void> {
+  const embedded = await provider.embed(facts.map((fact) => fact.fact), facts[0].phoneNumber);
+  for (let i = 0; i < facts.length; i++) {
+    vectors?.set(facts[i].id, embedded[i]);
+    await store.saveFactEmbedding(facts[i].id, provider.id, facts[i].fact, embedded[i]);
+  }
+}
+
+export interface BackfillOptions {
+  store?: MemoryStore;
+  /** Defaults to the configured provider; null skips the backfill */
+  provider?: EmbeddingProvider | null;
+  limit?: number;
+}
+
+export interface BackfillResult {
+  users: number;
+  embedded: number;
+}
+
+/**
+ * Embed current facts that have no vector from the provider yet, in
+ * batches, up to `limit` facts (MAX_BACKFILL_PER_RUN) per run. Runs on the
+ * memory processor poller; a user whose batch fails is retried next poll.
+ */
+export async function embedMissingFacts(options: BackfillOptions = {}): Promise<BackfillResult> {
+  const provider = options.provider === undefined ? getEmbeddingProvider() : options.provider;
+  const result: BackfillResult = { users: 0, embedded: 0 };
+  if (!provider) {
+    return result;
+  }
+
+  const store = options.store ?? getMemoryStore();
+  let remaining = options.limit ?? MAX_BACKFILL_PER_RUN;
+
+  const byUser = new Map<string, UserFact[]>();
+  for (const fact of await store.getAllFacts()) {
+    if (fact.validUntil !== undefined) continue;
+    const list = byUser.get(fact.phoneNumber) ?? [];
+    list.push(fact);
+    byUser.set(fact.phoneNumber, list);
+  }
+
+  for (const [phoneNumber, facts] of byUser) {
+    if (remaining <= 0) break;
+
+    const vectors = await store.getFactEmbeddings(phoneNumber, provider.id);
+    const missing = facts.filter((fact) => !vectors.has(fact.id)).slice(0, remaining);
+    if (missing.length === 0) continue;
+
+    try {
+      for (let i = 0; i < missing.length; i += BACKFILL_BATCH_SIZE) {
+        const batch = missing.slice(i, i + BACKFILL_BATCH_SIZE);
+        await embedAndSave(batch, provider, store);
+        result.embedded += batch.length;
+        remaining -= batch.length;
+      }
+      result.users++;
+    } catch (error) {
+      log.warn('backfill_user_failed', {
+        phone: redactPhone(phoneNumber),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (result.embedded > 0) {
+    log.info('backfill_completed', { provider: provider.id, ...result });
+  }
+  return result;
+}
@@ -34,10 +34,75 @@ export interface UserFact {
   /** Unix timestamp (milliseconds) when this fact was last reinforced */
   lastReinforcedAt?: number;
 
+  /** How many times the fact was mentioned again after extraction */
+  reinforcementCount?: number;
+
+  /** Unix timestamp (milliseconds) of the last confidence decay applied */
+  lastDecayedAt?: number;
+
   /** Unix timestamp (milliseconds) when this fact was extracted */
   extractedAt: number;
 
-  // Phase 2: embedding?: Float32Array;
+  /** ID of the older fact this one replaced ("Lives in Austin" superseding "Lives in Seattle") */
+  supersedes?: string;
+
+  /** Unix timestamp (milliseconds) from which this fact holds; defaults to extractedAt */
+  validFrom?: number;
+
+  /**
+   * Unix timestamp (milliseconds) when a newer fact superseded this one.
+   * Set only on superseded facts, which are kept for history but never
+   * returned by getFacts() or injected into prompts.
+   */
+  validUntil?: number;
+
+  /**
+   * Relevance to the current message (0-1), blending semantic similarity with
+   * confidence and recency. Set by rankFactsForMessage(); never stored.
+   * Fact selection orders by it when present.
+   */
+  relevance?: number;
+}
+
+/** Why a fact's confidence changed. */
+export type FactAdjustmentKind = 'reinforcement' | 'decay' | 'promotion';
+
+/**
+ * A recorded change to a fact's confidence.
+ */
+export interface FactAdjustment {
+  id: string;
+  factId: string;
+  phoneNumber: string;
+  kind: FactAdjustmentKind;
+  previousConfidence: number;
+  newConfidence: number;
+  /** Short human-readable explanation, e.g. "decayed over 30 days (interests)" */
+  reason?: string;
+  /** Unix timestamp (milliseconds) */
+  createdAt: number;
+}
+
+/**
+ * Turns text into vectors for semantic retrieval.
+ * Vectors from different providers (or models) are not comparable, so
+ * stored vectors are keyed by `id`.
+ */
+export interface EmbeddingProvider {
+  /** Provider and model, e.g. "local-hash-v1" or "gemini:text-embedding-004" */
+  id: string;
+
+  /**
+   * True when vectors only capture shared words, not meaning. Similarity
+   * then weighs less in relevance (see LEXICAL_RELEVANCE_WEIGHTS).
+   */
+  lexical?: boolean;
+
+  /**
+   * Embed each text; returns one vector per input, in order.
+   * `phoneNumber` is the user paid API calls are recorded for.
+   */
+  embed(texts: string[], phoneNumber?: string): Promise<Float32Array[]>;
 }
 
 /**
@@ -50,13 +115,19 @@ export interface UserFact {
  */
 export interface MemoryStore {
   /**
-   * Get all facts for a user, ordered by extraction time (newest first).
+   * Get a user's current facts, ordered by extraction time (newest first).
+   * Superseded facts are excluded (see getFactHistory).
    */
   getFacts(phoneNumber: string): Promise<UserFact[]>;
 
   /**
-   * Get all facts across all users, ordered by extraction time (newest first).
-   * Used by admin tools.
+   * Get a user's superseded facts, most recently superseded first.
+   */
+  getFactHistory(phoneNumber: string): Promise<UserFact[]>;
+
+  /**
+   * Get all facts across all users, superseded ones included, ordered by
+   * extraction time (newest first). Used by admin tools.
    */
   getAllFacts(): Promise<UserFact[]>;
 
@@ -73,14 +144,55 @@ export interface MemoryStore {
    */
   updateFact(id: string, updates: Partial<Omit<UserFact, 'id' | 'phoneNumber'>>): Promise<void>;
 
+  /**
+   * Store a fact that replaces an existing one: the new fact records
+   * `supersedes` and `validFrom`, and the old fact gets `validUntil`.
+   * @returns The created fact with generated ID
+   */
+  supersedeFact(oldId: string, fact: Omit<UserFact, 'id' | 'supersedes'>): Promise<UserFact>;
+
   /**
    * Delete a fact by ID.
    */
   deleteFact(id: string): Promise<void>;
 
+  /**
+   * Delete every fact of a user, superseded versions included, with their
+   * embeddings and confidence adjustments.
+   * Returns number of facts deleted.
+   */
+  deleteAllFacts(phoneNumber: string): Promise<number>;
+
+  /**
+   * Set a fact's confidence and record the change.
+   * Decay adjustments also set the fact's `lastDecayedAt` to `createdAt`.
+   * @returns The recorded adjustment, or null if the fact doesn't exist
+   */
+  adjustConfidence(
+    adjustment: Omit<FactAdjustment, 'id' | 'phoneNumber' | 'previousConfidence'>
+  ): Promise<FactAdjustment | null>;
+
+  /**
+   * Get the recorded confidence adjustments of a fact, newest first.
+   */
+  getFactAdjustments(factId: string): Promise<FactAdjustment[]>;
+
   /**
    * Delete stale low-confidence observations.
    * Returns number of rows deleted.
    */
   deleteStaleObservations(): Promise<number>;
+
+  /**
+   * Get stored embedding vectors for a user's facts, keyed by fact ID.
+   * Only vectors from `embeddingId` that were computed from the fact's
+   * current text are returned.
+   */
+  getFactEmbeddings(phoneNumber: string, embeddingId: string): Promise<Map<string, Float32Array>>;
+
+  /**
+   * Store (or replace) the embedding vector of a fact.
+   * @param text The fact text the vector was computed from
+   */
+  saveFactEmbedding(factId: string, embeddingId: string, text: string, vector: Float32Array): Promise<void>;
 }
@@ -5,5 +5,13 @@ export const capability: DomainCapability = {
   exposure: 'agent',
   agentId: 'scheduler-agent',
   agentModule: './runtime/agent.js',
-  tools: ['create_scheduled_job', 'list_scheduled_jobs', 'update_scheduled_job', 'delete_scheduled_job'],
+  tools: [
+    'create_scheduled_job',
+    'list_scheduled_jobs',
+    'update_scheduled_job',
+    'delete_scheduled_job',
+    'snooze_reminder',
+    'pause_job_until',
+    'skip_next_occurrence',
+  ],
 };
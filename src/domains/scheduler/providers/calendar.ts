@@ -0,0 +1,5 @@
+/**
+ * Calendar domain bridge — re-exports event listing for calendar-triggered jobs.
+ */
+export { listEventsAcrossCalendars } from '../../calendar/service/calendars.js';
+export type { CalendarEvent } from '../../calendar/types.js';
@@ -3,11 +3,29 @@
  *
  * Provides CRUD operations for the scheduled_jobs table.
  * Uses pre-computed next_run_at for efficient polling.
+ * Each execution is recorded in scheduled_job_runs.
+ * Calendar events a calendar_event job has fired for are kept in
+ * scheduled_trigger_events.
  */
 
 import type Database from 'better-sqlite3';
 import { randomUUID } from 'crypto';
-import type { ScheduledJob, CreateJobInput, JobUpdates } from '../types.js';
+import type {
+  ScheduledJob,
+  CreateJobInput,
+  JobUpdates,
+  JobRun,
+  JobRunOutcome,
+  JobRunStatus,
+  MisfirePolicy,
+  SentReminder,
+  MessageChannel,
+  TriggerType,
+  CalendarEventFilter,
+} from '../types.js';
+
+/** Characters of the sent message kept with each run */
+const OUTPUT_PREVIEW_CHARS = 200;
 
 /**
  * Database row shape for scheduled_jobs table.
@@ -25,14 +43,64 @@ interface ScheduledJobRow {
   last_run_at: number | null;
   enabled: number;
   is_recurring: number;
+  consecutive_failures: number | null;
+  disabled_reason: string | null;
+  misfire_policy: string | null;
+  misfire_grace_minutes: number | null;
+  paused_until: number | null;
+  skip_next_at: number | null;
+  snoozed_from: string | null;
+  trigger_type: string | null;
+  event_offset_minutes: number | null;
+  event_title_contains: string | null;
+  event_has_location: number | null;
+  condition_prompt: string | null;
   created_at: number;
   updated_at: number;
 }
 
+/**
+ * Database row shape for scheduled_last_reminders table.
+ */
+interface SentReminderRow {
+  phone_number: string;
+  job_id: string;
+  channel: string;
+  user_request: string | null;
+  prompt: string;
+  skill_name: string | null;
+  timezone: string;
+  sent_at: number;
+}
+
+/**
+ * Database row shape for scheduled_job_runs table.
+ */
+interface JobRunRow {
+  id: number;
+  job_id: string;
+  phone_number: string;
+  started_at: number;
+  finished_at: number | null;
+  status: string;
+  error: string | null;
+  output_preview: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+}
+
 /**
  * Convert database row to ScheduledJob type.
  * Boundary: fail fast if required fields are null/missing (data corruption).
  */
+function rowToEventFilter(row: ScheduledJobRow): CalendarEventFilter | undefined {
+  if (row.event_title_contains === null && row.event_has_location === null) return undefined;
+  return {
+    ...(row.event_title_contains !== null ? { titleContains: row.event_title_contains } : {}),
+    ...(row.event_has_location !== null ? { hasLocation: row.event_has_location === 1 } : {}),
+  };
+}
+
 function rowToJob(row: ScheduledJobRow): ScheduledJob {
   if (!row.id || !row.phone_number || !row.prompt || !row.cron_expression || !row.timezone) {
     throw new Error(
@@ -56,11 +124,38 @@ function rowToJob(row: ScheduledJobRow): ScheduledJob {
     lastRunAt: row.last_run_at ?? undefined,
     enabled: row.enabled === 1,
     isRecurring: row.is_recurring === 1,
+    consecutiveFailures: row.consecutive_failures ?? 0,
+    disabledReason: row.disabled_reason ?? undefined,
+    misfirePolicy: (row.misfire_policy as MisfirePolicy | null) ?? undefined,
+    misfireGraceMinutes: row.misfire_grace_minutes ?? undefined,
+    pausedUntil: row.paused_until ?? undefined,
+    skipNextAt: row.skip_next_at ?? undefined,
+    snoozedFrom: row.snoozed_from ?? undefined,
+    // Jobs created before trigger types are cron or once
+    triggerType: (row.trigger_type as TriggerType | null) ?? (row.is_recurring === 1 ? 'cron' : 'once'),
+    eventOffsetMinutes: row.event_offset_minutes ?? undefined,
+    eventFilter: rowToEventFilter(row),
+    conditionPrompt: row.condition_prompt ?? undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
+function rowToRun(row: JobRunRow): JobRun {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    phoneNumber: row.phone_number,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at ?? undefined,
+    status: row.status as JobRunStatus,
+    error: row.error ?? undefined,
+    outputPreview: row.output_preview ?? undefined,
+    inputTokens: row.input_tokens ?? undefined,
+    outputTokens: row.output_tokens ?? undefined,
+  };
+}
+
 /**
  * Initialize the scheduled_jobs table.
  * Call this on app startup.
@@ -87,6 +182,43 @@ export function initSchedulerDb(db: Database.Database): void {
       ON scheduled_jobs(enabled, next_run_at);
     CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_phone
       ON scheduled_jobs(phone_number);
+
+    CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id TEXT NOT NULL,
+      phone_number TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER,
+      status TEXT NOT NULL,
+      error TEXT,
+      output_preview TEXT,
+      input_tokens INTEGER,
+      output_tokens INTEGER
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job
+      ON scheduled_job_runs(job_id, started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_started
+      ON scheduled_job_runs(started_at DESC);
+
+    CREATE TABLE IF NOT EXISTS scheduled_last_reminders (
+      phone_number TEXT PRIMARY KEY,
+      job_id TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      user_request TEXT,
+      prompt TEXT NOT NULL,
+      skill_name TEXT,
+      timezone TEXT NOT NULL,
+      sent_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS scheduled_trigger_events (
+      job_id TEXT NOT NULL,
+      event_key TEXT NOT NULL,
+      event_start INTEGER NOT NULL,
+      fired_at INTEGER NOT NULL,
+      PRIMARY KEY (job_id, event_key)
+    );
   `);
 
   // Migration: add channel column if it doesn't exist (for existing databases)
@@ -110,6 +242,74 @@ export function initSchedulerDb(db: Database.Database): void {
   } catch {
     // Column already exists, ignore
   }
+
+  // Migration: failure tracking for auto-disable
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0`);
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN disabled_reason TEXT`);
+  } catch {
+    // Column already exists, ignore
+  }
+
+  // Migration: per-job misfire policy (NULL = default for the job type)
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN misfire_policy TEXT`);
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN misfire_grace_minutes INTEGER`);
+  } catch {
+    // Column already exists, ignore
+  }
+
+  // Migration: user controls (pause until, skip next, snooze)
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN paused_until INTEGER`);
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN skip_next_at INTEGER`);
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN snoozed_from TEXT`);
+  } catch {
+    // Column already exists, ignore
+  }
+
+  // Migration: trigger types (NULL = cron or once, from is_recurring) and conditions
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN trigger_type TEXT`);
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN event_offset_minutes INTEGER`);
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN event_title_contains TEXT`);
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN event_has_location INTEGER`);
+  } catch {
+    // Column already exists, ignore
+  }
+  try {
+    db.exec(`ALTER TABLE scheduled_jobs ADD COLUMN condition_prompt TEXT`);
+  } catch {
+    // Column already exists, ignore
+  }
 }
 
 /**
@@ -118,11 +318,15 @@ export function initSchedulerDb(db: Database.Database): void {
 export function createJob(db: Database.Database, input: CreateJobInput): ScheduledJob {
   const now = Math.floor(Date.now() / 1000);
   const id = randomUUID();
+  const triggerType = input.triggerType ?? (input.isRecurring ? 'cron' : 'once');
+  const hasLocation = input.eventFilter?.hasLocation;
 
   db.prepare(`
     INSERT INTO scheduled_jobs
-      (id, phone_number, channel, user_request, prompt, skill_name, cron_expression, timezone, next_run_at, is_recurring, enabled, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
+      (id, phone_number, channel, user_request, prompt, skill_name, cron_expression, timezone, next_run_at, is_recurring,
+       misfire_policy, misfire_grace_minutes, snoozed_from, trigger_type, event_offset_minutes,
+       event_title_contains, event_has_location, condition_prompt, enabled, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
   `).run(
     id,
     input.phoneNumber,
@@ -134,6 +338,14 @@ export function createJob(db: Database.Database, input: CreateJobInput): Schedul
     input.timezone,
     input.nextRunAt,
     input.isRecurring ? 1 : 0,
+    input.misfirePolicy ?? null,
+    input.misfireGraceMinutes ?? null,
+    input.snoozedFrom ?? null,
+    triggerType,
+    input.eventOffsetMinutes ?? null,
+    input.eventFilter?.titleContains ?? null,
+    hasLocation === undefined ? null : hasLocation ? 1 : 0,
+    input.conditionPrompt ?? null,
     now,
     now
   );
@@ -151,6 +363,14 @@ export function createJob(db: Database.Database, input: CreateJobInput): Schedul
     lastRunAt: undefined,
     enabled: true,
     isRecurring: input.isRecurring,
+    consecutiveFailures: 0,
+    misfirePolicy: input.misfirePolicy,
+    misfireGraceMinutes: input.misfireGraceMinutes,
+    snoozedFrom: input.snoozedFrom,
+    triggerType,
+    eventOffsetMinutes: input.eventOffsetMinutes,
+    eventFilter: input.eventFilter,
+    conditionPrompt: input.conditionPrompt,
     createdAt: now,
     updatedAt: now,
   };
@@ -206,6 +426,33 @@ export function getJobsByPhone(
   return rows.map(rowToJob);
 }
 
+/**
+ * Get paused jobs for a phone number (by the user or after repeated failures).
+ */
+export function getDisabledJobsByPhone(db: Database.Database, phoneNumber: string): ScheduledJob[] {
+  const rows = db.prepare(`
+    SELECT * FROM scheduled_jobs
+    WHERE phone_number = ? AND enabled = 0
+    ORDER BY updated_at DESC
+  `).all(phoneNumber) as ScheduledJobRow[];
+
+  return rows.map(rowToJob);
+}
+
+/**
+ * Get the pending snooze of a job for a phone number, if any.
+ */
+export function getSnoozeOfJob(db: Database.Database, phoneNumber: string, jobId: string): ScheduledJob | null {
+  const row = db.prepare(`
+    SELECT * FROM scheduled_jobs
+    WHERE phone_number = ? AND snoozed_from = ? AND enabled = 1
+    ORDER BY next_run_at ASC
+    LIMIT 1
+  `).get(phoneNumber, jobId) as ScheduledJobRow | undefined;
+
+  return row ? rowToJob(row) : null;
+}
+
 /**
  * Get all jobs that are due for execution.
  * Returns enabled jobs where next_run_at <= now.
@@ -214,8 +461,9 @@ export function getDueJobs(db: Database.Database, nowSeconds: number): Scheduled
   const rows = db.prepare(`
     SELECT * FROM scheduled_jobs
     WHERE enabled = 1 AND next_run_at <= ?
+      AND (paused_until IS NULL OR paused_until <= ?)
     ORDER BY next_run_at ASC
-  `).all(nowSeconds) as ScheduledJobRow[];
+  `).all(nowSeconds, nowSeconds) as ScheduledJobRow[];
 
   return rows.map(rowToJob);
 }
@@ -274,6 +522,42 @@ export function updateJob(
     setClauses.push('enabled = ?');
     values.push(updates.enabled ? 1 : 0);
   }
+  if (updates.consecutiveFailures !== undefined) {
+    setClauses.push('consecutive_failures = ?');
+    values.push(updates.consecutiveFailures);
+  }
+  if (updates.disabledReason !== undefined) {
+    setClauses.push('disabled_reason = ?');
+    values.push(updates.disabledReason);
+  }
+  if (updates.misfirePolicy !== undefined) {
+    setClauses.push('misfire_policy = ?');
+    values.push(updates.misfirePolicy);
+  }
+  if (updates.misfireGraceMinutes !== undefined) {
+    setClauses.push('misfire_grace_minutes = ?');
+    values.push(updates.misfireGraceMinutes);
+  }
+  if (updates.pausedUntil !== undefined) {
+    setClauses.push('paused_until = ?');
+    values.push(updates.pausedUntil);
+  }
+  if (updates.skipNextAt !== undefined) {
+    setClauses.push('skip_next_at = ?');
+    values.push(updates.skipNextAt);
+  }
+  if (updates.triggerType !== undefined) {
+    setClauses.push('trigger_type = ?');
+    values.push(updates.triggerType);
+  }
+  if (updates.eventOffsetMinutes !== undefined) {
+    setClauses.push('event_offset_minutes = ?');
+    values.push(updates.eventOffsetMinutes);
+  }
+  if (updates.conditionPrompt !== undefined) {
+    setClauses.push('condition_prompt = ?');
+    values.push(updates.conditionPrompt);
+  }
 
   if (setClauses.length === 0) {
     return existing;
@@ -298,6 +582,194 @@ export function deleteJob(db: Database.Database, id: string): boolean {
   const result = db.prepare(`
     DELETE FROM scheduled_jobs WHERE id = ?
   `).run(id);
+  db.prepare('DELETE FROM scheduled_trigger_events WHERE job_id = ?').run(id);
 
   return result.changes > 0;
 }
+
+/**
+ * Record the start of a job run. Returns the run ID.
+ */
+export function startJobRun(db: Database.Database, job: ScheduledJob, startedAt: number): number {
+  const result = db.prepare(`
+    INSERT INTO scheduled_job_runs (job_id, phone_number, started_at, status)
+    VALUES (?, ?, ?, 'running')
+  `).run(job.id, job.phoneNumber, startedAt);
+
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Record how a job run ended.
+ */
+export function finishJobRun(db: Database.Database, runId: number, outcome: JobRunOutcome): void {
+  db.prepare(`
+    UPDATE scheduled_job_runs
+    SET finished_at = ?, status = ?, error = ?, output_preview = ?, input_tokens = ?, output_tokens = ?
+    WHERE id = ?
+  `).run(
+    outcome.finishedAt,
+    outcome.status,
+    outcome.error ?? null,
+    outcome.output !== undefined ? outcome.output.slice(0, OUTPUT_PREVIEW_CHARS) : null,
+    outcome.tokenUsage?.input ?? null,
+    outcome.tokenUsage?.output ?? null,
+    runId
+  );
+}
+
+/**
+ * Mark runs still 'running' as failed. They were left by a process that
+ * stopped mid-run, so call this on startup before the poller starts.
+ * Returns the number of runs marked.
+ */
+export function failInterruptedJobRuns(db: Database.Database, finishedAt: number): number {
+  return db.prepare(`
+    UPDATE scheduled_job_runs
+    SET status = 'failed', finished_at = ?, error = 'Interrupted: the process stopped before the run finished'
+    WHERE status = 'running'
+  `).run(finishedAt).changes;
+}
+
+/**
+ * Delete finished runs that started before `beforeMs`.
+ * Returns the number of deleted runs.
+ */
+export function deleteJobRunsBefore(db: Database.Database, beforeMs: number): number {
+  return db.prepare(`
+    DELETE FROM scheduled_job_runs WHERE status != 'running' AND started_at < ?
+  `).run(beforeMs).changes;
+}
+
+/**
+ * Get the most recent run of a job, or null if it has never run.
+ */
+export function getLastJobRun(db: Database.Database, jobId: string): JobRun | null {
+  const row = db.prepare(`
+    SELECT * FROM scheduled_job_runs
+    WHERE job_id = ?
+    ORDER BY started_at DESC, id DESC
+    LIMIT 1
+  `).get(jobId) as JobRunRow | undefined;
+
+  return row ? rowToRun(row) : null;
+}
+
+/**
+ * List job runs, most recent first.
+ */
+export function listJobRuns(
+  db: Database.Database,
+  filter: { jobId?: string; phoneNumber?: string; status?: JobRunStatus; limit: number }
+): JobRun[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.jobId) {
+    conditions.push('job_id = ?');
+    params.push(filter.jobId);
+  }
+  if (filter.phoneNumber) {
+    conditions.push('phone_number = ?');
+    params.push(filter.phoneNumber);
+  }
+  if (filter.status) {
+    conditions.push('status = ?');
+    params.push(filter.status);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db.prepare(`
+    SELECT * FROM scheduled_job_runs
+    ${where}
+    ORDER BY started_at DESC, id DESC
+    LIMIT ?
+  `).all(...params, filter.limit) as JobRunRow[];
+
+  return rows.map(rowToRun);
+}
+
+/**
+ * Remember the reminder just sent to a user (one row per phone number).
+ */
+export function recordReminderSent(db: Database.Database, job: ScheduledJob, sentAt: number): void {
+  db.prepare(`
+    INSERT INTO scheduled_last_reminders
+      (phone_number, job_id, channel, user_request, prompt, skill_name, timezone, sent_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(phone_number) DO UPDATE SET
+      job_id = excluded.job_id,
+      channel = excluded.channel,
+      user_request = excluded.user_request,
+      prompt = excluded.prompt,
+      skill_name = excluded.skill_name,
+      timezone = excluded.timezone,
+      sent_at = excluded.sent_at
+  `).run(
+    job.phoneNumber,
+    job.id,
+    job.channel,
+    job.userRequest ?? null,
+    job.prompt,
+    job.skillName ?? null,
+    job.timezone,
+    sentAt
+  );
+}
+
+/**
+ * Get the last reminder sent to a user, or null if none was recorded.
+ */
+export function getLastReminderSent(db: Database.Database, phoneNumber: string): SentReminder | null {
+  const row = db.prepare(`
+    SELECT * FROM scheduled_last_reminders WHERE phone_number = ?
+  `).get(phoneNumber) as SentReminderRow | undefined;
+
+  if (!row) return null;
+  return {
+    phoneNumber: row.phone_number,
+    jobId: row.job_id,
+    channel: row.channel as MessageChannel,
+    userRequest: row.user_request ?? undefined,
+    prompt: row.prompt,
+    skillName: row.skill_name ?? undefined,
+    timezone: row.timezone,
+    sentAt: row.sent_at,
+  };
+}
+
+/**
+ * Get the keys of the calendar events a job has already fired for.
+ */
+export function getFiredTriggerEvents(db: Database.Database, jobId: string): Set<string> {
+  const rows = db.prepare(`
+    SELECT event_key FROM scheduled_trigger_events WHERE job_id = ?
+  `).all(jobId) as Array<{ event_key: string }>;
+
+  return new Set(rows.map((row) => row.event_key));
+}
+
+/**
+ * Record that a job fired for a calendar event.
+ */
+export function recordTriggerEventFired(
+  db: Database.Database,
+  jobId: string,
+  eventKey: string,
+  eventStart: number,
+  firedAt: number
+): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO scheduled_trigger_events (job_id, event_key, event_start, fired_at)
+    VALUES (?, ?, ?, ?)
+  `).run(jobId, eventKey, eventStart, firedAt);
+}
+
+/**
+ * Forget fired calendar events that started before `beforeSeconds`.
+ */
+export function pruneTriggerEvents(db: Database.Database, jobId: string, beforeSeconds: number): void {
+  db.prepare(`
+    DELETE FROM scheduled_trigger_events WHERE job_id = ? AND event_start < ?
+  `).run(jobId, beforeSeconds);
+}
@@ -19,6 +19,9 @@ const SCHEDULER_TOOLS = [
   'list_scheduled_jobs',
   'update_scheduled_job',
   'delete_scheduled_job',
+  'snooze_reminder',
+  'pause_job_until',
+  'skip_next_occurrence',
   'resolve_date',
 ];
 
@@ -27,7 +30,7 @@ const SCHEDULER_TOOLS = [
  */
 export const capability: AgentCapability = {
   name: 'scheduler-agent',
-  description: 'Manages reminders and scheduled tasks. Use for creating, viewing, updating, or deleting reminders and recurring messages.',
+  description: 'Manages reminders and scheduled tasks. Use for creating, viewing, updating, or deleting reminders and recurring messages, reminders before calendar events, conditional alerts ("text me if..."), and for snoozing a reminder, pausing a job until a date, or skipping one run.',
   tools: SCHEDULER_TOOLS,
   examples: [
     'Remind me to call mom tomorrow at 5pm',
@@ -35,6 +38,10 @@ export const capability: AgentCapability = {
     'What reminders do I have?',
     'Cancel my morning reminder',
     'Change my gym reminder to 7am',
+    'Snooze 10',
+    'Pause my workout reminder until Monday',
+    'Remind me 30 minutes before any event with a location',
+    'Text me if I have no lunch on my calendar by 11am',
   ],
 };
 
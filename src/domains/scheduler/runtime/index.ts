@@ -13,12 +13,18 @@ export * from '../types.js';
 export * from '../repo/sqlite.js';
 export * from '../service/parser.js';
 export * from '../service/executor.js';
+export * from '../service/misfire.js';
+export * from '../service/job-controls.js';
+export * from '../service/triggers.js';
 export * from '../service/auto-schedule.js';
 export { createIntervalPoller, type Poller } from '../../../utils/poller.js';
 
 import type Database from 'better-sqlite3';
-import { getDueJobs, initSchedulerDb } from '../repo/sqlite.js';
-import { executeJob } from '../service/executor.js';
+import { getDueJobs, initSchedulerDb, failInterruptedJobRuns } from '../repo/sqlite.js';
+import { executeJob, pruneJobRunHistory } from '../service/executor.js';
+import { checkMisfire, skipMissedRun } from '../service/misfire.js';
+import { isSkippedOccurrence, skipUserSkippedRun, handleSnoozeReply } from '../service/job-controls.js';
+import { runCalendarTrigger } from '../service/triggers.js';
 import { createIntervalPoller, type Poller } from '../../../utils/poller.js';
 import { createLogger, createRunId, redactPhone, withLogContext } from '../../../utils/observability/index.js';
 
@@ -37,11 +43,23 @@ export function getSchedulerDb(): Database.Database {
   return sharedDb;
 }
 
+/**
+ * Snooze the last reminder sent to a user if their message is a "snooze 10"
+ * style reply. Returns the confirmation to send, or null to handle the
+ * message normally (not a snooze reply, no recent reminder, or the
+ * scheduler isn't running).
+ */
+export function trySnoozeReply(phoneNumber: string, message: string): string | null {
+  if (!sharedDb) return null;
+  return handleSnoozeReply(sharedDb, phoneNumber, message, Math.floor(Date.now() / 1000));
+}
+
 /**
  * Initialize the scheduler system.
  *
  * - Creates database tables if needed
- * - Sets up the polling loop
+ * - Marks runs left 'running' by a previous process as failed
+ * - Sets up the polling loop (which also prunes old run history)
  *
  * @param db - Database connection
  * @param intervalMs - Polling interval (default: 60000ms = 1 minute)
@@ -57,12 +75,30 @@ export function initScheduler(
   // Initialize database schema
   initSchedulerDb(db);
 
+  // No job runs before the poller starts, so any 'running' row was interrupted
+  const interrupted = failInterruptedJobRuns(db, Date.now());
+  if (interrupted > 0) {
+    log.warn('interrupted_runs_failed', { interrupted });
+  }
+
   // Create the job runner function
   async function runDueJobs(): Promise<void> {
     const runId = createRunId('scheduler');
     await withLogContext({ runId }, async () => {
       const startedAt = Date.now();
       const nowSeconds = Math.floor(Date.now() / 1000);
+
+      try {
+        const pruned = pruneJobRunHistory(db, startedAt);
+        if (pruned > 0) {
+          log.debug('run_history_pruned', { pruned });
+        }
+      } catch (err) {
+        log.error('run_history_prune_failed', {
+          error: err instanceof Error ? err : String(err),
+        });
+      }
+
       const dueJobs = getDueJobs(db, nowSeconds);
 
       log.info('run_started', { dueJobCount: dueJobs.length });
@@ -79,7 +115,43 @@ export function initScheduler(
           channel: job.channel,
           phone: redactPhone(job.phoneNumber),
           isRecurring: job.isRecurring,
+          triggerType: job.triggerType,
         });
+
+        const dispatchSeconds = Math.floor(Date.now() / 1000);
+
+        // The user asked to skip this occurrence (skip_next_occurrence)
+        if (isSkippedOccurrence(job)) {
+          log.info('job_occurrence_skipped', { jobId: job.id });
+          skipUserSkippedRun(db, job, dispatchSeconds);
+          continue;
+        }
+
+        // Runs for each upcoming calendar event that is due, then waits for the next check
+        if (job.triggerType === 'calendar_event') {
+          const fired = await runCalendarTrigger(db, job, dispatchSeconds, (eventJob) =>
+            executeJob(db, eventJob, readOnlyToolNames)
+          );
+          log.info('calendar_trigger_checked', { jobId: job.id, eventsFired: fired });
+          continue;
+        }
+
+        // Overdue beyond the grace window (e.g. after downtime): apply the job's misfire policy
+        const misfire = checkMisfire(job, dispatchSeconds);
+        if (misfire.misfired) {
+          log.info('job_misfire', {
+            jobId: job.id,
+            policy: misfire.policy,
+            lateSeconds: misfire.lateSeconds,
+            graceMinutes: misfire.graceMinutes,
+            action: misfire.action,
+          });
+        }
+        if (misfire.action === 'skip') {
+          skipMissedRun(db, job, misfire, dispatchSeconds);
+          continue;
+        }
+
         await executeJob(db, job, readOnlyToolNames);
       }
 
@@ -3,13 +3,15 @@
  */
 
 import type { ToolDefinition } from '../../../tools/types.js';
-import { requirePhoneNumber, validateInput } from '../../../tools/utils.js';
+import { requirePhoneNumber, validateInput, CONFIRMATION_PROMPT_SCHEMA } from '../../../tools/utils.js';
 import { getUserConfigStore } from '../../../services/user-config/index.js';
-import { Cron } from 'croner';
 import {
   createJob,
   getJobById,
   getJobsByPhone,
+  getDisabledJobsByPhone,
+  getLastJobRun,
+  getLastReminderSent,
   updateJob,
   deleteJob,
 } from '../repo/sqlite.js';
@@ -17,11 +19,88 @@ import {
   parseScheduleToCron,
   parseReminderTime,
   parseSchedule,
+  parseDay,
   cronToHuman,
 } from '../service/parser.js';
+import { MISFIRE_POLICIES, MISFIRE_DEFAULTS, resolveMisfirePolicy } from '../service/misfire.js';
+import {
+  DEFAULT_SNOOZE_MINUTES,
+  MAX_SNOOZE_MINUTES,
+  reminderFromJob,
+  snoozeReminder,
+  pauseJobUntil,
+  skipNextOccurrence,
+} from '../service/job-controls.js';
+import {
+  CALENDAR_TRIGGER_CRON,
+  DEFAULT_EVENT_OFFSET_MINUTES,
+  MAX_EVENT_OFFSET_MINUTES,
+  describeTrigger,
+} from '../service/triggers.js';
+import { anchorRecurrence, nextOccurrence } from '../service/recurrence.js';
+import type { MisfirePolicy, SentReminder, TriggerType } from '../types.js';
 import { getSchedulerDb } from './index.js';
 import { findFilesystemSkill } from '../providers/skills.js';
 
+/**
+ * Format a Unix timestamp (milliseconds) for job listings.
+ */
+function formatJobTime(timestampMs: number, timezone: string): string {
+  return new Date(timestampMs).toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const MISFIRE_SCHEMA = {
+  misfire_policy: {
+    type: 'string',
+    enum: MISFIRE_POLICIES,
+    description: `What to do when a run is missed because the assistant was offline: "fire_once" sends it late once, "skip" drops the stale run, "run_all" sends every missed occurrence. Default: ${MISFIRE_DEFAULTS.reminder.policy} for reminders (one-time or recurring), ${MISFIRE_DEFAULTS.skill.policy} for skill jobs such as briefings.`,
+  },
+  misfire_grace_minutes: {
+    type: 'number',
+    description: `How many minutes late a run may start and still count as on time. Default: ${MISFIRE_DEFAULTS.reminder.graceMinutes} for reminders, ${MISFIRE_DEFAULTS.skill.graceMinutes} for skill jobs.`,
+  },
+};
+
+const CONDITION_SCHEMA = {
+  condition: {
+    type: 'string',
+    description: 'Optional condition checked (with read-only tools) right before sending. If it is false, nothing is sent that time. Phrase it as a yes/no statement, e.g. "There is no lunch event on my calendar today".',
+  },
+};
+
+/**
+ * Validate an event offset. Returns an error result, or null when valid.
+ */
+function validateEventOffset(minutes: number | undefined): { success: false; error: string } | null {
+  if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_EVENT_OFFSET_MINUTES)) {
+    return { success: false, error: `event_offset_minutes must be a whole number from 0 to ${MAX_EVENT_OFFSET_MINUTES}` };
+  }
+  return null;
+}
+
+/**
+ * Validate misfire options. Returns an error result, or null when valid.
+ */
+function validateMisfireOptions(
+  policy: string | undefined,
+  graceMinutes: number | undefined
+): { success: false; error: string } | null {
+  if (policy !== undefined && !MISFIRE_POLICIES.includes(policy as MisfirePolicy)) {
+    return { success: false, error: `misfire_policy must be one of: ${MISFIRE_POLICIES.join(', ')}` };
+  }
+  if (graceMinutes !== undefined && (!Number.isInteger(graceMinutes) || graceMinutes < 0)) {
+    return { success: false, error: 'misfire_grace_minutes must be a non-negative whole number' };
+  }
+  return null;
+}
+
 export const createScheduledJob: ToolDefinition = {
   tool: {
     name: 'create_scheduled_job',
@@ -29,7 +108,10 @@ export const createScheduledJob: ToolDefinition = {
 Works for both one-time and recurring schedules - the system auto-detects based on the schedule.
 
 One-time examples: "tomorrow at 9am", "in 2 hours", "next Friday at 3pm"
-Recurring examples: "daily at 9am", "every Monday at noon", "every weekday at 8:30am"
+Recurring examples: "daily at 9am", "every Monday at noon", "every weekday at 8:30am", "every other Tuesday at 6pm", "first Monday of the month at 10am", "last business day at 4pm", "every 3 days at 8am", "twice a day at 8 and 8"
+
+Event-triggered: set event_offset_minutes (instead of schedule) to run before each upcoming calendar event, optionally only events matching event_title_contains / event_has_location. Example: "remind me 30 minutes before any event with a location".
+Conditional: add a condition to send only when it holds. Example: "text me if I have no lunch on my calendar by 11am" → schedule "daily at 11am", condition "There is no lunch event on my calendar today".
 
 Use this for SMS/text reminders. For calendar events, use create_calendar_event instead.`,
     input_schema: {
@@ -45,14 +127,28 @@ Use this for SMS/text reminders. For calendar events, use create_calendar_event
         },
         schedule: {
           type: 'string',
-          description: "When to run, in natural language. Examples: 'daily at 9am', 'every weekday at 8:30am', 'every Monday at noon', 'every hour'",
+          description: "When to run, in natural language. Examples: 'daily at 9am', 'every weekday at 8:30am', 'every Monday at noon', 'every hour', 'every other Tuesday at 6pm', 'last business day at 4pm'. Required unless event_offset_minutes is set.",
         },
         skill_name: {
           type: 'string',
           description: 'Optional filesystem skill name to execute for this job. If provided, prompt is passed as skill input.',
         },
+        event_offset_minutes: {
+          type: 'number',
+          description: `Run this many minutes before each upcoming calendar event instead of on a schedule (0-${MAX_EVENT_OFFSET_MINUTES}). Reacts to events being added, moved or cancelled.`,
+        },
+        event_title_contains: {
+          type: 'string',
+          description: 'With event_offset_minutes: only events whose title contains this text (case-insensitive)',
+        },
+        event_has_location: {
+          type: 'boolean',
+          description: 'With event_offset_minutes: only events that have a location',
+        },
+        ...CONDITION_SCHEMA,
+        ...MISFIRE_SCHEMA,
       },
-      required: ['prompt', 'schedule'],
+      required: ['prompt'],
     },
   },
   handler: async (input, context) => {
@@ -60,19 +156,58 @@ Use this for SMS/text reminders. For calendar events, use create_calendar_event
 
     const validationError = validateInput(input, {
       prompt: { type: 'string', required: true },
-      schedule: { type: 'string', required: true },
+      schedule: { type: 'string', required: false },
       user_request: { type: 'string', required: false },
       skill_name: { type: 'string', required: false },
+      event_offset_minutes: { type: 'number', required: false },
+      event_title_contains: { type: 'string', required: false },
+      event_has_location: { type: 'boolean', required: false },
+      condition: { type: 'string', required: false },
+      misfire_policy: { type: 'string', required: false },
+      misfire_grace_minutes: { type: 'number', required: false },
     });
     if (validationError) return validationError;
 
-    const { user_request, prompt, schedule, skill_name } = input as {
+    const {
+      user_request,
+      prompt,
+      schedule,
+      skill_name,
+      event_offset_minutes,
+      event_title_contains,
+      event_has_location,
+      condition,
+      misfire_policy,
+      misfire_grace_minutes,
+    } = input as {
       user_request?: string;
       prompt: string;
-      schedule: string;
+      schedule?: string;
       skill_name?: string;
+      event_offset_minutes?: number;
+      event_title_contains?: string;
+      event_has_location?: boolean;
+      condition?: string;
+      misfire_policy?: MisfirePolicy;
+      misfire_grace_minutes?: number;
     };
 
+    const misfireError = validateMisfireOptions(misfire_policy, misfire_grace_minutes);
+    if (misfireError) return misfireError;
+
+    const offsetError = validateEventOffset(event_offset_minutes);
+    if (offsetError) return offsetError;
+
+    const eventTriggered = event_offset_minutes !== undefined;
+    if (!eventTriggered && (event_title_contains !== undefined || event_has_location !== undefined)) {
+      return { success: false, error: 'event_title_contains and event_has_location require event_offset_minutes' };
+    }
+
+    const conditionPrompt = condition?.trim() || undefined;
+    if (conditionPrompt && conditionPrompt.length > 500) {
+      return { success: false, error: 'Condition is too long (max 500 characters)' };
+    }
+
     const skillName = skill_name?.trim();
     if (skillName) {
       const skill = findFilesystemSkill(skillName);
@@ -103,6 +238,65 @@ Use this for SMS/text reminders. For calendar events, use create_calendar_event
       };
     }
 
+    if (eventTriggered) {
+      try {
+        const titleContains = event_title_contains?.trim() || undefined;
+        const job = createJob(getSchedulerDb(), {
+          phoneNumber,
+          channel: context.channel ?? 'sms',
+          userRequest: user_request,
+          prompt,
+          skillName,
+          cronExpression: CALENDAR_TRIGGER_CRON,
+          timezone,
+          // Checks the calendar on the next poll
+          nextRunAt: Math.floor(Date.now() / 1000),
+          isRecurring: true,
+          triggerType: 'calendar_event',
+          eventOffsetMinutes: event_offset_minutes,
+          eventFilter: titleContains !== undefined || event_has_location !== undefined
+            ? { titleContains, hasLocation: event_has_location }
+            : undefined,
+          conditionPrompt,
+          misfirePolicy: misfire_policy,
+          misfireGraceMinutes: misfire_grace_minutes,
+        });
+
+        console.log(JSON.stringify({
+          level: 'info',
+          message: 'Calendar-triggered job created',
+          jobId: job.id,
+          eventOffsetMinutes: event_offset_minutes,
+          timezone,
+          timestamp: new Date().toISOString(),
+        }));
+
+        return {
+          success: true,
+          job_id: job.id,
+          type: 'calendar_event',
+          schedule_description: describeTrigger(job),
+          ...(conditionPrompt ? { condition: conditionPrompt } : {}),
+          timezone,
+        };
+      } catch (error) {
+        console.error(JSON.stringify({
+          level: 'error',
+          message: 'Failed to create scheduled job',
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        }));
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    if (!schedule) {
+      return { success: false, error: 'schedule is required unless event_offset_minutes is set' };
+    }
+
     // Parse schedule (auto-detects recurring vs one-time)
     const parsed = parseSchedule(schedule, timezone);
     if (!parsed) {
@@ -135,9 +329,8 @@ Use this for SMS/text reminders. For calendar events, use create_calendar_event
           const minutes = parseInt(minuteIntervalMatch[1], 10);
           nextRun = new Date(Date.now() + minutes * 60 * 1000);
         } else {
-          // Standard cron - use croner to calculate next run
-          const cron = new Cron(cronExpression, { timezone });
-          const cronNextRun = cron.nextRun();
+          // Standard cron or recurrence rule - calculate the next occurrence
+          const cronNextRun = nextOccurrence(cronExpression, timezone);
           if (!cronNextRun) {
             return {
               success: false,
@@ -158,6 +351,9 @@ Use this for SMS/text reminders. For calendar events, use create_calendar_event
       const nextRunAt = Math.floor(nextRun.getTime() / 1000);
       const db = getSchedulerDb();
       const channel = context.channel ?? 'sms';
+      const triggerType: TriggerType = parsed.type === 'recurring'
+        ? conditionPrompt ? 'condition' : 'cron'
+        : 'once';
       const job = createJob(db, {
         phoneNumber,
         channel,
@@ -168,6 +364,10 @@ Use this for SMS/text reminders. For calendar events, use create_calendar_event
         timezone,
         nextRunAt,
         isRecurring: parsed.type === 'recurring',
+        triggerType,
+        conditionPrompt,
+        misfirePolicy: misfire_policy,
+        misfireGraceMinutes: misfire_grace_minutes,
       });
 
       const nextRunFormatted = nextRun.toLocaleString('en-US', {
@@ -196,6 +396,7 @@ Use this for SMS/text reminders. For calendar events, use create_calendar_event
         type: parsed.type,
         schedule_description: scheduleDescription,
         next_run: nextRunFormatted,
+        ...(conditionPrompt ? { condition: conditionPrompt } : {}),
         timezone,
       };
     } catch (error) {
@@ -216,7 +417,7 @@ Use this for SMS/text reminders. For calendar events, use create_calendar_event
 export const listScheduledJobs: ToolDefinition = {
   tool: {
     name: 'list_scheduled_jobs',
-    description: 'List all scheduled jobs for the current user. Shows what recurring tasks are set up.',
+    description: 'List all scheduled jobs for the current user, including paused ones. Shows what recurring tasks are set up and how each one last ran (last_run), and why a job was paused automatically (paused_reason).',
     input_schema: {
       type: 'object' as const,
       properties: {},
@@ -229,7 +430,10 @@ export const listScheduledJobs: ToolDefinition = {
     try {
       const db = getSchedulerDb();
       const nowSeconds = Math.floor(Date.now() / 1000);
-      const jobs = getJobsByPhone(db, phoneNumber, nowSeconds);
+      const jobs = [
+        ...getJobsByPhone(db, phoneNumber, nowSeconds),
+        ...getDisabledJobsByPhone(db, phoneNumber),
+      ];
 
       if (jobs.length === 0) {
         return {
@@ -239,24 +443,38 @@ export const listScheduledJobs: ToolDefinition = {
         };
       }
 
-      const jobList = jobs.map((job) => ({
-        job_id: job.id,
-        description: job.userRequest || (job.prompt.length > 50 ? job.prompt.slice(0, 50) + '...' : job.prompt),
-        type: job.isRecurring ? 'recurring' : 'one-time',
-        schedule: job.isRecurring ? cronToHuman(job.cronExpression) : 'one-time',
-        skill_name: job.skillName ?? null,
-        enabled: job.enabled,
-        next_run: job.enabled && job.nextRunAt
-          ? new Date(job.nextRunAt * 1000).toLocaleString('en-US', {
-              timeZone: job.timezone,
-              weekday: 'short',
-              month: 'numeric',
-              day: 'numeric',
-              hour: 'numeric',
-              minute: '2-digit',
-            })
-          : 'paused',
-      }));
+      const jobList = jobs.map((job) => {
+        const lastRun = getLastJobRun(db, job.id);
+        const misfire = resolveMisfirePolicy(job);
+        return {
+          job_id: job.id,
+          description: job.userRequest || (job.prompt.length > 50 ? job.prompt.slice(0, 50) + '...' : job.prompt),
+          type: job.isRecurring ? 'recurring' : 'one-time',
+          trigger_type: job.triggerType,
+          schedule: describeTrigger(job),
+          ...(job.conditionPrompt ? { condition: job.conditionPrompt } : {}),
+          skill_name: job.skillName ?? null,
+          enabled: job.enabled,
+          next_run: job.enabled && job.nextRunAt
+            ? formatJobTime(job.nextRunAt * 1000, job.timezone)
+            : 'paused',
+          last_run: lastRun
+            ? {
+                status: lastRun.status,
+                at: formatJobTime(lastRun.startedAt, job.timezone),
+                ...(lastRun.error ? { error: lastRun.error } : {}),
+              }
+            : null,
+          ...(job.disabledReason ? { paused_reason: job.disabledReason } : {}),
+          misfire_policy: misfire.policy,
+          misfire_grace_minutes: misfire.graceMinutes,
+          ...(job.pausedUntil && job.pausedUntil > nowSeconds
+            ? { paused_until: formatJobTime(job.pausedUntil * 1000, job.timezone) }
+            : {}),
+          ...(job.skipNextAt !== undefined && job.skipNextAt === job.nextRunAt ? { skipping_next_run: true } : {}),
+          ...(job.snoozedFrom ? { snoozed_from: job.snoozedFrom } : {}),
+        };
+      });
 
       return {
         success: true,
@@ -307,6 +525,15 @@ When updating the schedule of a one-time reminder, parse the input as a specific
           type: 'string',
           description: 'Optional filesystem skill name for this job (optional)',
         },
+        event_offset_minutes: {
+          type: 'number',
+          description: 'New offset before each calendar event, for event-triggered jobs (optional)',
+        },
+        condition: {
+          type: 'string',
+          description: 'New condition checked before sending; empty string removes it (optional)',
+        },
+        ...MISFIRE_SCHEMA,
       },
       required: ['job_id'],
     },
@@ -320,17 +547,41 @@ When updating the schedule of a one-time reminder, parse the input as a specific
       schedule: { type: 'string', required: false },
       enabled: { type: 'boolean', required: false },
       skill_name: { type: 'string', required: false },
+      event_offset_minutes: { type: 'number', required: false },
+      condition: { type: 'string', required: false },
+      misfire_policy: { type: 'string', required: false },
+      misfire_grace_minutes: { type: 'number', required: false },
     });
     if (validationError) return validationError;
 
-    const { job_id, prompt, schedule, enabled, skill_name } = input as {
+    const {
+      job_id,
+      prompt,
+      schedule,
+      enabled,
+      skill_name,
+      event_offset_minutes,
+      condition,
+      misfire_policy,
+      misfire_grace_minutes,
+    } = input as {
       job_id: string;
       prompt?: string;
       schedule?: string;
       enabled?: boolean;
       skill_name?: string;
+      event_offset_minutes?: number;
+      condition?: string;
+      misfire_policy?: MisfirePolicy;
+      misfire_grace_minutes?: number;
     };
 
+    const misfireError = validateMisfireOptions(misfire_policy, misfire_grace_minutes);
+    if (misfireError) return misfireError;
+
+    const offsetError = validateEventOffset(event_offset_minutes);
+    if (offsetError) return offsetError;
+
     try {
       const db = getSchedulerDb();
       const job = getJobById(db, job_id);
@@ -353,6 +604,42 @@ When updating the schedule of a one-time reminder, parse the input as a specific
         updates.enabled = enabled;
       }
 
+      if (misfire_policy !== undefined) {
+        updates.misfirePolicy = misfire_policy;
+      }
+
+      if (misfire_grace_minutes !== undefined) {
+        updates.misfireGraceMinutes = misfire_grace_minutes;
+      }
+
+      const eventTriggered = job.triggerType === 'calendar_event';
+      if (event_offset_minutes !== undefined) {
+        if (!eventTriggered) {
+          return { success: false, error: 'event_offset_minutes only applies to jobs triggered by calendar events' };
+        }
+        updates.eventOffsetMinutes = event_offset_minutes;
+      }
+      if (schedule !== undefined && eventTriggered) {
+        return {
+          success: false,
+          error: 'This job runs before calendar events, not on a schedule. Change event_offset_minutes, or delete it and create a scheduled job.',
+        };
+      }
+
+      if (condition !== undefined) {
+        const conditionPrompt = condition.trim();
+        if (conditionPrompt.length > 500) {
+          return { success: false, error: 'Condition is too long (max 500 characters)' };
+        }
+        updates.conditionPrompt = conditionPrompt || null;
+      }
+
+      // Resuming gives an auto-disabled job a fresh set of attempts
+      if (enabled === true) {
+        updates.consecutiveFailures = 0;
+        updates.disabledReason = null;
+      }
+
       if (skill_name !== undefined) {
         const trimmedSkillName = skill_name.trim();
         if (trimmedSkillName.length === 0) {
@@ -370,9 +657,11 @@ When updating the schedule of a one-time reminder, parse the input as a specific
 
       // Recalculate next_run_at when re-enabling a recurring job (unless schedule is also being updated)
       // For one-time reminders, re-enabling keeps the existing nextRunAt
-      if (enabled === true && schedule === undefined && job.isRecurring) {
-        const cron = new Cron(job.cronExpression, { timezone: job.timezone });
-        const nextRun = cron.nextRun();
+      if (enabled === true && eventTriggered) {
+        // Check the calendar on the next poll
+        updates.nextRunAt = Math.floor(Date.now() / 1000);
+      } else if (enabled === true && schedule === undefined && job.isRecurring) {
+        const nextRun = nextOccurrence(job.cronExpression, job.timezone);
         if (nextRun) {
           updates.nextRunAt = Math.floor(nextRun.getTime() / 1000);
         }
@@ -380,18 +669,18 @@ When updating the schedule of a one-time reminder, parse the input as a specific
 
       if (schedule !== undefined) {
         if (job.isRecurring) {
-          // Recurring job - parse to cron expression
-          const cronExpression = parseScheduleToCron(schedule);
-          if (!cronExpression) {
+          // Recurring job - parse to cron expression or recurrence rule
+          const parsedCron = parseScheduleToCron(schedule);
+          if (!parsedCron) {
             return {
               success: false,
               error: `Could not parse schedule: "${schedule}"`,
             };
           }
+          const cronExpression = anchorRecurrence(parsedCron, job.timezone);
           updates.cronExpression = cronExpression;
 
-          const cron = new Cron(cronExpression, { timezone: job.timezone });
-          const nextRun = cron.nextRun();
+          const nextRun = nextOccurrence(cronExpression, job.timezone);
           if (nextRun) {
             updates.nextRunAt = Math.floor(nextRun.getTime() / 1000);
           }
@@ -408,6 +697,11 @@ When updating the schedule of a one-time reminder, parse the input as a specific
         }
       }
 
+      // A recurring job's trigger type follows whether it has a condition
+      if (updates.conditionPrompt !== undefined && job.isRecurring && !eventTriggered) {
+        updates.triggerType = updates.conditionPrompt ? 'condition' : 'cron';
+      }
+
       const updatedJob = updateJob(db, job_id, updates);
 
       // Get the final nextRunAt for formatting
@@ -425,9 +719,10 @@ When updating the schedule of a one-time reminder, parse the input as a specific
         : null;
 
       // Get schedule description
-      const scheduleDescription = job.isRecurring
-        ? cronToHuman(updatedJob?.cronExpression ?? job.cronExpression)
-        : 'one-time reminder';
+      const finalJob = updatedJob ?? job;
+      const scheduleDescription = finalJob.triggerType === 'once'
+        ? 'one-time reminder'
+        : describeTrigger(finalJob);
 
       console.log(JSON.stringify({
         level: 'info',
@@ -467,7 +762,7 @@ When updating the schedule of a one-time reminder, parse the input as a specific
 export const deleteScheduledJob: ToolDefinition = {
   tool: {
     name: 'delete_scheduled_job',
-    description: 'Delete a scheduled job permanently.',
+    description: 'Delete a scheduled job permanently. The deletion waits for the user to reply YES to confirmation_prompt.',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -475,10 +770,12 @@ export const deleteScheduledJob: ToolDefinition = {
           type: 'string',
           description: 'The job ID to delete',
         },
+        confirmation_prompt: CONFIRMATION_PROMPT_SCHEMA,
       },
       required: ['job_id'],
     },
   },
+  confirmationPrompt: 'Delete this scheduled job?',
   handler: async (input, context) => {
     const phoneNumber = requirePhoneNumber(context);
 
@@ -528,3 +825,259 @@ export const deleteScheduledJob: ToolDefinition = {
     }
   },
 };
+
+export const snoozeReminderTool: ToolDefinition = {
+  tool: {
+    name: 'snooze_reminder',
+    description: `Send a reminder again in a few minutes ("snooze 10", "remind me again in an hour").
+Without job_id, snoozes the last reminder sent to the user. The original schedule is unchanged.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        minutes: {
+          type: 'number',
+          description: `Minutes until the reminder is sent again (default ${DEFAULT_SNOOZE_MINUTES}, max ${MAX_SNOOZE_MINUTES})`,
+        },
+        job_id: {
+          type: 'string',
+          description: 'Job whose reminder to repeat. Omit to snooze the last reminder sent.',
+        },
+      },
+      required: [],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      minutes: { type: 'number', required: false },
+      job_id: { type: 'string', required: false },
+    });
+    if (validationError) return validationError;
+
+    const { minutes = DEFAULT_SNOOZE_MINUTES, job_id } = input as { minutes?: number; job_id?: string };
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+      return { success: false, error: `minutes must be a whole number between 1 and ${MAX_SNOOZE_MINUTES}` };
+    }
+
+    try {
+      const db = getSchedulerDb();
+
+      let reminder: SentReminder | null;
+      if (job_id) {
+        const job = getJobById(db, job_id);
+        if (!job || job.phoneNumber !== phoneNumber) {
+          return { success: false, error: 'Job not found' };
+        }
+        reminder = reminderFromJob(job);
+      } else {
+        reminder = getLastReminderSent(db, phoneNumber);
+        if (!reminder) {
+          return { success: false, error: 'No reminder has been sent yet. Pass job_id to snooze a specific reminder.' };
+        }
+      }
+
+      const snoozed = snoozeReminder(db, reminder, minutes, Math.floor(Date.now() / 1000));
+
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Reminder snoozed',
+        jobId: snoozed.id,
+        snoozedFrom: reminder.jobId,
+        minutes,
+        timestamp: new Date().toISOString(),
+      }));
+
+      return {
+        success: true,
+        job_id: snoozed.id,
+        reminder: reminder.userRequest || reminder.prompt.slice(0, 50),
+        next_run: formatJobTime(snoozed.nextRunAt * 1000, reminder.timezone),
+      };
+    } catch (error) {
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'Failed to snooze reminder',
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }));
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
+
+export const pauseJobUntilTool: ToolDefinition = {
+  tool: {
+    name: 'pause_job_until',
+    description: `Pause a scheduled job until a day ("pause my workout reminder until Monday").
+Nothing is sent before that day; recurring jobs resume at their first run on or after it.
+To pause indefinitely, use update_scheduled_job with enabled: false.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        job_id: {
+          type: 'string',
+          description: 'The job ID to pause',
+        },
+        until: {
+          type: 'string',
+          description: "Day the job resumes, in natural language. Examples: 'Monday', 'next week', 'March 3'",
+        },
+      },
+      required: ['job_id', 'until'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      job_id: { type: 'string', required: true },
+      until: { type: 'string', required: true },
+    });
+    if (validationError) return validationError;
+
+    const { job_id, until } = input as { job_id: string; until: string };
+
+    try {
+      const db = getSchedulerDb();
+      const job = getJobById(db, job_id);
+
+      if (!job || job.phoneNumber !== phoneNumber) {
+        return { success: false, error: 'Job not found' };
+      }
+
+      const untilSeconds = parseDay(until, job.timezone);
+      if (untilSeconds === null) {
+        return { success: false, error: `Could not parse date: "${until}"` };
+      }
+      if (untilSeconds <= Math.floor(Date.now() / 1000)) {
+        return { success: false, error: `"${until}" is not in the future. Pick a later day.` };
+      }
+
+      const updated = pauseJobUntil(db, job, untilSeconds);
+
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Scheduled job paused until',
+        jobId: job_id,
+        pausedUntil: new Date(untilSeconds * 1000).toISOString(),
+        timestamp: new Date().toISOString(),
+      }));
+
+      return {
+        success: true,
+        job_id,
+        paused_until: formatJobTime(untilSeconds * 1000, job.timezone),
+        next_run: formatJobTime(updated.nextRunAt * 1000, job.timezone),
+      };
+    } catch (error) {
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'Failed to pause scheduled job',
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }));
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
+
+export const skipNextOccurrenceTool: ToolDefinition = {
+  tool: {
+    name: 'skip_next_occurrence',
+    description: `Skip one run of a recurring job ("skip tomorrow's briefing"). The schedule is unchanged; later runs go out as usual.
+Without date, skips the next run.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        job_id: {
+          type: 'string',
+          description: 'The recurring job ID',
+        },
+        date: {
+          type: 'string',
+          description: "Day of the run to skip, in natural language. Examples: 'tomorrow', 'Friday'. Omit for the next run.",
+        },
+      },
+      required: ['job_id'],
+    },
+  },
+  handler: async (input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+
+    const validationError = validateInput(input, {
+      job_id: { type: 'string', required: true },
+      date: { type: 'string', required: false },
+    });
+    if (validationError) return validationError;
+
+    const { job_id, date } = input as { job_id: string; date?: string };
+
+    try {
+      const db = getSchedulerDb();
+      const job = getJobById(db, job_id);
+
+      if (!job || job.phoneNumber !== phoneNumber) {
+        return { success: false, error: 'Job not found' };
+      }
+      if (!job.isRecurring) {
+        return {
+          success: false,
+          error: 'One-time reminders have no next occurrence to skip. Delete the reminder or change its time instead.',
+        };
+      }
+      if (job.triggerType === 'calendar_event') {
+        return {
+          success: false,
+          error: 'This job runs before calendar events, so it has no scheduled occurrence to skip. Pause it with pause_job_until instead.',
+        };
+      }
+
+      let day: number | undefined;
+      if (date !== undefined) {
+        const parsedDay = parseDay(date, job.timezone);
+        if (parsedDay === null) {
+          return { success: false, error: `Could not parse date: "${date}"` };
+        }
+        day = parsedDay;
+      }
+
+      const skippedAt = skipNextOccurrence(db, job, day);
+      if (skippedAt === null) {
+        return { success: false, error: `This job has no run on "${date}".` };
+      }
+
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Scheduled job occurrence skipped',
+        jobId: job_id,
+        skippedAt: new Date(skippedAt * 1000).toISOString(),
+        timestamp: new Date().toISOString(),
+      }));
+
+      return {
+        success: true,
+        job_id,
+        skipped_run: formatJobTime(skippedAt * 1000, job.timezone),
+        schedule: describeTrigger(job),
+      };
+    } catch (error) {
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'Failed to skip scheduled job occurrence',
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }));
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
@@ -3,18 +3,46 @@
  *
  * Executes a single scheduled job by calling the LLM with the job's prompt
  * and sending the response via SMS/WhatsApp.
+ *
+ * Every execution is recorded in scheduled_job_runs. A job that fails
+ * MAX_CONSECUTIVE_FAILURES times in a row is disabled and the user is told
+ * by SMS; resuming it (update_scheduled_job enabled: true) resets the count.
+ * Runs older than JOB_RUN_RETENTION_DAYS are pruned by the poller.
+ *
+ * A job with a condition checks it first (LLM with read-only tools); when
+ * the condition is false nothing is sent and the run is recorded as skipped.
+ *
+ * Runs for a user over their usage budget are skipped too. A one-time
+ * reminder still goes out, as the user's original request without any
+ * generated content, so it isn't lost.
  */
 
-import { Cron } from 'croner';
 import type Database from 'better-sqlite3';
 import { getExecuteWithTools } from '../providers/executor.js';
 import { executeFilesystemSkillByName } from '../providers/skills.js';
 import { sendScheduledMessage } from '../providers/sms.js';
 import { getUserConfigStore } from '../../../services/user-config/index.js';
+import { isOverBudget } from '../../../services/usage/budget.js';
 import { getMemoryStore } from '../providers/memory.js';
-import { updateJob, deleteJob } from '../repo/sqlite.js';
+import {
+  updateJob,
+  deleteJob,
+  getJobById,
+  startJobRun,
+  finishJobRun,
+  deleteJobRunsBefore,
+  recordReminderSent,
+} from '../repo/sqlite.js';
+import { calculateNextRunAt } from './misfire.js';
+import type { AgentExecutionContext } from '../../../executor/types.js';
 import type { ScheduledJob, ExecutionResult } from '../types.js';
 
+/** Failed runs in a row before a job is disabled */
+export const MAX_CONSECUTIVE_FAILURES = 3;
+
+/** Days of run history kept in scheduled_job_runs */
+export const JOB_RUN_RETENTION_DAYS = 30;
+
 /**
  * System prompt for scheduled job execution.
  * Simpler than interactive prompt - just generate the requested content.
@@ -31,13 +59,32 @@ If any tool returns auth_required: true with an auth_url, you MUST include the e
 Format: "To access your [calendar/email], tap this link: [paste the exact auth_url here]"
 Never paraphrase or omit the URL - the user needs this link to fix the issue.`;
 
+/**
+ * System prompt for checking a job's condition before anything is generated.
+ */
+const CONDITION_SYSTEM_PROMPT = `You are checking whether a condition holds before a scheduled message is sent to the user.
+Use the read-only tools to gather what you need (calendar events, etc).
+Do not write the message itself.
+Reply with only a JSON object: {"met": true or false, "reason": "one short sentence"}`;
+
+/**
+ * Result of checking a job's condition.
+ */
+interface ConditionCheck {
+  met: boolean;
+  reason: string;
+  tokenUsage?: { input: number; output: number };
+}
+
 /**
  * Execute a single scheduled job.
  *
- * 1. Load user config for context
- * 2. Call LLM with job prompt and read-only tools
- * 3. Send response via SMS/WhatsApp
- * 4. Update next_run_at for next execution
+ * 1. Skip the run if the user is over their usage budget
+ * 2. Load user config for context
+ * 3. Check the job's condition, if any (false: skip without sending)
+ * 4. Call LLM with job prompt and read-only tools
+ * 5. Send response via SMS/WhatsApp
+ * 6. Update next_run_at for next execution
  */
 export async function executeJob(
   db: Database.Database,
@@ -46,26 +93,65 @@ export async function executeJob(
 ): Promise<ExecutionResult> {
   const startTime = Date.now();
   logJobStart(job);
+  const runId = startJobRun(db, job, startTime);
 
   try {
+    if (await isOverBudget(job.phoneNumber)) {
+      if (!job.isRecurring) {
+        await sendScheduledMessage(
+          job.phoneNumber,
+          job.channel,
+          `Reminder: ${job.userRequest ?? job.prompt}\n(You've reached your usage limit, so I couldn't prepare anything more.)`
+        );
+      }
+      skipRun(db, job, runId, 'Usage budget exceeded');
+      return { success: true, skipped: true };
+    }
+
     // Load user config for context
     const userConfigStore = getUserConfigStore();
     const userConfig = await userConfigStore.get(job.phoneNumber);
     const memoryStore = getMemoryStore();
     const userFacts = await memoryStore.getFacts(job.phoneNumber);
+    const executionContext: AgentExecutionContext = {
+      phoneNumber: job.phoneNumber,
+      channel: job.channel,
+      userConfig,
+      userFacts,
+      previousStepResults: {},
+      usagePurpose: 'scheduler',
+    };
+
+    // Build time context for the prompt
+    const now = new Date();
+    const timezone = userConfig?.timezone ?? job.timezone;
+    const timeContext = timezone
+      ? now.toLocaleString('en-US', {
+          timeZone: timezone,
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+          timeZoneName: 'short',
+        })
+      : now.toISOString();
+
+    if (job.conditionPrompt) {
+      const condition = await checkCondition(job.conditionPrompt, timeContext, readOnlyToolNames, executionContext);
+      if (!condition.met) {
+        skipRun(db, job, runId, `Condition not met${condition.reason ? `: ${condition.reason}` : ''}`, condition.tokenUsage);
+        return { success: true, skipped: true };
+      }
+    }
 
     // Skill-based execution path
     if (job.skillName) {
       const skillResult = await executeFilesystemSkillByName(
         job.skillName,
         job.prompt,
-        {
-          phoneNumber: job.phoneNumber,
-          channel: job.channel,
-          userConfig,
-          userFacts,
-          previousStepResults: {},
-        },
+        executionContext,
         'scheduler'
       );
 
@@ -92,7 +178,7 @@ export async function executeJob(
       const nowSeconds = Math.floor(Date.now() / 1000);
       let scheduledNextRunAt: number | null = null;
       if (job.isRecurring) {
-        scheduledNextRunAt = calculateNextRun(job.cronExpression, job.timezone);
+        scheduledNextRunAt = calculateNextRunAt(job, nowSeconds);
         await updateJob(db, job.id, { nextRunAt: scheduledNextRunAt, lastRunAt: nowSeconds });
       } else {
         deleteJob(db, job.id);
@@ -101,9 +187,11 @@ export async function executeJob(
       const durationMs = Date.now() - startTime;
       if (skillError) {
         logJobError(job, skillError, durationMs);
+        await recordFailure(db, job, runId, skillError, response);
         return { success: false, error: skillError };
       }
 
+      recordSuccess(db, job, runId, response);
       if (job.isRecurring && scheduledNextRunAt !== null) {
         logJobSuccess(job, durationMs, scheduledNextRunAt);
       } else {
@@ -112,22 +200,6 @@ export async function executeJob(
       return { success: true };
     }
 
-    // Build time context for the prompt
-    const now = new Date();
-    const timezone = userConfig?.timezone ?? job.timezone;
-    const timeContext = timezone
-      ? now.toLocaleString('en-US', {
-          timeZone: timezone,
-          weekday: 'long',
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric',
-          hour: 'numeric',
-          minute: '2-digit',
-          timeZoneName: 'short',
-        })
-      : now.toISOString();
-
     const systemPrompt = `**Current time: ${timeContext}**\n\n${JOB_SYSTEM_PROMPT}`;
 
     // Call LLM with job prompt and restricted tools via injected executor
@@ -136,13 +208,7 @@ export async function executeJob(
       systemPrompt,
       job.prompt,
       readOnlyToolNames,
-      {
-        phoneNumber: job.phoneNumber,
-        channel: job.channel,
-        userConfig,
-        userFacts,
-        previousStepResults: {},
-      },
+      executionContext,
       { initialMessages: [{ role: 'user', content: job.prompt }] }
     );
 
@@ -163,7 +229,7 @@ export async function executeJob(
 
     if (job.isRecurring) {
       // Recurring job: calculate next run time and update
-      const nextRunAt = calculateNextRun(job.cronExpression, job.timezone);
+      const nextRunAt = calculateNextRunAt(job, nowSeconds);
       await updateJob(db, job.id, {
         nextRunAt,
         lastRunAt: nowSeconds,
@@ -175,6 +241,14 @@ export async function executeJob(
       logOneTimeComplete(job, Date.now() - startTime);
     }
 
+    // The user got an apology message, but the run still counts as failed
+    if (!execResult.success) {
+      const runError = new Error(execResult.error ?? 'unknown error');
+      await recordFailure(db, job, runId, runError, response, execResult.tokenUsage);
+      return { success: false, error: runError };
+    }
+
+    recordSuccess(db, job, runId, response, execResult.tokenUsage);
     return { success: true };
 
   } catch (error) {
@@ -184,8 +258,8 @@ export async function executeJob(
     // For one-time jobs, keep them in the DB so they can retry next cycle.
     try {
       if (job.isRecurring) {
-        const nextRunAt = calculateNextRun(job.cronExpression, job.timezone);
         const nowSeconds = Math.floor(Date.now() / 1000);
+        const nextRunAt = calculateNextRunAt(job, nowSeconds);
         await updateJob(db, job.id, {
           nextRunAt,
           lastRunAt: nowSeconds,
@@ -207,21 +281,169 @@ export async function executeJob(
       }));
     }
 
+    await recordFailure(db, job, runId, error as Error);
     return { success: false, error: error as Error };
   }
 }
 
 /**
- * Calculate the next run time for a cron expression.
- * Returns Unix timestamp in seconds.
+ * Drop finished runs past the retention window.
+ * Returns the number of deleted runs.
  */
-function calculateNextRun(cronExpression: string, timezone: string): number {
-  const cron = new Cron(cronExpression, { timezone });
-  const nextRun = cron.nextRun();
-  if (!nextRun) {
-    throw new Error(`Could not calculate next run for cron: ${cronExpression}`);
+export function pruneJobRunHistory(db: Database.Database, now: number = Date.now()): number {
+  return deleteJobRunsBefore(db, now - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Ask the LLM whether a job's condition holds right now.
+ * Throws when it can't tell, so the run counts as failed.
+ */
+async function checkCondition(
+  conditionPrompt: string,
+  timeContext: string,
+  readOnlyToolNames: string[],
+  context: AgentExecutionContext
+): Promise<ConditionCheck> {
+  const executeWithTools = getExecuteWithTools();
+  const task = `Condition: ${conditionPrompt}`;
+  const result = await executeWithTools(
+    `**Current time: ${timeContext}**\n\n${CONDITION_SYSTEM_PROMPT}`,
+    task,
+    readOnlyToolNames,
+    context,
+    { initialMessages: [{ role: 'user', content: task }] }
+  );
+
+  if (!result.success) {
+    throw new Error(`Could not check condition: ${result.error ?? 'unknown error'}`);
+  }
+  const verdict = typeof result.output === 'string' ? parseConditionVerdict(result.output) : null;
+  if (!verdict) {
+    throw new Error('Could not check condition: unexpected response');
+  }
+  return { ...verdict, tokenUsage: result.tokenUsage };
+}
+
+/**
+ * Pull {"met": boolean, "reason": string} out of a model response,
+ * tolerating code fences and stray prose around it.
+ */
+function parseConditionVerdict(text: string): { met: boolean; reason: string } | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1)) as Record<string, unknown>;
+    if (typeof parsed.met !== 'boolean') return null;
+    return { met: parsed.met, reason: typeof parsed.reason === 'string' ? parsed.reason : '' };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finish a run that generated nothing (condition false, or over budget):
+ * the run is recorded as skipped and the job moves on (one-time jobs are
+ * removed).
+ */
+function skipRun(
+  db: Database.Database,
+  job: ScheduledJob,
+  runId: number,
+  reason: string,
+  tokenUsage?: { input: number; output: number }
+): void {
+  finishJobRun(db, runId, {
+    status: 'skipped',
+    finishedAt: Date.now(),
+    error: reason,
+    tokenUsage,
+  });
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (job.isRecurring) {
+    updateJob(db, job.id, { nextRunAt: calculateNextRunAt(job, nowSeconds), lastRunAt: nowSeconds });
+  } else {
+    deleteJob(db, job.id);
+  }
+
+  console.log(JSON.stringify({
+    event: 'job_run_skipped',
+    jobId: job.id,
+    reason,
+    timestamp: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Record a successful run, reset the job's failure count, and remember
+ * the reminder so a "snooze" reply can find it.
+ */
+function recordSuccess(
+  db: Database.Database,
+  job: ScheduledJob,
+  runId: number,
+  output: string,
+  tokenUsage?: { input: number; output: number }
+): void {
+  finishJobRun(db, runId, { status: 'success', finishedAt: Date.now(), output, tokenUsage });
+  recordReminderSent(db, job, Math.floor(Date.now() / 1000));
+  if (job.isRecurring && job.consecutiveFailures > 0) {
+    updateJob(db, job.id, { consecutiveFailures: 0 });
   }
-  return Math.floor(nextRun.getTime() / 1000);
+}
+
+/**
+ * Record a failed run. After MAX_CONSECUTIVE_FAILURES in a row the job is
+ * disabled and the user is told why and how to resume it.
+ * Never throws: bookkeeping must not mask the original failure.
+ */
+async function recordFailure(
+  db: Database.Database,
+  job: ScheduledJob,
+  runId: number,
+  error: Error,
+  output?: string,
+  tokenUsage?: { input: number; output: number }
+): Promise<void> {
+  try {
+    finishJobRun(db, runId, { status: 'failed', finishedAt: Date.now(), error: error.message, output, tokenUsage });
+
+    // One-time jobs that already sent their apology are gone
+    const current = getJobById(db, job.id);
+    if (!current) return;
+
+    const failures = current.consecutiveFailures + 1;
+    if (failures < MAX_CONSECUTIVE_FAILURES) {
+      updateJob(db, job.id, { consecutiveFailures: failures });
+      return;
+    }
+
+    updateJob(db, job.id, {
+      consecutiveFailures: failures,
+      enabled: false,
+      disabledReason: error.message,
+    });
+    logJobDisabled(job, failures, error);
+    await sendScheduledMessage(job.phoneNumber, job.channel, formatDisabledNotice(current, failures, error));
+  } catch (recordError) {
+    console.error(JSON.stringify({
+      event: 'job_run_record_error',
+      jobId: job.id,
+      error: (recordError as Error).message,
+      timestamp: new Date().toISOString(),
+    }));
+  }
+}
+
+/**
+ * SMS sent when a job is disabled after repeated failures.
+ */
+function formatDisabledNotice(job: ScheduledJob, failures: number, error: Error): string {
+  const label = job.userRequest || job.prompt.slice(0, 50);
+  return `I paused your scheduled task "${label}" after it failed ${failures} times in a row `
+    + `(last error: ${error.message}). Ask me to resume it once the problem is fixed.`;
 }
 
 /**
@@ -262,6 +484,19 @@ function logOneTimeComplete(job: ScheduledJob, durationMs: number): void {
   }));
 }
 
+/**
+ * Log a job being disabled after repeated failures.
+ */
+function logJobDisabled(job: ScheduledJob, failures: number, error: Error): void {
+  console.warn(JSON.stringify({
+    event: 'job_auto_disabled',
+    jobId: job.id,
+    consecutiveFailures: failures,
+    error: error.message,
+    timestamp: new Date().toISOString(),
+  }));
+}
+
 /**
  * Log job execution error.
  */
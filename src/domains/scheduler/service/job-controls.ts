@@ -0,0 +1,174 @@
+/**
+ * @fileoverview User controls for scheduled jobs: snooze, pause until, skip next.
+ *
+ * - Snooze repeats a reminder later as a one-time job (snoozed_from links it
+ *   to the original). Snoozing again before it fires moves the pending snooze
+ *   rather than adding another.
+ * - Pause until holds a job until a date (paused_until); a recurring job
+ *   resumes at its first occurrence on or after that date.
+ * - Skip next marks one occurrence (skip_next_at); the poller records it as
+ *   a skipped run and moves on without sending anything.
+ *
+ * "snooze 10" replies to a reminder SMS are matched to the last reminder sent
+ * to that phone number (scheduled_last_reminders).
+ */
+
+import { DateTime } from 'luxon';
+import type Database from 'better-sqlite3';
+import {
+  createJob,
+  updateJob,
+  getSnoozeOfJob,
+  getLastReminderSent,
+  startJobRun,
+  finishJobRun,
+} from '../repo/sqlite.js';
+import { calculateNextRunAt } from './misfire.js';
+import { nextOccurrence } from './recurrence.js';
+import type { ScheduledJob, SentReminder } from '../types.js';
+
+export const DEFAULT_SNOOZE_MINUTES = 10;
+export const MAX_SNOOZE_MINUTES = 24 * 60;
+
+/** A "snooze" reply only applies to a reminder sent this recently */
+export const SNOOZE_REPLY_WINDOW_SECONDS = 12 * 60 * 60;
+
+const SNOOZE_REPLY_PATTERN = /^\s*snooze(?:\s+(?:for\s+)?(\d{1,4})\s*(m|mins?|minutes?|h|hrs?|hours?)?)?\s*[.!]?\s*$/i;
+
+/**
+ * Parse a "snooze", "snooze 10", "snooze 1h" reply.
+ * Returns minutes, or null when the message isn't a snooze reply.
+ */
+export function parseSnoozeReply(message: string): number | null {
+  const match = message.match(SNOOZE_REPLY_PATTERN);
+  if (!match) return null;
+  if (!match[1]) return DEFAULT_SNOOZE_MINUTES;
+
+  const amount = parseInt(match[1], 10);
+  const minutes = match[2]?.toLowerCase().startsWith('h') ? amount * 60 : amount;
+  return minutes >= 1 && minutes <= MAX_SNOOZE_MINUTES ? minutes : null;
+}
+
+/**
+ * The reminder a job would send, for snoozing a job by ID.
+ */
+export function reminderFromJob(job: ScheduledJob): SentReminder {
+  return {
+    phoneNumber: job.phoneNumber,
+    jobId: job.id,
+    channel: job.channel,
+    userRequest: job.userRequest,
+    prompt: job.prompt,
+    skillName: job.skillName,
+    timezone: job.timezone,
+    sentAt: job.lastRunAt ?? 0,
+  };
+}
+
+/**
+ * Send a reminder again in `minutes`. Returns the one-time job that will send it.
+ */
+export function snoozeReminder(
+  db: Database.Database,
+  reminder: SentReminder,
+  minutes: number,
+  nowSeconds: number
+): ScheduledJob {
+  const nextRunAt = nowSeconds + minutes * 60;
+
+  const pending = getSnoozeOfJob(db, reminder.phoneNumber, reminder.jobId);
+  if (pending) {
+    return updateJob(db, pending.id, { nextRunAt }) ?? pending;
+  }
+
+  return createJob(db, {
+    phoneNumber: reminder.phoneNumber,
+    channel: reminder.channel,
+    userRequest: reminder.userRequest,
+    prompt: reminder.prompt,
+    skillName: reminder.skillName,
+    cronExpression: '@once',
+    timezone: reminder.timezone,
+    nextRunAt,
+    isRecurring: false,
+    snoozedFrom: reminder.jobId,
+  });
+}
+
+/**
+ * Handle a "snooze 10" style reply to a reminder SMS.
+ * Returns the confirmation to send, or null when the message isn't a snooze
+ * reply or no reminder was sent recently.
+ */
+export function handleSnoozeReply(
+  db: Database.Database,
+  phoneNumber: string,
+  message: string,
+  nowSeconds: number
+): string | null {
+  const minutes = parseSnoozeReply(message);
+  if (minutes === null) return null;
+
+  const reminder = getLastReminderSent(db, phoneNumber);
+  if (!reminder || nowSeconds - reminder.sentAt > SNOOZE_REPLY_WINDOW_SECONDS) return null;
+
+  const snoozed = snoozeReminder(db, reminder, minutes, nowSeconds);
+  const label = reminder.userRequest || reminder.prompt.slice(0, 50);
+  const time = DateTime.fromSeconds(snoozed.nextRunAt, { zone: reminder.timezone }).toFormat('h:mm a');
+  return `Snoozed "${label}" until ${time}.`;
+}
+
+/**
+ * Hold a job until `untilSeconds`. Returns the updated job.
+ */
+export function pauseJobUntil(db: Database.Database, job: ScheduledJob, untilSeconds: number): ScheduledJob {
+  let nextRunAt = Math.max(job.nextRunAt, untilSeconds);
+  if (job.isRecurring && job.triggerType !== 'calendar_event') {
+    // First occurrence at or after the pause ends
+    const nextRun = nextOccurrence(job.cronExpression, job.timezone, new Date((untilSeconds - 1) * 1000));
+    if (!nextRun) {
+      throw new Error(`Could not calculate next run for cron: ${job.cronExpression}`);
+    }
+    nextRunAt = Math.floor(nextRun.getTime() / 1000);
+  }
+
+  return updateJob(db, job.id, { pausedUntil: untilSeconds, nextRunAt, skipNextAt: null }) ?? job;
+}
+
+/**
+ * Mark an occurrence of a recurring job as skipped: the next one, or the
+ * first on `day` (Unix seconds of any time that day). Returns the skipped
+ * occurrence time, or null when the job has no occurrence that day.
+ */
+export function skipNextOccurrence(db: Database.Database, job: ScheduledJob, day?: number): number | null {
+  let occurrence = job.nextRunAt;
+  if (day !== undefined) {
+    const dayStart = DateTime.fromSeconds(day, { zone: job.timezone }).startOf('day');
+    const from = Math.max(job.nextRunAt - 1, Math.floor(dayStart.toSeconds()) - 1);
+    const nextRun = nextOccurrence(job.cronExpression, job.timezone, new Date(from * 1000));
+    if (!nextRun || nextRun.getTime() >= dayStart.plus({ days: 1 }).toMillis()) {
+      return null;
+    }
+    occurrence = Math.floor(nextRun.getTime() / 1000);
+  }
+
+  updateJob(db, job.id, { skipNextAt: occurrence });
+  return occurrence;
+}
+
+/**
+ * Whether the poller should skip this due run because the user asked to.
+ */
+export function isSkippedOccurrence(job: ScheduledJob): boolean {
+  return job.skipNextAt !== undefined && job.skipNextAt === job.nextRunAt;
+}
+
+/**
+ * Skip a due run the user asked to skip: record it and move to the next occurrence.
+ */
+export function skipUserSkippedRun(db: Database.Database, job: ScheduledJob, nowSeconds: number): void {
+  const now = Date.now();
+  const runId = startJobRun(db, job, now);
+  finishJobRun(db, runId, { status: 'skipped', finishedAt: now, error: 'Skipped at the user\'s request' });
+  updateJob(db, job.id, { nextRunAt: calculateNextRunAt(job, nowSeconds), skipNextAt: null });
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Misfire handling for overdue scheduled jobs.
+ *
+ * A run is on time when the poller picks it up within the job's grace
+ * window after next_run_at. Later than that it has misfired (usually the
+ * process was down) and the job's misfire policy decides what happens.
+ *
+ * Jobs without their own policy use the default for their kind: reminders
+ * (plain prompt jobs, one-time or recurring) still fire late, since a late
+ * reminder beats a lost one; skill jobs such as briefings skip a stale
+ * occurrence and wait for the next one.
+ */
+
+import type Database from 'better-sqlite3';
+import { updateJob, deleteJob, startJobRun, finishJobRun } from '../repo/sqlite.js';
+import { CALENDAR_CHECK_INTERVAL_SECONDS } from './triggers.js';
+import { nextOccurrence } from './recurrence.js';
+import type { MisfirePolicy, ScheduledJob } from '../types.js';
+
+export const MISFIRE_POLICIES: MisfirePolicy[] = ['fire_once', 'skip', 'run_all'];
+
+export interface ResolvedMisfirePolicy {
+  policy: MisfirePolicy;
+  graceMinutes: number;
+}
+
+/** Defaults by job kind, used when a job doesn't set its own */
+export const MISFIRE_DEFAULTS: Record<'reminder' | 'skill', ResolvedMisfirePolicy> = {
+  reminder: { policy: 'fire_once', graceMinutes: 5 },
+  skill: { policy: 'skip', graceMinutes: 60 },
+};
+
+export interface MisfireCheck extends ResolvedMisfirePolicy {
+  lateSeconds: number;
+  /** Later than the grace window allows */
+  misfired: boolean;
+  action: 'run' | 'skip';
+}
+
+/**
+ * The job's misfire policy and grace window, filling in the defaults for
+ * its kind.
+ */
+export function resolveMisfirePolicy(job: ScheduledJob): ResolvedMisfirePolicy {
+  const defaults = job.skillName ? MISFIRE_DEFAULTS.skill : MISFIRE_DEFAULTS.reminder;
+  return {
+    policy: job.misfirePolicy ?? defaults.policy,
+    graceMinutes: job.misfireGraceMinutes ?? defaults.graceMinutes,
+  };
+}
+
+/**
+ * Decide whether a due job should run now.
+ */
+export function checkMisfire(job: ScheduledJob, nowSeconds: number): MisfireCheck {
+  const resolved = resolveMisfirePolicy(job);
+  const lateSeconds = Math.max(0, nowSeconds - job.nextRunAt);
+  const misfired = lateSeconds > resolved.graceMinutes * 60;
+  return {
+    ...resolved,
+    lateSeconds,
+    misfired,
+    action: misfired && resolved.policy === 'skip' ? 'skip' : 'run',
+  };
+}
+
+/**
+ * Next run time for a recurring job once its current occurrence is done.
+ * Returns Unix timestamp in seconds.
+ *
+ * run_all steps from the occurrence just handled, so missed occurrences
+ * come due one after another; other policies continue from the next
+ * occurrence after now. calendar_event jobs have no schedule of their own:
+ * this is their next calendar check.
+ */
+export function calculateNextRunAt(job: ScheduledJob, nowSeconds: number): number {
+  if (job.triggerType === 'calendar_event') {
+    return nowSeconds + CALENDAR_CHECK_INTERVAL_SECONDS;
+  }
+
+  const from = resolveMisfirePolicy(job).policy === 'run_all' ? job.nextRunAt : nowSeconds;
+  const nextRun = nextOccurrence(job.cronExpression, job.timezone, new Date(from * 1000));
+  if (!nextRun) {
+    throw new Error(`Could not calculate next run for cron: ${job.cronExpression}`);
+  }
+  return Math.floor(nextRun.getTime() / 1000);
+}
+
+/**
+ * Drop a stale occurrence: record it as a skipped run and move the job on
+ * to its next future occurrence (one-time jobs are removed).
+ */
+export function skipMissedRun(db: Database.Database, job: ScheduledJob, check: MisfireCheck, nowSeconds: number): void {
+  const now = Date.now();
+  const runId = startJobRun(db, job, now);
+  finishJobRun(db, runId, {
+    status: 'skipped',
+    finishedAt: now,
+    error: `Missed by ${Math.round(check.lateSeconds / 60)} min (grace window ${check.graceMinutes} min)`,
+  });
+
+  if (job.isRecurring) {
+    updateJob(db, job.id, { nextRunAt: calculateNextRunAt(job, nowSeconds) });
+  } else {
+    deleteJob(db, job.id);
+  }
+}
@@ -3,11 +3,22 @@
  *
  * Converts user-friendly schedule descriptions to either:
  * - Cron expressions for recurring schedules ("daily at 9am" → "0 9 * * *")
+ * - RRULE-style rules for recurring schedules cron can't express
+ *   ("every other Tuesday at 9am" → "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;...")
  * - Unix timestamps for one-time reminders ("tomorrow at 9am" → 1737500400)
  */
 
 import * as chrono from 'chrono-node';
+import { DateTime } from 'luxon';
 import { resolveDate } from '../../../services/date/resolver.js';
+import {
+  anchorRecurrence,
+  formatRecurrenceRule,
+  isRecurrenceRule,
+  parseRecurrenceRule,
+  type RecurrenceDay,
+  type RecurrenceRule,
+} from './recurrence.js';
 
 /**
  * Result of parsing a schedule string.
@@ -15,7 +26,7 @@ import { resolveDate } from '../../../services/date/resolver.js';
  */
 export interface ParsedSchedule {
   type: 'recurring' | 'once';
-  cronExpression?: string; // For recurring schedules
+  cronExpression?: string; // For recurring schedules (cron or RRULE-style rule)
   runAtTimestamp?: number; // For one-time (Unix seconds)
 }
 
@@ -42,6 +53,14 @@ const RECURRING_KEYWORDS = [
   'every hour',
   'hourly',
   'every minute',
+  'every other',
+  'of the month',
+  'of each month',
+  'of every month',
+  'business day',
+  'twice a day',
+  'twice daily',
+  'times a day',
 ];
 
 /**
@@ -55,8 +74,8 @@ function isRecurringSchedule(input: string): boolean {
     return true;
   }
 
-  // Check "every N minutes/hours" pattern
-  if (/every\s+\d+\s*(minute|hour)/i.test(normalized)) {
+  // Check "every N minutes/hours/days/weeks" pattern
+  if (/every\s+\d+\s*(minute|hour|day|week)/i.test(normalized)) {
     return true;
   }
 
@@ -71,6 +90,8 @@ function isRecurringSchedule(input: string): boolean {
  * - "every Monday at noon"
  * - "every weekday at 8am"
  * - "every 30 minutes"
+ * - "every other Tuesday", "first Monday of the month", "last business day"
+ * - "every 2 weeks", "every other Monday and Wednesday"
  *
  * One-time patterns (returns timestamp):
  * - "tomorrow at 9am"
@@ -79,7 +100,11 @@ function isRecurringSchedule(input: string): boolean {
  * - "January 15 at 10am"
  *
  * @param input - Natural language schedule
- * @param timezone - IANA timezone for interpreting the time (used for one-time)
+ * @param timezone - IANA timezone for interpreting the time (one-time), and for
+ *   anchoring interval rules like "every other Tuesday" to their first occurrence
+ * Input with a recurring keyword is never turned into a one-time reminder:
+ * if no recurring pattern matches it, the result is null.
+ *
  * @returns ParsedSchedule or null if unparseable
  */
 export function parseSchedule(input: string, timezone: string): ParsedSchedule | null {
@@ -93,8 +118,10 @@ export function parseSchedule(input: string, timezone: string): ParsedSchedule |
   if (isRecurringSchedule(normalized)) {
     const cron = parseScheduleToCron(input);
     if (cron) {
-      return { type: 'recurring', cronExpression: cron };
+      return { type: 'recurring', cronExpression: anchorRecurrence(cron, timezone) };
     }
+    // "twice a day at 8:30 and 5" has times in it but is never a one-time reminder
+    return null;
   }
 
   // Otherwise, try to parse as a one-time reminder
@@ -106,7 +133,7 @@ export function parseSchedule(input: string, timezone: string): ParsedSchedule |
   // Final fallback: if it didn't match recurring keywords but might be a cron pattern
   const cron = parseScheduleToCron(input);
   if (cron) {
-    return { type: 'recurring', cronExpression: cron };
+    return { type: 'recurring', cronExpression: anchorRecurrence(cron, timezone) };
   }
 
   return null;
@@ -145,6 +172,31 @@ export function parseReminderTime(input: string, timezone: string): number | nul
   }
 }
 
+/**
+ * Parse a natural language day into the start of that day.
+ *
+ * Examples: "Monday", "tomorrow", "March 3"
+ *
+ * @param input - Natural language day
+ * @param timezone - IANA timezone the day is in
+ * @returns Unix timestamp in seconds (local midnight), or null if unparseable
+ */
+export function parseDay(input: string, timezone: string): number | null {
+  if (!input || typeof input !== 'string') {
+    return null;
+  }
+
+  try {
+    const result = resolveDate(input, { timezone, referenceDate: new Date(), forwardDate: true });
+    if (!result) {
+      return null;
+    }
+    return Math.floor(DateTime.fromSeconds(result.timestamp, { zone: timezone }).startOf('day').toSeconds());
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Day name to cron day number mapping.
  * Cron uses 0=Sunday, 1=Monday, ..., 6=Saturday
@@ -166,6 +218,158 @@ const DAY_MAP: Record<string, number> = {
   sat: 6,
 };
 
+const DAY_NAME_PATTERN = Object.keys(DAY_MAP).join('|');
+
+/** One day name, or a list of them: "monday", "mondays and wednesdays", "mon, wed & fri" */
+const DAY_WORD_PATTERN = `(?:${DAY_NAME_PATTERN})s?\\b`;
+const DAY_LIST_PATTERN = `${DAY_WORD_PATTERN}(?:\\s*(?:,|&|\\band\\b)\\s*(?:and\\s+)?${DAY_WORD_PATTERN})*`;
+
+/** "first" → 1, "last" → -1, for "first Monday of the month" */
+const ORDINAL_MAP: Record<string, number> = {
+  first: 1,
+  '1st': 1,
+  second: 2,
+  '2nd': 2,
+  third: 3,
+  '3rd': 3,
+  fourth: 4,
+  '4th': 4,
+  last: -1,
+};
+
+const ORDINAL_PATTERN = Object.keys(ORDINAL_MAP).join('|');
+
+/** How many times a day "twice a day" etc. mean */
+const TIMES_A_DAY: Record<string, number> = {
+  twice: 2,
+  'two times': 2,
+  'three times': 3,
+};
+
+const TIMES_A_DAY_PATTERN = /\b(twice|two times|three times)\s+(?:a|per)\s+day\b|\btwice\s+daily\b/;
+
+/** Longest "every N days" / "every N weeks" interval accepted */
+const MAX_DAY_INTERVAL = 30;
+const MAX_WEEK_INTERVAL = 12;
+
+/** Time of day for day-level rules given without one ("every 3 days") */
+const DEFAULT_RULE_TIME = { hour: 9, minute: 0 };
+
+/** Monday to Friday as recurrence weekdays */
+const BUSINESS_DAYS: RecurrenceDay[] = [1, 2, 3, 4, 5].map((weekday) => ({ weekday }));
+
+/**
+ * Cron day number (0=Sunday) to recurrence weekday (1=Monday ... 7=Sunday).
+ */
+function toRecurrenceWeekday(cronDay: number): number {
+  return cronDay === 0 ? 7 : cronDay;
+}
+
+/**
+ * Parse the schedules cron can't express into an RRULE-style rule:
+ * "every other Tuesday", "every 3 days", "first Monday of the month",
+ * "last business day". Without a time they run at 9 AM.
+ */
+function parseRecurrencePattern(input: string): string | null {
+  const rule = (match: RegExpMatchArray, parts: Omit<RecurrenceRule, 'byHour' | 'byMinute'>): string => {
+    const time = extractTime(input.replace(match[0], ' ')) ?? DEFAULT_RULE_TIME;
+    return formatRecurrenceRule({ ...parts, byHour: [time.hour], byMinute: time.minute });
+  };
+
+  // Pattern: "every other day", "every 3 days"
+  const daysMatch = input.match(/every\s+(other|\d+)\s+days?\b/);
+  if (daysMatch) {
+    const interval = daysMatch[1] === 'other' ? 2 : parseInt(daysMatch[1], 10);
+    return interval >= 2 && interval <= MAX_DAY_INTERVAL
+      ? rule(daysMatch, { freq: 'DAILY', interval, byDay: [] })
+      : null;
+  }
+
+  // Pattern: "every other Tuesday", "every 2 weeks on Monday", "every other
+  // Monday and Wednesday", "every 2 weeks" (on the first run's weekday)
+  const weeksMatch = input.match(
+    new RegExp(`every\\s+(other|\\d+)\\s+(weeks?\\b)?(?:\\s*on\\b)?\\s*(${DAY_LIST_PATTERN})?`)
+  );
+  if (weeksMatch && (weeksMatch[2] || weeksMatch[3])) {
+    const interval = weeksMatch[1] === 'other' ? 2 : parseInt(weeksMatch[1], 10);
+    const weekdays = (weeksMatch[3] ?? '')
+      .split(/[^a-z]+/)
+      .map((word) => DAY_MAP[word] ?? DAY_MAP[word.replace(/s$/, '')])
+      .filter((day): day is number => day !== undefined)
+      .map(toRecurrenceWeekday);
+    const byDay = [...new Set(weekdays)].sort((a, b) => a - b).map((weekday) => ({ weekday }));
+    return interval >= 2 && interval <= MAX_WEEK_INTERVAL
+      ? rule(weeksMatch, { freq: 'WEEKLY', interval, byDay })
+      : null;
+  }
+
+  // Pattern: "first Monday of the month", "last Friday of every month"
+  const nthDayMatch = input.match(
+    new RegExp(`\\b(${ORDINAL_PATTERN})\\s+(${DAY_NAME_PATTERN})\\s+of\\s+(?:the|each|every)\\s+month\\b`)
+  );
+  if (nthDayMatch) {
+    const weekday = toRecurrenceWeekday(DAY_MAP[nthDayMatch[2]]);
+    return rule(nthDayMatch, {
+      freq: 'MONTHLY',
+      interval: 1,
+      byDay: [{ weekday, ordinal: ORDINAL_MAP[nthDayMatch[1]] }],
+    });
+  }
+
+  // Pattern: "last business day", "first working day of the month"
+  const businessDayMatch = input.match(
+    /\b(first|1st|last)\s+(?:business|work(?:ing)?)\s+day\b(?:\s+of\s+(?:the|each|every)\s+month\b)?/
+  );
+  if (businessDayMatch) {
+    return rule(businessDayMatch, {
+      freq: 'MONTHLY',
+      interval: 1,
+      byDay: BUSINESS_DAYS,
+      bySetPos: ORDINAL_MAP[businessDayMatch[1]],
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Parse "twice a day at 8 and 8" into a daily cron with an hour list
+ * ("0 8,20 * * *"). A bare hour no later than the one before it is PM.
+ * Returns null unless every time is given and they share a minute.
+ */
+function parseTimesADay(input: string): string | null {
+  const match = input.match(TIMES_A_DAY_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const count = match[1] ? TIMES_A_DAY[match[1]] : 2;
+
+  const timesMatch = input.slice((match.index ?? 0) + match[0].length).match(/\bat\s+(.+)$/);
+  if (!timesMatch) {
+    return null;
+  }
+
+  const times: Array<{ hour: number; minute: number }> = [];
+  for (const part of timesMatch[1].split(/\s*(?:,|\band\b|&)\s*/).filter(Boolean)) {
+    const time = parseClockTime(part.replace(/^at\s+/, ''));
+    if (!time) return null;
+    const previous = times[times.length - 1];
+    if (previous && !/am|pm/.test(part) && time.hour < 12 && time.hour <= previous.hour) {
+      time.hour += 12;
+    }
+    times.push(time);
+  }
+
+  if (times.length !== count || times.some((t) => t.minute !== times[0].minute)) {
+    return null;
+  }
+  const hours = [...new Set(times.map((t) => t.hour))].sort((a, b) => a - b);
+  if (hours.length !== count) {
+    return null;
+  }
+  return `${times[0].minute} ${hours.join(',')} * * *`;
+}
+
 /**
  * Parse a natural language schedule into a cron expression.
  *
@@ -176,8 +380,17 @@ const DAY_MAP: Record<string, number> = {
  * - "every monday at noon" → "0 12 * * 1"
  * - "every hour" → "0 * * * *"
  * - "every 30 minutes" → "* /30 * * * *"
+ * - "twice a day at 8 and 8" → "0 8,20 * * *"
+ * - "every other tuesday at 9am" → "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0"
+ * - "every other monday and wednesday" → "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0"
+ * - "every 2 weeks" → "RRULE:FREQ=WEEKLY;INTERVAL=2;BYHOUR=9;BYMINUTE=0" (weekday set when anchored)
+ * - "every 3 days" → "RRULE:FREQ=DAILY;INTERVAL=3;BYHOUR=9;BYMINUTE=0"
+ * - "first monday of the month" → "RRULE:FREQ=MONTHLY;BYDAY=1MO;BYHOUR=9;BYMINUTE=0"
+ * - "last business day" → "RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;BYHOUR=9;BYMINUTE=0"
  *
- * @returns Cron expression string or null if unparseable
+ * Interval rules come back without DTSTART; parseSchedule() anchors them.
+ *
+ * @returns Cron expression or RRULE-style rule, or null if unparseable
  */
 export function parseScheduleToCron(schedule: string): string | null {
   if (!schedule || typeof schedule !== 'string') {
@@ -186,6 +399,17 @@ export function parseScheduleToCron(schedule: string): string | null {
 
   const input = schedule.toLowerCase().trim();
 
+  // Patterns cron can't express
+  const rule = parseRecurrencePattern(input);
+  if (rule) {
+    return rule;
+  }
+
+  // Pattern: "twice a day at 8 and 8"
+  if (TIMES_A_DAY_PATTERN.test(input)) {
+    return parseTimesADay(input);
+  }
+
   // Pattern: "every X minutes"
   const minutesMatch = input.match(/every\s+(\d+)\s*min(?:ute)?s?/);
   if (minutesMatch) {
@@ -259,6 +483,31 @@ export function parseScheduleToCron(schedule: string): string | null {
   return null;
 }
 
+/**
+ * Parse a single clock time: "8", "8:30", "8pm", "noon".
+ */
+function parseClockTime(input: string): { hour: number; minute: number } | null {
+  if (input === 'noon') {
+    return { hour: 12, minute: 0 };
+  }
+  if (input === 'midnight') {
+    return { hour: 0, minute: 0 };
+  }
+
+  const match = input.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) {
+    return null;
+  }
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  if (match[3] === 'pm' && hour < 12) {
+    hour += 12;
+  } else if (match[3] === 'am' && hour === 12) {
+    hour = 0;
+  }
+  return hour <= 23 && minute <= 59 ? { hour, minute } : null;
+}
+
 /**
  * Extract time (hour, minute) from a string using chrono-node.
  */
@@ -331,16 +580,22 @@ export function isValidCron(cron: string): boolean {
 }
 
 /**
- * Convert a cron expression to a human-readable description.
+ * Convert a cron expression (or RRULE-style rule) to a human-readable description.
  * Used for displaying job schedules to users.
  */
 export function cronToHuman(cron: string): string {
+  if (isRecurrenceRule(cron)) {
+    const rule = parseRecurrenceRule(cron);
+    return rule ? recurrenceToHuman(rule) : cron;
+  }
+
   const parts = cron.trim().split(/\s+/);
   if (parts.length !== 5) {
     return cron;
   }
 
   const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+  const at = () => formatTimes(hour.split(',').map((h) => parseInt(h, 10)), parseInt(minute, 10));
 
   // Every minute
   if (cron === '* * * * *') {
@@ -364,29 +619,89 @@ export function cronToHuman(cron: string): string {
 
   // Daily at specific time
   if (dayOfMonth === '*' && month === '*' && dayOfWeek === '*') {
-    return `daily at ${formatTime(parseInt(hour, 10), parseInt(minute, 10))}`;
+    return `daily at ${at()}`;
   }
 
   // Weekdays
   if (dayOfMonth === '*' && month === '*' && dayOfWeek === '1-5') {
-    return `weekdays at ${formatTime(parseInt(hour, 10), parseInt(minute, 10))}`;
+    return `weekdays at ${at()}`;
   }
 
   // Weekends
   if (dayOfMonth === '*' && month === '*' && dayOfWeek === '0,6') {
-    return `weekends at ${formatTime(parseInt(hour, 10), parseInt(minute, 10))}`;
+    return `weekends at ${at()}`;
   }
 
   // Specific day of week
   const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
   const dayNum = parseInt(dayOfWeek, 10);
   if (!isNaN(dayNum) && dayNum >= 0 && dayNum <= 6 && dayOfMonth === '*' && month === '*') {
-    return `every ${dayNames[dayNum]} at ${formatTime(parseInt(hour, 10), parseInt(minute, 10))}`;
+    return `every ${dayNames[dayNum]} at ${at()}`;
   }
 
   return cron;
 }
 
+const RECURRENCE_DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const ORDINAL_NAMES: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+  [-2]: 'second to last',
+};
+
+/**
+ * "every other", "every 3 <unit>s" or "every <unit>" for an interval.
+ */
+function everyInterval(interval: number, unit: string): string {
+  if (interval === 1) return `every ${unit}`;
+  if (interval === 2) return `every other ${unit}`;
+  return `every ${interval} ${unit}s`;
+}
+
+/**
+ * Describe an RRULE-style rule: "every other Tuesday at 9 AM",
+ * "last business day of the month at 5 PM".
+ */
+function recurrenceToHuman(rule: RecurrenceRule): string {
+  const at = formatTimes(rule.byHour, rule.byMinute);
+  const days = rule.byDay.map((d) => RECURRENCE_DAY_NAMES[d.weekday - 1]);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return rule.interval === 1 ? `daily at ${at}` : `${everyInterval(rule.interval, 'day')} at ${at}`;
+    case 'WEEKLY':
+      if (days.length === 0) {
+        return `${everyInterval(rule.interval, 'week')} at ${at}`;
+      }
+      return rule.interval <= 2
+        ? `${everyInterval(rule.interval, days.join(' and '))} at ${at}`
+        : `every ${rule.interval} weeks on ${days.join(' and ')} at ${at}`;
+    case 'MONTHLY': {
+      const month = rule.interval === 1 ? 'the month' : everyInterval(rule.interval, 'month');
+      const isBusinessDays = days.length === 5 && rule.byDay.every((d) => d.weekday <= 5);
+      const which = rule.bySetPos !== undefined
+        ? `${ORDINAL_NAMES[rule.bySetPos] ?? `#${rule.bySetPos}`} ${isBusinessDays ? 'business day' : days.join(' or ')}`
+        : rule.byDay.map((d) => `${ORDINAL_NAMES[d.ordinal ?? 0] ?? 'every'} ${RECURRENCE_DAY_NAMES[d.weekday - 1]}`).join(' and ');
+      return `${which} of ${month} at ${at}`;
+    }
+  }
+}
+
+/**
+ * Format several times of day with the same minute: "8 AM and 8 PM".
+ */
+function formatTimes(hours: number[], minute: number): string {
+  const times = hours.map((hour) => formatTime(hour, minute));
+  return times.length <= 1
+    ? times.join('')
+    : `${times.slice(0, -1).join(', ')} and ${times[times.length - 1]}`;
+}
+
 /**
  * Format hour and minute as human-readable time.
  */
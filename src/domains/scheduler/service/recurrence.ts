@@ -0,0 +1,239 @@
+/**
+ * @fileoverview RRULE-style recurrence rules for schedules cron can't express.
+ *
+ * "every other Tuesday", "every 3 days", "first Monday of the month" and
+ * "last business day of the month" are stored in cron_expression as an
+ * RRULE-style string rather than a cron expression:
+ *
+ *   RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0;DTSTART=20260310
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (weekdays,
+ * with an ordinal for MONTHLY: 1MO, -1FR), BYSETPOS (picks from the month's
+ * BYDAY days), BYHOUR, BYMINUTE and DTSTART. Rules with an interval count
+ * their days, weeks or months from DTSTART, the local date of the first
+ * occurrence, which is filled in when the job is created. A WEEKLY rule
+ * without BYDAY ("every other week") runs on DTSTART's weekday; anchoring
+ * fills in that weekday from the first occurrence.
+ *
+ * nextOccurrence() is the single place that steps any job schedule forward,
+ * cron or rule, in the job's timezone.
+ */
+
+import { Cron } from 'croner';
+import { DateTime } from 'luxon';
+
+export const RRULE_PREFIX = 'RRULE:';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceDay {
+  /** Luxon weekday: 1=Monday ... 7=Sunday */
+  weekday: number;
+  /** Nth weekday of the month (negative counts from the end); MONTHLY only */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceDay[];
+  /** Position among the month's BYDAY days (-1 = last); MONTHLY only */
+  bySetPos?: number;
+  byHour: number[];
+  byMinute: number;
+  /** Local date (yyyyMMdd) the interval counts from */
+  dtstart?: string;
+}
+
+const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/** How far ahead to look for an occurrence before giving up */
+const MAX_SEARCH_DAYS = 400;
+
+/**
+ * Whether a stored schedule is a recurrence rule rather than a cron expression.
+ */
+export function isRecurrenceRule(expression: string): boolean {
+  return expression.startsWith(RRULE_PREFIX);
+}
+
+/**
+ * Parse an RRULE-style string. Returns null when it isn't a supported rule.
+ */
+export function parseRecurrenceRule(expression: string): RecurrenceRule | null {
+  if (!isRecurrenceRule(expression)) {
+    return null;
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of expression.slice(RRULE_PREFIX.length).split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) return null;
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    return null;
+  }
+
+  const interval = parts.has('INTERVAL') ? parseInt(parts.get('INTERVAL')!, 10) : 1;
+  const byHour = (parts.get('BYHOUR') ?? '').split(',').map((h) => parseInt(h, 10));
+  const byMinute = parseInt(parts.get('BYMINUTE') ?? '0', 10);
+  if (!(interval >= 1)
+    || byHour.some((h) => !(h >= 0 && h <= 23))
+    || !(byMinute >= 0 && byMinute <= 59)) {
+    return null;
+  }
+
+  const byDay: RecurrenceDay[] = [];
+  for (const code of (parts.get('BYDAY') ?? '').split(',').filter(Boolean)) {
+    const match = code.match(/^([+-]?\d)?([A-Z]{2})$/);
+    const weekday = match ? WEEKDAY_CODES.indexOf(match[2]) + 1 : 0;
+    if (!match || weekday === 0) return null;
+    byDay.push(match[1] ? { weekday, ordinal: parseInt(match[1], 10) } : { weekday });
+  }
+
+  const dtstart = parts.get('DTSTART');
+  if (dtstart !== undefined && !DateTime.fromFormat(dtstart, 'yyyyMMdd').isValid) {
+    return null;
+  }
+
+  const bySetPos = parts.has('BYSETPOS') ? parseInt(parts.get('BYSETPOS')!, 10) : undefined;
+  if (bySetPos !== undefined && (isNaN(bySetPos) || bySetPos === 0)) {
+    return null;
+  }
+
+  return {
+    freq,
+    interval,
+    byDay,
+    bySetPos,
+    byHour: [...byHour].sort((a, b) => a - b),
+    byMinute,
+    dtstart,
+  };
+}
+
+/**
+ * Format a rule as the string stored in cron_expression.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday - 1]}`).join(',')}`);
+  }
+  if (rule.bySetPos !== undefined) parts.push(`BYSETPOS=${rule.bySetPos}`);
+  parts.push(`BYHOUR=${rule.byHour.join(',')}`, `BYMINUTE=${rule.byMinute}`);
+  if (rule.dtstart) parts.push(`DTSTART=${rule.dtstart}`);
+  return `${RRULE_PREFIX}${parts.join(';')}`;
+}
+
+/**
+ * Whether the rule has an occurrence on this local date.
+ */
+function occursOn(rule: RecurrenceRule, date: DateTime): boolean {
+  const start = rule.dtstart ? DateTime.fromFormat(rule.dtstart, 'yyyyMMdd', { zone: date.zone }) : null;
+  if (start && date < start) {
+    return false;
+  }
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      if (!start || rule.interval === 1) return true;
+      return Math.round(date.diff(start, 'days').days) % rule.interval === 0;
+    }
+    case 'WEEKLY': {
+      // Without BYDAY the rule runs on DTSTART's weekday (any day until anchored)
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : start ? [start.weekday] : null;
+      if (weekdays && !weekdays.includes(date.weekday)) return false;
+      if (!start || rule.interval === 1) return true;
+      const weeks = Math.round(date.startOf('week').diff(start.startOf('week'), 'weeks').weeks);
+      return weeks % rule.interval === 0;
+    }
+    case 'MONTHLY': {
+      if (start && rule.interval > 1) {
+        const months = (date.year - start.year) * 12 + date.month - start.month;
+        if (months % rule.interval !== 0) return false;
+      }
+      if (rule.bySetPos !== undefined) {
+        const days: number[] = [];
+        for (let day = 1; day <= date.daysInMonth!; day++) {
+          if (rule.byDay.some((d) => d.weekday === date.set({ day }).weekday)) days.push(day);
+        }
+        const picked = rule.bySetPos > 0 ? days[rule.bySetPos - 1] : days[days.length + rule.bySetPos];
+        return picked === date.day;
+      }
+      return rule.byDay.some((d) => {
+        if (d.weekday !== date.weekday) return false;
+        if (d.ordinal === undefined) return true;
+        const nth = d.ordinal > 0
+          ? Math.ceil(date.day / 7)
+          : -Math.ceil((date.daysInMonth! - date.day + 1) / 7);
+        return nth === d.ordinal;
+      });
+    }
+  }
+}
+
+/**
+ * First occurrence of a rule strictly after `after`.
+ */
+function nextRuleOccurrence(rule: RecurrenceRule, timezone: string, after: Date): Date | null {
+  const from = DateTime.fromJSDate(after, { zone: timezone });
+  let day = from.startOf('day');
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day = day.plus({ days: 1 })) {
+    if (!occursOn(rule, day)) continue;
+    for (const hour of rule.byHour) {
+      const occurrence = day.set({ hour, minute: rule.byMinute });
+      if (occurrence > from) {
+        return occurrence.toJSDate();
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Next occurrence of a job schedule (cron expression or recurrence rule)
+ * strictly after `after` (default now). Throws on an invalid schedule, like
+ * croner does.
+ */
+export function nextOccurrence(expression: string, timezone: string, after: Date = new Date()): Date | null {
+  if (!isRecurrenceRule(expression)) {
+    return new Cron(expression, { timezone }).nextRun(after);
+  }
+
+  const rule = parseRecurrenceRule(expression);
+  if (!rule) {
+    throw new Error(`Invalid recurrence rule: ${expression}`);
+  }
+  return nextRuleOccurrence(rule, timezone, after);
+}
+
+/**
+ * Pin an interval rule ("every other Tuesday") to its first occurrence after
+ * `after`, so later occurrences count from it. A weekly rule without weekdays
+ * ("every 2 weeks") also gets the first occurrence's weekday. Other
+ * schedules are returned unchanged.
+ */
+export function anchorRecurrence(expression: string, timezone: string, after: Date = new Date()): string {
+  const rule = parseRecurrenceRule(expression);
+  const needsWeekday = rule?.freq === 'WEEKLY' && rule.byDay.length === 0;
+  if (!rule || rule.dtstart || (rule.interval === 1 && !needsWeekday)) {
+    return expression;
+  }
+
+  const first = nextRuleOccurrence({ ...rule, interval: 1 }, timezone, after);
+  if (!first) {
+    return expression;
+  }
+  const start = DateTime.fromJSDate(first, { zone: timezone });
+  return formatRecurrenceRule({
+    ...rule,
+    byDay: needsWeekday ? [{ weekday: start.weekday }] : rule.byDay,
+    dtstart: start.toFormat('yyyyMMdd'),
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Trigger types for scheduled jobs.
+ *
+ * cron, once and condition jobs run at their scheduled time. calendar_event
+ * jobs run a fixed offset before each upcoming calendar event that matches
+ * the job's filter: their next_run_at is the next calendar check rather than
+ * an occurrence. The poller re-reads the calendar at least every
+ * CALENDAR_CHECK_INTERVAL_SECONDS, so added, moved and cancelled events are
+ * picked up, and exactly when a known event's reminder is due.
+ *
+ * Each event fires once per start time (scheduled_trigger_events); an event
+ * moved to a new time fires again.
+ */
+
+import { DateTime } from 'luxon';
+import type Database from 'better-sqlite3';
+import { listEventsAcrossCalendars, type CalendarEvent } from '../providers/calendar.js';
+import {
+  updateJob,
+  getFiredTriggerEvents,
+  recordTriggerEventFired,
+  pruneTriggerEvents,
+} from '../repo/sqlite.js';
+import { cronToHuman } from './parser.js';
+import type { CalendarEventFilter, ExecutionResult, ScheduledJob, TriggerType } from '../types.js';
+
+export const TRIGGER_TYPES: TriggerType[] = ['cron', 'once', 'calendar_event', 'condition'];
+
+/** Stored as the cron expression of calendar_event jobs, which have none */
+export const CALENDAR_TRIGGER_CRON = '@calendar';
+
+/** Longest a calendar_event job goes without re-reading the calendar */
+export const CALENDAR_CHECK_INTERVAL_SECONDS = 15 * 60;
+
+export const DEFAULT_EVENT_OFFSET_MINUTES = 30;
+export const MAX_EVENT_OFFSET_MINUTES = 24 * 60;
+
+export interface CalendarTriggerPlan {
+  /** Matching events whose reminder is due now */
+  due: CalendarEvent[];
+  /** When to check the calendar next (Unix seconds) */
+  nextRunAt: number;
+}
+
+/**
+ * Whether a calendar event matches a job's filter. All-day events never match:
+ * they have no start time to count back from.
+ */
+export function matchesEventFilter(event: CalendarEvent, filter?: CalendarEventFilter): boolean {
+  if (event.allDay) return false;
+  if (filter?.hasLocation && !event.location?.trim()) return false;
+  if (filter?.titleContains && !event.title.toLowerCase().includes(filter.titleContains.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Identity of one event occurrence at one start time.
+ */
+export function eventKey(event: CalendarEvent): string {
+  return `${event.calendarId ?? 'primary'}:${event.id}:${event.start}`;
+}
+
+/**
+ * Decide which events a calendar_event job fires for now, and when to look again.
+ * An event is due from `offset` minutes before its start until it starts.
+ */
+export function planCalendarTrigger(
+  job: ScheduledJob,
+  events: CalendarEvent[],
+  fired: Set<string>,
+  nowSeconds: number
+): CalendarTriggerPlan {
+  const offsetSeconds = (job.eventOffsetMinutes ?? DEFAULT_EVENT_OFFSET_MINUTES) * 60;
+  const due: CalendarEvent[] = [];
+  let nextRunAt = nowSeconds + CALENDAR_CHECK_INTERVAL_SECONDS;
+
+  for (const event of events) {
+    if (!matchesEventFilter(event, job.eventFilter) || fired.has(eventKey(event))) continue;
+
+    const start = Math.floor(Date.parse(event.start) / 1000);
+    if (start <= nowSeconds) continue;
+
+    const fireAt = start - offsetSeconds;
+    if (fireAt <= nowSeconds) {
+      due.push(event);
+    } else {
+      nextRunAt = Math.min(nextRunAt, fireAt);
+    }
+  }
+
+  return { due, nextRunAt };
+}
+
+/**
+ * The job as run for one event: its prompt gains the event's details.
+ */
+export function withEventContext(job: ScheduledJob, event: CalendarEvent): ScheduledJob {
+  const start = DateTime.fromISO(event.start).setZone(job.timezone).toFormat('h:mm a');
+  const location = event.location ? ` at ${event.location}` : '';
+  return {
+    ...job,
+    prompt: `${job.prompt}\n\nUpcoming event: "${event.title}" starting ${start}${location}`,
+  };
+}
+
+/**
+ * Check the calendar for a due calendar_event job, run it once per due event,
+ * and schedule the next check. Returns how many events it ran for.
+ *
+ * A calendar that can't be read (e.g. Google not connected) is retried at
+ * the next check; nothing is sent.
+ */
+export async function runCalendarTrigger(
+  db: Database.Database,
+  job: ScheduledJob,
+  nowSeconds: number,
+  execute: (job: ScheduledJob) => Promise<ExecutionResult>
+): Promise<number> {
+  const offsetSeconds = (job.eventOffsetMinutes ?? DEFAULT_EVENT_OFFSET_MINUTES) * 60;
+
+  let events: CalendarEvent[];
+  try {
+    ({ events } = await listEventsAcrossCalendars(
+      job.phoneNumber,
+      new Date(nowSeconds * 1000),
+      new Date((nowSeconds + offsetSeconds + CALENDAR_CHECK_INTERVAL_SECONDS) * 1000)
+    ));
+  } catch (error) {
+    console.error(JSON.stringify({
+      event: 'calendar_trigger_error',
+      jobId: job.id,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    }));
+    updateJob(db, job.id, { nextRunAt: nowSeconds + CALENDAR_CHECK_INTERVAL_SECONDS });
+    return 0;
+  }
+
+  pruneTriggerEvents(db, job.id, nowSeconds);
+  const plan = planCalendarTrigger(job, events, getFiredTriggerEvents(db, job.id), nowSeconds);
+
+  for (const event of plan.due) {
+    await execute(withEventContext(job, event));
+    recordTriggerEventFired(db, job.id, eventKey(event), Math.floor(Date.parse(event.start) / 1000), nowSeconds);
+  }
+
+  updateJob(db, job.id, { nextRunAt: plan.nextRunAt });
+  return plan.due.length;
+}
+
+/**
+ * Human-readable description of when a job runs.
+ */
+export function describeTrigger(job: ScheduledJob): string {
+  switch (job.triggerType) {
+    case 'once':
+      return 'one-time';
+    case 'calendar_event': {
+      const filters: string[] = [];
+      if (job.eventFilter?.titleContains) filters.push(`titled "${job.eventFilter.titleContains}"`);
+      if (job.eventFilter?.hasLocation) filters.push('with a location');
+      const events = filters.length > 0 ? `events ${filters.join(' and ')}` : 'every event';
+      return `${job.eventOffsetMinutes ?? DEFAULT_EVENT_OFFSET_MINUTES} min before ${events}`;
+    }
+    default:
+      return cronToHuman(job.cronExpression);
+  }
+}
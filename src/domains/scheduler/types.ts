@@ -10,6 +10,34 @@
  */
 export type MessageChannel = 'sms' | 'whatsapp';
 
+/**
+ * What the poller does with a run that starts later than the job's grace
+ * window allows (typically after downtime):
+ * - fire_once: run once now, then continue from the next future occurrence
+ * - skip: don't run; continue from the next future occurrence
+ * - run_all: run every missed occurrence, oldest first, one per poll
+ */
+export type MisfirePolicy = 'fire_once' | 'skip' | 'run_all';
+
+/**
+ * What makes a job run:
+ * - cron: a recurring schedule
+ * - once: a single time
+ * - calendar_event: a fixed offset before each calendar event matching the job's filter
+ * - condition: a recurring check that only sends when its condition holds
+ *
+ * Any job may carry a condition; a false condition means nothing is sent.
+ */
+export type TriggerType = 'cron' | 'once' | 'calendar_event' | 'condition';
+
+/**
+ * Which calendar events a calendar_event job reacts to (all timed events when empty).
+ */
+export interface CalendarEventFilter {
+  titleContains?: string; // Case-insensitive substring of the event title
+  hasLocation?: boolean; // Only events with a location
+}
+
 /**
  * A scheduled job stored in the database.
  */
@@ -26,6 +54,17 @@ export interface ScheduledJob {
   enabled: boolean;
   isRecurring: boolean; // true for cron jobs, false for one-time reminders
   skillName?: string; // Filesystem skill to invoke instead of LLM prompt (optional)
+  consecutiveFailures: number; // Failed runs since the last success (reset on resume)
+  disabledReason?: string; // Set when the job was paused automatically after repeated failures
+  misfirePolicy?: MisfirePolicy; // Unset: default for the job type
+  misfireGraceMinutes?: number; // How late a run may start and still count as on time (unset: default)
+  pausedUntil?: number; // Unix timestamp (seconds); no runs before this
+  skipNextAt?: number; // Unix timestamp (seconds) of an occurrence the user asked to skip
+  snoozedFrom?: string; // Job whose reminder this one-time job repeats
+  triggerType: TriggerType;
+  eventOffsetMinutes?: number; // calendar_event: minutes before the event start
+  eventFilter?: CalendarEventFilter; // calendar_event: which events
+  conditionPrompt?: string; // Checked before sending; false means nothing is sent
   createdAt: number; // Unix timestamp (seconds)
   updatedAt: number; // Unix timestamp (seconds)
 }
@@ -43,6 +82,13 @@ export interface CreateJobInput {
   timezone: string;
   nextRunAt: number;
   isRecurring: boolean;
+  misfirePolicy?: MisfirePolicy;
+  misfireGraceMinutes?: number;
+  snoozedFrom?: string;
+  triggerType?: TriggerType; // Unset: cron or once, from isRecurring
+  eventOffsetMinutes?: number;
+  eventFilter?: CalendarEventFilter;
+  conditionPrompt?: string;
 }
 
 /**
@@ -58,6 +104,15 @@ export interface JobUpdates {
   nextRunAt?: number;
   lastRunAt?: number;
   enabled?: boolean;
+  consecutiveFailures?: number;
+  disabledReason?: string | null; // null clears it
+  misfirePolicy?: MisfirePolicy | null; // null restores the job type default
+  misfireGraceMinutes?: number | null; // null restores the job type default
+  pausedUntil?: number | null; // null clears it
+  skipNextAt?: number | null; // null clears it
+  triggerType?: TriggerType;
+  eventOffsetMinutes?: number;
+  conditionPrompt?: string | null; // null clears it
 }
 
 /**
@@ -66,4 +121,56 @@ export interface JobUpdates {
 export interface ExecutionResult {
   success: boolean;
   error?: Error;
+  skipped?: boolean; // The job's condition was false, so nothing was sent
+}
+
+/**
+ * Outcome of a job run. 'running' rows are runs still in progress
+ * (or interrupted by a restart); 'skipped' rows are occurrences that sent
+ * nothing (dropped by the misfire policy, skipped by the user, or a false
+ * condition).
+ */
+export type JobRunStatus = 'running' | 'success' | 'failed' | 'skipped';
+
+/**
+ * One execution of a scheduled job, kept in scheduled_job_runs.
+ * Runs outlive their job (one-time reminders are deleted after sending).
+ */
+export interface JobRun {
+  id: number;
+  jobId: string;
+  phoneNumber: string;
+  startedAt: number; // Unix timestamp (milliseconds)
+  finishedAt?: number; // Unix timestamp (milliseconds)
+  status: JobRunStatus;
+  error?: string;
+  outputPreview?: string; // Start of the message sent to the user
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * Outcome recorded when a run finishes.
+ */
+export interface JobRunOutcome {
+  status: Exclude<JobRunStatus, 'running'>;
+  finishedAt: number;
+  error?: string;
+  output?: string;
+  tokenUsage?: { input: number; output: number };
+}
+
+/**
+ * The last reminder sent to a user, kept so a reply like "snooze 10" can be
+ * linked to it (one-time jobs are deleted once sent).
+ */
+export interface SentReminder {
+  phoneNumber: string;
+  jobId: string;
+  channel: MessageChannel;
+  userRequest?: string;
+  prompt: string;
+  skillName?: string;
+  timezone: string;
+  sentAt: number; // Unix timestamp (seconds)
 }
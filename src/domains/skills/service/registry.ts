@@ -5,13 +5,30 @@ import path from 'path';
 import { discoverSkillDirs, readSkillMd } from '../repo/filesystem.js';
 import { parseSkillMd } from './parser.js';
 import { validateSkillFrontmatter } from './validator.js';
-import type { LoadedSkill, SkillLoadError, SkillChannel } from '../types.js';
+import type { LoadedSkill, SkillLoadError, SkillChannel, SkillExtractField, SkillFrontmatter } from '../types.js';
 
 export type RegistryState = {
   skills: LoadedSkill[];
   errors: SkillLoadError[];
 };
 
+type HermesMetadata = NonNullable<NonNullable<SkillFrontmatter['metadata']>['hermes']>;
+
+/**
+ * Normalize `extract` frontmatter entries (bare names or objects) into fields.
+ */
+function normalizeExtractFields(extract: HermesMetadata['extract']): SkillExtractField[] {
+  return (extract ?? []).map((entry) =>
+    typeof entry === 'string'
+      ? { name: entry.trim(), description: '', type: 'string' }
+      : {
+          name: entry.name.trim(),
+          description: entry.description?.trim() ?? '',
+          type: entry.type ?? 'string',
+        }
+  );
+}
+
 /**
  * Load skills from a directory (bundled or imported).
  */
@@ -49,6 +66,10 @@ export function loadSkillsFromDir(
         channels: (hermes?.channels ?? ['sms', 'whatsapp']) as SkillChannel[],
         tools: hermes?.tools ?? [],
         matchHints: hermes?.match ?? [],
+        extractFields: normalizeExtractFields(hermes?.extract),
+        saveAttachments: hermes?.attachments?.save === true
+          ? { analyze: hermes.attachments.analyze === true }
+          : null,
         enabled: hermes?.enabled !== false,
         source,
         delegateAgent: hermes?.delegateAgent ?? null,
@@ -2,7 +2,7 @@
  * Skill frontmatter validator.
  * Validates required fields and Hermes-specific metadata.
  */
-import type { SkillFrontmatter, SkillChannel } from '../types.js';
+import type { SkillFrontmatter, SkillChannel, SkillExtractFieldType } from '../types.js';
 
 export type ValidationError = {
   field: string;
@@ -10,6 +10,8 @@ export type ValidationError = {
 };
 
 const VALID_CHANNELS: SkillChannel[] = ['sms', 'whatsapp', 'scheduler', 'email'];
+const VALID_EXTRACT_TYPES: SkillExtractFieldType[] = ['string', 'number'];
+const EXTRACT_FIELD_NAME = /^[a-z][a-z0-9_]*$/;
 
 function looksLikeCron(cron: string): boolean {
   const parts = cron.trim().split(/\s+/);
@@ -71,6 +73,45 @@ export function validateSkillFrontmatter(fm: SkillFrontmatter): ValidationError[
       }
     }
 
+    if (hermes.extract !== undefined && !Array.isArray(hermes.extract)) {
+      errors.push({ field: 'metadata.hermes.extract', message: 'extract must be an array of field names or { name, description, type } objects' });
+    } else if (Array.isArray(hermes.extract)) {
+      const seen = new Set<string>();
+      for (const entry of hermes.extract) {
+        const isObject = typeof entry === 'object' && entry !== null && !Array.isArray(entry);
+        const name = typeof entry === 'string' ? entry : isObject ? entry.name : undefined;
+        if (typeof name !== 'string' || !EXTRACT_FIELD_NAME.test(name.trim())) {
+          errors.push({ field: 'metadata.hermes.extract', message: 'extract field names must be lowercase snake_case (e.g., "tax_year")' });
+          break;
+        }
+        if (seen.has(name.trim())) {
+          errors.push({ field: 'metadata.hermes.extract', message: `duplicate extract field: ${name.trim()}` });
+          break;
+        }
+        seen.add(name.trim());
+        if (isObject && entry.description !== undefined && typeof entry.description !== 'string') {
+          errors.push({ field: 'metadata.hermes.extract', message: `description for ${name} must be a string` });
+          break;
+        }
+        if (isObject && entry.type !== undefined && !VALID_EXTRACT_TYPES.includes(entry.type)) {
+          errors.push({ field: 'metadata.hermes.extract', message: `invalid type for ${name}: ${String(entry.type)}. Valid: ${VALID_EXTRACT_TYPES.join(', ')}` });
+          break;
+        }
+      }
+    }
+
+    if (hermes.attachments !== undefined) {
+      if (typeof hermes.attachments !== 'object' || hermes.attachments === null || Array.isArray(hermes.attachments)) {
+        errors.push({ field: 'metadata.hermes.attachments', message: 'attachments must be an object' });
+      } else {
+        for (const key of ['save', 'analyze'] as const) {
+          if (hermes.attachments[key] !== undefined && typeof hermes.attachments[key] !== 'boolean') {
+            errors.push({ field: `metadata.hermes.attachments.${key}`, message: `${key} must be a boolean` });
+          }
+        }
+      }
+    }
+
     if (hermes.enabled !== undefined && typeof hermes.enabled !== 'boolean') {
       errors.push({ field: 'metadata.hermes.enabled', message: 'enabled must be a boolean' });
     }
@@ -4,6 +4,15 @@
 
 export type SkillChannel = 'sms' | 'whatsapp' | 'scheduler' | 'email';
 
+export type SkillExtractFieldType = 'string' | 'number';
+
+/** A structured field the email classifier should extract for a skill. */
+export type SkillExtractField = {
+  name: string;
+  description: string;
+  type: SkillExtractFieldType;
+};
+
 export type SkillFrontmatter = {
   name: string;
   description: string;
@@ -12,6 +21,11 @@ export type SkillFrontmatter = {
       channels?: SkillChannel[];
       tools?: string[];
       match?: string[];
+      extract?: Array<string | { name: string; description?: string; type?: SkillExtractFieldType }>;
+      attachments?: {
+        save?: boolean;
+        analyze?: boolean;
+      };
       enabled?: boolean;
       delegateAgent?: string;
       autoSchedule?: {
@@ -31,6 +45,9 @@ export type LoadedSkill = {
   channels: SkillChannel[];
   tools: string[];
   matchHints: string[];
+  extractFields?: SkillExtractField[];
+  /** Email watcher: save matched emails' attachments to Drive before running the skill. */
+  saveAttachments?: { analyze: boolean } | null;
   enabled: boolean;
   source: 'bundled' | 'imported';
   delegateAgent?: string | null;
@@ -25,6 +25,8 @@ export const capability: AgentCapability = {
     'Create a timer for my workout',
     'Display calendar events in an interactive view (requires calendar data from previous step)',
   ],
+  // Writes whole pages of HTML and JavaScript
+  modelTier: 'strong',
 };
 
 export async function executor(
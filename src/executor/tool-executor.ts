@@ -18,9 +18,9 @@ import type {
   MessageParam,
   ToolResultBlockParam,
 } from '@anthropic-ai/sdk/resources/messages';
-import config from '../config.js';
 
-import { getClient } from '../services/anthropic/client.js';
+import { createMessage } from '../services/anthropic/metered.js';
+import { DEFAULT_MODEL_TIER, routeModel } from '../services/anthropic/routing.js';
 import { buildUserMemoryXml } from '../services/anthropic/prompts/context.js';
 import { TOOLS, executeTool } from '../tools/index.js';
 import type { ToolContext } from '../tools/types.js';
@@ -87,8 +87,9 @@ export async function executeWithTools(
   context: AgentExecutionContext,
   options?: { initialMessages?: MessageParam[] }
 ): Promise<StepResult> {
-  const anthropic = getClient();
   const tools = resolveTools(toolNames);
+  const usage = { phoneNumber: context.phoneNumber, purpose: context.usagePurpose ?? 'agent' };
+  const { model } = context.modelRoute ?? routeModel('agent', DEFAULT_MODEL_TIER, 'default');
   const memoryXml = buildUserMemoryXml(context.userFacts, { maxFacts: 20, maxChars: 1500 });
 
   // Build system prompt with memory and media context
@@ -109,6 +110,7 @@ export async function executeWithTools(
     mediaAttachments: context.mediaAttachments,
     storedMedia: context.storedMedia,
     messageId: context.messageId,
+    requireConfirmation: context.requireConfirmation,
   };
 
   // Build initial messages
@@ -143,7 +145,7 @@ export async function executeWithTools(
   try {
     // Log initial LLM request
     logger?.llmRequest('agent: initial', {
-      model: config.models.agent,
+      model,
       maxTokens: MAX_TOKENS,
       systemPrompt: systemPromptWithMemory,
       messages: messages.map(m => ({
@@ -155,13 +157,13 @@ export async function executeWithTools(
 
     // Initial API call
     let llmStartTime = Date.now();
-    let response = await anthropic.messages.create({
-      model: config.models.agent,
+    let response = await createMessage({
+      model,
       max_tokens: MAX_TOKENS,
       system: systemPromptWithMemory,
       tools,
       messages,
-    });
+    }, usage);
 
     // Log initial LLM response
     logger?.llmResponse('agent: initial', {
@@ -247,7 +249,7 @@ export async function executeWithTools(
 
       // Log continuation LLM request
       logger?.llmRequest(`agent: iteration ${loopCount}`, {
-        model: config.models.agent,
+        model,
         maxTokens: MAX_TOKENS,
         systemPrompt: '(same as initial)',
         messages: [{ role: 'user', content: '(continuing with tool results)' }],
@@ -256,13 +258,13 @@ export async function executeWithTools(
 
       // Continue conversation
       llmStartTime = Date.now();
-      response = await anthropic.messages.create({
-        model: config.models.agent,
+      response = await createMessage({
+        model,
         max_tokens: MAX_TOKENS,
         system: systemPromptWithMemory,
         tools,
         messages,
-      });
+      }, usage);
 
       // Log continuation LLM response
       logger?.llmResponse(`agent: iteration ${loopCount}`, {
@@ -11,6 +11,8 @@ import type { UserFact } from '../domains/memory/types.js';
 import type { TraceLogger } from '../utils/trace-logger.js';
 import type { MediaAttachment } from '../types/media.js';
 import type { StoredMediaAttachment } from '../services/conversation/types.js';
+import type { UsagePurpose } from '../services/usage/index.js';
+import type { ModelRoute, ModelTier } from '../services/anthropic/routing.js';
 
 // Re-export for convenience
 export type { MediaAttachment } from '../types/media.js';
@@ -65,6 +67,9 @@ export interface AgentCapability {
   /** Example tasks this agent handles (helps planner understand scope) */
   examples: string[];
 
+  /** Model tier for this agent's steps, overriding the default ('standard') */
+  modelTier?: ModelTier;
+
   /** Expected output structure (for documentation/validation) */
   outputSchema?: {
     type: string;
@@ -118,6 +123,15 @@ export interface AgentExecutionContext {
   /** Pre-formatted media context block with image analysis from conversation history */
   mediaContext?: string;
 
+  /** Park destructive tool calls until the user confirms (conversation requests only) */
+  requireConfirmation?: boolean;
+
+  /** What the model calls are recorded as in the usage ledger (default 'agent') */
+  usagePurpose?: UsagePurpose;
+
+  /** Model picked by the orchestrator for this step (default: the standard tier) */
+  modelRoute?: ModelRoute;
+
   /** Trace logger for debugging (optional, only present in development) */
   logger?: TraceLogger;
 }
@@ -16,7 +16,8 @@ import config, { validateConfig } from './config.js';
 
 // Fail fast if critical configuration is missing
 validateConfig();
-import smsRouter from './routes/sms.js';
+import smsRouter, { sendAssistantReply } from './routes/sms.js';
+import gmailPushRouter from './routes/gmail-push.js';
 import pagesRouter from './routes/pages.js';
 import authRouter from './routes/auth.js';
 import adminRouter from './admin/index.js';
@@ -33,6 +34,7 @@ import { setDriveExecuteWithTools } from './domains/drive/providers/executor.js'
 import { setUiExecuteWithTools } from './domains/ui/providers/executor.js';
 import { setSkillsExecuteWithTools } from './domains/skills/providers/executor.js';
 import { initFilesystemSkills } from './domains/skills/runtime/index.js';
+import { recoverInterruptedPlans } from './orchestrator/index.js';
 import { executeWithTools } from './executor/tool-executor.js';
 import { closeConversationStore } from './services/conversation/index.js';
 import { startMemoryProcessor, stopMemoryProcessor } from './domains/memory/service/processor.js';
@@ -55,6 +57,9 @@ app.get('/health', healthHandler);
 // SMS routes
 app.use(smsRouter);
 
+// Gmail push notifications (Pub/Sub)
+app.use(gmailPushRouter);
+
 // OAuth routes
 app.use(authRouter);
 
@@ -155,6 +160,16 @@ const server = app.listen(config.port, () => {
 
   // Start the email watcher
   startEmailWatcher();
+
+  // Resume (or fail and notify) requests interrupted by the last shutdown
+  recoverInterruptedPlans(sendAssistantReply).catch((error) => {
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Failed to recover interrupted plans on startup',
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    }));
+  });
 });
 
 let isShuttingDown = false;
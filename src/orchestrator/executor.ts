@@ -22,6 +22,7 @@ import type { StepResult, AgentExecutionContext } from '../executor/types.js';
 import { routeToAgent } from '../executor/router.js';
 import { getSkillsRegistry } from '../registry/skills.js';
 import type { TraceLogger } from '../utils/trace-logger.js';
+import type { ModelRoute } from '../services/anthropic/routing.js';
 
 /** Per-step timeout from design constraints (C-5) */
 const STEP_TIMEOUT_MS = ORCHESTRATOR_LIMITS.stepTimeoutMs;
@@ -68,13 +69,15 @@ function normalizeStepResult(result: StepResult): StepResult {
  * @param context Plan context with previous results
  * @param registry Agent registry for looking up agent config
  * @param logger Trace logger for debugging
+ * @param modelRoute Model picked for the step (see model-routing.ts)
  * @returns StepResult with success/output/error
  */
 export async function executeStep(
   step: PlanStep,
   context: PlanContext,
   registry: AgentRegistry,
-  logger?: TraceLogger
+  logger?: TraceLogger,
+  modelRoute?: ModelRoute
 ): Promise<StepResult> {
   const startTime = Date.now();
 
@@ -101,6 +104,8 @@ export async function executeStep(
     storedMedia: context.storedMedia,
     messageId: context.messageId,
     mediaContext: context.mediaContext,
+    requireConfirmation: true,
+    modelRoute,
     logger,
   };
 
@@ -8,21 +8,170 @@
  * - Single entry point for processing inbound user messages
  * - Uses orchestrator for planning and execution
  * - Keeps the same signature previously used by legacy handlers
+ * - Persists the plan of each request, and resumes interrupted ones
+ *   (see plan-persistence.ts and plan-recovery.ts)
  */
 
 import type { ConversationMessage, StoredMediaAttachment, ImageAnalysisMetadata, CurrentMediaSummary } from '../services/conversation/types.js';
 import type { UserConfig } from '../services/user-config/types.js';
-import type { MediaAttachment } from './types.js';
-import { getMemoryStore } from '../domains/memory/runtime/index.js';
+import type { ClassificationResult } from '../services/anthropic/types.js';
+import type { PlanRecord } from '../services/plans/index.js';
+import type { UserFact } from '../domains/memory/types.js';
+import type { MediaAttachment, OrchestratorResult, PlanContext } from './types.js';
+import { getMemoryStore, rankFactsForMessage } from '../domains/memory/runtime/index.js';
 import { getConversationStore } from '../services/conversation/index.js';
-import { orchestrate } from './orchestrate.js';
+import { orchestrate, resumeOrchestration } from './orchestrate.js';
+import { createPlanRecorder, noopPlanRecorder, restorePlan } from './plan-persistence.js';
+import type { PlanRecorder } from './plan-persistence.js';
 import { createTraceLogger } from '../utils/trace-logger.js';
+import type { TraceLogger } from '../utils/trace-logger.js';
 import { formatMediaContext } from './media-context.js';
 import { getRelevantHistory } from './conversation-window.js';
-import { createLogger, redactPhone } from '../utils/observability/index.js';
+import { createLogger, redactPhone, type AppLogger } from '../utils/observability/index.js';
 
 const appLogger = createLogger({ domain: 'orchestrator-handler' });
 
+const FAILURE_RESPONSE = 'I encountered an issue processing your request. Please try again.';
+
+/** Conversation context loaded for a request */
+interface LoadedContext {
+  windowedHistory: ConversationMessage[];
+  userFacts: UserFact[];
+  mediaContext: string;
+}
+
+/**
+ * Load windowed history, ranked facts and media context for a message.
+ * History and facts that fail to load are treated as empty.
+ */
+async function loadContext(
+  userMessage: string,
+  phoneNumber: string,
+  log: AppLogger,
+  logger: TraceLogger,
+  currentMediaSummaries?: CurrentMediaSummary[],
+): Promise<LoadedContext> {
+  const [conversationStore, memoryStore] = [
+    getConversationStore(),
+    getMemoryStore(),
+  ];
+
+  const [historyResult, factsResult] = await Promise.allSettled([
+    conversationStore.getHistory(phoneNumber, { limit: 50 }),
+    memoryStore.getFacts(phoneNumber),
+  ]);
+
+  const conversationHistory = historyResult.status === 'fulfilled' ? historyResult.value : [];
+  let userFacts = factsResult.status === 'fulfilled' ? factsResult.value : [];
+
+  if (historyResult.status === 'rejected') {
+    log.warn('conversation_history_load_failed', {
+      error: historyResult.reason instanceof Error ? historyResult.reason : String(historyResult.reason),
+    });
+  }
+  if (factsResult.status === 'rejected') {
+    log.warn('memory_facts_load_failed', {
+      error: factsResult.reason instanceof Error ? factsResult.reason : String(factsResult.reason),
+    });
+  }
+
+  // Rank facts by relevance to this message so prompts keep the useful ones
+  try {
+    userFacts = await rankFactsForMessage(userFacts, userMessage);
+  } catch (error) {
+    log.warn('memory_facts_ranking_failed', {
+      error: error instanceof Error ? error : String(error),
+    });
+  }
+
+  const windowedHistory = getRelevantHistory(conversationHistory);
+
+  // Fetch image analysis metadata for messages in the window
+  const messageIds = windowedHistory.map(m => m.id);
+  const metadataMap = await conversationStore.getMessageMetadata<ImageAnalysisMetadata>(
+    messageIds,
+    'image_analysis'
+  );
+
+  // Format media context for agent prompts
+  const mediaContext = formatMediaContext(metadataMap, windowedHistory);
+
+  logger.log('DEBUG', 'Loading conversation context', {
+    'History messages': conversationHistory.length,
+    'Windowed history messages': windowedHistory.length,
+    'User facts': userFacts.length,
+    'Media metadata entries': metadataMap.size,
+    'Current media summaries': currentMediaSummaries?.length || 0,
+  });
+
+  // Dev-only: log media context details for debugging
+  if (process.env.NODE_ENV !== 'production' && mediaContext) {
+    logger.section('MEDIA CONTEXT', mediaContext);
+  }
+  if (process.env.NODE_ENV !== 'production' && currentMediaSummaries && currentMediaSummaries.length > 0) {
+    logger.section('CURRENT MEDIA SUMMARIES', JSON.stringify(currentMediaSummaries, null, 2));
+  }
+
+  return { windowedHistory, userFacts, mediaContext };
+}
+
+/**
+ * Record and log how a request finished, and pick the reply to send.
+ */
+function finishRequest(
+  result: OrchestratorResult,
+  log: AppLogger,
+  logger: TraceLogger,
+  recorder: PlanRecorder,
+): string {
+  recorder.finish(result);
+
+  if (result.success) {
+    log.info('orchestrator_request_succeeded', {
+      responseLength: result.response.length,
+    });
+    logger.close('SUCCESS');
+    return result.response;
+  }
+
+  // Orchestration failed - log and return error response
+  log.error('orchestrator_request_failed', {
+    error: result.error ?? 'Unknown error',
+    partialResponseLength: result.response?.length ?? 0,
+  });
+
+  logger.close('FAILED');
+  return result.response || FAILURE_RESPONSE;
+}
+
+/**
+ * Record and log an unexpected handler error.
+ */
+function failRequest(
+  error: unknown,
+  log: AppLogger,
+  logger: TraceLogger,
+  recorder: PlanRecorder,
+): string {
+  log.error('orchestrator_handler_error', {
+    error: error instanceof Error ? error : String(error),
+  });
+
+  logger.log('ERROR', 'Orchestrator handler error', {
+    Error: error instanceof Error ? error.message : String(error),
+  });
+  logger.close('FAILED');
+
+  recorder.finish({
+    success: false,
+    response: FAILURE_RESPONSE,
+    error: error instanceof Error ? error.message : String(error),
+  });
+
+  // On error, surface a generic failure without invoking legacy path
+  return FAILURE_RESPONSE;
+}
+
 /**
  * Handle a message using the orchestrator if enabled.
  *
@@ -32,6 +181,7 @@ const appLogger = createLogger({ domain: 'orchestrator-handler' });
  * @param channel Message channel (sms or whatsapp)
  * @param userConfig User configuration
  * @param messageId ID of the originating user message (for attaching metadata)
+ * @param classification SMS classifier result, used to pick model tiers
  * @returns Response text to send back to the user
  */
 export async function handleWithOrchestrator(
@@ -44,6 +194,7 @@ export async function handleWithOrchestrator(
   messageId?: string,
   currentMediaSummaries?: CurrentMediaSummary[],
   requestId?: string,
+  classification?: ClassificationResult,
 ): Promise<string> {
   const logger = createTraceLogger(phoneNumber, requestId);
   const log = appLogger.child({ channel, phone: phoneNumber, requestId });
@@ -61,60 +212,33 @@ export async function handleWithOrchestrator(
     hasStoredMedia: Boolean(storedMedia?.length),
   });
 
+  const now = Date.now();
+  const recorder = requestId
+    ? createPlanRecorder({
+      requestId,
+      phoneNumber,
+      channel,
+      userMessage,
+      messageId,
+      hasMedia: Boolean(mediaAttachments?.length),
+      status: 'planning',
+      version: 1,
+      steps: [],
+      createdAt: now,
+      updatedAt: now,
+    })
+    : noopPlanRecorder;
+
   try {
     // Load context for orchestrator
-    const [conversationStore, memoryStore] = [
-      getConversationStore(),
-      getMemoryStore(),
-    ];
-
-    const [historyResult, factsResult] = await Promise.allSettled([
-      conversationStore.getHistory(phoneNumber, { limit: 50 }),
-      memoryStore.getFacts(phoneNumber),
-    ]);
-
-    const conversationHistory = historyResult.status === 'fulfilled' ? historyResult.value : [];
-    const userFacts = factsResult.status === 'fulfilled' ? factsResult.value : [];
-
-    if (historyResult.status === 'rejected') {
-      log.warn('conversation_history_load_failed', {
-        error: historyResult.reason instanceof Error ? historyResult.reason : String(historyResult.reason),
-      });
-    }
-    if (factsResult.status === 'rejected') {
-      log.warn('memory_facts_load_failed', {
-        error: factsResult.reason instanceof Error ? factsResult.reason : String(factsResult.reason),
-      });
-    }
-
-    const windowedHistory = getRelevantHistory(conversationHistory);
-
-    // Fetch image analysis metadata for messages in the window
-    const messageIds = windowedHistory.map(m => m.id);
-    const metadataMap = await conversationStore.getMessageMetadata<ImageAnalysisMetadata>(
-      messageIds,
-      'image_analysis'
+    const { windowedHistory, userFacts, mediaContext } = await loadContext(
+      userMessage,
+      phoneNumber,
+      log,
+      logger,
+      currentMediaSummaries,
     );
 
-    // Format media context for agent prompts
-    const mediaContext = formatMediaContext(metadataMap, windowedHistory);
-
-    logger.log('DEBUG', 'Loading conversation context', {
-      'History messages': conversationHistory.length,
-      'Windowed history messages': windowedHistory.length,
-      'User facts': userFacts.length,
-      'Media metadata entries': metadataMap.size,
-      'Current media summaries': currentMediaSummaries?.length || 0,
-    });
-
-    // Dev-only: log media context details for debugging
-    if (process.env.NODE_ENV !== 'production' && mediaContext) {
-      logger.section('MEDIA CONTEXT', mediaContext);
-    }
-    if (process.env.NODE_ENV !== 'production' && currentMediaSummaries && currentMediaSummaries.length > 0) {
-      logger.section('CURRENT MEDIA SUMMARIES', JSON.stringify(currentMediaSummaries, null, 2));
-    }
-
     // Run orchestrator
     const result = await orchestrate(
       userMessage,
@@ -129,35 +253,78 @@ export async function handleWithOrchestrator(
       messageId,
       mediaContext,
       currentMediaSummaries,
+      recorder,
+      classification,
     );
 
-    if (result.success) {
-      log.info('orchestrator_request_succeeded', {
-        responseLength: result.response.length,
-      });
-      logger.close('SUCCESS');
-      return result.response;
-    }
+    return finishRequest(result, log, logger, recorder);
+  } catch (error) {
+    return failRequest(error, log, logger, recorder);
+  }
+}
 
-    // Orchestration failed - log and return error response
-    log.error('orchestrator_request_failed', {
-      error: result.error ?? 'Unknown error',
-      partialResponseLength: result.response?.length ?? 0,
-    });
+/**
+ * Resume a request whose plan was interrupted by a restart.
+ *
+ * Context is reloaded as for a new request. A request interrupted before its
+ * plan was created is planned from scratch; otherwise the stored plan
+ * continues from its unfinished steps. Requests with media can't be resumed,
+ * since attachments aren't persisted (plan-recovery.ts fails those instead).
+ *
+ * @returns Response text to send back to the user
+ */
+export async function resumeWithOrchestrator(
+  record: PlanRecord,
+  userConfig: UserConfig | null,
+): Promise<string> {
+  const { phoneNumber, channel, userMessage, messageId, requestId } = record;
+  const logger = createTraceLogger(phoneNumber, requestId);
+  const log = appLogger.child({ channel, phone: phoneNumber, requestId });
+  const recorder = createPlanRecorder(record);
 
-    logger.close('FAILED');
-    return result.response || 'I encountered an issue processing your request. Please try again.';
-  } catch (error) {
-    log.error('orchestrator_handler_error', {
-      error: error instanceof Error ? error : String(error),
-    });
+  log.info('orchestrator_request_resumed', {
+    status: record.status,
+    stepCount: record.steps.length,
+    completedSteps: record.steps.filter(s => s.status === 'completed').length,
+  });
 
-    logger.log('ERROR', 'Orchestrator handler error', {
-      Error: error instanceof Error ? error.message : String(error),
-    });
-    logger.close('FAILED');
+  try {
+    const { windowedHistory, userFacts, mediaContext } = await loadContext(userMessage, phoneNumber, log, logger);
+
+    if (!record.planId) {
+      const result = await orchestrate(
+        userMessage,
+        windowedHistory,
+        userFacts,
+        userConfig,
+        phoneNumber,
+        channel,
+        logger,
+        undefined,
+        undefined,
+        messageId,
+        mediaContext,
+        undefined,
+        recorder,
+      );
+      return finishRequest(result, log, logger, recorder);
+    }
 
-    // On error, surface a generic failure without invoking legacy path
-    return 'I encountered an issue processing your request. Please try again.';
+    const context: PlanContext = {
+      userMessage,
+      conversationHistory: windowedHistory,
+      userFacts,
+      userConfig,
+      phoneNumber,
+      channel,
+      messageId,
+      mediaContext,
+      stepResults: {},
+      errors: [],
+    };
+    const result = await resumeOrchestration(restorePlan(record, context), logger, recorder);
+    return finishRequest(result, log, logger, recorder);
+  } catch (error) {
+    return failRequest(error, log, logger, recorder);
   }
 }
@@ -54,10 +54,32 @@ export {
 } from './replanner.js';
 
 // Export main orchestrate function
-export { orchestrate } from './orchestrate.js';
+export { orchestrate, resumeOrchestration } from './orchestrate.js';
+
+// Export plan persistence and startup recovery
+export {
+  createPlanRecorder,
+  noopPlanRecorder,
+  restorePlan,
+  type PlanRecorder,
+} from './plan-persistence.js';
+export {
+  recoverInterruptedPlans,
+  formatInterruptedNotice,
+  PLAN_RETENTION_DAYS,
+  type ReplySender,
+  type PlanRecoveryResult,
+} from './plan-recovery.js';
+
+// Export pending action resolution
+export {
+  getPendingActions,
+  resolvePendingActions,
+  classifyConfirmationReply,
+} from './pending-actions.js';
 
 // Export response composer
 export { synthesizeResponse } from './response-composer.js';
 
 // Export handler (integration layer)
-export { handleWithOrchestrator } from './handler.js';
+export { handleWithOrchestrator, resumeWithOrchestrator } from './handler.js';
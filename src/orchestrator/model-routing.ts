@@ -0,0 +1,113 @@
+/**
+ * Model Routing
+ *
+ * Picks the model tier for each orchestrator call (see
+ * services/anthropic/routing.ts for the tiers):
+ *
+ * - **Planner**: `fast` when the SMS classifier found nothing to do beyond
+ *   replying ("thanks!"), otherwise `standard`
+ * - **Replanner**: the planner's tier, one level up per replan
+ * - **Steps**: the agent's `modelTier` override or `standard`, one level up
+ *   per retry and per replan
+ * - **Composer**: `fast` for plans without steps, `strong` for large or
+ *   failed plans, otherwise `standard`
+ *
+ * Every decision is logged and recorded in the trace so quality and cost
+ * can be compared across tiers.
+ */
+
+import type { AgentCapability, ExecutionPlan, PlanContext, PlanStep } from './types.js';
+import type { ModelRoute, ModelTier } from '../services/anthropic/routing.js';
+import { DEFAULT_MODEL_TIER, escalateTier, routeModel } from '../services/anthropic/routing.js';
+import type { TraceLogger } from '../utils/trace-logger.js';
+
+/** Plans with at least this many steps get the strong composer */
+const LARGE_PLAN_STEPS = 3;
+
+/**
+ * Whether the classifier judged the message answerable without tools.
+ * Media always counts as work, whatever the classifier said.
+ */
+function isSimpleMessage(context: PlanContext): boolean {
+  return context.classification?.needsAsyncWork === false
+    && !context.mediaAttachments?.length;
+}
+
+function plannerTier(context: PlanContext): { tier: ModelTier; reason: string } {
+  return isSimpleMessage(context)
+    ? { tier: 'fast', reason: 'classifier: no work needed' }
+    : { tier: DEFAULT_MODEL_TIER, reason: 'default' };
+}
+
+/**
+ * Model for creating the initial plan.
+ */
+export function routePlanner(context: PlanContext): ModelRoute {
+  const { tier, reason } = plannerTier(context);
+  return routeModel('planner', tier, reason);
+}
+
+/**
+ * Model for revising a plan: one tier up for each replan so far.
+ */
+export function routeReplanner(priorPlan: ExecutionPlan, context: PlanContext): ModelRoute {
+  const { tier } = plannerTier(context);
+  return routeModel('planner', escalateTier(tier, priorPlan.version), `replan ${priorPlan.version}`);
+}
+
+/**
+ * Model for running a step: the agent's tier, escalated once per failed
+ * attempt and once per replan.
+ *
+ * @param agent Capability of the step's agent (undefined for skills)
+ */
+export function routeStep(step: PlanStep, plan: ExecutionPlan, agent?: AgentCapability): ModelRoute {
+  const base = agent?.modelTier ?? DEFAULT_MODEL_TIER;
+  const replans = plan.version - 1;
+
+  const reasons = [agent?.modelTier ? `${agent.name} override` : 'default'];
+  if (step.retryCount > 0) reasons.push(`retry ${step.retryCount}`);
+  if (replans > 0) reasons.push(`replan ${replans}`);
+
+  return routeModel('agent', escalateTier(base, step.retryCount + replans), reasons.join(', '));
+}
+
+/**
+ * Model for composing the reply, sized by the plan it summarizes.
+ *
+ * @param failureReason Set when the plan failed or timed out
+ */
+export function routeComposer(
+  plan: ExecutionPlan,
+  failureReason?: 'timeout' | 'step_failed'
+): ModelRoute {
+  if (failureReason) {
+    return routeModel('composer', 'strong', `plan ${failureReason}`);
+  }
+  if (plan.steps.length === 0) {
+    return routeModel('composer', 'fast', 'no steps');
+  }
+  if (plan.steps.length >= LARGE_PLAN_STEPS) {
+    return routeModel('composer', 'strong', `${plan.steps.length} steps`);
+  }
+  return routeModel('composer', DEFAULT_MODEL_TIER, `${plan.steps.length} step${plan.steps.length > 1 ? 's' : ''}`);
+}
+
+/**
+ * Log a routing decision and add it to the trace.
+ *
+ * @param subject What the call is for, e.g. a step ID
+ */
+export function recordModelRoute(route: ModelRoute, logger?: TraceLogger, subject?: string): void {
+  console.log(JSON.stringify({
+    level: 'info',
+    event: 'model_routed',
+    role: route.role,
+    tier: route.tier,
+    model: route.model,
+    reason: route.reason,
+    subject,
+    timestamp: new Date().toISOString(),
+  }));
+  logger?.modelRoute(route, subject);
+}
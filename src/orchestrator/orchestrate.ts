@@ -3,32 +3,46 @@
  *
  * The primary entry point for the orchestration system. This function:
  * 1. Creates an execution plan from the user's message
- * 2. Executes steps sequentially
- * 3. Handles retries and replanning
+ * 2. Executes steps as their dependencies complete, independent ones concurrently
+ * 3. Handles retries and replanning, on stronger models as attempts fail
+ *    (see model-routing.ts)
  * 4. Returns the final response
  *
+ * Plans interrupted by a restart continue through resumeOrchestration().
+ *
  * This is the function that message handlers call to process complex requests.
  */
 
 import type { ConversationMessage, StoredMediaAttachment, CurrentMediaSummary } from '../services/conversation/types.js';
+import type { ClassificationResult } from '../services/anthropic/types.js';
+import type { ModelTier } from '../services/anthropic/routing.js';
 import type { UserFact } from '../domains/memory/types.js';
 import type { UserConfig } from '../services/user-config/types.js';
 import type {
   ExecutionPlan,
   PlanContext,
   OrchestratorResult,
+  PlanStep,
   StepResult,
   MediaAttachment,
+  AgentRegistry,
 } from './types.js';
 import { ORCHESTRATOR_LIMITS } from './types.js';
+import { collectDependencyResults, getReadySteps, getStepDependencies } from './step-graph.js';
 import { createAgentRegistry } from '../executor/registry.js';
 import { createPlan } from './planner.js';
 import { executeStep, shouldReplan } from './executor.js';
 import { replan, canReplan } from './replanner.js';
 import { synthesizeResponse } from './response-composer.js';
+import { recordModelRoute, routeStep } from './model-routing.js';
 import type { ComposerDeps } from './response-composer.js';
 import { formatMapsLink, executeTool } from '../tools/index.js';
-import type { TraceLogger } from '../utils/trace-logger.js';
+import type { PlanGraphNode, TraceLogger } from '../utils/trace-logger.js';
+import { noopPlanRecorder } from './plan-persistence.js';
+import type { PlanRecorder } from './plan-persistence.js';
+
+/** A finished step execution */
+type StepOutcome = { step: PlanStep; result: StepResult; startedAt: number; modelTier: ModelTier };
 
 /**
  * Log a plan-level event.
@@ -69,6 +83,34 @@ function logStepEvent(
   }));
 }
 
+/**
+ * Plan steps with their dependencies resolved, for the trace.
+ */
+function toGraphNodes(plan: ExecutionPlan): PlanGraphNode[] {
+  return plan.steps.map(step => ({
+    id: step.id,
+    agent: step.agent,
+    status: step.status,
+    dependsOn: getStepDependencies(step, plan.steps),
+  }));
+}
+
+/**
+ * Wait for running steps before giving up on a plan, keeping the results of
+ * the ones that succeed.
+ */
+async function settleInFlight(
+  inFlight: Map<string, Promise<StepOutcome>>,
+  context: PlanContext
+): Promise<void> {
+  for (const { step, result } of await Promise.all(inFlight.values())) {
+    step.status = result.success ? 'completed' : 'failed';
+    step.result = result;
+    context.stepResults[step.id] = result;
+  }
+  inFlight.clear();
+}
+
 /**
  * Main orchestration function.
  *
@@ -82,6 +124,8 @@ function logStepEvent(
  * @param logger Trace logger for debugging
  * @param messageId ID of the originating user message (for attaching metadata)
  * @param mediaContext Pre-formatted media context block for agent prompts
+ * @param recorder Persists the plan as it progresses (see plan-persistence.ts)
+ * @param classification SMS classifier result, used to pick model tiers
  * @returns OrchestratorResult with response and execution details
  */
 export async function orchestrate(
@@ -97,6 +141,8 @@ export async function orchestrate(
   messageId?: string,
   mediaContext?: string,
   currentMediaSummaries?: CurrentMediaSummary[],
+  recorder: PlanRecorder = noopPlanRecorder,
+  classification?: ClassificationResult,
 ): Promise<OrchestratorResult> {
   const startTime = Date.now();
 
@@ -136,10 +182,49 @@ export async function orchestrate(
     messageId,
     mediaContext,
     currentMediaSummaries,
+    classification,
     stepResults: {},
     errors: [],
   };
 
+  return runOrchestration(context, registry, logger, recorder, startTime);
+}
+
+/**
+ * Continue a plan that was interrupted by a restart (see plan-recovery.ts).
+ * Completed steps keep their results; the rest run as usual.
+ *
+ * @param plan Plan rebuilt from the plan store, with its context reloaded
+ */
+export async function resumeOrchestration(
+  plan: ExecutionPlan,
+  logger: TraceLogger,
+  recorder: PlanRecorder = noopPlanRecorder,
+): Promise<OrchestratorResult> {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Resuming orchestration',
+    planId: plan.id,
+    version: plan.version,
+    completedSteps: plan.steps.filter(s => s.status === 'completed').length,
+    stepCount: plan.steps.length,
+    timestamp: new Date().toISOString(),
+  }));
+
+  return runOrchestration(plan.context, createAgentRegistry(), logger, recorder, Date.now(), plan);
+}
+
+/**
+ * Plan (unless resuming), execute, and compose the reply.
+ */
+async function runOrchestration(
+  context: PlanContext,
+  registry: AgentRegistry,
+  logger: TraceLogger,
+  recorder: PlanRecorder,
+  startTime: number,
+  resumeFrom?: ExecutionPlan,
+): Promise<OrchestratorResult> {
   // Build composer deps (inject tools so response-composer avoids direct tools import)
   const composerDeps: ComposerDeps = {
     compositionTools: [formatMapsLink.tool],
@@ -147,15 +232,28 @@ export async function orchestrate(
   };
 
   try {
-    // Phase 1: Create the initial plan
-    logger.log('INFO', 'Creating execution plan');
-    let plan = await createPlan(context, registry, logger);
-    logPlanEvent('plan_created', plan);
-    logger.planEvent('created', {
-      'Plan ID': plan.id,
-      Goal: plan.goal,
-      Steps: plan.steps.length,
-    });
+    // Phase 1: Create the initial plan, or pick up the interrupted one
+    let plan: ExecutionPlan;
+    if (resumeFrom) {
+      plan = resumeFrom;
+      logPlanEvent('plan_resumed', plan);
+      logger.planEvent('resumed', {
+        'Plan ID': plan.id,
+        Goal: plan.goal,
+        'Completed steps': plan.steps.filter(s => s.status === 'completed').length,
+      });
+    } else {
+      logger.log('INFO', 'Creating execution plan');
+      plan = await createPlan(context, registry, logger);
+      logPlanEvent('plan_created', plan);
+      logger.planEvent('created', {
+        'Plan ID': plan.id,
+        Goal: plan.goal,
+        Steps: plan.steps.length,
+      });
+    }
+    recorder.update(plan);
+    logger.planGraph(toGraphNodes(plan));
 
     // Handle empty plan (no steps needed)
     if (plan.steps.length === 0) {
@@ -168,14 +266,41 @@ export async function orchestrate(
       };
     }
 
-    // Phase 2: Execute steps sequentially
-    let currentStepIndex = 0;
+    // Phase 2: Execute steps as their dependencies complete
+    const inFlight = new Map<string, Promise<StepOutcome>>();
+    let pendingReplan: { reason: string; stepId: string } | null = null;
 
-    while (currentStepIndex < plan.steps.length) {
+    const launchStep = (step: PlanStep): void => {
+      step.status = 'running';
+      const dependsOn = getStepDependencies(step, plan.steps);
+      const route = routeStep(step, plan, step.targetType === 'skill' ? undefined : registry.getAgent(step.agent));
+      logStepEvent('step_started', plan, step.id, step.agent, {
+        retryCount: step.retryCount,
+        dependsOn,
+        modelTier: route.tier,
+      });
+      logger.stepEvent('start', step.id, step.agent, {
+        Task: step.task,
+        'Retry count': step.retryCount,
+        'Depends on': dependsOn.length > 0 ? dependsOn.join(', ') : '(none)',
+      });
+      recordModelRoute(route, logger, step.id);
+
+      // Agents only see the results of the steps this one depends on
+      const stepContext: PlanContext = {
+        ...context,
+        stepResults: collectDependencyResults(step, plan.steps, context.stepResults),
+      };
+      const startedAt = Date.now();
+      inFlight.set(step.id, executeStep(step, stepContext, registry, logger, route)
+        .then(result => ({ step, result, startedAt, modelTier: route.tier })));
+    };
+
+    while (true) {
       // Check plan-level timeout (C-1: 5 minute limit)
       const elapsed = Date.now() - startTime;
       if (elapsed > ORCHESTRATOR_LIMITS.maxExecutionTimeMs) {
-        logPlanEvent('plan_timeout', plan, { elapsedMs: elapsed });
+        logPlanEvent('plan_timeout', plan, { elapsedMs: elapsed, runningSteps: inFlight.size });
         logger.planEvent('timeout', { 'Elapsed ms': elapsed });
         plan.status = 'failed';
 
@@ -204,29 +329,48 @@ export async function orchestrate(
         }));
       }
 
-      const step = plan.steps[currentStepIndex];
+      // Start every ready step while there's room (C-6). A pending replan
+      // holds new work back until the running steps have finished.
+      if (!pendingReplan) {
+        for (const step of getReadySteps(plan.steps)) {
+          if (inFlight.size >= ORCHESTRATOR_LIMITS.maxConcurrentSteps) break;
+          launchStep(step);
+        }
+      }
+      recorder.update(plan);
+
+      if (inFlight.size === 0) {
+        if (!pendingReplan) {
+          // Nothing running and nothing ready - the plan is done
+          break;
+        }
+
+        logPlanEvent('plan_replanning', plan, {
+          reason: pendingReplan.reason,
+          failedStepId: pendingReplan.stepId,
+        });
+        logger.planEvent('replanning', {
+          Reason: pendingReplan.reason,
+          'Failed step': pendingReplan.stepId,
+        });
+        pendingReplan = null;
+        plan = await replan(plan, context, registry, logger);
 
-      // Skip already completed steps (from replanning)
-      if (step.status === 'completed') {
-        currentStepIndex++;
+        logPlanEvent('plan_replanned', plan, {
+          newStepCount: plan.steps.length,
+        });
+        logger.planEvent('replanned', {
+          'New step count': plan.steps.length,
+        });
+        logger.planGraph(toGraphNodes(plan));
         continue;
       }
 
-      // Execute the step
-      step.status = 'running';
-      logStepEvent('step_started', plan, step.id, step.agent, {
-        retryCount: step.retryCount,
-      });
-      logger.stepEvent('start', step.id, step.agent, {
-        Task: step.task,
-        'Retry count': step.retryCount,
-      });
-
-      const stepStartTime = Date.now();
-      const result = await executeStep(step, context, registry, logger);
+      // Handle whichever running step finishes first
+      const { step, result, startedAt, modelTier } = await Promise.race(inFlight.values());
+      inFlight.delete(step.id);
 
       if (result.success) {
-        // Success - move to next step
         step.status = 'completed';
         step.result = result;
         context.stepResults[step.id] = result;
@@ -234,123 +378,106 @@ export async function orchestrate(
         logStepEvent('step_completed', plan, step.id, step.agent, {
           hasOutput: !!result.output,
           toolCallCount: result.toolCalls?.length || 0,
-          durationMs: Date.now() - stepStartTime,
+          durationMs: Date.now() - startedAt,
+          modelTier,
         });
         logger.stepEvent('complete', step.id, step.agent, {
           Success: true,
           'Tool calls': result.toolCalls?.length || 0,
-          'Duration ms': Date.now() - stepStartTime,
+          'Duration ms': Date.now() - startedAt,
         });
 
         // Check if agent signaled replanning
-        const needsReplan = shouldReplan(result, currentStepIndex, plan.steps.length);
-        if (needsReplan && canReplan(plan)) {
-          logPlanEvent('plan_replanning', plan, {
-            reason: 'agent_requested_replan',
-            failedStepId: step.id,
-          });
-          logger.planEvent('replanning', {
-            Reason: 'agent_requested_replan',
-            'Failed step': step.id,
-          });
-          plan = await replan(plan, context, registry, logger);
-          logPlanEvent('plan_replanned', plan, {
-            newStepCount: plan.steps.length,
-          });
-          logger.planEvent('replanned', {
-            'New step count': plan.steps.length,
-          });
-          currentStepIndex = plan.steps.findIndex(s => s.status === 'pending');
-          if (currentStepIndex < 0) {
-            break;
-          }
-        } else {
-          currentStepIndex++;
+        const needsReplan = shouldReplan(result, plan.steps.indexOf(step), plan.steps.length);
+        if (!pendingReplan && needsReplan && canReplan(plan)) {
+          pendingReplan = { reason: 'agent_requested_replan', stepId: step.id };
         }
-      } else {
-        // Failure - retry or replan
-        step.retryCount++;
-        context.errors.push({
-          stepId: step.id,
-          error: result.error || 'Unknown error',
-        });
-        context.stepResults[step.id] = result;
+        continue;
+      }
 
-        logStepEvent('step_failed', plan, step.id, step.agent, {
-          error: result.error,
+      // Failure - retry or replan
+      step.retryCount++;
+      context.errors.push({
+        stepId: step.id,
+        error: result.error || 'Unknown error',
+      });
+      context.stepResults[step.id] = result;
+
+      logStepEvent('step_failed', plan, step.id, step.agent, {
+        error: result.error,
+        retryCount: step.retryCount,
+        durationMs: Date.now() - startedAt,
+        modelTier,
+      });
+      logger.stepEvent('failed', step.id, step.agent, {
+        Error: result.error,
+        'Retry count': step.retryCount,
+      });
+
+      if (step.retryCount < step.maxRetries) {
+        // Back to pending so the step is started again
+        step.status = 'pending';
+        logStepEvent('step_retrying', plan, step.id, step.agent, {
           retryCount: step.retryCount,
-          durationMs: Date.now() - stepStartTime,
         });
-        logger.stepEvent('failed', step.id, step.agent, {
-          Error: result.error,
-          'Retry count': step.retryCount,
+        logger.stepEvent('retry', step.id, step.agent, {
+          'Attempt': step.retryCount + 1,
+          'Max retries': step.maxRetries,
         });
+        continue;
+      }
 
-        if (step.retryCount < step.maxRetries) {
-          // Retry the same step
-          logStepEvent('step_retrying', plan, step.id, step.agent, {
-            retryCount: step.retryCount,
-          });
-          logger.stepEvent('retry', step.id, step.agent, {
-            'Attempt': step.retryCount + 1,
-            'Max retries': step.maxRetries,
-          });
-          continue;
-        }
+      step.status = 'failed';
+      step.result = result;
 
-        // Max retries exceeded - try replanning
-        if (canReplan(plan)) {
-          logPlanEvent('plan_replanning', plan, {
-            reason: result.error,
-            failedStepId: step.id,
-          });
-          logger.planEvent('replanning', {
-            Reason: result.error,
-            'Failed step': step.id,
-          });
-
-          step.status = 'failed';
-          step.result = result;
-          plan = await replan(plan, context, registry, logger);
-
-          logPlanEvent('plan_replanned', plan, {
-            newStepCount: plan.steps.length,
-          });
-          logger.planEvent('replanned', {
-            'New step count': plan.steps.length,
-          });
-
-          // Find the first pending step to continue from
-          currentStepIndex = plan.steps.findIndex(s => s.status === 'pending');
-          if (currentStepIndex < 0) {
-            // No more steps to execute
-            break;
-          }
-          continue;
-        }
+      // Max retries exceeded - replan once the running steps finish
+      if (pendingReplan || canReplan(plan)) {
+        pendingReplan ??= { reason: result.error || 'Unknown error', stepId: step.id };
+        continue;
+      }
 
-        // Cannot replan - fail the plan
-        step.status = 'failed';
-        step.result = result;
-        plan.status = 'failed';
+      // Cannot replan - let the running steps finish, then fail the plan
+      await settleInFlight(inFlight, context);
+      plan.status = 'failed';
 
-        logPlanEvent('plan_failed', plan, {
-          reason: 'max_replans_exceeded',
-          failedStepId: step.id,
-        });
-        logger.planEvent('failed', {
-          Reason: 'max_replans_exceeded',
-          'Failed step': step.id,
-        });
+      logPlanEvent('plan_failed', plan, {
+        reason: 'max_replans_exceeded',
+        failedStepId: step.id,
+      });
+      logger.planEvent('failed', {
+        Reason: 'max_replans_exceeded',
+        'Failed step': step.id,
+      });
 
-        return {
-          success: false,
-          response: await synthesizeResponse(context, plan, composerDeps, 'step_failed', logger),
-          stepResults: context.stepResults,
-          error: result.error || 'Step failed after max retries',
-          plan,
-        };
-      }
+      return {
+        success: false,
+        response: await synthesizeResponse(context, plan, composerDeps, 'step_failed', logger),
+        stepResults: context.stepResults,
+        error: result.error || 'Step failed after max retries',
+        plan,
+      };
+    }
+
+    // Steps still pending here wait on a dependency that will never complete
+    const blockedSteps = plan.steps.filter(s => s.status === 'pending');
+    if (blockedSteps.length > 0) {
+      plan.status = 'failed';
+      logPlanEvent('plan_failed', plan, {
+        reason: 'unmet_dependencies',
+        blockedStepIds: blockedSteps.map(s => s.id),
+      });
+      logger.planEvent('failed', {
+        Reason: 'unmet_dependencies',
+        'Blocked steps': blockedSteps.map(s => s.id).join(', '),
+      });
+
+      return {
+        success: false,
+        response: await synthesizeResponse(context, plan, composerDeps, 'step_failed', logger),
+        stepResults: context.stepResults,
+        error: `Steps blocked by unmet dependencies: ${blockedSteps.map(s => s.id).join(', ')}`,
+        plan,
+      };
     }
 
     // Phase 3: All steps completed successfully
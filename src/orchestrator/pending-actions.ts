@@ -0,0 +1,211 @@
+/**
+ * Pending Action Resolution
+ *
+ * Destructive tools (see ToolDefinition.confirmationPrompt) don't run when
+ * an agent calls them during a conversation: the call is parked as a
+ * pending action and the agent asks the user to confirm. Calls parked in the
+ * same turn are confirmed together. The reply is resolved here, before
+ * classification or planning:
+ *
+ * - **yes**: every parked tool call runs as proposed
+ * - **no**: the actions are dropped
+ * - **anything else** may be an edit: the agent that owns the tools gets the
+ *   proposals and the reply and may propose revised calls (parking new
+ *   actions). If it doesn't, the actions are dropped and the message is
+ *   planned like any other, since it's likely a new request
+ *
+ * Unanswered actions expire after PENDING_ACTION_TTL_MS.
+ */
+
+import type { UserConfig } from '../services/user-config/types.js';
+import type { PendingAction } from '../services/pending-actions/index.js';
+import type { PlanContext, PlanStep } from './types.js';
+import { getPendingActionStore } from '../services/pending-actions/index.js';
+import { getConversationStore } from '../services/conversation/index.js';
+import { getMemoryStore } from '../domains/memory/runtime/index.js';
+import { createAgentRegistry } from '../executor/registry.js';
+import { executeTool } from '../tools/index.js';
+import { executeStep } from './executor.js';
+import { getRelevantHistory } from './conversation-window.js';
+import { createLogger, redactPhone } from '../utils/observability/index.js';
+
+const log = createLogger({ domain: 'pending-actions' });
+
+export type ConfirmationReply = 'yes' | 'no' | 'edit';
+
+const YES_REPLY = /^(y|yes|yeah|yep|yup|sure|ok|okay|confirm|confirmed|do it|go ahead|please do|sounds good|👍)( please)?$/;
+const NO_REPLY = /^(n|no|nope|nah|cancel|stop|don't|dont|do not|never ?mind|keep it|👎)( thanks| thank you)?$/;
+
+/**
+ * Classify a reply to a confirmation question.
+ */
+export function classifyConfirmationReply(message: string): ConfirmationReply {
+  const normalized = message
+    .toLowerCase()
+    .replace(/[’]/g, "'")
+    .replace(/[.!,]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (YES_REPLY.test(normalized)) return 'yes';
+  if (NO_REPLY.test(normalized)) return 'no';
+  return 'edit';
+}
+
+/**
+ * Get the user's unexpired pending actions, oldest first.
+ */
+export async function getPendingActions(phoneNumber: string): Promise<PendingAction[]> {
+  return getPendingActionStore().list(phoneNumber);
+}
+
+/**
+ * Run a confirmed action.
+ * @returns The tool's error, or null if it succeeded
+ */
+async function runConfirmedAction(action: PendingAction, userConfig: UserConfig | null): Promise<string | null> {
+  const output = await executeTool(action.toolName, action.toolInput, {
+    phoneNumber: action.phoneNumber,
+    channel: action.channel,
+    userConfig,
+    confirmedByUser: true,
+  });
+
+  let result: Record<string, unknown> = {};
+  try {
+    result = JSON.parse(output) as Record<string, unknown>;
+  } catch {
+    // Tool output is always JSON; treat anything else as a bare success
+  }
+
+  if (result.success === false || typeof result.error === 'string') {
+    return typeof result.error === 'string' ? result.error : 'unknown error';
+  }
+  return null;
+}
+
+/**
+ * Run every confirmed action in order and describe the outcome.
+ */
+async function runConfirmedActions(actions: PendingAction[], userConfig: UserConfig | null): Promise<string> {
+  const failures: Array<{ action: PendingAction; error: string }> = [];
+  for (const action of actions) {
+    const error = await runConfirmedAction(action, userConfig);
+    if (error !== null) {
+      failures.push({ action, error });
+    }
+  }
+
+  if (failures.length === 0) {
+    return 'Done.';
+  }
+  if (actions.length === 1) {
+    return `Sorry, that didn't work: ${failures[0].error}`;
+  }
+  const done = actions.length - failures.length;
+  return `Done ${done} of ${actions.length}. Sorry, these didn't work:\n`
+    + failures.map(f => `- ${f.action.prompt} ${f.error}`).join('\n');
+}
+
+/**
+ * Describe the parked calls for the agent revising them.
+ */
+function describeProposals(actions: PendingAction[]): string {
+  return actions
+    .map(a => `- ${a.toolName} with ${JSON.stringify(a.toolInput)}, asking: "${a.prompt}"`)
+    .join('\n');
+}
+
+/**
+ * Hand an edit to the agent that owns the tools, skipping the planner.
+ * Returns the agent's question about its revised calls, or null when it
+ * didn't propose any (or no single agent owns the tools).
+ */
+async function reviseActions(
+  actions: PendingAction[],
+  reply: string,
+  userConfig: UserConfig | null
+): Promise<string | null> {
+  const [first] = actions;
+  const registry = createAgentRegistry();
+  const agent = registry.listAgents()
+    .find(a => actions.every(action => a.tools.includes(action.toolName)))?.name;
+  if (!agent) {
+    return null;
+  }
+
+  const [history, userFacts] = await Promise.all([
+    getConversationStore().getHistory(first.phoneNumber, { limit: 50 }),
+    getMemoryStore().getFacts(first.phoneNumber),
+  ]);
+  const toolNames = [...new Set(actions.map(a => a.toolName))].join(' / ');
+
+  const step: PlanStep = {
+    id: 'pending_action_edit',
+    targetType: 'agent',
+    agent,
+    task: `You proposed these calls and asked the user to confirm them:\n${describeProposals(actions)}\n`
+      + `They replied: "${reply}"\n`
+      + `If they changed what should happen, call ${toolNames} again with the revised input for every call `
+      + `that should still happen (they will wait for their confirmation again) and end with the question. `
+      + `If the reply isn't a change to these calls, don't call any tools.`,
+    status: 'pending',
+    retryCount: 0,
+    maxRetries: 0,
+  };
+  const context: PlanContext = {
+    userMessage: reply,
+    conversationHistory: getRelevantHistory(history),
+    userFacts,
+    userConfig,
+    phoneNumber: first.phoneNumber,
+    channel: first.channel,
+    stepResults: {},
+    errors: [],
+  };
+
+  const result = await executeStep(step, context, registry);
+  const store = getPendingActionStore();
+  const revised = await store.list(first.phoneNumber);
+  if (revised.length === 0) {
+    return null;
+  }
+  if (!result.success || typeof result.output !== 'string' || !result.output.trim()) {
+    // Revised calls the user never sees a question for must not linger
+    await store.deleteAll(first.phoneNumber);
+    return null;
+  }
+  return result.output;
+}
+
+/**
+ * Resolve the user's pending actions with their reply. The actions are
+ * removed before anything runs, so a repeated reply can't run them twice.
+ *
+ * @param actions The user's open actions (getPendingActions), non-empty
+ * @returns The reply to send, or null to handle the message normally
+ */
+export async function resolvePendingActions(
+  actions: PendingAction[],
+  reply: string,
+  userConfig: UserConfig | null
+): Promise<string | null> {
+  const kind = classifyConfirmationReply(reply);
+  await getPendingActionStore().deleteAll(actions[0].phoneNumber);
+
+  log.info('pending_action_resolved', {
+    phone: redactPhone(actions[0].phoneNumber),
+    actionIds: actions.map(a => a.id),
+    tools: actions.map(a => a.toolName),
+    reply: kind,
+  });
+
+  switch (kind) {
+    case 'yes':
+      return runConfirmedActions(actions, userConfig);
+    case 'no':
+      return "Okay, I won't do that.";
+    default:
+      return reviseActions(actions, reply, userConfig);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Plan Persistence
+ *
+ * Saves each request's execution plan to the plan store as it progresses:
+ * when the request starts, whenever steps start or finish, after replans,
+ * and once a reply is ready. Interrupted plans are picked up on startup by
+ * plan-recovery.ts.
+ *
+ * Saving never fails a request; errors are logged and the request carries on.
+ */
+
+import type { PlanRecord, PlanStepRecord, PlanStore } from '../services/plans/index.js';
+import { getPlanStore } from '../services/plans/index.js';
+import type { ExecutionPlan, OrchestratorResult, PlanContext, PlanStep, StepResult } from './types.js';
+
+/**
+ * Records a request's plan as it progresses.
+ */
+export interface PlanRecorder {
+  /** Record the plan's current state */
+  update(plan: ExecutionPlan): void;
+
+  /** Record how the request finished */
+  finish(result: Pick<OrchestratorResult, 'success' | 'response' | 'error' | 'plan'>): void;
+}
+
+/**
+ * Recorder for orchestrations that aren't persisted.
+ */
+export const noopPlanRecorder: PlanRecorder = {
+  update: () => {},
+  finish: () => {},
+};
+
+function toStepRecord(step: PlanStep): PlanStepRecord {
+  return {
+    id: step.id,
+    targetType: step.targetType,
+    agent: step.agent,
+    task: step.task,
+    status: step.status,
+    retryCount: step.retryCount,
+    maxRetries: step.maxRetries,
+    dependsOn: step.dependsOn,
+    result: step.result,
+  };
+}
+
+/**
+ * Create a recorder for a request, saving its initial state right away.
+ *
+ * @param initial The request as it stands: a new one in 'planning', or a
+ *   stored one being resumed
+ */
+export function createPlanRecorder(initial: PlanRecord, store: PlanStore = getPlanStore()): PlanRecorder {
+  const record: PlanRecord = { ...initial };
+
+  const save = (): void => {
+    record.updatedAt = Date.now();
+    store.save({ ...record, steps: [...record.steps] }).catch((error: unknown) => {
+      console.warn(JSON.stringify({
+        level: 'warn',
+        message: 'Failed to save plan',
+        requestId: record.requestId,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      }));
+    });
+  };
+
+  const applyPlan = (plan: ExecutionPlan): void => {
+    record.planId = plan.id;
+    record.goal = plan.goal;
+    record.version = plan.version;
+    record.steps = plan.steps.map(toStepRecord);
+  };
+
+  save();
+
+  return {
+    update(plan) {
+      applyPlan(plan);
+      record.status = plan.status;
+      save();
+    },
+    finish(result) {
+      if (result.plan) {
+        applyPlan(result.plan);
+      }
+      record.status = result.success ? 'completed' : 'failed';
+      record.response = result.response;
+      record.error = result.error;
+      save();
+    },
+  };
+}
+
+/**
+ * Whether a stored step result has the StepResult shape.
+ * Boundary: anything else is dropped rather than passed to agents.
+ */
+function isStepResult(value: unknown): value is StepResult {
+  return typeof value === 'object' && value !== null && typeof (value as { success?: unknown }).success === 'boolean';
+}
+
+/**
+ * Rebuild an execution plan from its stored record, ready to continue.
+ *
+ * Results of finished steps are restored so their dependents can use them.
+ * Plans with a step that was running aren't resumed (see plan-recovery.ts);
+ * should one get here, the step goes back to pending without its result.
+ */
+export function restorePlan(record: PlanRecord, context: PlanContext): ExecutionPlan {
+  const steps: PlanStep[] = record.steps.map(step => ({
+    id: step.id,
+    targetType: step.targetType,
+    agent: step.agent,
+    task: step.task,
+    status: step.status === 'running' ? 'pending' : step.status,
+    retryCount: step.retryCount,
+    maxRetries: step.maxRetries,
+    ...(step.dependsOn ? { dependsOn: step.dependsOn } : {}),
+    ...(step.status !== 'running' && isStepResult(step.result) ? { result: step.result } : {}),
+  }));
+
+  for (const step of steps) {
+    if (step.result) {
+      context.stepResults[step.id] = step.result;
+    }
+  }
+
+  return {
+    id: record.planId ?? record.requestId,
+    userRequest: record.userMessage,
+    goal: record.goal ?? '',
+    steps,
+    status: 'executing',
+    context,
+    version: record.version,
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(),
+  };
+}
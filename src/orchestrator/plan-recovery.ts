@@ -0,0 +1,150 @@
+/**
+ * Plan Recovery
+ *
+ * Runs once on startup. Requests whose plans were still planning, executing
+ * or replanning when the process stopped never got their reply:
+ *
+ * - Recent ones (C-7: started within 15 minutes) are resumed from their
+ *   stored plan and the reply is sent as usual
+ * - Older ones, and ones with media attachments (which aren't persisted),
+ *   are marked failed and the user is asked to send the request again
+ * - Ones with a step still running are marked failed too: the step may have
+ *   created an event or sent an email before the restart, so running it
+ *   again could do that twice. The user is asked to check before resending
+ *
+ * Finished plans older than PLAN_RETENTION_DAYS are deleted.
+ */
+
+import type { PlanRecord, PlanStore } from '../services/plans/index.js';
+import { getPlanStore } from '../services/plans/index.js';
+import { getUserConfigStore } from '../services/user-config/index.js';
+import { ORCHESTRATOR_LIMITS } from './types.js';
+import { resumeWithOrchestrator } from './handler.js';
+import { createLogger, redactPhone } from '../utils/observability/index.js';
+
+const log = createLogger({ domain: 'plan-recovery' });
+
+/** Days finished plans are kept for inspection */
+export const PLAN_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sends a reply to the user and records it in the conversation.
+ */
+export type ReplySender = (phoneNumber: string, channel: 'sms' | 'whatsapp', message: string) => Promise<void>;
+
+export interface PlanRecoveryResult {
+  resumed: number;
+  failed: number;
+  pruned: number;
+}
+
+export interface PlanRecoveryOptions {
+  store?: PlanStore;
+  nowMs?: number;
+}
+
+/** Unresumable reason for a plan interrupted mid-step */
+const STEP_INTERRUPTED = 'step_interrupted';
+
+/**
+ * Message asking the user to resend a request that couldn't be finished.
+ *
+ * @param partial Whether some of the request may already have been done
+ */
+export function formatInterruptedNotice(userMessage: string, partial = false): string {
+  const snippet = userMessage.length > 60 ? `${userMessage.slice(0, 57).trimEnd()}...` : userMessage;
+  return partial
+    ? `Sorry, I was restarted while working on "${snippet}" and may have done only part of it. `
+      + 'Please check, and send whatever is left again.'
+    : `Sorry, I was restarted while working on "${snippet}" and couldn't finish it. Could you send it again?`;
+}
+
+/**
+ * Why a request can't be resumed, or null if it can.
+ */
+function getUnresumableReason(record: PlanRecord, nowMs: number): string | null {
+  if (record.hasMedia) {
+    return 'media_not_persisted';
+  }
+  if (nowMs - record.createdAt > ORCHESTRATOR_LIMITS.maxResumeAgeMs) {
+    return 'too_old';
+  }
+  if (record.steps.some(step => step.status === 'running')) {
+    return STEP_INTERRUPTED;
+  }
+  return null;
+}
+
+/**
+ * Mark a request failed and tell the user.
+ */
+async function failInterrupted(
+  record: PlanRecord,
+  reason: string,
+  store: PlanStore,
+  sendReply: ReplySender
+): Promise<void> {
+  const response = formatInterruptedNotice(record.userMessage, reason === STEP_INTERRUPTED);
+  await store.save({
+    ...record,
+    status: 'failed',
+    response,
+    error: `Interrupted by restart (${reason})`,
+    updatedAt: Date.now(),
+  });
+  await sendReply(record.phoneNumber, record.channel, response);
+}
+
+/**
+ * Resume or fail every interrupted request, then prune old plans.
+ *
+ * Plans created after `nowMs` belong to this process and are left alone.
+ */
+export async function recoverInterruptedPlans(
+  sendReply: ReplySender,
+  options: PlanRecoveryOptions = {}
+): Promise<PlanRecoveryResult> {
+  const store = options.store ?? getPlanStore();
+  const nowMs = options.nowMs ?? Date.now();
+  const result: PlanRecoveryResult = { resumed: 0, failed: 0, pruned: 0 };
+
+  for (const record of await store.getUnfinished(nowMs)) {
+    const reason = getUnresumableReason(record, nowMs);
+
+    try {
+      if (reason) {
+        await failInterrupted(record, reason, store, sendReply);
+        result.failed++;
+        log.info('interrupted_plan_failed', {
+          requestId: record.requestId,
+          phone: redactPhone(record.phoneNumber),
+          reason,
+        });
+        continue;
+      }
+
+      const userConfig = await getUserConfigStore().get(record.phoneNumber);
+      const response = await resumeWithOrchestrator(record, userConfig);
+      await sendReply(record.phoneNumber, record.channel, response);
+      result.resumed++;
+      log.info('interrupted_plan_resumed', {
+        requestId: record.requestId,
+        phone: redactPhone(record.phoneNumber),
+        completedSteps: record.steps.filter(s => s.status === 'completed').length,
+      });
+    } catch (error) {
+      log.error('interrupted_plan_recovery_failed', {
+        requestId: record.requestId,
+        phone: redactPhone(record.phoneNumber),
+        error: error instanceof Error ? error : String(error),
+      });
+    }
+  }
+
+  result.pruned = await store.deleteFinished(nowMs - PLAN_RETENTION_DAYS * DAY_MS);
+
+  log.info('plan_recovery_completed', { ...result });
+  return result;
+}
@@ -14,9 +14,8 @@
 
 import type { TextBlock } from '@anthropic-ai/sdk/resources/messages';
 
-import config from '../config.js';
-import { getClient } from '../services/anthropic/client.js';
-import { buildTimeContext, buildUserContext } from '../services/anthropic/prompts/context.js';
+import { createMessage } from '../services/anthropic/metered.js';
+import { buildFactsXml, buildTimeContext, buildUserContext } from '../services/anthropic/prompts/context.js';
 import { resolveDate, resolveDateRange } from '../services/date/resolver.js';
 import type {
   ExecutionPlan,
@@ -26,9 +25,11 @@ import type {
   PlanStepTargetType,
 } from './types.js';
 import { ORCHESTRATOR_LIMITS } from './types.js';
+import { normalizeDependsOn } from './step-graph.js';
 import { formatAgentsForPrompt } from '../executor/registry.js';
 import { formatHistoryForPrompt } from './conversation-window.js';
 import { formatCurrentMediaContext } from './media-context.js';
+import { recordModelRoute, routePlanner } from './model-routing.js';
 import { getSkillsRegistry } from '../registry/skills.js';
 import type { TraceLogger } from '../utils/trace-logger.js';
 
@@ -38,7 +39,7 @@ import type { TraceLogger } from '../utils/trace-logger.js';
  */
 const PLANNING_PROMPT = `You are a planning module for a personal assistant.
 
-Analyze the user's request and create a plan with sequential steps.
+Analyze the user's request and create a plan of steps.
 
 <current_time>
 {timeContext}
@@ -68,7 +69,7 @@ Analyze the user's request and create a plan with sequential steps.
 3. For single-domain actionable requests, use the matching specialized agent (calendar/email/drive/scheduler/memory/ui)
 4. Only use multiple steps when truly necessary (e.g., "check calendar AND create reminder")
 5. Each step should be a discrete, completable task
-6. Steps execute sequentially - later steps can reference earlier results
+6. Steps run in parallel unless they depend on each other - list in "dependsOn" the IDs of earlier steps whose results a step needs (e.g., ui-agent rendering data fetched by calendar-agent). Independent steps use an empty list
 7. Maximum 10 steps per plan
 8. If dates/times are relative (tomorrow, friday, next week), resolve them to specific dates in the task description
 9. Today is {today}
@@ -94,13 +95,15 @@ Respond with ONLY a JSON object (no markdown, no explanation):
       "id": "step_1",
       "targetType": "agent",
       "agent": "agent-name",
-      "task": "Specific task with resolved dates"
+      "task": "Specific task with resolved dates",
+      "dependsOn": []
     }
   ]
 }
 
 Each step must include "targetType": either "agent" (for domain agents) or "skill" (for filesystem skills).
 When targetType is "skill", the "agent" field should contain the skill name instead.
+Each step must include "dependsOn": the IDs of earlier steps it needs results from, or [] if none.
 
 For simple requests, return a single step:
 {
@@ -111,16 +114,28 @@ For simple requests, return a single step:
       "id": "step_1",
       "targetType": "agent",
       "agent": "calendar-agent",
-      "task": "List all calendar events for 2026-01-30 (tomorrow)"
+      "task": "List all calendar events for 2026-01-30 (tomorrow)",
+      "dependsOn": []
     }
   ]
 }
+
+For independent lookups feeding one step, let the lookups run in parallel:
+{
+  "analysis": "User wants tomorrow's meetings and unread email shown together",
+  "goal": "Show tomorrow's meetings and unread email in one view",
+  "steps": [
+    { "id": "step_1", "targetType": "agent", "agent": "calendar-agent", "task": "List all calendar events for 2026-01-30 (tomorrow)", "dependsOn": [] },
+    { "id": "step_2", "targetType": "agent", "agent": "email-agent", "task": "List unread emails", "dependsOn": [] },
+    { "id": "step_3", "targetType": "agent", "agent": "ui-agent", "task": "Render the events and emails in one dashboard", "dependsOn": ["step_1", "step_2"] }
+  ]
+}
 </output_format>`;
 
 type ParsedPlanResponse = {
   analysis: string;
   goal: string;
-  steps: Array<{ id: string; targetType?: PlanStepTargetType; agent: string; task: string }>;
+  steps: Array<{ id: string; targetType?: PlanStepTargetType; agent: string; task: string; dependsOn?: unknown }>;
 };
 
 function createFallbackPlan(userMessage: string, reason: string, timezone?: string): ParsedPlanResponse {
@@ -219,7 +234,6 @@ export async function createPlan(
   registry: AgentRegistry,
   logger?: TraceLogger
 ): Promise<ExecutionPlan> {
-  const anthropic = getClient();
   const startTime = Date.now();
 
   // Build prompt components
@@ -227,19 +241,10 @@ export async function createPlan(
   const agentDescriptions = formatAgentsForPrompt(registry);
   const historyText = formatHistoryForPrompt(context.conversationHistory);
 
-  // Build user context with memory (cap at 4000 chars to prevent context overflow)
-  let memoryXml = '';
-  if (context.userFacts.length > 0) {
-    const MAX_FACTS_CHARS = 4000;
-    let factsText = '';
-    for (const f of context.userFacts) {
-      const next = factsText ? factsText + '. ' + f.fact : f.fact;
-      if (next.length > MAX_FACTS_CHARS) break;
-      factsText = next;
-    }
-    factsText += '.';
-    memoryXml = `\n  <facts>\n    ${factsText}\n  </facts>`;
-  }
+  // Build user context with memory (cap at 4000 chars to prevent context overflow).
+  // Facts ranked against the message are taken most relevant first.
+  const factsXml = buildFactsXml(context.userFacts, { maxChars: 4000 });
+  const memoryXml = factsXml ? `\n${factsXml}` : '';
   const userContextText = buildUserContext(context.userConfig, memoryXml);
 
   // Get today's date in user's timezone for the prompt
@@ -275,9 +280,12 @@ export async function createPlan(
     timestamp: new Date().toISOString(),
   }));
 
+  const route = routePlanner(context);
+  recordModelRoute(route, logger);
+
   // Log LLM request
   logger?.llmRequest('planning', {
-    model: config.models.planner,
+    model: route.model,
     maxTokens: 1024,
     temperature: 0,
     systemPrompt: prompt,
@@ -286,15 +294,15 @@ export async function createPlan(
 
   // Call LLM to create plan
   const llmStartTime = Date.now();
-  const response = await anthropic.messages.create({
-    model: config.models.planner,
+  const response = await createMessage({
+    model: route.model,
     max_tokens: 1024,
     temperature: 0, // Deterministic planning (NFR-4)
     system: prompt,
     messages: [
       { role: 'user', content: context.userMessage },
     ],
-  });
+  }, { phoneNumber: context.phoneNumber, purpose: 'planner' });
   const llmDuration = Date.now() - llmStartTime;
 
   // Log LLM response
@@ -325,16 +333,19 @@ export async function createPlan(
   }
 
   // Convert to PlanSteps
-  const steps: PlanStep[] = parsed.steps
-    .filter(s => typeof s.agent === 'string' && s.agent.length > 0 && typeof s.task === 'string' && s.task.length > 0)
+  const validSteps = parsed.steps
+    .filter(s => typeof s.agent === 'string' && s.agent.length > 0 && typeof s.task === 'string' && s.task.length > 0);
+  const stepIds = validSteps.map((s, i) => s.id || `step_${i + 1}`);
+  const steps: PlanStep[] = validSteps
     .map((s, i) => ({
-      id: s.id || `step_${i + 1}`,
+      id: stepIds[i],
       targetType: (s.targetType === 'skill' ? 'skill' : 'agent') as PlanStepTargetType,
       agent: s.agent,
       task: s.task.length > 500 ? s.task.slice(0, 500) + '...' : s.task,
       status: 'pending' as const,
       retryCount: 0,
       maxRetries: 2,
+      dependsOn: normalizeDependsOn(s.dependsOn, stepIds.slice(0, i)),
     }));
 
   // Enforce maximum total steps (C-3) for the initial plan as well
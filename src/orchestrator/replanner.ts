@@ -8,13 +8,13 @@
  * Key responsibilities:
  * - Preserve completed steps (don't redo work)
  * - Adjust remaining steps based on failures
+ * - Carry dependsOn edges into the revised steps
  * - Track replan count to prevent infinite loops
  */
 
 import type { TextBlock } from '@anthropic-ai/sdk/resources/messages';
 
-import config from '../config.js';
-import { getClient } from '../services/anthropic/client.js';
+import { createMessage } from '../services/anthropic/metered.js';
 import type {
   ExecutionPlan,
   PlanStep,
@@ -22,6 +22,8 @@ import type {
   AgentRegistry,
 } from './types.js';
 import { ORCHESTRATOR_LIMITS } from './types.js';
+import { normalizeDependsOn } from './step-graph.js';
+import { recordModelRoute, routeReplanner } from './model-routing.js';
 import { formatAgentsForPrompt } from '../executor/registry.js';
 import type { TraceLogger } from '../utils/trace-logger.js';
 
@@ -57,6 +59,7 @@ const REPLANNING_PROMPT = `You are revising an execution plan after a step failu
 3. Add new steps if necessary to achieve the goal
 4. If the goal cannot be achieved, create a plan that handles the failure gracefully
 5. Maximum {maxSteps} total steps
+6. List in "dependsOn" the IDs of steps (completed ones included) whose results a step needs. Steps that need no other results use [] and run in parallel
 </rules>
 
 <output_format>
@@ -68,7 +71,8 @@ Respond with ONLY a JSON object (no markdown):
       "id": "step_1",
       "agent": "agent-name",
       "task": "Task description",
-      "status": "completed" // or "pending" for new steps
+      "status": "completed", // or "pending" for new steps
+      "dependsOn": [] // IDs of steps whose results this step needs
     }
   ]
 }
@@ -87,8 +91,12 @@ function formatPriorSteps(steps: PlanStep[]): string {
         ? `\n    Output: ${JSON.stringify(step.result.output).substring(0, 200)}`
         : '';
 
+      const dependsOnInfo = step.dependsOn?.length
+        ? `\n    Depends on: ${step.dependsOn.join(', ')}`
+        : '';
+
       return `  - [${step.id}] ${step.agent} (${step.status})
-    Task: ${step.task}${resultInfo}${outputInfo}`;
+    Task: ${step.task}${dependsOnInfo}${resultInfo}${outputInfo}`;
     })
     .join('\n');
 }
@@ -111,7 +119,7 @@ function formatErrors(errors: Array<{ stepId: string; error: string }>): string
  */
 function parseReplanResponse(text: string): {
   analysis: string;
-  steps: Array<{ id: string; targetType?: string; agent: string; task: string; status?: string }>;
+  steps: Array<{ id: string; targetType?: string; agent: string; task: string; status?: string; dependsOn?: unknown }>;
 } {
   // Try to extract JSON from markdown code blocks if present
   const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
@@ -178,7 +186,6 @@ export async function replan(
   registry: AgentRegistry,
   logger?: TraceLogger
 ): Promise<ExecutionPlan> {
-  const anthropic = getClient();
   const startTime = Date.now();
 
   console.log(JSON.stringify({
@@ -203,9 +210,12 @@ export async function replan(
     .replace('{errors}', errorsText)
     .replace('{maxSteps}', String(ORCHESTRATOR_LIMITS.maxTotalSteps));
 
+  const route = routeReplanner(priorPlan, context);
+  recordModelRoute(route, logger);
+
   // Log LLM request
   logger?.llmRequest('replan', {
-    model: config.models.planner,
+    model: route.model,
     maxTokens: 1024,
     temperature: 0,
     systemPrompt: prompt,
@@ -214,15 +224,15 @@ export async function replan(
 
   // Call LLM for revised plan
   const llmStartTime = Date.now();
-  const response = await anthropic.messages.create({
-    model: config.models.planner,
+  const response = await createMessage({
+    model: route.model,
     max_tokens: 1024,
     temperature: 0,
     system: prompt,
     messages: [
       { role: 'user', content: 'Create a revised plan to handle the failures.' },
     ],
-  });
+  }, { phoneNumber: context.phoneNumber, purpose: 'planner' });
 
   // Log LLM response
   logger?.llmResponse('replan', {
@@ -277,6 +287,7 @@ export async function replan(
         status: 'pending',
         retryCount: 0,
         maxRetries: 2,
+        dependsOn: normalizeDependsOn(parsedStep.dependsOn, newSteps.map(s => s.id)),
       });
     }
   }
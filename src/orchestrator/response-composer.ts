@@ -15,10 +15,10 @@ import type {
 import type { Tool } from '@anthropic-ai/sdk/resources/messages';
 import type { ToolContext } from '../tools/types.js';
 
-import config from '../config.js';
-import { getClient } from '../services/anthropic/client.js';
+import { createMessage } from '../services/anthropic/metered.js';
 import { buildUserMemoryXml } from '../services/anthropic/prompts/context.js';
 import type { ExecutionPlan, PlanContext, StepResult } from './types.js';
+import { recordModelRoute, routeComposer } from './model-routing.js';
 import type { TraceLogger } from '../utils/trace-logger.js';
 
 /**
@@ -127,7 +127,6 @@ export async function synthesizeResponse(
   failureReason?: 'timeout' | 'step_failed',
   logger?: TraceLogger
 ): Promise<string> {
-  const anthropic = getClient();
 
   // Build error context if there was a failure
   let errorContext = '';
@@ -181,9 +180,12 @@ Explain what succeeded and what didn't.
       userConfig: context.userConfig,
     };
 
+    const route = routeComposer(plan, failureReason);
+    recordModelRoute(route, logger);
+
     // Log LLM request
     logger?.llmRequest('composition', {
-      model: config.models.composer,
+      model: route.model,
       maxTokens: 350,
       systemPrompt: promptWithMemory + systemAddition,
       messages: [{ role: 'user', content: 'Compose the final response.' }],
@@ -194,14 +196,15 @@ Explain what succeeded and what didn't.
       { role: 'user', content: 'Compose the final response.' },
     ];
 
+    const usage = { phoneNumber: context.phoneNumber, purpose: 'composer' } as const;
     let llmStartTime = Date.now();
-    let response = await anthropic.messages.create({
-      model: config.models.composer,
+    let response = await createMessage({
+      model: route.model,
       max_tokens: 350,
       system: promptWithMemory + systemAddition,
       tools,
       messages,
-    });
+    }, usage);
 
     // Log LLM response
     logger?.llmResponse('composition', {
@@ -266,20 +269,20 @@ Explain what succeeded and what didn't.
       messages.push({ role: 'user', content: toolResults });
 
       logger?.llmRequest(`composition: tool iteration ${toolIterations}`, {
-        model: config.models.composer,
+        model: route.model,
         maxTokens: 350,
         systemPrompt: '(same as initial)',
         messages: [{ role: 'user', content: '(continuing with tool results)' }],
       });
 
       llmStartTime = Date.now();
-      response = await anthropic.messages.create({
-        model: config.models.composer,
+      response = await createMessage({
+        model: route.model,
         max_tokens: 350,
         system: promptWithMemory + systemAddition,
         tools,
         messages,
-      });
+      }, usage);
 
       logger?.llmResponse(`composition: tool iteration ${toolIterations}`, {
         stopReason: response.stop_reason ?? 'unknown',
@@ -0,0 +1,82 @@
+/**
+ * Step Dependency Graph
+ *
+ * Plan steps form a directed acyclic graph through their `dependsOn` edges.
+ * A step is ready once every step it depends on has completed, so steps
+ * with no path between them can run concurrently.
+ *
+ * Steps without a `dependsOn` list depend on the step before them, which
+ * keeps plans that don't declare edges running strictly in order.
+ */
+
+import type { PlanStep, StepResult } from './types.js';
+
+/**
+ * Validate the dependencies a planner emitted for a step.
+ *
+ * Only IDs of earlier steps are kept, which rules out self-references and
+ * cycles. Returns undefined when no list was given, so the step keeps the
+ * implicit dependency on its predecessor.
+ */
+export function normalizeDependsOn(raw: unknown, earlierStepIds: string[]): string[] | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+  const known = new Set(earlierStepIds);
+  return [...new Set(raw.filter((id): id is string => typeof id === 'string' && known.has(id)))];
+}
+
+/**
+ * The IDs of the steps a step directly depends on.
+ */
+export function getStepDependencies(step: PlanStep, steps: PlanStep[]): string[] {
+  if (step.dependsOn) {
+    return step.dependsOn;
+  }
+  const index = steps.findIndex(s => s.id === step.id);
+  return index > 0 ? [steps[index - 1].id] : [];
+}
+
+/**
+ * Pending steps whose dependencies have all completed, in plan order.
+ */
+export function getReadySteps(steps: PlanStep[]): PlanStep[] {
+  const completed = new Set(steps.filter(s => s.status === 'completed').map(s => s.id));
+  return steps.filter(step =>
+    step.status === 'pending' &&
+    getStepDependencies(step, steps).every(id => completed.has(id))
+  );
+}
+
+/**
+ * Results of every step a step depends on, directly or through another
+ * dependency. These are the only results passed to the step's agent.
+ */
+export function collectDependencyResults(
+  step: PlanStep,
+  steps: PlanStep[],
+  stepResults: Record<string, StepResult>
+): Record<string, StepResult> {
+  const byId = new Map(steps.map(s => [s.id, s]));
+  const seen = new Set<string>();
+  const pending = [...getStepDependencies(step, steps)];
+
+  while (pending.length > 0) {
+    const id = pending.pop() as string;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const dependency = byId.get(id);
+    if (dependency) {
+      pending.push(...getStepDependencies(dependency, steps));
+    }
+  }
+
+  // Keep plan order so agents see results in the order steps were planned
+  const results: Record<string, StepResult> = {};
+  for (const s of steps) {
+    if (seen.has(s.id) && stepResults[s.id]) {
+      results[s.id] = stepResults[s.id];
+    }
+  }
+  return results;
+}
@@ -8,6 +8,7 @@
 import type { ConversationMessage, StoredMediaAttachment, CurrentMediaSummary } from '../services/conversation/types.js';
 import type { UserFact } from '../domains/memory/types.js';
 import type { UserConfig } from '../services/user-config/types.js';
+import type { ClassificationResult } from '../services/anthropic/types.js';
 
 // Re-export agent types for backwards compatibility
 export type {
@@ -64,6 +65,13 @@ export interface PlanStep {
 
   /** Maximum retries before marking as failed (default: 2) */
   maxRetries: number;
+
+  /**
+   * IDs of earlier steps whose results this step needs. Steps whose
+   * dependencies have completed run concurrently; when omitted, the step
+   * depends on the step before it (see step-graph.ts).
+   */
+  dependsOn?: string[];
 }
 
 // ============================================================================
@@ -113,6 +121,9 @@ export interface PlanContext {
   /** Pre-analysis summaries for current-turn media attachments */
   currentMediaSummaries?: CurrentMediaSummary[];
 
+  /** The SMS classifier's verdict on the message, used to pick model tiers (SMS only) */
+  classification?: ClassificationResult;
+
   /** Results from completed steps, keyed by step ID */
   stepResults: Record<string, StepResult>;
 
@@ -133,7 +144,7 @@ export interface ExecutionPlan {
   /** Brief description of the plan's goal */
   goal: string;
 
-  /** Ordered list of steps to execute */
+  /** Steps in plan order; dependsOn edges decide when each can run */
   steps: PlanStep[];
 
   /** Current plan status */
@@ -227,4 +238,10 @@ export const ORCHESTRATOR_LIMITS = {
 
   /** C-5: Per-step timeout (2 minutes) */
   stepTimeoutMs: 120_000,
+
+  /** C-6: Maximum steps running at the same time */
+  maxConcurrentSteps: 3,
+
+  /** C-7: Oldest interrupted request resumed after a restart (15 minutes) */
+  maxResumeAgeMs: 900_000,
 } as const;
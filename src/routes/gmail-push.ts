@@ -0,0 +1,55 @@
+/**
+ * Gmail Push Webhook Route
+ *
+ * POST /webhook/gmail receives Gmail change notifications from a Cloud
+ * Pub/Sub push subscription. The subscription's endpoint URL carries a
+ * shared secret (?token=GMAIL_PUSH_VERIFICATION_TOKEN), which is checked
+ * before the envelope is decoded.
+ *
+ * A valid notification triggers a background sync for the user whose
+ * mailbox changed; the response is sent immediately. Any 2xx acknowledges
+ * the message, so unknown mailboxes are acknowledged too (Pub/Sub would
+ * otherwise keep redelivering them).
+ */
+import crypto from 'crypto';
+import express, { Router, Request, Response } from 'express';
+import config from '../config.js';
+import { handleGmailPush, parsePushEnvelope } from '../domains/email-watcher/runtime/index.js';
+
+const router = Router();
+
+function isValidToken(token: unknown): boolean {
+  const expected = config.emailWatcher.push.verificationToken;
+  if (typeof token !== 'string' || !expected) return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Handle a Pub/Sub push delivery.
+ */
+export function handleGmailPushWebhook(req: Request, res: Response): void {
+  if (!config.emailWatcher.enabled || !config.emailWatcher.push.enabled) {
+    res.status(404).json({ error: 'Gmail push is not enabled' });
+    return;
+  }
+
+  if (!isValidToken(req.query.token)) {
+    res.status(403).json({ error: 'Invalid verification token' });
+    return;
+  }
+
+  const notification = parsePushEnvelope(req.body);
+  if (!notification) {
+    res.status(400).json({ error: 'Malformed Pub/Sub envelope' });
+    return;
+  }
+
+  handleGmailPush(notification);
+  res.status(204).send();
+}
+
+router.post('/webhook/gmail', express.json(), handleGmailPushWebhook);
+
+export default router;
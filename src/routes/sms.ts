@@ -13,20 +13,33 @@
  * 2. Store user message + ack, return TwiML with ack
  * 3. Always run orchestrator in background
  *
- * Both channels always route through the orchestrator.
+ * Both channels always route through the orchestrator, except replies to a
+ * reminder ("snooze 10") or to a pending confirmation, which are resolved
+ * directly, and messages from users over their usage budget, which get a
+ * refusal. A yes or no to a pending confirmation is resolved even over
+ * budget; only work that needs an agent is refused.
  */
 import { Router, Request, Response } from 'express';
 import { classifyMessage } from '../services/anthropic/index.js';
+import type { ClassificationResult } from '../services/anthropic/index.js';
 import { TOOLS } from '../tools/index.js';
 import { getHistory, addMessage } from '../conversation.js';
 import { sendSms, sendWhatsApp, validateTwilioSignature } from '../twilio.js';
 import { getUserConfigStore, type UserConfig } from '../services/user-config/index.js';
 import { getMemoryStore } from '../domains/memory/runtime/index.js';
-import { handleWithOrchestrator } from '../orchestrator/index.js';
+import { trySnoozeReply } from '../domains/scheduler/runtime/index.js';
+import {
+  handleWithOrchestrator,
+  getPendingActions,
+  resolvePendingActions,
+  classifyConfirmationReply,
+} from '../orchestrator/index.js';
+import type { PendingAction } from '../services/pending-actions/index.js';
 import type { MediaAttachment } from '../types/media.js';
 import type { StoredMediaAttachment, CurrentMediaSummary, ImageAnalysisMetadata } from '../services/conversation/types.js';
 import { processMediaAttachments } from '../services/media/index.js';
 import { getConversationStore } from '../services/conversation/index.js';
+import { formatBudgetRefusal, getBudgetStatus, isOverBudget } from '../services/usage/budget.js';
 import config from '../config.js';
 import { detectChannel, normalize, sanitize, type MessageChannel } from '../utils/phone.js';
 import { startTypingIndicator } from '../services/twilio/typing-indicator.js';
@@ -68,6 +81,19 @@ async function sendResponse(
   }
 }
 
+/**
+ * Record an assistant reply in the conversation history and send it.
+ * Also delivers replies to requests resumed after a restart.
+ */
+export async function sendAssistantReply(
+  sender: string,
+  channel: MessageChannel,
+  message: string
+): Promise<void> {
+  await addMessage(sender, 'assistant', message, channel);
+  await sendResponse(sender, channel, message);
+}
+
 const router = Router();
 
 /**
@@ -283,6 +309,7 @@ export function enforceSmsLength(message: string, channel: MessageChannel): stri
  * Uses the orchestrator for async work (legacy generateResponse removed).
  * If media attachments are present, downloads from Twilio, then runs
  * Drive upload and Gemini pre-analysis in parallel before planning.
+ * The SMS classifier's result, when there is one, guides model routing.
  */
 async function processAsyncWork(
   sender: string,
@@ -292,6 +319,7 @@ async function processAsyncWork(
   mediaAttachments?: MediaAttachment[],
   userMessageId?: string,
   requestId?: string,
+  classification?: ClassificationResult,
 ): Promise<void> {
   const startTime = Date.now();
   const log = appLogger.child({ operation: 'process_async_work', channel, sender, requestId });
@@ -365,6 +393,7 @@ async function processAsyncWork(
       userMessageId,
       preAnalysis,
       requestId,
+      classification,
     );
 
     logInfo(log, 'Async work complete', {
@@ -373,8 +402,7 @@ async function processAsyncWork(
     });
 
     // Store in conversation history and send response
-    await addMessage(sender, 'assistant', responseText, channel);
-    await sendResponse(sender, channel, responseText);
+    await sendAssistantReply(sender, channel, responseText);
 
     logInfo(log, 'Async response sent', {
       totalDurationMs: Date.now() - startTime,
@@ -397,6 +425,86 @@ async function processAsyncWork(
   }
 }
 
+/**
+ * Resolve a reply to the user's pending actions (yes, no, or an edit) and
+ * send the outcome. Falls back to the orchestrator when the reply couldn't be
+ * resolved directly.
+ */
+async function processPendingActionReply(
+  actions: PendingAction[],
+  sender: string,
+  message: string,
+  channel: MessageChannel,
+  userMessageId: string,
+  requestId: string,
+): Promise<void> {
+  const startTime = Date.now();
+  const log = appLogger.child({ operation: 'pending_action_reply', channel, sender, requestId });
+
+  try {
+    const userConfig = await getUserConfigStore().get(sender);
+    const reply = await resolvePendingActions(actions, message, userConfig);
+
+    if (reply === null) {
+      logInfo(log, 'Pending action reply not resolved directly, orchestrating', {
+        tools: actions.map(a => a.toolName),
+      });
+      await processAsyncWork(sender, message, channel, userConfig, [], userMessageId, requestId);
+      return;
+    }
+
+    await sendAssistantReply(sender, channel, reply);
+
+    logInfo(log, 'Pending action reply handled', {
+      tools: actions.map(a => a.toolName),
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    logError(log, 'Pending action reply failed', {
+      error: error instanceof Error ? error : String(error),
+      durationMs: Date.now() - startTime,
+    });
+
+    try {
+      await sendResponse(sender, channel, '😔 Sorry, I couldn\'t complete that. Please try again.');
+    } catch (sendError) {
+      logError(log, 'Failed to send error message to user', {
+        error: sendError instanceof Error ? sendError : String(sendError),
+      });
+    }
+  }
+}
+
+/**
+ * Answer a message without the orchestrator. Both messages are stored; the
+ * reply goes out in the TwiML response (SMS) or as a message (WhatsApp).
+ */
+async function replyDirectly(
+  res: Response,
+  log: AppLogger,
+  sender: string,
+  channel: MessageChannel,
+  message: string,
+  reply: string
+): Promise<void> {
+  await addMessage(sender, 'user', message, channel);
+  await addMessage(sender, 'assistant', reply, channel);
+
+  res.type('text/xml');
+  if (channel === 'whatsapp') {
+    res.send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+    sendResponse(sender, channel, reply).catch((error) => {
+      logError(log, 'Failed to send direct reply', {
+        error: error instanceof Error ? error : String(error),
+      });
+    });
+  } else {
+    res.send(
+      `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(enforceSmsLength(reply, channel))}</Message></Response>`
+    );
+  }
+}
+
 /**
  * POST /webhook/sms
  *
@@ -478,6 +586,86 @@ export async function handleSmsWebhook(req: Request, res: Response): Promise<voi
       mediaTypes: mediaAttachments.map(m => m.contentType),
     });
 
+    // "snooze 10" reply to a reminder: handled directly, without the orchestrator
+    let snoozeConfirmation: string | null = null;
+    try {
+      snoozeConfirmation = mediaAttachments.length === 0 ? trySnoozeReply(sender, Body) : null;
+    } catch (error) {
+      logError(log, 'Snooze reply failed', {
+        error: error instanceof Error ? error : String(error),
+      });
+    }
+
+    if (snoozeConfirmation) {
+      await replyDirectly(res, log, sender, channel, message, snoozeConfirmation);
+
+      logInfo(log, 'Snooze reply handled', {
+        durationMs: Date.now() - startTime,
+      });
+      return;
+    }
+
+    // Actions awaiting confirmation: a reply to them is resolved without planning
+    let pendingActions: PendingAction[] = [];
+    try {
+      pendingActions = mediaAttachments.length === 0 ? await getPendingActions(sender) : [];
+    } catch (error) {
+      logError(log, 'Pending action lookup failed', {
+        error: error instanceof Error ? error : String(error),
+      });
+    }
+
+    // Usage budget used up: refuse new work until it resets. A yes or no to
+    // a pending action still goes through, since it runs no agent; an edit
+    // reply is revised by an agent and is refused like any other request.
+    const confirmsPendingAction = pendingActions.length > 0 && classifyConfirmationReply(Body) !== 'edit';
+    let budgetRefusal: string | null = null;
+    try {
+      if (!confirmsPendingAction && await isOverBudget(sender)) {
+        budgetRefusal = formatBudgetRefusal(await getBudgetStatus(sender));
+      }
+    } catch (error) {
+      logError(log, 'Usage budget check failed', {
+        error: error instanceof Error ? error : String(error),
+      });
+    }
+
+    if (budgetRefusal) {
+      await replyDirectly(res, log, sender, channel, message, budgetRefusal);
+
+      logInfo(log, 'Request refused over usage budget', {
+        durationMs: Date.now() - startTime,
+      });
+      return;
+    }
+
+    if (pendingActions.length > 0) {
+      const userMessage = await addMessage(sender, 'user', message, channel);
+
+      res.type('text/xml');
+      res.send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+
+      logInfo(log, 'Pending action reply received', {
+        toolNames: pendingActions.map(a => a.toolName),
+        durationMs: Date.now() - startTime,
+      });
+
+      const actions = pendingActions;
+      withLogContext({ requestId }, () => processPendingActionReply(
+        actions,
+        sender,
+        Body,
+        channel,
+        userMessage.id,
+        requestId,
+      )).catch((error) => {
+        logError(log, 'Unhandled error in pending action reply', {
+          error: error instanceof Error ? error : String(error),
+        });
+      });
+      return;
+    }
+
     try {
       if (channel === 'whatsapp') {
         // ── WhatsApp flow: skip classifier, return empty TwiML, typing indicator ──
@@ -528,8 +716,8 @@ export async function handleSmsWebhook(req: Request, res: Response): Promise<voi
           memoryStore.getFacts(sender),
         ]);
 
-        // Classify for ack text only — result no longer gates orchestrator
-        const classification = await classifyMessage(TOOLS, message, history, userConfig, userFacts);
+        // Classify for ack text and model routing — result no longer gates orchestrator
+        const classification = await classifyMessage(TOOLS, message, history, userConfig, userFacts, sender);
 
         logInfo(log, 'Classification complete', {
           classificationDurationMs: Date.now() - startTime,
@@ -566,6 +754,7 @@ export async function handleSmsWebhook(req: Request, res: Response): Promise<voi
           mediaAttachments,
           userMessage.id,
           requestId,
+          classification,
         )).catch((error) => {
           logError(log, 'Unhandled error in async work', {
             error: error instanceof Error ? error : String(error),
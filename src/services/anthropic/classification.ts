@@ -11,8 +11,8 @@ import type { Message } from '../../conversation.js';
 import type { UserConfig } from '../user-config/index.js';
 import type { UserFact } from '../../domains/memory/types.js';
 
-import config from '../../config.js';
-import { getClient } from './client.js';
+import { createMessage } from './metered.js';
+import { routeModel } from './routing.js';
 import { buildClassificationPrompt } from './prompts/index.js';
 
 export type { ClassificationResult } from './types.js';
@@ -24,15 +24,18 @@ export type { ClassificationResult } from './types.js';
  * - Uses fewer tokens (max_tokens: 512)
  * - Has NO tools enabled (faster response)
  * - Only looks at recent history (last 4 messages)
+ * - Uses the fast model tier when model routing is enabled
+ *
+ * @param phoneNumber Sender the call is recorded for in the usage ledger
  */
 export async function classifyMessage(
   tools: Tool[],
   userMessage: string,
   conversationHistory: Message[],
   userConfig?: UserConfig | null,
-  userFacts: UserFact[] = []
+  userFacts: UserFact[] = [],
+  phoneNumber: string | null = null
 ) : Promise<{ needsAsyncWork: boolean; immediateResponse: string }> {
-  const anthropic = getClient();
 
   const recentHistory = conversationHistory.slice(-4);
   const messages: MessageParam[] = recentHistory.map((msg) => ({
@@ -41,12 +44,12 @@ export async function classifyMessage(
   }));
   messages.push({ role: 'user', content: userMessage });
 
-  const response = await anthropic.messages.create({
-    model: config.models.classifier,
+  const response = await createMessage({
+    model: routeModel('classifier', 'fast', 'classification').model,
     max_tokens: 512,
     system: buildClassificationPrompt(tools, userConfig ?? null, userFacts),
     messages,
-  });
+  }, { phoneNumber, purpose: 'classifier' });
 
   const textBlock = response.content.find(
     (block): block is TextBlock => block.type === 'text'
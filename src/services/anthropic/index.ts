@@ -4,6 +4,11 @@
 
 // Client
 export { getClient } from './client.js';
+export { createMessage } from './metered.js';
+
+// Model routing
+export { routeModel, escalateTier, DEFAULT_MODEL_TIER } from './routing.js';
+export type { ModelTier, ModelRole, ModelRoute } from './routing.js';
 
 // Classification
 export { classifyMessage } from './classification.js';
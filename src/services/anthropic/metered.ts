@@ -0,0 +1,52 @@
+/**
+ * Metered Claude calls.
+ *
+ * Messages API calls go through createMessage rather than the client, so
+ * each one lands in the usage ledger under the user it was made for, and a
+ * user near their budget gets the fallback model (see services/usage).
+ */
+
+import type { Message, MessageCreateParamsNonStreaming } from '@anthropic-ai/sdk/resources/messages';
+import { getClient } from './client.js';
+import { recordUsage } from '../usage/ledger.js';
+import { selectBudgetModel } from '../usage/budget.js';
+import type { UsageAttribution } from '../usage/index.js';
+import { createLogger, redactPhone } from '../../utils/observability/index.js';
+
+const log = createLogger({ domain: 'usage' });
+
+/**
+ * Create a message, recording its token usage and estimated cost.
+ * The model in `params` is replaced by the fallback model when the user
+ * is near or over a budget.
+ */
+export async function createMessage(
+  params: MessageCreateParamsNonStreaming,
+  usage: UsageAttribution
+): Promise<Message> {
+  const model = usage.phoneNumber
+    ? await selectBudgetModel(usage.phoneNumber, params.model)
+    : params.model;
+
+  if (model !== params.model && usage.phoneNumber) {
+    log.info('budget_model_fallback', {
+      phone: redactPhone(usage.phoneNumber),
+      purpose: usage.purpose,
+      requestedModel: params.model,
+      model,
+    });
+  }
+
+  const response = await getClient().messages.create({ ...params, model });
+
+  await recordUsage({
+    phoneNumber: usage.phoneNumber,
+    provider: 'anthropic',
+    model,
+    purpose: usage.purpose,
+    inputTokens: response.usage?.input_tokens ?? 0,
+    outputTokens: response.usage?.output_tokens ?? 0,
+  });
+
+  return response;
+}
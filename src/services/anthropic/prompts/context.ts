@@ -61,7 +61,8 @@ export function buildTimeContext(userConfig: UserConfig | null): string {
  *
  * Filters facts by the configured injection threshold before selection.
  * Facts below the threshold are excluded from agent prompts but remain
- * in the database for potential reinforcement.
+ * in the database for potential reinforcement. Facts ranked against the
+ * current message (`relevance` set) are selected most relevant first.
  *
  * @param facts - All facts for the user
  * @param options - Optional limits for facts count and character budget
@@ -0,0 +1,56 @@
+/**
+ * Model routing tiers.
+ *
+ * Each Claude call picks a tier for the work it's doing rather than always
+ * using the largest model: `fast` for small talk and simple lookups,
+ * `standard` for most agent work, `strong` for large plans and retries.
+ * MODEL_TIER_*_ID map tiers to model IDs. Without MODEL_TIER_STANDARD_ID,
+ * standard calls keep their role's model (`config.models`), so deployments
+ * that pin PLANNER_MODEL_ID etc. only change where routing picks another
+ * tier. The orchestrator decides tiers for its calls
+ * (orchestrator/model-routing.ts).
+ *
+ * With MODEL_ROUTING_ENABLED=false every call uses its role's model from
+ * `config.models`; the tier is still chosen and traced.
+ */
+
+import config from '../../config.js';
+
+export type ModelTier = 'fast' | 'standard' | 'strong';
+
+/** The call sites configured in `config.models` */
+export type ModelRole = keyof typeof config.models;
+
+/**
+ * A model picked for one call, with why.
+ */
+export interface ModelRoute {
+  role: ModelRole;
+  tier: ModelTier;
+  model: string;
+  /** Short explanation for traces, e.g. "memory-agent override, retry 1" */
+  reason: string;
+}
+
+/** Tier for calls with no more specific signal */
+export const DEFAULT_MODEL_TIER: ModelTier = 'standard';
+
+const TIER_ORDER: ModelTier[] = ['fast', 'standard', 'strong'];
+
+/**
+ * The tier `levels` steps above `tier`, capped at `strong`.
+ */
+export function escalateTier(tier: ModelTier, levels = 1): ModelTier {
+  const index = Math.min(TIER_ORDER.indexOf(tier) + Math.max(levels, 0), TIER_ORDER.length - 1);
+  return TIER_ORDER[index];
+}
+
+/**
+ * Resolve a tier to the model a role should call.
+ */
+export function routeModel(role: ModelRole, tier: ModelTier, reason: string): ModelRoute {
+  const model = config.modelRouting.enabled
+    ? config.modelRouting.tiers[tier] ?? config.models[role]
+    : config.models[role];
+  return { role, tier, model, reason };
+}
@@ -89,12 +89,13 @@ async function preAnalyzeOne(
   entry: ImageBufferEntry,
   perImageTimeoutMs: number,
   maxSummaryChars: number,
+  phoneNumber: string | null,
 ): Promise<CurrentMediaSummary | null> {
   const startTime = Date.now();
 
   try {
     const raw = await withTimeout(
-      analyzeImage(entry.buffer, entry.mimeType, PRE_ANALYSIS_PROMPT),
+      analyzeImage(entry.buffer, entry.mimeType, PRE_ANALYSIS_PROMPT, { phoneNumber, purpose: 'planner' }),
       perImageTimeoutMs,
     );
 
@@ -145,10 +146,12 @@ async function preAnalyzeOne(
  * and total timeouts. Non-image files are skipped.
  *
  * @param entries Downloaded image buffers with metadata
+ * @param phoneNumber Sender the calls are recorded for in the usage ledger
  * @returns Array of successful summaries (may be empty on full timeout)
  */
 export async function preAnalyzeMedia(
   entries: ImageBufferEntry[],
+  phoneNumber: string | null = null,
 ): Promise<CurrentMediaSummary[]> {
   if (!config.mediaFirstPlanning.enabled) return [];
 
@@ -163,7 +166,7 @@ export async function preAnalyzeMedia(
     // Run all image analyses in parallel, wrapped in the total timeout
     const results = await withTimeout(
       Promise.all(
-        imageEntries.map(entry => preAnalyzeOne(entry, perImageTimeoutMs, PRE_ANALYSIS_MAX_SUMMARY_CHARS)),
+        imageEntries.map(entry => preAnalyzeOne(entry, perImageTimeoutMs, PRE_ANALYSIS_MAX_SUMMARY_CHARS, phoneNumber)),
       ),
       PRE_ANALYSIS_TOTAL_TIMEOUT_MS,
     );
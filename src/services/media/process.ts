@@ -52,7 +52,7 @@ export async function processMediaAttachments(
   // Step 2: Run Drive upload and pre-analysis in parallel
   const [storedMedia, preAnalysis] = await Promise.all([
     uploadBuffersToDrive(phoneNumber, downloads),
-    preAnalyzeMedia(imageEntries),
+    preAnalyzeMedia(imageEntries, phoneNumber),
   ]);
 
   console.log(JSON.stringify({
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Pending action store factory.
+ *
+ * Singleton pattern - returns the same instance on repeated calls.
+ */
+
+import config from '../../config.js';
+import type { PendingActionStore } from './types.js';
+import { SqlitePendingActionStore } from './sqlite.js';
+
+export type { PendingAction, PendingActionStore } from './types.js';
+
+let instance: PendingActionStore | null = null;
+
+/**
+ * Get the pending action store instance.
+ *
+ * Uses the same database path as the credentials and user config stores.
+ */
+export function getPendingActionStore(): PendingActionStore {
+  if (instance) {
+    return instance;
+  }
+
+  instance = new SqlitePendingActionStore(config.credentials.sqlitePath);
+  return instance;
+}
+
+/**
+ * Reset the pending action store instance.
+ * Useful for tests.
+ */
+export function resetPendingActionStore(): void {
+  instance = null;
+}
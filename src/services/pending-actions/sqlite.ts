@@ -0,0 +1,129 @@
+/**
+ * @fileoverview SQLite pending action store.
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import type { PendingAction, PendingActionStore } from './types.js';
+
+type PendingActionRow = {
+  id: string;
+  phone_number: string;
+  channel: string;
+  tool_name: string;
+  tool_input: string;
+  prompt: string;
+  created_at: number;
+  expires_at: number;
+};
+
+/**
+ * Parse the stored tool input JSON.
+ * Boundary: a malformed value becomes an empty input, which the tool rejects.
+ */
+function parseToolInput(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? parsed as Record<string, unknown>
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * SQLite pending action store.
+ */
+export class SqlitePendingActionStore implements PendingActionStore {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath Path to SQLite database file
+   */
+  constructor(dbPath: string) {
+    // Ensure directory exists
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    // Early versions kept one action per phone number. Pending actions expire
+    // within minutes, so the old table is dropped rather than migrated.
+    const columns = this.db.prepare('PRAGMA table_info(pending_actions)').all() as Array<{ name: string; pk: number }>;
+    if (columns.some(c => c.name === 'phone_number' && c.pk === 1)) {
+      this.db.exec('DROP TABLE pending_actions');
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pending_actions (
+        id TEXT PRIMARY KEY,
+        phone_number TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        tool_input TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pending_actions_phone
+        ON pending_actions(phone_number, created_at);
+    `);
+  }
+
+  async list(phoneNumber: string, nowMs = Date.now()): Promise<PendingAction[]> {
+    this.db
+      .prepare('DELETE FROM pending_actions WHERE phone_number = ? AND expires_at <= ?')
+      .run(phoneNumber, nowMs);
+
+    const rows = this.db
+      .prepare('SELECT * FROM pending_actions WHERE phone_number = ? ORDER BY created_at, rowid')
+      .all(phoneNumber) as PendingActionRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      phoneNumber: row.phone_number,
+      channel: row.channel === 'whatsapp' ? 'whatsapp' : 'sms',
+      toolName: row.tool_name,
+      toolInput: parseToolInput(row.tool_input),
+      prompt: row.prompt,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+    }));
+  }
+
+  async add(action: PendingAction): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO pending_actions
+        (id, phone_number, channel, tool_name, tool_input, prompt, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      action.id,
+      action.phoneNumber,
+      action.channel,
+      action.toolName,
+      JSON.stringify(action.toolInput),
+      action.prompt,
+      action.createdAt,
+      action.expiresAt
+    );
+  }
+
+  async deleteAll(phoneNumber: string): Promise<void> {
+    this.db.prepare('DELETE FROM pending_actions WHERE phone_number = ?').run(phoneNumber);
+  }
+
+  /**
+   * Close the database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Pending action store interface.
+ *
+ * A pending action is a tool call an agent proposed that waits for the
+ * user's reply before it runs, such as deleting a calendar event. An agent
+ * may park several in one turn ("delete my three meetings tomorrow"); the
+ * user's reply resolves all of a phone number's open actions together.
+ */
+
+/**
+ * A proposed tool call awaiting the user's yes, no, or edit.
+ */
+export interface PendingAction {
+  id: string;
+  phoneNumber: string;
+  channel: 'sms' | 'whatsapp';
+  /** Tool to run once the user confirms */
+  toolName: string;
+  /** Tool input as the agent proposed it */
+  toolInput: Record<string, unknown>;
+  /** Question put to the user, e.g. 'Delete "Team sync" on Tue, Mar 3?' */
+  prompt: string;
+  createdAt: number; // Unix timestamp in milliseconds
+  expiresAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Interface for pending action storage backends.
+ *
+ * Note: Methods return Promises for interface flexibility, but the current
+ * SQLite implementation (better-sqlite3) is synchronous.
+ */
+export interface PendingActionStore {
+  /**
+   * List the user's unexpired pending actions, oldest first.
+   */
+  list(phoneNumber: string, nowMs?: number): Promise<PendingAction[]>;
+
+  /**
+   * Park an action alongside any the user already has.
+   */
+  add(action: PendingAction): Promise<void>;
+
+  /**
+   * Remove all of the user's pending actions.
+   * No-op if there are none.
+   */
+  deleteAll(phoneNumber: string): Promise<void>;
+}
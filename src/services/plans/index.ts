@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Plan store factory.
+ *
+ * Singleton pattern - returns the same instance on repeated calls.
+ */
+
+import config from '../../config.js';
+import type { PlanStore } from './types.js';
+import { SqlitePlanStore } from './sqlite.js';
+
+export type { PlanRecord, PlanRecordStatus, PlanStepRecord, PlanStore } from './types.js';
+
+let instance: PlanStore | null = null;
+
+/**
+ * Get the plan store instance.
+ *
+ * Uses the same database path as the credentials and user config stores.
+ */
+export function getPlanStore(): PlanStore {
+  if (instance) {
+    return instance;
+  }
+
+  instance = new SqlitePlanStore(config.credentials.sqlitePath);
+  return instance;
+}
+
+/**
+ * Reset the plan store instance.
+ * Useful for tests.
+ */
+export function resetPlanStore(): void {
+  instance = null;
+}
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview SQLite plan store.
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import type { PlanRecord, PlanRecordStatus, PlanStepRecord, PlanStore } from './types.js';
+
+type PlanRow = {
+  request_id: string;
+  plan_id: string | null;
+  phone_number: string;
+  channel: string;
+  user_message: string;
+  message_id: string | null;
+  has_media: number;
+  goal: string | null;
+  status: PlanRecordStatus;
+  version: number;
+  response: string | null;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+type StepRow = {
+  step_id: string;
+  target_type: string;
+  agent: string;
+  task: string;
+  status: PlanStepRecord['status'];
+  retry_count: number;
+  max_retries: number;
+  depends_on: string | null;
+  result: string | null;
+};
+
+/**
+ * Parse a stored JSON column.
+ * Boundary: a malformed value is treated as missing.
+ */
+function parseJson(json: string | null): unknown {
+  if (json === null) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(json) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+function rowToStep(row: StepRow): PlanStepRecord {
+  const dependsOn = parseJson(row.depends_on);
+  const result = parseJson(row.result);
+  return {
+    id: row.step_id,
+    targetType: row.target_type === 'skill' ? 'skill' : 'agent',
+    agent: row.agent,
+    task: row.task,
+    status: row.status,
+    retryCount: row.retry_count,
+    maxRetries: row.max_retries,
+    ...(Array.isArray(dependsOn) ? { dependsOn: dependsOn.filter((id): id is string => typeof id === 'string') } : {}),
+    ...(result !== undefined ? { result } : {}),
+  };
+}
+
+/**
+ * SQLite plan store.
+ */
+export class SqlitePlanStore implements PlanStore {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath Path to SQLite database file
+   */
+  constructor(dbPath: string) {
+    // Ensure directory exists
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS orchestration_plans (
+        request_id TEXT PRIMARY KEY,
+        plan_id TEXT,
+        phone_number TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        user_message TEXT NOT NULL,
+        message_id TEXT,
+        has_media INTEGER NOT NULL DEFAULT 0,
+        goal TEXT,
+        status TEXT NOT NULL,
+        version INTEGER NOT NULL DEFAULT 1,
+        response TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_orchestration_plans_status
+        ON orchestration_plans(status, created_at);
+
+      CREATE TABLE IF NOT EXISTS orchestration_plan_steps (
+        request_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        target_type TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        task TEXT NOT NULL,
+        status TEXT NOT NULL,
+        retry_count INTEGER NOT NULL DEFAULT 0,
+        max_retries INTEGER NOT NULL DEFAULT 0,
+        depends_on TEXT,
+        result TEXT,
+        PRIMARY KEY (request_id, step_id)
+      );
+    `);
+  }
+
+  async save(record: PlanRecord): Promise<void> {
+    const insertStep = this.db.prepare(`
+      INSERT INTO orchestration_plan_steps
+        (request_id, step_id, position, target_type, agent, task, status, retry_count, max_retries, depends_on, result)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO orchestration_plans
+          (request_id, plan_id, phone_number, channel, user_message, message_id, has_media,
+           goal, status, version, response, error, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        record.requestId,
+        record.planId ?? null,
+        record.phoneNumber,
+        record.channel,
+        record.userMessage,
+        record.messageId ?? null,
+        record.hasMedia ? 1 : 0,
+        record.goal ?? null,
+        record.status,
+        record.version,
+        record.response ?? null,
+        record.error ?? null,
+        record.createdAt,
+        record.updatedAt
+      );
+
+      this.db.prepare('DELETE FROM orchestration_plan_steps WHERE request_id = ?').run(record.requestId);
+      record.steps.forEach((step, position) => {
+        insertStep.run(
+          record.requestId,
+          step.id,
+          position,
+          step.targetType,
+          step.agent,
+          step.task,
+          step.status,
+          step.retryCount,
+          step.maxRetries,
+          step.dependsOn ? JSON.stringify(step.dependsOn) : null,
+          step.result !== undefined ? JSON.stringify(step.result) : null
+        );
+      });
+    })();
+  }
+
+  async get(requestId: string): Promise<PlanRecord | null> {
+    const row = this.db
+      .prepare('SELECT * FROM orchestration_plans WHERE request_id = ?')
+      .get(requestId) as PlanRow | undefined;
+
+    return row ? this.rowToRecord(row) : null;
+  }
+
+  async getUnfinished(createdBeforeMs: number): Promise<PlanRecord[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM orchestration_plans
+      WHERE status IN ('planning', 'executing', 'replanning') AND created_at < ?
+      ORDER BY created_at ASC
+    `).all(createdBeforeMs) as PlanRow[];
+
+    return rows.map(row => this.rowToRecord(row));
+  }
+
+  async deleteFinished(updatedBeforeMs: number): Promise<number> {
+    return this.db.transaction(() => {
+      this.db.prepare(`
+        DELETE FROM orchestration_plan_steps WHERE request_id IN (
+          SELECT request_id FROM orchestration_plans
+          WHERE status IN ('completed', 'failed') AND updated_at < ?
+        )
+      `).run(updatedBeforeMs);
+
+      return this.db.prepare(`
+        DELETE FROM orchestration_plans
+        WHERE status IN ('completed', 'failed') AND updated_at < ?
+      `).run(updatedBeforeMs).changes;
+    })();
+  }
+
+  private rowToRecord(row: PlanRow): PlanRecord {
+    const steps = this.db.prepare(`
+      SELECT * FROM orchestration_plan_steps WHERE request_id = ? ORDER BY position ASC
+    `).all(row.request_id) as StepRow[];
+
+    return {
+      requestId: row.request_id,
+      planId: row.plan_id ?? undefined,
+      phoneNumber: row.phone_number,
+      channel: row.channel === 'whatsapp' ? 'whatsapp' : 'sms',
+      userMessage: row.user_message,
+      messageId: row.message_id ?? undefined,
+      hasMedia: row.has_media === 1,
+      goal: row.goal ?? undefined,
+      status: row.status,
+      version: row.version,
+      steps: steps.map(rowToStep),
+      response: row.response ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Close the database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Plan store interface.
+ *
+ * Persists the orchestrator's execution plans as they progress, keyed by the
+ * ID of the inbound request that started them, so a plan interrupted by a
+ * deploy or crash can be resumed (or failed) on the next startup and
+ * inspected afterwards.
+ *
+ * Services can't import orchestrator types, so records mirror ExecutionPlan
+ * and PlanStep with plain values; step results are stored as-is.
+ */
+
+/**
+ * Plan lifecycle. 'planning' means no plan has been created yet.
+ */
+export type PlanRecordStatus = 'planning' | 'executing' | 'replanning' | 'completed' | 'failed';
+
+/**
+ * A plan step as last saved.
+ */
+export interface PlanStepRecord {
+  id: string;
+  targetType: 'agent' | 'skill';
+  agent: string;
+  task: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  retryCount: number;
+  maxRetries: number;
+  dependsOn?: string[];
+  /** StepResult once the step finished (or last failed) */
+  result?: unknown;
+}
+
+/**
+ * A request's execution plan as last saved.
+ */
+export interface PlanRecord {
+  requestId: string;
+  /** Set once the planner has created the plan */
+  planId?: string;
+  phoneNumber: string;
+  channel: 'sms' | 'whatsapp';
+  userMessage: string;
+  /** ID of the originating user message */
+  messageId?: string;
+  /** Whether the request had media attachments, which aren't persisted */
+  hasMedia: boolean;
+  goal?: string;
+  status: PlanRecordStatus;
+  /** Incremented on each replan */
+  version: number;
+  steps: PlanStepRecord[];
+  /** Reply sent to the user, once finished */
+  response?: string;
+  error?: string;
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Interface for plan storage backends.
+ *
+ * Note: Methods return Promises for interface flexibility, but the current
+ * SQLite implementation (better-sqlite3) is synchronous.
+ */
+export interface PlanStore {
+  /**
+   * Save a plan and its steps, replacing what was stored for the request.
+   */
+  save(record: PlanRecord): Promise<void>;
+
+  /**
+   * Get the plan of a request.
+   * @returns The plan, or null if the request has none.
+   */
+  get(requestId: string): Promise<PlanRecord | null>;
+
+  /**
+   * Plans still planning, executing or replanning that were created before
+   * `createdBeforeMs`, oldest first.
+   */
+  getUnfinished(createdBeforeMs: number): Promise<PlanRecord[]>;
+
+  /**
+   * Delete completed and failed plans last updated before `updatedBeforeMs`.
+   * @returns Number of plans deleted.
+   */
+  deleteFinished(updatedBeforeMs: number): Promise<number>;
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Per-user spend budgets.
+ *
+ * USAGE_DAILY_BUDGET_USD and USAGE_MONTHLY_BUDGET_USD cap the estimated
+ * cost of the model calls made for one user per UTC day and month
+ * (0 means no limit). Nearing a budget degrades service instead of
+ * breaking it:
+ *
+ * - **degraded**: past USAGE_DEGRADE_AT of either budget (default 80%),
+ *   Claude calls switch to USAGE_FALLBACK_MODEL_ID
+ * - **exceeded**: at either budget, new requests get a refusal message and
+ *   background work for the user waits for the next period
+ *
+ * A request already underway is allowed to finish, so spend can overshoot
+ * a budget by up to one request.
+ */
+
+import config from '../../config.js';
+import { getUsageStore } from './index.js';
+import type { UsageStore, UsageTotals } from './types.js';
+
+export type BudgetLevel = 'ok' | 'degraded' | 'exceeded';
+
+export type BudgetPeriod = 'day' | 'month';
+
+/**
+ * A user's spend against one budget.
+ */
+export interface BudgetPeriodUsage {
+  period: BudgetPeriod;
+  /** Calls made in the period so far; `costUsd` is what counts against the budget */
+  usage: UsageTotals;
+  /** Null when the period has no limit */
+  budgetUsd: number | null;
+  /** When the period's spend starts over (Unix ms) */
+  resetsAt: number;
+  level: BudgetLevel;
+}
+
+export interface BudgetStatus {
+  /** The more severe level of the two periods */
+  level: BudgetLevel;
+  day: BudgetPeriodUsage;
+  month: BudgetPeriodUsage;
+}
+
+export interface BudgetOptions {
+  store?: UsageStore;
+  nowMs?: number;
+}
+
+const LEVEL_SEVERITY: Record<BudgetLevel, number> = { ok: 0, degraded: 1, exceeded: 2 };
+
+/**
+ * Whether a daily or monthly budget is configured.
+ */
+export function hasBudgets(): boolean {
+  return config.usage.dailyBudgetUsd > 0 || config.usage.monthlyBudgetUsd > 0;
+}
+
+/**
+ * Start of the UTC day or month containing `nowMs`.
+ */
+export function getPeriodStart(period: BudgetPeriod, nowMs: number): number {
+  const now = new Date(nowMs);
+  return period === 'day'
+    ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    : Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+}
+
+function getPeriodEnd(period: BudgetPeriod, nowMs: number): number {
+  const now = new Date(nowMs);
+  return period === 'day'
+    ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+    : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+}
+
+function levelFor(spentUsd: number, budgetUsd: number | null): BudgetLevel {
+  if (budgetUsd === null) return 'ok';
+  if (spentUsd >= budgetUsd) return 'exceeded';
+  if (spentUsd >= budgetUsd * config.usage.degradeAt) return 'degraded';
+  return 'ok';
+}
+
+/**
+ * A user's spend this UTC day and month against their budgets.
+ */
+export async function getBudgetStatus(phoneNumber: string, options: BudgetOptions = {}): Promise<BudgetStatus> {
+  const store = options.store ?? getUsageStore();
+  const nowMs = options.nowMs ?? Date.now();
+
+  const periodUsage = async (period: BudgetPeriod, budget: number): Promise<BudgetPeriodUsage> => {
+    const usage = await store.getTotals(phoneNumber, getPeriodStart(period, nowMs));
+    const budgetUsd = budget > 0 ? budget : null;
+    return {
+      period,
+      usage,
+      budgetUsd,
+      resetsAt: getPeriodEnd(period, nowMs),
+      level: levelFor(usage.costUsd, budgetUsd),
+    };
+  };
+
+  const day = await periodUsage('day', config.usage.dailyBudgetUsd);
+  const month = await periodUsage('month', config.usage.monthlyBudgetUsd);
+  const level = LEVEL_SEVERITY[month.level] > LEVEL_SEVERITY[day.level] ? month.level : day.level;
+
+  return { level, day, month };
+}
+
+/**
+ * Whether new work for the user should be refused.
+ * Always false when no budget is configured.
+ */
+export async function isOverBudget(phoneNumber: string, options: BudgetOptions = {}): Promise<boolean> {
+  if (!hasBudgets()) {
+    return false;
+  }
+  return (await getBudgetStatus(phoneNumber, options)).level === 'exceeded';
+}
+
+/**
+ * The Claude model to call for a user: the requested one, or the fallback
+ * model once they're near or over a budget.
+ */
+export async function selectBudgetModel(
+  phoneNumber: string,
+  model: string,
+  options: BudgetOptions = {}
+): Promise<string> {
+  if (!hasBudgets()) {
+    return model;
+  }
+  const { level } = await getBudgetStatus(phoneNumber, options);
+  return level === 'ok' ? model : config.usage.fallbackModel;
+}
+
+/**
+ * The reply sent instead of handling a request once a budget is used up.
+ */
+export function formatBudgetRefusal(status: BudgetStatus): string {
+  // When both are used up, the monthly budget is the one that resets last
+  const period = status.month.level === 'exceeded' ? status.month : status.day;
+  const resetsAt = new Date(period.resetsAt).toLocaleString('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return `You've reached your ${period.period === 'day' ? 'daily' : 'monthly'} usage limit, `
+    + `so I can't take on new requests until ${resetsAt} UTC.`;
+}
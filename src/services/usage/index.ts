@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Usage ledger factory.
+ *
+ * Singleton pattern - returns the same instance on repeated calls.
+ * Recording lives in ledger.ts, budgets in budget.ts.
+ */
+
+import config from '../../config.js';
+import type { UsageStore } from './types.js';
+import { SqliteUsageStore } from './sqlite.js';
+
+export type {
+  UsageAttribution,
+  UsageProvider,
+  UsagePurpose,
+  UsageRecord,
+  UsageStore,
+  UsageSummaryOptions,
+  UsageSummaryRow,
+  UsageTotals,
+} from './types.js';
+
+let instance: UsageStore | null = null;
+
+/**
+ * Get the usage ledger instance.
+ *
+ * Uses the same database path as the credentials and user config stores.
+ */
+export function getUsageStore(): UsageStore {
+  if (instance) {
+    return instance;
+  }
+
+  instance = new SqliteUsageStore(config.credentials.sqlitePath);
+  return instance;
+}
+
+/**
+ * Reset the usage ledger instance.
+ * Useful for tests.
+ */
+export function resetUsageStore(): void {
+  instance = null;
+}
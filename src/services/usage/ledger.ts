@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Recording model calls in the usage ledger.
+ */
+
+import { getUsageStore } from './index.js';
+import { estimateCostUsd } from './pricing.js';
+import type { UsageRecord } from './types.js';
+import { createLogger, redactPhone } from '../../utils/observability/index.js';
+
+const log = createLogger({ domain: 'usage' });
+
+export type UsageCall = Omit<UsageRecord, 'costUsd' | 'createdAt'>;
+
+/**
+ * Record a model call with its estimated cost.
+ * Never throws: a ledger failure must not fail the call that was made.
+ */
+export async function recordUsage(call: UsageCall, nowMs = Date.now()): Promise<void> {
+  try {
+    await getUsageStore().record({
+      ...call,
+      costUsd: estimateCostUsd(call.model, call.inputTokens, call.outputTokens),
+      createdAt: nowMs,
+    });
+  } catch (error) {
+    log.warn('usage_record_failed', {
+      phone: call.phoneNumber ? redactPhone(call.phoneNumber) : undefined,
+      model: call.model,
+      purpose: call.purpose,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
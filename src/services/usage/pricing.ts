@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Model prices for usage cost estimates.
+ *
+ * List prices in USD per million tokens, matched by model ID prefix so
+ * dated snapshots (claude-sonnet-4-5-20250929) share their family's price.
+ * Costs are estimates: cache discounts and batch pricing are ignored.
+ */
+
+export interface ModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+/**
+ * Prices by model ID prefix. More specific prefixes come first.
+ */
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ['claude-opus-4-5', { input: 5, output: 25 }],
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-haiku-4-5', { input: 1, output: 5 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+  ['gemini-2.5-flash-lite', { input: 0.1, output: 0.4 }],
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+  ['gemini-2.0-flash', { input: 0.1, output: 0.4 }],
+  ['gemini-embedding', { input: 0.15, output: 0 }],
+  ['text-embedding', { input: 0, output: 0 }],
+];
+
+/**
+ * Price for models not listed above. Deliberately high, so an unknown
+ * model can't slip past a budget.
+ */
+export const UNKNOWN_MODEL_PRICE: ModelPrice = { input: 15, output: 75 };
+
+/**
+ * Look up the price of a model.
+ */
+export function getModelPrice(model: string): ModelPrice {
+  return MODEL_PRICES.find(([prefix]) => model.startsWith(prefix))?.[1] ?? UNKNOWN_MODEL_PRICE;
+}
+
+/**
+ * Estimated cost of a call in USD.
+ */
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const price = getModelPrice(model);
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview SQLite usage ledger.
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import type {
+  UsageRecord,
+  UsageStore,
+  UsageSummaryOptions,
+  UsageSummaryRow,
+  UsageTotals,
+} from './types.js';
+
+type TotalsRow = {
+  calls: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cost_usd: number | null;
+};
+
+type SummaryRow = TotalsRow & {
+  phone_number: string | null;
+  provider: UsageSummaryRow['provider'];
+  model: string;
+  purpose: UsageSummaryRow['purpose'];
+};
+
+function rowToTotals(row: TotalsRow): UsageTotals {
+  return {
+    calls: row.calls,
+    inputTokens: row.input_tokens ?? 0,
+    outputTokens: row.output_tokens ?? 0,
+    costUsd: row.cost_usd ?? 0,
+  };
+}
+
+/**
+ * SQLite usage ledger.
+ */
+export class SqliteUsageStore implements UsageStore {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath Path to SQLite database file
+   */
+  constructor(dbPath: string) {
+    // Ensure directory exists
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.initSchema();
+  }
+
+  private initSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usage_ledger (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        phone_number TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_usage_ledger_phone_created
+        ON usage_ledger(phone_number, created_at);
+
+      CREATE INDEX IF NOT EXISTS idx_usage_ledger_created
+        ON usage_ledger(created_at);
+    `);
+  }
+
+  async record(entry: UsageRecord): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO usage_ledger
+        (phone_number, provider, model, purpose, input_tokens, output_tokens, cost_usd, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.phoneNumber,
+      entry.provider,
+      entry.model,
+      entry.purpose,
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.costUsd,
+      entry.createdAt
+    );
+  }
+
+  async getTotals(phoneNumber: string, sinceMs: number): Promise<UsageTotals> {
+    const row = this.db.prepare(`
+      SELECT COUNT(*) AS calls,
+             SUM(input_tokens) AS input_tokens,
+             SUM(output_tokens) AS output_tokens,
+             SUM(cost_usd) AS cost_usd
+      FROM usage_ledger
+      WHERE phone_number = ? AND created_at >= ?
+    `).get(phoneNumber, sinceMs) as TotalsRow;
+
+    return rowToTotals(row);
+  }
+
+  async summarize(options: UsageSummaryOptions): Promise<UsageSummaryRow[]> {
+    const conditions = ['created_at >= ?'];
+    const params: Array<string | number> = [options.sinceMs];
+    if (options.untilMs !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(options.untilMs);
+    }
+    if (options.phoneNumber !== undefined) {
+      conditions.push('phone_number = ?');
+      params.push(options.phoneNumber);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT phone_number, provider, model, purpose,
+             COUNT(*) AS calls,
+             SUM(input_tokens) AS input_tokens,
+             SUM(output_tokens) AS output_tokens,
+             SUM(cost_usd) AS cost_usd
+      FROM usage_ledger
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY phone_number, provider, model, purpose
+      ORDER BY cost_usd DESC, calls DESC
+    `).all(...params) as SummaryRow[];
+
+    return rows.map((row) => ({
+      phoneNumber: row.phone_number,
+      provider: row.provider,
+      model: row.model,
+      purpose: row.purpose,
+      ...rowToTotals(row),
+    }));
+  }
+
+  /**
+   * Close the database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
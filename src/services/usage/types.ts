@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Usage ledger interface.
+ *
+ * Every Anthropic and Gemini call is recorded with the user it was made
+ * for, the model, token counts and an estimated cost. The ledger backs the
+ * per-user budgets (see budget.ts), the usage admin endpoint and the
+ * get_usage tool.
+ */
+
+export type UsageProvider = 'anthropic' | 'gemini';
+
+/**
+ * What a model call was made for.
+ */
+export type UsagePurpose = 'planner' | 'agent' | 'composer' | 'classifier' | 'memory' | 'scheduler';
+
+/**
+ * Who a model call is made for, and why.
+ */
+export interface UsageAttribution {
+  /** Null for calls not made on behalf of a user */
+  phoneNumber: string | null;
+  purpose: UsagePurpose;
+}
+
+/**
+ * One model call.
+ */
+export interface UsageRecord {
+  /** Null for calls not made on behalf of a user */
+  phoneNumber: string | null;
+  provider: UsageProvider;
+  model: string;
+  purpose: UsagePurpose;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from list prices (see pricing.ts) */
+  costUsd: number;
+  createdAt: number; // Unix timestamp in milliseconds
+}
+
+/**
+ * Aggregated usage.
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Usage of one user, provider, model and purpose.
+ */
+export interface UsageSummaryRow extends UsageTotals {
+  phoneNumber: string | null;
+  provider: UsageProvider;
+  model: string;
+  purpose: UsagePurpose;
+}
+
+export interface UsageSummaryOptions {
+  /** Only this user's calls */
+  phoneNumber?: string;
+  sinceMs: number;
+  untilMs?: number;
+}
+
+/**
+ * Interface for usage ledger backends.
+ *
+ * Note: Methods return Promises for interface flexibility, but the current
+ * SQLite implementation (better-sqlite3) is synchronous.
+ */
+export interface UsageStore {
+  /**
+   * Append a call to the ledger.
+   */
+  record(entry: UsageRecord): Promise<void>;
+
+  /**
+   * Total usage of a user since a point in time.
+   */
+  getTotals(phoneNumber: string, sinceMs: number): Promise<UsageTotals>;
+
+  /**
+   * Usage grouped by user, provider, model and purpose, most expensive first.
+   */
+  summarize(options: UsageSummaryOptions): Promise<UsageSummaryRow[]>;
+}
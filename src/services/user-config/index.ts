@@ -9,7 +9,12 @@ import config from '../../config.js';
 import type { UserConfigStore, UserConfig } from './types.js';
 import { SqliteUserConfigStore } from './sqlite.js';
 
-export type { UserConfigStore, UserConfig } from './types.js';
+export type {
+  UserConfigStore,
+  UserConfig,
+  EmailWatcherDeliveryMode,
+  EmailWatcherDeliveryPolicy,
+} from './types.js';
 
 let instance: UserConfigStore | null = null;
 
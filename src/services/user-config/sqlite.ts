@@ -1,14 +1,43 @@
 /**
  * @fileoverview SQLite user configuration store.
  *
- * Stores user preferences (name, timezone) in SQLite.
+ * Stores user preferences (name, timezone, default calendar) in SQLite.
  * No encryption needed - this data isn't sensitive like OAuth tokens.
  */
 
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
-import type { UserConfigStore, UserConfig } from './types.js';
+import type { UserConfigStore, UserConfig, EmailWatcherDeliveryPolicy } from './types.js';
+
+const DELIVERY_MODES = ['immediate', 'hourly', 'scheduled'];
+
+/**
+ * Parse the stored delivery policy JSON.
+ * Boundary: a malformed value falls back to the default (immediate) policy.
+ */
+function parseDeliveryPolicy(json: string | null): EmailWatcherDeliveryPolicy | undefined {
+  if (!json) return undefined;
+  try {
+    const parsed = JSON.parse(json) as Partial<EmailWatcherDeliveryPolicy> | null;
+    if (!parsed || typeof parsed.mode !== 'string' || !DELIVERY_MODES.includes(parsed.mode)) {
+      return undefined;
+    }
+    return {
+      mode: parsed.mode,
+      digestTimes: Array.isArray(parsed.digestTimes)
+        ? parsed.digestTimes.filter((t): t is string => typeof t === 'string')
+        : undefined,
+      quietHours: parsed.quietHours
+        && typeof parsed.quietHours.start === 'string'
+        && typeof parsed.quietHours.end === 'string'
+        ? { start: parsed.quietHours.start, end: parsed.quietHours.end }
+        : undefined,
+    };
+  } catch {
+    return undefined;
+  }
+}
 
 /**
  * SQLite user configuration store.
@@ -48,18 +77,26 @@ export class SqliteUserConfigStore implements UserConfigStore {
     try {
       this.db.exec('ALTER TABLE user_config ADD COLUMN email_watcher_enabled INTEGER DEFAULT 0');
     } catch { /* column already exists */ }
+    try {
+      this.db.exec('ALTER TABLE user_config ADD COLUMN email_watcher_delivery TEXT');
+    } catch { /* column already exists */ }
+    try {
+      this.db.exec('ALTER TABLE user_config ADD COLUMN default_calendar_id TEXT');
+    } catch { /* column already exists */ }
   }
 
   async get(phoneNumber: string): Promise<UserConfig | null> {
     const row = this.db
       .prepare(
         `SELECT phone_number, name, timezone, email_watcher_history_id,
-                email_watcher_enabled, created_at, updated_at
+                email_watcher_enabled, email_watcher_delivery, default_calendar_id,
+                created_at, updated_at
          FROM user_config WHERE phone_number = ?`
       )
       .get(phoneNumber) as
       | { phone_number: string; name: string | null; timezone: string | null;
           email_watcher_history_id: string | null; email_watcher_enabled: number | null;
+          email_watcher_delivery: string | null; default_calendar_id: string | null;
           created_at: number; updated_at: number }
       | undefined;
 
@@ -73,6 +110,8 @@ export class SqliteUserConfigStore implements UserConfigStore {
       timezone: row.timezone ?? undefined,
       emailWatcherHistoryId: row.email_watcher_history_id ?? undefined,
       emailWatcherEnabled: row.email_watcher_enabled === 1,
+      emailWatcherDelivery: parseDeliveryPolicy(row.email_watcher_delivery),
+      defaultCalendarId: row.default_calendar_id ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -106,6 +145,14 @@ export class SqliteUserConfigStore implements UserConfigStore {
         updates.push('email_watcher_enabled = ?');
         values.push(config.emailWatcherEnabled ? 1 : 0);
       }
+      if (config.emailWatcherDelivery !== undefined) {
+        updates.push('email_watcher_delivery = ?');
+        values.push(JSON.stringify(config.emailWatcherDelivery));
+      }
+      if (config.defaultCalendarId !== undefined) {
+        updates.push('default_calendar_id = ?');
+        values.push(config.defaultCalendarId || null);
+      }
       updates.push('updated_at = ?');
       values.push(now);
       values.push(phoneNumber);
@@ -118,8 +165,8 @@ export class SqliteUserConfigStore implements UserConfigStore {
       this.db
         .prepare(
           `INSERT INTO user_config (phone_number, name, timezone, email_watcher_history_id,
-           email_watcher_enabled, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?)`
+           email_watcher_enabled, email_watcher_delivery, default_calendar_id, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
         )
         .run(
           phoneNumber,
@@ -127,6 +174,8 @@ export class SqliteUserConfigStore implements UserConfigStore {
           config.timezone ?? null,
           config.emailWatcherHistoryId ?? null,
           config.emailWatcherEnabled ? 1 : 0,
+          config.emailWatcherDelivery ? JSON.stringify(config.emailWatcherDelivery) : null,
+          config.defaultCalendarId || null,
           now,
           now
         );
@@ -143,7 +192,8 @@ export class SqliteUserConfigStore implements UserConfigStore {
     const rows = this.db
       .prepare(
         `SELECT uc.phone_number, uc.name, uc.timezone, uc.email_watcher_history_id,
-                uc.email_watcher_enabled, uc.created_at, uc.updated_at
+                uc.email_watcher_enabled, uc.email_watcher_delivery, uc.default_calendar_id,
+                uc.created_at, uc.updated_at
          FROM user_config uc
          INNER JOIN credentials c ON c.phone_number = uc.phone_number AND c.provider = 'google'
          WHERE uc.email_watcher_enabled = 1`
@@ -151,6 +201,7 @@ export class SqliteUserConfigStore implements UserConfigStore {
       .all() as Array<{
         phone_number: string; name: string | null; timezone: string | null;
         email_watcher_history_id: string | null; email_watcher_enabled: number | null;
+        email_watcher_delivery: string | null; default_calendar_id: string | null;
         created_at: number; updated_at: number;
       }>;
 
@@ -160,6 +211,8 @@ export class SqliteUserConfigStore implements UserConfigStore {
       timezone: row.timezone ?? undefined,
       emailWatcherHistoryId: row.email_watcher_history_id ?? undefined,
       emailWatcherEnabled: row.email_watcher_enabled === 1,
+      emailWatcherDelivery: parseDeliveryPolicy(row.email_watcher_delivery),
+      defaultCalendarId: row.default_calendar_id ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     }));
@@ -5,6 +5,25 @@
  * Phone number is the primary key (from Twilio SMS).
  */
 
+/**
+ * How email watcher notifications are delivered.
+ * - immediate: one SMS per matched email (subject to the hourly throttle)
+ * - hourly: queued and sent as a digest at the top of each hour
+ * - scheduled: queued and sent as a digest at the configured local times
+ */
+export type EmailWatcherDeliveryMode = 'immediate' | 'hourly' | 'scheduled';
+
+/**
+ * Per-user email watcher delivery policy. Times are "HH:MM" in the user's timezone.
+ */
+export interface EmailWatcherDeliveryPolicy {
+  mode: EmailWatcherDeliveryMode;
+  /** Digest times for 'scheduled' mode (e.g., ["08:00", "17:30"]) */
+  digestTimes?: string[];
+  /** Window in which nothing is sent; may wrap midnight (e.g., 22:00-07:00) */
+  quietHours?: { start: string; end: string };
+}
+
 /**
  * User configuration stored for a phone number.
  */
@@ -14,6 +33,9 @@ export interface UserConfig {
   timezone?: string; // IANA timezone (e.g., "America/Los_Angeles")
   emailWatcherHistoryId?: string;
   emailWatcherEnabled?: boolean;
+  emailWatcherDelivery?: EmailWatcherDeliveryPolicy;
+  /** Calendar that calendar tools use when none is named; empty string clears it (default: primary) */
+  defaultCalendarId?: string;
   createdAt: number; // Unix timestamp in milliseconds
   updatedAt: number; // Unix timestamp in milliseconds
 }
@@ -2,25 +2,53 @@
  * Tool registry (canonical).
  */
 
+import { randomUUID } from 'crypto';
 import type { Tool } from '@anthropic-ai/sdk/resources/messages';
 import type { ToolDefinition, ToolHandler, ToolContext } from './types.js';
+import config from '../config.js';
+import { getPendingActionStore } from '../services/pending-actions/index.js';
 
 import { generateUi } from '../domains/ui/runtime/tools.js';
-import { getCalendarEvents, createCalendarEvent, updateCalendarEvent, deleteCalendarEvent } from '../domains/calendar/runtime/tools.js';
+import {
+  getCalendarEvents,
+  createCalendarEvent,
+  updateCalendarEvent,
+  deleteCalendarEvent,
+  findFreeTimeTool,
+  listCalendarsTool,
+  setDefaultCalendar,
+} from '../domains/calendar/runtime/tools.js';
 import { resolveDateTool } from './date.js';
-import { getEmails, readEmail, getEmailThread } from '../domains/email/runtime/tools.js';
+import {
+  getEmails,
+  readEmail,
+  getEmailThread,
+  createEmailDraft,
+  replyToEmail,
+  sendEmail,
+  archiveEmails,
+  labelEmails,
+  markEmailsRead,
+  starEmails,
+  trashEmails,
+  saveEmailAttachments,
+} from '../domains/email/runtime/tools.js';
 import { extractMemory, listMemories, updateMemory, removeMemory } from '../domains/memory/runtime/tools.js';
-import { setUserConfig, deleteUserData } from './user-config.js';
+import { setUserConfig, getUsage, deleteUserData } from './user-config.js';
 import { createScheduledJob, listScheduledJobs, updateScheduledJob, deleteScheduledJob } from '../domains/scheduler/runtime/tools.js';
+import { snoozeReminderTool, pauseJobUntilTool, skipNextOccurrenceTool } from '../domains/scheduler/runtime/tools.js';
 import { formatMapsLink } from './maps.js';
 // Google Workspace tools
 import { uploadToDrive, listDriveFiles, createDriveFolder, readDriveFile, searchDrive, getHermesFolder } from '../domains/drive/runtime/tools.js';
 import { createSpreadsheetTool, readSpreadsheet, writeSpreadsheet, appendToSpreadsheet, findSpreadsheetTool } from '../domains/drive/runtime/tools.js';
 import { createDocumentTool, readDocument, appendToDocument, findDocumentTool } from '../domains/drive/runtime/tools.js';
 import { analyzeImageTool } from '../domains/drive/runtime/tools.js';
-// Email watcher toggle (retained)
+// Email watcher toggle and rules
 import {
   toggleEmailWatcher,
+  createEmailWatcherRule,
+  listEmailWatcherRules,
+  deleteEmailWatcherRule,
 } from '../domains/email-watcher/runtime/tools.js';
 
 /**
@@ -34,12 +62,24 @@ const allTools: ToolDefinition[] = [
   createCalendarEvent,
   updateCalendarEvent,
   deleteCalendarEvent,
+  findFreeTimeTool,
+  listCalendarsTool,
+  setDefaultCalendar,
   // Date resolution (shared across calendar + scheduler agents)
   resolveDateTool,
   // Email
   getEmails,
   readEmail,
   getEmailThread,
+  createEmailDraft,
+  replyToEmail,
+  sendEmail,
+  archiveEmails,
+  labelEmails,
+  markEmailsRead,
+  starEmails,
+  trashEmails,
+  saveEmailAttachments,
   // Memory
   extractMemory,
   listMemories,
@@ -47,12 +87,16 @@ const allTools: ToolDefinition[] = [
   removeMemory,
   // User Config
   setUserConfig,
+  getUsage,
   deleteUserData,
   // Scheduler
   createScheduledJob,
   listScheduledJobs,
   updateScheduledJob,
   deleteScheduledJob,
+  snoozeReminderTool,
+  pauseJobUntilTool,
+  skipNextOccurrenceTool,
   // Maps
   formatMapsLink,
   // Drive
@@ -75,8 +119,11 @@ const allTools: ToolDefinition[] = [
   findDocumentTool,
   // Vision
   analyzeImageTool,
-  // Email watcher toggle
+  // Email watcher toggle and rules
   toggleEmailWatcher,
+  createEmailWatcherRule,
+  listEmailWatcherRules,
+  deleteEmailWatcherRule,
 ];
 
 /**
@@ -91,12 +138,100 @@ export const toolHandlers = new Map<string, ToolHandler>(
   allTools.map(t => [t.tool.name, t.handler])
 );
 
+/**
+ * Default confirmation questions of tools that wait for the user's YES.
+ */
+const confirmationPrompts = new Map<string, string>(
+  allTools
+    .filter(t => t.confirmationPrompt)
+    .map(t => [t.tool.name, t.confirmationPrompt as string])
+);
+
+/**
+ * Tools that only need confirmation for some calls.
+ */
+const confirmationFilters = new Map<string, NonNullable<ToolDefinition['needsConfirmation']>>(
+  allTools
+    .filter(t => t.confirmationPrompt && t.needsConfirmation)
+    .map(t => [t.tool.name, t.needsConfirmation as NonNullable<ToolDefinition['needsConfirmation']>])
+);
+
+/**
+ * Whether a call must wait for the user's YES.
+ */
+function needsConfirmation(name: string, input: Record<string, unknown>): boolean {
+  if (!confirmationPrompts.has(name)) {
+    return false;
+  }
+  return confirmationFilters.get(name)?.(input) ?? true;
+}
+
+/**
+ * Park a tool call until the user confirms it. Calls parked in the same turn
+ * are confirmed together; the user's YES, NO or edit is resolved by the
+ * orchestrator before any planning (see pending-actions.ts).
+ */
+async function parkPendingAction(
+  name: string,
+  input: Record<string, unknown>,
+  phoneNumber: string,
+  channel: 'sms' | 'whatsapp'
+): Promise<Record<string, unknown>> {
+  const { confirmation_prompt: agentPrompt, ...toolInput } = input;
+  const prompt = typeof agentPrompt === 'string' && agentPrompt.trim()
+    ? agentPrompt.trim()
+    : confirmationPrompts.get(name) as string;
+  const now = Date.now();
+  const store = getPendingActionStore();
+
+  await store.add({
+    id: randomUUID(),
+    phoneNumber,
+    channel,
+    toolName: name,
+    toolInput,
+    prompt,
+    createdAt: now,
+    expiresAt: now + config.pendingActions.ttlMs,
+  });
+  const pending = await store.list(phoneNumber, now);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Tool call parked for confirmation',
+    toolName: name,
+    expiresInMs: config.pendingActions.ttlMs,
+    pendingCount: pending.length,
+    timestamp: new Date().toISOString(),
+  }));
+
+  if (pending.length > 1) {
+    return {
+      success: true,
+      status: 'awaiting_confirmation',
+      prompt,
+      pendingPrompts: pending.map(a => a.prompt),
+      note: `Nothing has changed yet. ${pending.length} actions now wait for one confirmation: `
+        + 'a YES runs all of them, a NO cancels all of them. End your reply with a single question listing every one.',
+    };
+  }
+
+  return {
+    success: true,
+    status: 'awaiting_confirmation',
+    prompt,
+    note: 'Nothing has changed yet. End your reply with this question and ask the user to reply YES to go ahead or NO to cancel.',
+  };
+}
+
 /**
  * Read-only tools safe for scheduled job execution.
  * These tools can gather information but not modify user data.
  */
 export const READ_ONLY_TOOLS: Tool[] = [
   getCalendarEvents.tool,
+  findFreeTimeTool.tool,
+  listCalendarsTool.tool,
   resolveDateTool.tool,
   getEmails.tool,
   readEmail.tool,
@@ -106,6 +241,9 @@ export const READ_ONLY_TOOLS: Tool[] = [
 
 /**
  * Execute a tool by name.
+ *
+ * In conversations (context.requireConfirmation), calls to tools with a
+ * confirmationPrompt are parked as a pending action instead of running.
  */
 export async function executeTool(
   name: string,
@@ -127,6 +265,10 @@ export async function executeTool(
   }));
 
   try {
+    if (needsConfirmation(name, input) && context.requireConfirmation && context.phoneNumber && context.channel) {
+      return JSON.stringify(await parkPendingAction(name, input, context.phoneNumber, context.channel));
+    }
+
     const result = await handler(input, context);
     return JSON.stringify(result);
   } catch (error) {
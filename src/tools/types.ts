@@ -23,6 +23,13 @@ export interface ToolContext {
   storedMedia?: StoredMediaAttachment[];
   /** ID of the originating user message (for attaching metadata like image analysis) */
   messageId?: string;
+  /**
+   * Park calls to tools that need confirmation as pending actions instead of
+   * running them. Set for conversation requests; automations leave it unset.
+   */
+  requireConfirmation?: boolean;
+  /** Set when running a pending action the user replied YES to */
+  confirmedByUser?: boolean;
 }
 
 /**
@@ -39,4 +46,15 @@ export type ToolHandler = (
 export interface ToolDefinition {
   tool: Tool;
   handler: ToolHandler;
+  /**
+   * Marks a tool whose effects can't be undone. In conversations the call
+   * waits for the user's YES (see executeTool); this is the question asked
+   * when the agent didn't pass `confirmation_prompt`.
+   */
+  confirmationPrompt?: string;
+  /**
+   * Which calls need confirmation, for tools where only some do (e.g. bulk
+   * trashing by query). Defaults to every call.
+   */
+  needsConfirmation?: (input: Record<string, unknown>) => boolean;
 }
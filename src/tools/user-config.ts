@@ -1,25 +1,98 @@
 /**
- * User configuration tools (name, timezone, privacy reset).
+ * User configuration tools (name, timezone, email watcher delivery, usage, privacy reset).
  */
 
 import type { ToolDefinition } from './types.js';
-import { getUserConfigStore } from '../services/user-config/index.js';
+import { getUserConfigStore, type EmailWatcherDeliveryPolicy } from '../services/user-config/index.js';
 import { getMemoryStore } from '../domains/memory/runtime/index.js';
 import { getConversationStore } from '../services/conversation/index.js';
 import { isValidTimezone } from '../services/date/resolver.js';
-import { requirePhoneNumber, validateInput } from './utils.js';
+import { getBudgetStatus, type BudgetPeriodUsage } from '../services/usage/budget.js';
+import { requirePhoneNumber, validateInput, CONFIRMATION_PROMPT_SCHEMA } from './utils.js';
 import { getSchedulerDb } from '../domains/scheduler/runtime/index.js';
 import { reconcileAutoScheduledSkillsForUser } from '../domains/scheduler/service/auto-schedule.js';
+import { parseClockTime, parseQuietHours } from '../domains/email-watcher/runtime/index.js';
+
+const DELIVERY_MODES = ['immediate', 'hourly', 'scheduled'] as const;
+
+type DeliveryInput = {
+  email_delivery?: string;
+  email_digest_times?: string[];
+  email_quiet_hours?: string;
+};
+
+/**
+ * Merge delivery-policy updates into the user's current policy.
+ * Returns an error string when the resulting policy is invalid.
+ */
+function buildDeliveryPolicy(
+  current: EmailWatcherDeliveryPolicy | undefined,
+  input: DeliveryInput
+): EmailWatcherDeliveryPolicy | string {
+  const policy: EmailWatcherDeliveryPolicy = { ...(current ?? { mode: 'immediate' }) };
+
+  if (input.email_delivery !== undefined) {
+    const mode = input.email_delivery.trim().toLowerCase();
+    if (!(DELIVERY_MODES as readonly string[]).includes(mode)) {
+      return `email_delivery must be one of: ${DELIVERY_MODES.join(', ')}`;
+    }
+    policy.mode = mode as EmailWatcherDeliveryPolicy['mode'];
+  }
+
+  if (input.email_digest_times !== undefined) {
+    const times = input.email_digest_times.map((t) => t.trim());
+    const invalid = times.find((t) => parseClockTime(t) === null);
+    if (invalid !== undefined) {
+      return `Invalid digest time: "${invalid}". Use 24-hour HH:MM (e.g., 08:00)`;
+    }
+    policy.digestTimes = Array.from(new Set(times)).sort(
+      (a, b) => (parseClockTime(a) ?? 0) - (parseClockTime(b) ?? 0)
+    );
+  }
+
+  if (input.email_quiet_hours !== undefined) {
+    const value = input.email_quiet_hours.trim().toLowerCase();
+    if (value === 'off' || value === 'none') {
+      delete policy.quietHours;
+    } else {
+      const quietHours = parseQuietHours(value);
+      if (!quietHours) {
+        return `Invalid quiet hours: "${input.email_quiet_hours}". Use HH:MM-HH:MM (e.g., 22:00-07:00) or "off"`;
+      }
+      policy.quietHours = quietHours;
+    }
+  }
+
+  if (policy.mode === 'scheduled' && (!policy.digestTimes || policy.digestTimes.length === 0)) {
+    return 'email_digest_times is required for scheduled delivery';
+  }
+
+  return policy;
+}
 
 export const setUserConfig: ToolDefinition = {
   tool: {
     name: 'set_user_config',
-    description: 'Update user profile (name, timezone).',
+    description: 'Update user profile (name, timezone) and how email watcher notifications are delivered (immediately, hourly digest, or digests at set times, with optional quiet hours).',
     input_schema: {
       type: 'object' as const,
       properties: {
         name: { type: 'string', description: 'User name' },
         timezone: { type: 'string', description: 'IANA timezone (e.g., America/Los_Angeles)' },
+        email_delivery: {
+          type: 'string',
+          enum: ['immediate', 'hourly', 'scheduled'],
+          description: 'Email watcher notifications: immediate, hourly digest, or scheduled digests at email_digest_times',
+        },
+        email_digest_times: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Local 24-hour HH:MM digest times for scheduled delivery (e.g., ["08:00", "18:00"])',
+        },
+        email_quiet_hours: {
+          type: 'string',
+          description: 'Local HH:MM-HH:MM window with no notifications (e.g., "22:00-07:00"), or "off"',
+        },
       },
     },
   },
@@ -29,19 +102,45 @@ export const setUserConfig: ToolDefinition = {
     const validationError = validateInput(input, {
       name: { type: 'string', required: false, nonEmpty: true },
       timezone: { type: 'string', required: false, nonEmpty: true },
+      email_delivery: { type: 'string', required: false, nonEmpty: true },
+      email_digest_times: { type: 'array', required: false },
+      email_quiet_hours: { type: 'string', required: false, nonEmpty: true },
     });
     if (validationError) return validationError;
 
-    const { name, timezone } = input as { name?: string; timezone?: string };
+    const { name, timezone, ...deliveryInput } = input as { name?: string; timezone?: string } & DeliveryInput;
 
     if (timezone && !isValidTimezone(timezone)) {
       return { success: false, error: `Invalid timezone: "${timezone}"` };
     }
 
+    if (
+      deliveryInput.email_digest_times !== undefined &&
+      !deliveryInput.email_digest_times.every((t) => typeof t === 'string')
+    ) {
+      return { success: false, error: 'email_digest_times must be an array of strings' };
+    }
+
     const store = getUserConfigStore();
+
+    let emailWatcherDelivery: EmailWatcherDeliveryPolicy | undefined;
+    if (
+      deliveryInput.email_delivery !== undefined ||
+      deliveryInput.email_digest_times !== undefined ||
+      deliveryInput.email_quiet_hours !== undefined
+    ) {
+      const current = await store.get(phoneNumber);
+      const policy = buildDeliveryPolicy(current?.emailWatcherDelivery, deliveryInput);
+      if (typeof policy === 'string') {
+        return { success: false, error: policy };
+      }
+      emailWatcherDelivery = policy;
+    }
+
     await store.set(phoneNumber, {
       name,
       timezone,
+      emailWatcherDelivery,
     });
 
     const updatedConfig = await store.get(phoneNumber);
@@ -59,22 +158,69 @@ export const setUserConfig: ToolDefinition = {
       }));
     }
 
+    if (emailWatcherDelivery && !updatedConfig?.timezone) {
+      return {
+        success: true,
+        userConfig: updatedConfig,
+        note: 'No timezone is set, so digest times and quiet hours use UTC until one is set.',
+      };
+    }
+
     return { success: true, userConfig: updatedConfig };
   },
 };
 
+/**
+ * Describe spend in one budget period for the model.
+ */
+function formatPeriodUsage(period: BudgetPeriodUsage): Record<string, unknown> {
+  return {
+    requests: period.usage.calls,
+    tokens: period.usage.inputTokens + period.usage.outputTokens,
+    costUsd: Math.round(period.usage.costUsd * 100) / 100,
+    budgetUsd: period.budgetUsd,
+    resetsAt: new Date(period.resetsAt).toISOString(),
+  };
+}
+
+export const getUsage: ToolDefinition = {
+  tool: {
+    name: 'get_usage',
+    description: 'Report how much the user has used the assistant today and this month: model requests, tokens and estimated cost, against their daily and monthly budgets.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  handler: async (_input, context) => {
+    const phoneNumber = requirePhoneNumber(context);
+    const status = await getBudgetStatus(phoneNumber);
+
+    return {
+      success: true,
+      today: formatPeriodUsage(status.day),
+      thisMonth: formatPeriodUsage(status.month),
+      status: status.level,
+      note: 'Costs are estimates in USD. Days and months are UTC. A null budget means no limit. '
+        + 'When status is degraded a cheaper model is used; when exceeded new requests are refused until the reset.',
+    };
+  },
+};
+
 export const deleteUserData: ToolDefinition = {
   tool: {
     name: 'delete_user_data',
-    description: 'Delete all stored data for the user (config, memory, conversation, scheduled jobs). Use only when the user explicitly requests deletion.',
+    description: 'Delete all stored data for the user (config, memory, conversation, scheduled jobs). Use only when the user explicitly requests deletion. The deletion waits for the user to reply YES to confirmation_prompt.',
     input_schema: {
       type: 'object' as const,
       properties: {
         confirm: { type: 'boolean', description: 'Must be true to proceed' },
+        confirmation_prompt: CONFIRMATION_PROMPT_SCHEMA,
       },
       required: ['confirm'],
     },
   },
+  confirmationPrompt: 'Delete all your settings, memories and conversation history? This can\'t be undone.',
   handler: async (input, context) => {
     const phoneNumber = requirePhoneNumber(context);
 
@@ -96,11 +242,8 @@ export const deleteUserData: ToolDefinition = {
     // Delete user config
     await userConfigStore.delete(phoneNumber);
 
-    // Delete all memory facts for this user
-    const facts = await memoryStore.getFacts(phoneNumber);
-    for (const fact of facts) {
-      await memoryStore.deleteFact(fact.id);
-    }
+    // Delete all memory facts for this user, superseded versions included
+    await memoryStore.deleteAllFacts(phoneNumber);
 
     // Delete conversation history if the store supports it
     if (typeof (conversationStore as { deleteAll?: (p: string) => Promise<void> }).deleteAll === 'function') {
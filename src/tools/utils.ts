@@ -62,6 +62,15 @@ export function isValidTimezone(tz: string): boolean {
   return isValidIanaTimezone(tz);
 }
 
+/**
+ * Schema for the `confirmation_prompt` input of tools that wait for the
+ * user's confirmation (see ToolDefinition.confirmationPrompt).
+ */
+export const CONFIRMATION_PROMPT_SCHEMA = {
+  type: 'string',
+  description: 'Yes/no question asking the user to confirm, naming exactly what will change (e.g., \'Delete "Team sync" on Tue, Mar 3?\')',
+} as const;
+
 /**
  * Field specification for validateInput.
  */
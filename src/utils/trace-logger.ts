@@ -30,6 +30,22 @@ type LlmResponse = {
   usage?: { inputTokens: number; outputTokens: number };
 };
 
+/** A plan step as drawn in the trace, with its dependencies resolved */
+export type PlanGraphNode = {
+  id: string;
+  agent: string;
+  status: string;
+  dependsOn: string[];
+};
+
+/** A model routing decision as recorded in the trace */
+export type ModelRouteEntry = {
+  role: string;
+  tier: string;
+  model: string;
+  reason: string;
+};
+
 type TraceSummary = {
   durationMs: number;
   llmCalls: number;
@@ -37,6 +53,8 @@ type TraceSummary = {
   inputTokens: number;
   outputTokens: number;
   planVersions: number;
+  /** Routed calls per model tier */
+  modelTiers: Record<string, number>;
   status: 'SUCCESS' | 'FAILED';
 };
 
@@ -57,6 +75,7 @@ export class TraceLogger {
   private totalInputTokens = 0;
   private totalOutputTokens = 0;
   private planVersions = 1;
+  private modelTiers: Record<string, number> = {};
 
   constructor(requestId: string, phoneNumber: string) {
     this.requestId = requestId;
@@ -338,7 +357,7 @@ ${error.stack?.split('\n').map(line => '  ' + line).join('\n') || '  (no stack t
    * Log a plan event.
    */
   planEvent(
-    event: 'created' | 'replanning' | 'replanned' | 'completed' | 'failed' | 'timeout',
+    event: 'created' | 'resumed' | 'replanning' | 'replanned' | 'completed' | 'failed' | 'timeout',
     details?: Record<string, unknown>
   ): void {
     if (!this.enabled) return;
@@ -349,6 +368,7 @@ ${error.stack?.split('\n').map(line => '  ' + line).join('\n') || '  (no stack t
 
     const levelMap = {
       created: 'INFO',
+      resumed: 'INFO',
       replanning: 'INFO',
       replanned: 'INFO',
       completed: 'INFO',
@@ -359,6 +379,7 @@ ${error.stack?.split('\n').map(line => '  ' + line).join('\n') || '  (no stack t
 
     const messageMap = {
       created: 'Plan created',
+      resumed: 'Plan resumed after restart',
       replanning: 'Triggering replan',
       replanned: 'Replan complete',
       completed: 'Plan execution completed',
@@ -370,6 +391,30 @@ ${error.stack?.split('\n').map(line => '  ' + line).join('\n') || '  (no stack t
     this.log(level, message, details);
   }
 
+  /**
+   * Log a plan's step dependency graph.
+   */
+  planGraph(steps: PlanGraphNode[]): void {
+    if (!this.enabled) return;
+
+    this.section('PLAN GRAPH', formatPlanGraph(steps));
+  }
+
+  /**
+   * Log which model tier a call was routed to, and why.
+   */
+  modelRoute(route: ModelRouteEntry, subject?: string): void {
+    if (!this.enabled) return;
+
+    this.modelTiers[route.tier] = (this.modelTiers[route.tier] ?? 0) + 1;
+
+    const target = subject ? `${route.role} (${subject})` : route.role;
+    this.log('INFO', `Model routed: ${target} -> ${route.tier}`, {
+      Model: route.model,
+      Reason: route.reason,
+    });
+  }
+
   /**
    * Close the log file and write the footer.
    */
@@ -377,11 +422,14 @@ ${error.stack?.split('\n').map(line => '  ' + line).join('\n') || '  (no stack t
     if (!this.enabled || !this.filePath) return;
 
     const durationMs = Date.now() - this.startTime;
+    const tiers = Object.entries(this.modelTiers)
+      .map(([tier, count]) => `${tier} ${count}`)
+      .join(', ') || '(none)';
 
     const footer = `${'='.repeat(80)}
 TRACE END | ${new Date().toISOString()} | ${this.requestId}
 Duration: ${durationMs}ms | LLM calls: ${this.llmCallCount} | Tool calls: ${this.toolCallCount} | Tokens: ${this.totalInputTokens} in / ${this.totalOutputTokens} out
-Plan versions: ${this.planVersions} | Status: ${status}
+Plan versions: ${this.planVersions} | Model tiers: ${tiers} | Status: ${status}
 ${'='.repeat(80)}
 `;
     this.write(footer);
@@ -398,11 +446,50 @@ ${'='.repeat(80)}
       inputTokens: this.totalInputTokens,
       outputTokens: this.totalOutputTokens,
       planVersions: this.planVersions,
+      modelTiers: { ...this.modelTiers },
       status: 'SUCCESS', // Will be set on close
     };
   }
 }
 
+/**
+ * Render a step dependency graph, one step per line. Steps in the same wave
+ * have no dependencies between them and can run concurrently:
+ *
+ *   [wave 1] step_1 calendar-agent (completed)
+ *   [wave 1] step_2 email-agent (running)
+ *   [wave 2] step_3 ui-agent (pending) <- step_1, step_2
+ */
+export function formatPlanGraph(steps: PlanGraphNode[]): string {
+  if (steps.length === 0) {
+    return '(no steps)';
+  }
+
+  const waves = new Map<string, number>();
+  const waveOf = (node: PlanGraphNode, visiting: Set<string>): number => {
+    const known = waves.get(node.id);
+    if (known !== undefined) return known;
+    visiting.add(node.id);
+    let wave = 1;
+    for (const id of node.dependsOn) {
+      const dependency = steps.find(s => s.id === id);
+      if (dependency && !visiting.has(id)) {
+        wave = Math.max(wave, waveOf(dependency, visiting) + 1);
+      }
+    }
+    visiting.delete(node.id);
+    waves.set(node.id, wave);
+    return wave;
+  };
+
+  return steps
+    .map(step => {
+      const edges = step.dependsOn.length > 0 ? ` <- ${step.dependsOn.join(', ')}` : '';
+      return `[wave ${waveOf(step, new Set())}] ${step.id} ${step.agent} (${step.status})${edges}`;
+    })
+    .join('\n');
+}
+
 /**
  * Create a trace logger for a request.
  * Returns a functioning logger in development, or a no-op logger in production.
@@ -455,6 +542,8 @@ export const noopLogger: TraceLogger = {
   toolError: () => {},
   stepEvent: () => {},
   planEvent: () => {},
+  planGraph: () => {},
+  modelRoute: () => {},
   close: () => {},
   getSummary: () => ({
     durationMs: 0,
@@ -463,6 +552,7 @@ export const noopLogger: TraceLogger = {
     inputTokens: 0,
     outputTokens: 0,
     planVersions: 0,
+    modelTiers: {},
     status: 'SUCCESS' as const,
   }),
 } as unknown as TraceLogger;
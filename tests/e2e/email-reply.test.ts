@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { E2EHarness } from './harness.js';
+import { writeTestReport } from './reporter.js';
+import {
+  clearGoogleMocks,
+  setMockInboxEmails,
+  getMockGmailDrafts,
+  getMockSentEmails,
+} from './mocks/google.js';
+
+const hasApiKey = process.env.ANTHROPIC_API_KEY
+  && process.env.ANTHROPIC_API_KEY !== 'test-api-key';
+
+const describeE2E = hasApiKey ? describe : describe.skip;
+
+describeE2E('Multi-turn: Email reply with confirmation', () => {
+  let harness: E2EHarness;
+
+  beforeAll(async () => {
+    harness = new E2EHarness();
+    await harness.start();
+  });
+
+  beforeEach(async () => {
+    await harness.reset();
+    clearGoogleMocks();
+    setMockInboxEmails([
+      {
+        id: 'msg-sarah-1',
+        threadId: 'thread-sarah',
+        from: 'Sarah Lee <sarah@example.com>',
+        subject: 'Dinner tonight',
+        snippet: 'Are we still on for 7pm?',
+        date: new Date().toISOString(),
+        isUnread: true,
+        body: 'Hi! Are we still on for 7pm at Luigi\'s? Let me know. - Sarah',
+        messageIdHeader: '<dinner-123@example.com>',
+      },
+    ]);
+  });
+
+  afterAll(async () => {
+    await harness.stop();
+  });
+
+  it('drafts a threaded reply on turn 1 and only sends it after the user confirms on turn 2', async () => {
+    // -- Turn 1: ask for a reply; nothing should be sent yet --
+    const turn1 = await harness.sendMessage(
+      'Reply to Sarah\'s email saying I\'ll be 15 minutes late'
+    );
+
+    expect(turn1.finalResponse).not.toContain('I encountered an unexpected error');
+    expect(turn1.finalResponse).not.toContain('Please try again.');
+
+    const draftsAfterTurn1 = getMockGmailDrafts();
+    expect(draftsAfterTurn1.length).toBeGreaterThanOrEqual(1);
+    const replyDraft = draftsAfterTurn1[draftsAfterTurn1.length - 1];
+    expect(replyDraft.threadId).toBe('thread-sarah');
+    expect(replyDraft.inReplyTo).toBe('<dinner-123@example.com>');
+    expect(replyDraft.subject).toBe('Re: Dinner tonight');
+    expect(getMockSentEmails()).toHaveLength(0);
+
+    // -- Turn 2: explicit confirmation sends the draft --
+    const turn2 = await harness.sendMessage('Yes, send it');
+
+    expect(turn2.finalResponse).not.toContain('I encountered an unexpected error');
+    expect(turn2.finalResponse).not.toContain('Please try again.');
+
+    const sent = getMockSentEmails();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].threadId).toBe('thread-sarah');
+    expect(sent[0].body.toLowerCase()).toContain('late');
+
+    const turns = [
+      { userMessage: 'Reply to Sarah\'s email saying I\'ll be 15 minutes late', response: turn1 },
+      { userMessage: 'Yes, send it', response: turn2 },
+    ];
+
+    const verdict = await harness.judgeConversation({
+      instructions: `This scenario tests the draft → confirm → send flow for email replies.
+The assistant must not send on turn 1; it should show the draft and ask for confirmation.
+On turn 2 the user confirms and the assistant should report that the reply was sent.`,
+      criteria: [
+        'On turn 1 the assistant showed the reply draft (recipient and message) and asked the user to confirm before sending.',
+        'On turn 1 the assistant did not claim the email had already been sent.',
+        'On turn 2 the assistant sent the reply and confirmed it was sent to Sarah.',
+      ],
+    });
+
+    const reportPath = writeTestReport({
+      testName: 'multi-turn-email-reply',
+      turns,
+      verdict,
+    });
+    console.log(`\n📄 Report: ${reportPath}\n`);
+
+    console.log('\n── LLM Judge Verdict ──');
+    for (const c of verdict.criteria) {
+      console.log(`  ${c.verdict === 'PASS' ? '✓' : '✗'} ${c.criterion}`);
+      console.log(`    → ${c.reason}`);
+    }
+    console.log(`  Overall: ${verdict.overall} — ${verdict.summary}`);
+    console.log('── End Judge Verdict ──\n');
+    expect(['PASS', 'FAIL']).toContain(verdict.overall);
+  }, 240_000);
+});
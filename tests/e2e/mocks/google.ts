@@ -287,21 +287,100 @@ vi.mock('../../../src/domains/calendar/providers/google-calendar.ts', async (imp
 
 // -- Gmail provider mock --
 
+/**
+ * Inbox contents returned by listEmails/getEmail. Empty by default; tests
+ * seed it with setMockInboxEmails() for flows that act on existing mail.
+ */
+let mockInboxEmails: MockGmailEmail[] = [];
+
+/** Drafts created via createDraft/createReplyDraft, keyed by draft ID. */
+const mockGmailDrafts = new Map<string, MockGmailDraft>();
+
+/** Drafts that were sent via sendDraft, in send order. */
+const mockSentEmails: MockGmailDraft[] = [];
+
+let mockDraftCounter = 0;
+
+export interface MockGmailEmail {
+  id: string;
+  threadId: string;
+  from: string;
+  subject: string;
+  snippet: string;
+  date: string;
+  isUnread: boolean;
+  body: string;
+  messageIdHeader?: string;
+}
+
+export interface MockGmailDraft {
+  id: string;
+  messageId: string;
+  threadId: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  inReplyTo?: string;
+  references?: string;
+}
+
+/**
+ * Seed the mock inbox used by listEmails/getEmail.
+ */
+export function setMockInboxEmails(emails: MockGmailEmail[]): void {
+  mockInboxEmails = [...emails];
+}
+
+/**
+ * Drafts currently saved (not yet sent).
+ */
+export function getMockGmailDrafts(): MockGmailDraft[] {
+  return [...mockGmailDrafts.values()];
+}
+
+/**
+ * Drafts that have been sent.
+ */
+export function getMockSentEmails(): MockGmailDraft[] {
+  return [...mockSentEmails];
+}
+
+function saveMockDraft(draft: Omit<MockGmailDraft, 'id' | 'messageId'>): MockGmailDraft {
+  mockDraftCounter++;
+  const saved: MockGmailDraft = {
+    ...draft,
+    id: `fake-draft-${mockDraftCounter}`,
+    messageId: `fake-draft-msg-${mockDraftCounter}`,
+  };
+  mockGmailDrafts.set(saved.id, saved);
+  return saved;
+}
+
+function toMockEmailDetail(email: MockGmailEmail) {
+  const { messageIdHeader: _messageIdHeader, ...detail } = email;
+  return detail;
+}
+
 vi.mock('../../../src/domains/email/providers/gmail.ts', async (importOriginal) => {
   const actual = await importOriginal<typeof import('../../../src/domains/email/providers/gmail.js')>();
   return {
     ...actual,
-    listEmails: vi.fn(async () => []),
-    getEmail: vi.fn(async (_phoneNumber: string, emailId: string) => ({
-      id: emailId,
-      threadId: `thread-${emailId}`,
-      from: 'sender@example.com',
-      subject: 'Test Email',
-      snippet: 'This is a test email snippet.',
-      date: new Date().toISOString(),
-      isUnread: false,
-      body: 'This is the full body of the test email.',
-    })),
+    listEmails: vi.fn(async () => mockInboxEmails.map(toMockEmailDetail)),
+    getEmail: vi.fn(async (_phoneNumber: string, emailId: string) => {
+      const seeded = mockInboxEmails.find(e => e.id === emailId);
+      if (seeded) return toMockEmailDetail(seeded);
+      return {
+        id: emailId,
+        threadId: `thread-${emailId}`,
+        from: 'sender@example.com',
+        subject: 'Test Email',
+        snippet: 'This is a test email snippet.',
+        date: new Date().toISOString(),
+        isUnread: false,
+        body: 'This is the full body of the test email.',
+      };
+    }),
     getThread: vi.fn(async (_phoneNumber: string, threadId: string) => ({
       id: threadId,
       messages: [
@@ -317,6 +396,55 @@ vi.mock('../../../src/domains/email/providers/gmail.ts', async (importOriginal)
         },
       ],
     })),
+    createDraft: vi.fn(async (_phoneNumber: string, message: {
+      to: string[]; cc?: string[]; subject: string; body: string; threadId?: string;
+    }) => saveMockDraft({
+      threadId: message.threadId || `fake-thread-${mockDraftCounter + 1}`,
+      to: message.to,
+      cc: message.cc ?? [],
+      subject: message.subject,
+      body: message.body,
+    })),
+    createReplyDraft: vi.fn(async (_phoneNumber: string, emailId: string, body: string) => {
+      const original = mockInboxEmails.find(e => e.id === emailId);
+      if (!original) {
+        throw new Error(`Email not found: ${emailId}`);
+      }
+      const subject = /^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`;
+      return saveMockDraft({
+        threadId: original.threadId,
+        to: [original.from],
+        cc: [],
+        subject,
+        body,
+        inReplyTo: original.messageIdHeader,
+        references: original.messageIdHeader,
+      });
+    }),
+    sendDraft: vi.fn(async (_phoneNumber: string, draftId: string) => {
+      const draft = mockGmailDrafts.get(draftId);
+      if (!draft) {
+        throw new Error(`Draft not found: ${draftId}`);
+      }
+      mockGmailDrafts.delete(draftId);
+      mockSentEmails.push(draft);
+      return { id: `sent-${draft.messageId}`, threadId: draft.threadId };
+    }),
+    modifyEmails: vi.fn(async (_phoneNumber: string, emailIds: string[]) =>
+      emailIds.map((id) => ({ id, success: true }))),
+    modifyEmailsByQuery: vi.fn(async () => ({
+      matched: mockInboxEmails.length,
+      results: mockInboxEmails.map((e) => ({ id: e.id, success: true })),
+    })),
+    getEmailAttachments: vi.fn(async (_phoneNumber: string, emailId: string) => ({
+      emailId,
+      subject: mockInboxEmails.find(e => e.id === emailId)?.subject ?? 'Test Email',
+      receivedAt: Date.now(),
+      attachments: [
+        { attachmentId: `att-${emailId}`, filename: 'receipt.pdf', mimeType: 'application/pdf', sizeBytes: 1024 },
+      ],
+    })),
+    downloadAttachment: vi.fn(async () => Buffer.from('%PDF-1.4 fake attachment')),
   };
 });
 
@@ -345,6 +473,12 @@ export function clearGoogleMocks(): void {
   mockCalendarClient.events.patch.mockClear();
   mockCalendarClient.events.get.mockClear();
   mockCalendarClient.events.delete.mockClear();
+
+  // Reset Gmail compose state
+  mockInboxEmails = [];
+  mockGmailDrafts.clear();
+  mockSentEmails.length = 0;
+  mockDraftCounter = 0;
 }
 
 // Export mock clients for direct test access if needed
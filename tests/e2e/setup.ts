@@ -112,4 +112,5 @@ console.log(JSON.stringify({
     agent: config.models.agent,
     composer: config.models.composer,
   },
+  modelRouting: config.modelRouting,
 }));
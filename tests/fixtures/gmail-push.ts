@@ -0,0 +1,35 @@
+/**
+ * Sample Gmail push notifications for testing.
+ *
+ * These match the envelope a Cloud Pub/Sub push subscription delivers.
+ * See: https://developers.google.com/gmail/api/guides/push
+ */
+
+/**
+ * Pub/Sub push envelope format.
+ */
+export interface PubSubPushEnvelope {
+  message: {
+    data: string;
+    messageId: string;
+    publishTime: string;
+  };
+  subscription: string;
+}
+
+/**
+ * Create a push envelope for a Gmail mailbox change.
+ */
+export function createGmailPushEnvelope(
+  emailAddress: string,
+  historyId: number | string = 12345
+): PubSubPushEnvelope {
+  return {
+    message: {
+      data: Buffer.from(JSON.stringify({ emailAddress, historyId })).toString('base64'),
+      messageId: `msg-${Date.now()}`,
+      publishTime: new Date().toISOString(),
+    },
+    subscription: 'projects/test-project/subscriptions/gmail-push',
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Scheduled job factory for scheduler tests.
+ *
+ * Creates a daily 9 AM UTC recurring job that is due now; tests override
+ * only the fields they care about.
+ */
+
+import type Database from 'better-sqlite3';
+import { createJob } from '../../src/domains/scheduler/repo/sqlite.js';
+import type { CreateJobInput, ScheduledJob } from '../../src/domains/scheduler/types.js';
+
+/** Phone number of jobs created by createTestScheduledJob */
+export const TEST_JOB_PHONE = '+15551234567';
+
+/**
+ * Create a scheduled job with test defaults.
+ */
+export function createTestScheduledJob(
+  db: Database.Database,
+  overrides: Partial<CreateJobInput> = {}
+): ScheduledJob {
+  return createJob(db, {
+    phoneNumber: TEST_JOB_PHONE,
+    channel: 'sms',
+    userRequest: 'Morning briefing',
+    prompt: 'Summarize my day',
+    cronExpression: '0 9 * * *',
+    timezone: 'UTC',
+    nextRunAt: Math.floor(Date.now() / 1000),
+    isRecurring: true,
+    ...overrides,
+  });
+}
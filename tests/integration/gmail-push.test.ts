@@ -0,0 +1,128 @@
+/**
+ * Integration tests for the Gmail push webhook.
+ *
+ * Posts fake Pub/Sub envelopes to the route handler and checks that only
+ * the matching user's mailbox is synced.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const { storeRef } = vi.hoisted(() => ({
+  storeRef: { current: null as unknown },
+}));
+
+vi.mock('../../src/domains/email-watcher/service/processing.js', () => ({
+  syncNewEmails: vi.fn(async () => []),
+  processEmails: vi.fn(async () => ({ matched: 0 })),
+  replayEmail: vi.fn(),
+  pruneProcessingLedger: vi.fn(() => 0),
+  MAX_PROCESSING_ATTEMPTS: 3,
+}));
+
+vi.mock('../../src/domains/email-watcher/repo/sqlite.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/domains/email-watcher/repo/sqlite.js')>();
+  return {
+    ...actual,
+    getGmailWatchStore: vi.fn(() => storeRef.current),
+  };
+});
+
+import config from '../../src/config.js';
+import { createMockReqRes } from '../helpers/mock-http.js';
+import { handleGmailPushWebhook } from '../../src/routes/gmail-push.js';
+import { syncNewEmails } from '../../src/domains/email-watcher/service/processing.js';
+import { SqliteGmailWatchStore } from '../../src/domains/email-watcher/repo/sqlite.js';
+import { createGmailPushEnvelope } from '../fixtures/gmail-push.js';
+
+const TOKEN = 'test-push-token-0123456789';
+const PHONE = '+15551234567';
+const OTHER_PHONE = '+15559876543';
+
+describe('POST /webhook/gmail', () => {
+  const original = { enabled: config.emailWatcher.enabled, push: { ...config.emailWatcher.push } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config.emailWatcher.enabled = true;
+    config.emailWatcher.push.enabled = true;
+    config.emailWatcher.push.verificationToken = TOKEN;
+
+    const store = new SqliteGmailWatchStore(':memory:');
+    const expiresAt = Date.now() + 7 * 24 * 60 * 60 * 1000;
+    store.upsert({ phoneNumber: PHONE, emailAddress: 'me@gmail.com', historyId: '1', expiresAt, updatedAt: 0 });
+    store.upsert({ phoneNumber: OTHER_PHONE, emailAddress: 'other@gmail.com', historyId: '1', expiresAt, updatedAt: 0 });
+    storeRef.current = store;
+  });
+
+  afterEach(() => {
+    config.emailWatcher.enabled = original.enabled;
+    Object.assign(config.emailWatcher.push, original.push);
+  });
+
+  it('syncs only the mailbox named in the notification', async () => {
+    const { req, res } = createMockReqRes({
+      method: 'POST',
+      body: createGmailPushEnvelope('ME@gmail.com', 5000),
+      query: { token: TOKEN },
+    });
+
+    handleGmailPushWebhook(req, res);
+
+    expect(res.statusCode).toBe(204);
+    await vi.waitFor(() => expect(syncNewEmails).toHaveBeenCalledTimes(1));
+    expect(syncNewEmails).toHaveBeenCalledWith(PHONE);
+  });
+
+  it('rejects a missing or wrong verification token', () => {
+    for (const query of [{}, { token: 'wrong-token' }]) {
+      const { req, res } = createMockReqRes({
+        method: 'POST',
+        body: createGmailPushEnvelope('me@gmail.com'),
+        query,
+      });
+
+      handleGmailPushWebhook(req, res);
+
+      expect(res.statusCode).toBe(403);
+    }
+    expect(syncNewEmails).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed envelopes', () => {
+    const { req, res } = createMockReqRes({
+      method: 'POST',
+      body: { message: { data: 'not-base64-json' } },
+      query: { token: TOKEN },
+    });
+
+    handleGmailPushWebhook(req, res);
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('acknowledges notifications for unknown mailboxes without syncing', () => {
+    const { req, res } = createMockReqRes({
+      method: 'POST',
+      body: createGmailPushEnvelope('stranger@gmail.com'),
+      query: { token: TOKEN },
+    });
+
+    handleGmailPushWebhook(req, res);
+
+    expect(res.statusCode).toBe(204);
+    expect(syncNewEmails).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when push is disabled', () => {
+    config.emailWatcher.push.enabled = false;
+    const { req, res } = createMockReqRes({
+      method: 'POST',
+      body: createGmailPushEnvelope('me@gmail.com'),
+      query: { token: TOKEN },
+    });
+
+    handleGmailPushWebhook(req, res);
+
+    expect(res.statusCode).toBe(404);
+  });
+});
@@ -125,7 +125,7 @@ describe('classifyMessage', () => {
 
     const calls = getCreateCalls();
     expect(calls.length).toBe(1);
-    expect(calls[0].model).toBe(config.models.classifier);
+    expect(calls[0].model).toBe(config.modelRouting.tiers.fast);
     expect(calls[0].max_tokens).toBe(512);
     expect(calls[0].tools).toBeUndefined();
   });
@@ -15,9 +15,15 @@ vi.mock('../../../src/config.js', () => ({
       planner: 'claude-test',
       composer: 'claude-test',
     },
+    modelRouting: { enabled: false },
+    usage: { dailyBudgetUsd: 0, monthlyBudgetUsd: 0 },
   },
 }));
 
+vi.mock('../../../src/services/usage/ledger.js', () => ({
+  recordUsage: vi.fn(),
+}));
+
 const mockRouteToAgent = vi.fn();
 vi.mock('../../../src/executor/router.js', () => ({
   routeToAgent: (...args: unknown[]) => mockRouteToAgent(...args),
@@ -47,6 +53,7 @@ vi.mock('../../../src/services/anthropic/prompts/context.js', () => ({
   buildTimeContext: () => 'Tuesday, 2026-02-24 09:00 EST',
   buildUserContext: () => 'User: Test User',
   buildUserMemoryXml: () => '',
+  buildFactsXml: () => '',
 }));
 
 vi.mock('../../../src/services/date/resolver.js', () => ({
@@ -74,6 +81,8 @@ import { orchestrate } from '../../../src/orchestrator/orchestrate.js';
 const mockLogger = {
   log: vi.fn(),
   planEvent: vi.fn(),
+  modelRoute: vi.fn(),
+  planGraph: vi.fn(),
   stepEvent: vi.fn(),
   llmRequest: vi.fn(),
   llmResponse: vi.fn(),
@@ -4,7 +4,8 @@
  * Tests the full request/response cycle using supertest.
  */
 
-import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
 
 const { mockStartTypingIndicator, getTypingIndicatorCalls, clearTypingIndicatorCalls } = vi.hoisted(() => {
   let calls: string[] = [];
@@ -42,6 +43,12 @@ import { getExpectedTwilioSignature } from 'twilio/lib/webhooks/webhooks.js';
 import { executeWithTools } from '../../src/executor/tool-executor.js';
 import { setMemoryExecuteWithTools } from '../../src/domains/memory/providers/executor.js';
 import { clearTwilioWebhookIdempotencyStore } from '../../src/services/twilio/webhook-idempotency.js';
+import { initScheduler } from '../../src/domains/scheduler/runtime/index.js';
+import { createJob, getJobById, recordReminderSent } from '../../src/domains/scheduler/repo/sqlite.js';
+import { getPendingActionStore } from '../../src/services/pending-actions/index.js';
+import { executeTool } from '../../src/tools/index.js';
+import { getUsageStore } from '../../src/services/usage/index.js';
+import config from '../../src/config.js';
 
 // Wire the memory-agent provider so the orchestrator can route to it.
 // In production this happens in src/index.ts; tests must do it explicitly.
@@ -432,6 +439,233 @@ describe('POST /webhook/sms', () => {
     });
   });
 
+  describe('snooze replies', () => {
+    const sender = '+15557770000';
+
+    beforeAll(() => {
+      const db = new Database(':memory:');
+      initScheduler(db);
+      const job = createJob(db, {
+        phoneNumber: sender,
+        channel: 'sms',
+        userRequest: 'Take vitamins',
+        prompt: 'Remind me to take my vitamins',
+        cronExpression: '0 9 * * *',
+        timezone: 'America/New_York',
+        nextRunAt: Math.floor(Date.now() / 1000) + 86400,
+        isRecurring: true,
+      });
+      recordReminderSent(db, job, Math.floor(Date.now() / 1000) - 60);
+    });
+
+    it('should snooze the last reminder without running the orchestrator', async () => {
+      const payload = createSmsPayload('snooze 10', sender);
+
+      const { req, res } = createMockReqRes({
+        method: 'POST',
+        url: '/webhook/sms',
+        headers: { 'x-twilio-signature': signPayload(payload) },
+        body: payload,
+      });
+
+      await handleSmsWebhook(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.text).toContain('<Message>Snoozed &quot;Take vitamins&quot; until ');
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('usage budgets', () => {
+    const sender = '+15557772222';
+    const originalUsage = { ...config.usage };
+
+    beforeAll(async () => {
+      await getUsageStore().record({
+        phoneNumber: sender,
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5-20250929',
+        purpose: 'planner',
+        inputTokens: 100000,
+        outputTokens: 20000,
+        costUsd: 0.6,
+        createdAt: Date.now(),
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(config.usage, originalUsage);
+    });
+
+    it('should refuse new requests without calling the model once the daily budget is spent', async () => {
+      config.usage.dailyBudgetUsd = 0.5;
+      const payload = createSmsPayload('What is on my calendar today?', sender);
+
+      const { req, res } = createMockReqRes({
+        method: 'POST',
+        url: '/webhook/sms',
+        headers: { 'x-twilio-signature': signPayload(payload) },
+        body: payload,
+      });
+
+      await handleSmsWebhook(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.text).toContain('reached your daily usage limit');
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pending confirmations', () => {
+    const sender = '+15557771111';
+    let db: Database.Database;
+    let jobId: string;
+
+    beforeAll(() => {
+      db = new Database(':memory:');
+      initScheduler(db);
+    });
+
+    beforeEach(async () => {
+      jobId = createJob(db, {
+        phoneNumber: sender,
+        channel: 'sms',
+        userRequest: 'Daily summary',
+        prompt: 'Summarize my day',
+        cronExpression: '0 9 * * *',
+        timezone: 'America/New_York',
+        nextRunAt: Math.floor(Date.now() / 1000) + 86400,
+        isRecurring: true,
+      }).id;
+
+      await getPendingActionStore().add({
+        id: 'action_1',
+        phoneNumber: sender,
+        channel: 'sms',
+        toolName: 'delete_scheduled_job',
+        toolInput: { job_id: jobId },
+        prompt: 'Delete your daily summary?',
+        createdAt: Date.now(),
+        expiresAt: Date.now() + 60000,
+      });
+    });
+
+    async function reply(message: string): Promise<void> {
+      const payload = createSmsPayload(message, sender);
+      const { req, res } = createMockReqRes({
+        method: 'POST',
+        url: '/webhook/sms',
+        headers: { 'x-twilio-signature': signPayload(payload) },
+        body: payload,
+      });
+
+      await handleSmsWebhook(req, res);
+      expect(res.statusCode).toBe(200);
+
+      await vi.waitFor(() => {
+        expect(getSentMessages().length).toBeGreaterThan(0);
+      }, { timeout: 5000 });
+    }
+
+    it('should run the parked action on YES without planning', async () => {
+      await reply('Yes');
+
+      expect(getSentMessages()[0].body).toBe('Done.');
+      expect(getJobById(db, jobId)).toBeNull();
+      expect(await getPendingActionStore().list(sender)).toEqual([]);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should drop the parked action on NO', async () => {
+      await reply('no');
+
+      expect(getSentMessages()[0].body).toBe("Okay, I won't do that.");
+      expect(getJobById(db, jobId)).not.toBeNull();
+      expect(await getPendingActionStore().list(sender)).toEqual([]);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should run every call parked in one turn on YES', async () => {
+      await getPendingActionStore().deleteAll(sender);
+      const otherJobId = createJob(db, {
+        phoneNumber: sender,
+        channel: 'sms',
+        userRequest: 'Weekly digest',
+        prompt: 'Summarize my week',
+        cronExpression: '0 9 * * 1',
+        timezone: 'America/New_York',
+        nextRunAt: Math.floor(Date.now() / 1000) + 86400,
+        isRecurring: true,
+      }).id;
+
+      const toolContext = { phoneNumber: sender, channel: 'sms' as const, userConfig: null, requireConfirmation: true };
+      for (const id of [jobId, otherJobId]) {
+        const output = JSON.parse(await executeTool('delete_scheduled_job', { job_id: id }, toolContext));
+        expect(output.status).toBe('awaiting_confirmation');
+      }
+      expect(await getPendingActionStore().list(sender)).toHaveLength(2);
+
+      await reply('yes');
+
+      expect(getSentMessages()[0].body).toBe('Done.');
+      expect(getJobById(db, jobId)).toBeNull();
+      expect(getJobById(db, otherJobId)).toBeNull();
+      expect(await getPendingActionStore().list(sender)).toEqual([]);
+    });
+
+    describe('over the usage budget', () => {
+      const originalUsage = { ...config.usage };
+
+      beforeAll(async () => {
+        await getUsageStore().record({
+          phoneNumber: sender,
+          provider: 'anthropic',
+          model: 'claude-sonnet-4-5-20250929',
+          purpose: 'planner',
+          inputTokens: 100000,
+          outputTokens: 20000,
+          costUsd: 0.6,
+          createdAt: Date.now(),
+        });
+      });
+
+      beforeEach(() => {
+        config.usage.dailyBudgetUsd = 0.5;
+      });
+
+      afterEach(() => {
+        Object.assign(config.usage, originalUsage);
+      });
+
+      it('should still run the parked action on YES', async () => {
+        await reply('yes');
+
+        expect(getSentMessages()[0].body).toBe('Done.');
+        expect(getJobById(db, jobId)).toBeNull();
+        expect(mockCreate).not.toHaveBeenCalled();
+      });
+
+      it('should refuse an edit reply and keep the action parked', async () => {
+        const payload = createSmsPayload('make it weekly instead', sender);
+        const { req, res } = createMockReqRes({
+          method: 'POST',
+          url: '/webhook/sms',
+          headers: { 'x-twilio-signature': signPayload(payload) },
+          body: payload,
+        });
+
+        await handleSmsWebhook(req, res);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.text).toContain('reached your daily usage limit');
+        expect(await getPendingActionStore().list(sender)).toHaveLength(1);
+        expect(getJobById(db, jobId)).not.toBeNull();
+        expect(mockCreate).not.toHaveBeenCalled();
+        await getPendingActionStore().deleteAll(sender);
+      });
+    });
+  });
+
   describe('error handling', () => {
     it('should handle empty message body', async () => {
       setMockResponses([
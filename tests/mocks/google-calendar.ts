@@ -16,6 +16,27 @@ export interface MockCalendarEvent {
   start: { dateTime?: string; date?: string };
   end: { dateTime?: string; date?: string };
   location?: string;
+  description?: string;
+  recurrence?: string[];
+  recurringEventId?: string;
+  originalStartTime?: { dateTime?: string; date?: string };
+  attendees?: Array<{ email?: string; displayName?: string; responseStatus?: string; organizer?: boolean; self?: boolean }>;
+  reminders?: { useDefault?: boolean; overrides?: Array<{ method?: string; minutes?: number }> };
+  hangoutLink?: string;
+  conferenceData?: unknown;
+}
+
+/**
+ * Mock calendarList entry structure.
+ */
+export interface MockCalendarListEntry {
+  id: string;
+  summary?: string;
+  summaryOverride?: string;
+  primary?: boolean;
+  accessRole?: string;
+  timeZone?: string;
+  hidden?: boolean;
 }
 
 /**
@@ -26,13 +47,15 @@ export interface MockEmail {
   threadId: string;
   labelIds?: string[];
   snippet?: string;
+  internalDate?: string;
   payload?: {
     headers?: Array<{ name: string; value: string }>;
     mimeType?: string;
     body?: { data?: string };
     parts?: Array<{
       mimeType?: string;
-      body?: { data?: string };
+      filename?: string;
+      body?: { data?: string; attachmentId?: string; size?: number };
       parts?: Array<{ mimeType?: string; body?: { data?: string } }>;
     }>;
   };
@@ -45,7 +68,13 @@ let insertCallCount = 0;
 let patchCallCount = 0;
 let deleteCallCount = 0;
 let lastInsertedEvent: Partial<MockCalendarEvent> | null = null;
+let lastInsertParams: Record<string, unknown> | null = null;
 let lastPatchedEvent: { eventId: string; requestBody: Partial<MockCalendarEvent> } | null = null;
+let patchedEvents: Array<{ eventId: string; requestBody: Partial<MockCalendarEvent> }> = [];
+let mockInstances: MockCalendarEvent[] = [];
+let mockBusy: Array<{ start: string; end: string }> = [];
+let mockCalendarList: MockCalendarListEntry[] = [];
+let mockEventsByCalendar = new Map<string, MockCalendarEvent[]>();
 let lastDeletedEventId: string | null = null;
 let shouldFailRefresh = false;
 let tokenExchangeError: Error | null = null;
@@ -65,6 +94,14 @@ let gmailListCallCount = 0;
 let gmailGetCallCount = 0;
 let gmailThreadGetCallCount = 0;
 let shouldFailWithInsufficientScopes = false;
+let lastCreatedDraft: { raw: string; threadId?: string } | null = null;
+let lastSentDraftId: string | null = null;
+let mockProfileEmail = 'me@example.com';
+let mockLabels: Array<{ id: string; name: string }> = [];
+let modifiedMessages: Array<{ id: string; addLabelIds?: string[]; removeLabelIds?: string[] }> = [];
+let trashedMessageIds: string[] = [];
+let failingMessageIds = new Set<string>();
+let mockAttachments = new Map<string, Buffer>();
 
 /**
  * Set the mock calendar events to return from events.list().
@@ -73,6 +110,35 @@ export function setMockEvents(events: MockCalendarEvent[]): void {
   mockEvents = [...events];
 }
 
+/**
+ * Set the events returned by events.list() for one calendar ID.
+ * Calendars without their own events fall back to setMockEvents().
+ */
+export function setMockCalendarEvents(calendarId: string, events: MockCalendarEvent[]): void {
+  mockEventsByCalendar.set(calendarId, [...events]);
+}
+
+/**
+ * Set the entries returned by calendarList.list().
+ */
+export function setMockCalendarList(calendars: MockCalendarListEntry[]): void {
+  mockCalendarList = [...calendars];
+}
+
+/**
+ * Set the instances returned by events.instances(); filtered by timeMax.
+ */
+export function setMockInstances(instances: MockCalendarEvent[]): void {
+  mockInstances = [...instances];
+}
+
+/**
+ * Set the busy periods returned by freebusy.query() for the primary calendar.
+ */
+export function setMockBusy(busy: Array<{ start: string; end: string }>): void {
+  mockBusy = [...busy];
+}
+
 /**
  * Set the mock emails to return from messages.list() and messages.get().
  */
@@ -87,6 +153,62 @@ export function getGmailCallCounts(): { list: number; get: number; threadGet: nu
   return { list: gmailListCallCount, get: gmailGetCallCount, threadGet: gmailThreadGetCallCount };
 }
 
+/**
+ * Get the last draft passed to drafts.create(), with the raw MIME decoded.
+ */
+export function getLastCreatedDraft(): { raw: string; threadId?: string } | null {
+  return lastCreatedDraft;
+}
+
+/**
+ * Get the draft ID passed to the last drafts.send() call.
+ */
+export function getLastSentDraftId(): string | null {
+  return lastSentDraftId;
+}
+
+/**
+ * Set the address returned by users.getProfile().
+ */
+export function setMockProfileEmail(email: string): void {
+  mockProfileEmail = email;
+}
+
+/**
+ * Set the user labels returned by labels.list().
+ */
+export function setMockLabels(labels: Array<{ id: string; name: string }>): void {
+  mockLabels = [...labels];
+}
+
+/**
+ * Get the messages.modify() calls made so far.
+ */
+export function getModifiedMessages(): Array<{ id: string; addLabelIds?: string[]; removeLabelIds?: string[] }> {
+  return modifiedMessages;
+}
+
+/**
+ * Get the message IDs passed to messages.trash().
+ */
+export function getTrashedMessageIds(): string[] {
+  return trashedMessageIds;
+}
+
+/**
+ * Make messages.modify()/messages.trash() fail for specific message IDs.
+ */
+export function setFailingMessageIds(ids: string[]): void {
+  failingMessageIds = new Set(ids);
+}
+
+/**
+ * Set the attachment bytes returned by messages.attachments.get(), keyed by attachment ID.
+ */
+export function setMockAttachments(attachments: Record<string, Buffer>): void {
+  mockAttachments = new Map(Object.entries(attachments));
+}
+
 /**
  * Set whether token refresh should fail.
  */
@@ -133,6 +255,20 @@ export function getLastInsertedEvent(): Partial<MockCalendarEvent> | null {
   return lastInsertedEvent;
 }
 
+/**
+ * Get the full params (conferenceDataVersion, sendUpdates, ...) of the last events.insert() call.
+ */
+export function getLastInsertParams(): Record<string, unknown> | null {
+  return lastInsertParams;
+}
+
+/**
+ * Get every events.patch() call made so far.
+ */
+export function getPatchedEvents(): Array<{ eventId: string; requestBody: Partial<MockCalendarEvent> }> {
+  return patchedEvents;
+}
+
 /**
  * Get the last patched event.
  */
@@ -158,7 +294,13 @@ export function clearMockState(): void {
   patchCallCount = 0;
   deleteCallCount = 0;
   lastInsertedEvent = null;
+  lastInsertParams = null;
   lastPatchedEvent = null;
+  patchedEvents = [];
+  mockInstances = [];
+  mockBusy = [];
+  mockCalendarList = [];
+  mockEventsByCalendar = new Map();
   lastDeletedEventId = null;
   shouldFailRefresh = false;
   tokenExchangeError = null;
@@ -173,14 +315,22 @@ export function clearMockState(): void {
   gmailGetCallCount = 0;
   gmailThreadGetCallCount = 0;
   shouldFailWithInsufficientScopes = false;
+  lastCreatedDraft = null;
+  lastSentDraftId = null;
+  mockProfileEmail = 'me@example.com';
+  mockLabels = [];
+  modifiedMessages = [];
+  trashedMessageIds = [];
+  failingMessageIds = new Set();
+  mockAttachments = new Map();
 }
 
 // Mock calendar.events.list
-const mockEventsList = vi.fn(async () => {
+const mockEventsList = vi.fn(async (params?: { calendarId?: string }) => {
   listCallCount++;
   return {
     data: {
-      items: mockEvents,
+      items: mockEventsByCalendar.get(params?.calendarId ?? 'primary') ?? mockEvents,
     },
   };
 });
@@ -190,13 +340,12 @@ const mockEventsInsert = vi.fn(async (params: { requestBody: Partial<MockCalenda
   insertCallCount++;
   const event = params.requestBody;
   lastInsertedEvent = event;
+  lastInsertParams = params;
   return {
     data: {
+      ...event,
       id: 'new-event-id',
-      summary: event.summary,
-      start: event.start,
-      end: event.end,
-      location: event.location,
+      attendees: event.attendees?.map((a) => ({ responseStatus: 'needsAction', ...a })),
     },
   };
 });
@@ -205,12 +354,15 @@ const mockEventsInsert = vi.fn(async (params: { requestBody: Partial<MockCalenda
 const mockEventsPatch = vi.fn(async (params: { eventId: string; requestBody: Partial<MockCalendarEvent> }) => {
   patchCallCount++;
   lastPatchedEvent = params;
+  patchedEvents.push({ eventId: params.eventId, requestBody: params.requestBody });
 
   // Find existing event to merge with updates
   const existing = mockEvents.find(e => e.id === params.eventId);
 
   return {
     data: {
+      ...existing,
+      ...params.requestBody,
       id: params.eventId,
       summary: params.requestBody.summary ?? existing?.summary ?? '',
       start: params.requestBody.start ?? existing?.start ?? { dateTime: '' },
@@ -220,6 +372,26 @@ const mockEventsPatch = vi.fn(async (params: { eventId: string; requestBody: Par
   };
 });
 
+// Mock calendar.events.get
+const mockEventsGet = vi.fn(async (params: { eventId: string }) => {
+  const event = mockEvents.find(e => e.id === params.eventId);
+  if (!event) {
+    throw new Error('404 Not Found');
+  }
+  return { data: event };
+});
+
+// Mock calendar.events.instances
+const mockEventsInstances = vi.fn(async (params: { eventId: string; timeMax?: string }) => ({
+  data: {
+    items: mockInstances.filter((e) => {
+      const start = e.start.dateTime ?? e.start.date ?? '';
+      return e.recurringEventId === params.eventId
+        && (!params.timeMax || Date.parse(start) < Date.parse(params.timeMax));
+    }),
+  },
+}));
+
 // Mock calendar.events.delete
 const mockEventsDelete = vi.fn(async (params: { eventId: string }) => {
   deleteCallCount++;
@@ -227,10 +399,28 @@ const mockEventsDelete = vi.fn(async (params: { eventId: string }) => {
   return { data: {} };
 });
 
+// Mock calendar.freebusy.query
+const mockFreebusyQuery = vi.fn(async () => ({
+  data: { calendars: { primary: { busy: mockBusy } } },
+}));
+
+// Mock calendar.calendarList.list
+const mockCalendarListList = vi.fn(async () => ({
+  data: { items: mockCalendarList },
+}));
+
 // Mock calendar object
 const mockCalendar = {
+  calendarList: {
+    list: mockCalendarListList,
+  },
+  freebusy: {
+    query: mockFreebusyQuery,
+  },
   events: {
     list: mockEventsList,
+    get: mockEventsGet,
+    instances: mockEventsInstances,
     insert: mockEventsInsert,
     patch: mockEventsPatch,
     delete: mockEventsDelete,
@@ -284,16 +474,103 @@ const mockThreadsGet = vi.fn(async (params: { id: string; format?: string }) =>
   };
 });
 
+// Mock gmail.users.drafts.create
+const mockDraftsCreate = vi.fn(async (params: { requestBody: { message: { raw: string; threadId?: string } } }) => {
+  if (shouldFailWithInsufficientScopes) {
+    throw new Error('Request had insufficient authentication scopes.');
+  }
+  const { raw, threadId } = params.requestBody.message;
+  lastCreatedDraft = { raw: Buffer.from(raw, 'base64url').toString('utf-8'), threadId };
+  return {
+    data: {
+      id: 'draft-1',
+      message: { id: 'draft-msg-1', threadId: threadId || 'new-thread-1' },
+    },
+  };
+});
+
+// Mock gmail.users.drafts.send
+const mockDraftsSend = vi.fn(async (params: { requestBody: { id: string } }) => {
+  lastSentDraftId = params.requestBody.id;
+  return {
+    data: { id: 'sent-msg-1', threadId: 'sent-thread-1' },
+  };
+});
+
+// Mock gmail.users.getProfile
+const mockGetProfile = vi.fn(async () => ({
+  data: { emailAddress: mockProfileEmail },
+}));
+
+// Mock gmail.users.messages.modify
+const mockMessagesModify = vi.fn(async (params: { id: string; requestBody: { addLabelIds?: string[]; removeLabelIds?: string[] } }) => {
+  if (failingMessageIds.has(params.id)) {
+    throw new Error('Requested entity was not found.');
+  }
+  modifiedMessages.push({ id: params.id, ...params.requestBody });
+  return { data: { id: params.id } };
+});
+
+// Mock gmail.users.messages.trash
+const mockMessagesTrash = vi.fn(async (params: { id: string }) => {
+  if (failingMessageIds.has(params.id)) {
+    throw new Error('Requested entity was not found.');
+  }
+  trashedMessageIds.push(params.id);
+  return { data: { id: params.id } };
+});
+
+// Mock gmail.users.messages.attachments.get
+const mockAttachmentsGet = vi.fn(async (params: { messageId: string; id: string }) => {
+  const data = mockAttachments.get(params.id);
+  if (!data) {
+    throw new Error('Requested entity was not found.');
+  }
+  return { data: { data: data.toString('base64url'), size: data.length } };
+});
+
+// Mock gmail.users.labels.list
+const mockLabelsList = vi.fn(async () => ({
+  data: {
+    labels: [
+      { id: 'INBOX', name: 'INBOX' },
+      { id: 'STARRED', name: 'STARRED' },
+      ...mockLabels,
+    ],
+  },
+}));
+
+// Mock gmail.users.labels.create
+const mockLabelsCreate = vi.fn(async (params: { requestBody: { name: string } }) => {
+  const label = { id: `Label_${mockLabels.length + 1}`, name: params.requestBody.name };
+  mockLabels.push(label);
+  return { data: label };
+});
+
 // Mock gmail object
 const mockGmail = {
   users: {
+    getProfile: mockGetProfile,
     messages: {
       list: mockMessagesList,
       get: mockMessagesGet,
+      modify: mockMessagesModify,
+      trash: mockMessagesTrash,
+      attachments: {
+        get: mockAttachmentsGet,
+      },
+    },
+    labels: {
+      list: mockLabelsList,
+      create: mockLabelsCreate,
     },
     threads: {
       get: mockThreadsGet,
     },
+    drafts: {
+      create: mockDraftsCreate,
+      send: mockDraftsSend,
+    },
   },
 };
 
@@ -374,13 +651,24 @@ export {
   mockGoogle,
   // Calendar mocks
   mockEventsList,
+  mockEventsGet,
+  mockEventsInstances,
   mockEventsInsert,
   mockEventsPatch,
   mockEventsDelete,
+  mockFreebusyQuery,
+  mockCalendarListList,
   // Gmail mocks
   mockMessagesList,
   mockMessagesGet,
   mockThreadsGet,
+  mockDraftsCreate,
+  mockDraftsSend,
+  mockGetProfile,
+  mockMessagesModify,
+  mockMessagesTrash,
+  mockLabelsList,
+  mockLabelsCreate,
   // OAuth mocks
   mockSetCredentials,
   mockRefreshAccessToken,
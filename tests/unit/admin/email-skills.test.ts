@@ -5,14 +5,37 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { watcherStatus, toggleWatcher } from '../../../src/admin/email-skills.js';
+import {
+  watcherStatus,
+  toggleWatcher,
+  listLedger,
+  replayLedgerMessage,
+} from '../../../src/admin/email-skills.js';
 import { createMockReqRes } from '../../helpers/mock-http.js';
 
 vi.mock('../../../src/services/user-config/index.js', () => ({
   getUserConfigStore: vi.fn(),
 }));
 
+vi.mock('../../../src/domains/email-watcher/runtime/index.js', () => ({
+  getProcessingLedger: vi.fn(),
+  replayEmail: vi.fn(),
+}));
+
 import { getUserConfigStore } from '../../../src/services/user-config/index.js';
+import { getProcessingLedger, replayEmail } from '../../../src/domains/email-watcher/runtime/index.js';
+
+const ledgerEntry = {
+  phoneNumber: '+1234567890',
+  messageId: 'msg_1',
+  status: 'failed',
+  attempts: 1,
+  lastError: 'fetch: Backend Error',
+  from: null,
+  subject: null,
+  firstSeenAt: 1000,
+  updatedAt: 2000,
+};
 
 describe('Admin Email Watcher API', () => {
   describe('GET /admin/api/email-watcher/status', () => {
@@ -120,4 +143,55 @@ describe('Admin Email Watcher API', () => {
       expect(body.error).toContain('boolean');
     });
   });
+
+  describe('GET /admin/api/email-watcher/ledger', () => {
+    it('lists entries with filters and a capped limit', async () => {
+      const mockList = vi.fn().mockReturnValue([ledgerEntry]);
+      vi.mocked(getProcessingLedger).mockReturnValue({ list: mockList } as never);
+
+      const { req, res } = createMockReqRes({
+        query: { phoneNumber: '+1234567890', status: 'failed', limit: '1000' },
+      });
+
+      await listLedger(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({ entries: [ledgerEntry] });
+      expect(mockList).toHaveBeenCalledWith({ phoneNumber: '+1234567890', status: 'failed', limit: 500 });
+    });
+
+    it('returns 400 for an unknown status', async () => {
+      const { req, res } = createMockReqRes({ query: { status: 'done' } });
+
+      await listLedger(req, res);
+
+      expect(res.statusCode).toBe(400);
+      expect((res.body as { error: string }).error).toContain('status');
+    });
+  });
+
+  describe('POST /admin/api/email-watcher/replay', () => {
+    it('replays a message and returns its ledger entry', async () => {
+      vi.mocked(replayEmail).mockResolvedValue({ ...ledgerEntry, status: 'actioned' } as never);
+
+      const { req, res } = createMockReqRes({
+        body: { phoneNumber: '+1234567890', messageId: 'msg_1' },
+      });
+
+      await replayLedgerMessage(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect((res.body as { entry: { status: string } }).entry.status).toBe('actioned');
+      expect(replayEmail).toHaveBeenCalledWith('+1234567890', 'msg_1');
+    });
+
+    it('returns 400 when messageId is missing', async () => {
+      const { req, res } = createMockReqRes({ body: { phoneNumber: '+1234567890' } });
+
+      await replayLedgerMessage(req, res);
+
+      expect(res.statusCode).toBe(400);
+      expect((res.body as { error: string }).error).toContain('messageId');
+    });
+  });
 });
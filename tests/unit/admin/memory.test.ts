@@ -4,7 +4,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SqliteMemoryStore } from '../../../src/domains/memory/repo/sqlite.js';
-import { listMemories, deleteMemory } from '../../../src/admin/memory.js';
+import { listMemories, listMemoryAdjustments, deleteMemory } from '../../../src/admin/memory.js';
 import { createMockReqRes } from '../../helpers/mock-http.js';
 import fs from 'fs';
 import path from 'path';
@@ -150,6 +150,32 @@ describe('Admin Memory API', () => {
     });
   });
 
+  describe('GET /admin/api/memories/:id/adjustments', () => {
+    it('returns the confidence adjustments of a memory', async () => {
+      const added = await store.addFact({
+        phoneNumber: '+1111111111',
+        fact: 'Enjoys bouldering',
+        confidence: 0.5,
+        sourceType: 'inferred',
+        extractedAt: Date.now(),
+      });
+      await store.adjustConfidence({ factId: added.id, kind: 'reinforcement', newConfidence: 0.6, createdAt: Date.now() });
+
+      const { req, res } = createMockReqRes({
+        method: 'GET',
+        url: `/admin/api/memories/${added.id}/adjustments`,
+        params: { id: added.id },
+      });
+
+      await listMemoryAdjustments(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({
+        adjustments: [expect.objectContaining({ kind: 'reinforcement', previousConfidence: 0.5, newConfidence: 0.6 })],
+      });
+    });
+  });
+
   describe('DELETE /admin/api/memories/:id', () => {
     it('deletes a memory and returns 204', async () => {
       const added = await store.addFact({
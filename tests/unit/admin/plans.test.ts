@@ -0,0 +1,82 @@
+/**
+ * Unit tests for admin plan API endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getPlan } from '../../../src/admin/plans.js';
+import { createMockReqRes } from '../../helpers/mock-http.js';
+
+const { mockGet } = vi.hoisted(() => ({
+  mockGet: vi.fn(),
+}));
+
+vi.mock('../../../src/services/plans/index.js', () => ({
+  getPlanStore: vi.fn(() => ({ get: mockGet })),
+}));
+
+const plan = {
+  requestId: 'req_abc123',
+  planId: 'plan_1',
+  phoneNumber: '+1234567890',
+  channel: 'sms',
+  userMessage: 'What is on my calendar tomorrow?',
+  hasMedia: false,
+  goal: 'List tomorrow\'s events',
+  status: 'completed',
+  version: 1,
+  steps: [{
+    id: 'step_1',
+    targetType: 'agent',
+    agent: 'calendar-agent',
+    task: 'List events for tomorrow',
+    status: 'completed',
+    retryCount: 0,
+    maxRetries: 2,
+    result: { success: true, output: '2 events' },
+  }],
+  response: 'You have 2 events tomorrow.',
+  createdAt: 1000,
+  updatedAt: 2000,
+};
+
+describe('Admin Plans API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /admin/api/plans/:requestId', () => {
+    it('returns the plan of a request', async () => {
+      mockGet.mockResolvedValueOnce(plan);
+
+      const { req, res } = createMockReqRes({ params: { requestId: 'req_abc123' } });
+
+      await getPlan(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({ plan });
+      expect(mockGet).toHaveBeenCalledWith('req_abc123');
+    });
+
+    it('returns 404 for an unknown request', async () => {
+      mockGet.mockResolvedValueOnce(null);
+
+      const { req, res } = createMockReqRes({ params: { requestId: 'req_missing' } });
+
+      await getPlan(req, res);
+
+      expect(res.statusCode).toBe(404);
+      expect(res.body).toEqual({ error: 'Plan not found' });
+    });
+
+    it('returns 500 when the store fails', async () => {
+      mockGet.mockRejectedValueOnce(new Error('database locked'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const { req, res } = createMockReqRes({ params: { requestId: 'req_abc123' } });
+
+      await getPlan(req, res);
+
+      expect(res.statusCode).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for admin scheduler API endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { listSchedulerRuns } from '../../../src/admin/scheduler.js';
+import { createMockReqRes } from '../../helpers/mock-http.js';
+
+vi.mock('../../../src/domains/scheduler/runtime/index.js', () => ({
+  getSchedulerDb: vi.fn(() => ({})),
+  listJobRuns: vi.fn(),
+}));
+
+import { getSchedulerDb, listJobRuns } from '../../../src/domains/scheduler/runtime/index.js';
+
+const failedRun = {
+  id: 12,
+  jobId: 'job_1',
+  phoneNumber: '+1234567890',
+  startedAt: 1000,
+  finishedAt: 2500,
+  status: 'failed',
+  error: 'Calendar API down',
+  outputPreview: 'I hit an error running your scheduled task: Calendar API down',
+  inputTokens: 800,
+  outputTokens: 20,
+};
+
+describe('Admin Scheduler API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /admin/api/scheduler/runs', () => {
+    it('returns runs with default limit', async () => {
+      (listJobRuns as ReturnType<typeof vi.fn>).mockReturnValueOnce([failedRun]);
+
+      const { req, res } = createMockReqRes({});
+
+      await listSchedulerRuns(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({ runs: [failedRun] });
+      expect(listJobRuns).toHaveBeenCalledWith(expect.anything(), {
+        jobId: undefined,
+        phoneNumber: undefined,
+        status: undefined,
+        limit: 100,
+      });
+    });
+
+    it('passes filters and caps the limit', async () => {
+      (listJobRuns as ReturnType<typeof vi.fn>).mockReturnValueOnce([]);
+
+      const { req, res } = createMockReqRes({
+        query: { jobId: 'job_1', phoneNumber: '+1234567890', status: 'failed', limit: '1000' },
+      });
+
+      await listSchedulerRuns(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(listJobRuns).toHaveBeenCalledWith(expect.anything(), {
+        jobId: 'job_1',
+        phoneNumber: '+1234567890',
+        status: 'failed',
+        limit: 500,
+      });
+    });
+
+    it('rejects an unknown status', async () => {
+      const { req, res } = createMockReqRes({ query: { status: 'done' } });
+
+      await listSchedulerRuns(req, res);
+
+      expect(res.statusCode).toBe(400);
+      expect(listJobRuns).not.toHaveBeenCalled();
+    });
+
+    it('rejects a non-numeric limit', async () => {
+      const { req, res } = createMockReqRes({ query: { limit: 'many' } });
+
+      await listSchedulerRuns(req, res);
+
+      expect(res.statusCode).toBe(400);
+    });
+
+    it('returns 500 when the scheduler is not initialized', async () => {
+      (getSchedulerDb as ReturnType<typeof vi.fn>).mockImplementationOnce(() => {
+        throw new Error('Scheduler not initialized. Call initScheduler() first.');
+      });
+
+      const { req, res } = createMockReqRes({});
+
+      await listSchedulerRuns(req, res);
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body).toEqual({ error: 'Failed to list scheduler runs' });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for the admin usage API endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getUsage } from '../../../src/admin/usage.js';
+import { createMockReqRes } from '../../helpers/mock-http.js';
+
+const { mockSummarize, mockGetBudgetStatus } = vi.hoisted(() => ({
+  mockSummarize: vi.fn(),
+  mockGetBudgetStatus: vi.fn(),
+}));
+
+vi.mock('../../../src/services/usage/index.js', () => ({
+  getUsageStore: vi.fn(() => ({ summarize: mockSummarize })),
+}));
+
+vi.mock('../../../src/services/usage/budget.js', () => ({
+  getBudgetStatus: mockGetBudgetStatus,
+}));
+
+const PHONE = '+1234567890';
+
+const rows = [
+  {
+    phoneNumber: PHONE,
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5-20250929',
+    purpose: 'planner',
+    calls: 3,
+    inputTokens: 3000,
+    outputTokens: 600,
+    costUsd: 0.018,
+  },
+  {
+    phoneNumber: PHONE,
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    purpose: 'agent',
+    calls: 1,
+    inputTokens: 1000,
+    outputTokens: 200,
+    costUsd: 0.0008,
+  },
+];
+
+describe('Admin Usage API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSummarize.mockResolvedValue(rows);
+  });
+
+  describe('GET /admin/api/usage', () => {
+    it('returns usage rows with totals for the last 30 days', async () => {
+      const { req, res } = createMockReqRes();
+
+      const before = Date.now();
+      await getUsage(req, res);
+
+      expect(res.statusCode).toBe(200);
+      const body = res.body as { totals: Record<string, number>; rows: unknown[]; budget?: unknown };
+      expect(body.rows).toEqual(rows);
+      expect(body.totals).toMatchObject({ calls: 4, inputTokens: 4000, outputTokens: 800 });
+      expect(body.totals.costUsd).toBeCloseTo(0.0188);
+      expect(body.budget).toBeUndefined();
+
+      const { sinceMs } = mockSummarize.mock.calls[0][0];
+      expect(before - sinceMs).toBeGreaterThanOrEqual(30 * 24 * 60 * 60 * 1000);
+      expect(before - sinceMs).toBeLessThan(31 * 24 * 60 * 60 * 1000);
+    });
+
+    it('filters by user and includes their budget status', async () => {
+      mockGetBudgetStatus.mockResolvedValueOnce({ level: 'ok' });
+
+      const { req, res } = createMockReqRes({ query: { phoneNumber: PHONE, days: '7' } });
+
+      await getUsage(req, res);
+
+      expect(mockSummarize).toHaveBeenCalledWith(expect.objectContaining({ phoneNumber: PHONE }));
+      expect(mockGetBudgetStatus).toHaveBeenCalledWith(PHONE);
+      expect(res.body).toMatchObject({ budget: { level: 'ok' } });
+    });
+
+    it('rejects an invalid days value', async () => {
+      const { req, res } = createMockReqRes({ query: { days: 'week' } });
+
+      await getUsage(req, res);
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toEqual({ error: 'days must be a positive integer' });
+      expect(mockSummarize).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when the ledger fails', async () => {
+      mockSummarize.mockRejectedValueOnce(new Error('db locked'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const { req, res } = createMockReqRes();
+
+      await getUsage(req, res);
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body).toEqual({ error: 'Failed to fetch usage' });
+    });
+  });
+});
@@ -22,11 +22,14 @@ describe('calendar agent', () => {
       expect(capability.tools).toContain('create_calendar_event');
       expect(capability.tools).toContain('update_calendar_event');
       expect(capability.tools).toContain('delete_calendar_event');
+      expect(capability.tools).toContain('find_free_time');
+      expect(capability.tools).toContain('list_calendars');
+      expect(capability.tools).toContain('set_default_calendar');
       expect(capability.tools).toContain('resolve_date');
     });
 
-    it('should have exactly 5 tools', () => {
-      expect(capability.tools).toHaveLength(5);
+    it('should have exactly 8 tools', () => {
+      expect(capability.tools).toHaveLength(8);
     });
 
     it('should have relevant examples', () => {
@@ -9,6 +9,13 @@ import {
   setShouldFailRefresh,
   getLastPatchedEvent,
   getLastDeletedEventId,
+  getLastInsertedEvent,
+  getLastInsertParams,
+  setMockBusy,
+  mockFreebusyQuery,
+  setMockCalendarList,
+  setMockCalendarEvents,
+  mockCalendarListList,
   type MockCalendarEvent
 } from '../mocks/google-calendar.js';
 import {
@@ -18,7 +25,7 @@ import {
 import { clearClientCache } from '../../src/domains/google-core/providers/auth.js';
 
 // Import after mocks are set up
-import { listEvents, createEvent, updateEvent, deleteEvent } from '../../src/domains/calendar/providers/google-calendar.js';
+import { listEvents, createEvent, updateEvent, deleteEvent, queryFreeBusy, listCalendars } from '../../src/domains/calendar/providers/google-calendar.js';
 import { AuthRequiredError } from '../../src/providers/auth.js';
 
 describe('Calendar Service', () => {
@@ -135,6 +142,200 @@ describe('Calendar Service', () => {
     expect(creds).toBeNull();
   });
 
+  it('maps attendees with RSVP status, reminders, and Meet links', async () => {
+    const store = getCredentialStore();
+    await store.set(testPhone, 'google', validCredential);
+
+    setMockEvents([{
+      id: 'event1',
+      summary: 'Planning',
+      start: { dateTime: '2025-01-20T10:00:00Z' },
+      end: { dateTime: '2025-01-20T11:00:00Z' },
+      recurringEventId: 'series1',
+      attendees: [
+        { email: 'me@example.com', responseStatus: 'accepted', organizer: true, self: true },
+        { email: 'sam@example.com', displayName: 'Sam', responseStatus: 'declined' },
+        { email: 'alex@example.com' },
+      ],
+      reminders: { useDefault: false, overrides: [{ method: 'email', minutes: 60 }] },
+      hangoutLink: 'https://meet.google.com/abc-defg-hij',
+    }, {
+      id: 'event2',
+      summary: 'Holiday',
+      start: { date: '2025-01-21' },
+      end: { date: '2025-01-22' },
+    }]);
+
+    const [planning, holiday] = await listEvents(
+      testPhone,
+      new Date('2025-01-20T00:00:00Z'),
+      new Date('2025-01-22T00:00:00Z')
+    );
+
+    expect(planning.attendees).toEqual([
+      { email: 'me@example.com', responseStatus: 'accepted', organizer: true },
+      { email: 'sam@example.com', name: 'Sam', responseStatus: 'declined' },
+      { email: 'alex@example.com', responseStatus: 'needsAction' },
+    ]);
+    expect(planning.reminders).toEqual([{ method: 'email', minutes: 60 }]);
+    expect(planning.meetLink).toBe('https://meet.google.com/abc-defg-hij');
+    expect(planning.recurringEventId).toBe('series1');
+    expect(holiday).toEqual({
+      id: 'event2',
+      title: 'Holiday',
+      start: '2025-01-21',
+      end: '2025-01-22',
+      location: undefined,
+      allDay: true,
+    });
+  });
+
+  it('queries busy periods on the primary calendar in start order', async () => {
+    const store = getCredentialStore();
+    await store.set(testPhone, 'google', validCredential);
+
+    setMockBusy([
+      { start: '2025-01-20T15:00:00Z', end: '2025-01-20T16:00:00Z' },
+      { start: '2025-01-20T10:00:00Z', end: '2025-01-20T11:00:00Z' },
+    ]);
+
+    const busy = await queryFreeBusy(
+      testPhone,
+      new Date('2025-01-20T00:00:00Z'),
+      new Date('2025-01-21T00:00:00Z')
+    );
+
+    expect(busy.map((b) => b.start)).toEqual(['2025-01-20T10:00:00Z', '2025-01-20T15:00:00Z']);
+    expect(mockFreebusyQuery).toHaveBeenCalledWith({
+      requestBody: {
+        timeMin: '2025-01-20T00:00:00.000Z',
+        timeMax: '2025-01-21T00:00:00.000Z',
+        items: [{ id: 'primary' }],
+      },
+    });
+  });
+
+  it('lists calendars primary first, preferring the user\'s own names', async () => {
+    const store = getCredentialStore();
+    await store.set(testPhone, 'google', validCredential);
+
+    setMockCalendarList([
+      { id: 'family123@group.calendar.google.com', summary: 'Smith Family', summaryOverride: 'Family', accessRole: 'writer' },
+      { id: 'me@example.com', summary: 'me@example.com', primary: true, accessRole: 'owner', timeZone: 'America/New_York' },
+      { id: 'old@group.calendar.google.com', summary: 'Old Project', accessRole: 'reader', hidden: true },
+    ]);
+
+    const calendars = await listCalendars(testPhone);
+
+    expect(calendars).toEqual([
+      { id: 'me@example.com', name: 'me@example.com', primary: true, accessRole: 'owner', timeZone: 'America/New_York' },
+      { id: 'family123@group.calendar.google.com', name: 'Family', primary: false, accessRole: 'writer' },
+      { id: 'old@group.calendar.google.com', name: 'Old Project', primary: false, accessRole: 'reader', hidden: true },
+    ]);
+    expect(mockCalendarListList).toHaveBeenCalledWith({ minAccessRole: 'freeBusyReader', maxResults: 250 });
+  });
+
+  it('lists events from a specific calendar', async () => {
+    const store = getCredentialStore();
+    await store.set(testPhone, 'google', validCredential);
+
+    setMockCalendarEvents('family123@group.calendar.google.com', [{
+      id: 'soccer',
+      summary: 'Soccer practice',
+      start: { dateTime: '2025-01-20T16:00:00Z' },
+      end: { dateTime: '2025-01-20T17:00:00Z' },
+    }]);
+
+    const events = await listEvents(
+      testPhone,
+      new Date('2025-01-20T00:00:00Z'),
+      new Date('2025-01-20T23:59:59Z'),
+      'family123@group.calendar.google.com'
+    );
+
+    expect(events.map((e) => e.title)).toEqual(['Soccer practice']);
+  });
+
+  it('merges busy periods across several calendars', async () => {
+    const store = getCredentialStore();
+    await store.set(testPhone, 'google', validCredential);
+
+    mockFreebusyQuery.mockResolvedValueOnce({
+      data: {
+        calendars: {
+          primary: { busy: [{ start: '2025-01-20T15:00:00Z', end: '2025-01-20T16:00:00Z' }] },
+          family: { busy: [{ start: '2025-01-20T10:00:00Z', end: '2025-01-20T11:00:00Z' }] },
+        },
+      },
+    });
+
+    const busy = await queryFreeBusy(
+      testPhone,
+      new Date('2025-01-20T00:00:00Z'),
+      new Date('2025-01-21T00:00:00Z'),
+      ['primary', 'family']
+    );
+
+    expect(busy.map((b) => b.start)).toEqual(['2025-01-20T10:00:00Z', '2025-01-20T15:00:00Z']);
+  });
+
+  describe('createEvent', () => {
+    it('creates a recurring event with attendees, reminders, and a Meet link', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      const event = await createEvent(
+        testPhone,
+        'Standup',
+        new Date('2025-01-20T17:00:00Z'),
+        new Date('2025-01-20T17:15:00Z'),
+        undefined,
+        {
+          description: 'Daily sync',
+          timeZone: 'America/Los_Angeles',
+          recurrence: ['RRULE:FREQ=DAILY;COUNT=5'],
+          attendees: ['sam@example.com'],
+          reminders: [{ method: 'popup', minutes: 5 }],
+          addMeetLink: true,
+        }
+      );
+
+      const inserted = getLastInsertedEvent();
+      expect(inserted?.start).toEqual({ dateTime: '2025-01-20T17:00:00.000Z', timeZone: 'America/Los_Angeles' });
+      expect(inserted?.recurrence).toEqual(['RRULE:FREQ=DAILY;COUNT=5']);
+      expect(inserted?.reminders).toEqual({ useDefault: false, overrides: [{ method: 'popup', minutes: 5 }] });
+      expect(inserted?.conferenceData).toMatchObject({
+        createRequest: { conferenceSolutionKey: { type: 'hangoutsMeet' } },
+      });
+      expect(getLastInsertParams()).toMatchObject({ conferenceDataVersion: 1, sendUpdates: 'all' });
+      expect(event).toMatchObject({
+        description: 'Daily sync',
+        recurrence: ['RRULE:FREQ=DAILY;COUNT=5'],
+        attendees: [{ email: 'sam@example.com', responseStatus: 'needsAction' }],
+      });
+    });
+
+    it('creates all-day events from local dates with an exclusive end', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      // Midnight Jan 20 to midnight Jan 22 in Los Angeles
+      const event = await createEvent(
+        testPhone,
+        'Offsite',
+        new Date('2025-01-20T08:00:00Z'),
+        new Date('2025-01-22T08:00:00Z'),
+        undefined,
+        { allDay: true, timeZone: 'America/Los_Angeles' }
+      );
+
+      expect(getLastInsertedEvent()?.start).toEqual({ date: '2025-01-20' });
+      expect(getLastInsertedEvent()?.end).toEqual({ date: '2025-01-22' });
+      expect(getLastInsertParams()).not.toHaveProperty('sendUpdates');
+      expect(event.allDay).toBe(true);
+    });
+  });
+
   describe('updateEvent', () => {
     it('updates event title', async () => {
       const store = getCredentialStore();
@@ -176,6 +377,32 @@ describe('Calendar Service', () => {
       expect(patched?.requestBody.end?.dateTime).toBe(newEnd.toISOString());
     });
 
+    it('merges attendee changes with the existing guest list', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      setMockEvents([{
+        id: 'event1',
+        summary: 'Meeting',
+        start: { dateTime: '2025-01-20T10:00:00Z' },
+        end: { dateTime: '2025-01-20T11:00:00Z' },
+        attendees: [
+          { email: 'sam@example.com', responseStatus: 'accepted' },
+          { email: 'alex@example.com', responseStatus: 'tentative' },
+        ],
+      }]);
+
+      await updateEvent(testPhone, 'event1', {
+        addAttendees: ['kim@example.com', 'SAM@example.com'],
+        removeAttendees: ['Alex@example.com'],
+      });
+
+      expect(getLastPatchedEvent()?.requestBody.attendees).toEqual([
+        { email: 'sam@example.com', responseStatus: 'accepted' },
+        { email: 'kim@example.com' },
+      ]);
+    });
+
     it('throws AuthRequiredError when no credentials', async () => {
       await expect(
         updateEvent(testPhone, 'event1', { title: 'New Title' })
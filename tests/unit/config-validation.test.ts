@@ -17,6 +17,17 @@ const SNAPSHOT_KEYS = new Set([
   'SKIP_TWILIO_VALIDATION',
   'BASE_URL',
   'PORT',
+  'EMAIL_WATCHER_PUSH_ENABLED',
+  'GMAIL_PUSH_TOPIC',
+  'GMAIL_PUSH_VERIFICATION_TOKEN',
+  'MEMORY_DECAY_HALF_LIFE_DAYS',
+  'PENDING_ACTION_TTL_MS',
+  'USAGE_DAILY_BUDGET_USD',
+  'USAGE_MONTHLY_BUDGET_USD',
+  'USAGE_DEGRADE_AT',
+  'MODEL_ROUTING_ENABLED',
+  'MODEL_TIER_FAST_ID',
+  'MODEL_TIER_STANDARD_ID',
 ]);
 
 const ORIGINAL_ENV = new Map<string, string | undefined>(
@@ -72,3 +83,176 @@ describe('validateConfig Twilio signature bypass safety', () => {
     expect(() => validateConfig()).not.toThrow();
   });
 });
+
+describe('validateConfig Gmail push', () => {
+  afterEach(() => {
+    for (const key of SNAPSHOT_KEYS) {
+      const original = ORIGINAL_ENV.get(key);
+      if (original === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = original;
+      }
+    }
+    vi.resetModules();
+  });
+
+  it('requires a topic and a verification token when push is enabled', async () => {
+    const { validateConfig } = await importConfigWith({
+      EMAIL_WATCHER_PUSH_ENABLED: 'true',
+      GMAIL_PUSH_TOPIC: 'gmail-push',
+      GMAIL_PUSH_VERIFICATION_TOKEN: 'short',
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => validateConfig()).toThrow(/GMAIL_PUSH_TOPIC must be projects/);
+    expect(() => validateConfig()).toThrow(/GMAIL_PUSH_VERIFICATION_TOKEN must be at least 16/);
+  });
+
+  it('accepts a complete push configuration', async () => {
+    const { validateConfig } = await importConfigWith({
+      EMAIL_WATCHER_PUSH_ENABLED: 'true',
+      GMAIL_PUSH_TOPIC: 'projects/hermes/topics/gmail-push',
+      GMAIL_PUSH_VERIFICATION_TOKEN: 'a-long-enough-shared-secret',
+    });
+
+    expect(() => validateConfig()).not.toThrow();
+  });
+});
+
+describe('validateConfig memory decay', () => {
+  afterEach(() => {
+    for (const key of SNAPSHOT_KEYS) {
+      const original = ORIGINAL_ENV.get(key);
+      if (original === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = original;
+      }
+    }
+    vi.resetModules();
+  });
+
+  it('parses per-category half-life overrides', async () => {
+    const { default: config, validateConfig } = await importConfigWith({
+      MEMORY_DECAY_HALF_LIFE_DAYS: 'health:400, interests:30',
+    });
+
+    expect(config.memory.decayHalfLifeDays).toEqual({ health: 400, interests: 30 });
+    expect(() => validateConfig()).not.toThrow();
+  });
+
+  it('rejects malformed half-life overrides', async () => {
+    const { validateConfig } = await importConfigWith({
+      MEMORY_DECAY_HALF_LIFE_DAYS: 'health:forever',
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => validateConfig()).toThrow(/MEMORY_DECAY_HALF_LIFE_DAYS entries must be category:days/);
+  });
+});
+
+describe('validateConfig pending actions', () => {
+  afterEach(() => {
+    for (const key of SNAPSHOT_KEYS) {
+      const original = ORIGINAL_ENV.get(key);
+      if (original === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = original;
+      }
+    }
+    vi.resetModules();
+  });
+
+  it('defaults pending actions to ten minutes', async () => {
+    const { default: config } = await importConfigWith({ PENDING_ACTION_TTL_MS: undefined });
+
+    expect(config.pendingActions.ttlMs).toBe(600000);
+  });
+
+  it('rejects a pending action TTL under a minute', async () => {
+    const { validateConfig } = await importConfigWith({ PENDING_ACTION_TTL_MS: '5000' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => validateConfig()).toThrow(/PENDING_ACTION_TTL_MS must be >= 60000/);
+  });
+});
+
+describe('validateConfig usage budgets', () => {
+  afterEach(() => {
+    for (const key of SNAPSHOT_KEYS) {
+      const original = ORIGINAL_ENV.get(key);
+      if (original === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = original;
+      }
+    }
+    vi.resetModules();
+  });
+
+  it('defaults to no budgets', async () => {
+    const { default: config, validateConfig } = await importConfigWith({
+      USAGE_DAILY_BUDGET_USD: undefined,
+      USAGE_MONTHLY_BUDGET_USD: undefined,
+      USAGE_DEGRADE_AT: undefined,
+    });
+
+    expect(config.usage).toMatchObject({ dailyBudgetUsd: 0, monthlyBudgetUsd: 0, degradeAt: 0.8 });
+    expect(() => validateConfig()).not.toThrow();
+  });
+
+  it('parses fractional budgets', async () => {
+    const { default: config } = await importConfigWith({
+      USAGE_DAILY_BUDGET_USD: '0.5',
+      USAGE_MONTHLY_BUDGET_USD: '10',
+    });
+
+    expect(config.usage.dailyBudgetUsd).toBe(0.5);
+    expect(config.usage.monthlyBudgetUsd).toBe(10);
+  });
+
+  it('rejects a degrade threshold above 1', async () => {
+    const { validateConfig } = await importConfigWith({ USAGE_DEGRADE_AT: '80' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => validateConfig()).toThrow(/USAGE_DEGRADE_AT must be > 0 and <= 1/);
+  });
+});
+
+describe('config model routing', () => {
+  afterEach(() => {
+    for (const key of SNAPSHOT_KEYS) {
+      const original = ORIGINAL_ENV.get(key);
+      if (original === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = original;
+      }
+    }
+    vi.resetModules();
+  });
+
+  it('routes by tier by default', async () => {
+    const { default: config } = await importConfigWith({
+      MODEL_ROUTING_ENABLED: undefined,
+      MODEL_TIER_FAST_ID: undefined,
+      MODEL_TIER_STANDARD_ID: undefined,
+    });
+
+    expect(config.modelRouting.enabled).toBe(true);
+    expect(config.modelRouting.tiers.fast).toBe('claude-haiku-4-5-20251001');
+    expect(config.modelRouting.tiers.standard).toBeUndefined();
+  });
+
+  it('can be turned off and tiers overridden', async () => {
+    const { default: config } = await importConfigWith({
+      MODEL_ROUTING_ENABLED: 'false',
+      MODEL_TIER_FAST_ID: 'claude-3-5-haiku-latest',
+    });
+
+    expect(config.modelRouting.enabled).toBe(false);
+    expect(config.modelRouting.tiers.fast).toBe('claude-3-5-haiku-latest');
+  });
+});
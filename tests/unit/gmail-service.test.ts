@@ -9,6 +9,13 @@ import {
   setShouldFailRefresh,
   setShouldFailWithInsufficientScopes,
   getGmailCallCounts,
+  getLastCreatedDraft,
+  getLastSentDraftId,
+  setMockLabels,
+  getModifiedMessages,
+  getTrashedMessageIds,
+  setFailingMessageIds,
+  setMockAttachments,
   type MockEmail,
 } from '../mocks/google-calendar.js';
 import {
@@ -18,7 +25,18 @@ import {
 import { clearClientCache } from '../../src/domains/google-core/providers/auth.js';
 
 // Import after mocks are set up
-import { listEmails, getEmail, getThread } from '../../src/domains/email/providers/gmail.js';
+import {
+  listEmails,
+  getEmail,
+  getThread,
+  createDraft,
+  createReplyDraft,
+  sendDraft,
+  modifyEmails,
+  modifyEmailsByQuery,
+  getEmailAttachments,
+  downloadAttachment,
+} from '../../src/domains/email/providers/gmail.js';
 import { AuthRequiredError } from '../../src/providers/auth.js';
 
 describe('Gmail Service', () => {
@@ -335,4 +353,282 @@ describe('Gmail Service', () => {
       ).rejects.toThrow(AuthRequiredError);
     });
   });
+
+  describe('createDraft', () => {
+    it('builds an RFC 2822 message with encoded subject and body', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      const draft = await createDraft(testPhone, {
+        to: ['sarah@example.com'],
+        cc: ['bob@example.com'],
+        subject: 'Café plans',
+        body: 'See you at 7.',
+      });
+
+      expect(draft.id).toBe('draft-1');
+      expect(draft.threadId).toBe('new-thread-1');
+      expect(draft.to).toEqual(['sarah@example.com']);
+
+      const raw = getLastCreatedDraft()!.raw;
+      expect(raw).toContain('To: sarah@example.com');
+      expect(raw).toContain('Cc: bob@example.com');
+      expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('Café plans').toString('base64')}?=`);
+      const body = raw.split('\r\n\r\n')[1];
+      expect(Buffer.from(body, 'base64').toString('utf-8')).toBe('See you at 7.');
+    });
+
+    it('strips newlines from header values', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      await createDraft(testPhone, {
+        to: ['a@example.com\r\nBcc: evil@example.com'],
+        subject: 'Hi\nBcc: evil@example.com',
+        body: 'x',
+      });
+
+      const headerBlock = getLastCreatedDraft()!.raw.split('\r\n\r\n')[0];
+      expect(headerBlock.split('\r\n').some((line) => line.startsWith('Bcc:'))).toBe(false);
+    });
+
+    it('throws AuthRequiredError on insufficient scopes', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setShouldFailWithInsufficientScopes(true);
+
+      await expect(
+        createDraft(testPhone, { to: ['a@example.com'], subject: 's', body: 'b' })
+      ).rejects.toThrow(AuthRequiredError);
+    });
+  });
+
+  describe('createReplyDraft', () => {
+    const original: MockEmail = {
+      id: 'email1',
+      threadId: 'thread1',
+      labelIds: ['INBOX'],
+      payload: {
+        headers: [
+          { name: 'From', value: 'Sarah <sarah@example.com>' },
+          { name: 'To', value: 'Me <me@example.com>, "Lee, Bob" <bob@example.com>' },
+          { name: 'Cc', value: 'carol@example.com' },
+          { name: 'Subject', value: 'Dinner' },
+          { name: 'Message-ID', value: '<msg-2@example.com>' },
+          { name: 'References', value: '<msg-1@example.com>' },
+        ],
+      },
+    };
+
+    it('keeps the thread and sets In-Reply-To/References', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockEmails([original]);
+
+      const draft = await createReplyDraft(testPhone, 'email1', "I'll be late");
+
+      expect(draft.threadId).toBe('thread1');
+      expect(draft.subject).toBe('Re: Dinner');
+      expect(draft.to).toEqual(['Sarah <sarah@example.com>']);
+      expect(draft.cc).toEqual([]);
+
+      const created = getLastCreatedDraft()!;
+      expect(created.threadId).toBe('thread1');
+      expect(created.raw).toContain('In-Reply-To: <msg-2@example.com>');
+      expect(created.raw).toContain('References: <msg-1@example.com> <msg-2@example.com>');
+    });
+
+    it('copies other recipients on reply-all, excluding the user', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockEmails([original]);
+
+      const draft = await createReplyDraft(testPhone, 'email1', 'Sounds good', { replyAll: true });
+
+      expect(draft.to).toEqual(['Sarah <sarah@example.com>']);
+      expect(draft.cc).toEqual(['"Lee, Bob" <bob@example.com>', 'carol@example.com']);
+    });
+
+    it('does not double the Re: prefix', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockEmails([{
+        ...original,
+        payload: {
+          headers: [
+            { name: 'From', value: 'sarah@example.com' },
+            { name: 'Subject', value: 'RE: Dinner' },
+          ],
+        },
+      }]);
+
+      const draft = await createReplyDraft(testPhone, 'email1', 'ok');
+
+      expect(draft.subject).toBe('RE: Dinner');
+    });
+  });
+
+  describe('sendDraft', () => {
+    it('sends the draft by id', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      const sent = await sendDraft(testPhone, 'draft-1');
+
+      expect(getLastSentDraftId()).toBe('draft-1');
+      expect(sent).toEqual({ id: 'sent-msg-1', threadId: 'sent-thread-1' });
+    });
+  });
+
+  describe('modifyEmails', () => {
+    it('archives by removing the INBOX label', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      const results = await modifyEmails(testPhone, ['email1', 'email2'], 'archive');
+
+      expect(results).toEqual([
+        { id: 'email1', success: true },
+        { id: 'email2', success: true },
+      ]);
+      expect(getModifiedMessages()).toEqual([
+        { id: 'email1', removeLabelIds: ['INBOX'] },
+        { id: 'email2', removeLabelIds: ['INBOX'] },
+      ]);
+    });
+
+    it('reports per-message failures without aborting the batch', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setFailingMessageIds(['email1']);
+
+      const results = await modifyEmails(testPhone, ['email1', 'email2'], 'trash');
+
+      expect(results[0]).toMatchObject({ id: 'email1', success: false });
+      expect(results[0].error).toContain('not found');
+      expect(results[1]).toEqual({ id: 'email2', success: true });
+      expect(getTrashedMessageIds()).toEqual(['email2']);
+    });
+
+    it('resolves label names case-insensitively', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockLabels([{ id: 'Label_7', name: 'Taxes' }]);
+
+      await modifyEmails(testPhone, ['email1'], 'add_label', { label: 'taxes' });
+
+      expect(getModifiedMessages()).toEqual([{ id: 'email1', addLabelIds: ['Label_7'] }]);
+    });
+
+    it('creates a missing label when applying it', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      await modifyEmails(testPhone, ['email1'], 'add_label', { label: 'Receipts' });
+
+      expect(getModifiedMessages()).toEqual([{ id: 'email1', addLabelIds: ['Label_1'] }]);
+    });
+
+    it('fails every message when removing an unknown label', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+
+      const results = await modifyEmails(testPhone, ['email1'], 'remove_label', { label: 'Nope' });
+
+      expect(results).toEqual([{ id: 'email1', success: false, error: 'Label not found: Nope' }]);
+      expect(getModifiedMessages()).toHaveLength(0);
+    });
+  });
+
+  describe('modifyEmailsByQuery', () => {
+    it('applies the action to every message matching the query', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockEmails([
+        { id: 'email1', threadId: 'thread1' },
+        { id: 'email2', threadId: 'thread2' },
+      ]);
+
+      const { matched, results } = await modifyEmailsByQuery(testPhone, 'category:promotions', 'mark_read');
+
+      expect(matched).toBe(2);
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(getModifiedMessages().map((m) => m.removeLabelIds)).toEqual([['UNREAD'], ['UNREAD']]);
+    });
+
+    it('returns no results when nothing matches', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockEmails([]);
+
+      const result = await modifyEmailsByQuery(testPhone, 'from:nobody', 'archive');
+
+      expect(result).toEqual({ matched: 0, results: [] });
+    });
+  });
+
+  describe('getEmailAttachments', () => {
+    it('lists attachment parts with filenames', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockEmails([
+        {
+          id: 'email1',
+          threadId: 'thread1',
+          internalDate: String(Date.UTC(2026, 2, 10, 15, 0)),
+          payload: {
+            headers: [{ name: 'Subject', value: 'Your receipt' }],
+            mimeType: 'multipart/mixed',
+            parts: [
+              { mimeType: 'text/plain', body: { data: Buffer.from('Thanks!').toString('base64') } },
+              {
+                mimeType: 'application/pdf',
+                filename: 'receipt.pdf',
+                body: { attachmentId: 'att-1', size: 1234 },
+              },
+            ],
+          },
+        },
+      ]);
+
+      const listing = await getEmailAttachments(testPhone, 'email1');
+
+      expect(listing).toEqual({
+        emailId: 'email1',
+        subject: 'Your receipt',
+        receivedAt: Date.UTC(2026, 2, 10, 15, 0),
+        attachments: [
+          { attachmentId: 'att-1', filename: 'receipt.pdf', mimeType: 'application/pdf', sizeBytes: 1234 },
+        ],
+      });
+    });
+
+    it('returns an empty list for emails without attachments', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockEmails([
+        { id: 'email1', threadId: 'thread1', payload: { mimeType: 'text/plain', body: { data: '' } } },
+      ]);
+
+      const listing = await getEmailAttachments(testPhone, 'email1');
+
+      expect(listing.attachments).toEqual([]);
+    });
+  });
+
+  describe('downloadAttachment', () => {
+    it('decodes the attachment body', async () => {
+      const store = getCredentialStore();
+      await store.set(testPhone, 'google', validCredential);
+      setMockAttachments({ 'att-1': Buffer.from('%PDF-1.4 receipt') });
+
+      const data = await downloadAttachment(testPhone, 'email1', 'att-1');
+
+      expect(data.toString()).toBe('%PDF-1.4 receipt');
+    });
+
+    it('throws AuthRequiredError when not connected', async () => {
+      await expect(downloadAttachment(testPhone, 'email1', 'att-1')).rejects.toThrow(AuthRequiredError);
+    });
+  });
 });
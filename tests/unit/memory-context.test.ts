@@ -82,4 +82,33 @@ describe('buildFactsXml', () => {
     expect(xml).toContain('High confidence fact');
     expect(xml).not.toContain('Another fact');
   });
+
+  it('selects ranked facts by relevance, even over established facts', () => {
+    const facts = [
+      {
+        id: 'fact_1',
+        phoneNumber: '+15551234567',
+        fact: 'Works at Acme',
+        confidence: 0.9,
+        sourceType: 'explicit' as const,
+        extractedAt: Date.parse('2026-01-01T00:00:00Z'),
+        relevance: 0.3,
+      },
+      {
+        id: 'fact_2',
+        phoneNumber: '+15551234567',
+        fact: 'Is allergic to shellfish',
+        confidence: 0.5,
+        sourceType: 'inferred' as const,
+        extractedAt: Date.parse('2026-02-01T00:00:00Z'),
+        relevance: 0.8,
+      },
+    ];
+
+    const firstRendered = 'Is allergic to shellfish (learned 2026-02-01)';
+    const xml = buildFactsXml(facts, { maxChars: firstRendered.length });
+
+    expect(xml).toContain('Is allergic to shellfish');
+    expect(xml).not.toContain('Works at Acme');
+  });
 });
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for memory confidence decay and promotion.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import config from '../../src/config.js';
+import { SqliteMemoryStore } from '../../src/domains/memory/repo/sqlite.js';
+import {
+  DECAY_FLOOR,
+  DECAY_GRACE_DAYS,
+  DEFAULT_DECAY_HALF_LIFE_DAYS,
+  PROMOTION_REINFORCEMENTS,
+  decayedConfidence,
+  getDecayHalfLifeDays,
+  runConfidenceDecay,
+} from '../../src/domains/memory/service/decay.js';
+import type { UserFact } from '../../src/domains/memory/types.js';
+
+const TEST_DB_PATH = './data/test-memory-decay.db';
+const PHONE = '+15551234567';
+const NOW = Date.parse('2026-03-10T15:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function inferredFact(overrides: Partial<Omit<UserFact, 'id'>> = {}): Omit<UserFact, 'id'> {
+  return {
+    phoneNumber: PHONE,
+    fact: 'Enjoys bouldering',
+    category: 'interests',
+    confidence: 0.7,
+    sourceType: 'inferred',
+    extractedAt: NOW,
+    lastReinforcedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('decayedConfidence', () => {
+  it('leaves facts alone during the grace period', () => {
+    const fact = inferredFact();
+    expect(decayedConfidence({ id: 'fact_1', ...fact }, NOW + (DECAY_GRACE_DAYS - 1) * DAY_MS, 90)).toBe(0.7);
+  });
+
+  it('halves the distance to the floor every half-life after the grace period', () => {
+    const fact = inferredFact();
+    const afterHalfLife = NOW + (DECAY_GRACE_DAYS + 90) * DAY_MS;
+    expect(decayedConfidence({ id: 'fact_1', ...fact }, afterHalfLife, 90)).toBeCloseTo(DECAY_FLOOR + (0.7 - DECAY_FLOOR) / 2, 5);
+  });
+
+  it('continues from the last decay so repeated runs follow one curve', () => {
+    const start = NOW + DECAY_GRACE_DAYS * DAY_MS;
+    const once = decayedConfidence({ id: 'fact_1', ...inferredFact() }, start + 60 * DAY_MS, 90);
+
+    const midway = decayedConfidence({ id: 'fact_1', ...inferredFact() }, start + 30 * DAY_MS, 90);
+    const twice = decayedConfidence(
+      { id: 'fact_1', ...inferredFact({ confidence: midway, lastDecayedAt: start + 30 * DAY_MS }) },
+      start + 60 * DAY_MS,
+      90
+    );
+
+    expect(twice).toBeCloseTo(once, 10);
+  });
+
+  it('never decays explicit facts', () => {
+    const fact = inferredFact({ sourceType: 'explicit' });
+    expect(decayedConfidence({ id: 'fact_1', ...fact }, NOW + 1000 * DAY_MS, 90)).toBe(0.7);
+  });
+
+  it('keeps promoted facts at or above the established threshold', () => {
+    const fact = inferredFact({ reinforcementCount: PROMOTION_REINFORCEMENTS });
+    expect(decayedConfidence({ id: 'fact_1', ...fact }, NOW + 5000 * DAY_MS, 90)).toBeCloseTo(0.6, 5);
+  });
+});
+
+describe('getDecayHalfLifeDays', () => {
+  const original = config.memory.decayHalfLifeDays;
+
+  afterEach(() => {
+    config.memory.decayHalfLifeDays = original;
+  });
+
+  it('decays health facts slower than interests', () => {
+    expect(getDecayHalfLifeDays('health')).toBeGreaterThan(getDecayHalfLifeDays('interests'));
+  });
+
+  it('uses the other curve for missing or unknown categories', () => {
+    expect(getDecayHalfLifeDays(undefined)).toBe(DEFAULT_DECAY_HALF_LIFE_DAYS.other);
+    expect(getDecayHalfLifeDays('hobbies')).toBe(DEFAULT_DECAY_HALF_LIFE_DAYS.other);
+  });
+
+  it('applies configured overrides', () => {
+    config.memory.decayHalfLifeDays = { interests: 30 };
+    expect(getDecayHalfLifeDays('interests')).toBe(30);
+    expect(getDecayHalfLifeDays('health')).toBe(DEFAULT_DECAY_HALF_LIFE_DAYS.health);
+  });
+});
+
+describe('runConfidenceDecay', () => {
+  let store: SqliteMemoryStore;
+
+  beforeEach(() => {
+    const dir = path.dirname(TEST_DB_PATH);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+    store = new SqliteMemoryStore(TEST_DB_PATH);
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  async function addFact(overrides: Partial<Omit<UserFact, 'id'>> = {}): Promise<UserFact> {
+    return store.addFact(inferredFact(overrides));
+  }
+
+  it('decays unreinforced inferred facts by category and records each adjustment', async () => {
+    const interest = await addFact();
+    const health = await addFact({ fact: 'Is allergic to penicillin', category: 'health' });
+    const explicit = await addFact({ fact: 'Lives in Austin', category: 'personal', sourceType: 'explicit' });
+    const later = NOW + (DECAY_GRACE_DAYS + 90) * DAY_MS;
+
+    const result = await runConfidenceDecay({ store, nowMs: later });
+
+    expect(result).toEqual({ checked: 3, decayed: 2, promoted: 0 });
+    const facts = new Map((await store.getFacts(PHONE)).map((f) => [f.id, f]));
+    expect(facts.get(interest.id)?.confidence).toBeCloseTo(0.5, 2);
+    expect(facts.get(health.id)?.confidence).toBeGreaterThan(0.6);
+    expect(facts.get(explicit.id)?.confidence).toBe(0.7);
+    expect(facts.get(interest.id)?.lastDecayedAt).toBe(later);
+
+    const [adjustment] = await store.getFactAdjustments(interest.id);
+    expect(adjustment).toMatchObject({ kind: 'decay', previousConfidence: 0.7, createdAt: later });
+    expect(adjustment.reason).toContain('interests, half-life 90 days');
+  });
+
+  it('does not decay again for the same period', async () => {
+    const fact = await addFact();
+    const later = NOW + (DECAY_GRACE_DAYS + 30) * DAY_MS;
+
+    await runConfidenceDecay({ store, nowMs: later });
+    const second = await runConfidenceDecay({ store, nowMs: later + 60 * 1000 });
+
+    expect(second.decayed).toBe(0);
+    expect(await store.getFactAdjustments(fact.id)).toHaveLength(1);
+  });
+
+  it('promotes repeatedly reinforced facts to established', async () => {
+    const fact = await addFact({ confidence: 0.45 });
+    await store.updateFact(fact.id, { reinforcementCount: PROMOTION_REINFORCEMENTS });
+
+    const result = await runConfidenceDecay({ store, nowMs: NOW + DAY_MS });
+
+    expect(result.promoted).toBe(1);
+    const [stored] = await store.getFacts(PHONE);
+    expect(stored.confidence).toBe(0.6);
+    expect((await store.getFactAdjustments(fact.id))[0]).toMatchObject({
+      kind: 'promotion',
+      previousConfidence: 0.45,
+      newConfidence: 0.6,
+    });
+  });
+
+  it('skips superseded facts', async () => {
+    const old = await addFact({ fact: 'Works at Initech', category: 'work' });
+    await store.supersedeFact(old.id, inferredFact({ fact: 'Works at Acme', category: 'work' }));
+
+    const result = await runConfidenceDecay({ store, nowMs: NOW + 400 * DAY_MS });
+
+    expect(result.checked).toBe(1);
+    expect(await store.getFactAdjustments(old.id)).toHaveLength(0);
+  });
+});
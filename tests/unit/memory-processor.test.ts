@@ -113,13 +113,18 @@ vi.mock('../../src/domains/memory/service/store.js', () => {
     evidence?: string;
     lastReinforcedAt?: number;
     extractedAt: number;
+    supersedes?: string;
+    validFrom?: number;
+    validUntil?: number;
+    reinforcementCount?: number;
   }> = [];
+  const adjustments: Array<{ id: string; factId: string; kind: string; previousConfidence: number; newConfidence: number }> = [];
   let factIdCounter = 0;
 
   return {
     getMemoryStore: () => ({
       getFacts: async (phoneNumber: string) => {
-        return facts.filter((f) => f.phoneNumber === phoneNumber);
+        return facts.filter((f) => f.phoneNumber === phoneNumber && f.validUntil === undefined);
       },
       addFact: async (fact: {
         phoneNumber: string;
@@ -138,6 +143,30 @@ vi.mock('../../src/domains/memory/service/store.js', () => {
         facts.push(stored);
         return stored;
       },
+      supersedeFact: async (
+        oldId: string,
+        fact: {
+          phoneNumber: string;
+          fact: string;
+          category?: string;
+          confidence: number;
+          sourceType: 'explicit' | 'inferred';
+          evidence?: string;
+          lastReinforcedAt?: number;
+          extractedAt: number;
+        }
+      ) => {
+        const old = facts.find((f) => f.id === oldId);
+        if (old) old.validUntil = fact.extractedAt;
+        const stored = {
+          id: `fact_${++factIdCounter}`,
+          ...fact,
+          supersedes: oldId,
+          validFrom: fact.extractedAt,
+        };
+        facts.push(stored);
+        return stored;
+      },
       updateFact: async (
         id: string,
         updates: Partial<{
@@ -147,13 +176,23 @@ vi.mock('../../src/domains/memory/service/store.js', () => {
           sourceType: 'explicit' | 'inferred';
           evidence?: string;
           lastReinforcedAt?: number;
+          reinforcementCount?: number;
           extractedAt: number;
+          validUntil?: number;
         }>
       ) => {
         const index = facts.findIndex((f) => f.id === id);
         if (index === -1) return;
         facts[index] = { ...facts[index], ...updates };
       },
+      adjustConfidence: async (adjustment: { factId: string; kind: string; newConfidence: number; createdAt: number }) => {
+        const fact = facts.find((f) => f.id === adjustment.factId);
+        if (!fact) return null;
+        const recorded = { id: `adj_${adjustments.length + 1}`, ...adjustment, previousConfidence: fact.confidence };
+        fact.confidence = adjustment.newConfidence;
+        adjustments.push(recorded);
+        return recorded;
+      },
       deleteStaleObservations: async () => {
         const cutoff = Date.now() - 180 * 24 * 60 * 60 * 1000;
         const before = facts.length;
@@ -169,9 +208,11 @@ vi.mock('../../src/domains/memory/service/store.js', () => {
     _testHelpers: {
       reset: () => {
         facts.length = 0;
+        adjustments.length = 0;
         factIdCounter = 0;
       },
       getFacts: () => [...facts],
+      getAdjustments: () => [...adjustments],
       addTestFact: (
         phoneNumber: string,
         factText: string,
@@ -211,9 +252,14 @@ vi.mock('../../src/config.js', () => ({
       modelId: 'test-model',
       logVerbose: false,
     },
+    usage: { dailyBudgetUsd: 0, monthlyBudgetUsd: 0 },
   },
 }));
 
+vi.mock('../../src/services/usage/ledger.js', () => ({
+  recordUsage: vi.fn(),
+}));
+
 // Now import the processor (after mocks are set up)
 import { processUnprocessedMessages } from '../../src/domains/memory/service/processor.js';
 import { getConversationStore, _testHelpers as convHelpers } from '../../src/services/conversation/index.js';
@@ -356,6 +402,10 @@ describe('Memory Processor', () => {
       const facts = memHelpers.getFacts();
       expect(facts).toHaveLength(1); // Still just the original
       expect(facts[0].confidence).toBeCloseTo(0.7, 5); // Reinforced
+      expect(facts[0].reinforcementCount).toBe(1);
+      expect(memHelpers.getAdjustments()).toEqual([
+        expect.objectContaining({ factId: facts[0].id, kind: 'reinforcement', previousConfidence: 0.6, newConfidence: expect.closeTo(0.7, 5) }),
+      ]);
     });
 
     it('extracts multiple facts from single user batch', async () => {
@@ -470,6 +520,68 @@ describe('Memory Processor', () => {
     });
   });
 
+  describe('contradictions', () => {
+    it('supersedes the fact a new fact replaces instead of keeping both', async () => {
+      const seattle = memHelpers.addTestFact('+1234567890', 'Lives in Seattle', { confidence: 0.8 });
+      convHelpers.addTestMessage('+1234567890', 'user', 'We just moved to Austin!');
+
+      setMockResponses([
+        createTextResponse(
+          '{"facts":[{"fact":"Lives in Austin","category":"personal","confidence":0.8,"source_type":"explicit","replaces":"lives in seattle"}]}'
+        ),
+      ]);
+
+      const result = await processUnprocessedMessages();
+
+      expect(result.factsExtracted).toBe(1);
+      const facts = memHelpers.getFacts();
+      expect(facts).toHaveLength(2);
+      const old = facts.find((f) => f.id === seattle.id);
+      const current = facts.find((f) => f.fact === 'Lives in Austin');
+      expect(old?.validUntil).toBeDefined();
+      expect(current).toMatchObject({ supersedes: seattle.id, validFrom: old?.validUntil });
+      expect(current?.validUntil).toBeUndefined();
+    });
+
+    it('stores a new fact normally when the replaced text matches nothing', async () => {
+      memHelpers.addTestFact('+1234567890', 'Lives in Seattle');
+      convHelpers.addTestMessage('+1234567890', 'user', 'I started at Acme');
+
+      setMockResponses([
+        createTextResponse(
+          '{"facts":[{"fact":"Works at Acme","category":"work","confidence":0.7,"source_type":"explicit","replaces":"Works at Initech"}]}'
+        ),
+      ]);
+
+      await processUnprocessedMessages();
+
+      const facts = memHelpers.getFacts();
+      expect(facts).toHaveLength(2);
+      expect(facts.every((f) => f.validUntil === undefined)).toBe(true);
+      expect(facts.find((f) => f.fact === 'Works at Acme')?.supersedes).toBeUndefined();
+    });
+
+    it('closes out the contradicted fact when the replacement already exists', async () => {
+      const seattle = memHelpers.addTestFact('+1234567890', 'Lives in Seattle');
+      const austin = memHelpers.addTestFact('+1234567890', 'Lives in Austin', { confidence: 0.5 });
+      convHelpers.addTestMessage('+1234567890', 'user', 'Austin is home now');
+
+      setMockResponses([
+        createTextResponse(
+          '{"facts":[{"fact":"Lives in Austin","category":"personal","confidence":0.8,"source_type":"explicit","replaces":"Lives in Seattle"}]}'
+        ),
+      ]);
+
+      const result = await processUnprocessedMessages();
+
+      expect(result.factsExtracted).toBe(0);
+      const facts = memHelpers.getFacts();
+      expect(facts).toHaveLength(2);
+      expect(facts.find((f) => f.id === seattle.id)?.validUntil).toBeDefined();
+      expect(facts.find((f) => f.id === austin.id)?.confidence).toBeCloseTo(0.6, 5);
+    });
+  });
+
   describe('fact parsing', () => {
     it('accepts legacy array format', async () => {
       convHelpers.addTestMessage('+1234567890', 'user', 'I like jazz');
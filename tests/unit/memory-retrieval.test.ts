@@ -0,0 +1,239 @@
+/**
+ * Unit tests for semantic memory retrieval (embeddings and relevance ranking).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { SqliteMemoryStore } from '../../src/domains/memory/repo/sqlite.js';
+import {
+  embedLocally,
+  cosineSimilarity,
+  createLocalEmbeddingProvider,
+} from '../../src/domains/memory/service/embeddings.js';
+import {
+  embedMissingFacts,
+  MAX_INLINE_EMBEDS,
+  rankFactsForMessage,
+} from '../../src/domains/memory/service/retrieval.js';
+import {
+  blendRelevance,
+  LEXICAL_RELEVANCE_WEIGHTS,
+  RECENCY_HALF_LIFE_DAYS,
+  recencyScore,
+} from '../../src/domains/memory/service/ranking.js';
+import type { EmbeddingProvider, UserFact } from '../../src/domains/memory/types.js';
+
+const TEST_DB_PATH = './data/test-memory-retrieval.db';
+const PHONE = '+15551234567';
+const NOW = Date.parse('2026-03-10T15:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('local embeddings', () => {
+  it('scores related text above unrelated text', () => {
+    const query = embedLocally('Where should we take the dogs for a walk?');
+
+    const related = cosineSimilarity(query, embedLocally('Has two dogs named Max and Bella'));
+    const unrelated = cosineSimilarity(query, embedLocally('Prefers aisle seats on flights'));
+
+    expect(related).toBeGreaterThan(0.1);
+    expect(related).toBeGreaterThan(unrelated);
+  });
+
+  it('is deterministic and normalized', () => {
+    const a = embedLocally('Likes black coffee');
+    expect(Array.from(a)).toEqual(Array.from(embedLocally('Likes black coffee')));
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 5);
+  });
+
+  it('gives empty text a zero vector', () => {
+    expect(cosineSimilarity(embedLocally('the'), embedLocally('coffee'))).toBe(0);
+  });
+});
+
+describe('blendRelevance', () => {
+  const fact: UserFact = {
+    id: 'fact_1',
+    phoneNumber: PHONE,
+    fact: 'Likes black coffee',
+    confidence: 1,
+    sourceType: 'explicit',
+    extractedAt: NOW,
+  };
+
+  it('halves recency every half-life', () => {
+    expect(recencyScore(fact, NOW)).toBe(1);
+    expect(recencyScore(fact, NOW + RECENCY_HALF_LIFE_DAYS * DAY_MS)).toBeCloseTo(0.5);
+  });
+
+  it('stays within 0-1 and ignores negative similarity', () => {
+    expect(blendRelevance(1, fact, NOW)).toBeCloseTo(1);
+    expect(blendRelevance(-0.4, fact, NOW)).toBe(blendRelevance(0, fact, NOW));
+  });
+
+  it('weighs similarity less with lexical weights', () => {
+    const lexicalGain = blendRelevance(1, fact, NOW, LEXICAL_RELEVANCE_WEIGHTS)
+      - blendRelevance(0, fact, NOW, LEXICAL_RELEVANCE_WEIGHTS);
+    const semanticGain = blendRelevance(1, fact, NOW) - blendRelevance(0, fact, NOW);
+
+    expect(lexicalGain).toBeLessThan(semanticGain);
+    expect(blendRelevance(1, fact, NOW, LEXICAL_RELEVANCE_WEIGHTS)).toBeCloseTo(1);
+  });
+});
+
+describe('rankFactsForMessage', () => {
+  let store: SqliteMemoryStore;
+
+  async function addFact(fact: string, overrides: Partial<UserFact> = {}): Promise<UserFact> {
+    return store.addFact({
+      phoneNumber: PHONE,
+      fact,
+      confidence: 0.7,
+      sourceType: 'explicit',
+      extractedAt: NOW - DAY_MS,
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+    store = new SqliteMemoryStore(TEST_DB_PATH);
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('puts semantically relevant facts first, over more confident ones', async () => {
+    await addFact('Works as a nurse at St. Mary hospital', { confidence: 1 });
+    await addFact('Prefers window seats on flights', { confidence: 0.9 });
+    await addFact('Is allergic to shellfish and shrimp', { confidence: 0.5 });
+    const local = createLocalEmbeddingProvider();
+
+    const ranked = await rankFactsForMessage(
+      await store.getFacts(PHONE),
+      'Find me a seafood restaurant, maybe shrimp?',
+      { store, provider: { id: 'semantic-test', embed: local.embed }, nowMs: NOW }
+    );
+
+    expect(ranked[0].fact).toBe('Is allergic to shellfish and shrimp');
+    expect(ranked).toHaveLength(3);
+    expect(ranked.every((fact) => fact.relevance !== undefined)).toBe(true);
+  });
+
+  it('lets word overlap only reorder facts of similar confidence with the local provider', async () => {
+    await addFact('Works as a nurse at St. Mary hospital', { confidence: 1 });
+    await addFact('Prefers window seats on flights', { confidence: 0.5 });
+    await addFact('Is allergic to shellfish and shrimp', { confidence: 0.5 });
+
+    const ranked = await rankFactsForMessage(
+      await store.getFacts(PHONE),
+      'Find me a seafood restaurant, maybe shrimp?',
+      { store, provider: createLocalEmbeddingProvider(), nowMs: NOW }
+    );
+
+    expect(ranked.map((fact) => fact.fact)).toEqual([
+      'Works as a nurse at St. Mary hospital',
+      'Is allergic to shellfish and shrimp',
+      'Prefers window seats on flights',
+    ]);
+  });
+
+  it('embeds only the newest missing facts inline and leaves the rest to the backfill', async () => {
+    const local = createLocalEmbeddingProvider();
+    const provider: EmbeddingProvider = { ...local, embed: vi.fn(local.embed) };
+    for (let i = 0; i < MAX_INLINE_EMBEDS + 5; i++) {
+      await addFact(`Fact number ${i}`, { extractedAt: NOW - (i + 1) * DAY_MS });
+    }
+
+    const ranked = await rankFactsForMessage(await store.getFacts(PHONE), 'fact', { store, provider, nowMs: NOW });
+
+    expect(ranked).toHaveLength(MAX_INLINE_EMBEDS + 5);
+    expect(vi.mocked(provider.embed).mock.calls[0][0]).toHaveLength(MAX_INLINE_EMBEDS);
+    expect(vi.mocked(provider.embed).mock.calls[0][0]).toContain('Fact number 0');
+    expect((await store.getFactEmbeddings(PHONE, provider.id)).size).toBe(MAX_INLINE_EMBEDS);
+  });
+
+  it('stores vectors once and re-embeds edited facts', async () => {
+    const local = createLocalEmbeddingProvider();
+    const provider: EmbeddingProvider = { id: local.id, embed: vi.fn(local.embed) };
+    const fact = await addFact('Has a dog named Max');
+    await addFact('Likes black coffee');
+
+    await rankFactsForMessage(await store.getFacts(PHONE), 'dog food', { store, provider, nowMs: NOW });
+    expect(provider.embed).toHaveBeenNthCalledWith(1, expect.arrayContaining(['Has a dog named Max', 'Likes black coffee']), PHONE);
+    expect((await store.getFactEmbeddings(PHONE, provider.id)).size).toBe(2);
+
+    await rankFactsForMessage(await store.getFacts(PHONE), 'coffee', { store, provider, nowMs: NOW });
+    // Only the query is embedded the second time
+    expect(provider.embed).toHaveBeenLastCalledWith(['coffee'], PHONE);
+
+    await store.updateFact(fact.id, { fact: 'Has a dog named Rex' });
+    await rankFactsForMessage(await store.getFacts(PHONE), 'dog', { store, provider, nowMs: NOW });
+    expect(provider.embed).toHaveBeenCalledWith(['Has a dog named Rex'], PHONE);
+  });
+
+  it('returns facts unchanged when retrieval is off or the message is empty', async () => {
+    await addFact('Likes black coffee');
+    const facts = await store.getFacts(PHONE);
+
+    expect(await rankFactsForMessage(facts, 'coffee', { store, provider: null })).toBe(facts);
+    expect(await rankFactsForMessage(facts, '  ', { store, provider: createLocalEmbeddingProvider() })).toBe(facts);
+  });
+});
+
+describe('embedMissingFacts', () => {
+  let store: SqliteMemoryStore;
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+    store = new SqliteMemoryStore(TEST_DB_PATH);
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  async function addFact(phoneNumber: string, fact: string): Promise<UserFact> {
+    return store.addFact({ phoneNumber, fact, confidence: 0.7, sourceType: 'explicit', extractedAt: NOW });
+  }
+
+  it('embeds every user\'s facts that have no vector yet', async () => {
+    const local = createLocalEmbeddingProvider();
+    const provider: EmbeddingProvider = { ...local, embed: vi.fn(local.embed) };
+    await addFact(PHONE, 'Has a dog named Max');
+    await addFact(PHONE, 'Likes black coffee');
+    await addFact('+15559876543', 'Lives in Denver');
+
+    expect(await embedMissingFacts({ store, provider })).toEqual({ users: 2, embedded: 3 });
+    expect((await store.getFactEmbeddings(PHONE, provider.id)).size).toBe(2);
+    expect(provider.embed).toHaveBeenCalledWith(['Lives in Denver'], '+15559876543');
+
+    expect(await embedMissingFacts({ store, provider })).toEqual({ users: 0, embedded: 0 });
+  });
+
+  it('stops at the limit and skips a user whose provider call fails', async () => {
+    const local = createLocalEmbeddingProvider();
+    await addFact(PHONE, 'Has a dog named Max');
+    await addFact(PHONE, 'Likes black coffee');
+    await addFact('+15559876543', 'Lives in Denver');
+
+    expect(await embedMissingFacts({ store, provider: local, limit: 1 })).toMatchObject({ embedded: 1 });
+
+    const failing: EmbeddingProvider = { id: 'failing', embed: vi.fn(async () => { throw new Error('down'); }) };
+    expect(await embedMissingFacts({ store, provider: failing })).toEqual({ users: 0, embedded: 0 });
+    expect(failing.embed).toHaveBeenCalledTimes(2);
+  });
+});
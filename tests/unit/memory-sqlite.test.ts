@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
 import { SqliteMemoryStore } from '../../src/domains/memory/repo/sqlite.js';
 import fs from 'fs';
 import path from 'path';
@@ -102,6 +103,31 @@ describe('SqliteMemoryStore', () => {
     expect(facts.length).toBe(0);
   });
 
+  it('stores embeddings and only returns those matching the current fact text', async () => {
+    const added = await store.addFact({
+      phoneNumber: '+1234567890',
+      fact: 'Has a dog named Max',
+      confidence: 0.6,
+      sourceType: 'explicit' as const,
+      extractedAt: Date.now(),
+    });
+    await store.saveFactEmbedding(added.id, 'test-model', added.fact, new Float32Array([0.6, 0.8]));
+
+    let vectors = await store.getFactEmbeddings('+1234567890', 'test-model');
+    expect(Array.from(vectors.get(added.id)!)).toEqual([Math.fround(0.6), Math.fround(0.8)]);
+    expect((await store.getFactEmbeddings('+1234567890', 'other-model')).size).toBe(0);
+
+    // Editing the fact makes its vector stale
+    await store.updateFact(added.id, { fact: 'Has a dog named Rex' });
+    vectors = await store.getFactEmbeddings('+1234567890', 'test-model');
+    expect(vectors.size).toBe(0);
+
+    await store.saveFactEmbedding(added.id, 'test-model', 'Has a dog named Rex', new Float32Array([1, 0]));
+    await store.deleteFact(added.id);
+    const db = (store as unknown as { db: import('better-sqlite3').Database }).db;
+    expect(db.prepare('SELECT * FROM user_fact_embeddings').all()).toHaveLength(0);
+  });
+
   it('returns empty array for unknown phone number', async () => {
     const facts = await store.getFacts('+9999999999');
     expect(facts).toEqual([]);
@@ -229,6 +255,126 @@ describe('SqliteMemoryStore', () => {
     expect(facts[0].fact).toBe('Old established fact');
   });
 
+  describe('versioning', () => {
+    it('supersedes a fact and keeps the old one as history', async () => {
+      const seattle = await store.addFact({
+        phoneNumber: '+1234567890',
+        fact: 'Lives in Seattle',
+        confidence: 0.8,
+        sourceType: 'explicit',
+        extractedAt: 1000,
+      });
+      expect(seattle.validFrom).toBe(1000);
+
+      const austin = await store.supersedeFact(seattle.id, {
+        phoneNumber: '+1234567890',
+        fact: 'Lives in Austin',
+        confidence: 0.8,
+        sourceType: 'explicit',
+        extractedAt: 5000,
+      });
+
+      expect(austin).toMatchObject({ supersedes: seattle.id, validFrom: 5000 });
+
+      const current = await store.getFacts('+1234567890');
+      expect(current.map((f) => f.fact)).toEqual(['Lives in Austin']);
+      expect(current[0].validUntil).toBeUndefined();
+
+      const history = await store.getFactHistory('+1234567890');
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ id: seattle.id, validFrom: 1000, validUntil: 5000 });
+
+      const all = await store.getAllFacts();
+      expect(all).toHaveLength(2);
+    });
+
+    it('keeps superseded observations out of stale cleanup', async () => {
+      const oldTimestamp = Date.now() - 181 * 24 * 60 * 60 * 1000;
+      const old = await store.addFact({
+        phoneNumber: '+1234567890',
+        fact: 'Works at Initech',
+        confidence: 0.4,
+        sourceType: 'inferred',
+        extractedAt: oldTimestamp,
+      });
+      await store.supersedeFact(old.id, {
+        phoneNumber: '+1234567890',
+        fact: 'Works at Acme',
+        confidence: 0.7,
+        sourceType: 'explicit',
+        extractedAt: Date.now(),
+      });
+
+      expect(await store.deleteStaleObservations()).toBe(0);
+      expect(await store.getFactHistory('+1234567890')).toHaveLength(1);
+    });
+
+    it('adds version columns to an existing database', async () => {
+      store.close();
+      fs.unlinkSync(TEST_DB_PATH);
+      const legacy = new Database(TEST_DB_PATH);
+      legacy.exec(`
+        CREATE TABLE user_facts (
+          id TEXT PRIMARY KEY,
+          phone_number TEXT NOT NULL,
+          fact TEXT NOT NULL,
+          category TEXT,
+          extracted_at INTEGER NOT NULL
+        );
+        INSERT INTO user_facts (id, phone_number, fact, extracted_at) VALUES ('f1', '+1234567890', 'Likes tea', 1234);
+      `);
+      legacy.close();
+
+      store = new SqliteMemoryStore(TEST_DB_PATH);
+      const facts = await store.getFacts('+1234567890');
+
+      expect(facts).toHaveLength(1);
+      expect(facts[0]).toMatchObject({ id: 'f1', validFrom: 1234, confidence: 0.5 });
+      expect(facts[0].validUntil).toBeUndefined();
+    });
+  });
+
+  describe('confidence adjustments', () => {
+    it('updates confidence and records the change', async () => {
+      const fact = await store.addFact({
+        phoneNumber: '+1234567890',
+        fact: 'Enjoys bouldering',
+        confidence: 0.7,
+        sourceType: 'inferred',
+        extractedAt: 1000,
+      });
+
+      const adjustment = await store.adjustConfidence({
+        factId: fact.id,
+        kind: 'decay',
+        newConfidence: 0.55,
+        reason: 'not reinforced',
+        createdAt: 9000,
+      });
+
+      expect(adjustment).toMatchObject({ phoneNumber: '+1234567890', previousConfidence: 0.7, newConfidence: 0.55 });
+      const [stored] = await store.getFacts('+1234567890');
+      expect(stored).toMatchObject({ confidence: 0.55, lastDecayedAt: 9000, reinforcementCount: 0 });
+      expect(await store.getFactAdjustments(fact.id)).toEqual([adjustment]);
+    });
+
+    it('returns null for an unknown fact and drops adjustments with the fact', async () => {
+      expect(await store.adjustConfidence({ factId: 'missing', kind: 'promotion', newConfidence: 0.6, createdAt: 1 })).toBeNull();
+
+      const fact = await store.addFact({
+        phoneNumber: '+1234567890',
+        fact: 'Enjoys bouldering',
+        confidence: 0.5,
+        sourceType: 'inferred',
+        extractedAt: 1000,
+      });
+      await store.adjustConfidence({ factId: fact.id, kind: 'reinforcement', newConfidence: 0.6, createdAt: 2000 });
+      await store.deleteFact(fact.id);
+
+      expect(await store.getFactAdjustments(fact.id)).toEqual([]);
+    });
+  });
+
   describe('boundary: data corruption handling', () => {
     it('clamps out-of-range confidence > 1 to 1', async () => {
       const fact = await store.addFact({
@@ -37,3 +37,47 @@ describe('trace logger requestId continuity', () => {
   });
 });
 
+describe('trace logger model routing', () => {
+  it('records each routing decision and tallies tiers in the footer', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hermes-trace-'));
+    process.env.NODE_ENV = 'development';
+    process.env.TRACE_LOG_DIR = tempDir;
+
+    vi.resetModules();
+    const { createTraceLogger } = await import('../../../src/utils/trace-logger.js');
+
+    const requestId = 'req_routing_1234';
+    const logger = createTraceLogger('+15551234567', requestId);
+    logger.modelRoute({ role: 'planner', tier: 'fast', model: 'claude-haiku-test', reason: 'classifier: no work needed' });
+    logger.modelRoute({ role: 'agent', tier: 'standard', model: 'claude-sonnet-test', reason: 'default' }, 'step_1');
+    logger.modelRoute({ role: 'composer', tier: 'fast', model: 'claude-haiku-test', reason: 'no steps' });
+    expect(logger.getSummary().modelTiers).toEqual({ fast: 2, standard: 1 });
+    logger.close('SUCCESS');
+
+    const fullDir = path.join(tempDir, new Date().toISOString().slice(0, 10));
+    const file = fs.readdirSync(fullDir).find(name => name.includes(requestId));
+    const content = fs.readFileSync(path.join(fullDir, file as string), 'utf-8');
+
+    expect(content).toContain('Model routed: agent (step_1) -> standard');
+    expect(content).toContain('Reason: classifier: no work needed');
+    expect(content).toContain('Model tiers: fast 2, standard 1');
+  });
+});
+
+describe('formatPlanGraph', () => {
+  it('groups steps into waves and lists their dependencies', async () => {
+    const { formatPlanGraph } = await import('../../../src/utils/trace-logger.js');
+
+    const graph = formatPlanGraph([
+      { id: 'step_1', agent: 'calendar-agent', status: 'completed', dependsOn: [] },
+      { id: 'step_2', agent: 'email-agent', status: 'running', dependsOn: [] },
+      { id: 'step_3', agent: 'ui-agent', status: 'pending', dependsOn: ['step_1', 'step_2'] },
+    ]);
+
+    expect(graph.split('\n')).toEqual([
+      '[wave 1] step_1 calendar-agent (completed)',
+      '[wave 1] step_2 email-agent (running)',
+      '[wave 2] step_3 ui-agent (pending) <- step_1, step_2',
+    ]);
+  });
+});
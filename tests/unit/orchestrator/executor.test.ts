@@ -51,6 +51,7 @@ const mockContext = {
 const mockLogger = {
   log: vi.fn(),
   planEvent: vi.fn(),
+  modelRoute: vi.fn(),
   stepEvent: vi.fn(),
   llmRequest: vi.fn(),
   llmResponse: vi.fn(),
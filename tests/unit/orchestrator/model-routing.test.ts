@@ -0,0 +1,198 @@
+/**
+ * Unit tests for model tier routing.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import config from '../../../src/config.js';
+import { escalateTier, routeModel } from '../../../src/services/anthropic/routing.js';
+import {
+  routeComposer,
+  routePlanner,
+  routeReplanner,
+  routeStep,
+} from '../../../src/orchestrator/model-routing.js';
+import type {
+  AgentCapability,
+  ExecutionPlan,
+  PlanContext,
+  PlanStep,
+} from '../../../src/orchestrator/types.js';
+
+const TIERS = {
+  fast: 'claude-haiku-test',
+  standard: 'claude-sonnet-test',
+  strong: 'claude-opus-test',
+};
+
+function createContext(overrides: Partial<PlanContext> = {}): PlanContext {
+  return {
+    userMessage: 'Check my calendar',
+    conversationHistory: [],
+    userFacts: [],
+    userConfig: null,
+    phoneNumber: '+1234567890',
+    channel: 'sms',
+    stepResults: {},
+    errors: [],
+    ...overrides,
+  };
+}
+
+function createStep(overrides: Partial<PlanStep> = {}): PlanStep {
+  return {
+    id: 'step_1',
+    targetType: 'agent',
+    agent: 'calendar-agent',
+    task: 'List events',
+    status: 'pending',
+    retryCount: 0,
+    maxRetries: 2,
+    ...overrides,
+  };
+}
+
+function createPlan(stepCount: number, version = 1): ExecutionPlan {
+  return {
+    id: 'plan_1',
+    userRequest: 'Check my calendar',
+    goal: 'List events',
+    steps: Array.from({ length: stepCount }, (_, i) => createStep({ id: `step_${i + 1}` })),
+    status: 'executing',
+    context: createContext(),
+    version,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+const agent = (modelTier?: AgentCapability['modelTier']): AgentCapability => ({
+  name: 'memory-agent',
+  description: 'Memory',
+  tools: [],
+  examples: [],
+  modelTier,
+});
+
+describe('model routing', () => {
+  const original = { ...config.modelRouting };
+
+  beforeEach(() => {
+    config.modelRouting.enabled = true;
+    config.modelRouting.tiers = { ...TIERS };
+  });
+
+  afterEach(() => {
+    Object.assign(config.modelRouting, original);
+  });
+
+  describe('escalateTier', () => {
+    it('moves up one tier per level and stops at strong', () => {
+      expect(escalateTier('fast')).toBe('standard');
+      expect(escalateTier('fast', 2)).toBe('strong');
+      expect(escalateTier('standard', 5)).toBe('strong');
+      expect(escalateTier('standard', 0)).toBe('standard');
+    });
+  });
+
+  describe('routeModel', () => {
+    it('maps tiers to the configured models', () => {
+      expect(routeModel('planner', 'fast', 'test')).toEqual({
+        role: 'planner',
+        tier: 'fast',
+        model: TIERS.fast,
+        reason: 'test',
+      });
+    });
+
+    it('uses the role model for standard calls without a standard tier model', () => {
+      config.modelRouting.tiers = { ...TIERS, standard: undefined };
+
+      expect(routeModel('planner', 'standard', 'test').model).toBe(config.models.planner);
+      expect(routeModel('agent', 'standard', 'test').model).toBe(config.models.agent);
+      expect(routeModel('agent', 'fast', 'test').model).toBe(TIERS.fast);
+    });
+
+    it('uses the role model when routing is disabled', () => {
+      config.modelRouting.enabled = false;
+
+      const route = routeModel('composer', 'fast', 'test');
+
+      expect(route.model).toBe(config.models.composer);
+      expect(route.tier).toBe('fast');
+    });
+  });
+
+  describe('routePlanner', () => {
+    it('uses the fast tier when the classifier found no work', () => {
+      const route = routePlanner(createContext({
+        classification: { needsAsyncWork: false, immediateResponse: 'You\'re welcome!' },
+      }));
+
+      expect(route).toMatchObject({ tier: 'fast', model: TIERS.fast });
+    });
+
+    it('uses the standard tier without a classifier verdict', () => {
+      expect(routePlanner(createContext()).tier).toBe('standard');
+    });
+
+    it('treats media as work whatever the classifier said', () => {
+      const route = routePlanner(createContext({
+        classification: { needsAsyncWork: false, immediateResponse: 'Nice!' },
+        mediaAttachments: [{ url: 'https://example.com/a.jpg', contentType: 'image/jpeg', index: 0 }],
+      }));
+
+      expect(route.tier).toBe('standard');
+    });
+  });
+
+  describe('routeReplanner', () => {
+    it('escalates one tier per replan', () => {
+      expect(routeReplanner(createPlan(1, 1), createContext()).tier).toBe('strong');
+
+      const simple = createContext({ classification: { needsAsyncWork: false, immediateResponse: 'Ok' } });
+      expect(routeReplanner(createPlan(1, 1), simple)).toMatchObject({ tier: 'standard', reason: 'replan 1' });
+    });
+  });
+
+  describe('routeStep', () => {
+    it('uses the standard tier by default', () => {
+      expect(routeStep(createStep(), createPlan(1))).toMatchObject({
+        role: 'agent',
+        tier: 'standard',
+        reason: 'default',
+      });
+    });
+
+    it('applies the agent override', () => {
+      expect(routeStep(createStep(), createPlan(1), agent('fast'))).toMatchObject({
+        tier: 'fast',
+        reason: 'memory-agent override',
+      });
+    });
+
+    it('escalates on retries and replans', () => {
+      const route = routeStep(createStep({ retryCount: 1 }), createPlan(1, 2), agent('fast'));
+
+      expect(route).toMatchObject({
+        tier: 'strong',
+        model: TIERS.strong,
+        reason: 'memory-agent override, retry 1, replan 1',
+      });
+    });
+  });
+
+  describe('routeComposer', () => {
+    it('sizes the composer by the plan', () => {
+      expect(routeComposer(createPlan(0)).tier).toBe('fast');
+      expect(routeComposer(createPlan(2))).toMatchObject({ tier: 'standard', reason: '2 steps' });
+      expect(routeComposer(createPlan(3)).tier).toBe('strong');
+    });
+
+    it('uses the strong tier to explain failures', () => {
+      expect(routeComposer(createPlan(1), 'step_failed')).toMatchObject({
+        tier: 'strong',
+        reason: 'plan step_failed',
+      });
+    });
+  });
+});
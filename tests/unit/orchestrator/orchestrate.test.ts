@@ -38,9 +38,10 @@ vi.mock('../../../src/tools/index.js', () => ({
   executeTool: vi.fn(),
 }));
 
-import { orchestrate } from '../../../src/orchestrator/orchestrate.js';
+import { orchestrate, resumeOrchestration } from '../../../src/orchestrator/orchestrate.js';
+import { ORCHESTRATOR_LIMITS } from '../../../src/orchestrator/types.js';
 
-function createMockPlan(steps: Array<{ id: string; agent: string; task: string }>) {
+function createMockPlan(steps: Array<{ id: string; agent: string; task: string; dependsOn?: string[] }>) {
   return {
     id: 'plan_test_123',
     userRequest: 'test request',
@@ -63,6 +64,8 @@ function createMockPlan(steps: Array<{ id: string; agent: string; task: string }
 const mockLogger = {
   log: vi.fn(),
   planEvent: vi.fn(),
+  modelRoute: vi.fn(),
+  planGraph: vi.fn(),
   stepEvent: vi.fn(),
   llmRequest: vi.fn(),
   llmResponse: vi.fn(),
@@ -146,6 +149,23 @@ describe('orchestrate', () => {
     expect(mockExecuteStep).toHaveBeenCalledTimes(2);
   });
 
+  it('should run a retried step on a stronger model tier', async () => {
+    const plan = createMockPlan([{ id: 'step_1', agent: 'calendar-agent', task: 'List events' }]);
+    mockCreatePlan.mockResolvedValue(plan);
+    mockExecuteStep
+      .mockResolvedValueOnce({ success: false, output: null, error: 'API error' })
+      .mockResolvedValueOnce({ success: true, output: 'Events found', toolCalls: [] });
+    mockSynthesizeResponse.mockResolvedValue('Here are your events');
+
+    await orchestrate('Check my calendar', [], [], null, '+1234567890', 'whatsapp', mockLogger);
+
+    expect(mockExecuteStep.mock.calls.map(call => call[4].tier)).toEqual(['standard', 'strong']);
+    expect(mockLogger.modelRoute).toHaveBeenCalledWith(
+      expect.objectContaining({ role: 'agent', tier: 'strong', reason: 'default, retry 1' }),
+      'step_1'
+    );
+  });
+
   it('should trigger replanning after max retries exhausted', async () => {
     const plan = createMockPlan([{ id: 'step_1', agent: 'calendar-agent', task: 'List events' }]);
     mockCreatePlan.mockResolvedValue(plan);
@@ -209,4 +229,233 @@ describe('orchestrate', () => {
 
     expect(mockReplan).toHaveBeenCalled();
   });
+
+  describe('step dependencies', () => {
+    /** Resolve each step's execution by hand and record which ones overlap */
+    function trackExecutions() {
+      const running = new Set<string>();
+      const started: string[] = [];
+      const finish = new Map<string, () => void>();
+      let maxConcurrent = 0;
+
+      mockExecuteStep.mockImplementation((step: { id: string }) => {
+        running.add(step.id);
+        started.push(step.id);
+        maxConcurrent = Math.max(maxConcurrent, running.size);
+        return new Promise(resolve => {
+          finish.set(step.id, () => {
+            running.delete(step.id);
+            resolve({ success: true, output: `${step.id} output`, toolCalls: [] });
+          });
+        });
+      });
+
+      return {
+        started,
+        get maxConcurrent() { return maxConcurrent; },
+        finish: (id: string) => finish.get(id)?.(),
+      };
+    }
+
+    async function flush(): Promise<void> {
+      for (let i = 0; i < 5; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+
+    it('runs independent steps concurrently and waits for dependencies', async () => {
+      mockCreatePlan.mockResolvedValue(createMockPlan([
+        { id: 'step_1', agent: 'calendar-agent', task: 'List events', dependsOn: [] },
+        { id: 'step_2', agent: 'email-agent', task: 'List unread email', dependsOn: [] },
+        { id: 'step_3', agent: 'ui-agent', task: 'Render both', dependsOn: ['step_1', 'step_2'] },
+      ]));
+      mockSynthesizeResponse.mockResolvedValue('Here you go');
+      const executions = trackExecutions();
+
+      const pending = orchestrate('Show my day', [], [], null, '+1234567890', 'whatsapp', mockLogger);
+      await flush();
+      expect(executions.started).toEqual(['step_1', 'step_2']);
+
+      executions.finish('step_1');
+      await flush();
+      expect(executions.started).toEqual(['step_1', 'step_2']);
+
+      executions.finish('step_2');
+      await flush();
+      expect(executions.started).toEqual(['step_1', 'step_2', 'step_3']);
+
+      executions.finish('step_3');
+      const result = await pending;
+
+      expect(result.success).toBe(true);
+      expect(executions.maxConcurrent).toBe(2);
+    });
+
+    it('passes only the results a step depends on', async () => {
+      mockCreatePlan.mockResolvedValue(createMockPlan([
+        { id: 'step_1', agent: 'calendar-agent', task: 'List events', dependsOn: [] },
+        { id: 'step_2', agent: 'email-agent', task: 'List unread email', dependsOn: [] },
+        { id: 'step_3', agent: 'ui-agent', task: 'Render events', dependsOn: ['step_1'] },
+      ]));
+      mockExecuteStep.mockImplementation(async (step: { id: string }) =>
+        ({ success: true, output: `${step.id} output`, toolCalls: [] }));
+      mockSynthesizeResponse.mockResolvedValue('Done');
+
+      const result = await orchestrate('Show my events', [], [], null, '+1234567890', 'whatsapp', mockLogger);
+
+      const step3Call = mockExecuteStep.mock.calls.find(([step]) => step.id === 'step_3');
+      expect(Object.keys(step3Call?.[1].stepResults)).toEqual(['step_1']);
+      expect(Object.keys(result.stepResults).sort()).toEqual(['step_1', 'step_2', 'step_3']);
+    });
+
+    it('limits how many steps run at once', async () => {
+      mockCreatePlan.mockResolvedValue(createMockPlan(
+        ['a', 'b', 'c', 'd', 'e'].map(id => ({ id, agent: 'memory-agent', task: `Task ${id}`, dependsOn: [] }))
+      ));
+      mockSynthesizeResponse.mockResolvedValue('Done');
+      const executions = trackExecutions();
+
+      const pending = orchestrate('Do five things', [], [], null, '+1234567890', 'whatsapp', mockLogger);
+      await flush();
+      expect(executions.started).toHaveLength(ORCHESTRATOR_LIMITS.maxConcurrentSteps);
+
+      for (const id of ['a', 'b', 'c', 'd', 'e']) {
+        executions.finish(id);
+        await flush();
+      }
+      const result = await pending;
+
+      expect(result.success).toBe(true);
+      expect(executions.started).toHaveLength(5);
+      expect(executions.maxConcurrent).toBe(ORCHESTRATOR_LIMITS.maxConcurrentSteps);
+    });
+
+    it('runs steps without dependsOn one after another', async () => {
+      mockCreatePlan.mockResolvedValue(createMockPlan([
+        { id: 'step_1', agent: 'calendar-agent', task: 'List events' },
+        { id: 'step_2', agent: 'scheduler-agent', task: 'Create reminder' },
+      ]));
+      mockSynthesizeResponse.mockResolvedValue('Done');
+      const executions = trackExecutions();
+
+      const pending = orchestrate('Check calendar and remind me', [], [], null, '+1234567890', 'whatsapp', mockLogger);
+      await flush();
+      expect(executions.started).toEqual(['step_1']);
+
+      executions.finish('step_1');
+      await flush();
+      executions.finish('step_2');
+      await pending;
+
+      expect(executions.maxConcurrent).toBe(1);
+    });
+
+    it('renders the dependency graph in the trace', async () => {
+      mockCreatePlan.mockResolvedValue(createMockPlan([
+        { id: 'step_1', agent: 'calendar-agent', task: 'List events', dependsOn: [] },
+        { id: 'step_2', agent: 'ui-agent', task: 'Render events', dependsOn: ['step_1'] },
+      ]));
+      mockExecuteStep.mockResolvedValue({ success: true, output: 'Done', toolCalls: [] });
+      mockSynthesizeResponse.mockResolvedValue('Done');
+
+      await orchestrate('Show my events', [], [], null, '+1234567890', 'whatsapp', mockLogger);
+
+      expect(mockLogger.planGraph).toHaveBeenCalledWith([
+        { id: 'step_1', agent: 'calendar-agent', status: 'pending', dependsOn: [] },
+        { id: 'step_2', agent: 'ui-agent', status: 'pending', dependsOn: ['step_1'] },
+      ]);
+    });
+
+    it('lets running steps finish before replanning', async () => {
+      mockCreatePlan.mockResolvedValue(createMockPlan([
+        { id: 'step_1', agent: 'calendar-agent', task: 'List events', dependsOn: [] },
+        { id: 'step_2', agent: 'email-agent', task: 'List unread email', dependsOn: [] },
+      ]));
+      mockCanReplan.mockReturnValue(true);
+      mockReplan.mockImplementation(async (plan: { steps: Array<{ status: string }> }) => {
+        expect(plan.steps.map(s => s.status)).toEqual(['failed', 'completed']);
+        return createMockPlan([]);
+      });
+      mockExecuteStep.mockImplementation(async (step: { id: string }) => {
+        if (step.id === 'step_1') {
+          return { success: false, output: null, error: 'Calendar unavailable' };
+        }
+        await new Promise(resolve => setImmediate(resolve));
+        return { success: true, output: 'Emails', toolCalls: [] };
+      });
+      mockSynthesizeResponse.mockResolvedValue('Partial results');
+
+      const result = await orchestrate('Show my day', [], [], null, '+1234567890', 'whatsapp', mockLogger);
+
+      expect(mockReplan).toHaveBeenCalledTimes(1);
+      expect(result.stepResults.step_2.success).toBe(true);
+    });
+  });
+
+  describe('plan persistence', () => {
+    function createRecorder() {
+      const statuses: string[][] = [];
+      return {
+        statuses,
+        update: vi.fn((plan: { steps: Array<{ status: string }> }) => {
+          statuses.push(plan.steps.map(step => step.status));
+        }),
+        finish: vi.fn(),
+      };
+    }
+
+    it('records the plan as steps start and finish', async () => {
+      mockCreatePlan.mockResolvedValue(createMockPlan([
+        { id: 'step_1', agent: 'calendar-agent', task: 'List events' },
+        { id: 'step_2', agent: 'scheduler-agent', task: 'Create reminder' },
+      ]));
+      mockExecuteStep.mockResolvedValue({ success: true, output: 'Done', toolCalls: [] });
+      mockSynthesizeResponse.mockResolvedValue('All done');
+      const recorder = createRecorder();
+
+      await orchestrate(
+        'Check calendar and remind me', [], [], null, '+1234567890', 'sms', mockLogger,
+        undefined, undefined, undefined, undefined, undefined, recorder
+      );
+
+      expect(recorder.statuses).toEqual([
+        ['pending', 'pending'],
+        ['running', 'pending'],
+        ['completed', 'running'],
+        ['completed', 'completed'],
+      ]);
+    });
+
+    it('resumes a plan without re-running completed steps', async () => {
+      const plan = createMockPlan([
+        { id: 'step_1', agent: 'calendar-agent', task: 'List events' },
+        { id: 'step_2', agent: 'scheduler-agent', task: 'Create reminder' },
+      ]);
+      const completed = { success: true, output: 'Events found', toolCalls: [] };
+      Object.assign(plan.steps[0], { status: 'completed', result: completed });
+      const context = {
+        userMessage: 'Check calendar and remind me',
+        conversationHistory: [],
+        userFacts: [],
+        userConfig: null,
+        phoneNumber: '+1234567890',
+        channel: 'sms' as const,
+        stepResults: { step_1: completed },
+        errors: [],
+      };
+      mockExecuteStep.mockResolvedValue({ success: true, output: 'Reminder set', toolCalls: [] });
+      mockSynthesizeResponse.mockResolvedValue('All done');
+      const recorder = createRecorder();
+
+      const result = await resumeOrchestration({ ...plan, context } as any, mockLogger, recorder);
+
+      expect(result.success).toBe(true);
+      expect(mockCreatePlan).not.toHaveBeenCalled();
+      expect(mockExecuteStep).toHaveBeenCalledTimes(1);
+      const [step, stepContext] = mockExecuteStep.mock.calls[0];
+      expect(step.id).toBe('step_2');
+      expect(stepContext.stepResults).toEqual({ step_1: completed });
+      expect(mockLogger.planEvent).toHaveBeenCalledWith('resumed', expect.anything());
+    });
+  });
 });
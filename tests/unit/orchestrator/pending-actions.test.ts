@@ -0,0 +1,178 @@
+/**
+ * Unit tests for pending action resolution.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const {
+  mockExecuteTool,
+  mockExecuteStep,
+  mockStoreList,
+  mockStoreDelete,
+} = vi.hoisted(() => ({
+  mockExecuteTool: vi.fn(),
+  mockExecuteStep: vi.fn(),
+  mockStoreList: vi.fn(),
+  mockStoreDelete: vi.fn(),
+}));
+
+vi.mock('../../../src/tools/index.js', () => ({
+  executeTool: (...args: unknown[]) => mockExecuteTool(...args),
+}));
+
+vi.mock('../../../src/orchestrator/executor.js', () => ({
+  executeStep: (...args: unknown[]) => mockExecuteStep(...args),
+}));
+
+vi.mock('../../../src/services/pending-actions/index.js', () => ({
+  getPendingActionStore: () => ({
+    list: mockStoreList,
+    add: vi.fn(),
+    deleteAll: mockStoreDelete,
+  }),
+}));
+
+vi.mock('../../../src/services/conversation/index.js', () => ({
+  getConversationStore: () => ({
+    getHistory: vi.fn(async () => []),
+  }),
+}));
+
+vi.mock('../../../src/domains/memory/runtime/index.js', () => ({
+  getMemoryStore: () => ({
+    getFacts: vi.fn(async () => []),
+  }),
+}));
+
+vi.mock('../../../src/executor/registry.js', () => ({
+  createAgentRegistry: () => ({
+    getAgent: vi.fn(),
+    listAgents: () => [
+      { name: 'calendar-agent', tools: ['get_calendar_events'] },
+      { name: 'scheduler-agent', tools: ['create_scheduled_job', 'delete_scheduled_job'] },
+    ],
+  }),
+}));
+
+import {
+  classifyConfirmationReply,
+  resolvePendingActions,
+} from '../../../src/orchestrator/pending-actions.js';
+import type { PendingAction } from '../../../src/services/pending-actions/index.js';
+
+const action: PendingAction = {
+  id: 'action_1',
+  phoneNumber: '+15551234567',
+  channel: 'sms',
+  toolName: 'delete_scheduled_job',
+  toolInput: { job_id: 'job_123' },
+  prompt: 'Delete your daily summary?',
+  createdAt: 0,
+  expiresAt: 600000,
+};
+
+describe('classifyConfirmationReply', () => {
+  it.each(['yes', 'YES', 'Yes!', 'y', 'ok', 'Sure.', 'go ahead', 'yes please', '👍'])('treats "%s" as yes', (reply) => {
+    expect(classifyConfirmationReply(reply)).toBe('yes');
+  });
+
+  it.each(['no', 'No.', 'nope', 'cancel', 'don’t', 'never mind', 'no thanks'])('treats "%s" as no', (reply) => {
+    expect(classifyConfirmationReply(reply)).toBe('no');
+  });
+
+  it.each(['yes but only the weekly one', 'no, delete the other one', 'what jobs do I have?'])('treats "%s" as an edit', (reply) => {
+    expect(classifyConfirmationReply(reply)).toBe('edit');
+  });
+});
+
+describe('resolvePendingActions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStoreList.mockResolvedValue([]);
+  });
+
+  it('runs the parked tool call on yes, without confirmation', async () => {
+    mockExecuteTool.mockResolvedValue(JSON.stringify({ success: true }));
+
+    const reply = await resolvePendingActions([action], 'yes', null);
+
+    expect(reply).toBe('Done.');
+    expect(mockStoreDelete).toHaveBeenCalledWith(action.phoneNumber);
+    expect(mockExecuteTool).toHaveBeenCalledWith('delete_scheduled_job', { job_id: 'job_123' }, {
+      phoneNumber: action.phoneNumber,
+      channel: 'sms',
+      userConfig: null,
+      confirmedByUser: true,
+    });
+  });
+
+  it('reports a failed tool call', async () => {
+    mockExecuteTool.mockResolvedValue(JSON.stringify({ success: false, error: 'Job not found' }));
+
+    expect(await resolvePendingActions([action], 'yes', null)).toBe("Sorry, that didn't work: Job not found");
+  });
+
+  it('runs every action of a batch on yes and reports the ones that failed', async () => {
+    const second: PendingAction = {
+      ...action,
+      id: 'action_2',
+      toolInput: { job_id: 'job_456' },
+      prompt: 'Delete your weekly digest?',
+    };
+    mockExecuteTool
+      .mockResolvedValueOnce(JSON.stringify({ success: true }))
+      .mockResolvedValueOnce(JSON.stringify({ success: false, error: 'Job not found' }));
+
+    const reply = await resolvePendingActions([action, second], 'yes', null);
+
+    expect(mockExecuteTool).toHaveBeenCalledTimes(2);
+    expect(mockExecuteTool.mock.calls[1][1]).toEqual({ job_id: 'job_456' });
+    expect(reply).toBe("Done 1 of 2. Sorry, these didn't work:\n- Delete your weekly digest? Job not found");
+  });
+
+  it('drops the action on no', async () => {
+    const reply = await resolvePendingActions([action], 'no', null);
+
+    expect(reply).toBe("Okay, I won't do that.");
+    expect(mockStoreDelete).toHaveBeenCalledWith(action.phoneNumber);
+    expect(mockExecuteTool).not.toHaveBeenCalled();
+    expect(mockExecuteStep).not.toHaveBeenCalled();
+  });
+
+  it('hands an edit to the agent that owns the tool', async () => {
+    mockExecuteStep.mockResolvedValue({ success: true, output: 'Delete your weekly digest instead?' });
+    mockStoreList.mockResolvedValue([{ ...action, id: 'action_2', toolInput: { job_id: 'job_456' } }]);
+
+    const reply = await resolvePendingActions([action], 'the weekly one instead', null);
+
+    expect(reply).toBe('Delete your weekly digest instead?');
+    expect(mockExecuteTool).not.toHaveBeenCalled();
+    const [step, context] = mockExecuteStep.mock.calls[0];
+    expect(step.agent).toBe('scheduler-agent');
+    expect(step.task).toContain('Delete your daily summary?');
+    expect(step.task).toContain('the weekly one instead');
+    expect(context.userMessage).toBe('the weekly one instead');
+  });
+
+  it('returns null when the agent proposes no revised call', async () => {
+    mockExecuteStep.mockResolvedValue({ success: true, output: 'You have two jobs.' });
+
+    expect(await resolvePendingActions([action], "what's on my calendar Friday?", null)).toBeNull();
+    expect(mockExecuteTool).not.toHaveBeenCalled();
+  });
+
+  it('drops revised calls and returns null when the agent fails', async () => {
+    mockExecuteStep.mockResolvedValue({ success: false, error: 'boom' });
+    mockStoreList.mockResolvedValue([{ ...action, id: 'action_2' }]);
+
+    expect(await resolvePendingActions([action], 'the weekly one instead', null)).toBeNull();
+    expect(mockStoreDelete).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null without running an agent when none owns the tool', async () => {
+    const orphan: PendingAction = { ...action, toolName: 'delete_user_data', toolInput: { confirm: true } };
+
+    expect(await resolvePendingActions([orphan], 'only my settings', null)).toBeNull();
+    expect(mockExecuteStep).not.toHaveBeenCalled();
+  });
+});
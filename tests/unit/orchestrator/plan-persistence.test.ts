@@ -0,0 +1,164 @@
+/**
+ * Unit tests for plan persistence.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createPlanRecorder, restorePlan } from '../../../src/orchestrator/plan-persistence.js';
+import type { ExecutionPlan, PlanContext } from '../../../src/orchestrator/types.js';
+import type { PlanRecord, PlanStore } from '../../../src/services/plans/index.js';
+
+const initial: PlanRecord = {
+  requestId: 'req_1',
+  phoneNumber: '+15551234567',
+  channel: 'sms',
+  userMessage: 'What is on my calendar tomorrow?',
+  hasMedia: false,
+  status: 'planning',
+  version: 1,
+  steps: [],
+  createdAt: 1000,
+  updatedAt: 1000,
+};
+
+function createContext(): PlanContext {
+  return {
+    userMessage: initial.userMessage,
+    conversationHistory: [],
+    userFacts: [],
+    userConfig: null,
+    phoneNumber: initial.phoneNumber,
+    channel: 'sms',
+    stepResults: {},
+    errors: [],
+  };
+}
+
+function createPlan(): ExecutionPlan {
+  return {
+    id: 'plan_1',
+    userRequest: initial.userMessage,
+    goal: 'List tomorrow\'s events',
+    steps: [{
+      id: 'step_1',
+      targetType: 'agent',
+      agent: 'calendar-agent',
+      task: 'List events for tomorrow',
+      status: 'running',
+      retryCount: 0,
+      maxRetries: 2,
+      dependsOn: [],
+    }],
+    status: 'executing',
+    context: createContext(),
+    version: 1,
+    createdAt: new Date(1000),
+    updatedAt: new Date(1000),
+  };
+}
+
+function createStore() {
+  return {
+    save: vi.fn(async () => {}),
+    get: vi.fn(),
+    getUnfinished: vi.fn(),
+    deleteFinished: vi.fn(),
+  } satisfies PlanStore;
+}
+
+describe('createPlanRecorder', () => {
+  it('saves the request as soon as it is created', () => {
+    const store = createStore();
+
+    createPlanRecorder(initial, store);
+
+    expect(store.save).toHaveBeenCalledWith(expect.objectContaining({ requestId: 'req_1', status: 'planning' }));
+  });
+
+  it('saves plan and step state on update', () => {
+    const store = createStore();
+    const recorder = createPlanRecorder(initial, store);
+
+    recorder.update(createPlan());
+
+    expect(store.save).toHaveBeenLastCalledWith(expect.objectContaining({
+      planId: 'plan_1',
+      goal: 'List tomorrow\'s events',
+      status: 'executing',
+      steps: [expect.objectContaining({ id: 'step_1', status: 'running', dependsOn: [] })],
+    }));
+  });
+
+  it('saves the outcome and reply on finish', () => {
+    const store = createStore();
+    const recorder = createPlanRecorder(initial, store);
+
+    recorder.finish({ success: false, response: 'Sorry, that failed.', error: 'Step failed' });
+
+    expect(store.save).toHaveBeenLastCalledWith(expect.objectContaining({
+      status: 'failed',
+      response: 'Sorry, that failed.',
+      error: 'Step failed',
+    }));
+  });
+
+  it('logs save errors instead of throwing', async () => {
+    const store = createStore();
+    store.save.mockRejectedValue(new Error('disk full'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() => createPlanRecorder(initial, store)).not.toThrow();
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+
+    expect(String(warn.mock.calls[0][0])).toContain('disk full');
+    warn.mockRestore();
+  });
+});
+
+describe('restorePlan', () => {
+  const record: PlanRecord = {
+    ...initial,
+    planId: 'plan_1',
+    goal: 'List events and note them',
+    status: 'executing',
+    version: 2,
+    steps: [
+      {
+        id: 'step_1',
+        targetType: 'agent',
+        agent: 'calendar-agent',
+        task: 'List events',
+        status: 'completed',
+        retryCount: 0,
+        maxRetries: 2,
+        result: { success: true, output: '2 events' },
+      },
+      {
+        id: 'step_2',
+        targetType: 'agent',
+        agent: 'memory-agent',
+        task: 'Note the busy day',
+        status: 'running',
+        retryCount: 1,
+        maxRetries: 2,
+        dependsOn: ['step_1'],
+        result: { success: false, output: null, error: 'timeout' },
+      },
+    ],
+  };
+
+  it('restores completed steps with their results', () => {
+    const context = createContext();
+    const plan = restorePlan(record, context);
+
+    expect(plan).toMatchObject({ id: 'plan_1', version: 2, status: 'executing', goal: 'List events and note them' });
+    expect(plan.steps[0]).toMatchObject({ status: 'completed', result: { success: true, output: '2 events' } });
+    expect(context.stepResults).toEqual({ step_1: { success: true, output: '2 events' } });
+  });
+
+  it('puts interrupted steps back to pending without their stale result', () => {
+    const plan = restorePlan(record, createContext());
+
+    expect(plan.steps[1]).toMatchObject({ status: 'pending', retryCount: 1, dependsOn: ['step_1'] });
+    expect(plan.steps[1].result).toBeUndefined();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for resuming interrupted plans on startup.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockResumeWithOrchestrator } = vi.hoisted(() => ({
+  mockResumeWithOrchestrator: vi.fn(),
+}));
+
+vi.mock('../../../src/orchestrator/handler.js', () => ({
+  resumeWithOrchestrator: (...args: unknown[]) => mockResumeWithOrchestrator(...args),
+}));
+
+vi.mock('../../../src/services/user-config/index.js', () => ({
+  getUserConfigStore: () => ({
+    get: vi.fn(async () => ({ phoneNumber: '+15551234567', timezone: 'America/New_York' })),
+  }),
+}));
+
+import {
+  PLAN_RETENTION_DAYS,
+  formatInterruptedNotice,
+  recoverInterruptedPlans,
+} from '../../../src/orchestrator/plan-recovery.js';
+import { ORCHESTRATOR_LIMITS } from '../../../src/orchestrator/types.js';
+import type { PlanRecord, PlanStore } from '../../../src/services/plans/index.js';
+
+const NOW = Date.parse('2026-03-10T15:00:00Z');
+
+function createRecord(overrides: Partial<PlanRecord> = {}): PlanRecord {
+  return {
+    requestId: 'req_1',
+    planId: 'plan_1',
+    phoneNumber: '+15551234567',
+    channel: 'sms',
+    userMessage: 'What is on my calendar tomorrow?',
+    hasMedia: false,
+    status: 'executing',
+    version: 1,
+    steps: [],
+    createdAt: NOW - 60_000,
+    updatedAt: NOW - 30_000,
+    ...overrides,
+  };
+}
+
+function createStore(records: PlanRecord[]) {
+  return {
+    save: vi.fn(async () => {}),
+    get: vi.fn(),
+    getUnfinished: vi.fn(async () => records),
+    deleteFinished: vi.fn(async () => 4),
+  } satisfies PlanStore;
+}
+
+describe('recoverInterruptedPlans', () => {
+  const sendReply = vi.fn(async () => {});
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('resumes recent plans and sends their reply', async () => {
+    const record = createRecord();
+    const store = createStore([record]);
+    mockResumeWithOrchestrator.mockResolvedValue('You have 2 events tomorrow.');
+
+    const result = await recoverInterruptedPlans(sendReply, { store, nowMs: NOW });
+
+    expect(result).toEqual({ resumed: 1, failed: 0, pruned: 4 });
+    expect(store.getUnfinished).toHaveBeenCalledWith(NOW);
+    expect(mockResumeWithOrchestrator).toHaveBeenCalledWith(record, expect.objectContaining({ timezone: 'America/New_York' }));
+    expect(sendReply).toHaveBeenCalledWith('+15551234567', 'sms', 'You have 2 events tomorrow.');
+  });
+
+  it('fails plans too old to resume and asks the user to resend', async () => {
+    const record = createRecord({ createdAt: NOW - ORCHESTRATOR_LIMITS.maxResumeAgeMs - 1 });
+    const store = createStore([record]);
+
+    const result = await recoverInterruptedPlans(sendReply, { store, nowMs: NOW });
+
+    expect(result.failed).toBe(1);
+    expect(mockResumeWithOrchestrator).not.toHaveBeenCalled();
+    expect(store.save).toHaveBeenCalledWith(expect.objectContaining({
+      requestId: 'req_1',
+      status: 'failed',
+      error: 'Interrupted by restart (too_old)',
+    }));
+    expect(sendReply).toHaveBeenCalledWith('+15551234567', 'sms', formatInterruptedNotice(record.userMessage));
+  });
+
+  it('fails plans with media, which are not persisted', async () => {
+    const store = createStore([createRecord({ hasMedia: true, channel: 'whatsapp' })]);
+
+    await recoverInterruptedPlans(sendReply, { store, nowMs: NOW });
+
+    expect(mockResumeWithOrchestrator).not.toHaveBeenCalled();
+    expect(store.save).toHaveBeenCalledWith(expect.objectContaining({
+      error: 'Interrupted by restart (media_not_persisted)',
+    }));
+    expect(sendReply).toHaveBeenCalledWith('+15551234567', 'whatsapp', expect.stringContaining('send it again'));
+  });
+
+  it('fails plans interrupted mid-step instead of running the step twice', async () => {
+    const record = createRecord({
+      userMessage: 'Add lunch with Sam on Friday',
+      steps: [
+        {
+          id: 'step_1',
+          targetType: 'agent',
+          agent: 'calendar-agent',
+          task: 'Create the lunch event',
+          status: 'running',
+          retryCount: 0,
+          maxRetries: 2,
+        },
+        {
+          id: 'step_2',
+          targetType: 'agent',
+          agent: 'memory-agent',
+          task: 'Remember Sam is a friend',
+          status: 'pending',
+          retryCount: 0,
+          maxRetries: 2,
+          dependsOn: ['step_1'],
+        },
+      ],
+    });
+    const store = createStore([record]);
+
+    const result = await recoverInterruptedPlans(sendReply, { store, nowMs: NOW });
+
+    expect(result).toMatchObject({ resumed: 0, failed: 1 });
+    expect(mockResumeWithOrchestrator).not.toHaveBeenCalled();
+    expect(store.save).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'failed',
+      error: 'Interrupted by restart (step_interrupted)',
+    }));
+    expect(sendReply).toHaveBeenCalledWith('+15551234567', 'sms', formatInterruptedNotice(record.userMessage, true));
+    expect(formatInterruptedNotice(record.userMessage, true)).toContain('may have done only part of it');
+  });
+
+  it('keeps going when one plan cannot be recovered', async () => {
+    const store = createStore([createRecord({ requestId: 'req_1' }), createRecord({ requestId: 'req_2' })]);
+    mockResumeWithOrchestrator.mockResolvedValue('Done.');
+    sendReply.mockRejectedValueOnce(new Error('Twilio down'));
+
+    const result = await recoverInterruptedPlans(sendReply, { store, nowMs: NOW });
+
+    expect(result.resumed).toBe(1);
+    expect(sendReply).toHaveBeenCalledTimes(2);
+  });
+
+  it('prunes finished plans past the retention period', async () => {
+    const store = createStore([]);
+
+    await recoverInterruptedPlans(sendReply, { store, nowMs: NOW });
+
+    expect(store.deleteFinished).toHaveBeenCalledWith(NOW - PLAN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  });
+});
+
+describe('formatInterruptedNotice', () => {
+  it('quotes a shortened request', () => {
+    const notice = formatInterruptedNotice('Find a time next week for lunch with Sam and Priya and add it to both calendars');
+
+    expect(notice).toContain('"Find a time next week for lunch with Sam and Priya and ad..."');
+    expect(notice).toContain('Could you send it again?');
+  });
+});
@@ -30,6 +30,7 @@ vi.mock('../../../src/orchestrator/media-context.js', () => ({
 }));
 
 // Import after mocks
+import config from '../../../src/config.js';
 import { createPlan, resolveTaskDates } from '../../../src/orchestrator/planner.js';
 import type { PlanContext, AgentRegistry } from '../../../src/orchestrator/types.js';
 
@@ -80,6 +81,20 @@ describe('createPlan', () => {
       expect(plan.goal).toBe('Show calendar events');
     });
 
+    it('should plan small talk on the fast model tier', async () => {
+      setMockResponses([
+        createTextResponse(JSON.stringify({ analysis: 'Thanks', goal: 'Acknowledge', steps: [] })),
+      ]);
+
+      await createPlan({
+        ...baseContext,
+        userMessage: 'thanks!',
+        classification: { needsAsyncWork: false, immediateResponse: 'You\'re welcome!' },
+      }, mockRegistry);
+
+      expect(getCreateCalls()[0].model).toBe(config.modelRouting.tiers.fast);
+    });
+
     it('should create multi-step plan for complex requests', async () => {
       setMockResponses([
         createTextResponse(JSON.stringify({
@@ -102,6 +117,25 @@ describe('createPlan', () => {
       expect(plan.steps[1].agent).toBe('scheduler-agent');
     });
 
+    it('should keep dependsOn edges that point to earlier steps', async () => {
+      setMockResponses([
+        createTextResponse(JSON.stringify({
+          analysis: 'User wants events and email rendered together',
+          goal: 'Show events and email',
+          steps: [
+            { id: 'step_1', agent: 'calendar-agent', task: 'List events', dependsOn: [] },
+            { id: 'step_2', agent: 'email-agent', task: 'List unread email', dependsOn: ['step_3'] },
+            { id: 'step_3', agent: 'ui-agent', task: 'Render both', dependsOn: ['step_1', 'step_2', 'step_3', 'step_9'] },
+            { id: 'step_4', agent: 'memory-agent', task: 'Note the summary' },
+          ],
+        })),
+      ]);
+
+      const plan = await createPlan(baseContext, mockRegistry);
+
+      expect(plan.steps.map(s => s.dependsOn)).toEqual([[], [], ['step_1', 'step_2'], undefined]);
+    });
+
     it('should set initial step status to pending', async () => {
       setMockResponses([
         createTextResponse(JSON.stringify({
@@ -250,6 +250,24 @@ describe('replan', () => {
     expect(newStep?.retryCount).toBe(0);
   });
 
+  it('should keep dependsOn edges to completed and earlier new steps', async () => {
+    setMockResponses([
+      createTextResponse(JSON.stringify({
+        analysis: 'Retry email with a lookup that can run alongside it',
+        steps: [
+          { id: 'step_1', agent: 'calendar-agent', task: 'Get calendar events', status: 'completed' },
+          { id: 'step_3', agent: 'memory-agent', task: 'Look up email preferences', dependsOn: [] },
+          { id: 'step_4', agent: 'email-agent', task: 'Send email summary', dependsOn: ['step_1', 'step_3', 'step_2'] },
+        ],
+      })),
+    ]);
+
+    const revisedPlan = await replan(createBasePlan(), createBaseContext(), mockRegistry);
+
+    expect(revisedPlan.steps.find(s => s.id === 'step_3')?.dependsOn).toEqual([]);
+    expect(revisedPlan.steps.find(s => s.id === 'step_4')?.dependsOn).toEqual(['step_1', 'step_3']);
+  });
+
   it('should increment version number', async () => {
     setMockResponses([
       createTextResponse(JSON.stringify({
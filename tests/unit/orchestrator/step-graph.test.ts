@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectDependencyResults,
+  getReadySteps,
+  getStepDependencies,
+  normalizeDependsOn,
+} from '../../../src/orchestrator/step-graph.js';
+import type { PlanStep, StepStatus } from '../../../src/orchestrator/types.js';
+
+function step(id: string, status: StepStatus = 'pending', dependsOn?: string[]): PlanStep {
+  return {
+    id,
+    targetType: 'agent',
+    agent: 'memory-agent',
+    task: `Task ${id}`,
+    status,
+    retryCount: 0,
+    maxRetries: 2,
+    dependsOn,
+  };
+}
+
+describe('normalizeDependsOn', () => {
+  it('keeps only earlier step IDs, once each', () => {
+    expect(normalizeDependsOn(['step_1', 'step_3', 'step_1', 42], ['step_1', 'step_2'])).toEqual(['step_1']);
+  });
+
+  it('returns undefined when no list was given', () => {
+    expect(normalizeDependsOn(undefined, ['step_1'])).toBeUndefined();
+    expect(normalizeDependsOn('step_1', ['step_1'])).toBeUndefined();
+  });
+});
+
+describe('getStepDependencies', () => {
+  it('defaults to the previous step', () => {
+    const steps = [step('a'), step('b')];
+    expect(getStepDependencies(steps[0], steps)).toEqual([]);
+    expect(getStepDependencies(steps[1], steps)).toEqual(['a']);
+  });
+
+  it('uses explicit edges when present', () => {
+    const steps = [step('a', 'pending', []), step('b', 'pending', [])];
+    expect(getStepDependencies(steps[1], steps)).toEqual([]);
+  });
+});
+
+describe('getReadySteps', () => {
+  it('returns pending steps whose dependencies have completed', () => {
+    const steps = [
+      step('a', 'completed', []),
+      step('b', 'running', []),
+      step('c', 'pending', ['a']),
+      step('d', 'pending', ['a', 'b']),
+      step('e', 'pending', []),
+    ];
+    expect(getReadySteps(steps).map(s => s.id)).toEqual(['c', 'e']);
+  });
+});
+
+describe('collectDependencyResults', () => {
+  it('includes direct and indirect dependencies only', () => {
+    const steps = [
+      step('a', 'completed', []),
+      step('b', 'completed', []),
+      step('c', 'completed', ['a']),
+      step('d', 'pending', ['c']),
+    ];
+    const stepResults = Object.fromEntries(
+      ['a', 'b', 'c'].map(id => [id, { success: true, output: id }])
+    );
+
+    expect(Object.keys(collectDependencyResults(steps[3], steps, stepResults))).toEqual(['a', 'c']);
+  });
+});
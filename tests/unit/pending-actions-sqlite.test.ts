@@ -0,0 +1,87 @@
+/**
+ * Unit tests for SqlitePendingActionStore.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SqlitePendingActionStore } from '../../src/services/pending-actions/sqlite.js';
+import type { PendingAction } from '../../src/services/pending-actions/types.js';
+import fs from 'fs';
+import path from 'path';
+
+const TEST_DB_PATH = './data/test-pending-actions.db';
+const PHONE = '+15551234567';
+const NOW = Date.parse('2026-03-10T15:00:00Z');
+
+function createAction(overrides: Partial<PendingAction> = {}): PendingAction {
+  return {
+    id: 'action_1',
+    phoneNumber: PHONE,
+    channel: 'sms',
+    toolName: 'delete_scheduled_job',
+    toolInput: { job_id: 'job_123' },
+    prompt: 'Delete your daily summary?',
+    createdAt: NOW,
+    expiresAt: NOW + 10 * 60 * 1000,
+    ...overrides,
+  };
+}
+
+describe('SqlitePendingActionStore', () => {
+  let store: SqlitePendingActionStore;
+
+  beforeEach(() => {
+    const dir = path.dirname(TEST_DB_PATH);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+    store = new SqlitePendingActionStore(TEST_DB_PATH);
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('stores and lists an action', async () => {
+    await store.add(createAction());
+
+    expect(await store.list(PHONE, NOW)).toEqual([createAction()]);
+  });
+
+  it('returns an empty list when the user has no actions', async () => {
+    expect(await store.list(PHONE, NOW)).toEqual([]);
+  });
+
+  it('keeps every action parked for a user, oldest first', async () => {
+    await store.add(createAction());
+    await store.add(createAction({ id: 'action_2', toolInput: { job_id: 'job_456' }, createdAt: NOW + 1 }));
+    await store.add(createAction({ id: 'action_3', phoneNumber: '+15559876543' }));
+
+    const actions = await store.list(PHONE, NOW);
+    expect(actions.map(a => a.id)).toEqual(['action_1', 'action_2']);
+    expect(actions[1].toolInput).toEqual({ job_id: 'job_456' });
+  });
+
+  it('drops expired actions', async () => {
+    await store.add(createAction());
+    await store.add(createAction({ id: 'action_2', expiresAt: NOW + 20 * 60 * 1000 }));
+
+    expect((await store.list(PHONE, NOW + 10 * 60 * 1000)).map(a => a.id)).toEqual(['action_2']);
+    expect((await store.list(PHONE, NOW)).map(a => a.id)).toEqual(['action_2']);
+  });
+
+  it('deletes all of a user\'s actions', async () => {
+    await store.add(createAction());
+    await store.add(createAction({ id: 'action_2' }));
+    await store.add(createAction({ id: 'action_3', phoneNumber: '+15559876543' }));
+    await store.deleteAll(PHONE);
+
+    expect(await store.list(PHONE, NOW)).toEqual([]);
+    expect(await store.list('+15559876543', NOW)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for SqlitePlanStore.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SqlitePlanStore } from '../../src/services/plans/sqlite.js';
+import type { PlanRecord } from '../../src/services/plans/types.js';
+import fs from 'fs';
+import path from 'path';
+
+const TEST_DB_PATH = './data/test-plans.db';
+const NOW = Date.parse('2026-03-10T15:00:00Z');
+
+function createRecord(overrides: Partial<PlanRecord> = {}): PlanRecord {
+  return {
+    requestId: 'req_1',
+    planId: 'plan_1',
+    phoneNumber: '+15551234567',
+    channel: 'sms',
+    userMessage: 'What is on my calendar tomorrow?',
+    messageId: 'msg_1',
+    hasMedia: false,
+    goal: 'List tomorrow\'s events',
+    status: 'executing',
+    version: 1,
+    steps: [
+      {
+        id: 'step_1',
+        targetType: 'agent',
+        agent: 'calendar-agent',
+        task: 'List events for tomorrow',
+        status: 'completed',
+        retryCount: 0,
+        maxRetries: 2,
+        dependsOn: [],
+        result: { success: true, output: '2 events' },
+      },
+      {
+        id: 'step_2',
+        targetType: 'agent',
+        agent: 'memory-agent',
+        task: 'Note the busy day',
+        status: 'running',
+        retryCount: 1,
+        maxRetries: 2,
+      },
+    ],
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('SqlitePlanStore', () => {
+  let store: SqlitePlanStore;
+
+  beforeEach(() => {
+    const dir = path.dirname(TEST_DB_PATH);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+    store = new SqlitePlanStore(TEST_DB_PATH);
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('stores and retrieves a plan with its steps', async () => {
+    await store.save(createRecord());
+
+    expect(await store.get('req_1')).toEqual(createRecord());
+  });
+
+  it('stores a request before its plan exists', async () => {
+    const record = createRecord({ planId: undefined, goal: undefined, status: 'planning', steps: [] });
+    await store.save(record);
+
+    expect(await store.get('req_1')).toEqual(record);
+  });
+
+  it('returns null for an unknown request', async () => {
+    expect(await store.get('req_missing')).toBeNull();
+  });
+
+  it('replaces the steps on each save', async () => {
+    await store.save(createRecord());
+    const revised = createRecord({
+      version: 2,
+      steps: [createRecord().steps[0]],
+      status: 'completed',
+      response: 'You have 2 events tomorrow.',
+    });
+    await store.save(revised);
+
+    expect(await store.get('req_1')).toEqual(revised);
+  });
+
+  it('lists unfinished plans created before a time, oldest first', async () => {
+    await store.save(createRecord({ requestId: 'req_2', createdAt: NOW + 1000 }));
+    await store.save(createRecord({ requestId: 'req_1', status: 'planning', steps: [] }));
+    await store.save(createRecord({ requestId: 'req_done', status: 'completed' }));
+    await store.save(createRecord({ requestId: 'req_new', createdAt: NOW + 5000 }));
+
+    const unfinished = await store.getUnfinished(NOW + 5000);
+
+    expect(unfinished.map(r => r.requestId)).toEqual(['req_1', 'req_2']);
+  });
+
+  it('deletes finished plans last updated before a time', async () => {
+    await store.save(createRecord({ requestId: 'req_old', status: 'completed' }));
+    await store.save(createRecord({ requestId: 'req_failed', status: 'failed' }));
+    await store.save(createRecord({ requestId: 'req_recent', status: 'completed', updatedAt: NOW + 5000 }));
+    await store.save(createRecord({ requestId: 'req_running' }));
+
+    expect(await store.deleteFinished(NOW + 1000)).toBe(2);
+    expect(await store.get('req_old')).toBeNull();
+    expect(await store.get('req_failed')).toBeNull();
+    expect(await store.get('req_recent')).not.toBeNull();
+    expect((await store.get('req_running'))?.steps).toHaveLength(2);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Unit tests for scheduled job execution: run history, auto-disable, conditions and budgets.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+
+const { mockExecuteWithTools, mockExecuteSkill, mockSend, mockIsOverBudget } = vi.hoisted(() => ({
+  mockExecuteWithTools: vi.fn(),
+  mockExecuteSkill: vi.fn(),
+  mockSend: vi.fn(),
+  mockIsOverBudget: vi.fn(),
+}));
+
+vi.mock('../../../src/domains/scheduler/providers/executor.js', () => ({
+  getExecuteWithTools: vi.fn(() => mockExecuteWithTools),
+}));
+
+vi.mock('../../../src/domains/scheduler/providers/skills.js', () => ({
+  executeFilesystemSkillByName: mockExecuteSkill,
+}));
+
+vi.mock('../../../src/domains/scheduler/providers/sms.js', () => ({
+  sendScheduledMessage: mockSend,
+}));
+
+vi.mock('../../../src/domains/scheduler/providers/memory.js', () => ({
+  getMemoryStore: vi.fn(() => ({ getFacts: vi.fn(async () => []) })),
+}));
+
+vi.mock('../../../src/services/usage/budget.js', () => ({
+  isOverBudget: mockIsOverBudget,
+}));
+
+vi.mock('../../../src/services/user-config/index.js', () => ({
+  getUserConfigStore: vi.fn(() => ({ get: vi.fn(async () => ({ timezone: 'UTC' })) })),
+}));
+
+import { executeJob, MAX_CONSECUTIVE_FAILURES } from '../../../src/domains/scheduler/service/executor.js';
+import {
+  initSchedulerDb,
+  getJobById,
+  getLastJobRun,
+  getLastReminderSent,
+  listJobRuns,
+} from '../../../src/domains/scheduler/repo/sqlite.js';
+import type { CreateJobInput, ScheduledJob } from '../../../src/domains/scheduler/types.js';
+import { createTestScheduledJob } from '../../helpers/scheduler-jobs.js';
+
+const PHONE = '+15551234567';
+
+describe('executeJob', () => {
+  let db: Database.Database;
+
+  function createRecurringJob(overrides: Partial<CreateJobInput> = {}): ScheduledJob {
+    return createTestScheduledJob(db, {
+      phoneNumber: PHONE,
+      nextRunAt: Math.floor(Date.now() / 1000) - 60,
+      ...overrides,
+    });
+  }
+
+  async function runDue(jobId: string) {
+    const job = getJobById(db, jobId);
+    if (!job) throw new Error('job missing');
+    return executeJob(db, job);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db = new Database(':memory:');
+    initSchedulerDb(db);
+    mockSend.mockResolvedValue(undefined);
+    mockIsOverBudget.mockResolvedValue(false);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('records a successful run with output preview and token usage', async () => {
+    const job = createRecurringJob();
+    mockExecuteWithTools.mockResolvedValueOnce({
+      success: true,
+      output: 'You have 3 meetings today.',
+      tokenUsage: { input: 900, output: 40 },
+    });
+
+    const result = await runDue(job.id);
+
+    expect(result.success).toBe(true);
+    const run = getLastJobRun(db, job.id);
+    expect(run).toMatchObject({
+      status: 'success',
+      outputPreview: 'You have 3 meetings today.',
+      inputTokens: 900,
+      outputTokens: 40,
+    });
+    expect(run?.finishedAt).toBeGreaterThanOrEqual(run?.startedAt ?? Infinity);
+    expect(getLastReminderSent(db, PHONE)).toMatchObject({ jobId: job.id, prompt: 'Summarize my day' });
+  });
+
+  it('records an LLM failure as a failed run even though the user is messaged', async () => {
+    const job = createRecurringJob();
+    mockExecuteWithTools.mockResolvedValueOnce({ success: false, error: 'Calendar API down' });
+
+    const result = await runDue(job.id);
+
+    expect(result.success).toBe(false);
+    expect(mockSend).toHaveBeenCalledWith(PHONE, 'sms', expect.stringContaining('Calendar API down'));
+    expect(getLastJobRun(db, job.id)).toMatchObject({ status: 'failed', error: 'Calendar API down' });
+    expect(getJobById(db, job.id)?.consecutiveFailures).toBe(1);
+    expect(getLastReminderSent(db, PHONE)).toBeNull();
+  });
+
+  it('records a failed run when sending throws', async () => {
+    const job = createRecurringJob();
+    mockExecuteWithTools.mockResolvedValueOnce({ success: true, output: 'Hello' });
+    mockSend.mockRejectedValueOnce(new Error('Twilio unavailable'));
+
+    const result = await runDue(job.id);
+
+    expect(result.success).toBe(false);
+    expect(getLastJobRun(db, job.id)).toMatchObject({ status: 'failed', error: 'Twilio unavailable' });
+  });
+
+  it('resets the failure count after a success', async () => {
+    const job = createRecurringJob();
+    mockExecuteWithTools
+      .mockResolvedValueOnce({ success: false, error: 'timeout' })
+      .mockResolvedValueOnce({ success: true, output: 'All good' });
+
+    await runDue(job.id);
+    expect(getJobById(db, job.id)?.consecutiveFailures).toBe(1);
+
+    await runDue(job.id);
+    expect(getJobById(db, job.id)?.consecutiveFailures).toBe(0);
+  });
+
+  it('disables the job and notifies the user after repeated failures', async () => {
+    const job = createRecurringJob();
+    mockExecuteWithTools.mockResolvedValue({ success: false, error: 'Calendar API down' });
+
+    for (let i = 0; i < MAX_CONSECUTIVE_FAILURES; i++) {
+      await runDue(job.id);
+    }
+
+    const disabled = getJobById(db, job.id);
+    expect(disabled?.enabled).toBe(false);
+    expect(disabled?.consecutiveFailures).toBe(MAX_CONSECUTIVE_FAILURES);
+    expect(disabled?.disabledReason).toBe('Calendar API down');
+    expect(mockSend).toHaveBeenLastCalledWith(PHONE, 'sms', expect.stringContaining('I paused your scheduled task "Morning briefing"'));
+    expect(listJobRuns(db, { jobId: job.id, limit: 10 })).toHaveLength(MAX_CONSECUTIVE_FAILURES);
+  });
+
+  it('stops retrying a one-time job that keeps failing', async () => {
+    const job = createRecurringJob({ isRecurring: false, cronExpression: '@once' });
+    mockExecuteWithTools.mockResolvedValue({ success: true, output: 'Reminder' });
+    mockSend.mockRejectedValue(new Error('Twilio unavailable'));
+
+    for (let i = 0; i < MAX_CONSECUTIVE_FAILURES; i++) {
+      await runDue(job.id);
+    }
+
+    expect(getJobById(db, job.id)?.enabled).toBe(false);
+  });
+
+  it('keeps the run history of a one-time job after it is deleted', async () => {
+    const job = createRecurringJob({ isRecurring: false, cronExpression: '@once' });
+    mockExecuteWithTools.mockResolvedValueOnce({ success: true, output: 'Call mom' });
+
+    await runDue(job.id);
+
+    expect(getJobById(db, job.id)).toBeNull();
+    expect(getLastJobRun(db, job.id)).toMatchObject({ status: 'success', outputPreview: 'Call mom' });
+  });
+
+  it('runs agents as scheduler usage', async () => {
+    const job = createRecurringJob();
+    mockExecuteWithTools.mockResolvedValueOnce({ success: true, output: 'Done' });
+
+    await runDue(job.id);
+
+    expect(mockExecuteWithTools.mock.calls[0][3]).toMatchObject({ usagePurpose: 'scheduler' });
+  });
+
+  it('records skill failures', async () => {
+    const job = createRecurringJob({ skillName: 'daily-briefing' });
+    mockExecuteSkill.mockResolvedValueOnce({ success: false, error: 'Weather API quota exceeded' });
+
+    const result = await runDue(job.id);
+
+    expect(result.success).toBe(false);
+    expect(getLastJobRun(db, job.id)).toMatchObject({
+      status: 'failed',
+      error: 'Weather API quota exceeded',
+      outputPreview: 'I hit an error running your scheduled skill: Weather API quota exceeded',
+    });
+  });
+
+  describe('conditions', () => {
+    it('sends nothing and records a skipped run when the condition is false', async () => {
+      const job = createRecurringJob({ triggerType: 'condition', conditionPrompt: 'There is no lunch event today' });
+      mockExecuteWithTools.mockResolvedValueOnce({
+        success: true,
+        output: '{"met": false, "reason": "Lunch with Sam at 12:30"}',
+        tokenUsage: { input: 300, output: 12 },
+      });
+
+      const result = await runDue(job.id);
+
+      expect(result).toEqual({ success: true, skipped: true });
+      expect(mockExecuteWithTools).toHaveBeenCalledTimes(1);
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(getLastJobRun(db, job.id)).toMatchObject({
+        status: 'skipped',
+        error: 'Condition not met: Lunch with Sam at 12:30',
+        inputTokens: 300,
+      });
+      expect(getJobById(db, job.id)?.nextRunAt).toBeGreaterThan(Math.floor(Date.now() / 1000));
+    });
+
+    it('generates and sends the message when the condition holds', async () => {
+      const job = createRecurringJob({ triggerType: 'condition', conditionPrompt: 'There is no lunch event today' });
+      mockExecuteWithTools
+        .mockResolvedValueOnce({ success: true, output: '```json\n{"met": true, "reason": "No lunch found"}\n```' })
+        .mockResolvedValueOnce({ success: true, output: 'No lunch on your calendar yet - want me to block 12-1?' });
+
+      const result = await runDue(job.id);
+
+      expect(result.success).toBe(true);
+      expect(mockExecuteWithTools.mock.calls[0][1]).toBe('Condition: There is no lunch event today');
+      expect(mockSend).toHaveBeenCalledWith(PHONE, 'sms', 'No lunch on your calendar yet - want me to block 12-1?');
+      expect(getLastJobRun(db, job.id)?.status).toBe('success');
+    });
+
+    it('removes a one-time job whose condition is false', async () => {
+      const job = createRecurringJob({ isRecurring: false, cronExpression: '@once', conditionPrompt: 'It will rain today' });
+      mockExecuteWithTools.mockResolvedValueOnce({ success: true, output: '{"met": false, "reason": "Sunny"}' });
+
+      await runDue(job.id);
+
+      expect(getJobById(db, job.id)).toBeNull();
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('counts an unreadable condition check as a failed run', async () => {
+      const job = createRecurringJob({ conditionPrompt: 'There is no lunch event today' });
+      mockExecuteWithTools.mockResolvedValueOnce({ success: true, output: 'Probably not?' });
+
+      const result = await runDue(job.id);
+
+      expect(result.success).toBe(false);
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(getLastJobRun(db, job.id)).toMatchObject({
+        status: 'failed',
+        error: 'Could not check condition: unexpected response',
+      });
+    });
+  });
+
+  describe('usage budget', () => {
+    it('skips a recurring run without generating anything when the user is over budget', async () => {
+      const job = createRecurringJob();
+      mockIsOverBudget.mockResolvedValueOnce(true);
+
+      const result = await runDue(job.id);
+
+      expect(result).toEqual({ success: true, skipped: true });
+      expect(mockExecuteWithTools).not.toHaveBeenCalled();
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(getLastJobRun(db, job.id)).toMatchObject({ status: 'skipped', error: 'Usage budget exceeded' });
+      expect(getJobById(db, job.id)?.nextRunAt).toBeGreaterThan(Math.floor(Date.now() / 1000));
+    });
+
+    it('still delivers a one-time reminder as the original request', async () => {
+      const job = createRecurringJob({ isRecurring: false, cronExpression: '@once', userRequest: 'Call the dentist' });
+      mockIsOverBudget.mockResolvedValueOnce(true);
+
+      await runDue(job.id);
+
+      expect(mockExecuteWithTools).not.toHaveBeenCalled();
+      expect(mockSend).toHaveBeenCalledWith(PHONE, 'sms', expect.stringContaining('Reminder: Call the dentist'));
+      expect(getJobById(db, job.id)).toBeNull();
+    });
+  });
+});
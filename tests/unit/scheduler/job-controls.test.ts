@@ -0,0 +1,219 @@
+/**
+ * Unit tests for scheduled job user controls: snooze, pause until, skip next.
+ *
+ * Uses a fake clock: Date is frozen with vi.setSystemTime, timers stay real.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+
+const { mockExecuteJob } = vi.hoisted(() => ({
+  mockExecuteJob: vi.fn(),
+}));
+
+vi.mock('../../../src/domains/scheduler/service/executor.js', () => ({
+  executeJob: mockExecuteJob,
+  pruneJobRunHistory: vi.fn(() => 0),
+}));
+
+import {
+  DEFAULT_SNOOZE_MINUTES,
+  parseSnoozeReply,
+  snoozeReminder,
+  handleSnoozeReply,
+  pauseJobUntil,
+  skipNextOccurrence,
+  isSkippedOccurrence,
+} from '../../../src/domains/scheduler/service/job-controls.js';
+import {
+  initSchedulerDb,
+  getJobById,
+  getDueJobs,
+  getLastJobRun,
+  getLastReminderSent,
+  recordReminderSent,
+} from '../../../src/domains/scheduler/repo/sqlite.js';
+import { initScheduler, stopScheduler } from '../../../src/domains/scheduler/runtime/index.js';
+import type { CreateJobInput, ScheduledJob } from '../../../src/domains/scheduler/types.js';
+import { createTestScheduledJob } from '../../helpers/scheduler-jobs.js';
+
+/** Unix seconds for an ISO timestamp */
+function at(iso: string): number {
+  return Math.floor(Date.parse(iso) / 1000);
+}
+
+// Tuesday
+const NOW = '2026-03-10T15:00:00Z';
+const PHONE = '+15551234567';
+
+describe('scheduler job controls', () => {
+  let db: Database.Database;
+
+  function createTestJob(overrides: Partial<CreateJobInput> = {}): ScheduledJob {
+    return createTestScheduledJob(db, {
+      phoneNumber: PHONE,
+      userRequest: 'Workout reminder',
+      prompt: 'Remind me to work out',
+      cronExpression: '0 7 * * *',
+      nextRunAt: at('2026-03-11T07:00:00Z'),
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(NOW));
+    vi.clearAllMocks();
+    mockExecuteJob.mockResolvedValue({ success: true });
+    db = new Database(':memory:');
+    initSchedulerDb(db);
+  });
+
+  afterEach(async () => {
+    await stopScheduler();
+    db.close();
+    vi.useRealTimers();
+  });
+
+  describe('parseSnoozeReply', () => {
+    it.each([
+      ['snooze', DEFAULT_SNOOZE_MINUTES],
+      ['Snooze 10', 10],
+      ['snooze 5 min', 5],
+      ['snooze for 30 minutes', 30],
+      ['snooze 1h', 60],
+      ['snooze 2 hours.', 120],
+      ['  SNOOZE 15  ', 15],
+    ])('parses %j as %d minutes', (message, minutes) => {
+      expect(parseSnoozeReply(message)).toBe(minutes);
+    });
+
+    it.each([
+      'snooze my workout reminder until Monday',
+      'please snooze 10',
+      'snooze 0',
+      'snooze 48 hours',
+      'sure',
+    ])('ignores %j', (message) => {
+      expect(parseSnoozeReply(message)).toBeNull();
+    });
+  });
+
+  describe('snoozeReminder', () => {
+    it('repeats the reminder later as a one-time job linked to the original', () => {
+      const job = createTestJob();
+      recordReminderSent(db, job, at(NOW));
+
+      const snoozed = snoozeReminder(db, getLastReminderSent(db, PHONE)!, 10, at(NOW));
+
+      expect(snoozed).toMatchObject({
+        isRecurring: false,
+        cronExpression: '@once',
+        prompt: 'Remind me to work out',
+        nextRunAt: at(NOW) + 600,
+        snoozedFrom: job.id,
+      });
+      expect(getJobById(db, job.id)?.nextRunAt).toBe(at('2026-03-11T07:00:00Z'));
+    });
+
+    it('moves a pending snooze instead of adding another', () => {
+      const job = createTestJob();
+      recordReminderSent(db, job, at(NOW));
+      const reminder = getLastReminderSent(db, PHONE)!;
+
+      const first = snoozeReminder(db, reminder, 10, at(NOW));
+      const second = snoozeReminder(db, reminder, 30, at(NOW));
+
+      expect(second.id).toBe(first.id);
+      expect(getJobById(db, first.id)?.nextRunAt).toBe(at(NOW) + 1800);
+    });
+  });
+
+  describe('handleSnoozeReply', () => {
+    it('snoozes the last reminder sent and confirms the new time', () => {
+      recordReminderSent(db, createTestJob(), at(NOW) - 60);
+
+      const reply = handleSnoozeReply(db, PHONE, 'snooze 10', at(NOW));
+
+      expect(reply).toBe('Snoozed "Workout reminder" until 3:10 PM.');
+      expect(getDueJobs(db, at(NOW) + 600)).toHaveLength(1);
+    });
+
+    it('ignores messages that are not snooze replies', () => {
+      recordReminderSent(db, createTestJob(), at(NOW) - 60);
+      expect(handleSnoozeReply(db, PHONE, 'what is on my calendar?', at(NOW))).toBeNull();
+    });
+
+    it('ignores a snooze when no reminder was sent recently', () => {
+      expect(handleSnoozeReply(db, PHONE, 'snooze 10', at(NOW))).toBeNull();
+
+      recordReminderSent(db, createTestJob(), at(NOW) - 24 * 3600);
+      expect(handleSnoozeReply(db, PHONE, 'snooze 10', at(NOW))).toBeNull();
+    });
+  });
+
+  describe('pauseJobUntil', () => {
+    it('resumes a recurring job at its first run on or after the date', () => {
+      const job = createTestJob();
+
+      const paused = pauseJobUntil(db, job, at('2026-03-16T00:00:00Z'));
+
+      expect(paused.pausedUntil).toBe(at('2026-03-16T00:00:00Z'));
+      expect(paused.nextRunAt).toBe(at('2026-03-16T07:00:00Z'));
+    });
+
+    it('delays a one-time reminder to the end of the pause', () => {
+      const job = createTestJob({ isRecurring: false, cronExpression: '@once', nextRunAt: at('2026-03-11T09:00:00Z') });
+
+      const paused = pauseJobUntil(db, job, at('2026-03-13T00:00:00Z'));
+
+      expect(paused.nextRunAt).toBe(at('2026-03-13T00:00:00Z'));
+    });
+
+    it('keeps a paused job out of the due list until the pause ends', () => {
+      const job = createTestJob({ nextRunAt: at(NOW) - 60 });
+      db.prepare('UPDATE scheduled_jobs SET paused_until = ? WHERE id = ?').run(at('2026-03-12T00:00:00Z'), job.id);
+
+      expect(getDueJobs(db, at(NOW))).toHaveLength(0);
+      expect(getDueJobs(db, at('2026-03-12T00:00:00Z'))).toHaveLength(1);
+    });
+  });
+
+  describe('skipNextOccurrence', () => {
+    it('marks the next run by default', () => {
+      const job = createTestJob();
+
+      expect(skipNextOccurrence(db, job)).toBe(at('2026-03-11T07:00:00Z'));
+      expect(isSkippedOccurrence(getJobById(db, job.id)!)).toBe(true);
+    });
+
+    it('marks the run on a given day', () => {
+      const job = createTestJob();
+
+      const skipped = skipNextOccurrence(db, job, at('2026-03-13T12:00:00Z'));
+
+      expect(skipped).toBe(at('2026-03-13T07:00:00Z'));
+      expect(isSkippedOccurrence(getJobById(db, job.id)!)).toBe(false);
+    });
+
+    it('returns null when the job has no run that day', () => {
+      const job = createTestJob({ cronExpression: '0 7 * * 1-5' });
+
+      expect(skipNextOccurrence(db, job, at('2026-03-14T12:00:00Z'))).toBeNull();
+    });
+
+    it('is honored by the poller without sending anything', async () => {
+      const job = createTestJob({ nextRunAt: at(NOW) - 60, cronExpression: '59 14 * * *' });
+      skipNextOccurrence(db, job);
+
+      initScheduler(db, 60_000).start();
+      await stopScheduler();
+
+      expect(mockExecuteJob).not.toHaveBeenCalled();
+      expect(getLastJobRun(db, job.id)).toMatchObject({ status: 'skipped', error: 'Skipped at the user\'s request' });
+      const updated = getJobById(db, job.id);
+      expect(updated?.nextRunAt).toBe(at('2026-03-11T14:59:00Z'));
+      expect(updated?.skipNextAt).toBeUndefined();
+    });
+  });
+});
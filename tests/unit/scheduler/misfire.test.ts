@@ -0,0 +1,222 @@
+/**
+ * Unit tests for scheduler misfire handling (missed runs after downtime).
+ *
+ * Uses a fake clock: Date is frozen with vi.setSystemTime, timers stay real.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+
+const { mockExecuteJob } = vi.hoisted(() => ({
+  mockExecuteJob: vi.fn(),
+}));
+
+vi.mock('../../../src/domains/scheduler/service/executor.js', () => ({
+  executeJob: mockExecuteJob,
+  pruneJobRunHistory: vi.fn(() => 0),
+}));
+
+import {
+  MISFIRE_DEFAULTS,
+  resolveMisfirePolicy,
+  checkMisfire,
+  calculateNextRunAt,
+  skipMissedRun,
+} from '../../../src/domains/scheduler/service/misfire.js';
+import {
+  initSchedulerDb,
+  getJobById,
+  getLastJobRun,
+} from '../../../src/domains/scheduler/repo/sqlite.js';
+import { initScheduler, stopScheduler } from '../../../src/domains/scheduler/runtime/index.js';
+import type { CreateJobInput, ScheduledJob } from '../../../src/domains/scheduler/types.js';
+import { createTestScheduledJob } from '../../helpers/scheduler-jobs.js';
+
+/** Unix seconds for an ISO timestamp */
+function at(iso: string): number {
+  return Math.floor(Date.parse(iso) / 1000);
+}
+
+const NOW = '2026-03-10T15:00:00Z';
+
+describe('scheduler misfire handling', () => {
+  let db: Database.Database;
+
+  function createTestJob(overrides: Partial<CreateJobInput> = {}): ScheduledJob {
+    return createTestScheduledJob(db, {
+      skillName: 'daily-briefing',
+      nextRunAt: at('2026-03-10T09:00:00Z'),
+      ...overrides,
+    });
+  }
+
+  function createReminder(overrides: Partial<CreateJobInput> = {}): ScheduledJob {
+    return createTestJob({
+      userRequest: 'Call mom',
+      prompt: 'Remind me to call mom',
+      skillName: undefined,
+      cronExpression: '@once',
+      isRecurring: false,
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(NOW));
+    vi.clearAllMocks();
+    mockExecuteJob.mockResolvedValue({ success: true });
+    db = new Database(':memory:');
+    initSchedulerDb(db);
+  });
+
+  afterEach(async () => {
+    await stopScheduler();
+    db.close();
+    vi.useRealTimers();
+  });
+
+  describe('resolveMisfirePolicy', () => {
+    it('defaults reminders to firing late, recurring ones included', () => {
+      expect(resolveMisfirePolicy(createReminder())).toEqual(MISFIRE_DEFAULTS.reminder);
+      expect(resolveMisfirePolicy(createReminder({ cronExpression: '0 8 * * *', isRecurring: true })))
+        .toEqual(MISFIRE_DEFAULTS.reminder);
+      expect(MISFIRE_DEFAULTS.reminder.policy).toBe('fire_once');
+    });
+
+    it('defaults skill jobs such as briefings to skipping stale runs', () => {
+      expect(resolveMisfirePolicy(createTestJob())).toEqual(MISFIRE_DEFAULTS.skill);
+      expect(resolveMisfirePolicy(createTestJob({ cronExpression: '@once', isRecurring: false })))
+        .toEqual(MISFIRE_DEFAULTS.skill);
+      expect(MISFIRE_DEFAULTS.skill.policy).toBe('skip');
+    });
+
+    it('uses the job\'s own policy and grace window', () => {
+      const job = createTestJob({ misfirePolicy: 'run_all', misfireGraceMinutes: 10 });
+      expect(resolveMisfirePolicy(job)).toEqual({ policy: 'run_all', graceMinutes: 10 });
+      expect(getJobById(db, job.id)?.misfirePolicy).toBe('run_all');
+    });
+  });
+
+  describe('checkMisfire', () => {
+    const now = at(NOW);
+
+    it('runs a job picked up within its grace window', () => {
+      const job = createTestJob({ nextRunAt: now - 30 * 60 });
+      expect(checkMisfire(job, now)).toMatchObject({ misfired: false, action: 'run', lateSeconds: 1800 });
+    });
+
+    it('skips a stale briefing', () => {
+      const job = createTestJob({ nextRunAt: at('2026-03-10T09:00:00Z') });
+      expect(checkMisfire(job, now)).toMatchObject({ misfired: true, action: 'skip', lateSeconds: 6 * 3600 });
+    });
+
+    it('still fires a late one-time reminder', () => {
+      const job = createReminder({ nextRunAt: at('2026-03-10T09:00:00Z') });
+      expect(checkMisfire(job, now)).toMatchObject({ misfired: true, action: 'run', policy: 'fire_once' });
+    });
+
+    it('still fires a late recurring reminder', () => {
+      const job = createReminder({
+        userRequest: 'Take my medication every morning',
+        prompt: 'Remind me to take my medication',
+        cronExpression: '0 9 * * *',
+        isRecurring: true,
+        nextRunAt: at('2026-03-10T09:00:00Z'),
+      });
+      expect(checkMisfire(job, now)).toMatchObject({ misfired: true, action: 'run', policy: 'fire_once' });
+    });
+
+    it('respects a custom grace window', () => {
+      const job = createTestJob({ nextRunAt: now - 20 * 60, misfireGraceMinutes: 15 });
+      expect(checkMisfire(job, now).action).toBe('skip');
+    });
+
+    it('treats a job that is not yet due as on time', () => {
+      const job = createTestJob({ nextRunAt: now + 60 });
+      expect(checkMisfire(job, now)).toMatchObject({ misfired: false, lateSeconds: 0 });
+    });
+  });
+
+  describe('calculateNextRunAt', () => {
+    it('continues from the next future occurrence by default', () => {
+      const job = createTestJob({ nextRunAt: at('2026-03-08T09:00:00Z'), misfirePolicy: 'fire_once' });
+      expect(calculateNextRunAt(job, at(NOW))).toBe(at('2026-03-11T09:00:00Z'));
+    });
+
+    it('steps through missed occurrences for run_all', () => {
+      const job = createTestJob({ nextRunAt: at('2026-03-08T09:00:00Z'), misfirePolicy: 'run_all' });
+      expect(calculateNextRunAt(job, at(NOW))).toBe(at('2026-03-09T09:00:00Z'));
+    });
+
+    it('keeps the cadence of an interval rule', () => {
+      const job = createTestJob({
+        cronExpression: 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0;DTSTART=20260310',
+        nextRunAt: at('2026-03-10T09:00:00Z'),
+      });
+      expect(calculateNextRunAt(job, at(NOW))).toBe(at('2026-03-24T09:00:00Z'));
+    });
+  });
+
+  describe('skipMissedRun', () => {
+    it('records a skipped run and advances a recurring job', () => {
+      const job = createTestJob();
+      const now = at(NOW);
+
+      skipMissedRun(db, job, checkMisfire(job, now), now);
+
+      expect(getJobById(db, job.id)?.nextRunAt).toBe(at('2026-03-11T09:00:00Z'));
+      expect(getLastJobRun(db, job.id)).toMatchObject({
+        status: 'skipped',
+        startedAt: Date.parse(NOW),
+        error: 'Missed by 360 min (grace window 60 min)',
+      });
+    });
+
+    it('removes a skipped one-time job', () => {
+      const job = createReminder({ misfirePolicy: 'skip' });
+      const now = at(NOW);
+
+      skipMissedRun(db, job, checkMisfire(job, now), now);
+
+      expect(getJobById(db, job.id)).toBeNull();
+      expect(getLastJobRun(db, job.id)?.status).toBe('skipped');
+    });
+  });
+
+  describe('poller', () => {
+    async function pollOnce(): Promise<void> {
+      initScheduler(db, 60_000).start();
+      await stopScheduler();
+    }
+
+    it('skips a stale briefing and runs a late reminder after downtime', async () => {
+      const briefing = createTestJob();
+      const reminder = createReminder();
+
+      await pollOnce();
+
+      expect(mockExecuteJob).toHaveBeenCalledTimes(1);
+      expect(mockExecuteJob.mock.calls[0][1]).toMatchObject({ id: reminder.id });
+      expect(getLastJobRun(db, briefing.id)?.status).toBe('skipped');
+      expect(getJobById(db, briefing.id)?.nextRunAt).toBe(at('2026-03-11T09:00:00Z'));
+    });
+
+    it('runs a job that is only slightly late', async () => {
+      const job = createTestJob({ nextRunAt: at(NOW) - 5 * 60 });
+
+      await pollOnce();
+
+      expect(mockExecuteJob).toHaveBeenCalledTimes(1);
+      expect(mockExecuteJob.mock.calls[0][1]).toMatchObject({ id: job.id });
+    });
+
+    it('runs a stale job whose policy is run_all', async () => {
+      createTestJob({ nextRunAt: at('2026-03-08T09:00:00Z'), misfirePolicy: 'run_all' });
+
+      await pollOnce();
+
+      expect(mockExecuteJob).toHaveBeenCalledTimes(1);
+    });
+  });
+});
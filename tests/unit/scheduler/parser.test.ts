@@ -50,6 +50,41 @@ describe('parseScheduleToCron', () => {
     });
   });
 
+  describe('recurrence rules and times a day', () => {
+    it.each([
+      ['every other tuesday at 9am', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0'],
+      ['every other Tuesday', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0'],
+      ['every 2 weeks on friday at noon', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;BYHOUR=12;BYMINUTE=0'],
+      ['every 3 weeks on sunday at 6pm', 'RRULE:FREQ=WEEKLY;INTERVAL=3;BYDAY=SU;BYHOUR=18;BYMINUTE=0'],
+      ['every other week at 9am', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYHOUR=9;BYMINUTE=0'],
+      ['every 2 weeks', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYHOUR=9;BYMINUTE=0'],
+      ['every other monday and wednesday at 9am', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0'],
+      ['every 2 weeks on mon, wed & fri at 7am', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;BYHOUR=7;BYMINUTE=0'],
+      ['first Monday of the month', 'RRULE:FREQ=MONTHLY;BYDAY=1MO;BYHOUR=9;BYMINUTE=0'],
+      ['third wednesday of each month at 7:30pm', 'RRULE:FREQ=MONTHLY;BYDAY=3WE;BYHOUR=19;BYMINUTE=30'],
+      ['last friday of every month at 4pm', 'RRULE:FREQ=MONTHLY;BYDAY=-1FR;BYHOUR=16;BYMINUTE=0'],
+      ['last business day', 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;BYHOUR=9;BYMINUTE=0'],
+      ['first working day of the month at 8am', 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1;BYHOUR=8;BYMINUTE=0'],
+      ['every 3 days', 'RRULE:FREQ=DAILY;INTERVAL=3;BYHOUR=9;BYMINUTE=0'],
+      ['every other day at 7:30pm', 'RRULE:FREQ=DAILY;INTERVAL=2;BYHOUR=19;BYMINUTE=30'],
+      ['twice a day at 8 and 8', '0 8,20 * * *'],
+      ['twice daily at 9am and 9', '0 9,21 * * *'],
+      ['three times a day at 8, noon and 6', '0 8,12,18 * * *'],
+    ])('parses %j to %j', (input, expected) => {
+      expect(parseScheduleToCron(input)).toBe(expected);
+    });
+
+    it.each([
+      'every 45 days',
+      'every 20 weeks on monday',
+      'twice a day',
+      'twice a day at 8:30 and 5',
+      'twice a day at 9',
+    ])('returns null for %j', (input) => {
+      expect(parseScheduleToCron(input)).toBeNull();
+    });
+  });
+
   describe('failure cases', () => {
     it('returns null for unparseable input like "banana"', () => {
       expect(parseScheduleToCron('banana')).toBeNull();
@@ -105,6 +140,25 @@ describe('cronToHuman', () => {
   it('converts "0 12 * * 1" to "every Monday at 12 PM"', () => {
     expect(cronToHuman('0 12 * * 1')).toBe('every Monday at 12 PM');
   });
+
+  it.each([
+    ['0 8,20 * * *', 'daily at 8 AM and 8 PM'],
+    ['0 8,12,18 * * *', 'daily at 8 AM, 12 PM and 6 PM'],
+    ['RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0;DTSTART=20260310', 'every other Tuesday at 9 AM'],
+    ['RRULE:FREQ=WEEKLY;INTERVAL=3;BYDAY=SU;BYHOUR=18;BYMINUTE=0', 'every 3 weeks on Sunday at 6 PM'],
+    ['RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0', 'every other Monday and Wednesday at 9 AM'],
+    ['RRULE:FREQ=MONTHLY;BYDAY=1MO;BYHOUR=9;BYMINUTE=0', 'first Monday of the month at 9 AM'],
+    ['RRULE:FREQ=MONTHLY;BYDAY=-1FR;BYHOUR=16;BYMINUTE=0', 'last Friday of the month at 4 PM'],
+    ['RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;BYHOUR=17;BYMINUTE=0', 'last business day of the month at 5 PM'],
+    ['RRULE:FREQ=DAILY;INTERVAL=3;BYHOUR=9;BYMINUTE=0', 'every 3 days at 9 AM'],
+    ['RRULE:FREQ=DAILY;INTERVAL=2;BYHOUR=19;BYMINUTE=30', 'every other day at 7:30 PM'],
+  ])('converts %j to %j', (expression, expected) => {
+    expect(cronToHuman(expression)).toBe(expected);
+  });
+
+  it('returns an unsupported rule unchanged', () => {
+    expect(cronToHuman('RRULE:FREQ=YEARLY;BYHOUR=9')).toBe('RRULE:FREQ=YEARLY;BYHOUR=9');
+  });
 });
 
 describe('parseSchedule', () => {
@@ -145,6 +199,32 @@ describe('parseSchedule', () => {
       expect(result!.type).toBe('recurring');
       expect(result!.cronExpression).toBe('0 * * * *');
     });
+
+    describe('interval rules', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it.each([
+        // Tuesday 2026-03-10, 11:00 in New York
+        ['every other tuesday at 9am', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0;DTSTART=20260317'],
+        ['every other tuesday at 5pm', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=17;BYMINUTE=0;DTSTART=20260310'],
+        ['every 3 days at 8am', 'RRULE:FREQ=DAILY;INTERVAL=3;BYHOUR=8;BYMINUTE=0;DTSTART=20260311'],
+        ['every other week at 9am', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=WE;BYHOUR=9;BYMINUTE=0;DTSTART=20260311'],
+        ['every 2 weeks', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=WE;BYHOUR=9;BYMINUTE=0;DTSTART=20260311'],
+        ['every other week at 5pm', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=17;BYMINUTE=0;DTSTART=20260310'],
+        [
+          'every other monday and wednesday at 9am',
+          'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0;DTSTART=20260311',
+        ],
+        ['last business day', 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;BYHOUR=9;BYMINUTE=0'],
+      ])('anchors %j at its first occurrence', (input, expected) => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-03-10T15:00:00Z'));
+
+        expect(parseSchedule(input, timezone)).toEqual({ type: 'recurring', cronExpression: expected });
+      });
+    });
   });
 
   describe('one-time schedules', () => {
@@ -178,6 +258,14 @@ describe('parseSchedule', () => {
     it('returns null for empty string', () => {
       expect(parseSchedule('', timezone)).toBeNull();
     });
+
+    it.each([
+      'twice a day at 8:30 and 5',
+      'every 20 weeks at 9am',
+      'every other month at 9am',
+    ])('does not turn unparseable recurring input %j into a one-time reminder', (input) => {
+      expect(parseSchedule(input, timezone)).toBeNull();
+    });
   });
 });
 
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for RRULE-style recurrence rules and next-occurrence calculation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  nextOccurrence,
+  anchorRecurrence,
+} from '../../../src/domains/scheduler/service/recurrence.js';
+
+/** Date for an ISO timestamp */
+function at(iso: string): Date {
+  return new Date(iso);
+}
+
+describe('recurrence rules', () => {
+  describe('parseRecurrenceRule', () => {
+    it('round-trips a rule', () => {
+      const rule = 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;BYHOUR=17;BYMINUTE=0';
+      expect(formatRecurrenceRule(parseRecurrenceRule(rule)!)).toBe(rule);
+    });
+
+    it.each([
+      '0 9 * * *',
+      'RRULE:FREQ=YEARLY;BYHOUR=9;BYMINUTE=0',
+      'RRULE:FREQ=WEEKLY;BYDAY=XX;BYHOUR=9;BYMINUTE=0',
+      'RRULE:FREQ=DAILY;BYHOUR=25;BYMINUTE=0',
+      'RRULE:FREQ=DAILY;INTERVAL=0;BYHOUR=9;BYMINUTE=0',
+      'RRULE:FREQ=DAILY;BYMINUTE=0',
+    ])('rejects %j', (expression) => {
+      expect(parseRecurrenceRule(expression)).toBeNull();
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    it.each([
+      // Tuesday 2026-03-10, 15:00 UTC
+      ['every other Tuesday, this week', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=17;BYMINUTE=0;DTSTART=20260310', '2026-03-10T17:00:00Z'],
+      ['every other Tuesday, after this week', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0;DTSTART=20260310', '2026-03-24T09:00:00Z'],
+      ['first Monday of the month', 'RRULE:FREQ=MONTHLY;BYDAY=1MO;BYHOUR=9;BYMINUTE=0', '2026-04-06T09:00:00Z'],
+      ['last Friday of the month', 'RRULE:FREQ=MONTHLY;BYDAY=-1FR;BYHOUR=16;BYMINUTE=0', '2026-03-27T16:00:00Z'],
+      ['last business day (Tuesday 31st)', 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;BYHOUR=9;BYMINUTE=0', '2026-03-31T09:00:00Z'],
+      ['every 3 days', 'RRULE:FREQ=DAILY;INTERVAL=3;BYHOUR=9;BYMINUTE=0;DTSTART=20260308', '2026-03-11T09:00:00Z'],
+      ['twice a day', '0 8,20 * * *', '2026-03-10T20:00:00Z'],
+    ])('%s', (_label, expression, expected) => {
+      expect(nextOccurrence(expression, 'UTC', at('2026-03-10T15:00:00Z'))).toEqual(at(expected));
+    });
+
+    it('skips a month whose last business day falls on a weekend', () => {
+      // May 2026 ends on a Sunday
+      const rule = 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;BYHOUR=9;BYMINUTE=0';
+      expect(nextOccurrence(rule, 'UTC', at('2026-05-01T00:00:00Z'))).toEqual(at('2026-05-29T09:00:00Z'));
+    });
+
+    it('keeps local time across a DST change', () => {
+      const rule = 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0;DTSTART=20260303';
+      // 9 AM EST on March 3, 9 AM EDT two weeks later
+      expect(nextOccurrence(rule, 'America/New_York', at('2026-03-03T15:00:00Z'))).toEqual(at('2026-03-17T13:00:00Z'));
+    });
+
+    it('throws on an invalid rule', () => {
+      expect(() => nextOccurrence('RRULE:FREQ=HOURLY', 'UTC')).toThrow('Invalid recurrence rule');
+    });
+  });
+
+  describe('anchorRecurrence', () => {
+    it('pins an interval rule to the date of its first occurrence', () => {
+      expect(anchorRecurrence('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0', 'UTC', at('2026-03-10T15:00:00Z')))
+        .toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;BYHOUR=9;BYMINUTE=0;DTSTART=20260317');
+    });
+
+    it('leaves cron expressions and rules without an interval unchanged', () => {
+      expect(anchorRecurrence('0 9 * * *', 'UTC')).toBe('0 9 * * *');
+      expect(anchorRecurrence('RRULE:FREQ=MONTHLY;BYDAY=1MO;BYHOUR=9;BYMINUTE=0', 'UTC'))
+        .toBe('RRULE:FREQ=MONTHLY;BYDAY=1MO;BYHOUR=9;BYMINUTE=0');
+    });
+  });
+});
@@ -15,6 +15,13 @@ import {
   getDueJobs,
   updateJob,
   deleteJob,
+  getDisabledJobsByPhone,
+  startJobRun,
+  finishJobRun,
+  getLastJobRun,
+  listJobRuns,
+  failInterruptedJobRuns,
+  deleteJobRunsBefore,
 } from '../../../src/domains/scheduler/repo/sqlite.js';
 
 const TEST_DB_PATH = './data/test-scheduler.db';
@@ -346,6 +353,155 @@ describe('scheduler sqlite', () => {
       expect(updated).not.toBeNull();
       expect(updated?.channel).toBe('whatsapp');
     });
+
+    it('tracks consecutive failures and clears disabled reason with null', () => {
+      const job = createJob(db, {
+        phoneNumber: '+1234567890',
+        channel: 'sms',
+        prompt: 'Flaky job',
+        cronExpression: '0 9 * * *',
+        timezone: 'UTC',
+        nextRunAt: 1000,
+        isRecurring: true,
+      });
+      expect(job.consecutiveFailures).toBe(0);
+
+      const disabled = updateJob(db, job.id, {
+        enabled: false,
+        consecutiveFailures: 3,
+        disabledReason: 'Calendar API down',
+      });
+      expect(disabled?.consecutiveFailures).toBe(3);
+      expect(disabled?.disabledReason).toBe('Calendar API down');
+
+      const resumed = updateJob(db, job.id, { enabled: true, consecutiveFailures: 0, disabledReason: null });
+      expect(resumed?.consecutiveFailures).toBe(0);
+      expect(resumed?.disabledReason).toBeUndefined();
+    });
+  });
+
+  describe('getDisabledJobsByPhone', () => {
+    it('returns only disabled jobs for the phone number', () => {
+      const base = {
+        channel: 'sms' as const,
+        prompt: 'Job',
+        cronExpression: '0 9 * * *',
+        timezone: 'UTC',
+        nextRunAt: 1000,
+        isRecurring: true,
+      };
+      const paused = createJob(db, { ...base, phoneNumber: '+1111111111' });
+      createJob(db, { ...base, phoneNumber: '+1111111111' });
+      const otherUser = createJob(db, { ...base, phoneNumber: '+2222222222' });
+      updateJob(db, paused.id, { enabled: false });
+      updateJob(db, otherUser.id, { enabled: false });
+
+      const jobs = getDisabledJobsByPhone(db, '+1111111111');
+
+      expect(jobs.map((j) => j.id)).toEqual([paused.id]);
+    });
+  });
+
+  describe('job runs', () => {
+    function createTestJob(phoneNumber = '+1234567890') {
+      return createJob(db, {
+        phoneNumber,
+        channel: 'sms',
+        prompt: 'Daily briefing',
+        cronExpression: '0 9 * * *',
+        timezone: 'UTC',
+        nextRunAt: 1000,
+        isRecurring: true,
+      });
+    }
+
+    it('records a run from start to finish', () => {
+      const job = createTestJob();
+
+      const runId = startJobRun(db, job, 5000);
+      expect(getLastJobRun(db, job.id)).toMatchObject({ id: runId, status: 'running', startedAt: 5000 });
+
+      finishJobRun(db, runId, {
+        status: 'success',
+        finishedAt: 7000,
+        output: 'x'.repeat(500),
+        tokenUsage: { input: 1200, output: 80 },
+      });
+
+      const run = getLastJobRun(db, job.id);
+      expect(run).toMatchObject({
+        jobId: job.id,
+        phoneNumber: '+1234567890',
+        status: 'success',
+        startedAt: 5000,
+        finishedAt: 7000,
+        inputTokens: 1200,
+        outputTokens: 80,
+      });
+      expect(run?.outputPreview).toHaveLength(200);
+      expect(run?.error).toBeUndefined();
+    });
+
+    it('returns the most recent run', () => {
+      const job = createTestJob();
+      const first = startJobRun(db, job, 1000);
+      finishJobRun(db, first, { status: 'failed', finishedAt: 1100, error: 'timeout' });
+      const second = startJobRun(db, job, 2000);
+      finishJobRun(db, second, { status: 'success', finishedAt: 2100 });
+
+      expect(getLastJobRun(db, job.id)?.id).toBe(second);
+    });
+
+    it('returns null for a job that never ran', () => {
+      const job = createTestJob();
+      expect(getLastJobRun(db, job.id)).toBeNull();
+    });
+
+    it('keeps runs after the job is deleted', () => {
+      const job = createTestJob();
+      startJobRun(db, job, 1000);
+      deleteJob(db, job.id);
+
+      expect(getLastJobRun(db, job.id)).not.toBeNull();
+    });
+
+    it('lists runs newest first with filters and limit', () => {
+      const job = createTestJob('+1111111111');
+      const other = createTestJob('+2222222222');
+      finishJobRun(db, startJobRun(db, job, 1000), { status: 'success', finishedAt: 1001 });
+      finishJobRun(db, startJobRun(db, job, 2000), { status: 'failed', finishedAt: 2001, error: 'boom' });
+      finishJobRun(db, startJobRun(db, job, 3000), { status: 'failed', finishedAt: 3001, error: 'boom' });
+      finishJobRun(db, startJobRun(db, other, 4000), { status: 'failed', finishedAt: 4001, error: 'boom' });
+
+      expect(listJobRuns(db, { limit: 10 }).map((r) => r.startedAt)).toEqual([4000, 3000, 2000, 1000]);
+      expect(listJobRuns(db, { jobId: job.id, status: 'failed', limit: 10 }).map((r) => r.startedAt))
+        .toEqual([3000, 2000]);
+      expect(listJobRuns(db, { phoneNumber: '+2222222222', limit: 10 })).toHaveLength(1);
+      expect(listJobRuns(db, { limit: 2 })).toHaveLength(2);
+    });
+
+    it('marks runs left running as failed with an interrupted error', () => {
+      const job = createTestJob();
+      finishJobRun(db, startJobRun(db, job, 1000), { status: 'success', finishedAt: 1100 });
+      const orphan = startJobRun(db, job, 2000);
+
+      expect(failInterruptedJobRuns(db, 9000)).toBe(1);
+      expect(getLastJobRun(db, job.id)).toMatchObject({ id: orphan, status: 'failed', finishedAt: 9000 });
+      expect(getLastJobRun(db, job.id)?.error).toContain('Interrupted');
+      expect(listJobRuns(db, { status: 'success', limit: 10 })).toHaveLength(1);
+      expect(failInterruptedJobRuns(db, 9500)).toBe(0);
+    });
+
+    it('deletes finished runs that started before the cutoff', () => {
+      const job = createTestJob();
+      finishJobRun(db, startJobRun(db, job, 1000), { status: 'success', finishedAt: 1100 });
+      finishJobRun(db, startJobRun(db, job, 2000), { status: 'failed', finishedAt: 2100, error: 'boom' });
+      startJobRun(db, job, 2500);
+      finishJobRun(db, startJobRun(db, job, 3000), { status: 'success', finishedAt: 3100 });
+
+      expect(deleteJobRunsBefore(db, 3000)).toBe(2);
+      expect(listJobRuns(db, { limit: 10 }).map((r) => r.startedAt)).toEqual([3000, 2500]);
+    });
   });
 
   describe('deleteJob', () => {
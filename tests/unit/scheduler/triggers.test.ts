@@ -0,0 +1,215 @@
+/**
+ * Unit tests for scheduled job triggers: calendar-relative jobs.
+ *
+ * Uses a fake clock: Date is frozen with vi.setSystemTime, timers stay real.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+
+const { mockExecuteJob, mockListEvents } = vi.hoisted(() => ({
+  mockExecuteJob: vi.fn(),
+  mockListEvents: vi.fn(),
+}));
+
+vi.mock('../../../src/domains/scheduler/service/executor.js', () => ({
+  executeJob: mockExecuteJob,
+  pruneJobRunHistory: vi.fn(() => 0),
+}));
+
+vi.mock('../../../src/domains/scheduler/providers/calendar.js', () => ({
+  listEventsAcrossCalendars: mockListEvents,
+}));
+
+import {
+  CALENDAR_CHECK_INTERVAL_SECONDS,
+  CALENDAR_TRIGGER_CRON,
+  matchesEventFilter,
+  planCalendarTrigger,
+  eventKey,
+  runCalendarTrigger,
+  describeTrigger,
+} from '../../../src/domains/scheduler/service/triggers.js';
+import { calculateNextRunAt } from '../../../src/domains/scheduler/service/misfire.js';
+import {
+  initSchedulerDb,
+  getJobById,
+  getFiredTriggerEvents,
+} from '../../../src/domains/scheduler/repo/sqlite.js';
+import { initScheduler, stopScheduler } from '../../../src/domains/scheduler/runtime/index.js';
+import type { CreateJobInput, ScheduledJob } from '../../../src/domains/scheduler/types.js';
+import { createTestScheduledJob } from '../../helpers/scheduler-jobs.js';
+import type { CalendarEvent } from '../../../src/domains/calendar/types.js';
+
+/** Unix seconds for an ISO timestamp */
+function at(iso: string): number {
+  return Math.floor(Date.parse(iso) / 1000);
+}
+
+const NOW = '2026-03-10T15:00:00Z';
+
+function event(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'evt_1',
+    title: 'Dentist',
+    start: '2026-03-10T15:20:00Z',
+    end: '2026-03-10T16:00:00Z',
+    location: '12 Main St',
+    calendarId: 'primary',
+    ...overrides,
+  };
+}
+
+describe('scheduler triggers', () => {
+  let db: Database.Database;
+
+  function createCalendarJob(overrides: Partial<CreateJobInput> = {}): ScheduledJob {
+    return createTestScheduledJob(db, {
+      userRequest: 'Remind me before events with a location',
+      prompt: 'Remind me to leave for my event',
+      cronExpression: CALENDAR_TRIGGER_CRON,
+      nextRunAt: at(NOW),
+      triggerType: 'calendar_event',
+      eventOffsetMinutes: 30,
+      eventFilter: { hasLocation: true },
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(NOW));
+    vi.clearAllMocks();
+    mockExecuteJob.mockResolvedValue({ success: true });
+    db = new Database(':memory:');
+    initSchedulerDb(db);
+  });
+
+  afterEach(async () => {
+    await stopScheduler();
+    db.close();
+    vi.useRealTimers();
+  });
+
+  describe('matchesEventFilter', () => {
+    it('matches every timed event without a filter', () => {
+      expect(matchesEventFilter(event({ location: undefined }))).toBe(true);
+    });
+
+    it('never matches all-day events', () => {
+      expect(matchesEventFilter(event({ allDay: true, start: '2026-03-11', end: '2026-03-12' }))).toBe(false);
+    });
+
+    it('filters by location and title', () => {
+      expect(matchesEventFilter(event({ location: undefined }), { hasLocation: true })).toBe(false);
+      expect(matchesEventFilter(event(), { titleContains: 'dent' })).toBe(true);
+      expect(matchesEventFilter(event(), { titleContains: 'standup' })).toBe(false);
+    });
+  });
+
+  describe('planCalendarTrigger', () => {
+    it('fires for events inside the offset window', () => {
+      const job = createCalendarJob();
+
+      const plan = planCalendarTrigger(job, [event()], new Set(), at(NOW));
+
+      expect(plan.due.map((e) => e.id)).toEqual(['evt_1']);
+      expect(plan.nextRunAt).toBe(at(NOW) + CALENDAR_CHECK_INTERVAL_SECONDS);
+    });
+
+    it('checks again exactly when the next event is due', () => {
+      const job = createCalendarJob();
+
+      const plan = planCalendarTrigger(job, [event({ start: '2026-03-10T15:40:00Z' })], new Set(), at(NOW));
+
+      expect(plan.due).toHaveLength(0);
+      expect(plan.nextRunAt).toBe(at('2026-03-10T15:10:00Z'));
+    });
+
+    it('skips events already fired for, started, or not matching', () => {
+      const job = createCalendarJob();
+      const fired = event();
+
+      const plan = planCalendarTrigger(job, [
+        fired,
+        event({ id: 'evt_started', start: '2026-03-10T14:30:00Z' }),
+        event({ id: 'evt_remote', location: undefined }),
+      ], new Set([eventKey(fired)]), at(NOW));
+
+      expect(plan.due).toHaveLength(0);
+    });
+
+    it('fires again for an event moved to a new time', () => {
+      const job = createCalendarJob();
+      const original = event({ start: '2026-03-10T14:50:00Z' });
+
+      const plan = planCalendarTrigger(job, [event()], new Set([eventKey(original)]), at(NOW));
+
+      expect(plan.due).toHaveLength(1);
+    });
+  });
+
+  describe('runCalendarTrigger', () => {
+    it('runs once per due event with the event in the prompt', async () => {
+      const job = createCalendarJob();
+      mockListEvents.mockResolvedValue({ events: [event()], skipped: [] });
+
+      const fired = await runCalendarTrigger(db, job, at(NOW), mockExecuteJob);
+
+      expect(fired).toBe(1);
+      expect(mockExecuteJob).toHaveBeenCalledWith(expect.objectContaining({
+        id: job.id,
+        prompt: expect.stringContaining('Upcoming event: "Dentist" starting 3:20 PM at 12 Main St'),
+      }));
+      expect(getFiredTriggerEvents(db, job.id).has(eventKey(event()))).toBe(true);
+
+      await runCalendarTrigger(db, job, at(NOW) + 60, mockExecuteJob);
+      expect(mockExecuteJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries at the next check when the calendar cannot be read', async () => {
+      const job = createCalendarJob();
+      mockListEvents.mockRejectedValue(new Error('Google account not connected'));
+
+      const fired = await runCalendarTrigger(db, job, at(NOW), mockExecuteJob);
+
+      expect(fired).toBe(0);
+      expect(mockExecuteJob).not.toHaveBeenCalled();
+      expect(getJobById(db, job.id)?.nextRunAt).toBe(at(NOW) + CALENDAR_CHECK_INTERVAL_SECONDS);
+    });
+  });
+
+  describe('poller', () => {
+    it('dispatches calendar-triggered jobs through the calendar check', async () => {
+      const job = createCalendarJob();
+      mockListEvents.mockResolvedValue({ events: [event()], skipped: [] });
+
+      initScheduler(db, 60_000).start();
+      await stopScheduler();
+
+      expect(mockListEvents).toHaveBeenCalledWith(job.phoneNumber, new Date(NOW), expect.any(Date));
+      expect(mockExecuteJob).toHaveBeenCalledTimes(1);
+      expect(getJobById(db, job.id)?.nextRunAt).toBe(at(NOW) + CALENDAR_CHECK_INTERVAL_SECONDS);
+    });
+  });
+
+  it('describes each trigger type', () => {
+    expect(describeTrigger(createCalendarJob())).toBe('30 min before events with a location');
+    expect(describeTrigger(createCalendarJob({ eventFilter: undefined, eventOffsetMinutes: 10 })))
+      .toBe('10 min before every event');
+    expect(describeTrigger(createCalendarJob({ triggerType: 'condition', cronExpression: '0 11 * * *' })))
+      .toBe('daily at 11 AM');
+  });
+
+  it('defaults the trigger type from isRecurring', () => {
+    const recurring = createCalendarJob({ triggerType: undefined, cronExpression: '0 9 * * *' });
+    const oneTime = createCalendarJob({ triggerType: undefined, cronExpression: '@once', isRecurring: false });
+
+    expect(getJobById(db, recurring.id)?.triggerType).toBe('cron');
+    expect(getJobById(db, oneTime.id)?.triggerType).toBe('once');
+  });
+
+  it('schedules the next calendar check after a run', () => {
+    expect(calculateNextRunAt(createCalendarJob(), at(NOW))).toBe(at(NOW) + CALENDAR_CHECK_INTERVAL_SECONDS);
+  });
+});
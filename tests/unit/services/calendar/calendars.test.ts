@@ -0,0 +1,123 @@
+/**
+ * Unit tests for calendar selection and merged multi-calendar views.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/domains/calendar/providers/google-calendar.js', async () => {
+  const { AuthRequiredError } = await import('../../../../src/providers/auth.js');
+  return {
+    AuthRequiredError,
+    listCalendars: vi.fn(),
+    listEvents: vi.fn(),
+  };
+});
+
+import {
+  findCalendar,
+  resolveCalendarId,
+  listEventsAcrossCalendars,
+} from '../../../../src/domains/calendar/service/calendars.js';
+import { listCalendars, listEvents } from '../../../../src/domains/calendar/providers/google-calendar.js';
+import { AuthRequiredError } from '../../../../src/providers/auth.js';
+import type { CalendarInfo } from '../../../../src/domains/calendar/types.js';
+
+const PHONE = '+15551234567';
+
+const CALENDARS: CalendarInfo[] = [
+  { id: 'me@example.com', name: 'me@example.com', primary: true, accessRole: 'owner' },
+  { id: 'family@group.calendar.google.com', name: 'Family', primary: false, accessRole: 'writer' },
+  { id: 'work@group.calendar.google.com', name: 'Work - Team', primary: false, accessRole: 'writer' },
+  { id: 'work-ooo@group.calendar.google.com', name: 'Work - Out of office', primary: false, accessRole: 'reader' },
+  { id: 'old@group.calendar.google.com', name: 'Old', primary: false, accessRole: 'owner', hidden: true },
+];
+
+describe('findCalendar', () => {
+  it.each([
+    ['primary', 'me@example.com'],
+    ['family', 'family@group.calendar.google.com'],
+    ['FAMILY@group.calendar.google.com', 'family@group.calendar.google.com'],
+    ['team', 'work@group.calendar.google.com'],
+    ['out of', 'work-ooo@group.calendar.google.com'],
+  ])('matches %s', (selector, id) => {
+    expect(findCalendar(CALENDARS, selector)?.id).toBe(id);
+  });
+
+  it('returns null for ambiguous or unknown names', () => {
+    expect(findCalendar(CALENDARS, 'work')).toBeNull();
+    expect(findCalendar(CALENDARS, 'gym')).toBeNull();
+  });
+});
+
+describe('resolveCalendarId', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(listCalendars).mockResolvedValue(CALENDARS);
+  });
+
+  it('falls back to the default, then primary, without an API call', async () => {
+    expect(await resolveCalendarId(PHONE, undefined, 'family@group.calendar.google.com'))
+      .toBe('family@group.calendar.google.com');
+    expect(await resolveCalendarId(PHONE, undefined, undefined)).toBe('primary');
+    expect(listCalendars).not.toHaveBeenCalled();
+  });
+
+  it('prefers an explicit selector over the default', async () => {
+    expect(await resolveCalendarId(PHONE, 'team', 'family@group.calendar.google.com'))
+      .toBe('work@group.calendar.google.com');
+  });
+
+  it('names the visible calendars when nothing matches', async () => {
+    await expect(resolveCalendarId(PHONE, 'work', undefined))
+      .rejects.toThrow('Available: "me@example.com", "Family", "Work - Team", "Work - Out of office".');
+  });
+
+  it('rejects read-only calendars for writes', async () => {
+    await expect(resolveCalendarId(PHONE, 'out of office', undefined, { writable: true }))
+      .rejects.toThrow('read-only');
+    expect(await resolveCalendarId(PHONE, 'out of office', undefined)).toBe('work-ooo@group.calendar.google.com');
+  });
+});
+
+describe('listEventsAcrossCalendars', () => {
+  const min = new Date('2026-03-12T00:00:00Z');
+  const max = new Date('2026-03-13T00:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(listCalendars).mockResolvedValue(CALENDARS.slice(0, 2).concat(CALENDARS[4]));
+  });
+
+  it('labels events with their calendar and merges them in start order', async () => {
+    vi.mocked(listEvents)
+      .mockResolvedValueOnce([{ id: 'p1', title: 'Dentist', start: '2026-03-12T15:00:00Z', end: '2026-03-12T16:00:00Z' }])
+      .mockResolvedValueOnce([{ id: 'f1', title: 'Soccer', start: '2026-03-12T13:00:00Z', end: '2026-03-12T14:00:00Z' }]);
+
+    const { events, skipped } = await listEventsAcrossCalendars(PHONE, min, max);
+
+    expect(events).toEqual([
+      expect.objectContaining({ id: 'f1', calendarId: 'family@group.calendar.google.com', calendarName: 'Family' }),
+      expect.objectContaining({ id: 'p1', calendarId: 'me@example.com', calendarName: 'me@example.com' }),
+    ]);
+    expect(skipped).toEqual([]);
+    expect(listEvents).toHaveBeenCalledTimes(2);
+    expect(listEvents).not.toHaveBeenCalledWith(PHONE, min, max, 'old@group.calendar.google.com');
+  });
+
+  it('skips calendars that fail to load', async () => {
+    vi.mocked(listEvents)
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error('403 Forbidden'));
+
+    const { skipped } = await listEventsAcrossCalendars(PHONE, min, max);
+
+    expect(skipped).toEqual(['Family']);
+  });
+
+  it('propagates auth errors', async () => {
+    vi.mocked(listEvents).mockRejectedValueOnce(new AuthRequiredError(PHONE));
+
+    await expect(listEventsAcrossCalendars(PHONE, min, max)).rejects.toThrow(AuthRequiredError);
+  });
+});
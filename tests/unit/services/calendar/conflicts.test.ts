@@ -0,0 +1,108 @@
+/**
+ * Unit tests for event conflict detection.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/domains/calendar/providers/google-calendar.js', () => ({
+  listEvents: vi.fn(async () => []),
+}));
+
+import { findConflicts, checkConflicts } from '../../../../src/domains/calendar/service/conflicts.js';
+import { listEvents } from '../../../../src/domains/calendar/providers/google-calendar.js';
+import type { CalendarEvent } from '../../../../src/domains/calendar/types.js';
+
+const TZ = 'America/Los_Angeles';
+
+// Thursday 2026-03-12, PDT (UTC-7)
+function event(id: string, start: string, end: string, extra: Partial<CalendarEvent> = {}): CalendarEvent {
+  return { id, title: id, start: `2026-03-12T${start}:00-07:00`, end: `2026-03-12T${end}:00-07:00`, ...extra };
+}
+
+function proposed(start: string, end: string, location?: string) {
+  return {
+    start: new Date(`2026-03-12T${start}:00-07:00`),
+    end: new Date(`2026-03-12T${end}:00-07:00`),
+    location,
+  };
+}
+
+describe('findConflicts', () => {
+  it('reports overlapping events with a readable description', () => {
+    const conflicts = findConflicts([event('Dentist', '15:00', '16:00')], proposed('15:30', '16:30'), TZ);
+
+    expect(conflicts).toEqual([{
+      kind: 'overlap',
+      eventId: 'Dentist',
+      title: 'Dentist',
+      start: '2026-03-12T15:00:00-07:00',
+      end: '2026-03-12T16:00:00-07:00',
+      display: 'Dentist, Thu 3:00 PM–4:00 PM',
+    }]);
+  });
+
+  it('does not treat touching events at the same place as conflicts', () => {
+    const events = [
+      event('Before', '14:00', '15:00', { location: 'Acme HQ' }),
+      event('After', '16:00', '17:00'),
+    ];
+
+    expect(findConflicts(events, proposed('15:00', '16:00', 'acme hq, room 4'), TZ)).toEqual([]);
+  });
+
+  it('warns about back-to-back events at different locations', () => {
+    const events = [
+      event('Dentist', '14:00', '14:45', { location: 'Main St Clinic' }),
+      event('Pickup', '17:00', '17:30', { location: 'School' }),
+      event('Far away', '18:00', '19:00', { location: 'Gym' }),
+    ];
+
+    const conflicts = findConflicts(events, proposed('15:00', '16:40', 'Office'), TZ);
+
+    expect(conflicts.map((c) => [c.kind, c.eventId, c.gapMinutes])).toEqual([
+      ['travel', 'Dentist', 15],
+      ['travel', 'Pickup', 20],
+    ]);
+    expect(conflicts[0].location).toBe('Main St Clinic');
+  });
+
+  it('lists overlaps before travel conflicts', () => {
+    const events = [
+      event('Coffee', '09:30', '10:00', { location: 'Cafe' }),
+      event('Standup', '10:30', '10:45'),
+    ];
+
+    const conflicts = findConflicts(events, proposed('10:00', '11:00', 'Office'), TZ);
+
+    expect(conflicts.map((c) => c.kind)).toEqual(['overlap', 'travel']);
+  });
+
+  it('ignores all-day events and the event being moved', () => {
+    const events = [
+      { id: 'holiday', title: 'Holiday', start: '2026-03-12', end: '2026-03-13', allDay: true },
+      event('self', '10:00', '11:00'),
+    ];
+
+    expect(findConflicts(events, { ...proposed('10:30', '11:30'), excludeEventId: 'self' }, TZ)).toEqual([]);
+  });
+});
+
+describe('checkConflicts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists events within the travel gap around the proposed time', async () => {
+    vi.mocked(listEvents).mockResolvedValueOnce([event('Dentist', '15:00', '16:00')]);
+
+    const conflicts = await checkConflicts('+15551234567', proposed('15:30', '16:30'), TZ, 'family@group.calendar.google.com');
+
+    expect(conflicts).toHaveLength(1);
+    expect(listEvents).toHaveBeenCalledWith(
+      '+15551234567',
+      new Date('2026-03-12T22:00:00Z'),
+      new Date('2026-03-13T00:00:00Z'),
+      'family@group.calendar.google.com'
+    );
+  });
+});
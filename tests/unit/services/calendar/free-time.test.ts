@@ -0,0 +1,139 @@
+/**
+ * Unit tests for free-time slot search.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import { findFreeSlots, parseTimeOfDay } from '../../../../src/domains/calendar/service/free-time.js';
+
+const TZ = 'America/New_York';
+
+function at(iso: string): Date {
+  return DateTime.fromISO(iso, { zone: TZ }).toJSDate();
+}
+
+function busy(start: string, end: string) {
+  return {
+    start: DateTime.fromISO(start, { zone: TZ }).toUTC().toISO() as string,
+    end: DateTime.fromISO(end, { zone: TZ }).toUTC().toISO() as string,
+  };
+}
+
+/** Thursday 2026-03-12 */
+const thursday = {
+  windowStart: at('2026-03-12T00:00'),
+  windowEnd: at('2026-03-12T23:59:59'),
+  timezone: TZ,
+  now: at('2026-03-10T08:00'),
+};
+
+function starts(slots: Array<{ start: string }>): string[] {
+  return slots.map((s) => DateTime.fromISO(s.start, { zone: TZ }).toFormat('ccc HH:mm'));
+}
+
+describe('parseTimeOfDay', () => {
+  it.each([
+    ['09:00', 540],
+    ['9:30', 570],
+    ['24:00', 1440],
+  ])('parses %s', (input, minutes) => {
+    expect(parseTimeOfDay(input)).toBe(minutes);
+  });
+
+  it.each([['9am'], ['25:00'], ['12:60'], ['']])('rejects %s', (input) => {
+    expect(parseTimeOfDay(input)).toBeNull();
+  });
+});
+
+describe('findFreeSlots', () => {
+  it('ranks slots flush against events first, then by time', () => {
+    const slots = findFreeSlots(
+      [busy('2026-03-12T10:00', '2026-03-12T11:00'), busy('2026-03-12T13:00', '2026-03-12T15:30')],
+      { ...thursday, durationMinutes: 60, workingHours: { start: '12:00', end: '17:00' } }
+    );
+
+    // Gaps: 12:00–13:00 (exactly one hour) and 15:30–17:00; 16:00 would overlap 15:30
+    expect(starts(slots)).toEqual(['Thu 12:00', 'Thu 15:30']);
+    expect(slots[0]).toMatchObject({
+      start: '2026-03-12T12:00:00.000-04:00',
+      end: '2026-03-12T13:00:00.000-04:00',
+      display: 'Thu, Mar 12, 12:00 PM – 1:00 PM',
+    });
+  });
+
+  it('keeps a buffer around existing events', () => {
+    const slots = findFreeSlots(
+      [busy('2026-03-12T09:00', '2026-03-12T10:10')],
+      { ...thursday, durationMinutes: 30, bufferMinutes: 15, workingHours: { start: '09:00', end: '11:00' }, maxSlots: 1 }
+    );
+
+    // 10:10 + 15 minute buffer, rounded up to the quarter hour
+    expect(starts(slots)).toEqual(['Thu 10:30']);
+  });
+
+  it('returns nothing when the day is fully booked', () => {
+    const slots = findFreeSlots(
+      [busy('2026-03-12T08:00', '2026-03-12T18:00')],
+      { ...thursday, durationMinutes: 30 }
+    );
+
+    expect(slots).toEqual([]);
+  });
+
+  it('never offers slots in the past', () => {
+    const slots = findFreeSlots([], {
+      ...thursday,
+      durationMinutes: 60,
+      now: at('2026-03-12T15:20'),
+    });
+
+    expect(starts(slots)).toEqual(['Thu 15:30']);
+  });
+
+  it('spreads a multi-day search across days and skips weekends', () => {
+    const slots = findFreeSlots([], {
+      windowStart: at('2026-03-13T00:00'), // Friday
+      windowEnd: at('2026-03-16T23:59'), // Monday
+      timezone: TZ,
+      now: at('2026-03-10T08:00'),
+      durationMinutes: 60,
+      maxSlots: 4,
+    });
+
+    expect(starts(slots)).toEqual(['Fri 09:00', 'Fri 16:00', 'Mon 09:00', 'Mon 16:00']);
+  });
+
+  it('includes weekends when asked', () => {
+    const slots = findFreeSlots([], {
+      windowStart: at('2026-03-14T00:00'), // Saturday
+      windowEnd: at('2026-03-14T23:59'),
+      timezone: TZ,
+      now: at('2026-03-10T08:00'),
+      durationMinutes: 60,
+      includeWeekends: true,
+      maxSlots: 1,
+    });
+
+    expect(starts(slots)).toEqual(['Sat 09:00']);
+  });
+
+  it('keeps working hours on wall-clock time across a DST change', () => {
+    const slots = findFreeSlots([], {
+      windowStart: at('2026-03-08T00:00'), // Sunday, clocks spring forward at 02:00
+      windowEnd: at('2026-03-08T23:59'),
+      timezone: TZ,
+      now: at('2026-03-01T08:00'),
+      durationMinutes: 60,
+      includeWeekends: true,
+      maxSlots: 2,
+    });
+
+    expect(starts(slots)).toEqual(['Sun 09:00', 'Sun 16:00']);
+  });
+
+  it('fills remaining slots from the same day once every day has had its share', () => {
+    const slots = findFreeSlots([], { ...thursday, durationMinutes: 60, maxSlots: 4 });
+
+    expect(starts(slots)).toEqual(['Thu 09:00', 'Thu 16:00', 'Thu 10:00', 'Thu 11:00']);
+  });
+});
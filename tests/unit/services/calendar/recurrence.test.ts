@@ -0,0 +1,186 @@
+/**
+ * Unit tests for recurring event rules and series edits.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  setMockEvents,
+  setMockInstances,
+  clearMockState,
+  getPatchedEvents,
+  getLastInsertedEvent,
+  type MockCalendarEvent,
+} from '../../../mocks/google-calendar.js';
+import { getCredentialStore, resetCredentialStore } from '../../../../src/services/credentials/index.js';
+import { clearClientCache } from '../../../../src/domains/google-core/providers/auth.js';
+import {
+  normalizeRecurrenceRule,
+  endRecurrenceBefore,
+  continueRecurrence,
+  updateThisAndFollowing,
+  updateAllOccurrences,
+} from '../../../../src/domains/calendar/service/recurrence.js';
+
+const PHONE = '+15551234567';
+
+const MASTER: MockCalendarEvent = {
+  id: 'standup',
+  summary: 'Standup',
+  start: { dateTime: '2026-02-02T09:00:00-08:00', timeZone: 'America/Los_Angeles' } as MockCalendarEvent['start'],
+  end: { dateTime: '2026-02-02T09:15:00-08:00', timeZone: 'America/Los_Angeles' } as MockCalendarEvent['end'],
+  location: 'Room 4',
+  recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10'],
+  attendees: [
+    { email: 'me@example.com', organizer: true, self: true, responseStatus: 'accepted' },
+    { email: 'sam@example.com', responseStatus: 'accepted' },
+  ],
+  hangoutLink: 'https://meet.google.com/abc-defg-hij',
+};
+
+function instance(date: string): MockCalendarEvent {
+  return {
+    id: `standup_${date.replace(/-/g, '')}T170000Z`,
+    summary: 'Standup',
+    start: { dateTime: `${date}T09:00:00-08:00` },
+    end: { dateTime: `${date}T09:15:00-08:00` },
+    recurringEventId: 'standup',
+    originalStartTime: { dateTime: `${date}T09:00:00-08:00` },
+  };
+}
+
+describe('normalizeRecurrenceRule', () => {
+  it.each([
+    ['FREQ=WEEKLY;BYDAY=TU,TH', 'RRULE:FREQ=WEEKLY;BYDAY=TU,TH'],
+    ['rrule:freq=daily;count=5', 'RRULE:FREQ=DAILY;COUNT=5'],
+    [' FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=15 ', 'RRULE:FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=15'],
+    ['FREQ=YEARLY;UNTIL=20271231T235959Z', 'RRULE:FREQ=YEARLY;UNTIL=20271231T235959Z'],
+  ])('accepts %s', (input, expected) => {
+    expect(normalizeRecurrenceRule(input)).toBe(expected);
+  });
+
+  it.each([
+    ['every tuesday'],
+    ['FREQ=HOURLY'],
+    ['BYDAY=MO'],
+    ['FREQ=DAILY;COUNT=0'],
+    ['FREQ=DAILY;COUNT=5;UNTIL=20270101'],
+    ['FREQ=DAILY;FREQ=WEEKLY'],
+    ['FREQ=WEEKLY;UNTIL=next year'],
+    [''],
+  ])('rejects %s', (input) => {
+    expect(normalizeRecurrenceRule(input)).toBeNull();
+  });
+});
+
+describe('endRecurrenceBefore', () => {
+  it('ends timed series one second before the split and drops COUNT', () => {
+    expect(endRecurrenceBefore(
+      ['RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10', 'EXDATE:20260209T170000Z'],
+      { dateTime: '2026-02-16T09:00:00-08:00' }
+    )).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260216T165959Z', 'EXDATE:20260209T170000Z']);
+  });
+
+  it('ends all-day series the day before the split', () => {
+    expect(endRecurrenceBefore(['RRULE:FREQ=DAILY;UNTIL=20261231'], { date: '2026-03-01' }))
+      .toEqual(['RRULE:FREQ=DAILY;UNTIL=20260228']);
+  });
+});
+
+describe('continueRecurrence', () => {
+  it('reduces COUNT by the occurrences left behind', () => {
+    expect(continueRecurrence(['RRULE:FREQ=WEEKLY;COUNT=10'], 3)).toEqual(['RRULE:FREQ=WEEKLY;COUNT=7']);
+    expect(continueRecurrence(['RRULE:FREQ=WEEKLY;BYDAY=MO'], 3)).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO']);
+  });
+});
+
+describe('series edits', () => {
+  beforeEach(async () => {
+    clearMockState();
+    resetCredentialStore();
+    clearClientCache();
+    vi.clearAllMocks();
+    await getCredentialStore().set(PHONE, 'google', {
+      accessToken: 'token',
+      refreshToken: 'refresh',
+      expiresAt: Date.now() + 3600000,
+    });
+  });
+
+  describe('updateThisAndFollowing', () => {
+    it('splits the series at the instance and carries fields into the new series', async () => {
+      const split = instance('2026-02-16');
+      setMockEvents([MASTER, split]);
+      setMockInstances([instance('2026-02-02'), instance('2026-02-09'), split, instance('2026-02-23')]);
+
+      const { event, previousSeriesId } = await updateThisAndFollowing(PHONE, split.id, {
+        startTime: new Date('2026-02-16T18:00:00Z'),
+        addAttendees: ['kim@example.com'],
+      });
+
+      expect(previousSeriesId).toBe('standup');
+      expect(getPatchedEvents()).toEqual([{
+        eventId: 'standup',
+        requestBody: { recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260216T165959Z'] },
+      }]);
+
+      const inserted = getLastInsertedEvent();
+      expect(inserted).toMatchObject({
+        summary: 'Standup',
+        location: 'Room 4',
+        start: { dateTime: '2026-02-16T18:00:00.000Z', timeZone: 'America/Los_Angeles' },
+        end: { dateTime: '2026-02-16T18:15:00.000Z', timeZone: 'America/Los_Angeles' },
+        recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=8'],
+        attendees: [{ email: 'sam@example.com' }, { email: 'kim@example.com' }],
+      });
+      expect(inserted?.conferenceData).toBeDefined();
+      expect(event.id).toBe('new-event-id');
+    });
+
+    it('edits the whole series when the instance is the first one', async () => {
+      const first = instance('2026-02-02');
+      setMockEvents([MASTER, first]);
+
+      const { previousSeriesId } = await updateThisAndFollowing(PHONE, first.id, { title: 'Daily sync' });
+
+      expect(previousSeriesId).toBeNull();
+      expect(getPatchedEvents()).toHaveLength(1);
+      expect(getPatchedEvents()[0]).toMatchObject({ eventId: 'standup', requestBody: { summary: 'Daily sync' } });
+      expect(getLastInsertedEvent()).toBeNull();
+    });
+
+    it('rejects events that are not recurring', async () => {
+      setMockEvents([{ ...MASTER, id: 'single', recurrence: undefined }]);
+
+      await expect(updateThisAndFollowing(PHONE, 'single', { title: 'x' }))
+        .rejects.toThrow('not part of a recurring series');
+    });
+  });
+
+  describe('updateAllOccurrences', () => {
+    it('shifts the series master by the instance time change', async () => {
+      const later = instance('2026-02-16');
+      setMockEvents([MASTER, later]);
+
+      await updateAllOccurrences(PHONE, later.id, {
+        startTime: new Date('2026-02-16T10:00:00-08:00'),
+        endTime: new Date('2026-02-16T10:30:00-08:00'),
+      });
+
+      expect(getPatchedEvents()).toEqual([{
+        eventId: 'standup',
+        requestBody: {
+          start: { dateTime: '2026-02-02T18:00:00.000Z', timeZone: 'America/Los_Angeles' },
+          end: { dateTime: '2026-02-02T18:30:00.000Z', timeZone: 'America/Los_Angeles' },
+        },
+      }]);
+    });
+
+    it('updates non-recurring events directly', async () => {
+      setMockEvents([{ ...MASTER, id: 'single', recurrence: undefined }]);
+
+      await updateAllOccurrences(PHONE, 'single', { description: 'Notes' });
+
+      expect(getPatchedEvents()).toEqual([{ eventId: 'single', requestBody: { description: 'Notes' } }]);
+    });
+  });
+});
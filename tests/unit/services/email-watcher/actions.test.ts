@@ -4,8 +4,23 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
+const { mockEnqueue } = vi.hoisted(() => ({
+  mockEnqueue: vi.fn(),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/repo/sqlite.js', () => ({
+  getNotificationQueue: vi.fn(() => ({
+    enqueue: mockEnqueue,
+  })),
+}));
+
 vi.mock('../../../../src/domains/email-watcher/providers/skills.js', () => ({
   executeFilesystemSkillByName: vi.fn(),
+  findFilesystemSkill: vi.fn(() => null),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/providers/email.js', () => ({
+  saveEmailAttachments: vi.fn(),
 }));
 
 vi.mock('../../../../src/services/user-config/index.js', () => ({
@@ -35,7 +50,11 @@ vi.mock('../../../../src/config.js', () => ({
 }));
 
 import { executeSkillActions } from '../../../../src/domains/email-watcher/service/actions.js';
-import { executeFilesystemSkillByName } from '../../../../src/domains/email-watcher/providers/skills.js';
+import {
+  executeFilesystemSkillByName,
+  findFilesystemSkill,
+} from '../../../../src/domains/email-watcher/providers/skills.js';
+import { saveEmailAttachments } from '../../../../src/domains/email-watcher/providers/email.js';
 import { sendSms } from '../../../../src/twilio.js';
 import type { ClassificationResult } from '../../../../src/domains/email-watcher/types.js';
 
@@ -49,6 +68,7 @@ function makeClassification(overrides: Partial<ClassificationResult> = {}): Clas
       date: 'Mon, 20 Jan 2025 10:00:00 -0800',
       body: 'Please find attached invoice.',
       attachments: [],
+      labelIds: ['INBOX'],
     },
     matches: [
       {
@@ -91,6 +111,93 @@ describe('executeSkillActions', () => {
     expect(smsBody).toContain('Logged invoice to tracking sheet.');
   });
 
+  it('passes classifier-extracted fields to the skill input', async () => {
+    vi.mocked(executeFilesystemSkillByName).mockResolvedValue({
+      success: true,
+      output: 'Logged.',
+      error: undefined,
+    });
+
+    const { executeSkillActions: freshExecute } = await import(
+      '../../../../src/domains/email-watcher/service/actions.js'
+    );
+    await freshExecute('+1234567890', [makeClassification({
+      matches: [{
+        skill: 'invoice-tracker',
+        confidence: 0.9,
+        extracted: { vendor: 'Acme', amount: 42 },
+        summary: 'Invoice from Acme',
+      }],
+    })]);
+
+    const input = vi.mocked(executeFilesystemSkillByName).mock.calls[0][1];
+    expect(input).toContain('<extracted_data>');
+    expect(input).toContain('{"vendor":"Acme","amount":42}');
+  });
+
+  it('saves attachments for skills that ask for it and passes the Drive files to the skill', async () => {
+    vi.mocked(executeFilesystemSkillByName).mockResolvedValue({
+      success: true,
+      output: 'Filed receipt.',
+      error: undefined,
+    });
+    vi.mocked(findFilesystemSkill).mockReturnValueOnce({ saveAttachments: { analyze: true } } as never);
+    vi.mocked(saveEmailAttachments).mockResolvedValue({
+      emailId: 'msg_1',
+      folderId: 'folder-1',
+      folderPath: 'Hermes/Email Attachments/2025-01-20',
+      saved: [{
+        filename: 'invoice.pdf',
+        mimeType: 'application/pdf',
+        sizeBytes: 1200,
+        driveFileId: 'drive-1',
+        webViewLink: 'https://drive.google.com/drive-1',
+        analysis: 'Invoice from Acme for $42',
+      }],
+      failed: [],
+    });
+
+    const { executeSkillActions: freshExecute } = await import(
+      '../../../../src/domains/email-watcher/service/actions.js'
+    );
+    await freshExecute('+1234567890', [makeClassification({
+      email: {
+        ...makeClassification().email,
+        attachments: [{ filename: 'invoice.pdf', mimeType: 'application/pdf', sizeBytes: 1200 }],
+      },
+    })]);
+
+    expect(saveEmailAttachments).toHaveBeenCalledWith('+1234567890', 'msg_1', {
+      analyze: true,
+      timezone: undefined,
+    });
+    const input = vi.mocked(executeFilesystemSkillByName).mock.calls[0][1];
+    expect(input).toContain('<saved_attachments folder="Hermes/Email Attachments/2025-01-20">');
+    expect(input).toContain('"driveFileId":"drive-1"');
+    expect(input).toContain('Invoice from Acme for $42');
+  });
+
+  it('does not save attachments unless a matched skill opts in', async () => {
+    vi.mocked(executeFilesystemSkillByName).mockResolvedValue({
+      success: true,
+      output: 'Logged.',
+      error: undefined,
+    });
+
+    const { executeSkillActions: freshExecute } = await import(
+      '../../../../src/domains/email-watcher/service/actions.js'
+    );
+    await freshExecute('+1234567890', [makeClassification({
+      email: {
+        ...makeClassification().email,
+        attachments: [{ filename: 'invoice.pdf', mimeType: 'application/pdf', sizeBytes: 1200 }],
+      },
+    })]);
+
+    expect(saveEmailAttachments).not.toHaveBeenCalled();
+    expect(vi.mocked(executeFilesystemSkillByName).mock.calls[0][1]).not.toContain('<saved_attachments');
+  });
+
   it('falls back to match summary when skill execution fails', async () => {
     vi.mocked(executeFilesystemSkillByName).mockResolvedValue({
       success: false,
@@ -108,7 +215,7 @@ describe('executeSkillActions', () => {
     expect(smsBody).toContain('Matched hints: invoice');
   });
 
-  it('throttles notifications after max per hour', async () => {
+  it('queues notifications beyond the hourly limit instead of dropping them', async () => {
     vi.mocked(executeFilesystemSkillByName).mockResolvedValue({
       success: true,
       output: 'Processed.',
@@ -132,5 +239,62 @@ describe('executeSkillActions', () => {
     }
 
     expect(sendSms).toHaveBeenCalledTimes(3);
+    expect(mockEnqueue).toHaveBeenCalledTimes(2);
+    expect(mockEnqueue.mock.calls[0][0]).toMatchObject({
+      phoneNumber: '+1234567890',
+      subject: 'Invoice #123',
+      body: 'Processed.',
+    });
+  });
+});
+
+describe('executeRuleAction', () => {
+  const rule = {
+    id: 1,
+    phoneNumber: '+1234567890',
+    name: 'accountant',
+    from: 'cpa.com',
+    labelId: null,
+    labelName: null,
+    subjectPattern: null,
+    hasAttachment: null,
+    skill: null,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  it('notifies with a preview of the email and the rule name', async () => {
+    const { executeRuleAction } = await import('../../../../src/domains/email-watcher/service/actions.js');
+
+    await executeRuleAction('+1234567890', { ...rule, action: 'notify' }, makeClassification().email);
+
+    expect(executeFilesystemSkillByName).not.toHaveBeenCalled();
+    const smsBody = vi.mocked(sendSms).mock.calls[0][1] as string;
+    expect(smsBody).toContain('Invoice #123');
+    expect(smsBody).toContain('Please find attached invoice.');
+    expect(smsBody).toContain('(Rule: accountant)');
+  });
+
+  it('runs the rule skill without classification', async () => {
+    vi.mocked(executeFilesystemSkillByName).mockResolvedValue({
+      success: true,
+      output: 'Logged invoice.',
+      error: undefined,
+    });
+    const { executeRuleAction } = await import('../../../../src/domains/email-watcher/service/actions.js');
+
+    await executeRuleAction(
+      '+1234567890',
+      { ...rule, action: 'run_skill', skill: 'invoice-tracker' },
+      makeClassification().email
+    );
+
+    expect(vi.mocked(executeFilesystemSkillByName).mock.calls[0][0]).toBe('invoice-tracker');
+    expect(vi.mocked(sendSms).mock.calls[0][1]).toContain('Logged invoice.');
   });
 });
@@ -0,0 +1,246 @@
+/**
+ * Unit tests for email watcher delivery policy (digests, quiet hours, queueing).
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DateTime } from 'luxon';
+
+const { mockGetUserConfig, queueRef } = vi.hoisted(() => ({
+  mockGetUserConfig: vi.fn(),
+  queueRef: { current: null as unknown },
+}));
+
+vi.mock('../../../../src/twilio.js', () => ({
+  sendSms: vi.fn().mockResolvedValue('SM123'),
+}));
+
+vi.mock('../../../../src/config.js', () => ({
+  default: {
+    emailWatcher: { maxNotificationsPerHour: 2 },
+  },
+}));
+
+vi.mock('../../../../src/services/user-config/index.js', () => ({
+  getUserConfigStore: vi.fn(() => ({ get: mockGetUserConfig })),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/repo/sqlite.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../../src/domains/email-watcher/repo/sqlite.js')>();
+  return {
+    ...actual,
+    getNotificationQueue: vi.fn(() => queueRef.current),
+  };
+});
+
+import { sendSms } from '../../../../src/twilio.js';
+import { SqliteNotificationQueue } from '../../../../src/domains/email-watcher/repo/sqlite.js';
+import type { UserConfig } from '../../../../src/services/user-config/index.js';
+
+type DeliveryModule = typeof import('../../../../src/domains/email-watcher/service/delivery.js');
+
+const PHONE = '+15551234567';
+const TZ = 'America/New_York';
+
+function at(iso: string): number {
+  return DateTime.fromISO(iso, { zone: TZ }).toMillis();
+}
+
+function userConfig(overrides: Partial<UserConfig> = {}): UserConfig {
+  return {
+    phoneNumber: PHONE,
+    timezone: TZ,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+const notification = { from: 'billing@acme.com', subject: 'Invoice #42', body: 'Logged $42 to Expenses.' };
+
+describe('email watcher delivery', () => {
+  let queue: SqliteNotificationQueue;
+  let delivery: DeliveryModule;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.resetModules();
+    queue = new SqliteNotificationQueue(':memory:');
+    queueRef.current = queue;
+    // Fresh module per test so the in-memory throttle starts empty
+    delivery = await import('../../../../src/domains/email-watcher/service/delivery.js');
+  });
+
+  describe('parseQuietHours', () => {
+    it('accepts HH:MM-HH:MM ranges, including ones that wrap midnight', () => {
+      expect(delivery.parseQuietHours('22:00-07:00')).toEqual({ start: '22:00', end: '07:00' });
+      expect(delivery.parseQuietHours(' 9:30 - 17:00 ')).toEqual({ start: '9:30', end: '17:00' });
+    });
+
+    it('rejects malformed or empty ranges', () => {
+      expect(delivery.parseQuietHours('10pm-7am')).toBeNull();
+      expect(delivery.parseQuietHours('22:00')).toBeNull();
+      expect(delivery.parseQuietHours('08:00-08:00')).toBeNull();
+      expect(delivery.parseQuietHours('25:00-07:00')).toBeNull();
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    const policy = { mode: 'immediate' as const, quietHours: { start: '22:00', end: '07:00' } };
+
+    it('evaluates the window in the user timezone', () => {
+      expect(delivery.isWithinQuietHours(policy, at('2026-03-10T23:30'), TZ)).toBe(true);
+      expect(delivery.isWithinQuietHours(policy, at('2026-03-10T06:59'), TZ)).toBe(true);
+      expect(delivery.isWithinQuietHours(policy, at('2026-03-10T07:00'), TZ)).toBe(false);
+      expect(delivery.isWithinQuietHours(policy, at('2026-03-10T12:00'), TZ)).toBe(false);
+    });
+
+    it('is never quiet without a window', () => {
+      expect(delivery.isWithinQuietHours({ mode: 'immediate' }, at('2026-03-10T23:30'), TZ)).toBe(false);
+    });
+  });
+
+  describe('latestDigestBoundary', () => {
+    it('uses the start of the local hour for hourly digests', () => {
+      const boundary = delivery.latestDigestBoundary({ mode: 'hourly' }, at('2026-03-10T10:42'), TZ);
+      expect(boundary).toBe(at('2026-03-10T10:00'));
+    });
+
+    it('uses the latest passed digest time, falling back to yesterday', () => {
+      const policy = { mode: 'scheduled' as const, digestTimes: ['08:00', '18:00'] };
+      expect(delivery.latestDigestBoundary(policy, at('2026-03-10T12:00'), TZ)).toBe(at('2026-03-10T08:00'));
+      expect(delivery.latestDigestBoundary(policy, at('2026-03-10T19:00'), TZ)).toBe(at('2026-03-10T18:00'));
+      expect(delivery.latestDigestBoundary(policy, at('2026-03-10T07:00'), TZ)).toBe(at('2026-03-09T18:00'));
+    });
+  });
+
+  describe('deliverNotification', () => {
+    it('sends immediately by default', async () => {
+      const outcome = await delivery.deliverNotification(PHONE, userConfig(), notification, at('2026-03-10T12:00'));
+
+      expect(outcome).toBe('sent');
+      expect(sendSms).toHaveBeenCalledWith(PHONE, expect.stringContaining('Invoice #42'));
+      expect(queue.listPending(PHONE)).toEqual([]);
+    });
+
+    it('queues during quiet hours', async () => {
+      const config = userConfig({
+        emailWatcherDelivery: { mode: 'immediate', quietHours: { start: '22:00', end: '07:00' } },
+      });
+
+      const outcome = await delivery.deliverNotification(PHONE, config, notification, at('2026-03-10T23:00'));
+
+      expect(outcome).toBe('queued');
+      expect(sendSms).not.toHaveBeenCalled();
+      expect(queue.listPending(PHONE)).toHaveLength(1);
+    });
+
+    it('queues instead of dropping when the hourly throttle is hit', async () => {
+      const now = at('2026-03-10T12:00');
+      for (let i = 0; i < 3; i++) {
+        await delivery.deliverNotification(PHONE, userConfig(), notification, now);
+      }
+
+      expect(sendSms).toHaveBeenCalledTimes(2);
+      expect(queue.listPending(PHONE)).toHaveLength(1);
+    });
+
+    it('queues when the SMS send fails', async () => {
+      vi.mocked(sendSms).mockRejectedValueOnce(new Error('Twilio down'));
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const outcome = await delivery.deliverNotification(PHONE, userConfig(), notification, at('2026-03-10T12:00'));
+
+      expect(outcome).toBe('queued');
+      expect(queue.listPending(PHONE)).toHaveLength(1);
+      log.mockRestore();
+    });
+
+    it('always queues in digest modes', async () => {
+      const outcome = await delivery.deliverNotification(
+        PHONE,
+        userConfig({ emailWatcherDelivery: { mode: 'hourly' } }),
+        notification,
+        at('2026-03-10T12:00')
+      );
+
+      expect(outcome).toBe('queued');
+      expect(sendSms).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('flushNotificationQueue', () => {
+    it('sends an hourly digest once the hour boundary passes', async () => {
+      const config = userConfig({ emailWatcherDelivery: { mode: 'hourly' } });
+      mockGetUserConfig.mockResolvedValue(config);
+      await delivery.deliverNotification(PHONE, config, notification, at('2026-03-10T10:05'));
+      await delivery.deliverNotification(PHONE, config, { ...notification, subject: 'Receipt' }, at('2026-03-10T10:20'));
+
+      expect(await delivery.flushNotificationQueue(at('2026-03-10T10:59'))).toBe(0);
+      expect(await delivery.flushNotificationQueue(at('2026-03-10T11:00'))).toBe(1);
+
+      const body = vi.mocked(sendSms).mock.calls[0][1] as string;
+      expect(body).toContain('Email digest (2 emails)');
+      expect(body).toContain('Invoice #42');
+      expect(body).toContain('Receipt');
+      expect(queue.listPending(PHONE)).toEqual([]);
+    });
+
+    it('leaves notifications queued after the boundary for the next digest', async () => {
+      const config = userConfig({ emailWatcherDelivery: { mode: 'hourly' } });
+      mockGetUserConfig.mockResolvedValue(config);
+      await delivery.deliverNotification(PHONE, config, notification, at('2026-03-10T10:05'));
+      await delivery.deliverNotification(PHONE, config, { ...notification, subject: 'Receipt' }, at('2026-03-10T11:20'));
+
+      expect(await delivery.flushNotificationQueue(at('2026-03-10T11:30'))).toBe(1);
+      const first = vi.mocked(sendSms).mock.calls[0][1] as string;
+      expect(first).toContain('Email digest (1 email)');
+      expect(first).not.toContain('Receipt');
+      expect(queue.listPending(PHONE).map((item) => item.subject)).toEqual(['Receipt']);
+
+      expect(await delivery.flushNotificationQueue(at('2026-03-10T11:45'))).toBe(0);
+      expect(await delivery.flushNotificationQueue(at('2026-03-10T12:00'))).toBe(1);
+      expect(vi.mocked(sendSms).mock.calls[1][1]).toContain('Receipt');
+      expect(queue.listPending(PHONE)).toEqual([]);
+    });
+
+    it('holds scheduled digests until the configured time and outside quiet hours', async () => {
+      const config = userConfig({
+        emailWatcherDelivery: {
+          mode: 'scheduled',
+          digestTimes: ['07:00'],
+          quietHours: { start: '22:00', end: '07:30' },
+        },
+      });
+      mockGetUserConfig.mockResolvedValue(config);
+      await delivery.deliverNotification(PHONE, config, notification, at('2026-03-10T23:15'));
+
+      expect(await delivery.flushNotificationQueue(at('2026-03-11T06:00'))).toBe(0);
+      expect(await delivery.flushNotificationQueue(at('2026-03-11T07:10'))).toBe(0);
+      expect(await delivery.flushNotificationQueue(at('2026-03-11T07:30'))).toBe(1);
+    });
+
+    it('flushes throttled immediate notifications when the window resets', async () => {
+      mockGetUserConfig.mockResolvedValue(userConfig());
+      const now = at('2026-03-10T12:00');
+      for (let i = 0; i < 3; i++) {
+        await delivery.deliverNotification(PHONE, userConfig(), notification, now);
+      }
+
+      expect(await delivery.flushNotificationQueue(now + 60_000)).toBe(0);
+      expect(await delivery.flushNotificationQueue(now + 61 * 60_000)).toBe(1);
+      expect(queue.listPending(PHONE)).toEqual([]);
+    });
+
+    it('keeps notifications queued when the digest send fails', async () => {
+      const config = userConfig({ emailWatcherDelivery: { mode: 'hourly' } });
+      mockGetUserConfig.mockResolvedValue(config);
+      await delivery.deliverNotification(PHONE, config, notification, at('2026-03-10T10:05'));
+      vi.mocked(sendSms).mockRejectedValueOnce(new Error('Twilio down'));
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      expect(await delivery.flushNotificationQueue(at('2026-03-10T11:00'))).toBe(0);
+      expect(queue.listPending(PHONE)).toHaveLength(1);
+      log.mockRestore();
+    });
+  });
+});
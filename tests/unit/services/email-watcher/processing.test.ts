@@ -0,0 +1,299 @@
+/**
+ * Unit tests for the ledger-backed email watcher processing pipeline.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { ledgerRef, rulesRef, mockUpdateState } = vi.hoisted(() => ({
+  ledgerRef: { current: null as unknown },
+  rulesRef: { current: null as unknown },
+  mockUpdateState: vi.fn(),
+}));
+
+vi.mock('../../../../src/config.js', () => ({
+  default: {
+    emailWatcher: { batchSize: 2 },
+  },
+}));
+
+vi.mock('../../../../src/services/user-config/index.js', () => ({
+  getUserConfigStore: vi.fn(() => ({ updateEmailWatcherState: mockUpdateState })),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/providers/gmail-sync.js', () => ({
+  listNewMessageIds: vi.fn(),
+  fetchEmails: vi.fn(),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/service/classifier.js', () => ({
+  classifyEmails: vi.fn(),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/service/actions.js', () => ({
+  executeSkillActions: vi.fn(),
+  executeRuleAction: vi.fn(),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/repo/sqlite.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../../src/domains/email-watcher/repo/sqlite.js')>();
+  return {
+    ...actual,
+    getProcessingLedger: vi.fn(() => ledgerRef.current),
+    getWatcherRuleStore: vi.fn(() => rulesRef.current),
+  };
+});
+
+import {
+  syncNewEmails,
+  processEmails,
+  replayEmail,
+  pruneProcessingLedger,
+  MAX_PROCESSING_ATTEMPTS,
+} from '../../../../src/domains/email-watcher/service/processing.js';
+import { listNewMessageIds, fetchEmails } from '../../../../src/domains/email-watcher/providers/gmail-sync.js';
+import { classifyEmails } from '../../../../src/domains/email-watcher/service/classifier.js';
+import { executeSkillActions, executeRuleAction } from '../../../../src/domains/email-watcher/service/actions.js';
+import { SqliteProcessingLedger, SqliteWatcherRuleStore } from '../../../../src/domains/email-watcher/repo/sqlite.js';
+import type { IncomingEmail } from '../../../../src/domains/email-watcher/types.js';
+
+const PHONE = '+15551234567';
+
+function email(messageId: string): IncomingEmail {
+  return {
+    messageId,
+    from: 'billing@acme.com',
+    subject: `Invoice ${messageId}`,
+    date: 'Mon, 20 Jan 2025 10:00:00 -0800',
+    body: 'Amount due: $42',
+    attachments: [],
+    labelIds: ['INBOX'],
+  };
+}
+
+function fetchAll() {
+  vi.mocked(fetchEmails).mockImplementation(async (_phone, ids) =>
+    ids.map((messageId) => ({ messageId, email: email(messageId) })));
+}
+
+describe('email watcher processing', () => {
+  let ledger: SqliteProcessingLedger;
+  let rules: SqliteWatcherRuleStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ledger = new SqliteProcessingLedger(':memory:');
+    ledgerRef.current = ledger;
+    rules = new SqliteWatcherRuleStore(':memory:');
+    rulesRef.current = rules;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('syncNewEmails', () => {
+    it('records new IDs before advancing the cursor and fetches them', async () => {
+      vi.mocked(listNewMessageIds).mockResolvedValue({ messageIds: ['m1'], historyId: '200' });
+      mockUpdateState.mockImplementationOnce(async () => {
+        expect(ledger.get(PHONE, 'm1')?.status).toBe('pending');
+      });
+      fetchAll();
+
+      const emails = await syncNewEmails(PHONE);
+
+      expect(mockUpdateState).toHaveBeenCalledWith(PHONE, '200');
+      expect(emails.map((e) => e.messageId)).toEqual(['m1']);
+      expect(ledger.get(PHONE, 'm1')).toMatchObject({
+        status: 'fetched',
+        from: 'billing@acme.com',
+        subject: 'Invoice m1',
+      });
+    });
+
+    it('carries overflow beyond the batch size into the next poll', async () => {
+      vi.mocked(listNewMessageIds)
+        .mockResolvedValueOnce({ messageIds: ['m1', 'm2', 'm3'], historyId: '200' })
+        .mockResolvedValueOnce({ messageIds: [], historyId: '200' });
+      vi.mocked(classifyEmails).mockResolvedValue([]);
+      fetchAll();
+
+      const first = await syncNewEmails(PHONE);
+      expect(first.map((e) => e.messageId)).toEqual(['m1', 'm2']);
+      expect(ledger.get(PHONE, 'm3')?.status).toBe('pending');
+
+      await processEmails(PHONE, first);
+      const second = await syncNewEmails(PHONE);
+      expect(second.map((e) => e.messageId)).toEqual(['m3']);
+    });
+
+    it('does not reprocess messages Gmail history reports again', async () => {
+      vi.mocked(listNewMessageIds).mockResolvedValue({ messageIds: ['m1'], historyId: '200' });
+      vi.mocked(classifyEmails).mockResolvedValue([]);
+      fetchAll();
+
+      await processEmails(PHONE, await syncNewEmails(PHONE));
+      const again = await syncNewEmails(PHONE);
+
+      expect(again).toEqual([]);
+      expect(ledger.get(PHONE, 'm1')?.status).toBe('skipped');
+    });
+
+    it('retries fetch failures until attempts run out', async () => {
+      vi.mocked(listNewMessageIds).mockResolvedValue({ messageIds: ['m1'], historyId: null });
+      vi.mocked(fetchEmails).mockResolvedValue([{ messageId: 'm1', error: 'Backend Error' }]);
+
+      for (let i = 0; i < MAX_PROCESSING_ATTEMPTS; i++) {
+        expect(await syncNewEmails(PHONE)).toEqual([]);
+      }
+      expect(ledger.get(PHONE, 'm1')).toMatchObject({
+        status: 'failed',
+        attempts: MAX_PROCESSING_ATTEMPTS,
+        lastError: 'fetch: Backend Error',
+      });
+
+      await syncNewEmails(PHONE);
+      expect(fetchEmails).toHaveBeenCalledTimes(MAX_PROCESSING_ATTEMPTS);
+      expect(mockUpdateState).not.toHaveBeenCalled();
+    });
+
+    it('counts entries cut off mid-processing as attempts and stops retrying them', async () => {
+      vi.mocked(listNewMessageIds).mockResolvedValue({ messageIds: [], historyId: null });
+      ledger.recordSeen(PHONE, ['m1'], 1000);
+      fetchAll();
+
+      for (let i = 0; i < MAX_PROCESSING_ATTEMPTS; i++) {
+        // A crash after classification leaves the entry classified
+        ledger.setStatus(PHONE, 'm1', 'classified', 2000);
+        await syncNewEmails(PHONE);
+      }
+
+      expect(ledger.get(PHONE, 'm1')).toMatchObject({
+        status: 'failed',
+        attempts: MAX_PROCESSING_ATTEMPTS,
+        lastError: 'interrupted while classified',
+      });
+      expect(fetchEmails).toHaveBeenCalledTimes(MAX_PROCESSING_ATTEMPTS - 1);
+      expect(ledger.listDue(PHONE, MAX_PROCESSING_ATTEMPTS, 10)).toEqual([]);
+    });
+  });
+
+  describe('processEmails', () => {
+    beforeEach(() => {
+      ledger.recordSeen(PHONE, ['m1', 'm2'], 1000);
+    });
+
+    it('marks matched emails actioned and unmatched emails skipped', async () => {
+      vi.mocked(classifyEmails).mockResolvedValue([
+        { emailIndex: 1, email: email('m1'), matches: [{ skill: 'expenses', confidence: 0.9, extracted: {}, summary: '' }] },
+        { emailIndex: 2, email: email('m2'), matches: [] },
+      ]);
+
+      const result = await processEmails(PHONE, [email('m1'), email('m2')]);
+
+      expect(result).toEqual({ matched: 1 });
+      expect(executeSkillActions).toHaveBeenCalledTimes(1);
+      expect(ledger.get(PHONE, 'm1')?.status).toBe('actioned');
+      expect(ledger.get(PHONE, 'm2')?.status).toBe('skipped');
+    });
+
+    it('marks an email failed when its actions throw, leaving it due for retry', async () => {
+      vi.mocked(classifyEmails).mockResolvedValue([
+        { emailIndex: 1, email: email('m1'), matches: [{ skill: 'expenses', confidence: 0.9, extracted: {}, summary: '' }] },
+      ]);
+      vi.mocked(executeSkillActions).mockRejectedValueOnce(new Error('Sheets unavailable'));
+
+      await processEmails(PHONE, [email('m1')]);
+
+      expect(ledger.get(PHONE, 'm1')).toMatchObject({ status: 'failed', attempts: 1, lastError: 'actions: Sheets unavailable' });
+      expect(ledger.listDue(PHONE, MAX_PROCESSING_ATTEMPTS, 10).map((e) => e.messageId)).toContain('m1');
+    });
+
+    it('routes rule matches before classification and classifies the rest', async () => {
+      rules.create({
+        phoneNumber: PHONE, name: 'invoices', from: null, labelId: null, labelName: null,
+        subjectPattern: 'invoice m1$', hasAttachment: null, action: 'notify', skill: null,
+      });
+      vi.mocked(classifyEmails).mockResolvedValue([]);
+
+      const result = await processEmails(PHONE, [email('m1'), email('m2')]);
+
+      expect(result).toEqual({ matched: 1 });
+      expect(executeRuleAction).toHaveBeenCalledWith(PHONE, expect.objectContaining({ name: 'invoices' }), email('m1'));
+      expect(classifyEmails).toHaveBeenCalledWith(PHONE, [email('m2')]);
+      expect(ledger.get(PHONE, 'm1')?.status).toBe('actioned');
+      expect(ledger.get(PHONE, 'm2')?.status).toBe('skipped');
+    });
+
+    it('skips emails matched by an ignore rule without classifying them', async () => {
+      rules.create({
+        phoneNumber: PHONE, name: 'acme', from: 'acme.com', labelId: null, labelName: null,
+        subjectPattern: null, hasAttachment: null, action: 'ignore', skill: null,
+      });
+
+      const result = await processEmails(PHONE, [email('m1'), email('m2')]);
+
+      expect(result).toEqual({ matched: 0 });
+      expect(classifyEmails).not.toHaveBeenCalled();
+      expect(executeRuleAction).not.toHaveBeenCalled();
+      expect(ledger.get(PHONE, 'm1')?.status).toBe('skipped');
+    });
+
+    it('marks an email failed when its rule action throws', async () => {
+      rules.create({
+        phoneNumber: PHONE, name: 'acme', from: 'acme.com', labelId: null, labelName: null,
+        subjectPattern: null, hasAttachment: null, action: 'notify', skill: null,
+      });
+      vi.mocked(executeRuleAction).mockRejectedValueOnce(new Error('Twilio down'));
+
+      await processEmails(PHONE, [email('m1')]);
+
+      expect(ledger.get(PHONE, 'm1')).toMatchObject({ status: 'failed', lastError: 'rule acme: Twilio down' });
+    });
+
+    it('marks every email failed and rethrows when classification fails', async () => {
+      vi.mocked(classifyEmails).mockRejectedValue(new Error('Skills unavailable'));
+
+      await expect(processEmails(PHONE, [email('m1'), email('m2')])).rejects.toThrow('Skills unavailable');
+      expect(ledger.get(PHONE, 'm1')?.status).toBe('failed');
+      expect(ledger.get(PHONE, 'm2')?.lastError).toBe('classify: Skills unavailable');
+    });
+  });
+
+  describe('replayEmail', () => {
+    it('reprocesses a finished message', async () => {
+      ledger.recordSeen(PHONE, ['m1'], 1000);
+      ledger.setStatus(PHONE, 'm1', 'skipped', 1000);
+      fetchAll();
+      vi.mocked(classifyEmails).mockResolvedValue([
+        { emailIndex: 1, email: email('m1'), matches: [{ skill: 'expenses', confidence: 0.9, extracted: {}, summary: '' }] },
+      ]);
+
+      const entry = await replayEmail(PHONE, 'm1');
+
+      expect(entry.status).toBe('actioned');
+      expect(executeSkillActions).toHaveBeenCalledTimes(1);
+    });
+
+    it('records unknown messages and reports fetch failures', async () => {
+      vi.mocked(fetchEmails).mockResolvedValue([{ messageId: 'm9', error: 'Requested entity was not found.' }]);
+
+      const entry = await replayEmail(PHONE, 'm9');
+
+      expect(entry).toMatchObject({ messageId: 'm9', status: 'failed', attempts: 1 });
+    });
+  });
+
+  describe('pruneProcessingLedger', () => {
+    it('drops finished entries past retention and keeps unfinished ones', () => {
+      ledger.recordSeen(PHONE, ['old-done', 'old-failed', 'old-exhausted'], 0);
+      ledger.setStatus(PHONE, 'old-done', 'actioned', 0);
+      ledger.markFailed(PHONE, 'old-failed', 'boom', 0);
+      for (let i = 0; i < MAX_PROCESSING_ATTEMPTS; i++) {
+        ledger.markFailed(PHONE, 'old-exhausted', 'boom', 0);
+      }
+
+      expect(pruneProcessingLedger(31 * 24 * 60 * 60 * 1000)).toBe(2);
+      expect(ledger.get(PHONE, 'old-done')).toBeNull();
+      expect(ledger.get(PHONE, 'old-exhausted')).toBeNull();
+      expect(ledger.get(PHONE, 'old-failed')).not.toBeNull();
+    });
+  });
+});
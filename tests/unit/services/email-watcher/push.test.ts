@@ -0,0 +1,142 @@
+/**
+ * Unit tests for Gmail push notifications (envelope parsing and watch renewal).
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { storeRef, mockGetEmailWatcherUsers } = vi.hoisted(() => ({
+  storeRef: { current: null as unknown },
+  mockGetEmailWatcherUsers: vi.fn(),
+}));
+
+vi.mock('../../../../src/config.js', () => ({
+  default: {
+    emailWatcher: { push: { topicName: 'projects/test/topics/gmail' } },
+  },
+}));
+
+vi.mock('../../../../src/services/user-config/index.js', () => ({
+  getUserConfigStore: vi.fn(() => ({ getEmailWatcherUsers: mockGetEmailWatcherUsers })),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/providers/gmail-watch.js', () => ({
+  watchMailbox: vi.fn(),
+  stopMailboxWatch: vi.fn(),
+}));
+
+vi.mock('../../../../src/domains/email-watcher/repo/sqlite.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../../src/domains/email-watcher/repo/sqlite.js')>();
+  return {
+    ...actual,
+    getGmailWatchStore: vi.fn(() => storeRef.current),
+  };
+});
+
+import {
+  parsePushEnvelope,
+  findPushUser,
+  hasActiveWatch,
+  renewGmailWatches,
+} from '../../../../src/domains/email-watcher/service/push.js';
+import { watchMailbox, stopMailboxWatch } from '../../../../src/domains/email-watcher/providers/gmail-watch.js';
+import { SqliteGmailWatchStore } from '../../../../src/domains/email-watcher/repo/sqlite.js';
+import { createGmailPushEnvelope } from '../../../fixtures/gmail-push.js';
+
+const PHONE = '+15551234567';
+const OTHER_PHONE = '+15559876543';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 2, 10, 12, 0);
+
+function user(phoneNumber: string) {
+  return { phoneNumber, emailWatcherEnabled: true, createdAt: 0, updatedAt: 0 };
+}
+
+describe('gmail push', () => {
+  let store: SqliteGmailWatchStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new SqliteGmailWatchStore(':memory:');
+    storeRef.current = store;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('parsePushEnvelope', () => {
+    it('decodes the mailbox and historyId from a Pub/Sub envelope', () => {
+      expect(parsePushEnvelope(createGmailPushEnvelope('me@gmail.com', 4242))).toEqual({
+        emailAddress: 'me@gmail.com',
+        historyId: '4242',
+      });
+    });
+
+    it('rejects envelopes without a decodable Gmail payload', () => {
+      expect(parsePushEnvelope(undefined)).toBeNull();
+      expect(parsePushEnvelope({ message: {} })).toBeNull();
+      expect(parsePushEnvelope({ message: { data: Buffer.from('not json').toString('base64') } })).toBeNull();
+      expect(parsePushEnvelope({
+        message: { data: Buffer.from(JSON.stringify({ historyId: 1 })).toString('base64') },
+      })).toBeNull();
+    });
+  });
+
+  describe('watch lookup', () => {
+    it('finds the user for a mailbox case-insensitively', () => {
+      store.upsert({ phoneNumber: PHONE, emailAddress: 'Me@Gmail.com', historyId: '1', expiresAt: NOW + DAY_MS, updatedAt: NOW });
+
+      expect(findPushUser('me@gmail.com')?.phoneNumber).toBe(PHONE);
+      expect(findPushUser('someone@else.com')).toBeNull();
+    });
+
+    it('treats expired watches as inactive', () => {
+      store.upsert({ phoneNumber: PHONE, emailAddress: 'me@gmail.com', historyId: '1', expiresAt: NOW + 1000, updatedAt: NOW });
+
+      expect(hasActiveWatch(PHONE, NOW)).toBe(true);
+      expect(hasActiveWatch(PHONE, NOW + 1000)).toBe(false);
+      expect(hasActiveWatch(OTHER_PHONE, NOW)).toBe(false);
+    });
+  });
+
+  describe('renewGmailWatches', () => {
+    it('registers missing watches and renews ones close to expiry', async () => {
+      mockGetEmailWatcherUsers.mockResolvedValueOnce([user(PHONE), user(OTHER_PHONE)]);
+      store.upsert({ phoneNumber: OTHER_PHONE, emailAddress: 'other@gmail.com', historyId: '1', expiresAt: NOW + 3 * DAY_MS, updatedAt: 0 });
+      vi.mocked(watchMailbox).mockResolvedValueOnce({ emailAddress: 'me@gmail.com', historyId: '900', expiresAt: NOW + 7 * DAY_MS });
+
+      const result = await renewGmailWatches(NOW);
+
+      expect(result).toEqual({ renewed: 1, stopped: 0, failed: 0 });
+      expect(watchMailbox).toHaveBeenCalledWith(PHONE, 'projects/test/topics/gmail');
+      expect(store.get(PHONE)).toMatchObject({ emailAddress: 'me@gmail.com', expiresAt: NOW + 7 * DAY_MS });
+
+      mockGetEmailWatcherUsers.mockResolvedValueOnce([user(PHONE), user(OTHER_PHONE)]);
+      vi.mocked(watchMailbox).mockResolvedValueOnce({ emailAddress: 'other@gmail.com', historyId: '901', expiresAt: NOW + 9 * DAY_MS });
+
+      await renewGmailWatches(NOW + 2.5 * DAY_MS);
+
+      expect(watchMailbox).toHaveBeenLastCalledWith(OTHER_PHONE, 'projects/test/topics/gmail');
+      expect(store.get(OTHER_PHONE)?.expiresAt).toBe(NOW + 9 * DAY_MS);
+    });
+
+    it('stops watches for users who are no longer enabled', async () => {
+      mockGetEmailWatcherUsers.mockResolvedValueOnce([]);
+      store.upsert({ phoneNumber: PHONE, emailAddress: 'me@gmail.com', historyId: '1', expiresAt: NOW + 5 * DAY_MS, updatedAt: 0 });
+      vi.mocked(stopMailboxWatch).mockRejectedValueOnce(new Error('invalid_grant'));
+
+      const result = await renewGmailWatches(NOW);
+
+      expect(result).toEqual({ renewed: 0, stopped: 1, failed: 0 });
+      expect(stopMailboxWatch).toHaveBeenCalledWith(PHONE);
+      expect(store.get(PHONE)).toBeNull();
+    });
+
+    it('counts failures and leaves the user to polling', async () => {
+      mockGetEmailWatcherUsers.mockResolvedValueOnce([user(PHONE)]);
+      vi.mocked(watchMailbox).mockRejectedValueOnce(new Error('Topic not found'));
+
+      const result = await renewGmailWatches(NOW);
+
+      expect(result).toEqual({ renewed: 0, stopped: 0, failed: 1 });
+      expect(store.get(PHONE)).toBeNull();
+    });
+  });
+});
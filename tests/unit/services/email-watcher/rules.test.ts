@@ -0,0 +1,133 @@
+/**
+ * Unit tests for email watcher rule matching.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSenderAddress,
+  normalizeSenderCondition,
+  validateSubjectPattern,
+  subjectMatches,
+  MAX_MATCHED_SUBJECT_LENGTH,
+  matchesRule,
+  findMatchingRule,
+  describeRule,
+} from '../../../../src/domains/email-watcher/service/rules.js';
+import type { IncomingEmail, WatcherRule } from '../../../../src/domains/email-watcher/types.js';
+
+function email(overrides: Partial<IncomingEmail> = {}): IncomingEmail {
+  return {
+    messageId: 'm1',
+    from: 'Jane Doe <Jane@Smith-CPA.com>',
+    subject: 'Your 2025 tax return',
+    date: 'Mon, 20 Jan 2025 10:00:00 -0800',
+    body: 'See attached.',
+    attachments: [],
+    labelIds: ['INBOX', 'Label_7'],
+    ...overrides,
+  };
+}
+
+function rule(overrides: Partial<WatcherRule> = {}): WatcherRule {
+  return {
+    id: 1,
+    phoneNumber: '+15551234567',
+    name: 'accountant',
+    from: null,
+    labelId: null,
+    labelName: null,
+    subjectPattern: null,
+    hasAttachment: null,
+    action: 'notify',
+    skill: null,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('sender conditions', () => {
+  it('parses the address out of a From header', () => {
+    expect(parseSenderAddress('Jane Doe <Jane@Smith-CPA.com>')).toBe('jane@smith-cpa.com');
+    expect(parseSenderAddress('billing@acme.com')).toBe('billing@acme.com');
+  });
+
+  it('normalizes addresses and domains', () => {
+    expect(normalizeSenderCondition(' Jane@Smith-CPA.com ')).toBe('jane@smith-cpa.com');
+    expect(normalizeSenderCondition('@acme.com')).toBe('acme.com');
+    expect(normalizeSenderCondition('acme.com')).toBe('acme.com');
+    expect(normalizeSenderCondition('my accountant')).toBeNull();
+    expect(normalizeSenderCondition('jane@')).toBeNull();
+  });
+});
+
+describe('validateSubjectPattern', () => {
+  it('accepts valid patterns and reports invalid ones', () => {
+    expect(validateSubjectPattern('invoice|receipt')).toBeNull();
+    expect(validateSubjectPattern('(unclosed')).toContain('not a valid regular expression');
+    expect(validateSubjectPattern('a'.repeat(201))).toContain('at most 200');
+  });
+});
+
+describe('subjectMatches', () => {
+  it('tests a case-insensitive regex against the subject', () => {
+    expect(subjectMatches('TAX', 'Your 2025 tax return')).toBe(true);
+    expect(subjectMatches('invoice|tax', 'Your 2025 tax return')).toBe(true);
+    expect(subjectMatches('order #\\d+ shipped', 'Your order #1234 shipped')).toBe(true);
+    expect(subjectMatches('m1$', 'Invoice m1')).toBe(true);
+    expect(subjectMatches('^m1', 'Invoice m1')).toBe(false);
+    expect(subjectMatches('(unclosed', 'Invoice m1')).toBe(false);
+  });
+
+  it('only tests the start of a long subject', () => {
+    expect(subjectMatches('tail$', `${'x'.repeat(MAX_MATCHED_SUBJECT_LENGTH)}tail`)).toBe(false);
+  });
+
+  it('gives up on a catastrophically backtracking pattern', () => {
+    const start = Date.now();
+    expect(subjectMatches('(a+)+$', `${'a'.repeat(40)}!`)).toBe(false);
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(subjectMatches('(a+)+$', 'aaa')).toBe(true);
+  });
+});
+
+describe('matchesRule', () => {
+  it('matches an exact sender address or a domain and its subdomains', () => {
+    expect(matchesRule(rule({ from: 'jane@smith-cpa.com' }), email())).toBe(true);
+    expect(matchesRule(rule({ from: 'smith-cpa.com' }), email())).toBe(true);
+    expect(matchesRule(rule({ from: 'cpa.com' }), email())).toBe(false);
+    expect(matchesRule(rule({ from: 'acme.com' }), email({ from: 'billing@mail.acme.com' }))).toBe(true);
+    expect(matchesRule(rule({ from: 'bob@smith-cpa.com' }), email())).toBe(false);
+  });
+
+  it('requires every set condition', () => {
+    const r = rule({ from: 'smith-cpa.com', subjectPattern: 'tax', labelId: 'Label_7', hasAttachment: false });
+    expect(matchesRule(r, email())).toBe(true);
+    expect(matchesRule(r, email({ subject: 'Lunch?' }))).toBe(false);
+    expect(matchesRule(r, email({ labelIds: ['INBOX'] }))).toBe(false);
+    expect(matchesRule(r, email({ attachments: [{ filename: 'a.pdf', mimeType: 'application/pdf', sizeBytes: 1 }] }))).toBe(false);
+  });
+
+  it('never matches a rule without conditions', () => {
+    expect(matchesRule(rule(), email())).toBe(false);
+  });
+});
+
+describe('findMatchingRule', () => {
+  it('returns the first matching rule in order', () => {
+    const rules = [
+      rule({ id: 1, name: 'newsletters', from: 'news.com', action: 'ignore' }),
+      rule({ id: 2, name: 'accountant', from: 'smith-cpa.com' }),
+      rule({ id: 3, name: 'taxes', subjectPattern: 'tax', action: 'run_skill', skill: 'tax-docs' }),
+    ];
+    expect(findMatchingRule(rules, email())?.name).toBe('accountant');
+    expect(findMatchingRule(rules, email({ from: 'x@other.com', subject: 'Hi' }))).toBeNull();
+  });
+});
+
+describe('describeRule', () => {
+  it('summarizes conditions and action', () => {
+    expect(describeRule(rule({ from: 'smith-cpa.com', hasAttachment: true }))).toBe('from @smith-cpa.com, has attachment → notify');
+    expect(describeRule(rule({ labelName: 'Receipts', action: 'run_skill', skill: 'receipts' }))).toBe('labeled Receipts → run receipts');
+  });
+});
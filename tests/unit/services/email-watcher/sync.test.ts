@@ -1,7 +1,8 @@
 /**
  * Unit tests for email watcher sync module.
  *
- * Tests prepareEmailForClassification (normalization) and syncNewEmails (Gmail History API).
+ * Tests prepareEmailForClassification (normalization), listNewMessageIds (Gmail History API)
+ * and fetchEmails.
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -280,7 +281,7 @@ describe('prepareEmailForClassification', () => {
   });
 });
 
-describe('syncNewEmails', () => {
+describe('listNewMessageIds', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
@@ -306,16 +307,16 @@ describe('syncNewEmails', () => {
     });
     (getAuthenticatedClient as ReturnType<typeof vi.fn>).mockResolvedValue({});
 
-    const { syncNewEmails } = await import(
+    const { listNewMessageIds } = await import(
       '../../../../src/domains/email-watcher/providers/gmail-sync.js'
     );
-    const result = await syncNewEmails('+1234567890');
+    const result = await listNewMessageIds('+1234567890');
 
-    expect(result).toEqual([]);
+    expect(result).toEqual({ messageIds: [], historyId: null });
     expect(mockUpdateState).toHaveBeenCalledWith('+1234567890', '12345');
   });
 
-  it('fetches new messages on subsequent runs', async () => {
+  it('lists new message IDs without advancing the cursor', async () => {
     const { getAuthenticatedClient } = await import(
       '../../../../src/domains/google-core/providers/auth.js'
     );
@@ -336,31 +337,11 @@ describe('syncNewEmails', () => {
             ],
           },
         ],
+        historyId: '12346',
         nextPageToken: undefined,
       },
     });
 
-    // getMessage returns full message
-    (mockGmail.users.messages.get as ReturnType<typeof vi.fn>).mockResolvedValue({
-      data: {
-        id: 'msg_new',
-        payload: {
-          headers: [
-            { name: 'From', value: 'bob@example.com' },
-            { name: 'Subject', value: 'New Email' },
-            { name: 'Date', value: 'Mon, 20 Jan 2025 10:00:00 -0800' },
-          ],
-          mimeType: 'text/plain',
-          body: { data: toBase64Url('Hello from Bob'), size: 14 },
-        },
-      },
-    });
-
-    // getProfile for cursor update
-    (mockGmail.users.getProfile as ReturnType<typeof vi.fn>).mockResolvedValue({
-      data: { historyId: '12346' },
-    });
-
     const mockUpdateState = vi.fn();
     (getUserConfigStore as ReturnType<typeof vi.fn>).mockReturnValue({
       get: vi.fn().mockResolvedValue({ emailWatcherHistoryId: '12345' }),
@@ -368,16 +349,14 @@ describe('syncNewEmails', () => {
     });
     (getAuthenticatedClient as ReturnType<typeof vi.fn>).mockResolvedValue({});
 
-    const { syncNewEmails } = await import(
+    const { listNewMessageIds } = await import(
       '../../../../src/domains/email-watcher/providers/gmail-sync.js'
     );
-    const result = await syncNewEmails('+1234567890');
+    const result = await listNewMessageIds('+1234567890');
 
-    expect(result).toHaveLength(1);
-    expect(result[0].messageId).toBe('msg_new');
-    expect(result[0].from).toBe('bob@example.com');
-    expect(result[0].body).toBe('Hello from Bob');
-    expect(mockUpdateState).toHaveBeenCalledWith('+1234567890', '12346');
+    expect(result).toEqual({ messageIds: ['msg_new'], historyId: '12346' });
+    expect(mockGmail.users.getProfile).not.toHaveBeenCalled();
+    expect(mockUpdateState).not.toHaveBeenCalled();
   });
 
   it('handles pagination in history list', async () => {
@@ -448,12 +427,12 @@ describe('syncNewEmails', () => {
     });
     (getAuthenticatedClient as ReturnType<typeof vi.fn>).mockResolvedValue({});
 
-    const { syncNewEmails } = await import(
+    const { listNewMessageIds } = await import(
       '../../../../src/domains/email-watcher/providers/gmail-sync.js'
     );
-    const result = await syncNewEmails('+1234567890');
+    const result = await listNewMessageIds('+1234567890');
 
-    expect(result).toHaveLength(2);
+    expect(result).toEqual({ messageIds: ['msg_1', 'msg_2'], historyId: '12350' });
     expect(mockGmail.users.history.list).toHaveBeenCalledTimes(2);
   });
 
@@ -510,14 +489,13 @@ describe('syncNewEmails', () => {
     });
     (getAuthenticatedClient as ReturnType<typeof vi.fn>).mockResolvedValue({});
 
-    const { syncNewEmails } = await import(
+    const { listNewMessageIds } = await import(
       '../../../../src/domains/email-watcher/providers/gmail-sync.js'
     );
-    const result = await syncNewEmails('+1234567890');
+    const result = await listNewMessageIds('+1234567890');
 
-    // Only the INBOX message should be fetched
-    expect(result).toHaveLength(1);
-    expect(result[0].messageId).toBe('msg_inbox');
+    // Only the INBOX message should be listed
+    expect(result.messageIds).toEqual(['msg_inbox']);
   });
 
   it('recovers from invalid historyId (404) by resetting cursor', async () => {
@@ -548,12 +526,63 @@ describe('syncNewEmails', () => {
     });
     (getAuthenticatedClient as ReturnType<typeof vi.fn>).mockResolvedValue({});
 
-    const { syncNewEmails } = await import(
+    const { listNewMessageIds } = await import(
       '../../../../src/domains/email-watcher/providers/gmail-sync.js'
     );
-    const result = await syncNewEmails('+1234567890');
+    const result = await listNewMessageIds('+1234567890');
 
-    expect(result).toEqual([]);
+    expect(result).toEqual({ messageIds: [], historyId: null });
     expect(mockUpdateState).toHaveBeenCalledWith('+1234567890', '99999');
   });
 });
+
+describe('fetchEmails', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('normalizes fetched messages and reports per-message failures', async () => {
+    const { getAuthenticatedClient } = await import(
+      '../../../../src/domains/google-core/providers/auth.js'
+    );
+    const { gmail } = await import('@googleapis/gmail');
+
+    const mockGmail = (gmail as unknown as ReturnType<typeof vi.fn>)({ version: 'v1', auth: {} as never });
+    (mockGmail.users.messages.get as ReturnType<typeof vi.fn>).mockImplementation(
+      async ({ id }: { id: string }) => {
+        if (id === 'msg_gone') {
+          throw new Error('Requested entity was not found.');
+        }
+        return { data: buildGmailMessage({ id, from: 'bob@example.com', bodyPlain: 'Hello from Bob' }) };
+      }
+    );
+    (getAuthenticatedClient as ReturnType<typeof vi.fn>).mockResolvedValue({});
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const { fetchEmails } = await import(
+      '../../../../src/domains/email-watcher/providers/gmail-sync.js'
+    );
+    const results = await fetchEmails('+1234567890', ['msg_ok', 'msg_gone']);
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({
+      messageId: 'msg_ok',
+      email: { messageId: 'msg_ok', from: 'bob@example.com', body: 'Hello from Bob' },
+    });
+    expect(results[1]).toEqual({ messageId: 'msg_gone', error: 'Requested entity was not found.' });
+    log.mockRestore();
+  });
+
+  it('does not call Gmail for an empty list', async () => {
+    const { getAuthenticatedClient } = await import(
+      '../../../../src/domains/google-core/providers/auth.js'
+    );
+
+    const { fetchEmails } = await import(
+      '../../../../src/domains/email-watcher/providers/gmail-sync.js'
+    );
+
+    expect(await fetchEmails('+1234567890', [])).toEqual([]);
+    expect(getAuthenticatedClient).not.toHaveBeenCalled();
+  });
+});
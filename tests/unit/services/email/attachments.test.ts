@@ -0,0 +1,173 @@
+/**
+ * Unit tests for saving email attachments to Drive.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/domains/email/providers/gmail.js', () => ({
+  getEmailAttachments: vi.fn(),
+  downloadAttachment: vi.fn(async (_phone: string, _emailId: string, attachmentId: string) =>
+    Buffer.from(`bytes-${attachmentId}`)),
+}));
+
+vi.mock('../../../../src/domains/email/providers/drive.js', () => {
+  class GeminiNotConfiguredError extends Error {}
+  return {
+    uploadFile: vi.fn(async (_phone: string, options: { name: string }) => ({
+      id: `drive-${options.name}`,
+      name: options.name,
+      mimeType: 'application/octet-stream',
+      webViewLink: `https://drive.google.com/${options.name}`,
+    })),
+    findFolder: vi.fn(async () => null),
+    createFolder: vi.fn(async (_phone: string, name: string) => ({ id: `folder-${name}`, name })),
+    analyzeImage: vi.fn(async () => 'Receipt from Acme, total $42.00'),
+    ANALYSIS_PROMPTS: { identifyDocument: 'identify' },
+    GeminiNotConfiguredError,
+  };
+});
+
+vi.mock('../../../../src/providers/auth.js', () => ({
+  AuthRequiredError: class extends Error {},
+}));
+
+import { saveEmailAttachments } from '../../../../src/domains/email/service/attachments.js';
+import { getEmailAttachments, downloadAttachment } from '../../../../src/domains/email/providers/gmail.js';
+import {
+  uploadFile,
+  findFolder,
+  createFolder,
+  analyzeImage,
+  GeminiNotConfiguredError,
+} from '../../../../src/domains/email/providers/drive.js';
+import { AuthRequiredError } from '../../../../src/providers/auth.js';
+
+const PHONE = '+15551234567';
+
+// 2026-03-11 03:00 UTC is still March 10 in New York
+const RECEIVED_AT = Date.UTC(2026, 2, 11, 3, 0);
+
+function listing(attachments: Array<{ filename: string; mimeType: string; sizeBytes?: number }>) {
+  return {
+    emailId: 'msg_1',
+    subject: 'Your receipt',
+    receivedAt: RECEIVED_AT,
+    attachments: attachments.map((a, i) => ({
+      attachmentId: `att-${i + 1}`,
+      filename: a.filename,
+      mimeType: a.mimeType,
+      sizeBytes: a.sizeBytes ?? 100,
+    })),
+  };
+}
+
+describe('saveEmailAttachments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('uploads every attachment into a dated folder in the user timezone', async () => {
+    vi.mocked(getEmailAttachments).mockResolvedValue(listing([
+      { filename: 'receipt.pdf', mimeType: 'application/pdf' },
+      { filename: 'notes.txt', mimeType: 'text/plain' },
+    ]));
+
+    const result = await saveEmailAttachments(PHONE, 'msg_1', { timezone: 'America/New_York' });
+
+    expect(vi.mocked(createFolder)).toHaveBeenNthCalledWith(1, PHONE, 'Email Attachments', undefined);
+    expect(vi.mocked(createFolder)).toHaveBeenNthCalledWith(2, PHONE, '2026-03-10', 'folder-Email Attachments');
+    expect(result.folderPath).toBe('Hermes/Email Attachments/2026-03-10');
+    expect(result.saved.map((s) => s.driveFileId)).toEqual(['drive-receipt.pdf', 'drive-notes.txt']);
+    expect(vi.mocked(uploadFile)).toHaveBeenCalledWith(PHONE, expect.objectContaining({
+      name: 'receipt.pdf',
+      folderId: 'folder-2026-03-10',
+      description: 'Attachment from email: Your receipt',
+    }));
+    expect(vi.mocked(analyzeImage)).not.toHaveBeenCalled();
+  });
+
+  it('reuses existing folders', async () => {
+    vi.mocked(getEmailAttachments).mockResolvedValue(listing([{ filename: 'a.png', mimeType: 'image/png' }]));
+    vi.mocked(findFolder)
+      .mockResolvedValueOnce({ id: 'existing-parent', name: 'Email Attachments' } as never)
+      .mockResolvedValueOnce({ id: 'existing-day', name: '2026-03-11' } as never);
+
+    const result = await saveEmailAttachments(PHONE, 'msg_1');
+
+    expect(vi.mocked(createFolder)).not.toHaveBeenCalled();
+    expect(vi.mocked(findFolder)).toHaveBeenLastCalledWith(PHONE, '2026-03-11', 'existing-parent');
+    expect(result.folderId).toBe('existing-day');
+  });
+
+  it('filters by filename and reports names that are not on the email', async () => {
+    vi.mocked(getEmailAttachments).mockResolvedValue(listing([
+      { filename: 'Receipt.PDF', mimeType: 'application/pdf' },
+      { filename: 'logo.png', mimeType: 'image/png' },
+    ]));
+
+    const result = await saveEmailAttachments(PHONE, 'msg_1', { filenames: ['receipt.pdf', 'missing.doc'] });
+
+    expect(result.saved.map((s) => s.filename)).toEqual(['Receipt.PDF']);
+    expect(result.failed).toEqual([{ filename: 'missing.doc', error: 'No attachment with this filename' }]);
+  });
+
+  it('does not create folders when there is nothing to save', async () => {
+    vi.mocked(getEmailAttachments).mockResolvedValue(listing([]));
+
+    const result = await saveEmailAttachments(PHONE, 'msg_1');
+
+    expect(result).toMatchObject({ folderId: null, saved: [], failed: [] });
+    expect(vi.mocked(createFolder)).not.toHaveBeenCalled();
+  });
+
+  it('analyzes images and PDFs only when asked', async () => {
+    vi.mocked(getEmailAttachments).mockResolvedValue(listing([
+      { filename: 'receipt.pdf', mimeType: 'application/pdf' },
+      { filename: 'data.csv', mimeType: 'text/csv' },
+    ]));
+
+    const result = await saveEmailAttachments(PHONE, 'msg_1', { analyze: true });
+
+    expect(vi.mocked(analyzeImage)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(analyzeImage)).toHaveBeenCalledWith(
+      Buffer.from('bytes-att-1'), 'application/pdf', 'identify', { phoneNumber: PHONE, purpose: 'agent' }
+    );
+    expect(result.saved[0].analysis).toBe('Receipt from Acme, total $42.00');
+    expect(result.saved[1].analysis).toBeUndefined();
+  });
+
+  it('keeps the upload when analysis fails', async () => {
+    vi.mocked(getEmailAttachments).mockResolvedValue(listing([{ filename: 'scan.jpg', mimeType: 'image/jpeg' }]));
+    vi.mocked(analyzeImage).mockRejectedValueOnce(new GeminiNotConfiguredError());
+
+    const result = await saveEmailAttachments(PHONE, 'msg_1', { analyze: true });
+
+    expect(result.saved).toHaveLength(1);
+    expect(result.saved[0].analysisError).toBe('Image analysis is not configured');
+  });
+
+  it('collects per-file failures and skips oversized attachments', async () => {
+    vi.mocked(getEmailAttachments).mockResolvedValue(listing([
+      { filename: 'big.zip', mimeType: 'application/zip', sizeBytes: 30 * 1024 * 1024 },
+      { filename: 'broken.pdf', mimeType: 'application/pdf' },
+      { filename: 'ok.pdf', mimeType: 'application/pdf' },
+    ]));
+    vi.mocked(downloadAttachment).mockRejectedValueOnce(new Error('Gmail unavailable'));
+
+    const result = await saveEmailAttachments(PHONE, 'msg_1');
+
+    expect(result.saved.map((s) => s.filename)).toEqual(['ok.pdf']);
+    expect(result.failed).toEqual([
+      { filename: 'big.zip', error: 'Attachment is larger than 25 MB' },
+      { filename: 'broken.pdf', error: 'Gmail unavailable' },
+    ]);
+  });
+
+  it('propagates auth errors', async () => {
+    vi.mocked(getEmailAttachments).mockResolvedValue(listing([{ filename: 'a.pdf', mimeType: 'application/pdf' }]));
+    vi.mocked(uploadFile).mockRejectedValueOnce(new AuthRequiredError(PHONE));
+
+    await expect(saveEmailAttachments(PHONE, 'msg_1')).rejects.toThrow(AuthRequiredError);
+  });
+});
@@ -81,7 +81,7 @@ describe('processMediaAttachments', () => {
       buffer,
       mimeType: 'image/jpeg',
       index: 0,
-    }]);
+    }], phone);
   });
 
   it('handles upload failure while pre-analysis succeeds', async () => {
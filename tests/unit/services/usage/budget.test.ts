@@ -0,0 +1,165 @@
+/**
+ * Unit tests for usage pricing and per-user spend budgets.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import config from '../../../../src/config.js';
+import { SqliteUsageStore } from '../../../../src/services/usage/sqlite.js';
+import { estimateCostUsd, getModelPrice, UNKNOWN_MODEL_PRICE } from '../../../../src/services/usage/pricing.js';
+import {
+  formatBudgetRefusal,
+  getBudgetStatus,
+  getPeriodStart,
+  isOverBudget,
+  selectBudgetModel,
+} from '../../../../src/services/usage/budget.js';
+
+const TEST_DB_PATH = './data/test-usage-budget.db';
+const PHONE = '+15551234567';
+const NOW = Date.parse('2026-03-10T15:00:00Z');
+const MODEL = 'claude-sonnet-4-5-20250929';
+
+describe('estimateCostUsd', () => {
+  it('prices dated snapshots by their family prefix', () => {
+    expect(getModelPrice('claude-sonnet-4-5-20250929')).toEqual({ input: 3, output: 15 });
+    expect(getModelPrice('claude-opus-4-5-20251101')).toEqual({ input: 5, output: 25 });
+    expect(getModelPrice('gemini-2.5-flash-lite')).toEqual({ input: 0.1, output: 0.4 });
+  });
+
+  it('computes cost from tokens per million', () => {
+    expect(estimateCostUsd(MODEL, 1_000_000, 100_000)).toBeCloseTo(4.5);
+  });
+
+  it('prices unknown models high', () => {
+    expect(getModelPrice('some-new-model')).toEqual(UNKNOWN_MODEL_PRICE);
+  });
+});
+
+describe('getPeriodStart', () => {
+  it('starts days and months at UTC midnight', () => {
+    expect(getPeriodStart('day', NOW)).toBe(Date.parse('2026-03-10T00:00:00Z'));
+    expect(getPeriodStart('month', NOW)).toBe(Date.parse('2026-03-01T00:00:00Z'));
+  });
+});
+
+describe('budgets', () => {
+  let store: SqliteUsageStore;
+  const original = { ...config.usage };
+
+  async function spend(costUsd: number, createdAt = NOW): Promise<void> {
+    await store.record({
+      phoneNumber: PHONE,
+      provider: 'anthropic',
+      model: MODEL,
+      purpose: 'planner',
+      inputTokens: 1000,
+      outputTokens: 100,
+      costUsd,
+      createdAt,
+    });
+  }
+
+  beforeEach(() => {
+    const dir = path.dirname(TEST_DB_PATH);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+    store = new SqliteUsageStore(TEST_DB_PATH);
+    Object.assign(config.usage, {
+      dailyBudgetUsd: 1,
+      monthlyBudgetUsd: 10,
+      degradeAt: 0.8,
+      fallbackModel: 'claude-haiku-4-5-20251001',
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(config.usage, original);
+    store.close();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('reports spend per period with reset times', async () => {
+    await spend(0.25, Date.parse('2026-03-02T09:00:00Z'));
+    await spend(0.5);
+
+    const status = await getBudgetStatus(PHONE, { store, nowMs: NOW });
+
+    expect(status.level).toBe('ok');
+    expect(status.day).toMatchObject({
+      budgetUsd: 1,
+      resetsAt: Date.parse('2026-03-11T00:00:00Z'),
+      level: 'ok',
+    });
+    expect(status.day.usage.costUsd).toBeCloseTo(0.5);
+    expect(status.month.usage.costUsd).toBeCloseTo(0.75);
+    expect(status.month.resetsAt).toBe(Date.parse('2026-04-01T00:00:00Z'));
+  });
+
+  it('degrades past the threshold and refuses at the budget', async () => {
+    await spend(0.8);
+    expect((await getBudgetStatus(PHONE, { store, nowMs: NOW })).level).toBe('degraded');
+    expect(await isOverBudget(PHONE, { store, nowMs: NOW })).toBe(false);
+
+    await spend(0.2);
+    expect((await getBudgetStatus(PHONE, { store, nowMs: NOW })).level).toBe('exceeded');
+    expect(await isOverBudget(PHONE, { store, nowMs: NOW })).toBe(true);
+  });
+
+  it('takes the more severe level of the two periods', async () => {
+    await spend(9.5, Date.parse('2026-03-05T09:00:00Z'));
+
+    const status = await getBudgetStatus(PHONE, { store, nowMs: NOW });
+
+    expect(status.day.level).toBe('ok');
+    expect(status.month.level).toBe('degraded');
+    expect(status.level).toBe('degraded');
+  });
+
+  it('treats a zero budget as no limit', async () => {
+    config.usage.dailyBudgetUsd = 0;
+    await spend(5);
+
+    const status = await getBudgetStatus(PHONE, { store, nowMs: NOW });
+
+    expect(status.day).toMatchObject({ budgetUsd: null, level: 'ok' });
+    expect(status.level).toBe('ok');
+  });
+
+  it('never refuses or degrades when no budget is configured', async () => {
+    config.usage.dailyBudgetUsd = 0;
+    config.usage.monthlyBudgetUsd = 0;
+    await spend(100);
+
+    expect(await isOverBudget(PHONE, { store, nowMs: NOW })).toBe(false);
+    expect(await selectBudgetModel(PHONE, MODEL, { store, nowMs: NOW })).toBe(MODEL);
+  });
+
+  it('switches to the fallback model once degraded', async () => {
+    expect(await selectBudgetModel(PHONE, MODEL, { store, nowMs: NOW })).toBe(MODEL);
+
+    await spend(0.9);
+
+    expect(await selectBudgetModel(PHONE, MODEL, { store, nowMs: NOW })).toBe('claude-haiku-4-5-20251001');
+  });
+
+  it('words the refusal by the period that ran out', async () => {
+    await spend(1);
+    const daily = formatBudgetRefusal(await getBudgetStatus(PHONE, { store, nowMs: NOW }));
+    expect(daily).toBe(
+      "You've reached your daily usage limit, so I can't take on new requests until Mar 11, 12:00 AM UTC."
+    );
+
+    await spend(9);
+    const monthly = formatBudgetRefusal(await getBudgetStatus(PHONE, { store, nowMs: NOW }));
+    expect(monthly).toContain('monthly usage limit');
+    expect(monthly).toContain('Apr 1, 12:00 AM UTC');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for metered Claude calls.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockCreate, mockRecordUsage, mockSelectBudgetModel } = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+  mockRecordUsage: vi.fn(),
+  mockSelectBudgetModel: vi.fn(),
+}));
+
+vi.mock('../../../../src/services/anthropic/client.js', () => ({
+  getClient: () => ({ messages: { create: mockCreate } }),
+}));
+
+vi.mock('../../../../src/services/usage/ledger.js', () => ({
+  recordUsage: mockRecordUsage,
+}));
+
+vi.mock('../../../../src/services/usage/budget.js', () => ({
+  selectBudgetModel: mockSelectBudgetModel,
+}));
+
+import { createMessage } from '../../../../src/services/anthropic/metered.js';
+
+const PHONE = '+15551234567';
+const MODEL = 'claude-sonnet-4-5-20250929';
+
+const params = {
+  model: MODEL,
+  max_tokens: 512,
+  messages: [{ role: 'user' as const, content: 'Hi' }],
+};
+
+describe('createMessage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreate.mockResolvedValue({
+      content: [{ type: 'text', text: 'Hello' }],
+      usage: { input_tokens: 120, output_tokens: 30 },
+    });
+    mockSelectBudgetModel.mockImplementation(async (_phone: string, model: string) => model);
+    mockRecordUsage.mockResolvedValue(undefined);
+  });
+
+  it('records the call under the user and purpose', async () => {
+    const response = await createMessage(params, { phoneNumber: PHONE, purpose: 'planner' });
+
+    expect(response.content[0]).toMatchObject({ text: 'Hello' });
+    expect(mockCreate).toHaveBeenCalledWith(params);
+    expect(mockRecordUsage).toHaveBeenCalledWith({
+      phoneNumber: PHONE,
+      provider: 'anthropic',
+      model: MODEL,
+      purpose: 'planner',
+      inputTokens: 120,
+      outputTokens: 30,
+    });
+  });
+
+  it('calls the fallback model when the user is near their budget', async () => {
+    mockSelectBudgetModel.mockResolvedValueOnce('claude-haiku-4-5-20251001');
+
+    await createMessage(params, { phoneNumber: PHONE, purpose: 'composer' });
+
+    expect(mockCreate).toHaveBeenCalledWith({ ...params, model: 'claude-haiku-4-5-20251001' });
+    expect(mockRecordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'claude-haiku-4-5-20251001',
+    }));
+  });
+
+  it('skips the budget check for calls made for no particular user', async () => {
+    await createMessage(params, { phoneNumber: null, purpose: 'classifier' });
+
+    expect(mockSelectBudgetModel).not.toHaveBeenCalled();
+    expect(mockRecordUsage).toHaveBeenCalledWith(expect.objectContaining({ phoneNumber: null }));
+  });
+});
@@ -111,6 +111,53 @@ description: No hermes metadata
     expect(result.skills[0].channels).toEqual(['sms', 'whatsapp']);
     expect(result.skills[0].matchHints).toEqual([]);
     expect(result.skills[0].enabled).toBe(true);
+    expect(result.skills[0].extractFields).toEqual([]);
+  });
+
+  it('normalizes extract fields declared as names or objects', () => {
+    const extractMd = `---
+name: tax-tracker
+description: Track tax documents
+metadata:
+  hermes:
+    channels: [email]
+    extract:
+      - vendor
+      - name: tax_year
+        description: Tax year the document covers
+        type: number
+---
+`;
+    vi.mocked(discoverSkillDirs).mockReturnValue(['/skills/tax-tracker']);
+    vi.mocked(readSkillMd).mockReturnValue(extractMd);
+
+    const result = loadSkillsFromDir('/skills', 'bundled');
+
+    expect(result.errors).toEqual([]);
+    expect(result.skills[0].extractFields).toEqual([
+      { name: 'vendor', description: '', type: 'string' },
+      { name: 'tax_year', description: 'Tax year the document covers', type: 'number' },
+    ]);
+  });
+
+  it('maps the attachments option to saveAttachments', () => {
+    const attachmentsMd = `---
+name: receipt-filer
+description: File emailed receipts
+metadata:
+  hermes:
+    channels: [email]
+    attachments:
+      save: true
+      analyze: true
+---
+`;
+    vi.mocked(discoverSkillDirs).mockReturnValue(['/skills/receipt-filer']);
+    vi.mocked(readSkillMd).mockReturnValue(attachmentsMd);
+
+    const result = loadSkillsFromDir('/skills', 'bundled');
+
+    expect(result.skills[0].saveAttachments).toEqual({ analyze: true });
   });
 });
 
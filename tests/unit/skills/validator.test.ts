@@ -171,6 +171,50 @@ describe('validateSkillFrontmatter', () => {
     expect(errors[0].message).toContain('must be an array');
   });
 
+  it('accepts extract fields as names or typed objects', () => {
+    const fm = validFrontmatter({
+      metadata: {
+        hermes: {
+          extract: ['vendor', { name: 'amount', description: 'Total charged', type: 'number' }],
+        },
+      },
+    });
+    expect(validateSkillFrontmatter(fm)).toEqual([]);
+  });
+
+  it('returns error for non snake_case extract field names', () => {
+    const fm = validFrontmatter({
+      metadata: { hermes: { extract: ['Tax Year'] } },
+    });
+    const errors = validateSkillFrontmatter(fm);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe('metadata.hermes.extract');
+  });
+
+  it('returns error for duplicate or mistyped extract fields', () => {
+    const duplicate = validateSkillFrontmatter(validFrontmatter({
+      metadata: { hermes: { extract: ['vendor', { name: 'vendor' }] } },
+    }));
+    expect(duplicate[0].message).toContain('duplicate');
+
+    const badType = validateSkillFrontmatter(validFrontmatter({
+      metadata: { hermes: { extract: [{ name: 'amount', type: 'date' as unknown as 'string' }] } },
+    }));
+    expect(badType[0].message).toContain('invalid type');
+  });
+
+  it('accepts boolean attachment options and rejects anything else', () => {
+    expect(validateSkillFrontmatter(validFrontmatter({
+      metadata: { hermes: { attachments: { save: true, analyze: false } } },
+    }))).toEqual([]);
+
+    const errors = validateSkillFrontmatter(validFrontmatter({
+      metadata: { hermes: { attachments: { save: 'yes' as unknown as boolean } } },
+    }));
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe('metadata.hermes.attachments.save');
+  });
+
   it('returns multiple errors for multiple invalid fields', () => {
     const fm = { name: '', description: '' } as SkillFrontmatter;
     const errors = validateSkillFrontmatter(fm);
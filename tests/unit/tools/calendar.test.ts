@@ -1,14 +1,29 @@
 /**
  * Unit tests for calendar tools.
  *
- * Tests all five tool handlers: getCalendarEvents, createCalendarEvent,
- * updateCalendarEvent, deleteCalendarEvent, and resolveDateTool.
+ * Tests the tool handlers: getCalendarEvents, createCalendarEvent,
+ * updateCalendarEvent, deleteCalendarEvent, findFreeTimeTool, listCalendarsTool,
+ * setDefaultCalendar, and resolveDateTool.
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
-vi.mock('../../../src/domains/calendar/providers/google-calendar.js', () => {
+const { mockConfigSet } = vi.hoisted(() => ({ mockConfigSet: vi.fn() }));
+
+vi.mock('../../../src/services/user-config/index.js', () => ({
+  getUserConfigStore: vi.fn(() => ({ set: mockConfigSet })),
+}));
+
+vi.mock('../../../src/domains/calendar/providers/google-calendar.js', async () => {
+  const { AuthRequiredError } = await import('../../../src/providers/auth.js');
   return {
+    AuthRequiredError,
+    listCalendars: vi.fn(async () => [
+      { id: 'me@example.com', name: 'me@example.com', primary: true, accessRole: 'owner' },
+      { id: 'family123@group.calendar.google.com', name: 'Family', primary: false, accessRole: 'writer' },
+      { id: 'en.usa#holiday@group.v.calendar.google.com', name: 'Holidays', primary: false, accessRole: 'reader' },
+      { id: 'old@group.calendar.google.com', name: 'Old Project', primary: false, accessRole: 'owner', hidden: true },
+    ]),
     listEvents: vi.fn(async () => []),
     createEvent: vi.fn(async (_phone: string, title: string, start: Date, end: Date, location?: string) => ({
       id: 'new-event-id',
@@ -25,6 +40,7 @@ vi.mock('../../../src/domains/calendar/providers/google-calendar.js', () => {
       location: updates.location,
     })),
     deleteEvent: vi.fn(async () => {}),
+    queryFreeBusy: vi.fn(async () => []),
     getEvent: vi.fn(async () => ({
       start: { dateTime: '2026-02-10T10:00:00Z' },
       end: { dateTime: '2026-02-10T11:00:00Z' },
@@ -32,6 +48,20 @@ vi.mock('../../../src/domains/calendar/providers/google-calendar.js', () => {
   };
 });
 
+vi.mock('../../../src/domains/calendar/service/recurrence.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/domains/calendar/service/recurrence.js')>();
+  return {
+    ...actual,
+    updateThisAndFollowing: vi.fn(async (_phone: string, eventId: string) => ({
+      event: { id: 'new-series-id', title: 'Standup', start: '', end: '' },
+      previousSeriesId: `${eventId}-master`,
+    })),
+    updateAllOccurrences: vi.fn(async (_phone: string, eventId: string) => ({
+      id: `${eventId}-master`, title: 'Standup', start: '', end: '',
+    })),
+  };
+});
+
 vi.mock('../../../src/providers/auth.js', () => {
   class AuthRequiredError extends Error {
     phoneNumber: string;
@@ -52,6 +82,9 @@ import {
   createCalendarEvent,
   updateCalendarEvent,
   deleteCalendarEvent,
+  findFreeTimeTool,
+  listCalendarsTool,
+  setDefaultCalendar,
 } from '../../../src/domains/calendar/runtime/tools.js';
 import { resolveDateTool } from '../../../src/tools/date.js';
 import type { ToolContext } from '../../../src/tools/types.js';
@@ -61,7 +94,13 @@ import {
   updateEvent,
   deleteEvent,
   getEvent,
+  queryFreeBusy,
+  listCalendars,
 } from '../../../src/domains/calendar/providers/google-calendar.js';
+import {
+  updateThisAndFollowing,
+  updateAllOccurrences,
+} from '../../../src/domains/calendar/service/recurrence.js';
 import { AuthRequiredError } from '../../../src/providers/auth.js';
 
 const baseContext: ToolContext = {
@@ -271,10 +310,102 @@ describe('createCalendarEvent', () => {
       'Dinner',
       expect.any(Date),
       expect.any(Date),
-      'Italian Restaurant'
+      'Italian Restaurant',
+      expect.objectContaining({ timeZone: 'America/Los_Angeles' }),
+      'primary'
     );
   });
 
+  it('passes recurrence, attendees, reminders, and Meet link through', async () => {
+    const result = await createCalendarEvent.handler(
+      {
+        title: 'Standup',
+        start_time: 'tomorrow at 9am',
+        duration_minutes: 15,
+        description: 'Daily sync',
+        recurrence: 'freq=weekly;byday=mo,tu,we,th,fr',
+        attendees: [' sam@example.com ', 'alex@example.com'],
+        reminders: [{ method: 'popup', minutes: 10 }],
+        add_meet_link: true,
+      },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    const [, , , , , details] = (createEvent as unknown as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(details).toEqual({
+      description: 'Daily sync',
+      allDay: undefined,
+      timeZone: 'America/Los_Angeles',
+      recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'],
+      attendees: ['sam@example.com', 'alex@example.com'],
+      reminders: [{ method: 'popup', minutes: 10 }],
+      addMeetLink: true,
+    });
+  });
+
+  it('creates an all-day event spanning whole local days', async () => {
+    const result = await createCalendarEvent.handler(
+      {
+        title: 'Offsite',
+        start_time: 'February 10',
+        end_time: 'February 11',
+        all_day: true,
+      },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    const [, , start, end, , details] = (createEvent as unknown as ReturnType<typeof vi.fn>).mock.calls[0];
+    // Midnight Pacific on the 10th through midnight on the 12th (end exclusive)
+    expect((start as Date).toISOString()).toBe('2026-02-10T08:00:00.000Z');
+    expect((end as Date).toISOString()).toBe('2026-02-12T08:00:00.000Z');
+    expect(details.allDay).toBe(true);
+  });
+
+  it('defaults an all-day event without end_time to one day', async () => {
+    const result = await createCalendarEvent.handler(
+      { title: 'Holiday', start_time: 'February 16', all_day: true },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    const [, , start, end] = (createEvent as unknown as ReturnType<typeof vi.fn>).mock.calls[0] as [string, string, Date, Date];
+    expect(end.getTime() - start.getTime()).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('rejects an invalid recurrence rule', async () => {
+    const result = await createCalendarEvent.handler(
+      { title: 'Gym', start_time: 'tomorrow at 7am', duration_minutes: 60, recurrence: 'every tuesday' },
+      baseContext
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid recurrence rule');
+    expect(createEvent).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid attendee emails and reminders', async () => {
+    const badAttendee = await createCalendarEvent.handler(
+      { title: 'Sync', start_time: 'tomorrow at 9am', duration_minutes: 30, attendees: ['sam'] },
+      baseContext
+    );
+    expect(badAttendee.error).toContain('Invalid email address');
+
+    const badReminder = await createCalendarEvent.handler(
+      { title: 'Sync', start_time: 'tomorrow at 9am', duration_minutes: 30, reminders: [{ method: 'sms', minutes: 5 }] },
+      baseContext
+    );
+    expect(badReminder.error).toContain('popup" or "email');
+
+    const tooEarly = await createCalendarEvent.handler(
+      { title: 'Sync', start_time: 'tomorrow at 9am', duration_minutes: 30, reminders: [{ method: 'email', minutes: 50000 }] },
+      baseContext
+    );
+    expect(tooEarly.error).toContain('0 to 40320');
+    expect(createEvent).not.toHaveBeenCalled();
+  });
+
   // Boundary validation
   it('rejects empty title', async () => {
     const result = await createCalendarEvent.handler(
@@ -411,7 +542,8 @@ describe('updateCalendarEvent', () => {
     expect(updateEventMock).toHaveBeenCalledWith(
       '+1234567890',
       'event-1',
-      expect.objectContaining({ title: 'New Title' })
+      expect.objectContaining({ title: 'New Title' }),
+      'primary'
     );
   });
 
@@ -426,7 +558,8 @@ describe('updateCalendarEvent', () => {
     expect(updateEventMock).toHaveBeenCalledWith(
       '+1234567890',
       'event-1',
-      expect.objectContaining({ location: 'Room B' })
+      expect.objectContaining({ location: 'Room B' }),
+      'primary'
     );
   });
 
@@ -448,7 +581,8 @@ describe('updateCalendarEvent', () => {
       expect.objectContaining({
         startTime: expect.any(Date),
         endTime: expect.any(Date),
-      })
+      }),
+      'primary'
     );
   });
 
@@ -495,6 +629,73 @@ describe('updateCalendarEvent', () => {
     expect(result.error).toContain('event_id must be a non-empty string');
   });
 
+  it('merges attendee and reminder changes into the update', async () => {
+    const result = await updateCalendarEvent.handler(
+      {
+        event_id: 'event-1',
+        add_attendees: ['sam@example.com'],
+        remove_attendees: ['alex@example.com'],
+        reminders: [],
+        description: 'Agenda attached',
+      },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(updateEvent).toHaveBeenCalledWith('+1234567890', 'event-1', {
+      description: 'Agenda attached',
+      addAttendees: ['sam@example.com'],
+      removeAttendees: ['alex@example.com'],
+      reminders: [],
+    }, 'primary');
+  });
+
+  it('edits this and following occurrences of a series', async () => {
+    const result = await updateCalendarEvent.handler(
+      { event_id: 'standup_20260216T170000Z', start_time: '2026-02-16T18:00:00Z', scope: 'following' },
+      baseContext
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      scope: 'following',
+      event: { id: 'new-series-id' },
+      previousSeriesId: 'standup_20260216T170000Z-master',
+    });
+    expect(updateThisAndFollowing).toHaveBeenCalledWith(
+      '+1234567890',
+      'standup_20260216T170000Z',
+      expect.objectContaining({ startTime: new Date('2026-02-16T18:00:00Z') }),
+      'primary'
+    );
+    expect(updateEvent).not.toHaveBeenCalled();
+  });
+
+  it('edits every occurrence with scope all', async () => {
+    const result = await updateCalendarEvent.handler(
+      { event_id: 'standup_20260216T170000Z', recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE', scope: 'all' },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(updateAllOccurrences).toHaveBeenCalledWith(
+      '+1234567890',
+      'standup_20260216T170000Z',
+      { recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO,WE'] },
+      'primary'
+    );
+  });
+
+  it('rejects recurrence changes to a single occurrence', async () => {
+    const result = await updateCalendarEvent.handler(
+      { event_id: 'event-1', recurrence: 'FREQ=DAILY' },
+      baseContext
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('scope "all" or "following"');
+  });
+
   it('rejects update with no fields', async () => {
     const result = await updateCalendarEvent.handler(
       { event_id: 'event-1' },
@@ -547,7 +748,7 @@ describe('deleteCalendarEvent', () => {
 
     expect(result.success).toBe(true);
     expect(result.deleted).toBe('event-1');
-    expect(deleteEvent).toHaveBeenCalledWith('+1234567890', 'event-1');
+    expect(deleteEvent).toHaveBeenCalledWith('+1234567890', 'event-1', 'primary');
   });
 
   // Boundary validation
@@ -614,6 +815,391 @@ describe('deleteCalendarEvent', () => {
   });
 });
 
+describe('findFreeTimeTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    // Wed Feb 4, 2026 8:33 PM PST
+    vi.setSystemTime(new Date('2026-02-05T04:33:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns ranked slots in the user timezone around busy periods', async () => {
+    (queryFreeBusy as unknown as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+      { start: '2026-02-05T21:00:00Z', end: '2026-02-05T22:30:00Z' }, // 1:00–2:30 PM PST
+    ]);
+
+    const result = await findFreeTimeTool.handler(
+      { duration_minutes: 60, window: 'tomorrow', working_hours_start: '12:00', working_hours_end: '17:00' },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.timezone).toBe('America/Los_Angeles');
+    expect(result.busyCount).toBe(1);
+    const slots = result.slots as Array<{ start: string; display: string }>;
+    expect(slots.map((s) => s.start)).toEqual([
+      '2026-02-05T12:00:00.000-08:00',
+      '2026-02-05T14:30:00.000-08:00',
+      '2026-02-05T16:00:00.000-08:00',
+    ]);
+    expect(slots[0].display).toBe('Thu, Feb 5, 12:00 PM – 1:00 PM');
+
+    const [, timeMin, timeMax] = (queryFreeBusy as unknown as ReturnType<typeof vi.fn>).mock.calls[0] as [string, Date, Date];
+    expect(timeMin.toISOString()).toBe('2026-02-05T08:00:00.000Z');
+    expect(timeMax.toISOString()).toBe('2026-02-06T07:59:59.000Z');
+  });
+
+  it('searches weekends when the window is only a weekend', async () => {
+    const result = await findFreeTimeTool.handler(
+      { duration_minutes: 30, window: 'Saturday', max_slots: 1 },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    expect((result.slots as Array<{ start: string }>)[0].start).toBe('2026-02-07T09:00:00.000-08:00');
+  });
+
+  it('explains when nothing is free', async () => {
+    (queryFreeBusy as unknown as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+      { start: '2026-02-05T16:00:00Z', end: '2026-02-06T02:00:00Z' },
+    ]);
+
+    const result = await findFreeTimeTool.handler(
+      { duration_minutes: 60, window: 'tomorrow' },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.slots).toEqual([]);
+    expect(result.message).toContain('No free slots');
+  });
+
+  it('validates duration, working hours, and buffer', async () => {
+    const badDuration = await findFreeTimeTool.handler({ duration_minutes: 0, window: 'tomorrow' }, baseContext);
+    expect(badDuration.error).toContain('duration_minutes');
+
+    const badHours = await findFreeTimeTool.handler(
+      { duration_minutes: 30, window: 'tomorrow', working_hours_start: '9am' },
+      baseContext
+    );
+    expect(badHours.error).toContain('HH:MM');
+
+    const tooLong = await findFreeTimeTool.handler(
+      { duration_minutes: 240, window: 'tomorrow', working_hours_start: '13:00', working_hours_end: '16:00' },
+      baseContext
+    );
+    expect(tooLong.error).toContain('longer than the working hours');
+
+    const badBuffer = await findFreeTimeTool.handler(
+      { duration_minutes: 30, window: 'tomorrow', buffer_minutes: 500 },
+      baseContext
+    );
+    expect(badBuffer.error).toContain('buffer_minutes');
+    expect(queryFreeBusy).not.toHaveBeenCalled();
+  });
+
+  it('rejects windows that are unparseable or too long', async () => {
+    const unparseable = await findFreeTimeTool.handler({ duration_minutes: 30, window: 'whenever' }, baseContext);
+    expect(unparseable.error).toContain('Could not parse window');
+
+    const tooLong = await findFreeTimeTool.handler(
+      { duration_minutes: 30, window: 'from February 5 to March 20' },
+      baseContext
+    );
+    expect(tooLong.error).toContain('at most 31 days');
+  });
+
+  it('returns auth_required on AuthRequiredError', async () => {
+    (queryFreeBusy as unknown as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+      new AuthRequiredError('+1234567890')
+    );
+
+    const result = await findFreeTimeTool.handler({ duration_minutes: 30, window: 'tomorrow' }, baseContext);
+
+    expect(result.success).toBe(false);
+    expect(result.auth_required).toBe(true);
+  });
+});
+
+describe('conflict detection', () => {
+  const dentist = {
+    id: 'dentist',
+    title: 'Dentist',
+    start: '2026-02-05T15:00:00-08:00',
+    end: '2026-02-05T16:00:00-08:00',
+    location: 'Main St Clinic',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-02-05T04:33:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('asks for confirmation instead of double-booking', async () => {
+    vi.mocked(listEvents).mockResolvedValueOnce([dentist]);
+
+    const result = await createCalendarEvent.handler(
+      { title: 'Call with Sam', start_time: 'tomorrow at 3:30pm', duration_minutes: 30 },
+      baseContext
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      requires_confirmation: true,
+      conflicts: [{ kind: 'overlap', eventId: 'dentist', display: 'Dentist, Thu 3:00 PM–4:00 PM' }],
+    });
+    expect(createEvent).not.toHaveBeenCalled();
+  });
+
+  it('warns about no travel time between locations', async () => {
+    vi.mocked(listEvents).mockResolvedValueOnce([dentist]);
+
+    const result = await createCalendarEvent.handler(
+      { title: 'Lunch', start_time: 'tomorrow at 4:15pm', duration_minutes: 60, location: 'Downtown Deli' },
+      baseContext
+    );
+
+    expect(result.conflicts).toEqual([expect.objectContaining({ kind: 'travel', gapMinutes: 15 })]);
+    expect(createEvent).not.toHaveBeenCalled();
+  });
+
+  it('books anyway once the user confirms', async () => {
+    const result = await createCalendarEvent.handler(
+      { title: 'Call with Sam', start_time: 'tomorrow at 3:30pm', duration_minutes: 30, allow_conflicts: true },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(listEvents).not.toHaveBeenCalled();
+    expect(createEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the new time when moving an event, ignoring the event itself', async () => {
+    vi.mocked(listEvents).mockResolvedValueOnce([
+      dentist,
+      { id: 'event-1', title: 'Existing', start: '2026-02-10T10:00:00Z', end: '2026-02-10T11:00:00Z' },
+    ]);
+
+    const result = await updateCalendarEvent.handler(
+      { event_id: 'event-1', start_time: '2026-02-05T23:30:00Z', end_time: '2026-02-06T00:30:00Z' },
+      baseContext
+    );
+
+    expect(result.requires_confirmation).toBe(true);
+    expect((result.conflicts as Array<{ eventId: string }>).map((c) => c.eventId)).toEqual(['dentist']);
+    expect(updateEvent).not.toHaveBeenCalled();
+  });
+
+  it('does not check conflicts for title-only changes', async () => {
+    await updateCalendarEvent.handler({ event_id: 'event-1', title: 'Renamed' }, baseContext);
+
+    expect(listEvents).not.toHaveBeenCalled();
+    expect(updateEvent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('calendar selection', () => {
+  const FAMILY_ID = 'family123@group.calendar.google.com';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-02-05T04:33:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses the default calendar without looking up the calendar list', async () => {
+    const result = await getCalendarEvents.handler(
+      { start_date: 'tomorrow' },
+      { ...baseContext, userConfig: { ...baseContext.userConfig, defaultCalendarId: FAMILY_ID } }
+    );
+
+    expect(result.success).toBe(true);
+    expect(vi.mocked(listEvents).mock.calls[0][3]).toBe(FAMILY_ID);
+    expect(listCalendars).not.toHaveBeenCalled();
+  });
+
+  it('creates events on a calendar named by the user', async () => {
+    const result = await createCalendarEvent.handler(
+      { title: 'Soccer', start_time: 'tomorrow at 4pm', duration_minutes: 60, calendar: 'family' },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(vi.mocked(createEvent).mock.calls[0][6]).toBe(FAMILY_ID);
+  });
+
+  it('lists the available calendars when the name does not match', async () => {
+    const result = await createCalendarEvent.handler(
+      { title: 'Soccer', start_time: 'tomorrow at 4pm', duration_minutes: 60, calendar: 'Work' },
+      baseContext
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('"Family"');
+    expect(result.error).not.toContain('Old Project');
+    expect(createEvent).not.toHaveBeenCalled();
+  });
+
+  it('refuses to write to a read-only calendar', async () => {
+    const result = await deleteCalendarEvent.handler(
+      { event_id: 'event-1', calendar: 'Holidays' },
+      baseContext
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('read-only');
+    expect(deleteEvent).not.toHaveBeenCalled();
+  });
+
+  it('updates events on the calendar they came from', async () => {
+    await updateCalendarEvent.handler(
+      { event_id: 'event-1', title: 'Practice', calendar: FAMILY_ID },
+      baseContext
+    );
+
+    expect(updateEvent).toHaveBeenCalledWith('+1234567890', 'event-1', { title: 'Practice' }, FAMILY_ID);
+  });
+
+  it('merges visible calendars and labels each event', async () => {
+    vi.mocked(listEvents).mockImplementation(async (_phone, _min, _max, calendarId) => (
+      calendarId === FAMILY_ID
+        ? [{ id: 'f1', title: 'Soccer', start: '2026-02-05T16:00:00-08:00', end: '2026-02-05T17:00:00-08:00' }]
+        : [{ id: 'p1', title: 'Standup', start: '2026-02-05T09:00:00-08:00', end: '2026-02-05T09:15:00-08:00' }]
+    ));
+
+    const result = await getCalendarEvents.handler({ start_date: 'tomorrow', calendar: 'all' }, baseContext);
+    vi.mocked(listEvents).mockImplementation(async () => []);
+
+    expect(result.success).toBe(true);
+    expect(listEvents).toHaveBeenCalledTimes(3);
+    const events = result.events as Array<{ id: string; calendarName: string }>;
+    expect(events.map((e) => [e.id, e.calendarName])).toEqual([
+      ['p1', 'me@example.com'],
+      ['p1', 'Holidays'],
+      ['f1', 'Family'],
+    ]);
+  });
+
+  it('reports calendars that could not be read in a merged view', async () => {
+    vi.mocked(listEvents)
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error('403 Forbidden'));
+
+    const result = await getCalendarEvents.handler({ start_date: 'tomorrow', calendar: 'all' }, baseContext);
+
+    expect(result.success).toBe(true);
+    expect(result.skippedCalendars).toEqual(['Family']);
+  });
+
+  it('checks busy time across every visible calendar', async () => {
+    const result = await findFreeTimeTool.handler(
+      { duration_minutes: 30, window: 'tomorrow', calendar: 'all' },
+      baseContext
+    );
+
+    expect(result.success).toBe(true);
+    expect(vi.mocked(queryFreeBusy).mock.calls[0][3]).toEqual([
+      'me@example.com',
+      FAMILY_ID,
+      'en.usa#holiday@group.v.calendar.google.com',
+    ]);
+  });
+
+  it('rejects "all" for actions on a single event', async () => {
+    const result = await deleteCalendarEvent.handler({ event_id: 'event-1', calendar: 'all' }, baseContext);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Pick one calendar');
+  });
+
+  it('rejects an empty calendar selector', async () => {
+    const result = await getCalendarEvents.handler({ start_date: 'tomorrow', calendar: ' ' }, baseContext);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('calendar must be a non-empty string');
+  });
+});
+
+describe('listCalendarsTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks the default and writable calendars', async () => {
+    const result = await listCalendarsTool.handler(
+      {},
+      { ...baseContext, userConfig: { ...baseContext.userConfig, defaultCalendarId: 'family123@group.calendar.google.com' } }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.calendars).toEqual([
+      { id: 'me@example.com', name: 'me@example.com', primary: true, default: false, writable: true },
+      { id: 'family123@group.calendar.google.com', name: 'Family', primary: false, default: true, writable: true },
+      { id: 'en.usa#holiday@group.v.calendar.google.com', name: 'Holidays', primary: false, default: false, writable: false },
+      { id: 'old@group.calendar.google.com', name: 'Old Project', primary: false, default: false, writable: true, hidden: true },
+    ]);
+  });
+
+  it('defaults to the primary calendar', async () => {
+    const result = await listCalendarsTool.handler({}, baseContext);
+
+    const calendars = result.calendars as Array<{ name: string; default: boolean }>;
+    expect(calendars.filter((c) => c.default).map((c) => c.name)).toEqual(['me@example.com']);
+  });
+
+  it('returns auth_required on AuthRequiredError', async () => {
+    vi.mocked(listCalendars).mockRejectedValueOnce(new AuthRequiredError('+1234567890'));
+
+    const result = await listCalendarsTool.handler({}, baseContext);
+
+    expect(result.auth_required).toBe(true);
+  });
+});
+
+describe('setDefaultCalendar', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores the chosen calendar ID', async () => {
+    const result = await setDefaultCalendar.handler({ calendar: 'Family' }, baseContext);
+
+    expect(result).toEqual({
+      success: true,
+      defaultCalendar: { id: 'family123@group.calendar.google.com', name: 'Family' },
+    });
+    expect(mockConfigSet).toHaveBeenCalledWith('+1234567890', { defaultCalendarId: 'family123@group.calendar.google.com' });
+  });
+
+  it('clears the setting when the primary calendar is chosen', async () => {
+    await setDefaultCalendar.handler({ calendar: 'primary' }, baseContext);
+
+    expect(mockConfigSet).toHaveBeenCalledWith('+1234567890', { defaultCalendarId: '' });
+  });
+
+  it('rejects read-only calendars and "all"', async () => {
+    const readOnly = await setDefaultCalendar.handler({ calendar: 'Holidays' }, baseContext);
+    expect(readOnly.error).toContain('read-only');
+
+    const all = await setDefaultCalendar.handler({ calendar: 'all' }, baseContext);
+    expect(all.error).toContain('single calendar');
+    expect(mockConfigSet).not.toHaveBeenCalled();
+  });
+});
+
 describe('resolveDateTool', () => {
   beforeEach(() => {
     vi.clearAllMocks();
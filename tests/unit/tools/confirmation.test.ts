@@ -0,0 +1,154 @@
+/**
+ * Unit tests for parking destructive tool calls until the user confirms.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const {
+  mockPendingAdd,
+  mockPendingList,
+  mockConfigDelete,
+  mockGetFacts,
+} = vi.hoisted(() => ({
+  mockPendingAdd: vi.fn(),
+  mockPendingList: vi.fn(),
+  mockConfigDelete: vi.fn(),
+  mockGetFacts: vi.fn(),
+}));
+
+vi.mock('../../../src/services/pending-actions/index.js', () => ({
+  getPendingActionStore: vi.fn(() => ({
+    list: mockPendingList,
+    add: mockPendingAdd,
+    deleteAll: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/services/user-config/index.js', () => ({
+  getUserConfigStore: vi.fn(() => ({
+    get: vi.fn(async () => null),
+    set: vi.fn(),
+    delete: mockConfigDelete,
+  })),
+}));
+
+vi.mock('../../../src/domains/memory/runtime/index.js', () => ({
+  getMemoryStore: vi.fn(() => ({
+    getFacts: mockGetFacts,
+    deleteFact: vi.fn(),
+    deleteAllFacts: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/services/conversation/index.js', () => ({
+  getConversationStore: vi.fn(() => ({
+    deleteAll: vi.fn(),
+  })),
+}));
+
+import config from '../../../src/config.js';
+import { executeTool } from '../../../src/tools/index.js';
+
+const context = {
+  phoneNumber: '+15551234567',
+  channel: 'sms' as const,
+  userConfig: null,
+};
+
+describe('tool confirmation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetFacts.mockResolvedValue([]);
+    mockPendingList.mockImplementation(async () => mockPendingAdd.mock.calls.map(([action]) => action));
+  });
+
+  it('parks a destructive call in conversations instead of running it', async () => {
+    const output = JSON.parse(await executeTool('delete_user_data', { confirm: true }, {
+      ...context,
+      requireConfirmation: true,
+    }));
+
+    expect(output).toMatchObject({ success: true, status: 'awaiting_confirmation' });
+    expect(output.prompt).toContain('Delete all your settings');
+    expect(mockConfigDelete).not.toHaveBeenCalled();
+
+    const [action] = mockPendingAdd.mock.calls[0];
+    expect(action).toMatchObject({
+      phoneNumber: context.phoneNumber,
+      channel: 'sms',
+      toolName: 'delete_user_data',
+      toolInput: { confirm: true },
+    });
+    expect(action.expiresAt - action.createdAt).toBe(config.pendingActions.ttlMs);
+  });
+
+  it('uses the agent\'s confirmation prompt and keeps it out of the tool input', async () => {
+    const output = JSON.parse(await executeTool('delete_user_data', {
+      confirm: true,
+      confirmation_prompt: 'Wipe everything you know about me?',
+    }, { ...context, requireConfirmation: true }));
+
+    expect(output.prompt).toBe('Wipe everything you know about me?');
+    expect(mockPendingAdd.mock.calls[0][0].toolInput).toEqual({ confirm: true });
+  });
+
+  it('tells the agent when several calls wait for one confirmation', async () => {
+    const parkContext = { ...context, requireConfirmation: true };
+    await executeTool('delete_user_data', { confirm: true, confirmation_prompt: 'Delete your settings?' }, parkContext);
+    const output = JSON.parse(await executeTool('delete_user_data', {
+      confirm: true,
+      confirmation_prompt: 'Delete your memories?',
+    }, parkContext));
+
+    expect(mockPendingAdd).toHaveBeenCalledTimes(2);
+    expect(output.pendingPrompts).toEqual(['Delete your settings?', 'Delete your memories?']);
+    expect(output.note).toContain('2 actions');
+  });
+
+  it('runs the tool directly without requireConfirmation', async () => {
+    const output = JSON.parse(await executeTool('delete_user_data', { confirm: true }, context));
+
+    expect(output).toEqual({ success: true, message: 'All user data deleted' });
+    expect(mockConfigDelete).toHaveBeenCalledWith(context.phoneNumber);
+    expect(mockPendingAdd).not.toHaveBeenCalled();
+  });
+
+  it('parks only the calls a tool marks as needing confirmation', async () => {
+    const parkContext = { ...context, requireConfirmation: true };
+    const byQuery = JSON.parse(await executeTool('trash_emails', {
+      query: 'category:promotions newer_than:1d',
+      confirmation_prompt: 'Trash 12 promotions from today?',
+    }, parkContext));
+
+    expect(byQuery).toMatchObject({ status: 'awaiting_confirmation', prompt: 'Trash 12 promotions from today?' });
+    expect(mockPendingAdd.mock.calls[0][0]).toMatchObject({
+      toolName: 'trash_emails',
+      toolInput: { query: 'category:promotions newer_than:1d' },
+    });
+
+    const byIds = JSON.parse(await executeTool('trash_emails', { email_ids: [] }, parkContext));
+
+    expect(byIds.status).toBeUndefined();
+    expect(mockPendingAdd).toHaveBeenCalledTimes(1);
+  });
+
+  it('parks send_email in conversations', async () => {
+    const output = JSON.parse(await executeTool('send_email', { draft_id: 'draft_1' }, {
+      ...context,
+      requireConfirmation: true,
+      messageId: 'user-msg-1',
+    }));
+
+    expect(output).toMatchObject({ status: 'awaiting_confirmation', prompt: 'Send this email?' });
+  });
+
+  it('runs tools without a confirmation prompt directly', async () => {
+    const output = JSON.parse(await executeTool('set_user_config', { name: 'Sam' }, {
+      ...context,
+      requireConfirmation: true,
+    }));
+
+    expect(output.success).toBe(true);
+    expect(mockPendingAdd).not.toHaveBeenCalled();
+  });
+});
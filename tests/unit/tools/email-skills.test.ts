@@ -1,10 +1,30 @@
 /**
- * Unit tests for email watcher toggle tool.
+ * Unit tests for email watcher toggle and rule tools.
  *
  * Email skill CRUD tests have been removed — skills are now managed via filesystem skill packs.
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { rulesRef } = vi.hoisted(() => ({
+  rulesRef: { current: null as unknown },
+}));
+
+vi.mock('../../../src/domains/email-watcher/repo/sqlite.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/domains/email-watcher/repo/sqlite.js')>();
+  return {
+    ...actual,
+    getWatcherRuleStore: vi.fn(() => rulesRef.current),
+  };
+});
+
+vi.mock('../../../src/domains/email-watcher/providers/gmail-labels.js', () => ({
+  findGmailLabel: vi.fn(async () => null),
+}));
+
+vi.mock('../../../src/domains/email-watcher/providers/skills.js', () => ({
+  findFilesystemSkill: vi.fn(() => null),
+}));
 
 vi.mock('../../../src/services/user-config/index.js', () => ({
   getUserConfigStore: vi.fn(() => ({
@@ -13,8 +33,16 @@ vi.mock('../../../src/services/user-config/index.js', () => ({
   })),
 }));
 
-import { toggleEmailWatcher } from '../../../src/domains/email-watcher/runtime/tools.js';
+import {
+  toggleEmailWatcher,
+  createEmailWatcherRule,
+  listEmailWatcherRules,
+  deleteEmailWatcherRule,
+} from '../../../src/domains/email-watcher/runtime/tools.js';
 import { getUserConfigStore } from '../../../src/services/user-config/index.js';
+import { SqliteWatcherRuleStore } from '../../../src/domains/email-watcher/repo/sqlite.js';
+import { findGmailLabel } from '../../../src/domains/email-watcher/providers/gmail-labels.js';
+import { findFilesystemSkill } from '../../../src/domains/email-watcher/providers/skills.js';
 import type { ToolContext } from '../../../src/tools/types.js';
 
 describe('email watcher toggle tool', () => {
@@ -57,3 +85,82 @@ describe('email watcher toggle tool', () => {
     expect(result.error).toContain('enabled');
   });
 });
+
+describe('email watcher rule tools', () => {
+  const context: ToolContext = {
+    phoneNumber: '+1234567890',
+    channel: 'sms',
+  };
+  let store: SqliteWatcherRuleStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new SqliteWatcherRuleStore(':memory:');
+    rulesRef.current = store;
+  });
+
+  it('creates a sender rule and lists it', async () => {
+    const created = await createEmailWatcherRule.handler(
+      { name: 'accountant', from: '@Smith-CPA.com', action: 'notify' },
+      context
+    );
+
+    expect(created).toEqual({
+      success: true,
+      rule: { name: 'accountant', summary: 'from @smith-cpa.com → notify' },
+    });
+
+    const listed = await listEmailWatcherRules.handler({}, context);
+    expect(listed.rules).toEqual([{ name: 'accountant', summary: 'from @smith-cpa.com → notify' }]);
+  });
+
+  it('resolves label names to Gmail label IDs', async () => {
+    vi.mocked(findGmailLabel).mockResolvedValueOnce({ id: 'Label_7', name: 'Receipts' });
+
+    const result = await createEmailWatcherRule.handler(
+      { name: 'receipts', label: 'receipts', action: 'ignore' },
+      context
+    );
+
+    expect(result.success).toBe(true);
+    expect(store.getByName('+1234567890', 'receipts')).toMatchObject({ labelId: 'Label_7', labelName: 'Receipts' });
+  });
+
+  it('rejects unknown labels, rules without conditions and bad patterns', async () => {
+    expect((await createEmailWatcherRule.handler({ name: 'x', label: 'Nope', action: 'notify' }, context)).error)
+      .toContain('No Gmail label named "Nope"');
+    expect((await createEmailWatcherRule.handler({ name: 'x', action: 'notify' }, context)).error)
+      .toContain('at least one condition');
+    expect((await createEmailWatcherRule.handler({ name: 'x', subject_pattern: '(', action: 'notify' }, context)).error)
+      .toContain('not a valid regular expression');
+    expect((await createEmailWatcherRule.handler({ name: 'x', from: 'my accountant', action: 'notify' }, context)).error)
+      .toContain('email address or domain');
+    expect((await createEmailWatcherRule.handler({ name: 'x', from: 'a.com', action: 'forward' }, context)).error)
+      .toContain('action must be one of');
+  });
+
+  it('requires an enabled email skill for run_skill', async () => {
+    const missing = await createEmailWatcherRule.handler(
+      { name: 'taxes', subject_pattern: 'w-2', action: 'run_skill', skill: 'tax-docs' },
+      context
+    );
+    expect(missing.success).toBe(false);
+
+    vi.mocked(findFilesystemSkill).mockReturnValueOnce({ name: 'tax-docs', enabled: true, channels: ['email'] } as never);
+    const created = await createEmailWatcherRule.handler(
+      { name: 'taxes', subject_pattern: 'w-2', action: 'run_skill', skill: 'tax-docs' },
+      context
+    );
+    expect(created.rule).toEqual({ name: 'taxes', summary: 'subject matches /w-2/ → run tax-docs' });
+  });
+
+  it('rejects duplicate names and deletes rules by name', async () => {
+    await createEmailWatcherRule.handler({ name: 'acme', from: 'acme.com', action: 'ignore' }, context);
+
+    const duplicate = await createEmailWatcherRule.handler({ name: 'ACME', from: 'acme.com', action: 'notify' }, context);
+    expect(duplicate.error).toContain('already exists');
+
+    expect(await deleteEmailWatcherRule.handler({ name: 'Acme' }, context)).toEqual({ success: true, deleted: 'Acme' });
+    expect((await deleteEmailWatcherRule.handler({ name: 'acme' }, context)).success).toBe(false);
+  });
+});
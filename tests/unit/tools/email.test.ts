@@ -2,7 +2,7 @@
  * Boundary validation tests for email tools.
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 vi.mock('../../../src/domains/email/providers/gmail.js', () => ({
   listEmails: vi.fn(async () => []),
@@ -11,6 +11,48 @@ vi.mock('../../../src/domains/email/providers/gmail.js', () => ({
     id: 'thread_1',
     messages: [{ id: 'msg_1', subject: 'Test' }],
   })),
+  createDraft: vi.fn(async (_phone: string, message: { to: string[]; subject: string; body: string }) => ({
+    id: 'draft_1',
+    messageId: 'draft_msg_1',
+    threadId: 'thread_new',
+    to: message.to,
+    cc: [],
+    subject: message.subject,
+    body: message.body,
+  })),
+  createReplyDraft: vi.fn(async () => ({
+    id: 'draft_2',
+    messageId: 'draft_msg_2',
+    threadId: 'thread_1',
+    to: ['sarah@example.com'],
+    cc: [],
+    subject: 'Re: Dinner',
+    body: "I'll be late",
+  })),
+  sendDraft: vi.fn(async () => ({ id: 'sent_1', threadId: 'thread_1' })),
+  modifyEmails: vi.fn(async (_phone: string, ids: string[]) =>
+    ids.map((id) => ({ id, success: id !== 'bad' }))),
+  modifyEmailsByQuery: vi.fn(async () => ({
+    matched: 2,
+    results: [{ id: 'msg_1', success: true }, { id: 'msg_2', success: true }],
+  })),
+}));
+
+vi.mock('../../../src/domains/email/service/attachments.js', () => ({
+  saveEmailAttachments: vi.fn(async () => ({
+    emailId: 'msg_1',
+    folderId: 'folder_1',
+    folderPath: 'Hermes/Email Attachments/2026-03-10',
+    saved: [{
+      filename: 'receipt.pdf',
+      mimeType: 'application/pdf',
+      sizeBytes: 1200,
+      driveFileId: 'drive_1',
+      webViewLink: 'https://drive.google.com/drive_1',
+      analysis: 'Receipt from Acme, total $42.00',
+    }],
+    failed: [],
+  })),
 }));
 
 vi.mock('../../../src/providers/auth.js', () => ({
@@ -18,8 +60,27 @@ vi.mock('../../../src/providers/auth.js', () => ({
   generateAuthUrl: vi.fn(() => 'https://example.com/auth'),
 }));
 
-import { getEmails, readEmail, getEmailThread } from '../../../src/domains/email/runtime/tools.js';
-import { listEmails } from '../../../src/domains/email/providers/gmail.js';
+import {
+  getEmails,
+  readEmail,
+  getEmailThread,
+  createEmailDraft,
+  replyToEmail,
+  sendEmail,
+  archiveEmails,
+  labelEmails,
+  markEmailsRead,
+  trashEmails,
+  saveEmailAttachments,
+} from '../../../src/domains/email/runtime/tools.js';
+import {
+  listEmails,
+  createReplyDraft,
+  sendDraft,
+  modifyEmails,
+  modifyEmailsByQuery,
+} from '../../../src/domains/email/providers/gmail.js';
+import { saveEmailAttachments as saveEmailAttachmentsService } from '../../../src/domains/email/service/attachments.js';
 import type { ToolContext } from '../../../src/tools/types.js';
 
 const baseContext: ToolContext = {
@@ -130,4 +191,219 @@ describe('email boundary validation', () => {
       expect(result.error).toContain('thread_id');
     });
   });
+
+  describe('createEmailDraft', () => {
+    it('rejects non-address recipients', async () => {
+      const result = await createEmailDraft.handler(
+        { to: ['sarah'], subject: 'Hi', body: 'Hello' },
+        baseContext
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('to');
+    });
+
+    it('rejects an empty recipient list', async () => {
+      const result = await createEmailDraft.handler(
+        { to: [], subject: 'Hi', body: 'Hello' },
+        baseContext
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('to');
+    });
+
+    it('returns the draft and asks for confirmation', async () => {
+      const result = await createEmailDraft.handler(
+        { to: ['sarah@example.com'], subject: 'Hi', body: 'Hello' },
+        baseContext
+      );
+      expect(result.success).toBe(true);
+      expect(result.draft_id).toBe('draft_1');
+      expect(result.requires_confirmation).toBe(true);
+    });
+  });
+
+  describe('replyToEmail', () => {
+    it('rejects missing body', async () => {
+      const result = await replyToEmail.handler({ email_id: 'msg_1' }, baseContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('body');
+    });
+
+    it('passes reply_all through', async () => {
+      const result = await replyToEmail.handler(
+        { email_id: 'msg_1', body: "I'll be late", reply_all: true },
+        baseContext
+      );
+      expect(result.success).toBe(true);
+      expect(result.thread_id).toBe('thread_1');
+      expect(vi.mocked(createReplyDraft)).toHaveBeenCalledWith(
+        '+1234567890',
+        'msg_1',
+        "I'll be late",
+        { replyAll: true }
+      );
+    });
+  });
+
+  describe('sendEmail', () => {
+    beforeEach(() => {
+      vi.mocked(sendDraft).mockClear();
+    });
+
+    it('rejects missing draft_id', async () => {
+      const result = await sendEmail.handler({}, { ...baseContext, confirmedByUser: true });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('draft_id');
+    });
+
+    it.each([
+      ['a conversation turn', { messageId: 'user-msg-1' }],
+      ['a skill or scheduled job', {}],
+    ])('refuses to send from %s without the user\'s confirmation', async (_label, extra) => {
+      const result = await sendEmail.handler({ draft_id: 'draft_1' }, { ...baseContext, ...extra });
+
+      expect(result.success).toBe(false);
+      expect(result.requires_confirmation).toBe(true);
+      expect(vi.mocked(sendDraft)).not.toHaveBeenCalled();
+    });
+
+    it('sends a draft the user confirmed', async () => {
+      const result = await sendEmail.handler(
+        { draft_id: 'draft_1' },
+        { ...baseContext, confirmedByUser: true }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.message_id).toBe('sent_1');
+      expect(vi.mocked(sendDraft)).toHaveBeenCalledWith('+1234567890', 'draft_1');
+    });
+  });
+
+  describe('mailbox actions', () => {
+    it('requires email_ids or query', async () => {
+      const result = await archiveEmails.handler({}, baseContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('email_ids or query');
+    });
+
+    it('rejects both email_ids and query', async () => {
+      const result = await archiveEmails.handler(
+        { email_ids: ['msg_1'], query: 'is:unread' },
+        baseContext
+      );
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects non-string email_ids', async () => {
+      const result = await trashEmails.handler({ email_ids: [1, 2] }, baseContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('email_ids');
+    });
+
+    it('summarizes per-message results for explicit ids', async () => {
+      const result = await archiveEmails.handler({ email_ids: ['msg_1', 'bad'] }, baseContext);
+
+      expect(result).toMatchObject({ success: true, action: 'archive', matched: 2, succeeded: 1, failed: 1 });
+      expect(vi.mocked(modifyEmails)).toHaveBeenCalledWith('+1234567890', ['msg_1', 'bad'], 'archive', { label: undefined });
+    });
+
+    it('uses the query path for bulk actions', async () => {
+      const result = await markEmailsRead.handler(
+        { query: 'category:social', read: false, max_results: 20 },
+        baseContext
+      );
+
+      expect(result).toMatchObject({ success: true, action: 'mark_unread', matched: 2, query_used: 'category:social' });
+      expect(vi.mocked(modifyEmailsByQuery)).toHaveBeenCalledWith(
+        '+1234567890',
+        'category:social',
+        'mark_unread',
+        { label: undefined, maxResults: 20 }
+      );
+    });
+
+    it('maps label removal to remove_label', async () => {
+      const result = await labelEmails.handler(
+        { label: ' Taxes ', remove: true, email_ids: ['msg_1'] },
+        baseContext
+      );
+
+      expect(result).toMatchObject({ success: true, action: 'remove_label', label: 'Taxes' });
+    });
+
+    it('rejects label_emails without a label', async () => {
+      const result = await labelEmails.handler({ email_ids: ['msg_1'] }, baseContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('label');
+    });
+  });
+
+  describe('saveEmailAttachments', () => {
+    it('requires email_id', async () => {
+      const result = await saveEmailAttachments.handler({}, baseContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('email_id');
+    });
+
+    it('rejects an empty filenames list', async () => {
+      const result = await saveEmailAttachments.handler({ email_id: 'msg_1', filenames: [] }, baseContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('filenames');
+    });
+
+    it('saves attachments in the user timezone and returns Drive links', async () => {
+      const result = await saveEmailAttachments.handler(
+        { email_id: 'msg_1', analyze: true },
+        { ...baseContext, userConfig: { phoneNumber: '+1234567890', timezone: 'America/New_York', createdAt: 0, updatedAt: 0 } }
+      );
+
+      expect(vi.mocked(saveEmailAttachmentsService)).toHaveBeenCalledWith('+1234567890', 'msg_1', {
+        filenames: undefined,
+        analyze: true,
+        timezone: 'America/New_York',
+      });
+      expect(result).toMatchObject({
+        success: true,
+        folder: 'Hermes/Email Attachments/2026-03-10',
+        saved: [{
+          filename: 'receipt.pdf',
+          drive_file_id: 'drive_1',
+          link: 'https://drive.google.com/drive_1',
+          analysis: 'Receipt from Acme, total $42.00',
+        }],
+      });
+    });
+
+    it('reports emails without attachments', async () => {
+      vi.mocked(saveEmailAttachmentsService).mockResolvedValueOnce({
+        emailId: 'msg_1',
+        folderId: null,
+        folderPath: null,
+        saved: [],
+        failed: [],
+      });
+
+      const result = await saveEmailAttachments.handler({ email_id: 'msg_1' }, baseContext);
+
+      expect(result).toMatchObject({ success: true, message: 'This email has no attachments.' });
+    });
+
+    it('fails when nothing could be saved', async () => {
+      vi.mocked(saveEmailAttachmentsService).mockResolvedValueOnce({
+        emailId: 'msg_1',
+        folderId: null,
+        folderPath: null,
+        saved: [],
+        failed: [{ filename: 'missing.pdf', error: 'No attachment with this filename' }],
+      });
+
+      const result = await saveEmailAttachments.handler(
+        { email_id: 'msg_1', filenames: ['missing.pdf'] },
+        baseContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.failed).toEqual([{ filename: 'missing.pdf', error: 'No attachment with this filename' }]);
+    });
+  });
 });
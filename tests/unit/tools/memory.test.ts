@@ -9,6 +9,10 @@ vi.mock('../../../src/domains/memory/runtime/index.js', () => ({
     addFact: vi.fn(async (f: Record<string, unknown>) => ({ id: 'fact_1', ...f })),
     getFacts: vi.fn(async () => [
       { id: 'fact_1', fact: 'Likes coffee', category: 'preferences', confidence: 1.0 },
+      { id: 'fact_3', fact: 'Lives in Austin', category: 'personal', confidence: 0.8, supersedes: 'fact_2' },
+    ]),
+    getFactHistory: vi.fn(async () => [
+      { id: 'fact_2', fact: 'Lives in Seattle', category: 'personal', confidence: 0.8, validUntil: 5000 },
     ]),
     updateFact: vi.fn(async () => {}),
     deleteFact: vi.fn(async () => {}),
@@ -69,6 +73,21 @@ describe('memory boundary validation', () => {
     it('passes without limit', async () => {
       const result = await listMemories.handler({}, baseContext);
       expect(result.success).toBe(true);
+      expect(result.history).toBeUndefined();
+    });
+
+    it('rejects include_history as string', async () => {
+      const result = await listMemories.handler({ include_history: 'yes' }, baseContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('include_history');
+    });
+
+    it('returns superseded facts with what replaced them', async () => {
+      const result = await listMemories.handler({ include_history: true }, baseContext);
+      expect(result.success).toBe(true);
+      expect(result.history).toEqual([
+        expect.objectContaining({ fact: 'Lives in Seattle', validUntil: 5000, replacedBy: 'Lives in Austin' }),
+      ]);
     });
   });
 
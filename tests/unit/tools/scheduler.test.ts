@@ -17,6 +17,9 @@ vi.mock('../../../src/domains/scheduler/repo/sqlite.js', () => ({
   createJob: vi.fn(() => ({ id: 'job_123' })),
   getJobById: vi.fn(),
   getJobsByPhone: vi.fn(() => []),
+  getDisabledJobsByPhone: vi.fn(() => []),
+  getLastJobRun: vi.fn(() => null),
+  getLastReminderSent: vi.fn(() => null),
   updateJob: vi.fn((_db: unknown, id: string, updates: Record<string, unknown>) => ({ ...updates, id })),
   deleteJob: vi.fn(),
 }));
@@ -28,6 +31,7 @@ vi.mock('../../../src/domains/scheduler/service/parser.js', () => ({
     return null;
   }),
   parseReminderTime: vi.fn(() => Math.floor(Date.now() / 1000) + 3600),
+  parseDay: vi.fn((input: string) => (input === 'yesterday' ? 1000 : Math.floor(Date.now() / 1000) + 86400)),
   parseSchedule: vi.fn((schedule: string) => {
     if (schedule.includes('daily') || schedule.includes('every')) {
       return { type: 'recurring', cronExpression: '0 9 * * *' };
@@ -44,6 +48,16 @@ vi.mock('../../../src/domains/scheduler/runtime/index.js', () => ({
   getSchedulerDb: vi.fn(() => ({})),
 }));
 
+vi.mock('../../../src/domains/scheduler/service/job-controls.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/domains/scheduler/service/job-controls.js')>();
+  return {
+    ...actual,
+    snoozeReminder: vi.fn(() => ({ id: 'job_snooze', nextRunAt: Math.floor(Date.now() / 1000) + 600 })),
+    pauseJobUntil: vi.fn((_db: unknown, job: Record<string, unknown>) => ({ ...job, nextRunAt: Math.floor(Date.now() / 1000) + 86400 })),
+    skipNextOccurrence: vi.fn(() => Math.floor(Date.now() / 1000) + 3600),
+  };
+});
+
 vi.mock('../../../src/domains/scheduler/providers/skills.js', () => ({
   findFilesystemSkill: vi.fn(() => ({ name: 'sample-skill', channels: ['scheduler'] })),
 }));
@@ -53,15 +67,26 @@ import {
   listScheduledJobs,
   updateScheduledJob,
   deleteScheduledJob,
+  snoozeReminderTool,
+  pauseJobUntilTool,
+  skipNextOccurrenceTool,
 } from '../../../src/domains/scheduler/runtime/tools.js';
 import type { ToolContext } from '../../../src/tools/types.js';
 import {
   createJob,
   getJobById,
   getJobsByPhone,
+  getDisabledJobsByPhone,
+  getLastJobRun,
+  getLastReminderSent,
   updateJob,
   deleteJob,
 } from '../../../src/domains/scheduler/repo/sqlite.js';
+import {
+  snoozeReminder,
+  pauseJobUntil,
+  skipNextOccurrence,
+} from '../../../src/domains/scheduler/service/job-controls.js';
 import { getUserConfigStore } from '../../../src/services/user-config/index.js';
 import { findFilesystemSkill } from '../../../src/domains/scheduler/providers/skills.js';
 
@@ -81,9 +106,10 @@ describe('createScheduledJob', () => {
       expect(createScheduledJob.tool.name).toBe('create_scheduled_job');
     });
 
-    it('should require prompt and schedule', () => {
+    it('should require prompt, with schedule or an event offset', () => {
       expect(createScheduledJob.tool.input_schema.required).toContain('prompt');
-      expect(createScheduledJob.tool.input_schema.required).toContain('schedule');
+      expect(createScheduledJob.tool.input_schema.properties).toHaveProperty('schedule');
+      expect(createScheduledJob.tool.input_schema.properties).toHaveProperty('event_offset_minutes');
     });
   });
 
@@ -123,6 +149,53 @@ describe('createScheduledJob', () => {
       );
     });
 
+    it('should store a misfire policy and grace window', async () => {
+      const result = await createScheduledJob.handler(
+        {
+          prompt: 'Take medication',
+          schedule: 'daily at 9am',
+          misfire_policy: 'fire_once',
+          misfire_grace_minutes: 120,
+        },
+        baseContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(createJob).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ misfirePolicy: 'fire_once', misfireGraceMinutes: 120 })
+      );
+    });
+
+    it('should reject an unknown misfire policy', async () => {
+      const result = await createScheduledJob.handler(
+        {
+          prompt: 'Send morning summary',
+          schedule: 'daily at 9am',
+          misfire_policy: 'later',
+        },
+        baseContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('misfire_policy must be one of');
+      expect(createJob).not.toHaveBeenCalled();
+    });
+
+    it('should reject a negative grace window', async () => {
+      const result = await createScheduledJob.handler(
+        {
+          prompt: 'Send morning summary',
+          schedule: 'daily at 9am',
+          misfire_grace_minutes: -5,
+        },
+        baseContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('misfire_grace_minutes');
+    });
+
     it('should create a one-time reminder', async () => {
       const result = await createScheduledJob.handler(
         {
@@ -183,6 +256,83 @@ describe('createScheduledJob', () => {
       expect(result.error).toContain('Timezone not set');
     });
 
+    it('should create a job triggered by calendar events', async () => {
+      (createJob as ReturnType<typeof vi.fn>).mockImplementationOnce((_db: unknown, job: Record<string, unknown>) => ({ id: 'job_123', ...job }));
+
+      const result = await createScheduledJob.handler(
+        {
+          prompt: 'Remind me to leave for my event',
+          event_offset_minutes: 30,
+          event_has_location: true,
+        },
+        baseContext
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        type: 'calendar_event',
+        schedule_description: '30 min before events with a location',
+      });
+      expect(createJob).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          triggerType: 'calendar_event',
+          cronExpression: '@calendar',
+          isRecurring: true,
+          eventOffsetMinutes: 30,
+          eventFilter: { titleContains: undefined, hasLocation: true },
+        })
+      );
+    });
+
+    it('should create a conditional recurring job', async () => {
+      const result = await createScheduledJob.handler(
+        {
+          prompt: 'Tell me I have no lunch planned',
+          schedule: 'daily at 11am',
+          condition: 'There is no lunch event on my calendar today',
+        },
+        baseContext
+      );
+
+      expect(result).toMatchObject({ success: true, condition: 'There is no lunch event on my calendar today' });
+      expect(createJob).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          triggerType: 'condition',
+          conditionPrompt: 'There is no lunch event on my calendar today',
+        })
+      );
+    });
+
+    it('should require a schedule unless event-triggered', async () => {
+      const result = await createScheduledJob.handler({ prompt: 'Test prompt' }, baseContext);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('schedule is required');
+      expect(createJob).not.toHaveBeenCalled();
+    });
+
+    it('should reject event filters without an event offset', async () => {
+      const result = await createScheduledJob.handler(
+        { prompt: 'Test prompt', schedule: 'daily at 9am', event_title_contains: 'standup' },
+        baseContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('require event_offset_minutes');
+    });
+
+    it('should reject an out-of-range event offset', async () => {
+      const result = await createScheduledJob.handler(
+        { prompt: 'Test prompt', event_offset_minutes: -10 },
+        baseContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('event_offset_minutes');
+    });
+
     it('should fail if schedule cannot be parsed', async () => {
       const { parseSchedule } = await import('../../../src/domains/scheduler/service/parser.js');
       (parseSchedule as ReturnType<typeof vi.fn>).mockReturnValueOnce(null);
@@ -262,6 +412,7 @@ describe('listScheduledJobs', () => {
           id: 'job_1',
           userRequest: 'Morning summary',
           prompt: 'Send morning summary',
+          skillName: 'morning-summary',
           isRecurring: true,
           cronExpression: '0 9 * * *',
           enabled: true,
@@ -287,6 +438,8 @@ describe('listScheduledJobs', () => {
       expect(result.jobs[0].job_id).toBe('job_1');
       expect(result.jobs[0].type).toBe('recurring');
       expect(result.jobs[1].type).toBe('one-time');
+      expect(result.jobs[0]).toMatchObject({ misfire_policy: 'skip', misfire_grace_minutes: 60 });
+      expect(result.jobs[1]).toMatchObject({ misfire_policy: 'fire_once', misfire_grace_minutes: 5 });
     });
 
     it('should show paused status for disabled jobs', async () => {
@@ -306,6 +459,83 @@ describe('listScheduledJobs', () => {
 
       expect(result.jobs[0].next_run).toBe('paused');
     });
+
+    it('should include auto-disabled jobs with the reason', async () => {
+      (getDisabledJobsByPhone as ReturnType<typeof vi.fn>).mockReturnValueOnce([
+        {
+          id: 'job_9',
+          userRequest: 'Morning briefing',
+          prompt: 'Summarize my day',
+          isRecurring: true,
+          cronExpression: '0 9 * * *',
+          enabled: false,
+          nextRunAt: 1000,
+          timezone: 'America/New_York',
+          consecutiveFailures: 3,
+          disabledReason: 'Calendar API down',
+        },
+      ]);
+
+      const result = await listScheduledJobs.handler({}, baseContext);
+
+      expect(result.jobs).toHaveLength(1);
+      expect(result.jobs[0]).toMatchObject({
+        job_id: 'job_9',
+        enabled: false,
+        next_run: 'paused',
+        paused_reason: 'Calendar API down',
+      });
+    });
+
+    it('should report the last run outcome', async () => {
+      (getJobsByPhone as ReturnType<typeof vi.fn>).mockReturnValueOnce([
+        {
+          id: 'job_1',
+          prompt: 'Send morning summary',
+          isRecurring: true,
+          cronExpression: '0 9 * * *',
+          enabled: true,
+          nextRunAt: Math.floor(Date.now() / 1000) + 3600,
+          timezone: 'America/New_York',
+        },
+      ]);
+      (getLastJobRun as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        id: 7,
+        jobId: 'job_1',
+        phoneNumber: '+1234567890',
+        startedAt: Date.UTC(2026, 0, 5, 14, 0),
+        finishedAt: Date.UTC(2026, 0, 5, 14, 1),
+        status: 'failed',
+        error: 'Calendar API down',
+      });
+
+      const result = await listScheduledJobs.handler({}, baseContext);
+
+      expect(getLastJobRun).toHaveBeenCalledWith(expect.anything(), 'job_1');
+      expect(result.jobs[0].last_run).toEqual({
+        status: 'failed',
+        at: 'Mon, 1/5, 9:00 AM',
+        error: 'Calendar API down',
+      });
+    });
+
+    it('should report null last_run for jobs that never ran', async () => {
+      (getJobsByPhone as ReturnType<typeof vi.fn>).mockReturnValueOnce([
+        {
+          id: 'job_1',
+          prompt: 'Send morning summary',
+          isRecurring: true,
+          cronExpression: '0 9 * * *',
+          enabled: true,
+          nextRunAt: Math.floor(Date.now() / 1000) + 3600,
+          timezone: 'America/New_York',
+        },
+      ]);
+
+      const result = await listScheduledJobs.handler({}, baseContext);
+
+      expect(result.jobs[0].last_run).toBeNull();
+    });
   });
 });
 
@@ -375,6 +605,111 @@ describe('updateScheduledJob', () => {
       );
     });
 
+    it('should reset failure tracking when resuming a job', async () => {
+      const result = await updateScheduledJob.handler(
+        {
+          job_id: 'job_123',
+          enabled: true,
+        },
+        baseContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(updateJob).toHaveBeenCalledWith(
+        expect.anything(),
+        'job_123',
+        expect.objectContaining({ enabled: true, consecutiveFailures: 0, disabledReason: null })
+      );
+    });
+
+    it('should update the misfire policy', async () => {
+      const result = await updateScheduledJob.handler(
+        {
+          job_id: 'job_123',
+          misfire_policy: 'run_all',
+        },
+        baseContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(updateJob).toHaveBeenCalledWith(
+        expect.anything(),
+        'job_123',
+        expect.objectContaining({ misfirePolicy: 'run_all' })
+      );
+    });
+
+    it('should add a condition and make the job conditional', async () => {
+      const result = await updateScheduledJob.handler(
+        { job_id: 'job_123', condition: 'It will rain today' },
+        baseContext
+      );
+
+      expect(result.success).toBe(true);
+      expect(updateJob).toHaveBeenCalledWith(
+        expect.anything(),
+        'job_123',
+        expect.objectContaining({ conditionPrompt: 'It will rain today', triggerType: 'condition' })
+      );
+    });
+
+    it('should remove a condition with an empty string', async () => {
+      (getJobById as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        id: 'job_123',
+        phoneNumber: '+1234567890',
+        prompt: 'Umbrella reminder',
+        isRecurring: true,
+        cronExpression: '0 9 * * *',
+        triggerType: 'condition',
+        conditionPrompt: 'It will rain today',
+        enabled: true,
+        nextRunAt: Math.floor(Date.now() / 1000) + 3600,
+        timezone: 'America/New_York',
+      });
+
+      await updateScheduledJob.handler({ job_id: 'job_123', condition: '' }, baseContext);
+
+      expect(updateJob).toHaveBeenCalledWith(
+        expect.anything(),
+        'job_123',
+        expect.objectContaining({ conditionPrompt: null, triggerType: 'cron' })
+      );
+    });
+
+    it('should reject a schedule change for a calendar-triggered job', async () => {
+      (getJobById as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+        id: 'job_123',
+        phoneNumber: '+1234567890',
+        prompt: 'Leave for your event',
+        isRecurring: true,
+        cronExpression: '@calendar',
+        triggerType: 'calendar_event',
+        eventOffsetMinutes: 30,
+        enabled: true,
+        nextRunAt: Math.floor(Date.now() / 1000) + 600,
+        timezone: 'America/New_York',
+      });
+
+      const result = await updateScheduledJob.handler(
+        { job_id: 'job_123', schedule: 'daily at 9am' },
+        baseContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('runs before calendar events');
+      expect(updateJob).not.toHaveBeenCalled();
+    });
+
+    it('should reject an event offset for a scheduled job', async () => {
+      const result = await updateScheduledJob.handler(
+        { job_id: 'job_123', event_offset_minutes: 15 },
+        baseContext
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('only applies to jobs triggered by calendar events');
+    });
+
     it('should update skill_name when provided', async () => {
       const result = await updateScheduledJob.handler(
         {
@@ -595,3 +930,189 @@ describe('boundary validation', () => {
     });
   });
 });
+
+describe('snoozeReminderTool', () => {
+  const baseContext: ToolContext = {
+    phoneNumber: '+1234567890',
+    channel: 'sms',
+    userConfig: { name: 'Test', timezone: 'America/New_York' },
+  };
+
+  const lastReminder = {
+    phoneNumber: '+1234567890',
+    jobId: 'job_1',
+    channel: 'sms',
+    userRequest: 'Take vitamins',
+    prompt: 'Remind me to take vitamins',
+    timezone: 'America/New_York',
+    sentAt: Math.floor(Date.now() / 1000) - 60,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should have correct name', () => {
+    expect(snoozeReminderTool.tool.name).toBe('snooze_reminder');
+  });
+
+  it('should snooze the last reminder sent by default', async () => {
+    (getLastReminderSent as ReturnType<typeof vi.fn>).mockReturnValueOnce(lastReminder);
+
+    const result = await snoozeReminderTool.handler({}, baseContext);
+
+    expect(result).toMatchObject({ success: true, job_id: 'job_snooze', reminder: 'Take vitamins' });
+    expect(snoozeReminder).toHaveBeenCalledWith(expect.anything(), lastReminder, 10, expect.any(Number));
+  });
+
+  it('should snooze a specific job', async () => {
+    (getJobById as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+      id: 'job_2',
+      phoneNumber: '+1234567890',
+      channel: 'sms',
+      prompt: 'Stretch',
+      isRecurring: true,
+      cronExpression: '0 9 * * *',
+      timezone: 'America/New_York',
+    });
+
+    const result = await snoozeReminderTool.handler({ job_id: 'job_2', minutes: 30 }, baseContext);
+
+    expect(result.success).toBe(true);
+    expect(snoozeReminder).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ jobId: 'job_2', prompt: 'Stretch' }),
+      30,
+      expect.any(Number)
+    );
+  });
+
+  it('should fail when no reminder was sent', async () => {
+    const result = await snoozeReminderTool.handler({}, baseContext);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No reminder has been sent');
+  });
+
+  it('should reject out-of-range minutes', async () => {
+    const result = await snoozeReminderTool.handler({ minutes: 0 }, baseContext);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('minutes');
+    expect(snoozeReminder).not.toHaveBeenCalled();
+  });
+});
+
+describe('pauseJobUntilTool', () => {
+  const baseContext: ToolContext = {
+    phoneNumber: '+1234567890',
+    channel: 'sms',
+    userConfig: { name: 'Test', timezone: 'America/New_York' },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getJobById as ReturnType<typeof vi.fn>).mockReturnValue({
+      id: 'job_123',
+      phoneNumber: '+1234567890',
+      prompt: 'Work out',
+      isRecurring: true,
+      cronExpression: '0 7 * * *',
+      enabled: true,
+      nextRunAt: Math.floor(Date.now() / 1000) + 3600,
+      timezone: 'America/New_York',
+    });
+  });
+
+  it('should have correct name', () => {
+    expect(pauseJobUntilTool.tool.name).toBe('pause_job_until');
+  });
+
+  it('should pause the job until the parsed day', async () => {
+    const result = await pauseJobUntilTool.handler({ job_id: 'job_123', until: 'Monday' }, baseContext);
+
+    expect(result.success).toBe(true);
+    expect(pauseJobUntil).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ id: 'job_123' }),
+      expect.any(Number)
+    );
+    expect(result.paused_until).toBeDefined();
+  });
+
+  it('should reject a day in the past', async () => {
+    const result = await pauseJobUntilTool.handler({ job_id: 'job_123', until: 'yesterday' }, baseContext);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not in the future');
+    expect(pauseJobUntil).not.toHaveBeenCalled();
+  });
+
+  it('should fail if job belongs to different user', async () => {
+    (getJobById as ReturnType<typeof vi.fn>).mockReturnValueOnce({ id: 'job_123', phoneNumber: '+9999999999' });
+
+    const result = await pauseJobUntilTool.handler({ job_id: 'job_123', until: 'Monday' }, baseContext);
+
+    expect(result).toEqual({ success: false, error: 'Job not found' });
+  });
+});
+
+describe('skipNextOccurrenceTool', () => {
+  const baseContext: ToolContext = {
+    phoneNumber: '+1234567890',
+    channel: 'sms',
+    userConfig: { name: 'Test', timezone: 'America/New_York' },
+  };
+
+  const recurringJob = {
+    id: 'job_123',
+    phoneNumber: '+1234567890',
+    prompt: 'Morning briefing',
+    isRecurring: true,
+    cronExpression: '0 7 * * *',
+    enabled: true,
+    nextRunAt: Math.floor(Date.now() / 1000) + 3600,
+    timezone: 'America/New_York',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getJobById as ReturnType<typeof vi.fn>).mockReturnValue(recurringJob);
+  });
+
+  it('should have correct name', () => {
+    expect(skipNextOccurrenceTool.tool.name).toBe('skip_next_occurrence');
+  });
+
+  it('should skip the next run by default', async () => {
+    const result = await skipNextOccurrenceTool.handler({ job_id: 'job_123' }, baseContext);
+
+    expect(result.success).toBe(true);
+    expect(skipNextOccurrence).toHaveBeenCalledWith(expect.anything(), recurringJob, undefined);
+  });
+
+  it('should skip the run on a given day', async () => {
+    const result = await skipNextOccurrenceTool.handler({ job_id: 'job_123', date: 'tomorrow' }, baseContext);
+
+    expect(result.success).toBe(true);
+    expect(skipNextOccurrence).toHaveBeenCalledWith(expect.anything(), recurringJob, expect.any(Number));
+  });
+
+  it('should fail when the job has no run that day', async () => {
+    (skipNextOccurrence as ReturnType<typeof vi.fn>).mockReturnValueOnce(null);
+
+    const result = await skipNextOccurrenceTool.handler({ job_id: 'job_123', date: 'Saturday' }, baseContext);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no run on "Saturday"');
+  });
+
+  it('should reject one-time reminders', async () => {
+    (getJobById as ReturnType<typeof vi.fn>).mockReturnValueOnce({ ...recurringJob, isRecurring: false });
+
+    const result = await skipNextOccurrenceTool.handler({ job_id: 'job_123' }, baseContext);
+
+    expect(result.success).toBe(false);
+    expect(skipNextOccurrence).not.toHaveBeenCalled();
+  });
+});
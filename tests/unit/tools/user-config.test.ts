@@ -8,16 +8,16 @@ const {
   mockConfigSet,
   mockConfigGet,
   mockConfigDelete,
-  mockGetFacts,
-  mockDeleteFact,
+  memory,
   mockConversationDeleteAll,
+  mockGetBudgetStatus,
 } = vi.hoisted(() => ({
   mockConfigSet: vi.fn(),
   mockConfigGet: vi.fn(),
   mockConfigDelete: vi.fn(),
-  mockGetFacts: vi.fn(),
-  mockDeleteFact: vi.fn(),
+  memory: { store: null as unknown },
   mockConversationDeleteAll: vi.fn(),
+  mockGetBudgetStatus: vi.fn(),
 }));
 
 vi.mock('../../../src/services/user-config/index.js', () => ({
@@ -37,10 +37,7 @@ vi.mock('../../../src/domains/scheduler/service/auto-schedule.js', () => ({
 }));
 
 vi.mock('../../../src/domains/memory/runtime/index.js', () => ({
-  getMemoryStore: vi.fn(() => ({
-    getFacts: mockGetFacts,
-    deleteFact: mockDeleteFact,
-  })),
+  getMemoryStore: vi.fn(() => memory.store),
 }));
 
 vi.mock('../../../src/services/conversation/index.js', () => ({
@@ -49,7 +46,12 @@ vi.mock('../../../src/services/conversation/index.js', () => ({
   })),
 }));
 
-import { setUserConfig, deleteUserData } from '../../../src/tools/user-config.js';
+vi.mock('../../../src/services/usage/budget.js', () => ({
+  getBudgetStatus: mockGetBudgetStatus,
+}));
+
+import { setUserConfig, deleteUserData, getUsage } from '../../../src/tools/user-config.js';
+import { SqliteMemoryStore } from '../../../src/domains/memory/repo/sqlite.js';
 import type { ToolContext } from '../../../src/tools/types.js';
 
 describe('user-config tools boundary validation', () => {
@@ -63,8 +65,7 @@ describe('user-config tools boundary validation', () => {
     mockConfigSet.mockResolvedValue(undefined);
     mockConfigGet.mockResolvedValue({ name: 'Alex', timezone: 'America/New_York' });
     mockConfigDelete.mockResolvedValue(undefined);
-    mockGetFacts.mockResolvedValue([]);
-    mockDeleteFact.mockResolvedValue(undefined);
+    memory.store = new SqliteMemoryStore(':memory:');
     mockConversationDeleteAll.mockResolvedValue(undefined);
   });
 
@@ -86,6 +87,102 @@ describe('user-config tools boundary validation', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('Invalid timezone');
     });
+
+    it('stores a scheduled digest policy with quiet hours', async () => {
+      const result = await setUserConfig.handler({
+        email_delivery: 'scheduled',
+        email_digest_times: ['18:00', '08:00'],
+        email_quiet_hours: '22:00-07:00',
+      }, context);
+
+      expect(result.success).toBe(true);
+      expect(mockConfigSet).toHaveBeenCalledWith('+1234567890', expect.objectContaining({
+        emailWatcherDelivery: {
+          mode: 'scheduled',
+          digestTimes: ['08:00', '18:00'],
+          quietHours: { start: '22:00', end: '07:00' },
+        },
+      }));
+    });
+
+    it('merges delivery updates into the existing policy', async () => {
+      mockConfigGet.mockResolvedValue({
+        timezone: 'America/New_York',
+        emailWatcherDelivery: { mode: 'hourly', quietHours: { start: '22:00', end: '07:00' } },
+      });
+
+      const result = await setUserConfig.handler({ email_quiet_hours: 'off' }, context);
+
+      expect(result.success).toBe(true);
+      expect(mockConfigSet).toHaveBeenCalledWith('+1234567890', expect.objectContaining({
+        emailWatcherDelivery: { mode: 'hourly' },
+      }));
+    });
+
+    it('requires digest times for scheduled delivery', async () => {
+      mockConfigGet.mockResolvedValue({ timezone: 'America/New_York' });
+
+      const result = await setUserConfig.handler({ email_delivery: 'scheduled' }, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('email_digest_times');
+      expect(mockConfigSet).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid delivery values', async () => {
+      const badMode = await setUserConfig.handler({ email_delivery: 'weekly' }, context);
+      expect(badMode.success).toBe(false);
+      expect(badMode.error).toContain('email_delivery');
+
+      const badTime = await setUserConfig.handler({ email_digest_times: ['8am'] }, context);
+      expect(badTime.success).toBe(false);
+      expect(badTime.error).toContain('8am');
+
+      const badQuiet = await setUserConfig.handler({ email_quiet_hours: 'nights' }, context);
+      expect(badQuiet.success).toBe(false);
+      expect(badQuiet.error).toContain('quiet hours');
+    });
+
+    it('notes that UTC is used when no timezone is set', async () => {
+      mockConfigGet.mockResolvedValue({ name: 'Alex' });
+
+      const result = await setUserConfig.handler({ email_delivery: 'hourly' }, context);
+
+      expect(result.success).toBe(true);
+      expect(result.note).toContain('UTC');
+    });
+  });
+
+  describe('getUsage', () => {
+    it('reports today and this month against the budgets', async () => {
+      mockGetBudgetStatus.mockResolvedValueOnce({
+        level: 'degraded',
+        day: {
+          period: 'day',
+          usage: { calls: 12, inputTokens: 30000, outputTokens: 4000, costUsd: 0.8342 },
+          budgetUsd: 1,
+          resetsAt: Date.parse('2026-03-11T00:00:00Z'),
+          level: 'degraded',
+        },
+        month: {
+          period: 'month',
+          usage: { calls: 80, inputTokens: 200000, outputTokens: 30000, costUsd: 4.5 },
+          budgetUsd: null,
+          resetsAt: Date.parse('2026-04-01T00:00:00Z'),
+          level: 'ok',
+        },
+      });
+
+      const result = await getUsage.handler({}, context);
+
+      expect(mockGetBudgetStatus).toHaveBeenCalledWith('+1234567890');
+      expect(result).toMatchObject({
+        success: true,
+        status: 'degraded',
+        today: { requests: 12, tokens: 34000, costUsd: 0.83, budgetUsd: 1, resetsAt: '2026-03-11T00:00:00.000Z' },
+        thisMonth: { requests: 80, tokens: 230000, costUsd: 4.5, budgetUsd: null },
+      });
+    });
   });
 
   describe('deleteUserData', () => {
@@ -110,12 +207,47 @@ describe('user-config tools boundary validation', () => {
     });
 
     it('deletes data when confirm is true', async () => {
-      mockGetFacts.mockResolvedValue([{ id: 'fact_1' }, { id: 'fact_2' }]);
+      const store = memory.store as SqliteMemoryStore;
+      const fact = { phoneNumber: '+1234567890', confidence: 1, sourceType: 'explicit' as const, extractedAt: Date.now() };
+      await store.addFact({ ...fact, fact: 'Likes black coffee' });
+      await store.addFact({ ...fact, fact: 'Has a dog named Max' });
+      const other = await store.addFact({ ...fact, phoneNumber: '+15550000000', fact: 'Lives in Denver' });
+
       const result = await deleteUserData.handler({ confirm: true }, context);
       expect(result.success).toBe(true);
       expect(mockConfigDelete).toHaveBeenCalledWith('+1234567890');
-      expect(mockDeleteFact).toHaveBeenCalledTimes(2);
+      expect(await store.getFacts('+1234567890')).toEqual([]);
+      expect((await store.getFacts('+15550000000')).map((f) => f.id)).toEqual([other.id]);
       expect(mockConversationDeleteAll).toHaveBeenCalledWith('+1234567890');
     });
+
+    it('deletes superseded facts with their embeddings and adjustments', async () => {
+      const store = memory.store as SqliteMemoryStore;
+      const old = await store.addFact({
+        phoneNumber: '+1234567890',
+        fact: 'Lives in Seattle',
+        confidence: 0.5,
+        sourceType: 'inferred',
+        extractedAt: Date.now() - 60_000,
+      });
+      await store.saveFactEmbedding(old.id, 'test', old.fact, new Float32Array([1, 0]));
+      await store.adjustConfidence({ factId: old.id, kind: 'decay', newConfidence: 0.4, reason: 'test', createdAt: Date.now() });
+      const current = await store.supersedeFact(old.id, {
+        phoneNumber: '+1234567890',
+        fact: 'Lives in Portland',
+        confidence: 1,
+        sourceType: 'explicit',
+        extractedAt: Date.now(),
+      });
+      expect(await store.getFactHistory('+1234567890')).toHaveLength(1);
+
+      await deleteUserData.handler({ confirm: true }, context);
+
+      expect(await store.getFactHistory('+1234567890')).toEqual([]);
+      expect(await store.getFacts('+1234567890')).toEqual([]);
+      expect((await store.getFactEmbeddings('+1234567890', 'test')).size).toBe(0);
+      expect(await store.getFactAdjustments(old.id)).toEqual([]);
+      expect(await store.getFactAdjustments(current.id)).toEqual([]);
+    });
   });
 });
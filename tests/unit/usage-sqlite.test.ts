@@ -0,0 +1,115 @@
+/**
+ * Unit tests for SqliteUsageStore.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SqliteUsageStore } from '../../src/services/usage/sqlite.js';
+import type { UsageRecord } from '../../src/services/usage/types.js';
+import fs from 'fs';
+import path from 'path';
+
+const TEST_DB_PATH = './data/test-usage.db';
+const PHONE = '+15551234567';
+const OTHER_PHONE = '+15559876543';
+const NOW = Date.parse('2026-03-10T15:00:00Z');
+
+function createRecord(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    phoneNumber: PHONE,
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5-20250929',
+    purpose: 'planner',
+    inputTokens: 1000,
+    outputTokens: 200,
+    costUsd: 0.006,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('SqliteUsageStore', () => {
+  let store: SqliteUsageStore;
+
+  beforeEach(() => {
+    const dir = path.dirname(TEST_DB_PATH);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+    store = new SqliteUsageStore(TEST_DB_PATH);
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('returns zero totals for a user with no calls', async () => {
+    expect(await store.getTotals(PHONE, 0)).toEqual({
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+    });
+  });
+
+  it('totals a user\'s calls since a time', async () => {
+    await store.record(createRecord({ createdAt: NOW - 2 * 86_400_000 }));
+    await store.record(createRecord());
+    await store.record(createRecord({ purpose: 'composer', inputTokens: 500, outputTokens: 100, costUsd: 0.003 }));
+    await store.record(createRecord({ phoneNumber: OTHER_PHONE }));
+
+    const totals = await store.getTotals(PHONE, NOW - 86_400_000);
+
+    expect(totals.calls).toBe(2);
+    expect(totals.inputTokens).toBe(1500);
+    expect(totals.outputTokens).toBe(300);
+    expect(totals.costUsd).toBeCloseTo(0.009);
+  });
+
+  it('stores calls made for no particular user', async () => {
+    await store.record(createRecord({ phoneNumber: null }));
+
+    const rows = await store.summarize({ sinceMs: 0 });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].phoneNumber).toBeNull();
+  });
+
+  it('summarizes by user, provider, model and purpose, most expensive first', async () => {
+    await store.record(createRecord());
+    await store.record(createRecord());
+    await store.record(createRecord({
+      provider: 'gemini',
+      model: 'gemini-2.5-flash',
+      purpose: 'agent',
+      costUsd: 0.0008,
+    }));
+    await store.record(createRecord({ phoneNumber: OTHER_PHONE, costUsd: 0.05 }));
+
+    const rows = await store.summarize({ sinceMs: 0 });
+
+    expect(rows.map((row) => [row.phoneNumber, row.model, row.calls])).toEqual([
+      [OTHER_PHONE, 'claude-sonnet-4-5-20250929', 1],
+      [PHONE, 'claude-sonnet-4-5-20250929', 2],
+      [PHONE, 'gemini-2.5-flash', 1],
+    ]);
+    expect(rows[1]).toMatchObject({ provider: 'anthropic', purpose: 'planner', inputTokens: 2000 });
+  });
+
+  it('filters the summary by user and time range', async () => {
+    await store.record(createRecord({ createdAt: NOW - 86_400_000 }));
+    await store.record(createRecord());
+    await store.record(createRecord({ createdAt: NOW + 86_400_000 }));
+    await store.record(createRecord({ phoneNumber: OTHER_PHONE }));
+
+    const rows = await store.summarize({ phoneNumber: PHONE, sinceMs: NOW, untilMs: NOW + 1 });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ phoneNumber: PHONE, calls: 1 });
+  });
+});